@@ -0,0 +1,57 @@
+-- Migration 008: Hold-invoice escrow for job payments
+-- Clients fund a job up front with a HODL invoice when a runner is assigned.
+-- The preimage stays on the server until the client confirms delivery or the
+-- auto-release window passes; cancelling the job cancels the invoice and the
+-- held HTLC is returned to the client.
+
+CREATE TABLE IF NOT EXISTS job_escrows (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- Hold invoice
+  payment_hash VARCHAR(64) NOT NULL UNIQUE,
+  preimage VARCHAR(64) NOT NULL,
+  payment_request TEXT NOT NULL,
+  amount_sats BIGINT NOT NULL CHECK (amount_sats > 0),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'held', 'settled', 'cancelled')
+  ),
+
+  -- Earliest time the escrow may be released without client confirmation
+  release_after TIMESTAMP,
+
+  -- Status Timestamps
+  created_at TIMESTAMP DEFAULT NOW(),
+  expires_at TIMESTAMP NOT NULL,
+  held_at TIMESTAMP,
+  settled_at TIMESTAMP,
+  cancelled_at TIMESTAMP,
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_job_escrows_status ON job_escrows(status);
+CREATE INDEX IF NOT EXISTS idx_job_escrows_release
+  ON job_escrows(release_after)
+  WHERE status = 'held';
+
+-- Update trigger for job_escrows
+CREATE OR REPLACE FUNCTION update_job_escrows_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_job_escrows_updated_at ON job_escrows;
+CREATE TRIGGER trigger_job_escrows_updated_at
+  BEFORE UPDATE ON job_escrows
+  FOR EACH ROW
+  EXECUTE FUNCTION update_job_escrows_updated_at();
+
+-- Comments
+COMMENT ON TABLE job_escrows IS 'Hold-invoice escrow funding each assigned job';
+COMMENT ON COLUMN job_escrows.status IS 'pending: invoice unpaid, held: HTLC accepted and locked, settled: preimage released, cancelled: invoice cancelled and client refunded';
+COMMENT ON COLUMN job_escrows.preimage IS 'Secret released to settle the hold invoice; never returned by the API';
@@ -0,0 +1,38 @@
+-- Migration 009: Job status audit history
+-- Every job status change goes through the job state machine, which records
+-- the transition here together with who triggered it.
+
+CREATE TABLE IF NOT EXISTS job_status_history (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- NULL from_status marks the initial state of the job
+  from_status VARCHAR(30),
+  to_status VARCHAR(30) NOT NULL,
+
+  -- Who triggered the transition
+  actor VARCHAR(20) NOT NULL CHECK (
+    actor IN ('client', 'runner', 'admin', 'system')
+  ),
+  actor_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+  reason TEXT,
+
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_job_status_history_job
+  ON job_status_history(job_id, created_at);
+
+-- Backfill the current status of existing jobs so every job has a history
+INSERT INTO job_status_history (job_id, from_status, to_status, actor, actor_id, reason, created_at)
+SELECT j.id, NULL, j.status, 'system', NULL, 'Backfilled from existing job status', j.updated_at
+FROM jobs j
+WHERE NOT EXISTS (
+  SELECT 1 FROM job_status_history h WHERE h.job_id = j.id
+);
+
+-- Comments
+COMMENT ON TABLE job_status_history IS 'Audit trail of job status transitions';
+COMMENT ON COLUMN job_status_history.actor IS 'Role that triggered the transition: client, runner, admin or system (background jobs, webhooks)';
+COMMENT ON COLUMN job_status_history.actor_id IS 'User who triggered the transition; NULL for system transitions';
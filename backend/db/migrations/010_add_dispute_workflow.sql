@@ -0,0 +1,68 @@
+-- Migration 010: Dispute resolution workflow
+-- Either party can dispute a job with a reason and evidence, both sides (and
+-- admins) add statements, and an admin resolves the dispute with a full
+-- payout to the runner, a partial split or a refund to the client.
+
+-- Disputes table (defined in schema.sql but never added by a migration)
+CREATE TABLE IF NOT EXISTS disputes (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER UNIQUE NOT NULL REFERENCES jobs(id),
+  opened_by INTEGER NOT NULL REFERENCES users(id),
+  status VARCHAR(30) NOT NULL DEFAULT 'open' CHECK (
+    status IN ('open', 'peer_mediation', 'admin_review', 'resolved', 'dismissed')
+  ),
+  evidence_urls TEXT[],
+  resolution_notes TEXT,
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_disputes_job_id ON disputes(job_id);
+CREATE INDEX IF NOT EXISTS idx_disputes_status ON disputes(status);
+
+-- Reason and resolution outcome
+ALTER TABLE disputes
+ADD COLUMN IF NOT EXISTS reason TEXT,
+ADD COLUMN IF NOT EXISTS resolution VARCHAR(20) CHECK (
+  resolution IN ('payout', 'split', 'refund')
+),
+ADD COLUMN IF NOT EXISTS runner_amount_cents INTEGER CHECK (runner_amount_cents >= 0),
+ADD COLUMN IF NOT EXISTS refund_amount_cents INTEGER CHECK (refund_amount_cents >= 0),
+ADD COLUMN IF NOT EXISTS resolved_by INTEGER REFERENCES users(id);
+
+-- Statements from either party or an admin
+CREATE TABLE IF NOT EXISTS dispute_statements (
+  id SERIAL PRIMARY KEY,
+  dispute_id INTEGER NOT NULL REFERENCES disputes(id) ON DELETE CASCADE,
+  author_id INTEGER NOT NULL REFERENCES users(id),
+  author_role VARCHAR(10) NOT NULL CHECK (
+    author_role IN ('client', 'runner', 'admin')
+  ),
+  body TEXT NOT NULL,
+  evidence_urls TEXT[] NOT NULL DEFAULT '{}',
+  created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_dispute_statements_dispute
+  ON dispute_statements(dispute_id, created_at);
+
+-- Update trigger for disputes
+CREATE OR REPLACE FUNCTION update_disputes_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_disputes_updated_at ON disputes;
+CREATE TRIGGER trigger_disputes_updated_at
+  BEFORE UPDATE ON disputes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_disputes_updated_at();
+
+-- Comments
+COMMENT ON COLUMN disputes.resolution IS 'payout: full price to runner, split: runner_amount_cents to runner and the rest refunded, refund: full refund to client';
+COMMENT ON COLUMN disputes.refund_amount_cents IS 'Amount owed back to the client; refunds of escrowed funds happen automatically only when the full amount is refunded';
+COMMENT ON TABLE dispute_statements IS 'Statements and evidence added to a dispute by the client, runner or an admin';
@@ -0,0 +1,55 @@
+-- Migration 011: Job offers and counter-offers
+-- Runners bid on open jobs with a price, an ETA and a note instead of taking
+-- the job at the client's asking price. Either side may answer the other's
+-- latest proposal with a counter-offer; accepting a proposal assigns the job
+-- to that runner at the agreed price.
+
+CREATE TABLE IF NOT EXISTS job_offers (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  runner_id INTEGER NOT NULL REFERENCES users(id),
+
+  -- Proposal this one counters (NULL for the runner's opening offer)
+  parent_id INTEGER REFERENCES job_offers(id) ON DELETE CASCADE,
+  proposed_by VARCHAR(10) NOT NULL CHECK (proposed_by IN ('client', 'runner')),
+
+  -- Terms
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  eta_minutes INTEGER CHECK (eta_minutes > 0),
+  note TEXT,
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (
+    status IN ('pending', 'countered', 'accepted', 'rejected', 'withdrawn')
+  ),
+
+  created_at TIMESTAMP DEFAULT NOW(),
+  updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_offers_job ON job_offers(job_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_job_offers_runner ON job_offers(runner_id, status);
+
+-- A runner negotiates one proposal at a time per job
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_offers_one_pending
+  ON job_offers(job_id, runner_id)
+  WHERE status = 'pending';
+
+-- Update trigger for job_offers
+CREATE OR REPLACE FUNCTION update_job_offers_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_job_offers_updated_at ON job_offers;
+CREATE TRIGGER trigger_job_offers_updated_at
+  BEFORE UPDATE ON job_offers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_job_offers_updated_at();
+
+-- Comments
+COMMENT ON TABLE job_offers IS 'Runner offers on open jobs and the counter-offers traded with the client';
+COMMENT ON COLUMN job_offers.proposed_by IS 'Side that made this proposal; only the other side may accept, reject or counter it';
+COMMENT ON COLUMN job_offers.status IS 'pending: awaiting an answer, countered: superseded by a counter-offer, accepted: job assigned at these terms';
@@ -0,0 +1,41 @@
+-- Migration 012: Multi-stop errands
+-- A job holds an ordered list of stops (pickups, dropoffs and anything in
+-- between) instead of a single location. Runners check stops off as they go.
+-- jobs.location / jobs.pickup_address keep mirroring the first stop so
+-- existing single-location queries continue to work.
+
+CREATE TABLE IF NOT EXISTS job_stops (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+
+  -- Order the runner visits the stops in, starting at 0
+  position INTEGER NOT NULL CHECK (position >= 0),
+  kind VARCHAR(10) NOT NULL DEFAULT 'stop' CHECK (kind IN ('pickup', 'dropoff', 'stop')),
+
+  location GEOGRAPHY(POINT, 4326) NOT NULL,
+  address TEXT NOT NULL,
+  instructions TEXT,
+
+  -- Set when the runner checks the stop off
+  completed_at TIMESTAMP,
+  completed_by INTEGER REFERENCES users(id),
+
+  created_at TIMESTAMP DEFAULT NOW(),
+
+  UNIQUE (job_id, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_stops_job ON job_stops(job_id, position);
+CREATE INDEX IF NOT EXISTS idx_job_stops_location ON job_stops USING GIST(location);
+
+-- Existing single-location jobs become one-stop jobs
+INSERT INTO job_stops (job_id, position, kind, location, address)
+SELECT j.id, 0, 'pickup', j.location::geography, COALESCE(j.pickup_address, '')
+FROM jobs j
+WHERE j.location IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM job_stops s WHERE s.job_id = j.id);
+
+-- Comments
+COMMENT ON TABLE job_stops IS 'Ordered stops of a job; the runner checks each one off on the way';
+COMMENT ON COLUMN job_stops.kind IS 'pickup: collect items, dropoff: deliver items, stop: any other errand along the route';
+COMMENT ON COLUMN job_stops.completed_at IS 'When the runner checked the stop off; NULL while still to visit';
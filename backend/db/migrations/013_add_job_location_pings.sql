@@ -0,0 +1,25 @@
+-- Migration 013: Live runner location while a job is in progress
+-- The runner's app streams location pings that form a breadcrumb trail tied
+-- to the job. The trail only exists to show the client where the runner is
+-- right now; it is purged shortly after the job leaves in_progress and never
+-- kept longer than the retention window (see NON_KYC_POLICY.md).
+
+CREATE TABLE IF NOT EXISTS job_location_pings (
+  id BIGSERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  runner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  location GEOGRAPHY(POINT, 4326) NOT NULL,
+  accuracy_m REAL CHECK (accuracy_m >= 0),
+  heading REAL CHECK (heading >= 0 AND heading < 360),
+  speed_mps REAL CHECK (speed_mps >= 0),
+
+  recorded_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_location_pings_job ON job_location_pings(job_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_location_pings_recorded ON job_location_pings(recorded_at);
+
+-- Comments
+COMMENT ON TABLE job_location_pings IS 'Temporary breadcrumb trail of the runner during an in-progress job; purged after the retention window';
+COMMENT ON COLUMN job_location_pings.recorded_at IS 'Server receive time; drives throttling and retention';
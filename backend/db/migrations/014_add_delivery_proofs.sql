@@ -0,0 +1,45 @@
+-- Migration 014: Proof of delivery
+-- Runners attach evidence when completing a job: photos, a receipt image, the
+-- name of whoever received the goods and/or a one-time delivery code that the
+-- client handed to the recipient. The client reviews the proof before
+-- releasing payment. Files live in a storage adapter; only their metadata and
+-- storage path are kept here (same shape as user_avatars).
+
+CREATE TABLE IF NOT EXISTS job_delivery_codes (
+  job_id INTEGER PRIMARY KEY REFERENCES jobs(id) ON DELETE CASCADE,
+  code VARCHAR(12) NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  used_at TIMESTAMP
+);
+
+CREATE TABLE IF NOT EXISTS job_delivery_proofs (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL UNIQUE REFERENCES jobs(id) ON DELETE CASCADE,
+  runner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  recipient_name VARCHAR(100),
+  code_verified BOOLEAN NOT NULL DEFAULT FALSE,
+  note TEXT,
+
+  submitted_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS job_delivery_attachments (
+  id SERIAL PRIMARY KEY,
+  proof_id INTEGER NOT NULL REFERENCES job_delivery_proofs(id) ON DELETE CASCADE,
+  kind VARCHAR(20) NOT NULL CHECK (kind IN ('photo', 'receipt')),
+
+  file_name VARCHAR(255) NOT NULL,
+  file_size INTEGER NOT NULL CHECK (file_size > 0),
+  mime_type VARCHAR(100) NOT NULL,
+  storage_path VARCHAR(500) NOT NULL,
+
+  uploaded_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_delivery_attachments_proof ON job_delivery_attachments(proof_id);
+
+-- Comments
+COMMENT ON TABLE job_delivery_codes IS 'One-time code the client shares with the recipient; the runner enters it on completion';
+COMMENT ON TABLE job_delivery_proofs IS 'Evidence submitted by the runner when completing a job';
+COMMENT ON COLUMN job_delivery_attachments.storage_path IS 'Key within the configured storage adapter, not a public URL';
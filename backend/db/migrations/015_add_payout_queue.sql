@@ -0,0 +1,63 @@
+-- Migration 015: Persistent payout queue
+-- runner_earnings doubles as the queue of payouts to send. Every backend
+-- replica polls it and leases due rows (FOR UPDATE SKIP LOCKED), so a payout
+-- survives restarts and is sent by one worker at a time. Failed attempts are
+-- retried with exponential backoff until retry_count reaches the limit, then
+-- the row moves to the 'dead' (dead-letter) status for an admin to look at.
+
+ALTER TABLE runner_earnings
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+ADD COLUMN IF NOT EXISTS locked_by VARCHAR(255),
+ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP,
+ADD COLUMN IF NOT EXISTS dead_at TIMESTAMP;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM pg_constraint
+    WHERE conname = 'runner_earnings_status_check' AND conrelid = 'runner_earnings'::regclass
+  ) THEN
+    ALTER TABLE runner_earnings DROP CONSTRAINT runner_earnings_status_check;
+  END IF;
+END $$;
+
+ALTER TABLE runner_earnings
+ADD CONSTRAINT runner_earnings_status_check
+CHECK (status IN (
+  'pending',     -- Queued, sent once next_attempt_at has passed
+  'processing',  -- Leased by a worker until locked_until
+  'completed',   -- Paid
+  'failed',      -- Last attempt failed, retried at next_attempt_at
+  'dead',        -- Out of retries or unsafe to retry; needs an admin
+  'cancelled'
+));
+
+-- Payouts left mid-payment by the old fire-and-forget flow may have been sent
+UPDATE runner_earnings
+SET status = 'dead',
+    dead_at = NOW(),
+    error_message = 'Interrupted before the payout queue existed; check the node before requeueing'
+WHERE status = 'processing';
+
+-- One earning per job, so concurrent enqueues cannot pay a job twice
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runner_earnings_job_unique
+ON runner_earnings(job_id)
+WHERE job_id IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_runner_earnings_due
+ON runner_earnings(next_attempt_at)
+WHERE status IN ('pending', 'failed');
+
+CREATE INDEX IF NOT EXISTS idx_runner_earnings_lease
+ON runner_earnings(locked_until)
+WHERE status = 'processing';
+
+CREATE INDEX IF NOT EXISTS idx_runner_earnings_dead
+ON runner_earnings(dead_at DESC)
+WHERE status = 'dead';
+
+-- Comments
+COMMENT ON COLUMN runner_earnings.status IS 'pending/failed: queued, processing: leased by a worker, completed: paid, dead: dead-lettered for an admin';
+COMMENT ON COLUMN runner_earnings.next_attempt_at IS 'Earliest time a worker may pick the payout up; pushed back exponentially after each failure';
+COMMENT ON COLUMN runner_earnings.locked_by IS 'Worker (pod hostname and pid) holding the lease';
+COMMENT ON COLUMN runner_earnings.payment_request IS 'Invoice being paid; set before paying so an interrupted payment is never sent again blindly';
@@ -0,0 +1,34 @@
+-- Migration 016: BTC price snapshots
+-- Every sats/fiat conversion that ends up in an invoice, payment or payout
+-- stores the rate it used, so earnings reports can be reproduced later
+-- instead of depending on the price at the time the report is run.
+
+CREATE TABLE IF NOT EXISTS price_snapshots (
+  id SERIAL PRIMARY KEY,
+  currency CHAR(3) NOT NULL CHECK (currency IN ('USD', 'KES')),
+  btc_price NUMERIC(20, 2) NOT NULL CHECK (btc_price > 0),
+  sources TEXT[] NOT NULL,
+
+  fetched_at TIMESTAMP NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_price_snapshots_currency ON price_snapshots(currency, fetched_at DESC);
+
+ALTER TABLE job_escrows
+ADD COLUMN IF NOT EXISTS price_snapshot_id INTEGER REFERENCES price_snapshots(id);
+
+ALTER TABLE runner_earnings
+ADD COLUMN IF NOT EXISTS price_snapshot_id INTEGER REFERENCES price_snapshots(id);
+
+ALTER TABLE lightning_transactions
+ADD COLUMN IF NOT EXISTS price_snapshot_id INTEGER REFERENCES price_snapshots(id);
+
+ALTER TABLE IF EXISTS payments
+ADD COLUMN IF NOT EXISTS price_snapshot_id INTEGER REFERENCES price_snapshots(id);
+
+-- Comments
+COMMENT ON TABLE price_snapshots IS 'BTC price used for a conversion, aggregated from the configured price sources';
+COMMENT ON COLUMN price_snapshots.btc_price IS 'Price of one BTC in major units of the currency (dollars, shillings)';
+COMMENT ON COLUMN price_snapshots.sources IS 'Price sources that agreed on the price';
+COMMENT ON COLUMN price_snapshots.fetched_at IS 'When the sources were read; may be before created_at when a cached quote was used';
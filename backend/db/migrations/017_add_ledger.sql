@@ -0,0 +1,107 @@
+-- Migration 017: Double-entry ledger
+-- Every movement of money posts one ledger transaction made of entries that
+-- sum to zero, so balances no longer come from ad-hoc sums over
+-- runner_earnings and lightning_transactions (which use UUID and INTEGER keys
+-- and were never reconciled). Entries are append-only; a mistake is fixed by
+-- posting a correcting transaction.
+--
+-- Accounts:
+-- - lightning_float: sats the Lightning node holds for the platform (asset)
+-- - client_escrow:   client funds received but not yet released, per client
+-- - runner_balance:  released to a runner but not yet paid out, per runner
+-- - platform_fees:   platform commission, less routing fees paid on payouts
+--
+-- Entry amounts are signed: debits are positive, credits negative.
+-- User and job ids are kept without foreign keys: the ledger outlives them.
+
+CREATE TABLE IF NOT EXISTS ledger_accounts (
+  id SERIAL PRIMARY KEY,
+  type VARCHAR(30) NOT NULL CHECK (
+    type IN ('lightning_float', 'client_escrow', 'runner_balance', 'platform_fees')
+  ),
+  user_id INTEGER,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  -- Client and runner accounts belong to a user, the others are platform-wide
+  CHECK ((type IN ('client_escrow', 'runner_balance')) = (user_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ledger_accounts_owner
+  ON ledger_accounts(type, COALESCE(user_id, 0));
+
+CREATE TABLE IF NOT EXISTS ledger_transactions (
+  id SERIAL PRIMARY KEY,
+  kind VARCHAR(30) NOT NULL CHECK (
+    kind IN ('invoice_settled', 'escrow_funded', 'escrow_refunded', 'earning_released', 'payout_sent')
+  ),
+  -- What the money movement came from, e.g. escrow:12:funded; posting the
+  -- same reference twice is a no-op
+  reference VARCHAR(100) NOT NULL UNIQUE,
+  job_id INTEGER,
+  description TEXT,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_transactions_job ON ledger_transactions(job_id);
+
+CREATE TABLE IF NOT EXISTS ledger_entries (
+  id SERIAL PRIMARY KEY,
+  transaction_id INTEGER NOT NULL REFERENCES ledger_transactions(id),
+  account_id INTEGER NOT NULL REFERENCES ledger_accounts(id),
+  amount_sats BIGINT NOT NULL CHECK (amount_sats <> 0),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_transaction ON ledger_entries(transaction_id);
+CREATE INDEX IF NOT EXISTS idx_ledger_entries_account ON ledger_entries(account_id);
+
+-- Transactions must balance; checked at commit so entries can be inserted one by one
+CREATE OR REPLACE FUNCTION check_ledger_transaction_balanced()
+RETURNS TRIGGER AS $$
+DECLARE
+  total BIGINT;
+BEGIN
+  SELECT COALESCE(SUM(amount_sats), 0) INTO total
+  FROM ledger_entries
+  WHERE transaction_id = NEW.transaction_id;
+
+  IF total <> 0 THEN
+    RAISE EXCEPTION 'Ledger transaction % does not balance (off by % sats)', NEW.transaction_id, total;
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_ledger_entries_balanced ON ledger_entries;
+CREATE CONSTRAINT TRIGGER trigger_ledger_entries_balanced
+  AFTER INSERT ON ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION check_ledger_transaction_balanced();
+
+-- Append-only
+CREATE OR REPLACE FUNCTION prevent_ledger_changes()
+RETURNS TRIGGER AS $$
+BEGIN
+  RAISE EXCEPTION 'The ledger is append-only; post a correcting transaction instead';
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_ledger_entries_append_only ON ledger_entries;
+CREATE TRIGGER trigger_ledger_entries_append_only
+  BEFORE UPDATE OR DELETE ON ledger_entries
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_changes();
+
+DROP TRIGGER IF EXISTS trigger_ledger_transactions_append_only ON ledger_transactions;
+CREATE TRIGGER trigger_ledger_transactions_append_only
+  BEFORE UPDATE OR DELETE ON ledger_transactions
+  FOR EACH ROW
+  EXECUTE FUNCTION prevent_ledger_changes();
+
+-- Comments
+COMMENT ON TABLE ledger_accounts IS 'Double-entry ledger accounts; client and runner accounts are per user';
+COMMENT ON TABLE ledger_transactions IS 'One money movement, made of balanced ledger entries';
+COMMENT ON TABLE ledger_entries IS 'Append-only ledger lines; debits positive, credits negative';
+COMMENT ON COLUMN ledger_transactions.reference IS 'Source of the movement (escrow:<id>:funded, earning:<id>:paid, ...), unique so retried postings are skipped';
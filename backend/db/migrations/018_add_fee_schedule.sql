@@ -0,0 +1,20 @@
+-- Migration 018: Platform fee schedule
+-- The platform fee kept from a runner's payout now depends on the job's
+-- category and on the Fedi community it was posted from, as well as the
+-- runner's recent volume and any promotion running when the payout is
+-- released. The schedule itself is configuration (PLATFORM_FEE_SCHEDULE);
+-- the fee applied is recorded on runner_earnings.platform_fee_cents/_sats.
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS category VARCHAR(50),
+ADD COLUMN IF NOT EXISTS fedi_community_id VARCHAR(100);
+
+CREATE INDEX IF NOT EXISTS idx_jobs_category ON jobs(category);
+
+-- Runner volume tiers count recent earnings
+CREATE INDEX IF NOT EXISTS idx_runner_earnings_runner_created ON runner_earnings(runner_id, created_at DESC);
+
+-- Comments
+COMMENT ON COLUMN jobs.category IS 'Kind of errand (delivery, shopping, ...); selects the category fee rate';
+COMMENT ON COLUMN jobs.fedi_community_id IS 'Fedi community the job was posted from, for its fee rate';
+COMMENT ON COLUMN runner_earnings.platform_fee_sats IS 'Platform fee applied under the fee schedule when the payout was queued';
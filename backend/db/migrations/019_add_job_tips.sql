@@ -0,0 +1,54 @@
+-- Migration 019: Tips
+-- Once a job's payment is confirmed the client can tip the runner, separately
+-- from the job price. A tip is either paid to a platform invoice and passed
+-- on in full through the payout queue (a runner_earnings row of kind 'tip'
+-- with no platform fee), or paid straight from the client's wallet to an
+-- invoice fetched from the runner's Lightning address, in which case the
+-- earning is recorded as already completed.
+
+CREATE TABLE IF NOT EXISTS job_tips (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  client_id INTEGER NOT NULL REFERENCES users(id),
+  runner_id INTEGER NOT NULL REFERENCES users(id),
+  method VARCHAR(20) NOT NULL CHECK (method IN ('invoice', 'lightning_address')),
+
+  amount_sats BIGINT NOT NULL CHECK (amount_sats > 0),
+  amount_cents INTEGER NOT NULL CHECK (amount_cents >= 0),
+  price_snapshot_id INTEGER REFERENCES price_snapshots(id),
+  message VARCHAR(280),
+
+  payment_hash VARCHAR(64) NOT NULL UNIQUE,
+  payment_request TEXT NOT NULL,
+  verify_url TEXT,
+  payment_preimage VARCHAR(64),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'expired')),
+  expires_at TIMESTAMP NOT NULL,
+  paid_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_tips_job ON job_tips(job_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_tips_pending ON job_tips(expires_at) WHERE status = 'pending';
+
+-- A job now has one job earning and any number of tip earnings
+ALTER TABLE runner_earnings
+ADD COLUMN IF NOT EXISTS kind VARCHAR(10) NOT NULL DEFAULT 'job' CHECK (kind IN ('job', 'tip')),
+ADD COLUMN IF NOT EXISTS tip_id INTEGER REFERENCES job_tips(id) ON DELETE SET NULL;
+
+DROP INDEX IF EXISTS idx_runner_earnings_job_unique;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runner_earnings_job_unique
+ON runner_earnings(job_id)
+WHERE job_id IS NOT NULL AND kind = 'job';
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_runner_earnings_tip_unique
+ON runner_earnings(tip_id)
+WHERE tip_id IS NOT NULL;
+
+-- Comments
+COMMENT ON TABLE job_tips IS 'Tips from clients to runners, paid on top of the job price';
+COMMENT ON COLUMN job_tips.method IS 'invoice: paid to the platform and passed on; lightning_address: paid to the runner directly';
+COMMENT ON COLUMN job_tips.verify_url IS 'LUD-21 URL to check whether a direct tip settled, when the runner''s wallet offers one';
+COMMENT ON COLUMN runner_earnings.kind IS 'job: payout of the job price; tip: a tip passed on in full';
@@ -0,0 +1,81 @@
+-- Migration 020: Recurring errands
+-- A client saves a job as a template with a recurrence rule (a subset of
+-- iCalendar RRULE, expanded in the client's time zone). The scheduler writes
+-- the template's upcoming occurrences a few weeks ahead, so the client can
+-- skip or edit single ones, and posts each occurrence as a normal job a set
+-- number of hours before it is due. The job can be offered to the runner who
+-- did the previous one first; other runners cannot bid until that runner
+-- answers or the reservation lapses.
+
+CREATE TABLE IF NOT EXISTS job_templates (
+  id SERIAL PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+
+  -- Job details copied to every occurrence
+  title VARCHAR(200) NOT NULL,
+  description TEXT NOT NULL,
+  price_cents INTEGER NOT NULL CHECK (price_cents > 0),
+  category VARCHAR(50),
+  fedi_community_id VARCHAR(100),
+  address TEXT,
+  stops JSONB NOT NULL DEFAULT '[]',
+
+  -- Schedule
+  rrule TEXT NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  starts_at TIMESTAMP NOT NULL,
+  lead_hours INTEGER NOT NULL DEFAULT 48 CHECK (lead_hours > 0),
+  prefer_previous_runner BOOLEAN NOT NULL DEFAULT TRUE,
+  status VARCHAR(10) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'paused', 'ended')),
+  generated_until TIMESTAMP,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_templates_client ON job_templates(client_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_job_templates_active ON job_templates(status) WHERE status = 'active';
+
+CREATE TABLE IF NOT EXISTS job_template_occurrences (
+  id SERIAL PRIMARY KEY,
+  template_id INTEGER NOT NULL REFERENCES job_templates(id) ON DELETE CASCADE,
+
+  -- When the rule puts it, and when it is actually due after edits
+  original_at TIMESTAMP NOT NULL,
+  scheduled_for TIMESTAMP NOT NULL,
+
+  status VARCHAR(10) NOT NULL DEFAULT 'scheduled' CHECK (
+    status IN ('scheduled', 'created', 'skipped', 'missed', 'failed')
+  ),
+  job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+  error_message TEXT,
+
+  -- Changes to this occurrence only
+  title_override VARCHAR(200),
+  description_override TEXT,
+  price_cents_override INTEGER CHECK (price_cents_override > 0),
+
+  -- Previous runner offered the job first
+  reserved_runner_id INTEGER REFERENCES users(id),
+  reserved_until TIMESTAMP,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  UNIQUE (template_id, original_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_template_occurrences_due
+  ON job_template_occurrences(scheduled_for) WHERE status = 'scheduled';
+CREATE INDEX IF NOT EXISTS idx_job_template_occurrences_job
+  ON job_template_occurrences(job_id) WHERE job_id IS NOT NULL;
+
+-- Comments
+COMMENT ON TABLE job_templates IS 'Recurring errands; each occurrence is posted as a job ahead of time';
+COMMENT ON COLUMN job_templates.stops IS 'Stops in visiting order, already checked; a single location is stored as a pickup stop';
+COMMENT ON COLUMN job_templates.rrule IS 'RRULE subset: FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL';
+COMMENT ON COLUMN job_templates.starts_at IS 'First occurrence; its local time of day in timezone is kept for every occurrence';
+COMMENT ON COLUMN job_templates.lead_hours IS 'How long before an occurrence its job is posted';
+COMMENT ON COLUMN job_templates.generated_until IS 'Occurrences up to this time have been written';
+COMMENT ON COLUMN job_template_occurrences.status IS 'scheduled: waiting to be posted, created: job posted, skipped: by the client, missed: due while the template was paused, failed: job could not be posted';
+COMMENT ON COLUMN job_template_occurrences.reserved_until IS 'Only reserved_runner_id may bid on the job until then, while their offer is pending';
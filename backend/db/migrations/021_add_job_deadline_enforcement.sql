@@ -0,0 +1,17 @@
+-- Migration 021: Job deadline enforcement
+-- A background sweeper cancels open jobs whose deadline passed without a
+-- runner, sends accepted jobs the runner never started back to the open pool
+-- and warns both parties once when a job in progress runs past its deadline.
+-- overdue_notified_at records that warning so it is only sent once.
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS overdue_notified_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_open_deadline
+  ON jobs(deadline) WHERE status = 'open' AND deadline IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_jobs_accepted_at
+  ON jobs(accepted_at) WHERE status = 'accepted';
+CREATE INDEX IF NOT EXISTS idx_jobs_in_progress_deadline
+  ON jobs(deadline) WHERE status = 'in_progress' AND overdue_notified_at IS NULL;
+
+-- Comments
+COMMENT ON COLUMN jobs.overdue_notified_at IS 'When both parties were told the job in progress is past its deadline';
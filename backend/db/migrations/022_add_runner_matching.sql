@@ -0,0 +1,32 @@
+-- Migration 022: Runner matching
+-- A new open job is pushed to the best ranked runners nearby in waves. Each
+-- wave looks a little further out and reaches runners who were not told about
+-- the job yet; job_runner_suggestions records who was told, in which wave and
+-- with which score. jobs.match_wave is the last wave sent for the job.
+
+CREATE TABLE IF NOT EXISTS job_runner_suggestions (
+  id SERIAL PRIMARY KEY,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  runner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  wave INTEGER NOT NULL CHECK (wave >= 0),
+  score DECIMAL(5,4) NOT NULL,
+  distance_km DECIMAL(10,2),
+  notified_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  UNIQUE (job_id, runner_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_job_runner_suggestions_runner ON job_runner_suggestions(runner_id, notified_at DESC);
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS match_wave INTEGER,
+ADD COLUMN IF NOT EXISTS match_wave_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_open_match_wave
+  ON jobs(match_wave_at) WHERE status = 'open';
+
+-- Comments
+COMMENT ON TABLE job_runner_suggestions IS 'Runners an open job was pushed to by the matching sweeper';
+COMMENT ON COLUMN job_runner_suggestions.score IS 'Match score between 0 and 1 when the runner was told';
+COMMENT ON COLUMN jobs.match_wave IS 'Last matching wave sent for the job, NULL before the first';
+COMMENT ON COLUMN jobs.match_wave_at IS 'When the last matching wave was sent';
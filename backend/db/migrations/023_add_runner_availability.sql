@@ -0,0 +1,43 @@
+-- Migration 023: Runner availability
+-- Beyond the on/off switch a runner can set weekly working hours in their own
+-- time zone, block out time off and cap how many jobs they take at once.
+-- A runner with no working hours is available at any time. Search, matching
+-- and assigning a job only consider runners who are available right now.
+
+ALTER TABLE runner_profiles
+ADD COLUMN IF NOT EXISTS is_available BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+ADD COLUMN IF NOT EXISTS max_concurrent_jobs INTEGER NOT NULL DEFAULT 1
+  CHECK (max_concurrent_jobs BETWEEN 1 AND 10);
+
+CREATE TABLE IF NOT EXISTS runner_working_hours (
+  id SERIAL PRIMARY KEY,
+  runner_id INTEGER NOT NULL REFERENCES runner_profiles(id) ON DELETE CASCADE,
+  weekday SMALLINT NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  starts_at TIME NOT NULL,
+  ends_at TIME NOT NULL,
+
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_runner_working_hours_runner ON runner_working_hours(runner_id, weekday);
+
+CREATE TABLE IF NOT EXISTS runner_time_off (
+  id SERIAL PRIMARY KEY,
+  runner_id INTEGER NOT NULL REFERENCES runner_profiles(id) ON DELETE CASCADE,
+  starts_at TIMESTAMPTZ NOT NULL,
+  ends_at TIMESTAMPTZ NOT NULL,
+  reason VARCHAR(200),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_runner_time_off_runner ON runner_time_off(runner_id, ends_at);
+
+-- Comments
+COMMENT ON COLUMN runner_profiles.is_available IS 'Runner switch; off hides the runner whatever the schedule says';
+COMMENT ON COLUMN runner_profiles.timezone IS 'IANA time zone the working hours are in';
+COMMENT ON COLUMN runner_profiles.max_concurrent_jobs IS 'Most jobs the runner has accepted or in progress at once';
+COMMENT ON TABLE runner_working_hours IS 'Weekly working hours in the runner''s time zone (weekday 0 is Sunday)';
+COMMENT ON TABLE runner_time_off IS 'Blocks of time the runner takes no jobs';
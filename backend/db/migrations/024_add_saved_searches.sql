@@ -0,0 +1,73 @@
+-- Migration 024: Saved searches and new-job alerts
+-- A runner can save a job search (area, radius, categories, minimum price)
+-- and be told when a new open job matches it: in the app, by email or by Web
+-- Push. Each search can hold its alerts during quiet hours in the runner's
+-- time zone, or collect them into one daily digest. saved_search_matches
+-- records which jobs matched which search and when the runner was told;
+-- jobs.search_alerted_at marks jobs already checked against all searches.
+
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id SERIAL PRIMARY KEY,
+  runner_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  name VARCHAR(100) NOT NULL,
+  location GEOGRAPHY(POINT, 4326) NOT NULL,
+  radius_km DECIMAL(6,2) NOT NULL CHECK (radius_km > 0),
+  categories TEXT[] NOT NULL DEFAULT '{}',
+  min_price_cents INTEGER CHECK (min_price_cents >= 0),
+  channels TEXT[] NOT NULL DEFAULT '{in_app}',
+  quiet_start TIME,
+  quiet_end TIME,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  digest BOOLEAN NOT NULL DEFAULT FALSE,
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  last_digest_at TIMESTAMPTZ,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  CHECK (channels <@ ARRAY['in_app', 'email', 'push']::TEXT[]),
+  CHECK ((quiet_start IS NULL) = (quiet_end IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_searches_runner ON saved_searches(runner_id);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_location ON saved_searches USING GIST(location) WHERE is_active;
+
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  id SERIAL PRIMARY KEY,
+  search_id INTEGER NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  matched_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  notified_at TIMESTAMP,
+
+  UNIQUE (search_id, job_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending
+  ON saved_search_matches(search_id) WHERE notified_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS push_subscriptions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  endpoint TEXT NOT NULL UNIQUE,
+  p256dh VARCHAR(255) NOT NULL,
+  auth VARCHAR(255) NOT NULL,
+  user_agent VARCHAR(255),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  last_used_at TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_push_subscriptions_user ON push_subscriptions(user_id);
+
+ALTER TABLE jobs
+ADD COLUMN IF NOT EXISTS search_alerted_at TIMESTAMP;
+
+CREATE INDEX IF NOT EXISTS idx_jobs_open_search_alert
+  ON jobs(created_at) WHERE status = 'open' AND search_alerted_at IS NULL;
+
+-- Comments
+COMMENT ON TABLE saved_searches IS 'Job searches runners are alerted about when a new job matches';
+COMMENT ON COLUMN saved_searches.channels IS 'Where alerts go: in_app, email and/or push';
+COMMENT ON COLUMN saved_searches.quiet_start IS 'Start of the quiet hours in the search time zone; may span midnight';
+COMMENT ON COLUMN saved_searches.digest IS 'Collect matches into one alert a day instead of one per job';
+COMMENT ON TABLE saved_search_matches IS 'New jobs that matched a saved search, and when the runner was told';
+COMMENT ON TABLE push_subscriptions IS 'Web Push subscriptions of users'' browsers';
+COMMENT ON COLUMN jobs.search_alerted_at IS 'When the job was checked against saved searches';
@@ -0,0 +1,28 @@
+-- Migration 025: Two-way blind reviews
+-- Runners review clients as well, and may flag a client who did not show up
+-- or paid late or not at all. Reviews are blind: neither side's review is
+-- visible until both have submitted, or the review window closes.
+
+ALTER TABLE reviews DROP CONSTRAINT IF EXISTS reviews_job_id_key;
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS reviewer_role VARCHAR(10) NOT NULL DEFAULT 'client'
+  CHECK (reviewer_role IN ('client', 'runner')),
+ADD COLUMN IF NOT EXISTS flags TEXT[] NOT NULL DEFAULT '{}'
+  CHECK (flags <@ ARRAY['no_show', 'late_payment', 'no_payment']::TEXT[]),
+ADD COLUMN IF NOT EXISTS revealed_at TIMESTAMP;
+
+-- Reviews written before blind reveal were always visible
+UPDATE reviews r
+SET reviewer_role = CASE WHEN r.reviewer_id = j.runner_id THEN 'runner' ELSE 'client' END,
+    revealed_at = COALESCE(r.created_at, NOW())
+FROM jobs j
+WHERE r.job_id = j.id AND r.revealed_at IS NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_reviews_job_role ON reviews(job_id, reviewer_role);
+CREATE INDEX IF NOT EXISTS idx_reviews_unrevealed ON reviews(job_id) WHERE revealed_at IS NULL;
+
+-- Comments
+COMMENT ON COLUMN reviews.reviewer_role IS 'Side of the job the reviewer was on; a client review rates the runner';
+COMMENT ON COLUMN reviews.flags IS 'Problems a runner reports about the client: no_show, late_payment, no_payment';
+COMMENT ON COLUMN reviews.revealed_at IS 'When the review became visible; NULL while waiting for the other side';
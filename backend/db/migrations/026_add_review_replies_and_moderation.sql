@@ -0,0 +1,37 @@
+-- Migration 026: Review sub-ratings, replies and moderation
+-- Clients can rate a runner's punctuality, communication and care of items
+-- next to the overall rating. The reviewed user may reply publicly once.
+-- Anyone can report an abusive review; admins work through the open
+-- reports and can hide a review without deleting it. Hidden reviews drop
+-- out of listings and rating averages.
+
+ALTER TABLE reviews
+ADD COLUMN IF NOT EXISTS punctuality_rating SMALLINT CHECK (punctuality_rating BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS communication_rating SMALLINT CHECK (communication_rating BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS care_of_items_rating SMALLINT CHECK (care_of_items_rating BETWEEN 1 AND 5),
+ADD COLUMN IF NOT EXISTS reply TEXT,
+ADD COLUMN IF NOT EXISTS replied_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS hidden_at TIMESTAMP,
+ADD COLUMN IF NOT EXISTS hidden_by INTEGER REFERENCES users(id),
+ADD COLUMN IF NOT EXISTS hidden_reason TEXT;
+
+CREATE TABLE IF NOT EXISTS review_reports (
+  id SERIAL PRIMARY KEY,
+  review_id INTEGER NOT NULL REFERENCES reviews(id) ON DELETE CASCADE,
+  reporter_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reason VARCHAR(500) NOT NULL,
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'upheld', 'dismissed')),
+  resolved_by INTEGER REFERENCES users(id),
+  resolved_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+
+  UNIQUE (review_id, reporter_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_review_reports_open ON review_reports(created_at) WHERE status = 'open';
+
+-- Comments
+COMMENT ON COLUMN reviews.care_of_items_rating IS 'How carefully the runner handled the items (client reviews only)';
+COMMENT ON COLUMN reviews.reply IS 'Public reply of the reviewed user; one per review';
+COMMENT ON COLUMN reviews.hidden_at IS 'When an admin hid the review; hidden reviews are kept but not shown or counted';
+COMMENT ON TABLE review_reports IS 'Reports of abusive reviews waiting for or resolved by an admin';
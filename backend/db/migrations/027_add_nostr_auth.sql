@@ -0,0 +1,24 @@
+-- Migration 027: Nostr login
+-- Users sign in by signing a kind-22242 event with their Nostr key, via a
+-- NIP-07 browser extension or the Fedi wallet. The server hands out a
+-- one-time challenge that the event must carry; a challenge is consumed on
+-- first use and expires after a few minutes, so a signed event cannot be
+-- replayed.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS nostr_pubkey VARCHAR(64);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_nostr_pubkey ON users(nostr_pubkey);
+
+CREATE TABLE IF NOT EXISTS nostr_auth_challenges (
+  challenge VARCHAR(64) PRIMARY KEY,
+  expires_at TIMESTAMP NOT NULL,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_nostr_auth_challenges_expires ON nostr_auth_challenges(expires_at);
+
+-- Comments
+COMMENT ON COLUMN users.nostr_pubkey IS 'Hex x-only public key the user signs in with';
+COMMENT ON TABLE nostr_auth_challenges IS 'One-time nonces for Nostr login; used_at is set when consumed';
@@ -0,0 +1,26 @@
+-- Migration 028: LNURL-auth login
+-- Users sign in with their Lightning wallet (LUD-04), no phone number or
+-- password needed. The login page shows a one-time k1 challenge as an LNURL
+-- QR code; the wallet signs k1 with a linking key derived for this site and
+-- calls back. The page polls with k1 until the signature has arrived, then
+-- claims the session once. Accounts are keyed on the linking key.
+
+ALTER TABLE users
+ADD COLUMN IF NOT EXISTS lnurl_linking_key VARCHAR(66);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_users_lnurl_linking_key ON users(lnurl_linking_key);
+
+CREATE TABLE IF NOT EXISTS lnurl_auth_challenges (
+  k1 VARCHAR(64) PRIMARY KEY,
+  linking_key VARCHAR(66),
+  expires_at TIMESTAMP NOT NULL,
+  signed_at TIMESTAMP,
+  claimed_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_lnurl_auth_challenges_expires ON lnurl_auth_challenges(expires_at);
+
+-- Comments
+COMMENT ON COLUMN users.lnurl_linking_key IS 'Compressed secp256k1 linking key (hex) the user signs in with via LNURL-auth';
+COMMENT ON TABLE lnurl_auth_challenges IS 'One-time k1 challenges for LNURL-auth; signed_at is set by the wallet callback, claimed_at when the page signs in';
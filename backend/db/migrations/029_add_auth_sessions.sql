@@ -0,0 +1,54 @@
+-- Migration 029: Sessions and refresh tokens
+-- Every login opens a session. Access tokens are short-lived and carry the
+-- session id; a refresh token renews them and is rotated on every use. A
+-- refresh token that is presented twice was stolen or leaked, so the whole
+-- session is revoked. Users see their sessions, with the device and IP the
+-- security audit log recorded for them, and can end one or all of them.
+
+CREATE TABLE IF NOT EXISTS auth_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  role VARCHAR(20) NOT NULL DEFAULT 'client',
+  expires_at TIMESTAMP NOT NULL,
+  last_used_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  revoked_at TIMESTAMP,
+  revoked_reason VARCHAR(10) CHECK (revoked_reason IN ('logout', 'revoked', 'reuse')),
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_sessions_user_active ON auth_sessions(user_id) WHERE revoked_at IS NULL;
+
+CREATE TABLE IF NOT EXISTS auth_refresh_tokens (
+  token_hash VARCHAR(64) PRIMARY KEY,
+  session_id INTEGER NOT NULL REFERENCES auth_sessions(id) ON DELETE CASCADE,
+  used_at TIMESTAMP,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_auth_refresh_tokens_session ON auth_refresh_tokens(session_id);
+
+-- Migrations 003 and 007 both define security_audit_log; whichever ran first
+-- won. Make sure the columns written by the profile and session code exist.
+ALTER TABLE security_audit_log
+ADD COLUMN IF NOT EXISTS action VARCHAR(100),
+ADD COLUMN IF NOT EXISTS success BOOLEAN DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS details JSONB;
+
+DO $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM information_schema.columns
+    WHERE table_name = 'security_audit_log' AND column_name = 'event_type'
+  ) THEN
+    ALTER TABLE security_audit_log
+    ALTER COLUMN event_type DROP NOT NULL,
+    ALTER COLUMN event_severity DROP NOT NULL;
+  END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_security_audit_session ON security_audit_log((details->>'session_id'))
+WHERE details ? 'session_id';
+
+-- Comments
+COMMENT ON TABLE auth_sessions IS 'Login sessions; revoked_reason is logout, revoked (by the user) or reuse (of a refresh token)';
+COMMENT ON TABLE auth_refresh_tokens IS 'sha256 of every refresh token issued; used_at is set when it is rotated';
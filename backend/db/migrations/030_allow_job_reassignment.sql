@@ -0,0 +1,17 @@
+-- Migration 030: Reassigning jobs released back to the open pool
+-- A job the runner never started goes back to the open pool with its escrow
+-- cancelled. The next runner needs a fresh escrow, so a job keeps its
+-- cancelled escrows and may have at most one that is still live.
+-- Accepting an offer sets the job to the offer's price; listed_price_cents
+-- keeps the client's own price so a released job is listed at it again.
+
+ALTER TABLE job_escrows DROP CONSTRAINT IF EXISTS job_escrows_job_id_key;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_job_escrows_live_job
+  ON job_escrows(job_id) WHERE status <> 'cancelled';
+CREATE INDEX IF NOT EXISTS idx_job_escrows_job ON job_escrows(job_id);
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS listed_price_cents INTEGER;
+
+-- Comments
+COMMENT ON COLUMN jobs.listed_price_cents IS 'Price the client listed the job at, while an accepted offer''s price applies';
@@ -0,0 +1,74 @@
+-- Migration 031: Client refunds for split dispute resolutions
+-- A hold invoice settles in full, so when an admin splits a disputed job the
+-- runner's share goes through the payout queue and the client's share is paid
+-- back out of the node. client_refunds is the queue of those refunds and
+-- follows the payout queue's rules: replicas lease due rows, failed attempts
+-- back off, and refunds out of retries or in an unknown state are dead-lettered.
+-- Each attempt pays the Lightning address on the client's profile at the time.
+
+CREATE TABLE IF NOT EXISTS client_refunds (
+  id SERIAL PRIMARY KEY,
+  client_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+  dispute_id INTEGER NOT NULL UNIQUE REFERENCES disputes(id) ON DELETE CASCADE,
+
+  amount_cents INTEGER NOT NULL CHECK (amount_cents > 0),
+  amount_sats BIGINT NOT NULL CHECK (amount_sats > 0),
+  price_snapshot_id INTEGER REFERENCES price_snapshots(id),
+
+  status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN (
+    'pending',     -- Queued, sent once next_attempt_at has passed
+    'processing',  -- Leased by a worker until locked_until
+    'completed',   -- Paid
+    'failed',      -- Last attempt failed, retried at next_attempt_at
+    'dead'         -- Out of retries or unsafe to retry; needs an admin
+  )),
+  lightning_address VARCHAR(255),
+  payment_request TEXT,
+  payment_hash VARCHAR(64),
+  payment_preimage VARCHAR(64),
+  error_message TEXT,
+
+  -- Queue
+  retry_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  locked_by VARCHAR(255),
+  locked_until TIMESTAMP,
+
+  -- Status Timestamps
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP,
+  dead_at TIMESTAMP,
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_client_refunds_due
+  ON client_refunds(next_attempt_at) WHERE status IN ('pending', 'failed');
+CREATE INDEX IF NOT EXISTS idx_client_refunds_lease
+  ON client_refunds(locked_until) WHERE status = 'processing';
+
+-- Update trigger for client_refunds
+CREATE OR REPLACE FUNCTION update_client_refunds_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_client_refunds_updated_at ON client_refunds;
+CREATE TRIGGER trigger_client_refunds_updated_at
+  BEFORE UPDATE ON client_refunds
+  FOR EACH ROW
+  EXECUTE FUNCTION update_client_refunds_updated_at();
+
+-- A sent refund is posted to the ledger
+ALTER TABLE ledger_transactions DROP CONSTRAINT IF EXISTS ledger_transactions_kind_check;
+ALTER TABLE ledger_transactions
+ADD CONSTRAINT ledger_transactions_kind_check
+CHECK (kind IN ('invoice_settled', 'escrow_funded', 'escrow_refunded', 'earning_released', 'payout_sent', 'refund_sent'));
+
+-- Comments
+COMMENT ON TABLE client_refunds IS 'Queue of refunds paid to clients, e.g. their share of a split dispute';
+COMMENT ON COLUMN client_refunds.payment_request IS 'Invoice being paid; set before paying so an interrupted refund is never sent again blindly';
+COMMENT ON COLUMN disputes.refund_amount_cents IS 'Amount owed back to the client: a refund cancels the escrow, a split queues a client refund';
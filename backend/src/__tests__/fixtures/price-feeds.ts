@@ -0,0 +1,38 @@
+/**
+ * Price feed fixtures
+ * Responses recorded from the public price APIs, trimmed to the fields we read
+ */
+
+export const coinbaseExchangeRates = {
+  data: {
+    currency: 'BTC',
+    rates: {
+      EUR: '59870.21',
+      KES: '8391000.4',
+      USD: '64980.55',
+    },
+  },
+};
+
+export const krakenTicker = {
+  error: [],
+  result: {
+    XXBTZUSD: {
+      a: ['65013.00000', '1', '1.000'],
+      b: ['65012.90000', '2', '2.000'],
+      c: ['65012.30000', '0.00102000'],
+      v: ['1021.64517093', '2190.31228476'],
+    },
+  },
+};
+
+export const krakenError = {
+  error: ['EService:Unavailable'],
+};
+
+export const coinGeckoSimplePrice = {
+  bitcoin: {
+    usd: 65001,
+    kes: 8395120,
+  },
+};
@@ -0,0 +1,62 @@
+/**
+ * Auth Session Routes Tests
+ * Failed refreshes answer with their status instead of crashing the server
+ */
+
+import express from 'express';
+import request from 'supertest';
+import authSessionRouter from '../../routes/auth-session.routes.js';
+import { errorHandler } from '../../middleware/error/errorHandler.js';
+import { SessionRepository } from '../../database/repositories/SessionRepository.js';
+import { SecurityAuditRepository } from '../../database/repositories/SecurityAuditRepository.js';
+
+describe('Auth session routes', () => {
+  const app = express();
+  app.use(express.json());
+  app.use('/api/auth/session', authSessionRouter);
+  app.use(errorHandler);
+
+  const unhandled = jest.fn();
+
+  beforeAll(() => {
+    process.on('unhandledRejection', unhandled);
+  });
+
+  afterAll(() => {
+    process.off('unhandledRejection', unhandled);
+  });
+
+  beforeEach(() => {
+    jest.restoreAllMocks();
+    jest.spyOn(SecurityAuditRepository.prototype, 'log').mockResolvedValue(undefined);
+  });
+
+  it('should answer a reused refresh token with 401 and keep serving', async () => {
+    jest.spyOn(SessionRepository.prototype, 'useRefreshToken').mockResolvedValue(null);
+    jest
+      .spyOn(SessionRepository.prototype, 'findRefreshToken')
+      .mockResolvedValue({ session_id: 5, user_id: 42 } as never);
+    const revoke = jest.spyOn(SessionRepository.prototype, 'revoke').mockResolvedValue(true);
+
+    const reused = await request(app).post('/api/auth/session/refresh').send({ refreshToken: 'spent' });
+
+    expect(reused.status).toBe(401);
+    expect(reused.body.error.code).toBe('REFRESH_TOKEN_REUSED');
+    expect(revoke).toHaveBeenCalledWith(5, 'reuse');
+
+    const missing = await request(app).post('/api/auth/session/refresh').send({});
+
+    expect(missing.status).toBe(400);
+    expect(unhandled).not.toHaveBeenCalled();
+  });
+
+  it('should answer an unknown refresh token with 401', async () => {
+    jest.spyOn(SessionRepository.prototype, 'useRefreshToken').mockResolvedValue(null);
+    jest.spyOn(SessionRepository.prototype, 'findRefreshToken').mockResolvedValue(null);
+
+    const response = await request(app).post('/api/auth/session/refresh').send({ refreshToken: 'made-up' });
+
+    expect(response.status).toBe(401);
+    expect(response.body.error.code).toBe('REFRESH_TOKEN_INVALID');
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Delivery Proof Unit Tests
+ * Validating proof of delivery, delivery codes and local disk storage
+ */
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: { enqueueJobPayout: jest.fn() },
+}));
+
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { DeliveryProofService } from '../../services/delivery/DeliveryProofService.js';
+import { LocalDiskStorage } from '../../services/storage/LocalDiskStorage.js';
+import type { JobService } from '../../services/job/JobService.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type {
+  DeliveryCode,
+  DeliveryProofRepository,
+} from '../../database/repositories/DeliveryProofRepository.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+// Smallest valid file headers the service recognises
+const JPEG = Buffer.from([0xff, 0xd8, 0xff, 0xe0, 0x00, 0x10, 0x4a, 0x46, 0x49, 0x46]);
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00]);
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'in_progress',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('DeliveryProofService', () => {
+  let job: Job;
+  let issuedCode: DeliveryCode | null;
+  let uploadDir: string;
+  let proofRepository: Record<string, jest.Mock>;
+  let jobService: Record<string, jest.Mock>;
+  let service: DeliveryProofService;
+
+  const storedFiles = async (): Promise<string[]> =>
+    readdir(path.join(uploadDir, 'delivery-proofs', '1')).catch(() => []);
+
+  beforeEach(async () => {
+    job = buildJob();
+    issuedCode = null;
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'delivery-proofs-'));
+
+    proofRepository = {
+      findCode: jest.fn(async () => issuedCode),
+      createCode: jest.fn(async (jobId: number, code: string) => ({
+        job_id: jobId,
+        code,
+        created_at: new Date(),
+        used_at: null,
+      })),
+      create: jest.fn(async (data) => ({ id: 5, ...data })),
+      findByJobId: jest.fn().mockResolvedValue(null),
+      deleteByJobId: jest.fn().mockResolvedValue(undefined),
+    };
+    jobService = {
+      completeJob: jest.fn(async () => ({ ...job, status: 'awaiting_payment' })),
+    };
+    const jobRepository = { findById: jest.fn(async () => job) };
+
+    service = new DeliveryProofService(
+      proofRepository as unknown as DeliveryProofRepository,
+      jobRepository as unknown as JobRepository,
+      jobService as unknown as JobService,
+      new LocalDiskStorage(uploadDir)
+    );
+  });
+
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should store photos with their detected type and complete the job', async () => {
+    const result = await service.completeJob(1, RUNNER_ID, {
+      attachments: [
+        { fileName: 'doorstep.jpg', data: `data:image/png;base64,${JPEG.toString('base64')}` },
+        { kind: 'receipt', fileName: 'receipt.png', data: PNG.toString('base64') },
+      ],
+      recipientName: '  Sam  ',
+    });
+
+    expect(result.status).toBe('awaiting_payment');
+    expect(await storedFiles()).toHaveLength(2);
+
+    const proof = proofRepository['create']!.mock.calls[0]![0];
+    expect(proof.recipientName).toBe('Sam');
+    expect(proof.codeVerified).toBe(false);
+    expect(proof.attachments.map((a: any) => [a.kind, a.mimeType])).toEqual([
+      ['photo', 'image/jpeg'],
+      ['receipt', 'image/png'],
+    ]);
+  });
+
+  it('should complete without a proof when none is given', async () => {
+    await service.completeJob(1, RUNNER_ID);
+
+    expect(proofRepository['create']).not.toHaveBeenCalled();
+    expect(jobService['completeJob']).toHaveBeenCalledWith(1, RUNNER_ID);
+  });
+
+  it('should reject files that are not images', async () => {
+    await expect(
+      service.completeJob(1, RUNNER_ID, {
+        attachments: [{ fileName: 'photo.jpg', data: Buffer.from('<svg onload=alert(1)>').toString('base64') }],
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_ATTACHMENT_TYPE' });
+    expect(jobService['completeJob']).not.toHaveBeenCalled();
+  });
+
+  it('should reject too many attachments', async () => {
+    const attachment = { fileName: 'photo.jpg', data: JPEG.toString('base64') };
+
+    await expect(
+      service.completeJob(1, RUNNER_ID, { attachments: [attachment, attachment, attachment, attachment] })
+    ).rejects.toMatchObject({ code: 'TOO_MANY_ATTACHMENTS' });
+  });
+
+  it('should require the issued delivery code and verify it', async () => {
+    issuedCode = { job_id: 1, code: '042917', created_at: new Date(), used_at: null };
+
+    await expect(service.completeJob(1, RUNNER_ID, { recipientName: 'Sam' })).rejects.toMatchObject({
+      code: 'DELIVERY_CODE_REQUIRED',
+    });
+    await expect(service.completeJob(1, RUNNER_ID, { deliveryCode: '042918' })).rejects.toMatchObject({
+      code: 'INVALID_DELIVERY_CODE',
+    });
+
+    await service.completeJob(1, RUNNER_ID, { deliveryCode: ' 042917 ' });
+    expect(proofRepository['create']).toHaveBeenCalledWith(expect.objectContaining({ codeVerified: true }));
+  });
+
+  it('should discard the stored proof when the job cannot be completed', async () => {
+    jobService['completeJob']!.mockRejectedValue(Object.assign(new Error('Stops left'), { code: 'STOPS_INCOMPLETE' }));
+
+    await expect(
+      service.completeJob(1, RUNNER_ID, { attachments: [{ fileName: 'photo.jpg', data: JPEG.toString('base64') }] })
+    ).rejects.toMatchObject({ code: 'STOPS_INCOMPLETE' });
+
+    expect(proofRepository['deleteByJobId']).toHaveBeenCalledWith(1);
+    expect(await storedFiles()).toHaveLength(0);
+  });
+
+  it('should only let the assigned runner complete an in-progress job', async () => {
+    await expect(service.completeJob(1, 99)).rejects.toMatchObject({ code: 'NOT_ASSIGNED_RUNNER' });
+
+    job = buildJob({ status: 'accepted' });
+    await expect(service.completeJob(1, RUNNER_ID)).rejects.toMatchObject({ code: 'JOB_NOT_IN_PROGRESS' });
+  });
+
+  it('should issue a six digit code to the client only', async () => {
+    const issued = await service.issueDeliveryCode(1, CLIENT_ID);
+
+    expect(issued.code).toMatch(/^\d{6}$/);
+    await expect(service.issueDeliveryCode(1, RUNNER_ID)).rejects.toMatchObject({ code: 'NOT_JOB_CLIENT' });
+  });
+
+  it('should serve attachments to job participants only', async () => {
+    proofRepository['findByJobId']!.mockResolvedValue({ id: 5, attachments: [] });
+
+    await expect(service.getAttachment(1, 3, 99)).rejects.toMatchObject({ code: 'NOT_JOB_PARTICIPANT' });
+    await expect(service.getAttachment(1, 3, CLIENT_ID)).rejects.toMatchObject({ code: 'ATTACHMENT_NOT_FOUND' });
+  });
+});
+
+describe('LocalDiskStorage', () => {
+  let uploadDir: string;
+  let storage: LocalDiskStorage;
+
+  beforeEach(async () => {
+    uploadDir = await mkdtemp(path.join(os.tmpdir(), 'storage-'));
+    storage = new LocalDiskStorage(uploadDir);
+  });
+
+  afterEach(async () => {
+    await rm(uploadDir, { recursive: true, force: true });
+  });
+
+  it('should round-trip files under a generated name', async () => {
+    const file = await storage.save('delivery-proofs/1', '../../etc/passwd.JPG', JPEG);
+
+    expect(file.storagePath).toMatch(/^delivery-proofs\/1\/[0-9a-f-]{36}\.jpg$/);
+    expect(await storage.read(file.storagePath)).toEqual(JPEG);
+
+    await storage.remove(file.storagePath);
+    await expect(storage.read(file.storagePath)).rejects.toMatchObject({ code: 'FILE_NOT_FOUND' });
+  });
+
+  it('should refuse paths outside the upload directory', async () => {
+    await expect(storage.read('../secrets.txt')).rejects.toMatchObject({ code: 'INVALID_STORAGE_PATH' });
+  });
+});
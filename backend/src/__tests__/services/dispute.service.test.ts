@@ -0,0 +1,283 @@
+/**
+ * DisputeService Unit Tests
+ * Opening, arguing and resolving job disputes
+ */
+
+const mockEnqueueJobPayout = jest.fn();
+const mockEnqueueClientRefund = jest.fn();
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: {
+    enqueueJobPayout: (jobId: number, amountCents?: number) =>
+      mockEnqueueJobPayout(jobId, amountCents),
+    enqueueClientRefund: (jobId: number, disputeId: number, amountCents: number) =>
+      mockEnqueueClientRefund(jobId, disputeId, amountCents),
+  },
+}));
+
+import { DisputeService } from '../../services/dispute/DisputeService.js';
+import type {
+  Dispute,
+  DisputeRepository,
+} from '../../database/repositories/DisputeRepository.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import type { EscrowService } from '../../services/escrow/EscrowService.js';
+import type { JobStatus } from '../../types/index.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+const ADMIN_ID = 99;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'awaiting_payment',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: new Date(),
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('DisputeService', () => {
+  let job: Job;
+  let dispute: Dispute | null;
+  let disputeRepository: Record<string, jest.Mock>;
+  let jobRepository: Record<string, jest.Mock>;
+  let runnerRepository: Record<string, jest.Mock>;
+  let escrowService: Record<string, jest.Mock>;
+  let service: DisputeService;
+
+  beforeEach(() => {
+    job = buildJob();
+    dispute = null;
+
+    disputeRepository = {
+      findById: jest.fn(async () => dispute),
+      findByJobId: jest.fn(async () => dispute),
+      create: jest.fn(async (data) => {
+        dispute = {
+          id: 7,
+          job_id: data.jobId,
+          opened_by: data.openedBy,
+          status: 'open',
+          reason: data.reason,
+          evidence_urls: data.evidenceUrls,
+          resolution: null,
+          runner_amount_cents: null,
+          refund_amount_cents: null,
+          resolution_notes: null,
+          resolved_by: null,
+          resolved_at: null,
+          created_at: new Date(),
+          updated_at: new Date(),
+        };
+        return dispute;
+      }),
+      resolve: jest.fn(async (_id, data) => {
+        dispute = {
+          ...dispute!,
+          status: 'resolved',
+          resolution: data.resolution,
+          runner_amount_cents: data.runnerAmountCents,
+          refund_amount_cents: data.refundAmountCents,
+          resolution_notes: data.notes,
+          resolved_by: data.resolvedBy,
+          resolved_at: new Date(),
+        };
+        return dispute;
+      }),
+      addStatement: jest.fn(async (data) => ({
+        id: 1,
+        dispute_id: data.disputeId,
+        author_id: data.authorId,
+        author_role: data.authorRole,
+        body: data.body,
+        evidence_urls: data.evidenceUrls,
+        created_at: new Date(),
+      })),
+      updateStatus: jest.fn(),
+      findStatements: jest.fn(async () => []),
+      countRefundedForRunner: jest.fn(async () => 1),
+      markTransactionsDisputed: jest.fn(),
+    };
+
+    jobRepository = {
+      findById: jest.fn(async () => job),
+      transitionStatus: jest.fn(async (_id: number, _from: JobStatus, to: JobStatus) => {
+        job = { ...job, status: to };
+        return job;
+      }),
+      countDeliveredJobsForRunner: jest.fn(async () => 3),
+    };
+
+    runnerRepository = {
+      findByUserId: jest.fn(async () => ({ id: 55 })),
+      updateStats: jest.fn(),
+    };
+
+    escrowService = {
+      settleEscrow: jest.fn(),
+      cancelEscrow: jest.fn(),
+    };
+
+    service = new DisputeService(
+      disputeRepository as unknown as DisputeRepository,
+      jobRepository as unknown as JobRepository,
+      runnerRepository as unknown as RunnerRepository,
+      escrowService as unknown as EscrowService
+    );
+
+    mockEnqueueJobPayout.mockReset().mockResolvedValue({ id: 1 });
+    mockEnqueueClientRefund.mockReset().mockResolvedValue({ id: 1 });
+  });
+
+  async function openDispute(): Promise<void> {
+    await service.openDispute({
+      jobId: job.id,
+      userId: CLIENT_ID,
+      reason: 'Groceries were never delivered',
+      evidenceUrls: ['https://example.com/photo.jpg'],
+    });
+  }
+
+  describe('openDispute', () => {
+    it('should move the job to disputed and record the dispute', async () => {
+      await openDispute();
+
+      expect(job.status).toBe('disputed');
+      expect(dispute!.opened_by).toBe(CLIENT_ID);
+      expect(disputeRepository['markTransactionsDisputed']).toHaveBeenCalledWith(job.id);
+    });
+
+    it('should reject users outside the job', async () => {
+      await expect(
+        service.openDispute({ jobId: job.id, userId: 123, reason: 'Not my job at all' })
+      ).rejects.toMatchObject({ code: 'NOT_JOB_PARTICIPANT' });
+    });
+
+    it('should reject jobs that cannot be disputed', async () => {
+      job = buildJob({ status: 'open', runner_id: null });
+
+      await expect(
+        service.openDispute({ jobId: job.id, userId: CLIENT_ID, reason: 'Changed my mind' })
+      ).rejects.toMatchObject({ code: 'INVALID_STATUS_TRANSITION' });
+      expect(disputeRepository['create']).not.toHaveBeenCalled();
+    });
+
+    it('should reject non-http evidence', async () => {
+      await expect(
+        service.openDispute({
+          jobId: job.id,
+          userId: RUNNER_ID,
+          reason: 'Client refuses to confirm delivery',
+          evidenceUrls: ['javascript:alert(1)'],
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_EVIDENCE' });
+    });
+  });
+
+  describe('addStatement', () => {
+    it('should put the dispute under admin review once an admin responds', async () => {
+      await openDispute();
+
+      const statement = await service.addStatement({
+        disputeId: dispute!.id,
+        userId: ADMIN_ID,
+        isAdmin: true,
+        body: 'Please upload the delivery receipt',
+      });
+
+      expect(statement.authorRole).toBe('admin');
+      expect(disputeRepository['updateStatus']).toHaveBeenCalledWith(dispute!.id, 'admin_review');
+    });
+  });
+
+  describe('resolveDispute', () => {
+    beforeEach(async () => {
+      await openDispute();
+    });
+
+    it('should settle escrow and pay the runner in full', async () => {
+      const resolved = await service.resolveDispute({
+        disputeId: dispute!.id,
+        adminId: ADMIN_ID,
+        resolution: 'payout',
+      });
+
+      expect(job.status).toBe('payment_confirmed');
+      expect(escrowService['settleEscrow']).toHaveBeenCalledWith(job.id);
+      expect(mockEnqueueJobPayout).toHaveBeenCalledWith(job.id, 2500);
+      expect(resolved.refundAmountCents).toBe(0);
+    });
+
+    it('should pay the runner their share of a split and refund the client the rest', async () => {
+      const resolved = await service.resolveDispute({
+        disputeId: dispute!.id,
+        adminId: ADMIN_ID,
+        resolution: 'split',
+        runnerAmountCents: 1000,
+      });
+
+      expect(escrowService['settleEscrow']).toHaveBeenCalledWith(job.id);
+      expect(mockEnqueueJobPayout).toHaveBeenCalledWith(job.id, 1000);
+      expect(mockEnqueueClientRefund).toHaveBeenCalledWith(job.id, dispute!.id, 1500);
+      expect(resolved.runnerAmountCents).toBe(1000);
+      expect(resolved.refundAmountCents).toBe(1500);
+    });
+
+    it('should reject a split outside the job price', async () => {
+      await expect(
+        service.resolveDispute({
+          disputeId: dispute!.id,
+          adminId: ADMIN_ID,
+          resolution: 'split',
+          runnerAmountCents: 2500,
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_SPLIT_AMOUNT' });
+
+      expect(job.status).toBe('disputed');
+      expect(escrowService['settleEscrow']).not.toHaveBeenCalled();
+      expect(mockEnqueueClientRefund).not.toHaveBeenCalled();
+    });
+
+    it('should refund the client and update runner stats', async () => {
+      await service.resolveDispute({
+        disputeId: dispute!.id,
+        adminId: ADMIN_ID,
+        resolution: 'refund',
+      });
+
+      expect(job.status).toBe('cancelled');
+      expect(escrowService['cancelEscrow']).toHaveBeenCalledWith(job.id);
+      expect(mockEnqueueJobPayout).not.toHaveBeenCalled();
+      expect(mockEnqueueClientRefund).not.toHaveBeenCalled();
+      expect(runnerRepository['updateStats']).toHaveBeenCalledWith(55, { completionRate: 75 });
+    });
+
+    it('should not resolve a dispute twice', async () => {
+      await service.resolveDispute({
+        disputeId: dispute!.id,
+        adminId: ADMIN_ID,
+        resolution: 'payout',
+      });
+
+      await expect(
+        service.resolveDispute({ disputeId: dispute!.id, adminId: ADMIN_ID, resolution: 'refund' })
+      ).rejects.toMatchObject({ code: 'DISPUTE_CLOSED' });
+    });
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * EscrowService Unit Tests
+ * Hold-invoice escrow lifecycle against the fake Lightning backend
+ */
+
+const mockEnqueueJobPayout = jest.fn();
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: {
+    enqueueJobPayout: (jobId: number) => mockEnqueueJobPayout(jobId),
+  },
+}));
+
+import { EscrowService } from '../../services/escrow/EscrowService.js';
+import { JobService } from '../../services/job/JobService.js';
+import { RealLightningService } from '../../services/lightning/RealLightningService.js';
+import { FakeLightningBackend } from '../../services/lightning/backends/FakeLightningBackend.js';
+import { PriceOracle } from '../../services/pricing/PriceOracle.js';
+import { FixedPriceSource } from '../../services/pricing/PriceSource.js';
+import type {
+  CreatePriceSnapshotDto,
+  PriceSnapshotRepository,
+} from '../../database/repositories/PriceSnapshotRepository.js';
+import type {
+  CreateEscrowDto,
+  EscrowRepository,
+  JobEscrow,
+} from '../../database/repositories/EscrowRepository.js';
+import type { Job, JobRepository, JobStatusChange } from '../../database/repositories/JobRepository.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+import type { JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import type { LedgerService } from '../../services/ledger/LedgerService.js';
+import type { JobStatus } from '../../types/index.js';
+
+/**
+ * In-memory stand-in for EscrowRepository
+ */
+class InMemoryEscrowRepository {
+  escrows: JobEscrow[] = [];
+
+  async findByJobId(jobId: number) {
+    return this.escrows.filter((e) => e.job_id === jobId).pop() ?? null;
+  }
+
+  async create(data: CreateEscrowDto) {
+    const escrow: JobEscrow = {
+      id: this.escrows.length + 1,
+      job_id: data.jobId,
+      payment_hash: data.paymentHash,
+      preimage: data.preimage,
+      payment_request: data.paymentRequest,
+      amount_sats: data.amountSats,
+      price_snapshot_id: data.priceSnapshotId,
+      status: 'pending',
+      release_after: null,
+      created_at: new Date(),
+      expires_at: data.expiresAt,
+      held_at: null,
+      settled_at: null,
+      cancelled_at: null,
+      updated_at: new Date(),
+    };
+    this.escrows.push(escrow);
+    return escrow;
+  }
+
+  private transition(id: number, from: JobEscrow['status'][], to: JobEscrow['status']) {
+    const escrow = this.escrows.find((e) => e.id === id);
+    if (!escrow || !from.includes(escrow.status)) {
+      return null;
+    }
+    escrow.status = to;
+    return escrow;
+  }
+
+  async markHeld(id: number) {
+    const held = this.transition(id, ['pending'], 'held');
+    if (held) {
+      held.held_at = new Date();
+    }
+    return held;
+  }
+
+  async markSettled(id: number) {
+    return this.transition(id, ['held'], 'settled');
+  }
+
+  async markCancelled(id: number) {
+    return this.transition(id, ['pending', 'held'], 'cancelled');
+  }
+
+  async setReleaseAfter(jobId: number, releaseAfter: Date) {
+    const escrow = await this.findByJobId(jobId);
+    if (escrow && (escrow.status === 'pending' || escrow.status === 'held')) {
+      escrow.release_after = releaseAfter;
+    }
+  }
+
+  async findPending() {
+    return this.escrows.filter((e) => e.status === 'pending');
+  }
+
+  async findDueForRelease() {
+    return this.escrows.filter(
+      (e) => e.status === 'held' && e.release_after !== null && e.release_after <= new Date()
+    );
+  }
+
+  async findHeldSince(cutoff: Date) {
+    return this.escrows.filter((e) => e.status === 'held' && e.held_at !== null && e.held_at <= cutoff);
+  }
+}
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: 10,
+    runner_id: 20,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'accepted',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('EscrowService', () => {
+  let job: Job;
+  let escrowRepository: InMemoryEscrowRepository;
+  let jobRepository: { findById: jest.Mock; transitionStatus: jest.Mock };
+  let lightning: RealLightningService;
+  let ledger: { recordEscrowFunded: jest.Mock; recordEscrowRefunded: jest.Mock };
+  let service: EscrowService;
+
+  beforeEach(() => {
+    job = buildJob();
+    escrowRepository = new InMemoryEscrowRepository();
+    jobRepository = {
+      findById: jest.fn(async () => job),
+      transitionStatus: jest.fn(async (_id: number, _from: JobStatus, to: JobStatus, change: JobStatusChange) => {
+        job = { ...job, status: to };
+        if (to === 'open') job.runner_id = null;
+        if (change.runnerId !== undefined) job.runner_id = change.runnerId;
+        return job;
+      }),
+    };
+    lightning = new RealLightningService(new FakeLightningBackend());
+    ledger = { recordEscrowFunded: jest.fn(), recordEscrowRefunded: jest.fn() };
+    const snapshotRepository = {
+      create: jest.fn(async (data: CreatePriceSnapshotDto) => ({
+        id: 11,
+        currency: data.currency,
+        btc_price: data.btcPrice,
+        sources: data.sources,
+        fetched_at: data.fetchedAt,
+        created_at: new Date(),
+      })),
+    };
+    service = new EscrowService(
+      escrowRepository as unknown as EscrowRepository,
+      jobRepository as unknown as JobRepository,
+      lightning,
+      new PriceOracle(
+        [new FixedPriceSource({ USD: 50000 })],
+        snapshotRepository as unknown as PriceSnapshotRepository
+      ),
+      ledger as unknown as LedgerService
+    );
+    mockEnqueueJobPayout.mockReset().mockResolvedValue({ id: 1 });
+  });
+
+  /**
+   * Pay the escrow invoice from the mock client wallet
+   */
+  async function payEscrow(): Promise<void> {
+    const escrow = await escrowRepository.findByJobId(job.id);
+    const result = await lightning.sendPayment(escrow!.payment_request);
+    expect(result.success).toBe(true);
+  }
+
+  describe('openEscrow', () => {
+    it('should create a hold invoice without exposing the preimage', async () => {
+      const view = await service.openEscrow(job);
+
+      expect(view.status).toBe('pending');
+      expect(view.amountSats).toBe(50000); // $25 at $50,000/BTC
+      expect(escrowRepository.escrows[0]!.price_snapshot_id).toBe(11);
+      expect(view.paymentHash).toMatch(/^[a-f0-9]{64}$/);
+      expect(view).not.toHaveProperty('preimage');
+      expect(await lightning.getHoldInvoiceState(view.paymentHash)).toBe('open');
+    });
+
+    it('should reject a second escrow for the same job', async () => {
+      await service.openEscrow(job);
+
+      await expect(service.openEscrow(job)).rejects.toMatchObject({ code: 'ESCROW_EXISTS' });
+    });
+
+    it('should open a fresh escrow once the previous one was cancelled', async () => {
+      const first = await service.openEscrow(job);
+      await service.cancelEscrow(job.id);
+
+      const second = await service.openEscrow(job);
+
+      expect(second.status).toBe('pending');
+      expect(second.paymentHash).not.toBe(first.paymentHash);
+      expect(escrowRepository.escrows.map((e) => e.status)).toEqual(['cancelled', 'pending']);
+    });
+  });
+
+  describe('reassignment', () => {
+    it('should let a job the deadline sweep released be assigned and funded again', async () => {
+      const jobService = new JobService(
+        {
+          ...jobRepository,
+          findUnstarted: jest.fn(async () => [job]),
+          findExpiredOpen: jest.fn(async () => []),
+          claimOverdue: jest.fn(async () => []),
+        } as unknown as JobRepository,
+        { findById: jest.fn(async (id: number) => ({ id })) } as unknown as UserRepository,
+        {} as JobStatusHistoryRepository,
+        {} as JobStopRepository,
+        service
+      );
+      const { paymentHash: firstHash } = await service.openEscrow(job);
+
+      await expect(jobService.sweepDeadlines()).resolves.toMatchObject({ released: 1 });
+      expect(job).toMatchObject({ status: 'open', runner_id: null });
+      expect(await lightning.getHoldInvoiceState(firstHash)).toBe('cancelled');
+
+      const assigned = await jobService.assignRunner(job.id, 30, { priceCents: 2500, acceptedBy: 'client', actorId: 10 });
+      expect(assigned).toMatchObject({ status: 'accepted', runner_id: 30, escrow: { status: 'pending' } });
+
+      await payEscrow();
+      expect(await service.isFunded(job.id)).toBe(true);
+      expect(ledger.recordEscrowFunded).toHaveBeenCalledWith(expect.objectContaining({ id: 2 }), job.client_id);
+    });
+  });
+
+  describe('funding', () => {
+    it('should report funded once the client HTLC is held', async () => {
+      await service.openEscrow(job);
+      expect(await service.isFunded(job.id)).toBe(false);
+
+      await payEscrow();
+
+      expect(await service.isFunded(job.id)).toBe(true);
+      expect(await service.isFunded(job.id)).toBe(true);
+      expect((await escrowRepository.findByJobId(job.id))!.status).toBe('held');
+      expect(ledger.recordEscrowFunded).toHaveBeenCalledTimes(1);
+      expect(ledger.recordEscrowFunded).toHaveBeenCalledWith(
+        expect.objectContaining({ job_id: job.id, amount_sats: 50000 }),
+        job.client_id
+      );
+    });
+
+    it('should start the hold clock for funded escrows nobody has looked at', async () => {
+      await service.openEscrow(job);
+      await service.openEscrow(buildJob({ id: 2 }));
+      await payEscrow();
+
+      expect(await service.syncPending()).toBe(1);
+
+      expect(escrowRepository.escrows.map((e) => e.status)).toEqual(['held', 'pending']);
+      expect(escrowRepository.escrows[0]!.held_at).toBeInstanceOf(Date);
+      expect(ledger.recordEscrowFunded).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('confirmDelivery', () => {
+    it('should settle the invoice, confirm payment and trigger payout', async () => {
+      const { paymentHash } = await service.openEscrow(job);
+      await payEscrow();
+      job = { ...job, status: 'awaiting_payment' };
+
+      const view = await service.confirmDelivery(job.id, job.client_id);
+
+      expect(view.status).toBe('settled');
+      expect(await lightning.getHoldInvoiceState(paymentHash)).toBe('settled');
+      expect(jobRepository.transitionStatus).toHaveBeenCalledWith(
+        job.id,
+        'awaiting_payment',
+        'payment_confirmed',
+        expect.objectContaining({ actor: 'client', actorId: job.client_id })
+      );
+      expect(mockEnqueueJobPayout).toHaveBeenCalledWith(job.id);
+    });
+
+    it('should only allow the client to confirm', async () => {
+      await service.openEscrow(job);
+      await payEscrow();
+      job = { ...job, status: 'awaiting_payment' };
+
+      await expect(service.confirmDelivery(job.id, job.runner_id!)).rejects.toMatchObject({
+        code: 'NOT_JOB_CLIENT',
+      });
+    });
+
+    it('should refuse to release an unfunded escrow', async () => {
+      await service.openEscrow(job);
+      job = { ...job, status: 'awaiting_payment' };
+
+      await expect(service.confirmDelivery(job.id, job.client_id)).rejects.toMatchObject({
+        code: 'ESCROW_NOT_FUNDED',
+      });
+    });
+  });
+
+  describe('cancelEscrow', () => {
+    it('should cancel the hold invoice and refund the client', async () => {
+      const { paymentHash } = await service.openEscrow(job);
+      await payEscrow();
+
+      await service.cancelEscrow(job.id);
+
+      expect(await lightning.getHoldInvoiceState(paymentHash)).toBe('cancelled');
+      expect((await escrowRepository.findByJobId(job.id))!.status).toBe('cancelled');
+    });
+
+    it('should post a refund only for escrows that were funded', async () => {
+      await service.openEscrow(job);
+      await service.cancelEscrow(job.id);
+      expect(ledger.recordEscrowRefunded).not.toHaveBeenCalled();
+
+      const other = buildJob({ id: 2 });
+      job = other;
+      await service.openEscrow(other);
+      await payEscrow();
+      await service.isFunded(other.id);
+      await service.cancelEscrow(other.id);
+
+      expect(ledger.recordEscrowRefunded).toHaveBeenCalledWith(
+        expect.objectContaining({ job_id: other.id }),
+        other.client_id
+      );
+    });
+
+    it('should be a no-op for jobs without escrow', async () => {
+      await expect(service.cancelEscrow(999)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('releaseExpired', () => {
+    it('should release held escrows past their release window', async () => {
+      await service.openEscrow(job);
+      await payEscrow();
+      await service.isFunded(job.id);
+      job = { ...job, status: 'awaiting_payment' };
+      await escrowRepository.setReleaseAfter(job.id, new Date(Date.now() - 1000));
+
+      const released = await service.releaseExpired();
+
+      expect(released).toBe(1);
+      expect((await escrowRepository.findByJobId(job.id))!.status).toBe('settled');
+      expect(mockEnqueueJobPayout).toHaveBeenCalledWith(job.id);
+    });
+
+    it('should not release a disputed job', async () => {
+      const { paymentHash } = await service.openEscrow(job);
+      await payEscrow();
+      await service.isFunded(job.id);
+      job = { ...job, status: 'disputed' };
+      await escrowRepository.setReleaseAfter(job.id, new Date(Date.now() - 1000));
+
+      expect(await service.releaseExpired()).toBe(0);
+      expect(await lightning.getHoldInvoiceState(paymentHash)).toBe('accepted');
+      expect(mockEnqueueJobPayout).not.toHaveBeenCalled();
+    });
+
+    it('should leave escrows inside their window alone', async () => {
+      await service.openEscrow(job);
+      await payEscrow();
+      await service.isFunded(job.id);
+      await service.scheduleRelease(job.id);
+
+      expect(await service.releaseExpired()).toBe(0);
+    });
+  });
+
+  describe('hold window', () => {
+    const HOUR_MS = 60 * 60 * 1000;
+
+    async function fundEscrow(heldHoursAgo: number): Promise<string> {
+      const { paymentHash } = await service.openEscrow(job);
+      await payEscrow();
+      await service.isFunded(job.id);
+      escrowRepository.escrows[0]!.held_at = new Date(Date.now() - heldHoursAgo * HOUR_MS);
+      return paymentHash;
+    }
+
+    it('should ask the node to keep the HTLC for the CLTV window', async () => {
+      const createHoldInvoice = jest.spyOn(lightning, 'createHoldInvoice');
+
+      await service.openEscrow(job);
+
+      expect(createHoldInvoice).toHaveBeenCalledWith(expect.any(String), 50000, expect.any(String), 86400, 1008);
+    });
+
+    it('should bring the auto-release forward to the end of the hold window', async () => {
+      await fundEscrow(120);
+
+      await service.scheduleRelease(job.id);
+
+      const { release_after, held_at } = escrowRepository.escrows[0]!;
+      expect(release_after!.getTime() - held_at!.getTime()).toBe(144 * HOUR_MS);
+    });
+
+    it('should cancel a job still underway when the hold window runs out', async () => {
+      const paymentHash = await fundEscrow(145);
+      job = { ...job, status: 'in_progress' };
+
+      expect(await service.expireHolds()).toBe(1);
+
+      expect(job.status).toBe('cancelled');
+      expect(await lightning.getHoldInvoiceState(paymentHash)).toBe('cancelled');
+      expect(ledger.recordEscrowRefunded).toHaveBeenCalled();
+    });
+
+    it('should refund a disputed job and refuse to settle it afterwards', async () => {
+      await fundEscrow(145);
+      job = { ...job, status: 'disputed' };
+
+      expect(await service.expireHolds()).toBe(1);
+
+      expect(job.status).toBe('disputed');
+      await expect(service.settleEscrow(job.id)).rejects.toMatchObject({ code: 'ESCROW_CANCELLED' });
+    });
+
+    it('should leave escrows inside the hold window alone', async () => {
+      await fundEscrow(100);
+      job = { ...job, status: 'in_progress' };
+
+      expect(await service.expireHolds()).toBe(0);
+    });
+  });
+});
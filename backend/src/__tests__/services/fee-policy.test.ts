@@ -0,0 +1,200 @@
+/**
+ * Fee Policy Unit Tests
+ * Fee schedule rules, schedule configuration and runner volume lookups
+ */
+
+import { FeePolicy, FeeSchedule } from '../../services/fees/FeePolicy.js';
+import { createFeeSchedule } from '../../services/fees/createFeePolicy.js';
+import { FeeService } from '../../services/fees/FeeService.js';
+import type { RunnerEarningRepository } from '../../database/repositories/RunnerEarningRepository.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+
+const NOW = new Date('2026-10-19T12:00:00Z');
+
+function buildSchedule(overrides: Partial<FeeSchedule> = {}): FeeSchedule {
+  return {
+    defaultPercent: 10,
+    categoryPercent: { moving: 15 },
+    minimumCents: 50,
+    volumeTiers: [
+      { minJobs: 20, discountPercent: 20 },
+      { minJobs: 50, discountPercent: 50 },
+    ],
+    promotions: [],
+    fediCommunityPercent: {},
+    ...overrides,
+  };
+}
+
+describe('FeePolicy', () => {
+  it('should charge the category rate, or the default rate for other categories', () => {
+    const policy = new FeePolicy(buildSchedule());
+
+    expect(policy.quote({ priceCents: 2000, category: 'moving', at: NOW })).toMatchObject({
+      feeCents: 300,
+      netCents: 1700,
+      ratePercent: 15,
+      rules: [expect.objectContaining({ code: 'category_rate' })],
+    });
+    expect(policy.quote({ priceCents: 2000, category: 'delivery', at: NOW })).toMatchObject({
+      feeCents: 200,
+      rules: [expect.objectContaining({ code: 'default_rate' })],
+    });
+  });
+
+  it('should discount the rate by the highest volume tier the runner reached', () => {
+    const policy = new FeePolicy(buildSchedule());
+
+    expect(policy.quote({ priceCents: 2000, runnerJobCount: 19, at: NOW }).feeCents).toBe(200);
+    expect(policy.quote({ priceCents: 2000, runnerJobCount: 20, at: NOW }).feeCents).toBe(160);
+
+    const quote = policy.quote({ priceCents: 2000, runnerJobCount: 75, at: NOW });
+    expect(quote).toMatchObject({ feeCents: 100, ratePercent: 5 });
+    expect(quote.rules.map((rule) => rule.code)).toEqual(['default_rate', 'volume_tier']);
+  });
+
+  it('should charge at least the minimum, but never more than the price', () => {
+    const policy = new FeePolicy(buildSchedule());
+
+    expect(policy.quote({ priceCents: 300, at: NOW })).toMatchObject({
+      feeCents: 50,
+      netCents: 250,
+      rules: [expect.objectContaining({ code: 'default_rate' }), expect.objectContaining({ code: 'minimum' })],
+    });
+    expect(policy.quote({ priceCents: 40, at: NOW })).toMatchObject({ feeCents: 40, netCents: 0 });
+  });
+
+  it('should waive the fee while a promotion covers the job', () => {
+    const policy = new FeePolicy(
+      buildSchedule({
+        promotions: [
+          {
+            name: 'Moving month',
+            startsAt: new Date('2026-10-01T00:00:00Z'),
+            endsAt: new Date('2026-11-01T00:00:00Z'),
+            categories: ['moving'],
+          },
+        ],
+      })
+    );
+
+    expect(policy.quote({ priceCents: 2000, category: 'moving', at: NOW })).toMatchObject({
+      feeCents: 0,
+      netCents: 2000,
+      rules: [expect.objectContaining({ code: 'promotion' })],
+    });
+    expect(policy.quote({ priceCents: 2000, category: 'delivery', at: NOW }).feeCents).toBe(200);
+    expect(
+      policy.quote({ priceCents: 2000, category: 'moving', at: new Date('2026-11-01T00:00:00Z') }).feeCents
+    ).toBe(300);
+  });
+
+  it('should replace the schedule with the Fedi community rate', () => {
+    const policy = new FeePolicy(buildSchedule({ fediCommunityPercent: { '*': 0, 'nairobi-runners': 2 } }));
+
+    expect(
+      policy.quote({ priceCents: 2000, category: 'moving', fediCommunityId: 'nairobi-runners', runnerJobCount: 75, at: NOW })
+    ).toMatchObject({
+      feeCents: 40,
+      rules: [expect.objectContaining({ code: 'fedi_community' })],
+    });
+    // Any other community gets the catch-all rate, with no minimum
+    expect(policy.quote({ priceCents: 300, fediCommunityId: 'other', at: NOW }).feeCents).toBe(0);
+    expect(policy.quote({ priceCents: 300, at: NOW }).feeCents).toBe(50);
+  });
+});
+
+describe('createFeeSchedule', () => {
+  it('should default to PLATFORM_FEE_PERCENT with no other rules', () => {
+    expect(createFeeSchedule({ PLATFORM_FEE_PERCENT: '5' })).toEqual({
+      defaultPercent: 5,
+      categoryPercent: {},
+      minimumCents: 0,
+      volumeTiers: [],
+      promotions: [],
+      fediCommunityPercent: {},
+    });
+  });
+
+  it('should read the schedule from PLATFORM_FEE_SCHEDULE', () => {
+    const schedule = createFeeSchedule({
+      PLATFORM_FEE_PERCENT: '5',
+      PLATFORM_FEE_SCHEDULE: JSON.stringify({
+        categoryPercent: { moving: 12 },
+        minimumCents: 25,
+        volumeTiers: [{ minJobs: 50, discountPercent: 25 }],
+        promotions: [{ name: 'Launch', startsAt: '2026-11-01', endsAt: '2026-11-08' }],
+        fediCommunityPercent: { '*': 0 },
+      }),
+    });
+
+    expect(schedule).toMatchObject({
+      defaultPercent: 5,
+      categoryPercent: { moving: 12 },
+      minimumCents: 25,
+      volumeTiers: [{ minJobs: 50, discountPercent: 25 }],
+      fediCommunityPercent: { '*': 0 },
+    });
+    expect(schedule.promotions[0]).toEqual({
+      name: 'Launch',
+      startsAt: new Date('2026-11-01'),
+      endsAt: new Date('2026-11-08'),
+    });
+  });
+
+  it('should reject schedules it cannot apply', () => {
+    expect(() => createFeeSchedule({ PLATFORM_FEE_SCHEDULE: '{' })).toThrow('valid JSON');
+    expect(() => createFeeSchedule({ PLATFORM_FEE_PERCENT: '120' })).toThrow('between 0 and 100');
+    expect(() => createFeeSchedule({ PLATFORM_FEE_SCHEDULE: '{"categoryPercent":{"gardening":5}}' })).toThrow(
+      'Unknown job category "gardening"'
+    );
+    expect(() =>
+      createFeeSchedule({
+        PLATFORM_FEE_SCHEDULE: '{"promotions":[{"startsAt":"2026-11-08","endsAt":"2026-11-01"}]}',
+      })
+    ).toThrow('must end after it starts');
+  });
+});
+
+describe('FeeService', () => {
+  const policy = new FeePolicy(buildSchedule());
+  let countJobsSince: jest.Mock;
+  let findById: jest.Mock;
+  let service: FeeService;
+
+  beforeEach(() => {
+    countJobsSince = jest.fn().mockResolvedValue(60);
+    findById = jest.fn().mockResolvedValue({
+      id: 1,
+      client_id: 10,
+      runner_id: 20,
+      price_cents: 2000,
+      category: 'moving',
+      fedi_community_id: null,
+    } as Partial<Job>);
+    service = new FeeService(
+      policy,
+      { countJobsSince } as unknown as RunnerEarningRepository,
+      { findById } as unknown as JobRepository
+    );
+  });
+
+  it('should look up the volume of the assigned runner over the last 30 days', async () => {
+    const quote = await service.quote({ priceCents: 2000, runnerId: 20 }, NOW);
+
+    expect(countJobsSince).toHaveBeenCalledWith(20, new Date('2026-09-19T12:00:00Z'));
+    expect(quote.feeCents).toBe(100);
+  });
+
+  it('should quote without a volume tier before a runner is assigned', async () => {
+    const quote = await service.quote({ priceCents: 2000, category: 'moving' }, NOW);
+
+    expect(countJobsSince).not.toHaveBeenCalled();
+    expect(quote.feeCents).toBe(300);
+  });
+
+  it('should only show a job fee to the job client or runner', async () => {
+    await expect(service.quoteForJob(1, 10)).resolves.toMatchObject({ feeCents: 150, ratePercent: 7.5 });
+    await expect(service.quoteForJob(1, 99)).rejects.toThrow('Only the job client or runner');
+  });
+});
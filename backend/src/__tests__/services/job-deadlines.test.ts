@@ -0,0 +1,148 @@
+/**
+ * Job Deadline Sweeper Unit Tests
+ * Releasing unstarted jobs, expiring open jobs and flagging overdue ones
+ */
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: { enqueueJobPayout: jest.fn() },
+}));
+
+import { JobService } from '../../services/job/JobService.js';
+import { realtimeService } from '../../services/realtime/RealtimeService.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+import type { JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import type { EscrowService } from '../../services/escrow/EscrowService.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'accepted',
+    deadline: new Date('2030-01-05T10:00:00.000Z'),
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('JobService deadline sweep', () => {
+  let jobs: Map<number, Job>;
+  let jobRepository: Record<string, jest.Mock>;
+  let escrowService: Record<string, jest.Mock>;
+  let publish: jest.SpyInstance;
+  let service: JobService;
+
+  beforeEach(() => {
+    jobs = new Map();
+
+    jobRepository = {
+      findById: jest.fn(async (id: number) => jobs.get(id)),
+      findUnstarted: jest.fn(async () => []),
+      findExpiredOpen: jest.fn(async () => []),
+      claimOverdue: jest.fn(async () => []),
+      transitionStatus: jest.fn(async (id: number, _from: string, to: Job['status']) => {
+        const job = { ...jobs.get(id)!, status: to, ...(to === 'open' ? { runner_id: null } : {}) };
+        jobs.set(id, job);
+        return job;
+      }),
+    };
+
+    escrowService = { cancelEscrow: jest.fn(async () => undefined) };
+
+    service = new JobService(
+      jobRepository as unknown as JobRepository,
+      {} as UserRepository,
+      {} as JobStatusHistoryRepository,
+      {} as JobStopRepository,
+      escrowService as unknown as EscrowService
+    );
+    publish = jest.spyOn(realtimeService, 'publish').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  it('should send a job the runner never started back to the open pool as the system', async () => {
+    const job = buildJob();
+    jobs.set(job.id, job);
+    jobRepository['findUnstarted']!.mockResolvedValue([job]);
+
+    const sweep = await service.sweepDeadlines();
+
+    expect(sweep).toEqual({ released: 1, expired: 0, overdue: 0 });
+    expect(escrowService['cancelEscrow']).toHaveBeenCalledWith(1);
+    expect(jobRepository['transitionStatus']).toHaveBeenCalledWith(
+      1,
+      'accepted',
+      'open',
+      expect.objectContaining({ actor: 'system', actorId: null, reason: 'Runner did not start within 24 hours' })
+    );
+
+    // Only jobs accepted before the start window are looked up
+    const acceptedBefore: Date = jobRepository['findUnstarted']!.mock.calls[0][0];
+    expect(Date.now() - acceptedBefore.getTime()).toBeGreaterThanOrEqual(24 * 60 * 60 * 1000);
+  });
+
+  it('should cancel open jobs whose deadline passed', async () => {
+    const job = buildJob({ id: 2, status: 'open', runner_id: null, accepted_at: null });
+    jobs.set(job.id, job);
+    jobRepository['findExpiredOpen']!.mockResolvedValue([job]);
+
+    const sweep = await service.sweepDeadlines();
+
+    expect(sweep).toEqual({ released: 0, expired: 1, overdue: 0 });
+    expect(jobs.get(2)!.status).toBe('cancelled');
+    expect(jobRepository['transitionStatus']).toHaveBeenCalledWith(
+      2,
+      'open',
+      'cancelled',
+      expect.objectContaining({ actor: 'system', reason: 'Deadline passed before a runner was assigned' })
+    );
+  });
+
+  it('should warn both parties about a job in progress past its deadline', async () => {
+    jobRepository['claimOverdue']!.mockResolvedValue([buildJob({ id: 3, status: 'in_progress' })]);
+
+    const sweep = await service.sweepDeadlines();
+
+    expect(sweep).toEqual({ released: 0, expired: 0, overdue: 1 });
+    expect(jobRepository['transitionStatus']).not.toHaveBeenCalled();
+    expect(publish).toHaveBeenCalledWith([CLIENT_ID, RUNNER_ID], 'job.overdue', {
+      jobId: 3,
+      title: 'Pick up groceries',
+      deadline: '2030-01-05T10:00:00.000Z',
+    });
+  });
+
+  it('should leave a job it cannot move for the next sweep and carry on', async () => {
+    const started = buildJob({ id: 4 });
+    const unstarted = buildJob({ id: 5 });
+    // Runner started the first job after it was picked up by the sweep
+    jobs.set(4, { ...started, status: 'in_progress' });
+    jobs.set(5, unstarted);
+    jobRepository['findUnstarted']!.mockResolvedValue([started, unstarted]);
+
+    const sweep = await service.sweepDeadlines();
+
+    expect(sweep.released).toBe(1);
+    expect(jobs.get(4)!.status).toBe('in_progress');
+    expect(jobs.get(5)!.status).toBe('open');
+  });
+});
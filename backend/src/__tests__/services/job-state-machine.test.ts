@@ -0,0 +1,180 @@
+/**
+ * Job State Machine Unit Tests
+ * Transition table rules and side effect ordering
+ */
+
+const mockEnqueueJobPayout = jest.fn();
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: {
+    enqueueJobPayout: (jobId: number) => mockEnqueueJobPayout(jobId),
+  },
+}));
+
+import {
+  JOB_STATUSES,
+  JOB_TRANSITIONS,
+  JobStateMachine,
+  assertTransition,
+  getAllowedTransitions,
+  isTerminalStatus,
+} from '../../services/job/JobStateMachine.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { JobStatus } from '../../types/index.js';
+
+function buildJob(status: JobStatus): Job {
+  return {
+    id: 1,
+    client_id: 10,
+    runner_id: 20,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status,
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+  };
+}
+
+describe('Job transition table', () => {
+  it('should only reference known statuses', () => {
+    for (const transition of JOB_TRANSITIONS) {
+      expect(JOB_STATUSES).toContain(transition.from);
+      expect(JOB_STATUSES).toContain(transition.to);
+      expect(transition.actors.length).toBeGreaterThan(0);
+    }
+  });
+
+  it('should reach every status from open', () => {
+    const reached = new Set<JobStatus>(['open']);
+    const queue: JobStatus[] = ['open'];
+
+    while (queue.length > 0) {
+      for (const next of getAllowedTransitions(queue.shift()!)) {
+        if (!reached.has(next)) {
+          reached.add(next);
+          queue.push(next);
+        }
+      }
+    }
+
+    expect([...reached].sort()).toEqual([...JOB_STATUSES].sort());
+  });
+
+  it('should treat paid and cancelled as terminal', () => {
+    const terminal = JOB_STATUSES.filter(isTerminalStatus);
+
+    expect(terminal.sort()).toEqual(['cancelled', 'paid']);
+  });
+
+  it('should reject transitions missing from the table', () => {
+    expect(() => assertTransition('completed', 'open')).toThrow('Invalid status transition');
+    expect(() => assertTransition('cancelled', 'open')).toThrow(
+      expect.objectContaining({ code: 'INVALID_STATUS_TRANSITION' })
+    );
+  });
+
+  it('should reject actors not allowed to trigger a transition', () => {
+    expect(() => assertTransition('open', 'accepted', 'admin')).toThrow(
+      expect.objectContaining({ code: 'TRANSITION_NOT_ALLOWED' })
+    );
+    expect(() => assertTransition('disputed', 'payment_confirmed', 'system')).toThrow(
+      expect.objectContaining({ code: 'TRANSITION_NOT_ALLOWED' })
+    );
+    expect(assertTransition('open', 'accepted', 'client').to).toBe('accepted');
+  });
+});
+
+describe('JobStateMachine', () => {
+  let job: Job;
+  let calls: string[];
+  let jobRepository: { findById: jest.Mock; transitionStatus: jest.Mock };
+
+  beforeEach(() => {
+    calls = [];
+    jobRepository = {
+      findById: jest.fn(async () => job),
+      transitionStatus: jest.fn(async (_id: number, _from: JobStatus, to: JobStatus) => {
+        calls.push(`transition:${to}`);
+        job = { ...job, status: to };
+        return job;
+      }),
+    };
+    mockEnqueueJobPayout.mockReset().mockResolvedValue({ id: 1 });
+  });
+
+  function buildMachine(): JobStateMachine {
+    return new JobStateMachine(jobRepository as unknown as JobRepository, {
+      cancel_escrow: async () => {
+        calls.push('cancel_escrow');
+      },
+      schedule_release: async () => {
+        calls.push('schedule_release');
+      },
+      require_stops_completed: async () => {
+        calls.push('require_stops_completed');
+      },
+    });
+  }
+
+  it('should run before effects ahead of the status change', async () => {
+    job = buildJob('accepted');
+
+    await buildMachine().transition(job.id, 'cancelled', { actor: 'client', actorId: 10 });
+
+    expect(calls).toEqual(['cancel_escrow', 'transition:cancelled']);
+  });
+
+  it('should run after effects once the status change is recorded', async () => {
+    job = buildJob('in_progress');
+
+    await buildMachine().transition(job.id, 'awaiting_payment', { actor: 'runner', actorId: 20 });
+
+    expect(calls).toEqual(['require_stops_completed', 'transition:awaiting_payment', 'schedule_release']);
+    expect(jobRepository.transitionStatus).toHaveBeenCalledWith(
+      job.id,
+      'in_progress',
+      'awaiting_payment',
+      { actor: 'runner', actorId: 20 }
+    );
+  });
+
+  it('should not change status when a before effect fails', async () => {
+    job = buildJob('accepted');
+    const machine = new JobStateMachine(jobRepository as unknown as JobRepository, {
+      require_funded_escrow: async () => {
+        throw new Error('not funded');
+      },
+    });
+
+    await expect(
+      machine.transition(job.id, 'in_progress', { actor: 'runner', actorId: 20 })
+    ).rejects.toThrow('not funded');
+    expect(jobRepository.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should refuse a transition whose guard has no handler', async () => {
+    job = buildJob('accepted');
+
+    await expect(
+      buildMachine().transition(job.id, 'in_progress', { actor: 'runner', actorId: 20 })
+    ).rejects.toMatchObject({ code: 'JOB_EFFECT_UNAVAILABLE' });
+    expect(jobRepository.transitionStatus).not.toHaveBeenCalled();
+  });
+
+  it('should trigger the runner payout when payment is confirmed', async () => {
+    job = buildJob('awaiting_payment');
+
+    await buildMachine().transition(job.id, 'payment_confirmed', { actor: 'system', actorId: null });
+
+    expect(mockEnqueueJobPayout).toHaveBeenCalledWith(job.id);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Job Stops Unit Tests
+ * Multi-stop job creation, checking stops off and finishing a route
+ */
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: { enqueueJobPayout: jest.fn() },
+}));
+
+import { JobService } from '../../services/job/JobService.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { JobStop, JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'in_progress',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+function buildStop(position: number, completed = false): JobStop {
+  return {
+    id: position + 100,
+    job_id: 1,
+    position,
+    kind: 'stop',
+    lat: 51.5,
+    lng: -0.12,
+    address: `Stop ${position}`,
+    instructions: null,
+    completed_at: completed ? new Date() : null,
+    completed_by: completed ? RUNNER_ID : null,
+    created_at: new Date(),
+  };
+}
+
+describe('JobService stops', () => {
+  let job: Job;
+  let stops: JobStop[];
+  let jobRepository: Record<string, jest.Mock>;
+  let jobStopRepository: Record<string, jest.Mock>;
+  let service: JobService;
+
+  const jobInput = {
+    clientId: CLIENT_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    priceCents: 2500,
+  };
+
+  beforeEach(() => {
+    job = buildJob();
+    stops = [buildStop(0), buildStop(1)];
+
+    jobRepository = {
+      findById: jest.fn(async () => job),
+      create: jest.fn(async () => buildJob({ status: 'open', runner_id: null })),
+      transitionStatus: jest.fn(async (_id: number, _from: string, to: Job['status']) => {
+        job = { ...job, status: to };
+        return job;
+      }),
+    };
+
+    jobStopRepository = {
+      findByJobId: jest.fn(async () => stops),
+      complete: jest.fn(async (_jobId: number, stopId: number) => {
+        const stop = stops.find((s) => s.id === stopId)!;
+        stop.completed_at = new Date();
+        return stop;
+      }),
+      countPending: jest.fn(async () => stops.filter((s) => !s.completed_at).length),
+    };
+
+    const userRepository = { findById: jest.fn(async () => ({ id: CLIENT_ID })) };
+
+    service = new JobService(
+      jobRepository as unknown as JobRepository,
+      userRepository as unknown as UserRepository,
+      {} as JobStatusHistoryRepository,
+      jobStopRepository as unknown as JobStopRepository
+    );
+  });
+
+  describe('createJob', () => {
+    it('should store stops in order and mirror the first stop on the job', async () => {
+      await service.createJob({
+        ...jobInput,
+        stops: [
+          { lat: 51.5, lng: -0.12, address: ' Market ' },
+          { lat: 51.51, lng: -0.1, address: 'Bakery', instructions: 'Ask for the order under Sam' },
+          { lat: 51.52, lng: -0.09, address: 'Home' },
+        ],
+      });
+
+      const dto = jobRepository['create']!.mock.calls[0][0];
+      expect(dto.location).toEqual({ lat: 51.5, lng: -0.12 });
+      expect(dto.address).toBe('Market');
+      expect(dto.stops.map((s: any) => s.kind)).toEqual(['pickup', 'stop', 'dropoff']);
+      expect(dto.stops[1].instructions).toBe('Ask for the order under Sam');
+    });
+
+    it('should turn a single location into a one-stop job', async () => {
+      await service.createJob({
+        ...jobInput,
+        location: { lat: 51.5, lng: -0.12 },
+        address: 'Market',
+      });
+
+      const dto = jobRepository['create']!.mock.calls[0][0];
+      expect(dto.stops).toEqual([{ kind: 'pickup', lat: 51.5, lng: -0.12, address: 'Market' }]);
+    });
+
+    it('should reject stops without an address or with invalid coordinates', async () => {
+      await expect(
+        service.createJob({ ...jobInput, stops: [{ lat: 51.5, lng: -0.12, address: '  ' }] })
+      ).rejects.toMatchObject({ code: 'STOP_ADDRESS_REQUIRED' });
+
+      await expect(
+        service.createJob({ ...jobInput, stops: [{ lat: 95, lng: -0.12, address: 'Market' }] })
+      ).rejects.toMatchObject({ code: 'INVALID_STOP_LOCATION' });
+
+      expect(jobRepository['create']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeStop', () => {
+    it('should let the assigned runner check off a stop', async () => {
+      const stop = await service.completeStop(job.id, 100, RUNNER_ID);
+
+      expect(jobStopRepository['complete']).toHaveBeenCalledWith(job.id, 100, RUNNER_ID);
+      expect(stop.completedAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject anyone but the assigned runner', async () => {
+      await expect(service.completeStop(job.id, 100, CLIENT_ID)).rejects.toMatchObject({
+        code: 'NOT_ASSIGNED_RUNNER',
+      });
+    });
+
+    it('should only allow checking off stops while the job is in progress', async () => {
+      job = buildJob({ status: 'accepted' });
+
+      await expect(service.completeStop(job.id, 100, RUNNER_ID)).rejects.toMatchObject({
+        code: 'JOB_NOT_IN_PROGRESS',
+      });
+    });
+  });
+
+  describe('completeJob', () => {
+    it('should not finish the job while stops are pending', async () => {
+      stops = [buildStop(0, true), buildStop(1)];
+
+      await expect(service.completeJob(job.id, RUNNER_ID)).rejects.toMatchObject({
+        code: 'STOPS_INCOMPLETE',
+      });
+      expect(jobRepository['transitionStatus']).not.toHaveBeenCalled();
+    });
+
+    it('should finish the job once every stop is checked off', async () => {
+      stops = [buildStop(0, true), buildStop(1, true)];
+
+      const updated = await service.completeJob(job.id, RUNNER_ID);
+
+      expect(updated.status).toBe('awaiting_payment');
+    });
+  });
+});
@@ -0,0 +1,396 @@
+/**
+ * Recurring Errand Tests
+ * Recurrence rule expansion and the job template scheduler
+ */
+
+import { JobTemplateService } from '../../services/job/JobTemplateService.js';
+import { JobService } from '../../services/job/JobService.js';
+import { expandRecurrence, formatRecurrenceRule, parseRecurrenceRule } from '../../utils/recurrence.js';
+import type {
+  CreateJobTemplateDto,
+  JobTemplate,
+  JobTemplateOccurrence,
+  JobTemplateRepository,
+  OccurrenceStatus,
+  UpdateJobTemplateDto,
+  UpdateOccurrenceDto,
+} from '../../database/repositories/JobTemplateRepository.js';
+import type { JobRepository } from '../../database/repositories/JobRepository.js';
+import type { OfferService } from '../../services/offer/OfferService.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * In-memory stand-in for JobTemplateRepository
+ */
+class InMemoryJobTemplateRepository {
+  templates: JobTemplate[] = [];
+  occurrences: JobTemplateOccurrence[] = [];
+  previousRunner: number | null = null;
+
+  async findById(id: number) {
+    const template = this.templates.find((t) => t.id === id);
+    if (!template) throw Object.assign(new Error('Template not found'), { code: 'JOB_TEMPLATE_NOT_FOUND' });
+    return { ...template };
+  }
+
+  async findByClientId(clientId: number) {
+    return this.templates.filter((t) => t.client_id === clientId);
+  }
+
+  async findActive() {
+    return this.templates.filter((t) => t.status === 'active');
+  }
+
+  async countOpenForClient(clientId: number) {
+    return this.templates.filter((t) => t.client_id === clientId && t.status !== 'ended').length;
+  }
+
+  async create(data: CreateJobTemplateDto) {
+    const template: JobTemplate = {
+      id: this.templates.length + 1,
+      client_id: data.clientId,
+      title: data.title,
+      description: data.description,
+      price_cents: data.priceCents,
+      category: data.category,
+      fedi_community_id: data.fediCommunityId,
+      address: data.address,
+      stops: data.stops,
+      rrule: data.rrule,
+      timezone: data.timezone,
+      starts_at: data.startsAt,
+      lead_hours: data.leadHours,
+      prefer_previous_runner: data.preferPreviousRunner,
+      status: 'active',
+      generated_until: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.templates.push(template);
+    return { ...template };
+  }
+
+  async update(id: number, data: UpdateJobTemplateDto) {
+    const template = this.templates.find((t) => t.id === id)!;
+    if (data.rrule !== undefined) template.rrule = data.rrule;
+    if (data.startsAt !== undefined) template.starts_at = data.startsAt;
+    if (data.priceCents !== undefined) template.price_cents = data.priceCents;
+    if (data.title !== undefined) template.title = data.title;
+    return { ...template };
+  }
+
+  async setStatus(id: number, status: JobTemplate['status']) {
+    const template = this.templates.find((t) => t.id === id)!;
+    template.status = status;
+    return { ...template };
+  }
+
+  async addOccurrences(templateId: number, dates: Date[], generatedUntil: Date) {
+    for (const date of dates) {
+      const exists = this.occurrences.some(
+        (o) => o.template_id === templateId && o.original_at.getTime() === date.getTime()
+      );
+      if (exists) continue;
+      this.occurrences.push({
+        id: this.occurrences.length + 1,
+        template_id: templateId,
+        original_at: date,
+        scheduled_for: date,
+        status: 'scheduled',
+        job_id: null,
+        error_message: null,
+        title_override: null,
+        description_override: null,
+        price_cents_override: null,
+        reserved_runner_id: null,
+        reserved_until: null,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+    }
+    this.templates.find((t) => t.id === templateId)!.generated_until = generatedUntil;
+  }
+
+  async deleteScheduled(templateId: number) {
+    this.occurrences = this.occurrences.filter((o) => o.template_id !== templateId || o.status !== 'scheduled');
+    this.templates.find((t) => t.id === templateId)!.generated_until = null;
+  }
+
+  async findOccurrenceById(id: number) {
+    const occurrence = this.occurrences.find((o) => o.id === id);
+    if (!occurrence) throw Object.assign(new Error('Occurrence not found'), { code: 'OCCURRENCE_NOT_FOUND' });
+    return occurrence;
+  }
+
+  async findOccurrences(templateId: number, since: Date, limit: number) {
+    return this.occurrences
+      .filter((o) => o.template_id === templateId && o.scheduled_for >= since)
+      .slice(0, limit);
+  }
+
+  async updateOccurrence(id: number, data: UpdateOccurrenceDto) {
+    const occurrence = this.occurrences.find((o) => o.id === id && o.status === 'scheduled');
+    if (!occurrence) return null;
+    if (data.scheduledFor !== undefined) occurrence.scheduled_for = data.scheduledFor;
+    if (data.titleOverride !== undefined) occurrence.title_override = data.titleOverride;
+    if (data.descriptionOverride !== undefined) occurrence.description_override = data.descriptionOverride;
+    if (data.priceCentsOverride !== undefined) occurrence.price_cents_override = data.priceCentsOverride;
+    return occurrence;
+  }
+
+  async transitionOccurrence(id: number, from: OccurrenceStatus, to: OccurrenceStatus) {
+    const occurrence = this.occurrences.find((o) => o.id === id && o.status === from);
+    if (!occurrence) return null;
+    occurrence.status = to;
+    return occurrence;
+  }
+
+  async markMissed() {
+    const due = this.occurrences.filter((o) => o.status === 'scheduled' && o.scheduled_for <= new Date());
+    due.forEach((o) => (o.status = 'missed'));
+    return due.length;
+  }
+
+  async claimDue(limit: number) {
+    const now = Date.now();
+    const due = this.occurrences
+      .filter((o) => {
+        const template = this.templates.find((t) => t.id === o.template_id)!;
+        return (
+          o.status === 'scheduled' &&
+          template.status === 'active' &&
+          o.scheduled_for.getTime() - template.lead_hours * HOUR_MS <= now &&
+          o.scheduled_for.getTime() > now
+        );
+      })
+      .slice(0, limit);
+    due.forEach((o) => (o.status = 'created'));
+    return due;
+  }
+
+  async attachJob(id: number, jobId: number, reservation: { runnerId: number; until: Date } | null) {
+    const occurrence = this.occurrences.find((o) => o.id === id)!;
+    occurrence.job_id = jobId;
+    occurrence.reserved_runner_id = reservation?.runnerId ?? null;
+    occurrence.reserved_until = reservation?.until ?? null;
+    return occurrence;
+  }
+
+  async markFailed(id: number, errorMessage: string) {
+    const occurrence = this.occurrences.find((o) => o.id === id)!;
+    occurrence.status = 'failed';
+    occurrence.error_message = errorMessage;
+  }
+
+  async findPreviousRunner() {
+    return this.previousRunner;
+  }
+}
+
+describe('Recurrence rules', () => {
+  it('should keep the local time of day across a daylight saving change', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=SA');
+    // Saturday 17 October 2026, 10:00 in London (BST)
+    const start = new Date('2026-10-17T09:00:00Z');
+
+    const dates = expandRecurrence(rule, start, 'Europe/London', start, new Date('2026-11-01T00:00:00Z'));
+
+    expect(dates.map((d) => d.toISOString())).toEqual([
+      '2026-10-17T09:00:00.000Z',
+      '2026-10-24T09:00:00.000Z',
+      '2026-10-31T10:00:00.000Z', // Back on GMT
+    ]);
+  });
+
+  it('should move a time skipped by the clocks going forward to after the gap', () => {
+    const rule = parseRecurrenceRule('FREQ=DAILY');
+    const start = new Date('2026-03-07T07:30:00Z'); // 02:30 in New York
+
+    const dates = expandRecurrence(rule, start, 'America/New_York', start, new Date('2026-03-09T00:00:00Z'));
+
+    // 02:30 does not exist on 8 March, so it becomes 03:30 EDT
+    expect(dates.map((d) => d.toISOString())).toEqual(['2026-03-07T07:30:00.000Z', '2026-03-08T07:30:00.000Z']);
+  });
+
+  it('should expand numbered weekdays and days from the end of the month', () => {
+    const start = new Date('2026-01-05T12:00:00Z'); // First Monday of January
+    const to = new Date('2026-04-01T00:00:00Z');
+
+    const firstMondays = expandRecurrence(parseRecurrenceRule('FREQ=MONTHLY;BYDAY=1MO'), start, 'UTC', start, to);
+    const lastDays = expandRecurrence(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1'), start, 'UTC', start, to);
+
+    expect(firstMondays.map((d) => d.toISOString().slice(0, 10))).toEqual(['2026-01-05', '2026-02-02', '2026-03-02']);
+    expect(lastDays.map((d) => d.toISOString().slice(0, 10))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31']);
+  });
+
+  it('should count occurrences from the start, not from the window', () => {
+    const rule = parseRecurrenceRule('RRULE:FREQ=DAILY;INTERVAL=2;COUNT=3');
+    const start = new Date('2026-05-01T08:00:00Z');
+
+    const dates = expandRecurrence(rule, start, 'UTC', new Date('2026-05-02T00:00:00Z'), new Date('2027-01-01T00:00:00Z'));
+
+    expect(dates.map((d) => d.toISOString().slice(0, 10))).toEqual(['2026-05-03', '2026-05-05']);
+  });
+
+  it('should reject unsupported rules and write supported ones back', () => {
+    expect(() => parseRecurrenceRule('FREQ=YEARLY')).toThrow(expect.objectContaining({ code: 'INVALID_RRULE' }));
+    expect(() => parseRecurrenceRule('FREQ=WEEKLY;BYDAY=1MO')).toThrow(
+      expect.objectContaining({ code: 'INVALID_RRULE' })
+    );
+    expect(formatRecurrenceRule(parseRecurrenceRule('freq=weekly;byday=mo,th;interval=2'))).toBe(
+      'FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH'
+    );
+  });
+});
+
+describe('JobTemplateService', () => {
+  let templateRepository: InMemoryJobTemplateRepository;
+  let jobService: JobService;
+  let createJob: jest.SpyInstance;
+  let offerService: { proposeToRunner: jest.Mock };
+  let service: JobTemplateService;
+  let nextJobId: number;
+
+  const input = (overrides: Record<string, unknown> = {}) => ({
+    title: 'Weekly groceries',
+    description: 'Pick up the usual list from the market',
+    priceCents: 2500,
+    rrule: 'FREQ=DAILY',
+    timezone: 'Europe/London',
+    startsAt: new Date(Date.now() + 24 * HOUR_MS),
+    leadHours: 36,
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    templateRepository = new InMemoryJobTemplateRepository();
+    nextJobId = 100;
+
+    const jobRepository = {
+      findById: jest.fn(async (id: number) => ({ id, client_id: CLIENT_ID, status: 'open' })),
+    };
+
+    jobService = new JobService(
+      jobRepository as unknown as JobRepository,
+      {} as never,
+      {} as never,
+      {} as never
+    );
+    createJob = jest.spyOn(jobService, 'createJob').mockImplementation(async () => ({ id: nextJobId++ }));
+
+    offerService = { proposeToRunner: jest.fn(async () => ({})) };
+
+    service = new JobTemplateService(
+      templateRepository as unknown as JobTemplateRepository,
+      jobRepository as unknown as JobRepository,
+      jobService,
+      offerService as unknown as OfferService
+    );
+  });
+
+  describe('createTemplate', () => {
+    it('should write the occurrences up to the horizon', async () => {
+      const template = await service.createTemplate(CLIENT_ID, input({ rrule: 'rrule:freq=weekly' }));
+
+      expect(template.rrule).toBe('FREQ=WEEKLY');
+      expect(templateRepository.occurrences).toHaveLength(4);
+      expect(template.occurrences[0]).toMatchObject({ status: 'scheduled', priceCents: 2500, edited: false });
+    });
+
+    it('should reject an unknown time zone', async () => {
+      await expect(service.createTemplate(CLIENT_ID, input({ timezone: 'Mars/Olympus' }))).rejects.toMatchObject({
+        code: 'INVALID_TIMEZONE',
+      });
+    });
+
+    it('should reject a schedule that never falls in the future', async () => {
+      await expect(
+        service.createTemplate(CLIENT_ID, input({ rrule: 'FREQ=DAILY;UNTIL=20200101' }))
+      ).rejects.toMatchObject({ code: 'NO_OCCURRENCES' });
+    });
+  });
+
+  describe('runScheduler', () => {
+    it('should post due occurrences and offer them to the previous runner first', async () => {
+      await service.createTemplate(CLIENT_ID, input());
+      templateRepository.previousRunner = RUNNER_ID;
+
+      const run = await service.runScheduler();
+
+      expect(run).toEqual({ posted: 1, failed: 0, missed: 0 });
+      const first = templateRepository.occurrences[0]!;
+      expect(createJob).toHaveBeenCalledWith(
+        expect.objectContaining({ clientId: CLIENT_ID, priceCents: 2500, deadline: first.scheduled_for })
+      );
+      expect(offerService.proposeToRunner).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 100 }),
+        RUNNER_ID,
+        expect.objectContaining({ priceCents: 2500 })
+      );
+      expect(first).toMatchObject({ status: 'created', job_id: 100, reserved_runner_id: RUNNER_ID });
+      expect(first.reserved_until!.getTime()).toBeLessThanOrEqual(first.scheduled_for.getTime());
+    });
+
+    it('should post edits to a single occurrence', async () => {
+      const template = await service.createTemplate(CLIENT_ID, input({ preferPreviousRunner: false }));
+      const first = template.occurrences[0]!;
+      const later = new Date(first.scheduledFor.getTime() + HOUR_MS);
+
+      const edited = await service.updateOccurrence(first.id, CLIENT_ID, { scheduledFor: later, priceCents: 3000 });
+      await service.runScheduler();
+
+      expect(edited).toMatchObject({ priceCents: 3000, edited: true });
+      expect(createJob).toHaveBeenCalledWith(expect.objectContaining({ priceCents: 3000, deadline: later }));
+      expect(offerService.proposeToRunner).not.toHaveBeenCalled();
+    });
+
+    it('should not post skipped occurrences or those of a paused template', async () => {
+      const skipped = await service.createTemplate(CLIENT_ID, input());
+      const paused = await service.createTemplate(CLIENT_ID, input({ title: 'Dog walking' }));
+
+      await service.skipOccurrence(skipped.occurrences[0]!.id, CLIENT_ID);
+      await service.pauseTemplate(paused.id, CLIENT_ID);
+      const run = await service.runScheduler();
+
+      expect(run.posted).toBe(0);
+      expect(createJob).not.toHaveBeenCalled();
+    });
+
+    it('should record a job that could not be posted and carry on', async () => {
+      await service.createTemplate(CLIENT_ID, input());
+      createJob.mockRejectedValueOnce(new Error('Client not found'));
+
+      const run = await service.runScheduler();
+
+      expect(run).toMatchObject({ posted: 0, failed: 1 });
+      expect(templateRepository.occurrences[0]).toMatchObject({ status: 'failed', error_message: 'Client not found' });
+    });
+  });
+
+  describe('managing templates', () => {
+    it('should replace unposted occurrences when the schedule changes', async () => {
+      const template = await service.createTemplate(CLIENT_ID, input());
+      await service.skipOccurrence(template.occurrences[1]!.id, CLIENT_ID);
+
+      const updated = await service.updateTemplate(template.id, CLIENT_ID, { rrule: 'FREQ=WEEKLY' });
+
+      expect(updated.rrule).toBe('FREQ=WEEKLY');
+      expect(templateRepository.occurrences.filter((o) => o.status === 'scheduled')).toHaveLength(4);
+      expect(templateRepository.occurrences.filter((o) => o.status === 'skipped')).toHaveLength(1);
+    });
+
+    it('should only let the client manage their own templates', async () => {
+      const template = await service.createTemplate(CLIENT_ID, input());
+
+      await expect(service.pauseTemplate(template.id, RUNNER_ID)).rejects.toMatchObject({
+        code: 'NOT_TEMPLATE_OWNER',
+      });
+      await expect(service.skipOccurrence(template.occurrences[0]!.id, RUNNER_ID)).rejects.toMatchObject({
+        code: 'NOT_TEMPLATE_OWNER',
+      });
+    });
+  });
+});
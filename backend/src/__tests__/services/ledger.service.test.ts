@@ -0,0 +1,292 @@
+/**
+ * Ledger Service Unit Tests
+ * Balanced postings for each money movement and reconciliation against the node
+ */
+
+import { LedgerService } from '../../services/ledger/LedgerService.js';
+import type {
+  LedgerAccountBalance,
+  LedgerRepository,
+  LedgerTransaction,
+  PostLedgerTransactionDto,
+  RunnerBalanceMismatch,
+} from '../../database/repositories/LedgerRepository.js';
+import type { EscrowRepository, JobEscrow } from '../../database/repositories/EscrowRepository.js';
+import type { RunnerEarning } from '../../database/repositories/RunnerEarningRepository.js';
+import type { ClientRefund } from '../../database/repositories/ClientRefundRepository.js';
+import type { LightningBackend } from '../../services/lightning/backends/LightningBackend.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+/**
+ * In-memory stand-in for LedgerRepository, with the same reference rule
+ */
+class InMemoryLedgerRepository {
+  transactions: (LedgerTransaction & { entries: PostLedgerTransactionDto['entries'] })[] = [];
+  runnerMismatches: RunnerBalanceMismatch[] = [];
+
+  async post(data: PostLedgerTransactionDto): Promise<LedgerTransaction | null> {
+    if (this.transactions.some((t) => t.reference === data.reference)) {
+      return null;
+    }
+    const transaction = {
+      id: this.transactions.length + 1,
+      kind: data.kind,
+      reference: data.reference,
+      job_id: data.jobId,
+      description: data.description,
+      created_at: new Date(),
+      entries: data.entries,
+    };
+    this.transactions.push(transaction);
+    return transaction;
+  }
+
+  async getBalances(): Promise<LedgerAccountBalance[]> {
+    const balances = new Map<string, LedgerAccountBalance>();
+    for (const entry of this.transactions.flatMap((t) => t.entries)) {
+      const key = `${entry.account}:${entry.userId}`;
+      const account = balances.get(key) ?? {
+        account_id: balances.size + 1,
+        type: entry.account,
+        user_id: entry.userId,
+        balance_sats: 0,
+      };
+      account.balance_sats += entry.amountSats;
+      balances.set(key, account);
+    }
+    return [...balances.values()];
+  }
+
+  async findUnbalanced() {
+    return [];
+  }
+
+  async findRunnerBalanceMismatches(): Promise<RunnerBalanceMismatch[]> {
+    return this.runnerMismatches;
+  }
+
+  balanceOf(type: string, userId: number | null = null): number {
+    return this.transactions
+      .flatMap((t) => t.entries)
+      .filter((e) => e.account === type && e.userId === userId)
+      .reduce((sum, e) => sum + e.amountSats, 0);
+  }
+}
+
+function buildEscrow(overrides: Partial<JobEscrow> = {}): JobEscrow {
+  return {
+    id: 1,
+    job_id: 100,
+    payment_hash: 'ab'.repeat(32),
+    preimage: 'cd'.repeat(32),
+    payment_request: 'lnbc1',
+    amount_sats: 50000,
+    price_snapshot_id: 1,
+    status: 'held',
+    release_after: null,
+    created_at: new Date(),
+    expires_at: new Date(),
+    held_at: new Date(),
+    settled_at: null,
+    cancelled_at: null,
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function buildEarning(overrides: Partial<RunnerEarning> = {}): RunnerEarning {
+  return {
+    id: 5,
+    runner_id: RUNNER_ID,
+    job_id: 100,
+    kind: 'job',
+    tip_id: null,
+    amount_cents: 2500,
+    amount_sats: 50000,
+    platform_fee_cents: 250,
+    platform_fee_sats: 5000,
+    net_amount_cents: 2250,
+    net_amount_sats: 45000,
+    price_snapshot_id: 1,
+    status: 'pending',
+    payout_method: 'lightning',
+    lightning_address: 'runner@wallet.example.com',
+    payment_hash: null,
+    payment_preimage: null,
+    payment_request: null,
+    error_message: null,
+    retry_count: 0,
+    next_attempt_at: new Date(),
+    locked_by: null,
+    locked_until: null,
+    created_at: new Date(),
+    processed_at: null,
+    completed_at: null,
+    failed_at: null,
+    dead_at: null,
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+function buildRefund(overrides: Partial<ClientRefund> = {}): ClientRefund {
+  return {
+    id: 3,
+    client_id: CLIENT_ID,
+    job_id: 100,
+    dispute_id: 7,
+    amount_cents: 1000,
+    amount_sats: 20000,
+    price_snapshot_id: 1,
+    status: 'processing',
+    lightning_address: 'client@wallet.example.com',
+    payment_request: null,
+    payment_hash: null,
+    payment_preimage: null,
+    error_message: null,
+    retry_count: 0,
+    next_attempt_at: new Date(),
+    locked_by: null,
+    locked_until: null,
+    created_at: new Date(),
+    completed_at: null,
+    dead_at: null,
+    updated_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('LedgerService', () => {
+  let repository: InMemoryLedgerRepository;
+  let heldEscrowSats: number;
+  let getBalance: jest.Mock;
+  let service: LedgerService;
+
+  beforeEach(() => {
+    repository = new InMemoryLedgerRepository();
+    heldEscrowSats = 0;
+    getBalance = jest.fn();
+    service = new LedgerService(
+      repository as unknown as LedgerRepository,
+      { sumHeldSats: async () => heldEscrowSats } as unknown as EscrowRepository,
+      { name: 'lnd', getBalance } as unknown as LightningBackend
+    );
+  });
+
+  it('should post balanced entries from funding through payout', async () => {
+    await service.recordEscrowFunded(buildEscrow(), CLIENT_ID);
+    await service.recordEarningReleased(buildEarning(), CLIENT_ID);
+    await service.recordPayoutSent(buildEarning(), 12);
+
+    for (const transaction of repository.transactions) {
+      expect(transaction.entries.reduce((sum, e) => sum + e.amountSats, 0)).toBe(0);
+    }
+    expect(repository.transactions.map((t) => t.kind)).toEqual(['escrow_funded', 'earning_released', 'payout_sent']);
+    expect(repository.balanceOf('client_escrow', CLIENT_ID)).toBe(0);
+    expect(repository.balanceOf('runner_balance', RUNNER_ID)).toBe(0);
+    // Fee kept, less the routing fee of the payout
+    expect(repository.balanceOf('platform_fees')).toBe(-(5000 - 12));
+    expect(repository.balanceOf('lightning_float')).toBe(5000 - 12);
+  });
+
+  it('should keep the unpaid part of a split in the client escrow', async () => {
+    await service.recordEscrowFunded(buildEscrow(), CLIENT_ID);
+    await service.recordEarningReleased(
+      buildEarning({ amount_sats: 30000, platform_fee_sats: 0, net_amount_sats: 30000 }),
+      CLIENT_ID
+    );
+
+    expect(repository.balanceOf('client_escrow', CLIENT_ID)).toBe(-20000);
+    expect(repository.balanceOf('runner_balance', RUNNER_ID)).toBe(-30000);
+  });
+
+  it('should clear the client escrow once the client is refunded their share of a split', async () => {
+    await service.recordEscrowFunded(buildEscrow(), CLIENT_ID);
+    await service.recordEarningReleased(
+      buildEarning({ amount_sats: 30000, platform_fee_sats: 0, net_amount_sats: 30000 }),
+      CLIENT_ID
+    );
+    await service.recordRefundSent(buildRefund({ amount_sats: 20000 }), 4);
+
+    expect(repository.transactions.at(-1)).toMatchObject({ kind: 'refund_sent', reference: 'refund:3:paid' });
+    expect(repository.balanceOf('client_escrow', CLIENT_ID)).toBe(0);
+    expect(repository.balanceOf('platform_fees')).toBe(4);
+    expect(repository.balanceOf('lightning_float')).toBe(30000 - 4);
+  });
+
+  it('should post each money movement once', async () => {
+    await service.recordEscrowFunded(buildEscrow(), CLIENT_ID);
+    expect(await service.recordEscrowFunded(buildEscrow(), CLIENT_ID)).toBeNull();
+
+    await service.recordEscrowRefunded(buildEscrow(), CLIENT_ID);
+
+    expect(repository.transactions.map((t) => t.reference)).toEqual(['escrow:1:funded', 'escrow:1:refunded']);
+    expect(repository.balanceOf('lightning_float')).toBe(0);
+  });
+
+  it('should refuse postings that do not balance without failing the caller', async () => {
+    const posted = await service.recordEarningReleased(
+      buildEarning({ amount_sats: 50000, platform_fee_sats: 5000, net_amount_sats: 45001 }),
+      CLIENT_ID
+    );
+
+    expect(posted).toBeNull();
+    expect(repository.transactions).toHaveLength(0);
+  });
+
+  describe('reconcile', () => {
+    beforeEach(async () => {
+      await service.recordInvoiceSettled({ paymentHash: 'ef'.repeat(32), jobId: 99, clientId: CLIENT_ID, amountSats: 8000 });
+      await service.recordEscrowFunded(buildEscrow(), CLIENT_ID);
+      heldEscrowSats = 50000;
+    });
+
+    it('should not count held escrows towards the node balance', async () => {
+      getBalance.mockResolvedValue(8003);
+
+      const report = await service.reconcile();
+
+      expect(report).toMatchObject({
+        ok: true,
+        ledgerFloatSats: 58000,
+        heldEscrowSats: 50000,
+        expectedNodeBalanceSats: 8000,
+        nodeBalanceSats: 8003,
+        driftSats: 3,
+      });
+      expect(report.totals).toMatchObject({ lightning_float: 58000, client_escrow: 58000 });
+    });
+
+    it('should flag drift against the node balance', async () => {
+      getBalance.mockResolvedValue(6000);
+
+      const report = await service.reconcile();
+
+      expect(report.ok).toBe(false);
+      expect(report.driftSats).toBe(-2000);
+      expect(report.issues).toEqual([expect.objectContaining({ code: 'NODE_BALANCE_DRIFT' })]);
+    });
+
+    it('should flag overdrawn accounts and runner balances that disagree with the payout queue', async () => {
+      getBalance.mockResolvedValue(8000);
+      await service.recordEarningReleased(buildEarning({ id: 6, amount_sats: 70000, platform_fee_sats: 0, net_amount_sats: 70000 }), CLIENT_ID);
+      repository.runnerMismatches = [{ runner_id: RUNNER_ID, ledger_sats: 70000, earnings_sats: 0 }];
+
+      const report = await service.reconcile();
+
+      expect(report.issues.map((issue) => issue.code)).toEqual(['NEGATIVE_BALANCE', 'RUNNER_BALANCE_MISMATCH']);
+      expect(report.issues[0]!.details).toMatchObject({ type: 'client_escrow', userId: CLIENT_ID, balanceSats: -12000 });
+    });
+
+    it('should report a node it cannot read', async () => {
+      getBalance.mockRejectedValue(new Error('connection refused'));
+
+      const report = await service.reconcile();
+
+      expect(report).toMatchObject({ ok: false, nodeBalanceSats: null, driftSats: null });
+      expect(report.issues[0]).toMatchObject({ code: 'NODE_BALANCE_UNAVAILABLE' });
+    });
+  });
+});
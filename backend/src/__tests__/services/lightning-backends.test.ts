@@ -0,0 +1,372 @@
+/**
+ * Lightning Backend Unit Tests
+ * Adapters against stub nodes, the fake backend, backend selection and the
+ * Nostr signing used by Nostr Wallet Connect
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { FakeLightningBackend } from '../../services/lightning/backends/FakeLightningBackend.js';
+import { LndRestBackend } from '../../services/lightning/backends/LndRestBackend.js';
+import { ClnRestBackend } from '../../services/lightning/backends/ClnRestBackend.js';
+import { NwcBackend, RelayConnector } from '../../services/lightning/backends/NwcBackend.js';
+import { createLightningBackend } from '../../services/lightning/backends/createLightningBackend.js';
+import {
+  finalizeEvent,
+  getPublicKey,
+  nip04Decrypt,
+  nip04Encrypt,
+  NostrEvent,
+  schnorrSign,
+  schnorrVerify,
+  verifyEvent,
+} from '../../utils/nostr.js';
+
+const PREIMAGE = 'ab'.repeat(32);
+const PAYMENT_HASH = crypto.createHash('sha256').update(Buffer.from(PREIMAGE, 'hex')).digest('hex');
+
+interface StubRequest {
+  method: string;
+  url: string;
+  headers: http.IncomingHttpHeaders;
+  body: any;
+}
+
+/**
+ * Local HTTP server answering like a node's REST API
+ */
+async function startStubNode(routes: Record<string, (body: any) => [number, unknown]>) {
+  const requests: StubRequest[] = [];
+  const server = http.createServer((req, res) => {
+    let raw = '';
+    req.on('data', (chunk) => (raw += chunk));
+    req.on('end', () => {
+      const body = raw ? JSON.parse(raw) : undefined;
+      requests.push({ method: req.method!, url: req.url!, headers: req.headers, body });
+
+      const route = routes[`${req.method} ${req.url}`];
+      const [status, payload] = route ? route(body) : [404, { message: 'Not found' }];
+      res.writeHead(status, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(payload));
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () =>
+      new Promise<void>((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+describe('FakeLightningBackend', () => {
+  let backend: FakeLightningBackend;
+
+  beforeEach(() => {
+    backend = new FakeLightningBackend();
+  });
+
+  it('should settle its own invoices when paid', async () => {
+    const invoice = await backend.createInvoice({ amountSats: 2100, description: 'Job #1', expirySeconds: 60 });
+    expect(await backend.getInvoiceStatus(invoice.paymentHash)).toEqual({ paid: false, paymentHash: invoice.paymentHash });
+
+    const payment = await backend.payInvoice(invoice.paymentRequest);
+    const status = await backend.getInvoiceStatus(invoice.paymentHash);
+
+    expect(status).toMatchObject({ paid: true, amountPaidSats: 2100, preimage: payment.preimage });
+    expect(crypto.createHash('sha256').update(Buffer.from(payment.preimage!, 'hex')).digest('hex')).toBe(
+      invoice.paymentHash
+    );
+    await expect(backend.payInvoice(invoice.paymentRequest)).rejects.toMatchObject({ code: 'PAYMENT_FAILED' });
+  });
+
+  it('should hold funds until the preimage is revealed', async () => {
+    const invoice = await backend.createHoldInvoice({
+      paymentHash: PAYMENT_HASH,
+      amountSats: 500,
+      description: 'Escrow',
+      expirySeconds: 60,
+      cltvExpiry: 144,
+    });
+
+    await backend.payInvoice(invoice.paymentRequest);
+    expect(await backend.getHoldInvoiceState(PAYMENT_HASH)).toBe('accepted');
+    expect((await backend.getInvoiceStatus(PAYMENT_HASH)).paid).toBe(false);
+
+    await backend.settleHoldInvoice(PREIMAGE);
+    expect(await backend.getHoldInvoiceState(PAYMENT_HASH)).toBe('settled');
+    await expect(backend.cancelHoldInvoice(PAYMENT_HASH)).rejects.toThrow('settled');
+  });
+
+  it('should only count settled funds in its balance', async () => {
+    const invoice = await backend.createHoldInvoice({
+      paymentHash: PAYMENT_HASH,
+      amountSats: 500,
+      description: 'Escrow',
+      expirySeconds: 60,
+      cltvExpiry: 144,
+    });
+
+    await backend.payInvoice(invoice.paymentRequest);
+    expect(await backend.getBalance()).toBe(0);
+
+    await backend.settleHoldInvoice(PREIMAGE);
+    expect(await backend.getBalance()).toBe(500);
+  });
+
+  it('should reject amounts that cannot be invoiced', async () => {
+    await expect(backend.createInvoice({ amountSats: 0, description: '', expirySeconds: 60 })).rejects.toMatchObject({
+      code: 'INVALID_AMOUNT',
+    });
+    await expect(backend.createInvoice({ amountSats: 1.5, description: '', expirySeconds: 60 })).rejects.toMatchObject({
+      code: 'INVALID_AMOUNT',
+    });
+  });
+});
+
+describe('LndRestBackend', () => {
+  let node: Awaited<ReturnType<typeof startStubNode>>;
+
+  afterEach(async () => {
+    await node.close();
+  });
+
+  it('should authenticate with the macaroon and convert base64 hashes', async () => {
+    node = await startStubNode({
+      'POST /v1/invoices': () => [200, { r_hash: Buffer.from(PAYMENT_HASH, 'hex').toString('base64'), payment_request: 'lnbc1' }],
+      [`GET /v1/invoice/${PAYMENT_HASH}`]: () => [
+        200,
+        { state: 'SETTLED', amt_paid_sat: '1000', settle_date: '1700000000', r_preimage: Buffer.from(PREIMAGE, 'hex').toString('base64') },
+      ],
+    });
+    const backend = new LndRestBackend({ restUrl: node.url, macaroon: '0201036c6e64' });
+
+    const invoice = await backend.createInvoice({ amountSats: 1000, description: 'Job #1', expirySeconds: 3600 });
+    const status = await backend.getInvoiceStatus(PAYMENT_HASH);
+
+    expect(invoice.paymentHash).toBe(PAYMENT_HASH);
+    expect(node.requests[0]!.headers['grpc-metadata-macaroon']).toBe('0201036c6e64');
+    expect(node.requests[0]!.body).toEqual({ value: '1000', memo: 'Job #1', expiry: '3600' });
+    expect(status).toEqual({
+      paid: true,
+      paymentHash: PAYMENT_HASH,
+      amountPaidSats: 1000,
+      paidAt: new Date(1700000000 * 1000),
+      preimage: PREIMAGE,
+    });
+  });
+
+  it('should fail payments that LND could not route', async () => {
+    node = await startStubNode({
+      'POST /v1/channels/transactions': () => [200, { payment_error: 'no_route' }],
+      'POST /v2/invoices/hodl': () => [500, { message: 'invoice with payment hash already exists' }],
+    });
+    const backend = new LndRestBackend({ restUrl: node.url, macaroon: 'aa' });
+
+    await expect(backend.payInvoice('lnbc1')).rejects.toMatchObject({ code: 'PAYMENT_FAILED' });
+    await expect(
+      backend.createHoldInvoice({
+        paymentHash: PAYMENT_HASH,
+        amountSats: 10,
+        description: '',
+        expirySeconds: 60,
+        cltvExpiry: 1008,
+      })
+    ).rejects.toMatchObject({ code: 'LIGHTNING_BACKEND_ERROR' });
+    expect(node.requests[1]!.body.hash).toBe(Buffer.from(PAYMENT_HASH, 'hex').toString('base64'));
+    expect(node.requests[1]!.body.cltv_expiry).toBe('1008');
+  });
+
+  it('should report the local channel balance', async () => {
+    node = await startStubNode({
+      'GET /v1/balance/channels': () => [200, { balance: '120000', local_balance: { sat: '125000', msat: '125000000' } }],
+    });
+    const backend = new LndRestBackend({ restUrl: node.url, macaroon: 'aa' });
+
+    expect(await backend.getBalance()).toBe(125000);
+  });
+});
+
+describe('ClnRestBackend', () => {
+  let node: Awaited<ReturnType<typeof startStubNode>>;
+
+  afterEach(async () => {
+    await node.close();
+  });
+
+  it('should create and look up invoices with the rune', async () => {
+    node = await startStubNode({
+      'POST /v1/invoice': () => [201, { bolt11: 'lnbc1', payment_hash: PAYMENT_HASH, expires_at: 1700003600 }],
+      'POST /v1/listinvoices': () => [
+        201,
+        { invoices: [{ status: 'paid', amount_received_msat: 1500000, paid_at: 1700000000, payment_preimage: PREIMAGE }] },
+      ],
+    });
+    const backend = new ClnRestBackend({ restUrl: node.url, rune: 'test-rune' });
+
+    const invoice = await backend.createInvoice({ amountSats: 1500, description: 'Job #2', expirySeconds: 3600 });
+    const status = await backend.getInvoiceStatus(PAYMENT_HASH);
+
+    expect(invoice).toMatchObject({ paymentHash: PAYMENT_HASH, expiresAt: new Date(1700003600 * 1000) });
+    expect(node.requests[0]!.headers['rune']).toBe('test-rune');
+    expect(node.requests[0]!.body).toMatchObject({ amount_msat: 1500000, label: expect.stringMatching(/^errandbit-/) });
+    expect(node.requests[1]!.body).toEqual({ payment_hash: PAYMENT_HASH });
+    expect(status).toMatchObject({ paid: true, amountPaidSats: 1500, preimage: PREIMAGE });
+  });
+
+  it('should refuse hold invoices', async () => {
+    node = await startStubNode({});
+    const backend = new ClnRestBackend({ restUrl: node.url, rune: 'test-rune' });
+
+    await expect(backend.getHoldInvoiceState(PAYMENT_HASH)).rejects.toMatchObject({ code: 'HOLD_INVOICES_UNSUPPORTED' });
+  });
+
+  it('should sum our side of open channels for the balance', async () => {
+    node = await startStubNode({
+      'POST /v1/listfunds': () => [
+        201,
+        {
+          outputs: [{ amount_msat: 900000000, status: 'confirmed' }],
+          channels: [
+            { state: 'CHANNELD_NORMAL', our_amount_msat: 40000500 },
+            { state: 'CHANNELD_NORMAL', our_amount_msat: 2000000 },
+            { state: 'ONCHAIN', our_amount_msat: 7000000 },
+          ],
+        },
+      ],
+    });
+    const backend = new ClnRestBackend({ restUrl: node.url, rune: 'test-rune' });
+
+    expect(await backend.getBalance()).toBe(42000);
+  });
+});
+
+describe('NwcBackend', () => {
+  const WALLET_SECRET = '2'.repeat(64);
+  const CLIENT_SECRET = '1'.repeat(64);
+  const walletPubkey = getPublicKey(WALLET_SECRET);
+  const uri = `nostr+walletconnect://${walletPubkey}?relay=wss://relay.example.com&secret=${CLIENT_SECRET}`;
+
+  /**
+   * Relay with a wallet behind it that answers each request
+   */
+  function walletRelay(
+    handle: (method: string, params: any) => { result?: unknown; error?: { code: string; message: string } }
+  ): { connector: RelayConnector; requests: NostrEvent[] } {
+    const requests: NostrEvent[] = [];
+
+    const connector: RelayConnector = async (_relayUrl, onMessage) => {
+      let subscriptionId = '';
+      return {
+        send(message) {
+          if (message[0] === 'REQ') {
+            subscriptionId = message[1] as string;
+          }
+          if (message[0] !== 'EVENT') {
+            return;
+          }
+
+          const request = message[1] as NostrEvent;
+          requests.push(request);
+          const { method, params } = JSON.parse(nip04Decrypt(WALLET_SECRET, request.pubkey, request.content));
+          const response = finalizeEvent(
+            {
+              kind: 23195,
+              created_at: Math.floor(Date.now() / 1000),
+              tags: [['p', request.pubkey], ['e', request.id]],
+              content: nip04Encrypt(WALLET_SECRET, request.pubkey, JSON.stringify({ result_type: method, ...handle(method, params) })),
+            },
+            WALLET_SECRET
+          );
+          setImmediate(() => onMessage(['EVENT', subscriptionId, response]));
+        },
+        close: jest.fn(),
+      };
+    };
+
+    return { connector, requests };
+  }
+
+  it('should send signed, encrypted requests to the wallet', async () => {
+    const { connector, requests } = walletRelay((method, params) => ({
+      result: { type: 'incoming', invoice: 'lnbc1', payment_hash: PAYMENT_HASH, amount: params.amount, expires_at: 1700003600, method },
+    }));
+    const backend = new NwcBackend(uri, connector);
+
+    const invoice = await backend.createInvoice({ amountSats: 21, description: 'Job #3', expirySeconds: 3600 });
+
+    expect(invoice).toMatchObject({ paymentRequest: 'lnbc1', paymentHash: PAYMENT_HASH, amountSats: 21 });
+    expect(requests[0]!.kind).toBe(23194);
+    expect(requests[0]!.pubkey).toBe(getPublicKey(CLIENT_SECRET));
+    expect(requests[0]!.tags).toEqual([['p', walletPubkey]]);
+    expect(verifyEvent(requests[0]!)).toBe(true);
+    expect(JSON.parse(nip04Decrypt(WALLET_SECRET, requests[0]!.pubkey, requests[0]!.content))).toEqual({
+      method: 'make_invoice',
+      params: { amount: 21000, description: 'Job #3', expiry: 3600 },
+    });
+  });
+
+  it('should surface wallet errors', async () => {
+    const { connector } = walletRelay(() => ({ error: { code: 'INSUFFICIENT_BALANCE', message: 'Not enough funds' } }));
+    const backend = new NwcBackend(uri, connector);
+
+    await expect(backend.payInvoice('lnbc1')).rejects.toMatchObject({ code: 'PAYMENT_FAILED' });
+  });
+
+  it('should time out when the wallet does not answer', async () => {
+    const close = jest.fn();
+    const backend = new NwcBackend(uri, async () => ({ send: jest.fn(), close }), 20);
+
+    await expect(backend.getInvoiceStatus(PAYMENT_HASH)).rejects.toMatchObject({ code: 'NWC_TIMEOUT' });
+    expect(close).toHaveBeenCalled();
+  });
+
+  it('should reject malformed connection URIs', () => {
+    expect(() => new NwcBackend('nostr+walletconnect://abc?relay=wss://r')).toThrow('Invalid Nostr Wallet Connect URI');
+  });
+});
+
+describe('createLightningBackend', () => {
+  it('should pick the backend named by LIGHTNING_BACKEND', () => {
+    expect(createLightningBackend({ LIGHTNING_BACKEND: 'lnd', LND_REST_URL: 'https://localhost:8080', LND_MACAROON: 'aa' }).name).toBe('lnd');
+    expect(createLightningBackend({ LIGHTNING_BACKEND: 'CLN', CLN_REST_URL: 'https://localhost:3010', CLN_RUNE: 'r' }).name).toBe('cln');
+  });
+
+  it('should keep LNbits setups working and fall back to the fake backend', () => {
+    expect(createLightningBackend({ LNBITS_URL: 'https://lnbits.example.com', LNBITS_API_KEY: 'key' }).name).toBe('lnbits');
+    expect(createLightningBackend({}).name).toBe('fake');
+  });
+
+  it('should refuse unknown or incomplete configuration', () => {
+    expect(() => createLightningBackend({ LIGHTNING_BACKEND: 'eclair' })).toThrow('Unknown LIGHTNING_BACKEND');
+    expect(() => createLightningBackend({ LIGHTNING_BACKEND: 'nwc' })).toThrow('NWC_CONNECTION_URI must be set');
+  });
+});
+
+describe('Nostr signatures', () => {
+  it('should match the BIP-340 test vector', () => {
+    const secretKey = '0000000000000000000000000000000000000000000000000000000000000003';
+    const signature = schnorrSign('00'.repeat(32), secretKey, Buffer.alloc(32));
+
+    expect(getPublicKey(secretKey)).toBe('f9308a019258c31049344f85f89d5229b531c845836f99b08601f113bce036f9');
+    expect(signature).toBe(
+      'e907831f80848d1069a5371b402410364bdf1c5f8307b0084c55f1ce2dca821525f66a4a85ea8b71e482a74f382d2ce5ebeee8fdb2172f477df4900d310536c0'
+    );
+    expect(schnorrVerify(signature, '00'.repeat(32), getPublicKey(secretKey))).toBe(true);
+    expect(schnorrVerify(signature, '01'.repeat(32), getPublicKey(secretKey))).toBe(false);
+  });
+
+  it('should reject tampered events', () => {
+    const event = finalizeEvent({ kind: 1, created_at: 1700000000, tags: [], content: 'hello' }, '1'.repeat(64));
+
+    expect(verifyEvent(event)).toBe(true);
+    expect(verifyEvent({ ...event, content: 'goodbye' })).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * LnurlAuthService Unit Tests
+ * LUD-04 challenges, wallet callbacks with ECDSA signatures and one-time claims
+ */
+
+import crypto from 'crypto';
+import { LnurlAuthService } from '../../services/auth/LnurlAuthService.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { LnurlChallengeRepository } from '../../database/repositories/LnurlChallengeRepository.js';
+import type { SessionService } from '../../services/auth/SessionService.js';
+import { bech32Decode, bech32Encode } from '../../utils/bech32.js';
+import { ecdsaVerify } from '../../utils/secp256k1.js';
+
+const { privateKey, publicKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'secp256k1' });
+const jwk = publicKey.export({ format: 'jwk' });
+const yOdd = Buffer.from(jwk.y!, 'base64url')[31]! & 1;
+const LINKING_KEY = `${yOdd ? '03' : '02'}${Buffer.from(jwk.x!, 'base64url').toString('hex')}`;
+
+/**
+ * Node only signs digests it computes itself, so k1 is the sha256 of a known preimage
+ */
+function signedK1(preimage = 'login'): { k1: string; sig: string } {
+  return {
+    k1: crypto.createHash('sha256').update(preimage).digest('hex'),
+    sig: crypto.sign('sha256', Buffer.from(preimage), privateKey).toString('hex'),
+  };
+}
+
+describe('LnurlAuthService', () => {
+  let userRepository: Record<string, jest.Mock>;
+  let challengeRepository: Record<string, jest.Mock>;
+  let sessionService: Record<string, jest.Mock>;
+  let service: LnurlAuthService;
+
+  const challenge = (overrides: Record<string, unknown> = {}) => ({
+    k1: signedK1().k1,
+    linking_key: null,
+    expires_at: new Date(Date.now() + 60_000),
+    signed_at: null,
+    claimed_at: null,
+    created_at: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    userRepository = {
+      findByLnurlLinkingKey: jest.fn(async () => null),
+      createWithLnurlLinkingKey: jest.fn(async (linkingKey: string, username: string, displayName: string) => ({
+        id: 42,
+        username,
+        display_name: displayName,
+        role: 'client',
+        lnurl_linking_key: linkingKey,
+        created_at: new Date(),
+      })),
+    };
+    challengeRepository = {
+      create: jest.fn(),
+      findByK1: jest.fn(async () => challenge()),
+      markSigned: jest.fn(async () => true),
+      claim: jest.fn(async () => LINKING_KEY),
+      deleteExpired: jest.fn(async () => 0),
+    };
+
+    sessionService = {
+      start: jest.fn(async () => ({ token: 'jwt-token', refreshToken: 'refresh-token', sessionId: 1 })),
+    };
+
+    service = new LnurlAuthService(
+      userRepository as unknown as UserRepository,
+      challengeRepository as unknown as LnurlChallengeRepository,
+      sessionService as unknown as SessionService,
+      'https://api.errandbit.test/'
+    );
+  });
+
+  it('should hand out a k1 with the LNURL of the login callback', async () => {
+    const { k1, lnurl, expiresAt } = await service.createChallenge();
+
+    expect(k1).toMatch(/^[0-9a-f]{64}$/);
+    expect(lnurl).toMatch(/^LNURL1[0-9A-Z]+$/);
+    expect(bech32Decode(lnurl)?.data.toString('utf8')).toBe(
+      `https://api.errandbit.test/api/auth/lnurl/callback?tag=login&k1=${k1}&action=login`
+    );
+    expect(challengeRepository['create']).toHaveBeenCalledWith(k1, expiresAt);
+  });
+
+  it('should record the linking key of a valid wallet signature', async () => {
+    const { k1, sig } = signedK1();
+
+    await service.verifyCallback(k1, sig, LINKING_KEY.toUpperCase());
+
+    expect(challengeRepository['markSigned']).toHaveBeenCalledWith(k1, LINKING_KEY);
+  });
+
+  it('should reject forged signatures and missing parameters without touching the challenge', async () => {
+    const { k1 } = signedK1();
+    const { sig: otherSig } = signedK1('other');
+
+    await expect(service.verifyCallback(k1, otherSig, LINKING_KEY)).rejects.toMatchObject({
+      code: 'INVALID_SIGNATURE',
+    });
+    await expect(service.verifyCallback(k1, 'zz', LINKING_KEY)).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+    await expect(service.verifyCallback(k1, undefined, LINKING_KEY)).rejects.toMatchObject({
+      code: 'INVALID_CALLBACK',
+    });
+    expect(challengeRepository['markSigned']).not.toHaveBeenCalled();
+  });
+
+  it('should reject a signature for an unknown, expired or already signed challenge', async () => {
+    challengeRepository['markSigned']!.mockResolvedValue(false);
+    const { k1, sig } = signedK1();
+
+    await expect(service.verifyCallback(k1, sig, LINKING_KEY)).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+  });
+
+  it('should keep the page waiting until the wallet has signed', async () => {
+    await expect(service.pollLogin(signedK1().k1)).resolves.toEqual({ status: 'pending' });
+    expect(challengeRepository['claim']).not.toHaveBeenCalled();
+  });
+
+  it('should create the account keyed on the linking key once signed', async () => {
+    challengeRepository['findByK1']!.mockResolvedValue(challenge({ signed_at: new Date(), linking_key: LINKING_KEY }));
+
+    const result = await service.pollLogin(signedK1().k1);
+
+    expect(result).toMatchObject({
+      status: 'complete',
+      token: 'jwt-token',
+      refreshToken: 'refresh-token',
+      created: true,
+      user: { id: 42, username: `lnurl_${LINKING_KEY.slice(2, 18)}`, linkingKey: LINKING_KEY },
+    });
+    expect(userRepository['createWithLnurlLinkingKey']).toHaveBeenCalledWith(
+      LINKING_KEY,
+      expect.any(String),
+      expect.any(String)
+    );
+  });
+
+  it('should sign in an existing user with their role and only let the session be claimed once', async () => {
+    challengeRepository['findByK1']!.mockResolvedValue(challenge({ signed_at: new Date(), linking_key: LINKING_KEY }));
+    userRepository['findByLnurlLinkingKey']!.mockResolvedValue({ id: 7, username: 'alice', display_name: 'Alice', role: 'runner' });
+
+    await expect(service.pollLogin(signedK1().k1)).resolves.toMatchObject({ created: false, user: { id: 7 } });
+    expect(sessionService['start']).toHaveBeenCalledWith(7, 'runner', {});
+
+    challengeRepository['claim']!.mockResolvedValue(null);
+    await expect(service.pollLogin(signedK1().k1)).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+
+    challengeRepository['findByK1']!.mockResolvedValue(challenge({ expires_at: new Date(Date.now() - 1000) }));
+    await expect(service.pollLogin(signedK1().k1)).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+    await expect(service.pollLogin('not-a-k1')).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+  });
+
+  describe('encodings', () => {
+    it('should encode the LUD-01 example LNURL', () => {
+      const url = 'https://service.com/api?q=3fc3645b439ce8e7f2553a69e5267081d96dcd340693afabe04be7b0ccd178df';
+
+      expect(bech32Encode('lnurl', Buffer.from(url)).toUpperCase()).toBe(
+        'LNURL1DP68GURN8GHJ7UM9WFMXJCM99E3K7MF0V9CXJ0M385EKVCENXC6R2C35XVUKXEFCV5MKVV34X5EKZD3EV56NYD3HXQURZEPEXEJXXEPNXSCRVWFNV9NXZCN9XQ6XYEFHVGCXXCMYXYMNSERXFQ5FNS'
+      );
+    });
+
+    it('should reject a signature that is not strict DER or a key that is not on the curve', () => {
+      const { k1, sig } = signedK1();
+
+      expect(ecdsaVerify(sig, k1, LINKING_KEY)).toBe(true);
+      expect(ecdsaVerify(`${sig}00`, k1, LINKING_KEY)).toBe(false);
+      expect(ecdsaVerify(sig, k1, `04${LINKING_KEY.slice(2)}`)).toBe(false);
+      expect(ecdsaVerify(sig, k1, `02${'ff'.repeat(32)}`)).toBe(false);
+    });
+  });
+});
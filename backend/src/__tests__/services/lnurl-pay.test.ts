@@ -0,0 +1,221 @@
+/**
+ * LNURL-pay Client Unit Tests
+ * Lightning address payouts against a local stub LNURL server
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { decryptSuccessAction, LnurlPayClient } from '../../services/lightning/LnurlPayClient.js';
+import { decodeLightningInvoice } from '../../utils/lightning.js';
+
+const PREIMAGE = 'cd'.repeat(32);
+const PAYMENT_HASH = crypto.createHash('sha256').update(Buffer.from(PREIMAGE, 'hex')).digest('hex');
+const METADATA = JSON.stringify([
+  ['text/plain', 'Sats for runner'],
+  ['text/identifier', 'runner@errandbit.test'],
+]);
+const sha256Hex = (text: string) => crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+
+// Minimal BOLT11 encoder; the signature is left blank as nothing checks it
+const CHARSET = 'qpzry9x8gf2tvdw0s3jn54khce6mua7l';
+
+function polymod(values: number[]): number {
+  const generator = [0x3b6a57b2, 0x26508e6d, 0x1ea119fa, 0x3d4233dd, 0x2a1462b3];
+  let checksum = 1;
+  for (const value of values) {
+    const top = checksum >> 25;
+    checksum = ((checksum & 0x1ffffff) << 5) ^ value;
+    generator.forEach((g, i) => {
+      if ((top >> i) & 1) checksum ^= g;
+    });
+  }
+  return checksum;
+}
+
+function bytesToWords(bytes: Buffer): number[] {
+  const words: number[] = [];
+  let value = 0;
+  let bits = 0;
+  for (const byte of bytes) {
+    value = ((value << 8) | byte) & 0xffff;
+    bits += 8;
+    while (bits >= 5) {
+      bits -= 5;
+      words.push((value >> bits) & 31);
+    }
+  }
+  if (bits > 0) words.push((value << (5 - bits)) & 31);
+  return words;
+}
+
+const intToWords = (n: number, length: number): number[] =>
+  Array.from({ length }, (_, i) => Math.floor(n / 32 ** (length - 1 - i)) % 32);
+
+const taggedField = (tag: string, words: number[]): number[] => [CHARSET.indexOf(tag), ...intToWords(words.length, 2), ...words];
+
+function encodeInvoice(amountMsat: number, paymentHash: string, descriptionHash: string): string {
+  const hrp = `lnbc${amountMsat * 10}p`;
+  const words = [
+    ...intToWords(Math.floor(Date.now() / 1000), 7),
+    ...taggedField('p', bytesToWords(Buffer.from(paymentHash, 'hex'))),
+    ...taggedField('h', bytesToWords(Buffer.from(descriptionHash, 'hex'))),
+    ...taggedField('x', intToWords(3600, 3)),
+    ...new Array<number>(104).fill(0),
+  ];
+  const hrpWords = [...hrp].map((c) => c.charCodeAt(0));
+  const mod = polymod([...hrpWords.map((c) => c >> 5), 0, ...hrpWords.map((c) => c & 31), ...words, 0, 0, 0, 0, 0, 0]) ^ 1;
+  const checksum = Array.from({ length: 6 }, (_, i) => (mod >> (5 * (5 - i))) & 31);
+  return `${hrp}1${[...words, ...checksum].map((w) => CHARSET[w]).join('')}`;
+}
+
+describe('LnurlPayClient', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let callbacks: URLSearchParams[];
+  let payRequest: Record<string, unknown>;
+  let invoiceReply: (amountMsat: number) => Record<string, unknown>;
+  let client: LnurlPayClient;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const url = new URL(req.url!, baseUrl);
+      let body: unknown = { status: 'ERROR', reason: 'Not found' };
+
+      if (url.pathname === '/.well-known/lnurlp/runner') {
+        body = payRequest;
+      } else if (url.pathname === '/lnurlp/runner/callback') {
+        callbacks.push(url.searchParams);
+        body = invoiceReply(Number(url.searchParams.get('amount')));
+      } else if (url.pathname === `/verify/${PAYMENT_HASH}`) {
+        body = { status: 'OK', settled: true, preimage: PREIMAGE, pr: 'lnbc1' };
+      }
+
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    callbacks = [];
+    payRequest = {
+      tag: 'payRequest',
+      callback: `${baseUrl}/lnurlp/runner/callback`,
+      minSendable: 1000,
+      maxSendable: 100_000_000,
+      metadata: METADATA,
+      commentAllowed: 14,
+    };
+    invoiceReply = (amountMsat) => ({
+      pr: encodeInvoice(amountMsat, PAYMENT_HASH, sha256Hex(METADATA)),
+      routes: [],
+      successAction: { tag: 'message', message: 'Thanks for the errand!' },
+      verify: `${baseUrl}/verify/${PAYMENT_HASH}`,
+    });
+    client = new LnurlPayClient({ allowHttp: true });
+  });
+
+  it('should fetch a checked invoice for a Lightning address with a job comment', async () => {
+    const host = new URL(baseUrl).host;
+    const invoice = await client.fetchInvoice(`runner@${host}`, 2100, 'Payout for job #42');
+
+    expect(invoice).toEqual({
+      paymentRequest: expect.stringMatching(/^lnbc/),
+      paymentHash: PAYMENT_HASH,
+      amountSats: 2100,
+      successAction: { tag: 'message', message: 'Thanks for the errand!' },
+      verifyUrl: `${baseUrl}/verify/${PAYMENT_HASH}`,
+    });
+    expect(decodeLightningInvoice(invoice.paymentRequest).amountMsat).toBe(2_100_000);
+    expect(callbacks[0]!.get('amount')).toBe('2100000');
+    expect(callbacks[0]!.get('comment')).toBe('Payout for job');
+  });
+
+  it('should leave the comment out when the payee does not take one', async () => {
+    delete payRequest['commentAllowed'];
+
+    await client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100, 'Payout for job #42');
+
+    expect(callbacks[0]!.has('comment')).toBe(false);
+  });
+
+  it('should reject invoices for a different amount', async () => {
+    invoiceReply = (amountMsat) => ({ pr: encodeInvoice(amountMsat + 1000, PAYMENT_HASH, sha256Hex(METADATA)) });
+
+    await expect(client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100)).rejects.toMatchObject({
+      code: 'INVOICE_AMOUNT_MISMATCH',
+    });
+  });
+
+  it('should reject invoices that do not commit to the metadata', async () => {
+    invoiceReply = (amountMsat) => ({ pr: encodeInvoice(amountMsat, PAYMENT_HASH, sha256Hex('[]')) });
+
+    await expect(client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100)).rejects.toMatchObject({
+      code: 'INVOICE_DESCRIPTION_MISMATCH',
+    });
+  });
+
+  it('should refuse amounts outside the sendable range before asking for an invoice', async () => {
+    payRequest['minSendable'] = 10_000_000;
+
+    await expect(client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100)).rejects.toMatchObject({
+      code: 'AMOUNT_OUT_OF_RANGE',
+    });
+    expect(callbacks).toHaveLength(0);
+  });
+
+  it('should pass on LNURL error reasons', async () => {
+    invoiceReply = () => ({ status: 'ERROR', reason: 'Wallet is disabled' });
+
+    await expect(client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100)).rejects.toMatchObject({
+      code: 'LNURL_REQUEST_FAILED',
+      message: expect.stringContaining('Wallet is disabled'),
+    });
+  });
+
+  it('should verify settlement with the LUD-21 verify URL', async () => {
+    expect(await client.verify(`${baseUrl}/verify/${PAYMENT_HASH}`)).toEqual({ settled: true, preimage: PREIMAGE });
+  });
+
+  it('should drop url success actions pointing at another domain', async () => {
+    invoiceReply = (amountMsat) => ({
+      pr: encodeInvoice(amountMsat, PAYMENT_HASH, sha256Hex(METADATA)),
+      successAction: { tag: 'url', description: 'Receipt', url: 'https://elsewhere.example.com/receipt' },
+    });
+
+    const invoice = await client.fetchInvoice(`${baseUrl}/.well-known/lnurlp/runner`, 2100);
+
+    expect(invoice.successAction).toBeNull();
+    expect(invoice.verifyUrl).toBeNull();
+  });
+
+  it('should only use https outside of onion services', () => {
+    const production = new LnurlPayClient();
+
+    expect(production.resolveUrl('Runner@Wallet.example.com').toString()).toBe(
+      'https://wallet.example.com/.well-known/lnurlp/runner'
+    );
+    expect(production.resolveUrl('runner@abc.onion').protocol).toBe('http:');
+    expect(() => production.resolveUrl(`${baseUrl}/.well-known/lnurlp/runner`)).toThrow('Invalid Lightning address');
+  });
+
+  it('should decrypt aes success actions with the preimage', () => {
+    const iv = crypto.randomBytes(16);
+    const cipher = crypto.createCipheriv('aes-256-cbc', Buffer.from(PREIMAGE, 'hex'), iv);
+    const ciphertext = Buffer.concat([cipher.update('Locker code 1234', 'utf8'), cipher.final()]);
+
+    expect(
+      decryptSuccessAction(
+        { tag: 'aes', description: 'Locker', ciphertext: ciphertext.toString('base64'), iv: iv.toString('base64') },
+        PREIMAGE
+      )
+    ).toBe('Locker code 1234');
+  });
+});
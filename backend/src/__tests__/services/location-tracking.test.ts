@@ -0,0 +1,190 @@
+/**
+ * Location Tracking Unit Tests
+ * Runner pings, ETA to the next stop and trail retention
+ */
+
+import { LocationTrackingService } from '../../services/tracking/LocationTrackingService.js';
+import { realtimeService } from '../../services/realtime/RealtimeService.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { JobStop, JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import type {
+  LocationPing,
+  LocationPingRepository,
+} from '../../database/repositories/LocationPingRepository.js';
+import { TRACKING_CONSTANTS } from '../../config/constants.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'in_progress',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+function buildStop(position: number, lat: number, completed = false): JobStop {
+  return {
+    id: position + 100,
+    job_id: 1,
+    position,
+    kind: 'stop',
+    lat,
+    lng: 0,
+    address: `Stop ${position}`,
+    instructions: null,
+    completed_at: completed ? new Date() : null,
+    completed_by: completed ? RUNNER_ID : null,
+    created_at: new Date(),
+  };
+}
+
+function buildPing(overrides: Partial<LocationPing> = {}): LocationPing {
+  return {
+    id: 1,
+    job_id: 1,
+    runner_id: RUNNER_ID,
+    lat: 0,
+    lng: 0,
+    accuracy_m: null,
+    heading: null,
+    speed_mps: null,
+    recorded_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('LocationTrackingService', () => {
+  let job: Job;
+  let pingRepository: Record<string, jest.Mock>;
+  let jobStopRepository: Record<string, jest.Mock>;
+  let service: LocationTrackingService;
+  let publish: jest.SpyInstance;
+
+  beforeEach(() => {
+    job = buildJob();
+    pingRepository = {
+      create: jest.fn(async (data) => buildPing({ lat: data.lat, lng: data.lng, speed_mps: data.speedMps ?? null })),
+      findLatest: jest.fn().mockResolvedValue(null),
+      findTrail: jest.fn().mockResolvedValue([]),
+      purgeExpired: jest.fn().mockResolvedValue(0),
+    };
+    jobStopRepository = {
+      // First stop done, next one roughly 11km north of the origin
+      findByJobId: jest.fn().mockResolvedValue([buildStop(0, 0, true), buildStop(1, 0.1)]),
+    };
+    const jobRepository = { findById: jest.fn(async () => job) };
+
+    service = new LocationTrackingService(
+      pingRepository as unknown as LocationPingRepository,
+      jobRepository as unknown as JobRepository,
+      jobStopRepository as unknown as JobStopRepository
+    );
+    publish = jest.spyOn(realtimeService, 'publish').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  it('should store a ping and push an ETA to the next open stop to the client only', async () => {
+    const position = await service.recordPing(1, RUNNER_ID, { lat: 0, lng: 0 });
+
+    expect(pingRepository['create']).toHaveBeenCalledWith(
+      expect.objectContaining({ jobId: 1, runnerId: RUNNER_ID, lat: 0, lng: 0 })
+    );
+    expect(position.nextStopId).toBe(101);
+    expect(position.distanceKm).toBeCloseTo(11.12, 1);
+    // 11.12km at the fallback speed
+    expect(position.etaMinutes).toBe(Math.ceil((11.1195 / TRACKING_CONSTANTS.FALLBACK_SPEED_KMH) * 60));
+    expect(publish).toHaveBeenCalledWith(
+      [CLIENT_ID],
+      'runner.location',
+      expect.objectContaining({ jobId: 1, nextStopId: 101 })
+    );
+  });
+
+  it('should use the device speed for the ETA while moving', async () => {
+    const position = await service.recordPing(1, RUNNER_ID, { lat: 0, lng: 0, speedMps: 10 });
+
+    expect(position.etaMinutes).toBe(Math.ceil((11.1195 / 36) * 60));
+  });
+
+  it('should not store pings sent faster than the minimum interval', async () => {
+    pingRepository['findLatest']!.mockResolvedValue(buildPing({ lat: 0.05 }));
+
+    const position = await service.recordPing(1, RUNNER_ID, { lat: 0, lng: 0 });
+
+    expect(pingRepository['create']).not.toHaveBeenCalled();
+    expect(publish).not.toHaveBeenCalled();
+    expect(position.lat).toBe(0.05);
+  });
+
+  it('should reject pings from anyone but the assigned runner', async () => {
+    await expect(service.recordPing(1, 99, { lat: 0, lng: 0 })).rejects.toMatchObject({
+      code: 'NOT_ASSIGNED_RUNNER',
+      statusCode: 403,
+    });
+  });
+
+  it('should reject pings once the job is no longer in progress', async () => {
+    job = buildJob({ status: 'awaiting_payment' });
+
+    await expect(service.recordPing(1, RUNNER_ID, { lat: 0, lng: 0 })).rejects.toMatchObject({
+      code: 'JOB_NOT_IN_PROGRESS',
+    });
+    expect(pingRepository['create']).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid coordinates', async () => {
+    await expect(service.recordPing(1, RUNNER_ID, { lat: 91, lng: 0 })).rejects.toMatchObject({
+      code: 'INVALID_LOCATION',
+    });
+  });
+
+  it('should only show the live location to job participants', async () => {
+    pingRepository['findTrail']!.mockResolvedValue([buildPing({ lat: 0.01 }), buildPing({ lat: 0.02 })]);
+
+    const live = await service.getLiveLocation(1, CLIENT_ID);
+
+    expect(live.tracking).toBe(true);
+    expect(live.trail).toHaveLength(2);
+    expect(live.position.lat).toBe(0.02);
+    await expect(service.getLiveLocation(1, 99)).rejects.toMatchObject({ code: 'NOT_JOB_PARTICIPANT' });
+  });
+
+  it('should not expose the trail after the job leaves in progress', async () => {
+    job = buildJob({ status: 'completed' });
+
+    const live = await service.getLiveLocation(1, CLIENT_ID);
+
+    expect(live).toMatchObject({ tracking: false, position: null, trail: [] });
+    expect(pingRepository['findTrail']).not.toHaveBeenCalled();
+  });
+
+  it('should purge with the configured retention window', async () => {
+    pingRepository['purgeExpired']!.mockResolvedValue(3);
+
+    await expect(service.purgeExpired()).resolves.toBe(3);
+    expect(pingRepository['purgeExpired']).toHaveBeenCalledWith({
+      afterJobMinutes: TRACKING_CONSTANTS.RETENTION_AFTER_JOB_MINUTES,
+      maxAgeHours: TRACKING_CONSTANTS.MAX_RETENTION_HOURS,
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * NostrAuthService Unit Tests
+ * Challenge login with signed kind-22242 events, replay protection and npub keys
+ */
+
+import { NostrAuthService } from '../../services/auth/NostrAuthService.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { NostrChallengeRepository } from '../../database/repositories/NostrChallengeRepository.js';
+import type { SessionService } from '../../services/auth/SessionService.js';
+import { decodeNpub, finalizeEvent, getPublicKey, normalizePublicKey, NostrEvent } from '../../utils/nostr.js';
+
+const SECRET_KEY = '7f'.repeat(32);
+const PUBKEY = getPublicKey(SECRET_KEY);
+
+// NIP-19 test vector
+const NPUB = 'npub10elfcs4fr0l0r8af98jlmgdh9c8tcxjvz9qkw038js35mp4dma8qzvjptg';
+const NPUB_HEX = '7e7e9c42a91bfef19fa929e5fda1b72e0ebc1a4c1141673e2794234d86addf4e';
+
+function signLogin(challenge: string, overrides: Partial<Pick<NostrEvent, 'kind' | 'created_at'>> = {}): NostrEvent {
+  return finalizeEvent(
+    {
+      kind: 22242,
+      created_at: Math.floor(Date.now() / 1000),
+      tags: [['challenge', challenge]],
+      content: '',
+      ...overrides,
+    },
+    SECRET_KEY
+  );
+}
+
+describe('NostrAuthService', () => {
+  let userRepository: Record<string, jest.Mock>;
+  let challengeRepository: Record<string, jest.Mock>;
+  let sessionService: Record<string, jest.Mock>;
+  let service: NostrAuthService;
+
+  beforeEach(() => {
+    userRepository = {
+      findByNostrPubkey: jest.fn(async () => null),
+      createWithNostrPubkey: jest.fn(async (pubkey: string, username: string, displayName: string) => ({
+        id: 42,
+        username,
+        display_name: displayName,
+        role: 'client',
+        nostr_pubkey: pubkey,
+        created_at: new Date(),
+      })),
+    };
+    challengeRepository = {
+      create: jest.fn(),
+      consume: jest.fn(async () => true),
+      deleteExpired: jest.fn(async () => 0),
+    };
+
+    sessionService = {
+      start: jest.fn(async () => ({ token: 'jwt-token', refreshToken: 'refresh-token', sessionId: 1 })),
+    };
+
+    service = new NostrAuthService(
+      userRepository as unknown as UserRepository,
+      challengeRepository as unknown as NostrChallengeRepository,
+      sessionService as unknown as SessionService
+    );
+  });
+
+  it('should hand out a random challenge that expires', async () => {
+    const { challenge, kind, expiresAt } = await service.createChallenge();
+
+    expect(challenge).toMatch(/^[0-9a-f]{64}$/);
+    expect(kind).toBe(22242);
+    expect(challengeRepository['create']).toHaveBeenCalledWith(challenge, expiresAt);
+    expect(expiresAt.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should create the account on the first login and consume the challenge', async () => {
+    const result = await service.login(signLogin('abc'), PUBKEY);
+
+    expect(result).toMatchObject({
+      token: 'jwt-token',
+      refreshToken: 'refresh-token',
+      created: true,
+      user: { id: 42, username: `nostr_${PUBKEY.slice(0, 16)}`, nostrPubkey: PUBKEY },
+    });
+    expect(challengeRepository['consume']).toHaveBeenCalledWith('abc');
+  });
+
+  it('should sign in an existing user with their role and without a claimed key', async () => {
+    userRepository['findByNostrPubkey']!.mockResolvedValue({ id: 7, username: 'alice', display_name: 'Alice', role: 'runner' });
+
+    const result = await service.login(signLogin('abc'));
+
+    expect(result).toMatchObject({ created: false, user: { id: 7, username: 'alice' } });
+    expect(userRepository['createWithNostrPubkey']).not.toHaveBeenCalled();
+    expect(sessionService['start']).toHaveBeenCalledWith(7, 'runner', {});
+  });
+
+  it('should reject a replayed or unknown challenge', async () => {
+    challengeRepository['consume']!.mockResolvedValue(false);
+
+    await expect(service.login(signLogin('abc'))).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+    await expect(
+      service.login(finalizeEvent({ kind: 22242, created_at: Math.floor(Date.now() / 1000), tags: [], content: '' }, SECRET_KEY))
+    ).rejects.toMatchObject({ code: 'INVALID_CHALLENGE' });
+  });
+
+  it('should reject forged, stale and wrong-kind events without using up the challenge', async () => {
+    const forged = { ...signLogin('abc'), content: 'changed' };
+    const stale = signLogin('abc', { created_at: Math.floor(Date.now() / 1000) - 120 });
+
+    await expect(service.login(forged)).rejects.toMatchObject({ code: 'INVALID_SIGNATURE' });
+    await expect(service.login(stale)).rejects.toMatchObject({ code: 'EVENT_EXPIRED' });
+    await expect(service.login(signLogin('abc', { kind: 1 }))).rejects.toMatchObject({
+      code: 'INVALID_EVENT_KIND',
+    });
+    await expect(service.login({ kind: 22242 })).rejects.toMatchObject({ code: 'INVALID_EVENT' });
+    expect(challengeRepository['consume']).not.toHaveBeenCalled();
+  });
+
+  it('should check the event against a claimed hex or npub key', async () => {
+    await expect(service.login(signLogin('abc'), NPUB)).rejects.toMatchObject({ code: 'PUBKEY_MISMATCH' });
+    await expect(service.login(signLogin('abc'), 'not-a-key')).rejects.toMatchObject({ code: 'INVALID_PUBKEY' });
+    await expect(service.login(signLogin('abc'), PUBKEY.toUpperCase())).resolves.toMatchObject({
+      user: { nostrPubkey: PUBKEY },
+    });
+  });
+
+  describe('npub keys', () => {
+    it('should decode an npub and reject a bad checksum', () => {
+      expect(decodeNpub(NPUB)).toBe(NPUB_HEX);
+      expect(normalizePublicKey(NPUB.toUpperCase())).toBe(NPUB_HEX);
+      expect(decodeNpub(`${NPUB.slice(0, -1)}q`)).toBeNull();
+      expect(normalizePublicKey('npub1xyz')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,242 @@
+/**
+ * OfferService Unit Tests
+ * Offers, counter-offers and assignment on acceptance
+ */
+
+import { OfferService } from '../../services/offer/OfferService.js';
+import type { JobOffer, OfferRepository } from '../../database/repositories/OfferRepository.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { JobService } from '../../services/job/JobService.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: null,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'open',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: null,
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('OfferService', () => {
+  let job: Job;
+  let offers: JobOffer[];
+  let offerRepository: Record<string, jest.Mock>;
+  let jobService: { assignRunner: jest.Mock };
+  let service: OfferService;
+
+  function setStatus(id: number, status: JobOffer['status']): JobOffer {
+    const offer = offers.find((o) => o.id === id)!;
+    if (offer.status !== 'pending') {
+      throw Object.assign(new Error('Offer has already been answered'), { code: 'OFFER_NOT_PENDING' });
+    }
+    offer.status = status;
+    return offer;
+  }
+
+  function insert(data: any, parentId: number | null = null): JobOffer {
+    const offer: JobOffer = {
+      id: offers.length + 1,
+      job_id: data.jobId,
+      runner_id: data.runnerId,
+      parent_id: parentId,
+      proposed_by: data.proposedBy,
+      price_cents: data.priceCents,
+      eta_minutes: data.etaMinutes,
+      note: data.note,
+      status: 'pending',
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    offers.push(offer);
+    return offer;
+  }
+
+  beforeEach(() => {
+    job = buildJob();
+    offers = [];
+
+    offerRepository = {
+      findById: jest.fn(async (id: number) => offers.find((o) => o.id === id)),
+      findByJobId: jest.fn(async (_jobId: number, runnerId?: number) =>
+        offers.filter((o) => runnerId === undefined || o.runner_id === runnerId)
+      ),
+      findPending: jest.fn(async (_jobId: number, runnerId: number) =>
+        offers.find((o) => o.runner_id === runnerId && o.status === 'pending') ?? null
+      ),
+      findReservedRunner: jest.fn(async () => null),
+      create: jest.fn(async (data) => insert(data)),
+      counter: jest.fn(async (offerId: number, data) => {
+        setStatus(offerId, 'countered');
+        return insert(data, offerId);
+      }),
+      close: jest.fn(async (offerId: number, status) => setStatus(offerId, status)),
+      accept: jest.fn(async (offerId: number) => setStatus(offerId, 'accepted')),
+    };
+
+    jobService = {
+      assignRunner: jest.fn(async (_jobId: number, runnerId: number, agreement) => ({
+        ...job,
+        status: 'accepted',
+        runner_id: runnerId,
+        price_cents: agreement.priceCents,
+      })),
+    };
+
+    const jobRepository = { findById: jest.fn(async () => job) };
+
+    service = new OfferService(
+      offerRepository as unknown as OfferRepository,
+      jobRepository as unknown as JobRepository,
+      jobService as unknown as JobService
+    );
+  });
+
+  describe('submitOffer', () => {
+    it('should record the runner offer as pending', async () => {
+      const offer = await service.submitOffer(job.id, RUNNER_ID, {
+        priceCents: 3000,
+        etaMinutes: 45,
+        note: '  I can be there in 45 minutes  ',
+      });
+
+      expect(offer).toMatchObject({
+        proposedBy: 'runner',
+        priceCents: 3000,
+        etaMinutes: 45,
+        note: 'I can be there in 45 minutes',
+        status: 'pending',
+      });
+    });
+
+    it('should reject offers on your own job', async () => {
+      await expect(
+        service.submitOffer(job.id, CLIENT_ID, { priceCents: 3000 })
+      ).rejects.toMatchObject({ code: 'OWN_JOB' });
+    });
+
+    it('should hold a recurring errand for the runner it was offered to first', async () => {
+      offerRepository['findReservedRunner']!.mockResolvedValue(RUNNER_ID + 1);
+
+      await expect(
+        service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 })
+      ).rejects.toMatchObject({ code: 'JOB_RESERVED' });
+    });
+
+    it('should reject a second pending offer from the same runner', async () => {
+      await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+
+      await expect(
+        service.submitOffer(job.id, RUNNER_ID, { priceCents: 2800 })
+      ).rejects.toMatchObject({ code: 'OFFER_EXISTS' });
+    });
+
+    it('should reject offers once the job is no longer open', async () => {
+      job = buildJob({ status: 'accepted', runner_id: 30 });
+
+      await expect(
+        service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 })
+      ).rejects.toMatchObject({ code: 'JOB_NOT_OPEN' });
+    });
+  });
+
+  describe('counterOffer', () => {
+    it('should let each side answer the other in turn', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000, etaMinutes: 45 });
+
+      const clientCounter = await service.counterOffer(opening.id, CLIENT_ID, { priceCents: 2600 });
+      expect(clientCounter).toMatchObject({
+        parentId: opening.id,
+        proposedBy: 'client',
+        priceCents: 2600,
+        etaMinutes: 45,
+      });
+      expect(offers[0]!.status).toBe('countered');
+
+      const runnerCounter = await service.counterOffer(clientCounter.id, RUNNER_ID, { priceCents: 2800 });
+      expect(runnerCounter.proposedBy).toBe('runner');
+    });
+
+    it('should not let a side counter its own proposal', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+
+      await expect(
+        service.counterOffer(opening.id, RUNNER_ID, { priceCents: 2900 })
+      ).rejects.toMatchObject({ code: 'OFFER_AWAITING_RESPONSE' });
+    });
+
+    it('should reject users outside the negotiation', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+
+      await expect(
+        service.counterOffer(opening.id, 99, { priceCents: 2900 })
+      ).rejects.toMatchObject({ code: 'NOT_OFFER_PARTICIPANT' });
+    });
+  });
+
+  describe('acceptOffer', () => {
+    it('should assign the runner at the offered price', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+
+      const result = await service.acceptOffer(opening.id, CLIENT_ID);
+
+      expect(jobService.assignRunner).toHaveBeenCalledWith(job.id, RUNNER_ID, {
+        priceCents: 3000,
+        acceptedBy: 'client',
+        actorId: CLIENT_ID,
+      });
+      expect(result.offer.status).toBe('accepted');
+      expect(result.job.price_cents).toBe(3000);
+    });
+
+    it('should let the runner accept a client counter-offer', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+      const counter = await service.counterOffer(opening.id, CLIENT_ID, { priceCents: 2700 });
+
+      await service.acceptOffer(counter.id, RUNNER_ID);
+
+      expect(jobService.assignRunner).toHaveBeenCalledWith(job.id, RUNNER_ID, {
+        priceCents: 2700,
+        acceptedBy: 'runner',
+        actorId: RUNNER_ID,
+      });
+    });
+
+    it('should leave the offer pending when assignment fails', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+      jobService.assignRunner.mockRejectedValueOnce(new Error('Escrow invoice could not be created'));
+
+      await expect(service.acceptOffer(opening.id, CLIENT_ID)).rejects.toThrow('Escrow');
+      expect(offers[0]!.status).toBe('pending');
+    });
+  });
+
+  describe('withdrawOffer', () => {
+    it('should only let the author withdraw a proposal', async () => {
+      const opening = await service.submitOffer(job.id, RUNNER_ID, { priceCents: 3000 });
+
+      await expect(service.withdrawOffer(opening.id, CLIENT_ID)).rejects.toMatchObject({
+        code: 'NOT_OFFER_AUTHOR',
+      });
+
+      const withdrawn = await service.withdrawOffer(opening.id, RUNNER_ID);
+      expect(withdrawn.status).toBe('withdrawn');
+    });
+  });
+});
@@ -0,0 +1,449 @@
+/**
+ * Payout Queue Unit Tests
+ * Leasing, retries with backoff and dead-lettering of runner payouts and
+ * client refunds
+ */
+
+import { PayoutService } from '../../services/PayoutService.js';
+import { PAYOUT_CONSTANTS } from '../../config/constants.js';
+import { ServiceUnavailableError } from '../../core/errors/AppError.js';
+import type {
+  RunnerEarning,
+  RunnerEarningRepository,
+} from '../../database/repositories/RunnerEarningRepository.js';
+import type {
+  ClientRefund,
+  ClientRefundRepository,
+} from '../../database/repositories/ClientRefundRepository.js';
+import type { LightningBackend } from '../../services/lightning/backends/LightningBackend.js';
+import type { LnurlPayClient } from '../../services/lightning/LnurlPayClient.js';
+import type { PriceOracle } from '../../services/pricing/PriceOracle.js';
+import type { LedgerService } from '../../services/ledger/LedgerService.js';
+import type { FeeService } from '../../services/fees/FeeService.js';
+
+/**
+ * In-memory stand-in for RunnerEarningRepository with the same lease rules
+ */
+class InMemoryEarningRepository {
+  earnings: RunnerEarning[] = [];
+  delays: number[] = [];
+
+  add(overrides: Partial<RunnerEarning> = {}): RunnerEarning {
+    const earning: RunnerEarning = {
+      id: this.earnings.length + 1,
+      runner_id: 7,
+      job_id: this.earnings.length + 100,
+      kind: 'job',
+      tip_id: null,
+      amount_cents: 1000,
+      amount_sats: 20000,
+      platform_fee_cents: 0,
+      platform_fee_sats: 0,
+      net_amount_cents: 1000,
+      net_amount_sats: 20000,
+      price_snapshot_id: null,
+      status: 'pending',
+      payout_method: 'lightning',
+      lightning_address: 'runner@wallet.example.com',
+      payment_hash: null,
+      payment_preimage: null,
+      payment_request: null,
+      error_message: null,
+      retry_count: 0,
+      next_attempt_at: new Date(Date.now() - 1000),
+      locked_by: null,
+      locked_until: null,
+      created_at: new Date(),
+      processed_at: null,
+      completed_at: null,
+      failed_at: null,
+      dead_at: null,
+      updated_at: new Date(),
+      ...overrides,
+    };
+    this.earnings.push(earning);
+    return earning;
+  }
+
+  private leased(id: number, workerId: string) {
+    const earning = this.earnings.find((e) => e.id === id);
+    return earning && earning.status === 'processing' && earning.locked_by === workerId ? earning : null;
+  }
+
+  async claimDue(workerId: string, leaseMs: number, limit: number) {
+    const due = this.earnings
+      .filter((e) => (e.status === 'pending' || e.status === 'failed') && e.next_attempt_at <= new Date())
+      .slice(0, limit);
+    for (const earning of due) {
+      earning.status = 'processing';
+      earning.locked_by = workerId;
+      earning.locked_until = new Date(Date.now() + leaseMs);
+    }
+    return due.map((e) => ({ ...e }));
+  }
+
+  async releaseExpiredLeases() {
+    const expired = this.earnings.filter(
+      (e) => e.status === 'processing' && e.locked_until !== null && e.locked_until < new Date()
+    );
+    for (const earning of expired) {
+      earning.status = earning.payment_request ? 'dead' : 'pending';
+      earning.locked_by = null;
+      earning.locked_until = null;
+    }
+    return expired;
+  }
+
+  async recordInvoice(id: number, workerId: string, paymentRequest: string, paymentHash: string) {
+    const earning = this.leased(id, workerId);
+    if (earning) {
+      earning.payment_request = paymentRequest;
+      earning.payment_hash = paymentHash;
+    }
+    return earning !== null;
+  }
+
+  async markCompleted(id: number, workerId: string, paymentHash: string | null, paymentPreimage: string | null) {
+    const earning = this.leased(id, workerId);
+    if (earning) {
+      Object.assign(earning, {
+        status: 'completed',
+        payment_hash: paymentHash ?? earning.payment_hash,
+        payment_preimage: paymentPreimage,
+        locked_by: null,
+      });
+    }
+    return earning;
+  }
+
+  async scheduleRetry(id: number, workerId: string, error: string, delayMs: number) {
+    const earning = this.leased(id, workerId);
+    if (earning) {
+      this.delays.push(delayMs);
+      Object.assign(earning, {
+        status: 'failed',
+        error_message: error,
+        retry_count: earning.retry_count + 1,
+        next_attempt_at: new Date(Date.now() + delayMs),
+        payment_request: null,
+        payment_hash: null,
+        locked_by: null,
+      });
+    }
+    return earning;
+  }
+
+  async markDead(id: number, workerId: string, error: string, keepInvoice: boolean) {
+    const earning = this.leased(id, workerId);
+    if (earning) {
+      Object.assign(earning, {
+        status: 'dead',
+        error_message: error,
+        retry_count: earning.retry_count + 1,
+        payment_request: keepInvoice ? earning.payment_request : null,
+        locked_by: null,
+      });
+    }
+    return earning;
+  }
+}
+
+/**
+ * In-memory stand-in for ClientRefundRepository
+ */
+class InMemoryRefundRepository {
+  refunds: ClientRefund[] = [];
+  delays: number[] = [];
+
+  add(overrides: Partial<ClientRefund> = {}): ClientRefund {
+    const refund: ClientRefund = {
+      id: this.refunds.length + 1,
+      client_id: 3,
+      job_id: this.refunds.length + 200,
+      dispute_id: this.refunds.length + 1,
+      amount_cents: 500,
+      amount_sats: 10000,
+      price_snapshot_id: null,
+      status: 'pending',
+      lightning_address: 'client@wallet.example.com',
+      payment_request: null,
+      payment_hash: null,
+      payment_preimage: null,
+      error_message: null,
+      retry_count: 0,
+      next_attempt_at: new Date(Date.now() - 1000),
+      locked_by: null,
+      locked_until: null,
+      created_at: new Date(),
+      completed_at: null,
+      dead_at: null,
+      updated_at: new Date(),
+      ...overrides,
+    };
+    this.refunds.push(refund);
+    return refund;
+  }
+
+  private leased(id: number, workerId: string) {
+    const refund = this.refunds.find((r) => r.id === id);
+    return refund && refund.status === 'processing' && refund.locked_by === workerId ? refund : null;
+  }
+
+  async claimDue(workerId: string, leaseMs: number, limit: number) {
+    const due = this.refunds
+      .filter((r) => (r.status === 'pending' || r.status === 'failed') && r.next_attempt_at <= new Date())
+      .slice(0, limit);
+    for (const refund of due) {
+      refund.status = 'processing';
+      refund.locked_by = workerId;
+      refund.locked_until = new Date(Date.now() + leaseMs);
+    }
+    return due.map((r) => ({ ...r }));
+  }
+
+  async releaseExpiredLeases() {
+    return [];
+  }
+
+  async recordInvoice(id: number, workerId: string, paymentRequest: string, paymentHash: string) {
+    const refund = this.leased(id, workerId);
+    if (refund) {
+      refund.payment_request = paymentRequest;
+      refund.payment_hash = paymentHash;
+    }
+    return refund !== null;
+  }
+
+  async markCompleted(id: number, workerId: string, paymentHash: string | null, paymentPreimage: string | null) {
+    const refund = this.leased(id, workerId);
+    if (refund) {
+      Object.assign(refund, {
+        status: 'completed',
+        payment_hash: paymentHash ?? refund.payment_hash,
+        payment_preimage: paymentPreimage,
+        locked_by: null,
+      });
+    }
+    return refund;
+  }
+
+  async scheduleRetry(id: number, workerId: string, error: string, delayMs: number) {
+    const refund = this.leased(id, workerId);
+    if (refund) {
+      this.delays.push(delayMs);
+      Object.assign(refund, {
+        status: 'failed',
+        error_message: error,
+        retry_count: refund.retry_count + 1,
+        next_attempt_at: new Date(Date.now() + delayMs),
+        locked_by: null,
+      });
+    }
+    return refund;
+  }
+
+  async markDead(id: number, workerId: string, error: string, keepInvoice: boolean) {
+    const refund = this.leased(id, workerId);
+    if (refund) {
+      Object.assign(refund, {
+        status: 'dead',
+        error_message: error,
+        retry_count: refund.retry_count + 1,
+        payment_request: keepInvoice ? refund.payment_request : null,
+        locked_by: null,
+      });
+    }
+    return refund;
+  }
+}
+
+const PAYMENT_HASH = 'ab'.repeat(32);
+const PREIMAGE = 'cd'.repeat(32);
+
+describe('PayoutService queue', () => {
+  let repository: InMemoryEarningRepository;
+  let refunds: InMemoryRefundRepository;
+  let payInvoice: jest.Mock;
+  let fetchInvoice: jest.Mock;
+  let recordPayoutSent: jest.Mock;
+  let recordRefundSent: jest.Mock;
+  let service: PayoutService;
+
+  const createService = (workerId: string) =>
+    new PayoutService(
+      { name: 'lnd', payInvoice } as unknown as LightningBackend,
+      { fetchInvoice, verify: jest.fn() } as unknown as LnurlPayClient,
+      repository as unknown as RunnerEarningRepository,
+      {} as PriceOracle,
+      { recordPayoutSent, recordRefundSent } as unknown as LedgerService,
+      {} as FeeService,
+      refunds as unknown as ClientRefundRepository,
+      workerId
+    );
+
+  beforeEach(() => {
+    repository = new InMemoryEarningRepository();
+    refunds = new InMemoryRefundRepository();
+    payInvoice = jest.fn().mockResolvedValue({ paymentHash: PAYMENT_HASH, preimage: PREIMAGE, feeSats: 3 });
+    recordPayoutSent = jest.fn();
+    recordRefundSent = jest.fn();
+    fetchInvoice = jest.fn().mockResolvedValue({
+      paymentRequest: 'lnbc200u1invoice',
+      paymentHash: PAYMENT_HASH,
+      amountSats: 20000,
+      successAction: null,
+      verifyUrl: null,
+    });
+    service = createService('pod-a:1');
+  });
+
+  it('should pay due payouts and record the preimage', async () => {
+    const earning = repository.add();
+
+    expect(await service.processDuePayouts()).toBe(1);
+
+    expect(fetchInvoice).toHaveBeenCalledWith('runner@wallet.example.com', 20000, `Payout for job #${earning.job_id}`);
+    expect(payInvoice).toHaveBeenCalledWith('lnbc200u1invoice');
+    expect(repository.earnings[0]).toMatchObject({
+      status: 'completed',
+      payment_hash: PAYMENT_HASH,
+      payment_preimage: PREIMAGE,
+    });
+    expect(recordPayoutSent).toHaveBeenCalledWith(expect.objectContaining({ id: earning.id }), 3);
+  });
+
+  it('should leave payouts that are not due yet', async () => {
+    repository.add({ status: 'failed', next_attempt_at: new Date(Date.now() + 60_000) });
+
+    expect(await service.processDuePayouts()).toBe(0);
+    expect(payInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should retry failures with exponential backoff', async () => {
+    repository.add({ retry_count: 2 });
+    fetchInvoice.mockRejectedValue(new Error('LNURL request to wallet.example.com failed'));
+
+    await service.processDuePayouts();
+
+    expect(repository.earnings[0]).toMatchObject({ status: 'failed', retry_count: 3 });
+    expect(repository.delays).toEqual([PAYOUT_CONSTANTS.BACKOFF_BASE_MS * 4]);
+    expect(recordPayoutSent).not.toHaveBeenCalled();
+  });
+
+  it('should dead-letter a payout once it runs out of retries', async () => {
+    repository.add({ retry_count: PAYOUT_CONSTANTS.MAX_RETRIES - 1 });
+    payInvoice.mockRejectedValue(new ServiceUnavailableError('No route found', 'PAYMENT_FAILED'));
+
+    await service.processDuePayouts();
+
+    expect(repository.earnings[0]).toMatchObject({
+      status: 'dead',
+      retry_count: PAYOUT_CONSTANTS.MAX_RETRIES,
+      error_message: 'No route found',
+      payment_request: null,
+    });
+  });
+
+  it('should dead-letter without retrying when the payment outcome is unknown', async () => {
+    repository.add();
+    payInvoice.mockRejectedValue(new ServiceUnavailableError('Lightning node timed out', 'LIGHTNING_BACKEND_ERROR'));
+
+    await service.processDuePayouts();
+
+    expect(repository.earnings[0]).toMatchObject({
+      status: 'dead',
+      payment_request: 'lnbc200u1invoice',
+      error_message: 'Payment outcome unknown: Lightning node timed out',
+    });
+    expect(repository.delays).toHaveLength(0);
+  });
+
+  it('should dead-letter payouts without a Lightning address', async () => {
+    repository.add({ lightning_address: null });
+
+    await service.processDuePayouts();
+
+    expect(fetchInvoice).not.toHaveBeenCalled();
+    expect(repository.earnings[0]).toMatchObject({ status: 'dead', error_message: 'No Lightning address configured' });
+  });
+
+  it('should not pay once the lease has been lost', async () => {
+    repository.add();
+    fetchInvoice.mockImplementation(async () => {
+      // Another replica took the payout over while the invoice was fetched
+      repository.earnings[0]!.locked_by = 'pod-b:1';
+      return { paymentRequest: 'lnbc200u1invoice', paymentHash: PAYMENT_HASH, successAction: null, verifyUrl: null };
+    });
+
+    await service.processDuePayouts();
+
+    expect(payInvoice).not.toHaveBeenCalled();
+    expect(repository.earnings[0]!.locked_by).toBe('pod-b:1');
+  });
+
+  it('should pay each payout once when several replicas drain the queue', async () => {
+    for (let i = 0; i < PAYOUT_CONSTANTS.BATCH_SIZE + 3; i++) {
+      repository.add();
+    }
+
+    const attempted = await Promise.all([service.processDuePayouts(), createService('pod-b:1').processDuePayouts()]);
+
+    expect(attempted[0]! + attempted[1]!).toBe(PAYOUT_CONSTANTS.BATCH_SIZE + 3);
+    expect(payInvoice).toHaveBeenCalledTimes(PAYOUT_CONSTANTS.BATCH_SIZE + 3);
+    expect(repository.earnings.every((e) => e.status === 'completed')).toBe(true);
+  });
+
+  it('should return expired leases to the queue unless an invoice was being paid', async () => {
+    const expired = new Date(Date.now() - 1000);
+    repository.add({ status: 'processing', locked_by: 'pod-gone:1', locked_until: expired });
+    repository.add({
+      status: 'processing',
+      locked_by: 'pod-gone:1',
+      locked_until: expired,
+      payment_request: 'lnbc200u1paying',
+    });
+
+    await service.processDuePayouts();
+
+    expect(repository.earnings[0]!.status).toBe('completed');
+    expect(repository.earnings[1]!.status).toBe('dead');
+    expect(payInvoice).toHaveBeenCalledTimes(1);
+  });
+
+  describe('client refunds', () => {
+    it('should refund the client at their Lightning address and post it to the ledger', async () => {
+      const refund = refunds.add();
+
+      expect(await service.processDuePayouts()).toBe(1);
+
+      expect(fetchInvoice).toHaveBeenCalledWith('client@wallet.example.com', 10000, `Refund for job #${refund.job_id}`);
+      expect(refunds.refunds[0]).toMatchObject({ status: 'completed', payment_preimage: PREIMAGE });
+      expect(recordRefundSent).toHaveBeenCalledWith(expect.objectContaining({ id: refund.id }), 3);
+      expect(recordPayoutSent).not.toHaveBeenCalled();
+    });
+
+    it('should keep retrying a client without a Lightning address', async () => {
+      refunds.add({ lightning_address: null });
+
+      await service.processDuePayouts();
+
+      expect(fetchInvoice).not.toHaveBeenCalled();
+      expect(refunds.refunds[0]).toMatchObject({ status: 'failed', error_message: 'No Lightning address configured' });
+      expect(refunds.delays).toEqual([PAYOUT_CONSTANTS.BACKOFF_BASE_MS]);
+    });
+
+    it('should dead-letter a refund whose outcome is unknown', async () => {
+      refunds.add();
+      payInvoice.mockRejectedValue(new ServiceUnavailableError('Lightning node timed out', 'LIGHTNING_BACKEND_ERROR'));
+
+      await service.processDuePayouts();
+
+      expect(refunds.refunds[0]).toMatchObject({
+        status: 'dead',
+        payment_request: 'lnbc200u1invoice',
+        error_message: 'Payment outcome unknown: Lightning node timed out',
+      });
+      expect(recordRefundSent).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * Price Oracle Unit Tests
+ * Aggregation, caching and snapshots against fixture price feeds
+ */
+
+import http from 'http';
+import type { AddressInfo } from 'net';
+import { PriceOracle } from '../../services/pricing/PriceOracle.js';
+import { createPriceSources } from '../../services/pricing/createPriceOracle.js';
+import {
+  CoinbasePriceSource,
+  CoinGeckoPriceSource,
+  FixedPriceSource,
+  KrakenPriceSource,
+} from '../../services/pricing/PriceSource.js';
+import type {
+  CreatePriceSnapshotDto,
+  PriceSnapshotRepository,
+} from '../../database/repositories/PriceSnapshotRepository.js';
+import {
+  coinbaseExchangeRates,
+  coinGeckoSimplePrice,
+  krakenError,
+  krakenTicker,
+} from '../fixtures/price-feeds.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('PriceOracle', () => {
+  let server: http.Server;
+  let baseUrl: string;
+  let feeds: Record<string, unknown>;
+  let requests: number;
+  let snapshotRepository: { create: jest.Mock; findById: jest.Mock };
+
+  const createOracle = (options = {}) =>
+    new PriceOracle(
+      [new CoinbasePriceSource(baseUrl), new KrakenPriceSource(baseUrl), new CoinGeckoPriceSource(baseUrl)],
+      snapshotRepository as unknown as PriceSnapshotRepository,
+      options
+    );
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      requests++;
+      const body = feeds[new URL(req.url!, baseUrl).pathname];
+      res.writeHead(body ? 200 : 503, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body ?? { message: 'Service unavailable' }));
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    requests = 0;
+    feeds = {
+      '/v2/exchange-rates': coinbaseExchangeRates,
+      '/0/public/Ticker': krakenTicker,
+      '/api/v3/simple/price': coinGeckoSimplePrice,
+    };
+    snapshotRepository = {
+      create: jest.fn(async (data: CreatePriceSnapshotDto) => ({
+        id: snapshotRepository.create.mock.calls.length,
+        currency: data.currency,
+        btc_price: data.btcPrice,
+        sources: data.sources,
+        fetched_at: data.fetchedAt,
+        created_at: new Date(),
+      })),
+      findById: jest.fn(),
+    };
+  });
+
+  it('should take the median of every source quoting a currency', async () => {
+    const oracle = createOracle();
+
+    const usd = await oracle.getQuote('USD');
+    const kes = await oracle.getQuote('KES');
+
+    expect(usd).toMatchObject({ currency: 'USD', btcPrice: 65001, sources: ['coinbase', 'kraken', 'coingecko'] });
+    // Kraken has no KES pair; the median of two is their mean
+    expect(kes).toMatchObject({ currency: 'KES', btcPrice: 8393060.2, sources: ['coinbase', 'coingecko'] });
+  });
+
+  it('should ignore a source that strays from the others', async () => {
+    feeds['/api/v3/simple/price'] = { bitcoin: { usd: 6500.1, kes: 8395120 } };
+
+    const quote = await createOracle().getQuote('USD');
+
+    expect(quote.sources).toEqual(['coinbase', 'kraken']);
+    expect(quote.btcPrice).toBe(64996.43);
+  });
+
+  it('should keep quoting when one source fails', async () => {
+    feeds['/0/public/Ticker'] = krakenError;
+    delete feeds['/v2/exchange-rates'];
+
+    const quote = await createOracle().getQuote('USD');
+
+    expect(quote).toMatchObject({ btcPrice: 65001, sources: ['coingecko'] });
+  });
+
+  it('should serve cached quotes until they expire', async () => {
+    const oracle = createOracle();
+
+    await oracle.getQuote('USD');
+    await Promise.all([oracle.getQuote('USD'), oracle.getQuote('KES')]);
+
+    expect(requests).toBe(3);
+  });
+
+  it('should share one refresh between concurrent callers', async () => {
+    const oracle = createOracle();
+
+    await Promise.all([oracle.getQuote('USD'), oracle.getQuote('USD'), oracle.getQuote('KES')]);
+
+    expect(requests).toBe(3);
+  });
+
+  it('should fall back to a stale quote, but only within the staleness bound', async () => {
+    const oracle = createOracle({ cacheTtlMs: 0, maxStalenessMs: 200 });
+    const fresh = await oracle.getQuote('USD');
+
+    feeds = {};
+    expect(await oracle.getQuote('USD')).toBe(fresh);
+
+    await sleep(250);
+    await expect(oracle.getQuote('USD')).rejects.toMatchObject({ code: 'PRICE_UNAVAILABLE', statusCode: 503 });
+  });
+
+  it('should store one snapshot per quote and convert with it', async () => {
+    const oracle = new PriceOracle(
+      [new FixedPriceSource({ USD: 50000 })],
+      snapshotRepository as unknown as PriceSnapshotRepository
+    );
+
+    const first = await oracle.fiatToSats(2500);
+    const second = await oracle.fiatToSats(1000);
+
+    expect(first.sats).toBe(50000);
+    expect(second.sats).toBe(20000);
+    expect(second.snapshot).toBe(first.snapshot);
+    expect(snapshotRepository.create).toHaveBeenCalledTimes(1);
+    expect(snapshotRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({ currency: 'USD', btcPrice: 50000, sources: ['fixed'] })
+    );
+    expect(await oracle.satsToFiat(50000)).toBe(2500);
+  });
+
+  it('should build the configured sources', () => {
+    expect(createPriceSources({}).map((s) => s.name)).toEqual(['coinbase', 'kraken', 'coingecko']);
+    expect(createPriceSources({ PRICE_SOURCES: 'fixed', BTC_PRICE_KES: '8400000' }).map((s) => s.name)).toEqual([
+      'fixed',
+    ]);
+    expect(() => createPriceSources({ PRICE_SOURCES: 'fixed' })).toThrow('BTC_PRICE_USD');
+    expect(() => createPriceSources({ PRICE_SOURCES: 'coinbase,binance' })).toThrow('Unknown price source "binance"');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * RealtimeService Unit Tests
+ * Server-Sent Event fan-out to connected users
+ */
+
+import { RealtimeService } from '../../services/realtime/RealtimeService.js';
+import { REALTIME_CONSTANTS } from '../../config/constants.js';
+import type { SessionRepository } from '../../database/repositories/SessionRepository.js';
+
+function createStream() {
+  return { write: jest.fn().mockReturnValue(true), end: jest.fn() };
+}
+
+const statusEvent = {
+  jobId: 1,
+  status: 'in_progress' as const,
+  previousStatus: 'accepted' as const,
+  actor: 'runner' as const,
+  changedAt: '2025-01-01T00:00:00.000Z',
+};
+
+describe('RealtimeService', () => {
+  let activeSessions: Set<number>;
+  let service: RealtimeService;
+
+  beforeEach(() => {
+    activeSessions = new Set([1, 2]);
+    const sessionRepository = {
+      findActiveIds: jest.fn(async (ids: number[]) => ids.filter((id) => activeSessions.has(id))),
+    };
+    service = new RealtimeService(sessionRepository as unknown as SessionRepository);
+  });
+
+  it('should send the reconnect delay when a stream opens', () => {
+    const stream = createStream();
+
+    service.subscribe(1, stream);
+
+    expect(stream.write).toHaveBeenCalledWith(`retry: ${REALTIME_CONSTANTS.RETRY_MS}\n\n`);
+  });
+
+  it('should deliver events only to the given users', () => {
+    const client = createStream();
+    const runner = createStream();
+    const stranger = createStream();
+    service.subscribe(1, client);
+    service.subscribe(2, runner);
+    service.subscribe(3, stranger);
+
+    service.publish([1, 2, null], 'job.status_changed', statusEvent);
+
+    const frame = client.write.mock.calls[1]![0] as string;
+    expect(frame).toContain('event: job.status_changed\n');
+    expect(frame).toContain(`data: ${JSON.stringify(statusEvent)}\n\n`);
+    expect(runner.write).toHaveBeenCalledWith(frame);
+    expect(stranger.write).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send each event once per stream even if a user is listed twice', () => {
+    const stream = createStream();
+    service.subscribe(1, stream);
+
+    service.publish([1, 1], 'payment.confirmed', { jobId: 1, paymentHash: 'abc' });
+
+    expect(stream.write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop delivering after unsubscribe', () => {
+    const stream = createStream();
+    const unsubscribe = service.subscribe(1, stream);
+
+    unsubscribe();
+    service.publish([1], 'payment.confirmed', { jobId: 1, paymentHash: 'abc' });
+
+    expect(stream.write).toHaveBeenCalledTimes(1);
+    expect(service.getConnectedUserCount()).toBe(0);
+  });
+
+  it('should drop the oldest stream when a user opens too many', () => {
+    const streams = Array.from(
+      { length: REALTIME_CONSTANTS.MAX_CONNECTIONS_PER_USER + 1 },
+      createStream
+    );
+    streams.forEach((stream) => service.subscribe(1, stream));
+
+    service.publish([1], 'payment.confirmed', { jobId: 1, paymentHash: 'abc' });
+
+    expect(streams[0]!.write).toHaveBeenCalledTimes(1);
+    expect(streams[0]!.end).toHaveBeenCalled();
+    expect(streams[streams.length - 1]!.write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close streams whose session was revoked', async () => {
+    const revoked = createStream();
+    const active = createStream();
+    service.subscribe(1, revoked, 1);
+    service.subscribe(1, active, 2);
+
+    activeSessions.delete(1);
+
+    expect(await service.closeEndedSessions()).toBe(1);
+    expect(revoked.end).toHaveBeenCalled();
+    expect(active.end).not.toHaveBeenCalled();
+
+    service.publish([1], 'payment.confirmed', { jobId: 1, paymentHash: 'abc' });
+    expect(revoked.write).toHaveBeenCalledTimes(1);
+    expect(active.write).toHaveBeenCalledTimes(2);
+  });
+
+  it('should close every stream of a user who logged out everywhere', async () => {
+    service.subscribe(1, createStream(), 1);
+    service.subscribe(1, createStream(), 2);
+
+    activeSessions.clear();
+
+    expect(await service.closeEndedSessions()).toBe(2);
+    expect(service.getConnectedUserCount()).toBe(0);
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * ReviewService Unit Tests
+ * Two-way reviews with blind reveal, client reputation, replies and moderation
+ */
+
+import { ReviewService } from '../../services/review/ReviewService.js';
+import type { Review, ReviewRepository } from '../../database/repositories/ReviewRepository.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+
+const CLIENT_ID = 10;
+const RUNNER_ID = 20;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: RUNNER_ID,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'payment_confirmed',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: null,
+    payment_confirmed_at: new Date(Date.now() - DAY_MS),
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+describe('ReviewService', () => {
+  let job: Job;
+  let reviews: Review[];
+  let reviewRepository: Record<string, jest.Mock>;
+  let jobRepository: Record<string, jest.Mock>;
+  let runnerRepository: Record<string, jest.Mock>;
+  let service: ReviewService;
+
+  beforeEach(() => {
+    job = buildJob();
+    reviews = [];
+
+    reviewRepository = {
+      findById: jest.fn(async (id: number) => reviews.find((r) => r.id === id)),
+      findByJobId: jest.fn(async () => reviews),
+      findByJobAndRole: jest.fn(async (_jobId: number, role: string) =>
+        reviews.find((r) => r.reviewer_role === role) ?? null
+      ),
+      create: jest.fn(async (data) => {
+        const review: Review = {
+          id: reviews.length + 1,
+          job_id: data.jobId,
+          reviewer_id: data.reviewerId,
+          reviewee_id: data.revieweeId,
+          reviewer_role: data.reviewerRole,
+          rating: data.rating,
+          comment: data.comment ?? null,
+          flags: data.flags ?? [],
+          punctuality_rating: data.punctualityRating ?? null,
+          communication_rating: data.communicationRating ?? null,
+          care_of_items_rating: data.careOfItemsRating ?? null,
+          reply: null,
+          replied_at: null,
+          revealed_at: null,
+          hidden_at: null,
+          hidden_reason: null,
+          created_at: new Date(),
+        };
+        reviews.push(review);
+        return review;
+      }),
+      revealIfBothSubmitted: jest.fn(async () => {
+        if (reviews.length < 2) return [];
+        reviews = reviews.map((r) => ({ ...r, revealed_at: new Date() }));
+        return reviews;
+      }),
+      revealExpired: jest.fn(async () => []),
+      update: jest.fn(),
+      delete: jest.fn(),
+      addReply: jest.fn(async (id: number, reply: string) => {
+        const review = reviews.find((r) => r.id === id && r.reply === null);
+        if (!review) return null;
+        review.reply = reply;
+        review.replied_at = new Date();
+        return review;
+      }),
+      createReport: jest.fn(async () => ({ id: 1 })),
+      hide: jest.fn(async (id: number) => {
+        const review = reviews.find((r) => r.id === id)!;
+        review.hidden_at = new Date();
+        return review;
+      }),
+      resolveReports: jest.fn(async () => 2),
+      getAverageRatingForRunner: jest.fn(async () => 4),
+      countForRunner: jest.fn(async () => 1),
+      getSubRatingAveragesForRunner: jest.fn(),
+      getClientStats: jest.fn(),
+    };
+    jobRepository = {
+      findById: jest.fn(async () => job),
+      countCompletedJobsForRunner: jest.fn(async () => 3),
+    };
+    runnerRepository = {
+      findByUserId: jest.fn(async () => ({ id: 5 })),
+      updateStats: jest.fn(),
+    };
+
+    service = new ReviewService(
+      reviewRepository as unknown as ReviewRepository,
+      jobRepository as unknown as JobRepository,
+      runnerRepository as unknown as RunnerRepository
+    );
+  });
+
+  describe('createReview', () => {
+    it('should let the runner review and flag the client, hidden until the client reviews', async () => {
+      const review = await service.createReview({
+        jobId: 1,
+        reviewerId: RUNNER_ID,
+        rating: 2,
+        comment: 'Paid two days late',
+        flags: ['late_payment'],
+      });
+
+      expect(review).toMatchObject({
+        reviewerRole: 'runner',
+        revieweeId: CLIENT_ID,
+        flags: ['late_payment'],
+        revealed: false,
+      });
+      expect(runnerRepository['updateStats']).not.toHaveBeenCalled();
+    });
+
+    it('should reveal both reviews and update the runner rating once both sides submit', async () => {
+      await service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 5 });
+      const review = await service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 4 });
+
+      expect(review).toMatchObject({ reviewerRole: 'client', revieweeId: RUNNER_ID, revealed: true });
+      expect(runnerRepository['updateStats']).toHaveBeenCalledWith(5, { avgRating: 4, totalJobs: 3 });
+    });
+
+    it('should let a runner review a cancelled job but not the client', async () => {
+      job = buildJob({ status: 'cancelled', payment_confirmed_at: null });
+
+      await expect(
+        service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 1, flags: ['no_show'] })
+      ).resolves.toMatchObject({ flags: ['no_show'] });
+      await expect(service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 1 })).rejects.toMatchObject({
+        code: 'JOB_NOT_COMPLETED',
+      });
+    });
+
+    it('should reject reviews from outside the job, flags from clients and a second review', async () => {
+      await expect(service.createReview({ jobId: 1, reviewerId: 99, rating: 5 })).rejects.toMatchObject({
+        code: 'NOT_JOB_PARTICIPANT',
+      });
+      await expect(
+        service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 5, flags: ['no_show'] })
+      ).rejects.toMatchObject({ code: 'INVALID_FLAGS' });
+      await expect(
+        service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 5, flags: ['rude' as never] })
+      ).rejects.toMatchObject({ code: 'INVALID_FLAGS' });
+
+      await service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 5 });
+      await expect(service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 4 })).rejects.toMatchObject({
+        code: 'REVIEW_EXISTS',
+      });
+    });
+
+    it('should take sub-ratings from clients only', async () => {
+      await expect(
+        service.createReview({
+          jobId: 1,
+          reviewerId: RUNNER_ID,
+          rating: 4,
+          subRatings: { punctuality: 5 },
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_SUB_RATINGS' });
+      await expect(
+        service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 4, subRatings: { careOfItems: 6 } })
+      ).rejects.toMatchObject({ code: 'INVALID_SUB_RATINGS' });
+
+      const review = await service.createReview({
+        jobId: 1,
+        reviewerId: CLIENT_ID,
+        rating: 4,
+        subRatings: { punctuality: 3, careOfItems: 5 },
+      });
+
+      expect(review.subRatings).toEqual({ punctuality: 3, communication: null, careOfItems: 5 });
+    });
+
+    it('should reject reviews after the review window closes', async () => {
+      job = buildJob({ payment_confirmed_at: new Date(Date.now() - 15 * DAY_MS) });
+
+      await expect(service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 5 })).rejects.toMatchObject({
+        code: 'REVIEW_WINDOW_CLOSED',
+      });
+    });
+  });
+
+  describe('visibility', () => {
+    it('should hide a review from the other side until it is revealed', async () => {
+      await service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 3 });
+
+      const forClient = await service.getReviewsForJob(1, CLIENT_ID);
+      expect(forClient.reviews).toHaveLength(0);
+      expect(forClient.awaitingReveal).toBe(true);
+      expect(forClient.revealAt).toEqual(new Date(job.payment_confirmed_at!.getTime() + 14 * DAY_MS));
+
+      const forRunner = await service.getReviewsForJob(1, RUNNER_ID);
+      expect(forRunner.reviews).toHaveLength(1);
+      expect(forRunner.awaitingReveal).toBe(false);
+
+      await expect(service.getReviewById(1, CLIENT_ID)).rejects.toMatchObject({ code: 'REVIEW_NOT_FOUND' });
+    });
+
+    it('should not allow changing or deleting a revealed review', async () => {
+      await service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 3 });
+      await service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 2 });
+
+      await expect(service.updateReview(2, CLIENT_ID, { rating: 5 })).rejects.toMatchObject({
+        code: 'REVIEW_REVEALED',
+      });
+      await expect(service.deleteReview(1, RUNNER_ID)).rejects.toMatchObject({ code: 'REVIEW_REVEALED' });
+      expect(reviewRepository['delete']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('replies', () => {
+    beforeEach(async () => {
+      await service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 4 });
+      await service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 2, comment: 'Arrived late' });
+    });
+
+    it('should let the runner reply once to the client review', async () => {
+      const review = await service.replyToReview(2, RUNNER_ID, '  Traffic was blocked, sorry!  ');
+
+      expect(review.reply).toMatchObject({ comment: 'Traffic was blocked, sorry!' });
+      await expect(service.replyToReview(2, RUNNER_ID, 'Again')).rejects.toMatchObject({
+        code: 'REPLY_EXISTS',
+      });
+    });
+
+    it('should not let clients reply or anyone reply to a review they cannot see', async () => {
+      await expect(service.replyToReview(1, CLIENT_ID, 'Not true')).rejects.toMatchObject({
+        code: 'NOT_REVIEWEE',
+      });
+      await expect(service.replyToReview(2, RUNNER_ID, '   ')).rejects.toMatchObject({ code: 'INVALID_REPLY' });
+
+      reviews[1]!.revealed_at = null;
+      await expect(service.replyToReview(2, RUNNER_ID, 'Hello')).rejects.toMatchObject({
+        code: 'REVIEW_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('moderation', () => {
+    beforeEach(async () => {
+      await service.createReview({ jobId: 1, reviewerId: RUNNER_ID, rating: 4 });
+      await service.createReview({ jobId: 1, reviewerId: CLIENT_ID, rating: 1, comment: 'Abusive words' });
+    });
+
+    it('should take reports from other users but not the author or twice', async () => {
+      await expect(service.reportReview(2, RUNNER_ID, 'Insulting')).resolves.toBeUndefined();
+      expect(reviewRepository['createReport']).toHaveBeenCalledWith(2, RUNNER_ID, 'Insulting');
+
+      await expect(service.reportReview(2, CLIENT_ID, 'Oops')).rejects.toMatchObject({ code: 'OWN_REVIEW' });
+      await expect(service.reportReview(2, 99, '')).rejects.toMatchObject({ code: 'INVALID_REASON' });
+
+      reviewRepository['createReport']!.mockResolvedValue(null);
+      await expect(service.reportReview(2, RUNNER_ID, 'Insulting')).rejects.toMatchObject({
+        code: 'REVIEW_ALREADY_REPORTED',
+      });
+    });
+
+    it('should hide a review from everyone but its author and refresh the runner rating', async () => {
+      runnerRepository['updateStats']!.mockClear();
+
+      const hidden = await service.hideReview(2, 1, 'Abusive language');
+
+      expect(hidden.hidden).toBe(true);
+      expect(reviewRepository['resolveReports']).toHaveBeenCalledWith(2, 1, 'upheld');
+      expect(runnerRepository['updateStats']).toHaveBeenCalledTimes(1);
+
+      const forRunner = await service.getReviewsForJob(1, RUNNER_ID);
+      expect(forRunner.reviews.map((review) => review.id)).toEqual([1]);
+      expect(forRunner.awaitingReveal).toBe(false);
+      expect((await service.getReviewsForJob(1, CLIENT_ID)).reviews).toHaveLength(2);
+
+      await expect(service.hideReview(2, 1)).rejects.toMatchObject({ code: 'REVIEW_HIDDEN' });
+      await expect(service.reportReview(2, RUNNER_ID, 'Insulting')).rejects.toMatchObject({
+        code: 'REVIEW_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('getRunnerRatingStats', () => {
+    it('should include the average of each sub-rating', async () => {
+      reviewRepository['getSubRatingAveragesForRunner']!.mockResolvedValue({
+        punctuality: 4.3333,
+        communication: 5,
+        care_of_items: null,
+      });
+
+      await expect(service.getRunnerRatingStats(RUNNER_ID)).resolves.toEqual({
+        runnerId: RUNNER_ID,
+        averageRating: 4,
+        totalReviews: 1,
+        subRatings: { punctuality: 4.3, communication: 5, careOfItems: null },
+      });
+    });
+  });
+
+  describe('revealExpired', () => {
+    it('should update the ratings of runners whose client reviews were revealed', async () => {
+      reviewRepository['revealExpired']!.mockResolvedValue([
+        { id: 1, reviewer_role: 'client', reviewee_id: RUNNER_ID },
+        { id: 2, reviewer_role: 'runner', reviewee_id: CLIENT_ID },
+      ]);
+
+      await expect(service.revealExpired()).resolves.toBe(2);
+      expect(reviewRepository['revealExpired']).toHaveBeenCalledWith(14);
+      expect(runnerRepository['findByUserId']).toHaveBeenCalledTimes(1);
+      expect(runnerRepository['findByUserId']).toHaveBeenCalledWith(RUNNER_ID);
+    });
+  });
+
+  describe('getClientRatingStats', () => {
+    it('should summarise revealed runner reviews of the client', async () => {
+      reviewRepository['getClientStats']!.mockResolvedValue({
+        avg_rating: 3.6667,
+        review_count: 3,
+        no_show_count: 1,
+        late_payment_count: 2,
+        no_payment_count: 0,
+        completed_jobs: 7,
+      });
+
+      await expect(service.getClientRatingStats(CLIENT_ID)).resolves.toEqual({
+        clientId: CLIENT_ID,
+        averageRating: 3.7,
+        totalReviews: 3,
+        completedJobs: 7,
+        flags: { noShow: 1, latePayment: 2, noPayment: 0 },
+      });
+    });
+  });
+});
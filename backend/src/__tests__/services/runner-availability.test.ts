@@ -0,0 +1,258 @@
+/**
+ * Runner Availability Unit Tests
+ * Working hours, time off, job capacity and their check on job assignment
+ */
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: { enqueueJobPayout: jest.fn() },
+}));
+
+import { RunnerAvailabilityService } from '../../services/runner/RunnerAvailabilityService.js';
+import { JobService } from '../../services/job/JobService.js';
+import type { RunnerAvailabilityRepository } from '../../database/repositories/RunnerAvailabilityRepository.js';
+import type { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import type { JobRepository } from '../../database/repositories/JobRepository.js';
+import type { UserRepository } from '../../database/repositories/UserRepository.js';
+import type { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+import type { JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+
+const PROFILE_ID = 5;
+const RUNNER_ID = 20;
+
+describe('RunnerAvailabilityService', () => {
+  let availabilityRepository: Record<string, jest.Mock>;
+  let runnerRepository: Record<string, jest.Mock>;
+  let service: RunnerAvailabilityService;
+
+  beforeEach(() => {
+    availabilityRepository = {
+      findSettings: jest.fn(async () => ({ is_available: true, timezone: 'Europe/Berlin', max_concurrent_jobs: 2 })),
+      findWorkingHours: jest.fn(async () => []),
+      findUpcomingTimeOff: jest.fn(async () => []),
+      update: jest.fn(async () => undefined),
+      createTimeOff: jest.fn(async (data: any) => ({
+        id: 1,
+        runner_id: data.runnerId,
+        starts_at: data.startsAt,
+        ends_at: data.endsAt,
+        reason: data.reason,
+        created_at: new Date(),
+      })),
+      deleteTimeOff: jest.fn(async () => true),
+      findAvailabilityNow: jest.fn(async () => ({
+        profile_id: PROFILE_ID,
+        is_available: true,
+        on_time_off: false,
+        within_hours: true,
+        active_jobs: 0,
+        max_concurrent_jobs: 2,
+      })),
+    };
+    runnerRepository = { findById: jest.fn(async () => ({ id: PROFILE_ID, user_id: RUNNER_ID })) };
+
+    service = new RunnerAvailabilityService(
+      availabilityRepository as unknown as RunnerAvailabilityRepository,
+      runnerRepository as unknown as RunnerRepository
+    );
+  });
+
+  describe('updateAvailability', () => {
+    it('should save settings and working hours in weekday order', async () => {
+      await service.updateAvailability(PROFILE_ID, RUNNER_ID, {
+        timezone: 'America/New_York',
+        maxConcurrentJobs: 3,
+        workingHours: [
+          { weekday: 2, startsAt: '09:00', endsAt: '17:00' },
+          { weekday: 1, startsAt: '13:00', endsAt: '18:00' },
+          { weekday: 1, startsAt: '08:00', endsAt: '12:00' },
+        ],
+      });
+
+      expect(availabilityRepository['update']).toHaveBeenCalledWith(
+        PROFILE_ID,
+        { timezone: 'America/New_York', max_concurrent_jobs: 3 },
+        [
+          { weekday: 1, startsAt: '08:00', endsAt: '12:00' },
+          { weekday: 1, startsAt: '13:00', endsAt: '18:00' },
+          { weekday: 2, startsAt: '09:00', endsAt: '17:00' },
+        ]
+      );
+    });
+
+    it('should reject overlapping or malformed working hours', async () => {
+      await expect(
+        service.updateAvailability(PROFILE_ID, RUNNER_ID, {
+          workingHours: [
+            { weekday: 1, startsAt: '08:00', endsAt: '12:00' },
+            { weekday: 1, startsAt: '11:00', endsAt: '14:00' },
+          ],
+        })
+      ).rejects.toMatchObject({ code: 'OVERLAPPING_WORKING_HOURS' });
+
+      await expect(
+        service.updateAvailability(PROFILE_ID, RUNNER_ID, {
+          workingHours: [{ weekday: 1, startsAt: '9:00', endsAt: '17:00' }],
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_WORKING_HOURS' });
+
+      await expect(
+        service.updateAvailability(PROFILE_ID, RUNNER_ID, {
+          workingHours: [{ weekday: 7, startsAt: '09:00', endsAt: '17:00' }],
+        })
+      ).rejects.toMatchObject({ code: 'INVALID_WORKING_HOURS' });
+    });
+
+    it('should reject unknown time zones and out of range capacity', async () => {
+      await expect(
+        service.updateAvailability(PROFILE_ID, RUNNER_ID, { timezone: 'Mars/Olympus' })
+      ).rejects.toMatchObject({ code: 'INVALID_TIMEZONE' });
+
+      await expect(
+        service.updateAvailability(PROFILE_ID, RUNNER_ID, { maxConcurrentJobs: 0 })
+      ).rejects.toMatchObject({ code: 'INVALID_MAX_CONCURRENT_JOBS' });
+
+      expect(availabilityRepository['update']).not.toHaveBeenCalled();
+    });
+
+    it('should only let the owner change availability', async () => {
+      await expect(service.updateAvailability(PROFILE_ID, 99, { isAvailable: false })).rejects.toMatchObject({
+        code: 'NOT_PROFILE_OWNER',
+      });
+    });
+  });
+
+  describe('addTimeOff', () => {
+    beforeEach(() => {
+      jest.useFakeTimers({ now: new Date('2029-12-01T00:00:00.000Z') });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('should read times without an offset in the runner time zone', async () => {
+      const timeOff = await service.addTimeOff(PROFILE_ID, RUNNER_ID, {
+        startsAt: '2030-07-01T09:00',
+        endsAt: '2030-07-03T18:00',
+        reason: ' Holiday ',
+      });
+
+      // Berlin is two hours ahead of UTC in summer
+      expect(timeOff.startsAt.toISOString()).toBe('2030-07-01T07:00:00.000Z');
+      expect(timeOff.endsAt.toISOString()).toBe('2030-07-03T16:00:00.000Z');
+      expect(timeOff.reason).toBe('Holiday');
+    });
+
+    it('should keep explicit offsets', async () => {
+      const timeOff = await service.addTimeOff(PROFILE_ID, RUNNER_ID, {
+        startsAt: '2030-01-01T09:00:00Z',
+        endsAt: '2030-01-01T12:00:00-05:00',
+      });
+
+      expect(timeOff.startsAt.toISOString()).toBe('2030-01-01T09:00:00.000Z');
+      expect(timeOff.endsAt.toISOString()).toBe('2030-01-01T17:00:00.000Z');
+    });
+
+    it('should reject time off that ends first, is past or is too long', async () => {
+      await expect(
+        service.addTimeOff(PROFILE_ID, RUNNER_ID, { startsAt: '2030-01-02', endsAt: '2030-01-01' })
+      ).rejects.toMatchObject({ code: 'INVALID_TIME_OFF' });
+
+      await expect(
+        service.addTimeOff(PROFILE_ID, RUNNER_ID, { startsAt: '2020-01-01', endsAt: '2020-01-02' })
+      ).rejects.toMatchObject({ code: 'INVALID_TIME_OFF' });
+
+      await expect(
+        service.addTimeOff(PROFILE_ID, RUNNER_ID, { startsAt: '2030-01-01', endsAt: '2031-06-01' })
+      ).rejects.toMatchObject({ code: 'TIME_OFF_TOO_LONG' });
+    });
+
+    it('should reject time off that starts more than a year ahead', async () => {
+      await expect(
+        service.addTimeOff(PROFILE_ID, RUNNER_ID, { startsAt: '2031-06-01', endsAt: '2031-06-02' })
+      ).rejects.toMatchObject({ code: 'TIME_OFF_TOO_FAR' });
+
+      expect(availabilityRepository['createTimeOff']).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('removeTimeOff', () => {
+    it('should fail when the runner has no such block', async () => {
+      availabilityRepository['deleteTimeOff']!.mockResolvedValue(false);
+
+      await expect(service.removeTimeOff(PROFILE_ID, RUNNER_ID, 3)).rejects.toMatchObject({
+        code: 'TIME_OFF_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('assertAvailable', () => {
+    const now = (overrides: Record<string, unknown>) =>
+      availabilityRepository['findAvailabilityNow']!.mockResolvedValue({
+        profile_id: PROFILE_ID,
+        is_available: true,
+        on_time_off: false,
+        within_hours: true,
+        active_jobs: 0,
+        max_concurrent_jobs: 2,
+        ...overrides,
+      });
+
+    it('should allow a runner who is free', async () => {
+      await expect(service.assertAvailable(RUNNER_ID, 'client')).resolves.toBeUndefined();
+    });
+
+    it('should refuse a runner who is switched off, away or full', async () => {
+      now({ is_available: false });
+      await expect(service.assertAvailable(RUNNER_ID, 'runner')).rejects.toMatchObject({ code: 'RUNNER_UNAVAILABLE' });
+
+      now({ on_time_off: true });
+      await expect(service.assertAvailable(RUNNER_ID, 'runner')).rejects.toMatchObject({ code: 'RUNNER_TIME_OFF' });
+
+      now({ active_jobs: 2 });
+      await expect(service.assertAvailable(RUNNER_ID, 'runner')).rejects.toMatchObject({ code: 'RUNNER_AT_CAPACITY' });
+    });
+
+    it('should only hold clients to working hours', async () => {
+      now({ within_hours: false });
+
+      await expect(service.assertAvailable(RUNNER_ID, 'client')).rejects.toMatchObject({ code: 'RUNNER_OFF_HOURS' });
+      await expect(service.assertAvailable(RUNNER_ID, 'runner')).resolves.toBeUndefined();
+    });
+
+    it('should not check users without a runner profile', async () => {
+      availabilityRepository['findAvailabilityNow']!.mockResolvedValue(null);
+
+      await expect(service.assertAvailable(RUNNER_ID, 'client')).resolves.toBeUndefined();
+    });
+  });
+});
+
+describe('JobService.assignRunner availability', () => {
+  it('should not assign a runner who is unavailable', async () => {
+    const jobRepository = {
+      findById: jest.fn(async () => ({ id: 1, client_id: 10, status: 'open', price_cents: 2500 })),
+      transitionStatus: jest.fn(),
+    };
+    const availabilityService = {
+      assertAvailable: jest.fn(async () => {
+        throw Object.assign(new Error('The runner is on time off'), { code: 'RUNNER_TIME_OFF' });
+      }),
+    };
+    const jobService = new JobService(
+      jobRepository as unknown as JobRepository,
+      { findById: jest.fn(async () => ({ id: RUNNER_ID })) } as unknown as UserRepository,
+      {} as JobStatusHistoryRepository,
+      {} as JobStopRepository,
+      undefined,
+      availabilityService as unknown as RunnerAvailabilityService
+    );
+
+    await expect(
+      jobService.assignRunner(1, RUNNER_ID, { priceCents: 2500, acceptedBy: 'client', actorId: 10 })
+    ).rejects.toMatchObject({ code: 'RUNNER_TIME_OFF' });
+
+    expect(availabilityService.assertAvailable).toHaveBeenCalledWith(RUNNER_ID, 'client');
+    expect(jobRepository.transitionStatus).not.toHaveBeenCalled();
+  });
+});
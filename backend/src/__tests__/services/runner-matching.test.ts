@@ -0,0 +1,228 @@
+/**
+ * Runner Matching Unit Tests
+ * Ranking runners for a job, matching waves and suggestions for the client
+ */
+
+import { RunnerMatchingService } from '../../services/matching/RunnerMatchingService.js';
+import { rankRunners, radiusForWave, scoreRunner } from '../../services/matching/RunnerMatcher.js';
+import { realtimeService } from '../../services/realtime/RealtimeService.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { RunnerMatchCandidate, RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import type { MatchingJob, RunnerMatchRepository } from '../../database/repositories/RunnerMatchRepository.js';
+
+const CLIENT_ID = 10;
+
+function buildCandidate(overrides: Partial<RunnerMatchCandidate> = {}): RunnerMatchCandidate {
+  return {
+    profile_id: 5,
+    user_id: 20,
+    display_name: 'FastRunner',
+    avatar_url: null,
+    tags: ['delivery', 'shopping'],
+    hourly_rate_cents: 2000,
+    avg_rating: 4.5,
+    completion_rate: 90,
+    total_jobs: 12,
+    distance_km: 1,
+    available_now: true,
+    max_concurrent_jobs: 1,
+    active_jobs: 0,
+    recent_jobs: 1,
+    ...overrides,
+  };
+}
+
+function buildJob(overrides: Partial<MatchingJob> = {}): MatchingJob {
+  return {
+    id: 1,
+    client_id: CLIENT_ID,
+    runner_id: null,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: '0101000020E6100000',
+    address: null,
+    status: 'open',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: null,
+    completed_at: null,
+    payment_confirmed_at: null,
+    category: 'shopping',
+    fedi_community_id: null,
+    match_wave: 0,
+    ...overrides,
+  };
+}
+
+describe('RunnerMatcher', () => {
+  it('should widen the radius with each wave up to the maximum', () => {
+    expect(radiusForWave(0)).toBe(3);
+    expect(radiusForWave(1)).toBe(6);
+    expect(radiusForWave(2)).toBe(12);
+    expect(radiusForWave(3)).toBe(24);
+    expect(radiusForWave(4)).toBe(25);
+  });
+
+  it('should score each factor between 0 and 1', () => {
+    const match = scoreRunner(buildCandidate({ distance_km: 1.5, recent_jobs: 3 }), { category: 'Shopping' }, 3);
+
+    expect(match.factors).toEqual({
+      distance: 0.5,
+      category: 1,
+      rating: 0.9,
+      completion: 0.9,
+      availability: 1,
+      load: 0.25,
+    });
+    expect(match.score).toBe(0.745);
+  });
+
+  it('should treat unknown distance, category and history as neutral', () => {
+    const match = scoreRunner(
+      buildCandidate({ distance_km: null, avg_rating: 0, completion_rate: 0, total_jobs: 0 }),
+      { category: null },
+      null
+    );
+
+    expect(match.factors.distance).toBe(0.5);
+    expect(match.factors.category).toBe(0.5);
+    expect(match.factors.rating).toBe(0.5);
+    expect(match.factors.completion).toBe(0.5);
+  });
+
+  it('should rank a free runner in the category above a busy one nearby', () => {
+    const busy = buildCandidate({ user_id: 21, distance_km: 0.2, active_jobs: 2, recent_jobs: 6, tags: [] });
+    const free = buildCandidate({ user_id: 22, distance_km: 2 });
+
+    const ranked = rankRunners([busy, free], { category: 'shopping' }, 3);
+
+    expect(ranked.map((m) => m.candidate.user_id)).toEqual([22, 21]);
+  });
+
+  it('should score availability by free job slots', () => {
+    const half = scoreRunner(buildCandidate({ max_concurrent_jobs: 4, active_jobs: 2 }), { category: null }, 3);
+    const away = scoreRunner(buildCandidate({ available_now: false }), { category: null }, 3);
+
+    expect(half.factors.availability).toBe(0.5);
+    expect(away.factors.availability).toBe(0);
+  });
+});
+
+describe('RunnerMatchingService', () => {
+  let jobRepository: Record<string, jest.Mock>;
+  let runnerRepository: Record<string, jest.Mock>;
+  let matchRepository: Record<string, jest.Mock>;
+  let publish: jest.SpyInstance;
+  let service: RunnerMatchingService;
+
+  beforeEach(() => {
+    jobRepository = { findById: jest.fn(async () => buildJob()) };
+    runnerRepository = { findMatchCandidates: jest.fn(async () => []) };
+    matchRepository = {
+      claimDueWaves: jest.fn(async () => []),
+      recordSuggestions: jest.fn(async (jobId: number, wave: number, rows: any[]) =>
+        rows.map((row, i) => ({
+          id: i + 1,
+          job_id: jobId,
+          runner_id: row.runnerId,
+          wave,
+          score: row.score,
+          distance_km: row.distanceKm,
+          notified_at: new Date(),
+        }))
+      ),
+      findByJobId: jest.fn(async () => []),
+      findWave: jest.fn(async () => 0),
+    };
+
+    service = new RunnerMatchingService(
+      matchRepository as unknown as RunnerMatchRepository,
+      runnerRepository as unknown as RunnerRepository,
+      jobRepository as unknown as JobRepository
+    );
+    publish = jest.spyOn(realtimeService, 'publish').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  describe('runMatching', () => {
+    it('should push a wave to the top runners who were not told yet', async () => {
+      matchRepository['claimDueWaves']!.mockResolvedValue([buildJob({ match_wave: 1 })]);
+      runnerRepository['findMatchCandidates']!.mockResolvedValue(
+        Array.from({ length: 7 }, (_, i) => buildCandidate({ user_id: 30 + i, distance_km: i }))
+      );
+
+      const run = await service.runMatching();
+
+      expect(run).toEqual({ jobs: 1, notified: 5 });
+      expect(runnerRepository['findMatchCandidates']).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ radiusKm: 6, excludeNotified: true, availableOnly: true })
+      );
+      const [, wave, rows] = matchRepository['recordSuggestions']!.mock.calls[0];
+      expect(wave).toBe(1);
+      expect(rows.map((r: any) => r.runnerId)).toEqual([30, 31, 32, 33, 34]);
+      expect(publish).toHaveBeenCalledWith([30], 'job.suggested', {
+        jobId: 1,
+        title: 'Pick up groceries',
+        priceCents: 2500,
+        category: 'shopping',
+        distanceKm: 0,
+      });
+    });
+
+    it('should match jobs without a location on everything but distance', async () => {
+      matchRepository['claimDueWaves']!.mockResolvedValue([buildJob({ location: null })]);
+
+      await service.runMatching();
+
+      expect(runnerRepository['findMatchCandidates']).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({ radiusKm: null })
+      );
+    });
+
+    it('should carry on with the next job when one fails', async () => {
+      matchRepository['claimDueWaves']!.mockResolvedValue([buildJob({ id: 1 }), buildJob({ id: 2 })]);
+      runnerRepository['findMatchCandidates']!
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce([buildCandidate()]);
+
+      const run = await service.runMatching();
+
+      expect(run).toEqual({ jobs: 2, notified: 1 });
+      expect(publish).toHaveBeenCalledWith([20], 'job.suggested', expect.objectContaining({ jobId: 2 }));
+    });
+  });
+
+  describe('getSuggestedRunners', () => {
+    it('should rank runners and mark the ones already told', async () => {
+      const told = new Date('2030-01-01T10:00:00.000Z');
+      runnerRepository['findMatchCandidates']!.mockResolvedValue([
+        buildCandidate({ user_id: 21, distance_km: 20, active_jobs: 1, available_now: false }),
+        buildCandidate({ user_id: 22, distance_km: 1.04 }),
+      ]);
+      matchRepository['findByJobId']!.mockResolvedValue([{ runner_id: 22, notified_at: told }]);
+
+      const result = await service.getSuggestedRunners(1, CLIENT_ID);
+
+      expect(result.radiusKm).toBe(25);
+      expect(result.runners.map((r) => r.runnerId)).toEqual([22, 21]);
+      expect(result.runners[0]).toMatchObject({ distanceKm: 1, available: true, notifiedAt: told });
+      expect(result.runners[1]).toMatchObject({ available: false, notifiedAt: null });
+    });
+
+    it('should only show suggestions to the client of an open job', async () => {
+      await expect(service.getSuggestedRunners(1, 99)).rejects.toMatchObject({ code: 'NOT_JOB_CLIENT' });
+
+      jobRepository['findById']!.mockResolvedValue(buildJob({ status: 'accepted' } as Partial<Job>));
+      await expect(service.getSuggestedRunners(1, CLIENT_ID)).rejects.toMatchObject({
+        code: 'INVALID_JOB_STATUS',
+      });
+    });
+  });
+});
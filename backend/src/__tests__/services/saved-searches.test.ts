@@ -0,0 +1,458 @@
+/**
+ * Saved Search Unit Tests
+ * Saved job searches, alert timing, the alert sweeper and Web Push delivery
+ */
+
+import crypto from 'crypto';
+import { SavedSearchService } from '../../services/search/SavedSearchService.js';
+import { isAlertDue, isDigestDue, isQuietTime } from '../../services/search/AlertSchedule.js';
+import {
+  WebPushService,
+  createVapidAuthorization,
+  encryptPushPayload,
+} from '../../services/notification/WebPushService.js';
+import { realtimeService } from '../../services/realtime/RealtimeService.js';
+import type { EmailService } from '../../services/email.service.js';
+import type { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import type {
+  PendingMatch,
+  SavedSearchRepository,
+  SavedSearchWithEmail,
+} from '../../database/repositories/SavedSearchRepository.js';
+import type { PushSubscriptionRepository } from '../../database/repositories/PushSubscriptionRepository.js';
+import type { AxiosInstance } from 'axios';
+
+const RUNNER_ID = 20;
+
+function buildSearch(overrides: Partial<SavedSearchWithEmail> = {}): SavedSearchWithEmail {
+  return {
+    id: 1,
+    runner_id: RUNNER_ID,
+    name: 'Groceries nearby',
+    lat: 52.52,
+    lng: 13.405,
+    radius_km: 5,
+    categories: ['shopping'],
+    min_price_cents: 1000,
+    channels: ['in_app'],
+    quiet_start: null,
+    quiet_end: null,
+    timezone: 'UTC',
+    digest: false,
+    is_active: true,
+    last_digest_at: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    email: 'runner@example.com',
+    ...overrides,
+  };
+}
+
+function buildMatch(jobId: number, overrides: Partial<PendingMatch> = {}): PendingMatch {
+  return {
+    id: jobId * 10,
+    search_id: 1,
+    job_id: jobId,
+    title: `Job ${jobId}`,
+    price_cents: 2500,
+    category: 'shopping',
+    distance_km: 1.26,
+    matched_at: new Date(),
+    ...overrides,
+  };
+}
+
+describe('AlertSchedule', () => {
+  it('should hold alerts in quiet hours that span midnight', () => {
+    // Berlin is two hours ahead of UTC in summer
+    expect(isQuietTime(new Date('2030-07-01T21:30:00Z'), '22:00', '07:00', 'Europe/Berlin')).toBe(true);
+    expect(isQuietTime(new Date('2030-07-01T04:30:00Z'), '22:00', '07:00', 'Europe/Berlin')).toBe(true);
+    expect(isQuietTime(new Date('2030-07-01T05:30:00Z'), '22:00', '07:00', 'Europe/Berlin')).toBe(false);
+    expect(isQuietTime(new Date('2030-07-01T12:30:00Z'), '13:00', '15:00', 'UTC')).toBe(false);
+    expect(isQuietTime(new Date('2030-07-01T13:30:00Z'), '13:00', '15:00', 'UTC')).toBe(true);
+    expect(isQuietTime(new Date('2030-07-01T13:30:00Z'), null, null, 'UTC')).toBe(false);
+  });
+
+  it('should send one digest a local day from the digest time on', () => {
+    expect(isDigestDue(new Date('2030-07-01T05:00:00Z'), null, 'Europe/Berlin')).toBe(false);
+    expect(isDigestDue(new Date('2030-07-01T06:30:00Z'), null, 'Europe/Berlin')).toBe(true);
+    expect(
+      isDigestDue(new Date('2030-07-01T18:00:00Z'), new Date('2030-07-01T06:05:00Z'), 'Europe/Berlin')
+    ).toBe(false);
+    expect(
+      isDigestDue(new Date('2030-07-01T06:30:00Z'), new Date('2030-06-30T06:05:00Z'), 'Europe/Berlin')
+    ).toBe(true);
+  });
+
+  it('should hold a digest that falls in quiet hours until they end', () => {
+    const search = buildSearch({ digest: true, quiet_start: '06:00', quiet_end: '09:00' });
+
+    expect(isAlertDue(search, new Date('2030-07-01T08:30:00Z'))).toBe(false);
+    expect(isAlertDue(search, new Date('2030-07-01T09:00:00Z'))).toBe(true);
+  });
+});
+
+describe('SavedSearchService', () => {
+  let searchRepository: Record<string, jest.Mock>;
+  let runnerRepository: Record<string, jest.Mock>;
+  let emailService: Record<string, jest.Mock>;
+  let webPushService: Record<string, jest.Mock>;
+  let publish: jest.SpyInstance;
+  let service: SavedSearchService;
+
+  beforeEach(() => {
+    searchRepository = {
+      findByRunnerId: jest.fn(async () => []),
+      findById: jest.fn(async () => buildSearch()),
+      countForRunner: jest.fn(async () => 0),
+      create: jest.fn(async (_runnerId: number, data: any) =>
+        buildSearch({
+          name: data.name,
+          categories: data.categories,
+          channels: data.channels,
+          quiet_start: data.quietStart,
+          quiet_end: data.quietEnd,
+        })
+      ),
+      update: jest.fn(async () => buildSearch()),
+      delete: jest.fn(async () => true),
+      claimNewJobs: jest.fn(async () => []),
+      recordMatches: jest.fn(async () => 0),
+      discardStaleMatches: jest.fn(async () => 0),
+      findWithPendingMatches: jest.fn(async () => []),
+      claimPendingMatches: jest.fn(async () => []),
+      markDigestSent: jest.fn(async () => undefined),
+    };
+    runnerRepository = { findByUserId: jest.fn(async () => ({ id: 5, user_id: RUNNER_ID })) };
+    emailService = { sendNotification: jest.fn(async () => true) };
+    webPushService = { sendToUser: jest.fn(async () => 1), isEnabled: jest.fn(() => true) };
+    publish = jest.spyOn(realtimeService, 'publish').mockImplementation(() => undefined);
+
+    service = new SavedSearchService(
+      searchRepository as unknown as SavedSearchRepository,
+      runnerRepository as unknown as RunnerRepository,
+      emailService as unknown as EmailService,
+      webPushService as unknown as WebPushService
+    );
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  describe('createSearch', () => {
+    it('should save a search with in-app alerts by default', async () => {
+      await service.createSearch(RUNNER_ID, {
+        name: ' Groceries nearby ',
+        location: { lat: 52.52, lng: 13.405 },
+        radiusKm: 5,
+        categories: ['shopping', 'shopping', 'delivery'],
+        quietHours: { start: '22:00', end: '07:00' },
+        timezone: 'Europe/Berlin',
+      });
+
+      expect(searchRepository['create']).toHaveBeenCalledWith(RUNNER_ID, {
+        name: 'Groceries nearby',
+        lat: 52.52,
+        lng: 13.405,
+        radiusKm: 5,
+        categories: ['shopping', 'delivery'],
+        minPriceCents: null,
+        channels: ['in_app'],
+        quietStart: '22:00',
+        quietEnd: '07:00',
+        timezone: 'Europe/Berlin',
+        digest: false,
+        isActive: true,
+      });
+    });
+
+    it('should only let runners save searches', async () => {
+      runnerRepository['findByUserId']!.mockResolvedValue(null);
+
+      await expect(
+        service.createSearch(RUNNER_ID, { name: 'Anything', location: { lat: 0, lng: 0 }, radiusKm: 5 })
+      ).rejects.toMatchObject({ code: 'NOT_A_RUNNER' });
+    });
+
+    it('should reject unknown channels, categories and equal quiet hours', async () => {
+      const base = { name: 'Anything', location: { lat: 0, lng: 0 }, radiusKm: 5 };
+
+      await expect(
+        service.createSearch(RUNNER_ID, { ...base, channels: ['sms' as 'push'] })
+      ).rejects.toMatchObject({ code: 'INVALID_CHANNELS' });
+      await expect(
+        service.createSearch(RUNNER_ID, { ...base, categories: ['gardening'] })
+      ).rejects.toMatchObject({ code: 'INVALID_CATEGORIES' });
+      await expect(
+        service.createSearch(RUNNER_ID, { ...base, quietHours: { start: '22:00', end: '22:00' } })
+      ).rejects.toMatchObject({ code: 'INVALID_QUIET_HOURS' });
+      await expect(service.createSearch(RUNNER_ID, { ...base, radiusKm: 500 })).rejects.toMatchObject({
+        code: 'INVALID_RADIUS',
+      });
+
+      expect(searchRepository['create']).not.toHaveBeenCalled();
+    });
+
+    it('should cap the searches a runner can save', async () => {
+      searchRepository['countForRunner']!.mockResolvedValue(10);
+
+      await expect(
+        service.createSearch(RUNNER_ID, { name: 'Anything', location: { lat: 0, lng: 0 }, radiusKm: 5 })
+      ).rejects.toMatchObject({ code: 'TOO_MANY_SAVED_SEARCHES' });
+    });
+  });
+
+  describe('updateSearch', () => {
+    it('should keep fields left out and clear quiet hours set to null', async () => {
+      searchRepository['findById']!.mockResolvedValue(buildSearch({ quiet_start: '22:00', quiet_end: '07:00' }));
+
+      await service.updateSearch(1, RUNNER_ID, { quietHours: null, digest: true });
+
+      expect(searchRepository['update']).toHaveBeenCalledWith(
+        1,
+        expect.objectContaining({
+          name: 'Groceries nearby',
+          radiusKm: 5,
+          minPriceCents: 1000,
+          quietStart: null,
+          quietEnd: null,
+          digest: true,
+        })
+      );
+    });
+
+    it('should only let the owner change a search', async () => {
+      await expect(service.updateSearch(1, 99, { digest: true })).rejects.toMatchObject({
+        code: 'NOT_SEARCH_OWNER',
+      });
+    });
+  });
+
+  describe('runAlerts', () => {
+    it('should match new jobs and alert on every channel of the search', async () => {
+      searchRepository['claimNewJobs']!.mockResolvedValue([7, 8]);
+      searchRepository['recordMatches']!.mockResolvedValue(2);
+      searchRepository['findWithPendingMatches']!.mockResolvedValue([
+        buildSearch({ channels: ['in_app', 'email', 'push'] }),
+      ]);
+      searchRepository['claimPendingMatches']!.mockResolvedValue([buildMatch(7), buildMatch(8)]);
+
+      const run = await service.runAlerts(new Date('2030-07-01T12:00:00Z'));
+
+      expect(run).toEqual({ jobs: 2, matches: 2, alerts: 1 });
+      expect(searchRepository['recordMatches']).toHaveBeenCalledWith([7, 8]);
+      expect(publish).toHaveBeenCalledWith([RUNNER_ID], 'job.alert', {
+        searchId: 1,
+        searchName: 'Groceries nearby',
+        digest: false,
+        total: 2,
+        jobs: [
+          { jobId: 7, title: 'Job 7', priceCents: 2500, category: 'shopping', distanceKm: 1.3 },
+          { jobId: 8, title: 'Job 8', priceCents: 2500, category: 'shopping', distanceKm: 1.3 },
+        ],
+      });
+      expect(emailService['sendNotification']).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'runner@example.com',
+          subject: '2 new jobs for "Groceries nearby"',
+          body: '- Job 7 · $25.00 · 1.3 km away\n- Job 8 · $25.00 · 1.3 km away',
+        })
+      );
+      expect(webPushService['sendToUser']).toHaveBeenCalledWith(RUNNER_ID, {
+        title: '2 new jobs for "Groceries nearby"',
+        body: '- Job 7 · $25.00 · 1.3 km away\n- Job 8 · $25.00 · 1.3 km away',
+        url: '/browse-jobs',
+        tag: 'saved-search-1',
+      });
+      expect(searchRepository['markDigestSent']).not.toHaveBeenCalled();
+    });
+
+    it('should link a single job and skip channels the search does not use', async () => {
+      searchRepository['findWithPendingMatches']!.mockResolvedValue([buildSearch({ channels: ['push'] })]);
+      searchRepository['claimPendingMatches']!.mockResolvedValue([buildMatch(7)]);
+
+      await service.runAlerts(new Date('2030-07-01T12:00:00Z'));
+
+      expect(webPushService['sendToUser']).toHaveBeenCalledWith(
+        RUNNER_ID,
+        expect.objectContaining({ title: 'New job for "Groceries nearby"', url: '/jobs/7' })
+      );
+      expect(publish).not.toHaveBeenCalled();
+      expect(emailService['sendNotification']).not.toHaveBeenCalled();
+    });
+
+    it('should hold matches during quiet hours', async () => {
+      searchRepository['findWithPendingMatches']!.mockResolvedValue([
+        buildSearch({ quiet_start: '22:00', quiet_end: '07:00' }),
+      ]);
+
+      const run = await service.runAlerts(new Date('2030-07-01T23:00:00Z'));
+
+      expect(run.alerts).toBe(0);
+      expect(searchRepository['claimPendingMatches']).not.toHaveBeenCalled();
+    });
+
+    it('should send a due digest and record it', async () => {
+      const now = new Date('2030-07-01T08:30:00Z');
+      searchRepository['findWithPendingMatches']!.mockResolvedValue([
+        buildSearch({ digest: true, last_digest_at: new Date('2030-06-30T08:01:00Z') }),
+      ]);
+      searchRepository['claimPendingMatches']!.mockResolvedValue([buildMatch(7), buildMatch(8)]);
+
+      await service.runAlerts(now);
+
+      expect(searchRepository['markDigestSent']).toHaveBeenCalledWith(1, now);
+      expect(publish).toHaveBeenCalledWith(
+        [RUNNER_ID],
+        'job.alert',
+        expect.objectContaining({ digest: true, total: 2 })
+      );
+    });
+
+    it('should keep going when one search fails', async () => {
+      searchRepository['findWithPendingMatches']!.mockResolvedValue([
+        buildSearch({ id: 1 }),
+        buildSearch({ id: 2 }),
+      ]);
+      searchRepository['claimPendingMatches']!
+        .mockRejectedValueOnce(new Error('connection reset'))
+        .mockResolvedValueOnce([buildMatch(7, { search_id: 2 })]);
+
+      const run = await service.runAlerts(new Date('2030-07-01T12:00:00Z'));
+
+      expect(run.alerts).toBe(1);
+      expect(publish).toHaveBeenCalledWith([RUNNER_ID], 'job.alert', expect.objectContaining({ searchId: 2 }));
+    });
+  });
+});
+
+describe('WebPushService', () => {
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const vapid = {
+    publicKey: Buffer.concat([
+      Buffer.from([4]),
+      Buffer.from(jwk.x!, 'base64url'),
+      Buffer.from(jwk.y!, 'base64url'),
+    ]).toString('base64url'),
+    privateKey: jwk.d!,
+    subject: 'mailto:support@errandbit.com',
+  };
+
+  const browser = crypto.createECDH('prime256v1');
+  browser.generateKeys();
+  const authSecret = crypto.randomBytes(16);
+  const subscription = {
+    id: 3,
+    user_id: RUNNER_ID,
+    endpoint: 'https://push.example.com/send/abc',
+    p256dh: browser.getPublicKey().toString('base64url'),
+    auth: authSecret.toString('base64url'),
+    user_agent: null,
+    created_at: new Date(),
+    last_used_at: null,
+  };
+
+  // What the browser does with a push body (RFC 8291)
+  const decrypt = (body: Buffer): string => {
+    const hkdf = (ikm: Buffer, salt: Buffer, info: Buffer, length: number) =>
+      Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+    const salt = body.subarray(0, 16);
+    const serverKey = body.subarray(21, 21 + body[20]!);
+    const ciphertext = body.subarray(21 + body[20]!);
+
+    const ikm = hkdf(
+      browser.computeSecret(serverKey),
+      authSecret,
+      Buffer.concat([Buffer.from('WebPush: info\0'), browser.getPublicKey(), serverKey]),
+      32
+    );
+    const decipher = crypto.createDecipheriv(
+      'aes-128-gcm',
+      hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16),
+      hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12)
+    );
+    decipher.setAuthTag(ciphertext.subarray(-16));
+    const plain = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+
+    expect(plain[plain.length - 1]).toBe(2);
+    return plain.subarray(0, -1).toString('utf8');
+  };
+
+  it('should encrypt payloads the browser can decrypt', () => {
+    const body = encryptPushPayload(Buffer.from('{"title":"New job"}'), subscription.p256dh, subscription.auth);
+
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body)).toBe('{"title":"New job"}');
+  });
+
+  it('should sign a VAPID token for the push service origin', () => {
+    const now = new Date('2030-07-01T12:00:00Z');
+    const header = createVapidAuthorization(subscription.endpoint, vapid, now);
+
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    expect(key).toBe(vapid.publicKey);
+
+    const [head, claims, signature] = token!.split('.');
+    expect(JSON.parse(Buffer.from(claims!, 'base64url').toString())).toEqual({
+      aud: 'https://push.example.com',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:support@errandbit.com',
+    });
+    expect(
+      crypto.verify(
+        'sha256',
+        Buffer.from(`${head}.${claims}`),
+        { key: publicKey, dsaEncoding: 'ieee-p1363' },
+        Buffer.from(signature!, 'base64url')
+      )
+    ).toBe(true);
+  });
+
+  it('should push to every browser and drop subscriptions that are gone', async () => {
+    const repository = {
+      findByUserId: jest.fn(async () => [
+        subscription,
+        { ...subscription, id: 4, endpoint: 'https://push.example.com/gone' },
+      ]),
+      markUsed: jest.fn(async () => undefined),
+      delete: jest.fn(async () => undefined),
+    };
+    const http = {
+      post: jest.fn(async (endpoint: string) => ({ status: endpoint.endsWith('/gone') ? 410 : 201 })),
+    };
+    const pushService = new WebPushService(repository as unknown as PushSubscriptionRepository, {
+      http: http as unknown as AxiosInstance,
+      vapid,
+    });
+
+    const sent = await pushService.sendToUser(RUNNER_ID, { title: 'New job', body: 'Job 7', url: '/jobs/7' });
+
+    expect(sent).toBe(1);
+    expect(repository.markUsed).toHaveBeenCalledWith(3);
+    expect(repository.delete).toHaveBeenCalledWith(4);
+
+    const [endpoint, body, config] = http.post.mock.calls[0] as unknown as [string, Buffer, any];
+    expect(endpoint).toBe(subscription.endpoint);
+    expect(config.headers['Content-Encoding']).toBe('aes128gcm');
+    expect(JSON.parse(decrypt(body))).toEqual({ title: 'New job', body: 'Job 7', url: '/jobs/7' });
+  });
+
+  it('should refuse subscriptions with malformed keys', async () => {
+    const pushService = new WebPushService({ save: jest.fn() } as unknown as PushSubscriptionRepository, { vapid });
+
+    await expect(
+      pushService.subscribe(RUNNER_ID, {
+        endpoint: subscription.endpoint,
+        keys: { p256dh: 'abc', auth: subscription.auth },
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_PUSH_SUBSCRIPTION' });
+    await expect(
+      pushService.subscribe(RUNNER_ID, {
+        endpoint: 'http://push.example.com/send/abc',
+        keys: { p256dh: subscription.p256dh, auth: subscription.auth },
+      })
+    ).rejects.toMatchObject({ code: 'INVALID_PUSH_SUBSCRIPTION' });
+  });
+});
@@ -0,0 +1,139 @@
+/**
+ * SessionService Unit Tests
+ * Refresh token rotation, reuse detection, session list and remote logout
+ */
+
+import crypto from 'crypto';
+import { SessionService } from '../../services/auth/SessionService.js';
+import type { SessionRepository } from '../../database/repositories/SessionRepository.js';
+import type { SecurityAuditRepository } from '../../database/repositories/SecurityAuditRepository.js';
+import type { TokenService } from '../../services/auth/TokenService.js';
+
+const hash = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+const session = (overrides: Record<string, unknown> = {}) => ({
+  id: 5,
+  user_id: 42,
+  role: 'client',
+  expires_at: new Date(Date.now() + 60_000),
+  last_used_at: new Date(),
+  revoked_at: null,
+  revoked_reason: null,
+  created_at: new Date(),
+  ...overrides,
+});
+
+describe('SessionService', () => {
+  let sessionRepository: Record<string, jest.Mock>;
+  let auditRepository: Record<string, jest.Mock>;
+  let tokenService: Record<string, jest.Mock>;
+  let service: SessionService;
+
+  const client = { ipAddress: '203.0.113.7', userAgent: 'Mozilla/5.0 (iPhone)' };
+
+  beforeEach(() => {
+    sessionRepository = {
+      create: jest.fn(async () => session()),
+      findById: jest.fn(async () => session()),
+      findActiveForUser: jest.fn(async () => []),
+      touch: jest.fn(async () => session()),
+      revoke: jest.fn(async () => true),
+      revokeAllForUser: jest.fn(async () => 3),
+      addRefreshToken: jest.fn(),
+      useRefreshToken: jest.fn(async () => 5),
+      findRefreshToken: jest.fn(async () => null),
+    };
+    auditRepository = { log: jest.fn() };
+    tokenService = { generate: jest.fn(() => 'access-token') };
+
+    service = new SessionService(
+      sessionRepository as unknown as SessionRepository,
+      auditRepository as unknown as SecurityAuditRepository,
+      tokenService as unknown as TokenService
+    );
+  });
+
+  it('should open a session with an access token bound to it and store only the refresh token hash', async () => {
+    const result = await service.start(42, 'client', client);
+
+    expect(result).toMatchObject({ token: 'access-token', sessionId: 5 });
+    expect(tokenService['generate']).toHaveBeenCalledWith({ userId: 42, role: 'client', sessionId: 5 });
+    expect(sessionRepository['addRefreshToken']).toHaveBeenCalledWith(5, hash(result.refreshToken));
+    expect(auditRepository['log']).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'session_created', details: { session_id: 5 }, ...client })
+    );
+  });
+
+  it('should rotate the refresh token and extend the session', async () => {
+    const result = await service.refresh('old-token', client);
+
+    expect(sessionRepository['useRefreshToken']).toHaveBeenCalledWith(hash('old-token'));
+    expect(result.refreshToken).not.toBe('old-token');
+    expect(sessionRepository['addRefreshToken']).toHaveBeenCalledWith(5, hash(result.refreshToken));
+    expect(sessionRepository['touch']).toHaveBeenCalledWith(5, expect.any(Date));
+  });
+
+  it('should reissue the token with the role the user has now', async () => {
+    sessionRepository['findById']!.mockResolvedValue(session({ role: 'client' }));
+    sessionRepository['touch']!.mockResolvedValue(session({ role: 'runner' }));
+
+    await service.refresh('old-token', client);
+
+    expect(tokenService['generate']).toHaveBeenCalledWith({ userId: 42, role: 'runner', sessionId: 5 });
+  });
+
+  it('should end the session when a used refresh token comes back', async () => {
+    sessionRepository['useRefreshToken']!.mockResolvedValue(null);
+    sessionRepository['findRefreshToken']!.mockResolvedValue({ session_id: 5, user_id: 42, used_at: new Date() });
+
+    await expect(service.refresh('stolen-token', client)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REUSED' });
+
+    expect(sessionRepository['revoke']).toHaveBeenCalledWith(5, 'reuse');
+    expect(auditRepository['log']).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'refresh_token_reused', success: false })
+    );
+    expect(tokenService['generate']).not.toHaveBeenCalled();
+  });
+
+  it('should refuse unknown tokens and tokens of ended sessions', async () => {
+    sessionRepository['useRefreshToken']!.mockResolvedValueOnce(null);
+    await expect(service.refresh('unknown')).rejects.toMatchObject({ code: 'REFRESH_TOKEN_INVALID' });
+    expect(sessionRepository['revoke']).not.toHaveBeenCalled();
+
+    sessionRepository['findById']!.mockResolvedValueOnce(session({ revoked_at: new Date() }));
+    await expect(service.refresh('token')).rejects.toMatchObject({ code: 'SESSION_ENDED' });
+
+    await expect(service.refresh(undefined)).rejects.toMatchObject({ code: 'REFRESH_TOKEN_REQUIRED' });
+  });
+
+  it('should list sessions with their device and mark the current one', async () => {
+    sessionRepository['findActiveForUser']!.mockResolvedValue([
+      { ...session(), ip_address: '203.0.113.7', user_agent: 'Mozilla/5.0 (iPhone)' },
+      { ...session({ id: 6 }), ip_address: null, user_agent: null },
+    ]);
+
+    const sessions = await service.listSessions(42, 6);
+
+    expect(sessions.map((s) => [s.id, s.current, s.ipAddress])).toEqual([
+      [5, false, '203.0.113.7'],
+      [6, true, null],
+    ]);
+  });
+
+  it('should only revoke the user own sessions', async () => {
+    await service.revokeSession(42, 5, client);
+    expect(sessionRepository['revoke']).toHaveBeenCalledWith(5, 'revoked', 42);
+
+    sessionRepository['revoke']!.mockResolvedValue(false);
+    await expect(service.revokeSession(42, 99)).rejects.toMatchObject({ code: 'SESSION_NOT_FOUND' });
+  });
+
+  it('should log out everywhere and through a refresh token', async () => {
+    await expect(service.revokeAllSessions(42, client)).resolves.toBe(3);
+    expect(sessionRepository['revokeAllForUser']).toHaveBeenCalledWith(42, 'revoked');
+
+    sessionRepository['findRefreshToken']!.mockResolvedValue({ session_id: 5, user_id: 42, used_at: null });
+    await service.logout('token');
+    expect(sessionRepository['revoke']).toHaveBeenCalledWith(5, 'logout');
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * TipService Unit Tests
+ * Tipping by platform invoice and straight to the runner's Lightning address
+ */
+
+jest.mock('../../services/PayoutService.js', () => ({
+  payoutService: {},
+}));
+
+jest.mock('../../utils/lightning.js', () => ({
+  ...jest.requireActual('../../utils/lightning.js'),
+  decodeLightningInvoice: () => ({ expiresAt: new Date(Date.now() + 3600 * 1000) }),
+}));
+
+import crypto from 'crypto';
+import { TipService } from '../../services/tip/TipService.js';
+import { RealLightningService } from '../../services/lightning/RealLightningService.js';
+import { FakeLightningBackend } from '../../services/lightning/backends/FakeLightningBackend.js';
+import { PriceOracle } from '../../services/pricing/PriceOracle.js';
+import { FixedPriceSource } from '../../services/pricing/PriceSource.js';
+import { realtimeService } from '../../services/realtime/RealtimeService.js';
+import type {
+  CreatePriceSnapshotDto,
+  PriceSnapshotRepository,
+} from '../../database/repositories/PriceSnapshotRepository.js';
+import type { CreateTipDto, JobTip, TipRepository } from '../../database/repositories/TipRepository.js';
+import type { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import type { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import type { LnurlPayClient } from '../../services/lightning/LnurlPayClient.js';
+import type { PayoutService } from '../../services/PayoutService.js';
+import type { LedgerService } from '../../services/ledger/LedgerService.js';
+
+/**
+ * In-memory stand-in for TipRepository
+ */
+class InMemoryTipRepository {
+  tips: JobTip[] = [];
+
+  async findById(id: number) {
+    return this.tips.find((t) => t.id === id) ?? null;
+  }
+
+  async findByJobId(jobId: number) {
+    return this.tips.filter((t) => t.job_id === jobId);
+  }
+
+  async create(data: CreateTipDto) {
+    const tip: JobTip = {
+      id: this.tips.length + 1,
+      job_id: data.jobId,
+      client_id: data.clientId,
+      runner_id: data.runnerId,
+      method: data.method,
+      amount_sats: data.amountSats,
+      amount_cents: data.amountCents,
+      price_snapshot_id: data.priceSnapshotId,
+      message: data.message,
+      payment_hash: data.paymentHash,
+      payment_request: data.paymentRequest,
+      verify_url: data.verifyUrl,
+      payment_preimage: null,
+      status: 'pending',
+      expires_at: data.expiresAt,
+      paid_at: null,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.tips.push(tip);
+    return tip;
+  }
+
+  async markPaid(id: number, preimage: string | null) {
+    const tip = this.tips.find((t) => t.id === id);
+    if (!tip || tip.status !== 'pending') {
+      return null;
+    }
+    Object.assign(tip, { status: 'paid', paid_at: new Date(), payment_preimage: preimage ?? tip.payment_preimage });
+    return { ...tip };
+  }
+
+  async markExpired(id: number) {
+    const tip = this.tips.find((t) => t.id === id);
+    if (!tip || tip.status !== 'pending') {
+      return null;
+    }
+    tip.status = 'expired';
+    return { ...tip };
+  }
+}
+
+function buildJob(overrides: Partial<Job> = {}): Job {
+  return {
+    id: 1,
+    client_id: 10,
+    runner_id: 20,
+    title: 'Pick up groceries',
+    description: 'Weekly groceries from the market',
+    price_cents: 2500,
+    location: null,
+    address: null,
+    status: 'payment_confirmed',
+    deadline: null,
+    created_at: new Date(),
+    updated_at: new Date(),
+    accepted_at: new Date(),
+    completed_at: new Date(),
+    payment_confirmed_at: new Date(),
+    category: null,
+    fedi_community_id: null,
+    ...overrides,
+  };
+}
+
+const PREIMAGE = 'ab'.repeat(32);
+const PAYMENT_HASH = crypto.createHash('sha256').update(Buffer.from(PREIMAGE, 'hex')).digest('hex');
+
+describe('TipService', () => {
+  let job: Job;
+  let tipRepository: InMemoryTipRepository;
+  let lightning: RealLightningService;
+  let lnurlPay: { fetchInvoice: jest.Mock; verify: jest.Mock };
+  let payouts: { enqueueTipPayout: jest.Mock; recordDirectTip: jest.Mock };
+  let ledger: { recordInvoiceSettled: jest.Mock };
+  let publish: jest.SpyInstance;
+  let service: TipService;
+
+  beforeEach(() => {
+    job = buildJob();
+    tipRepository = new InMemoryTipRepository();
+    lightning = new RealLightningService(new FakeLightningBackend());
+    lnurlPay = {
+      fetchInvoice: jest.fn(async (_address: string, amountSats: number) => ({
+        paymentRequest: 'lnbc1runnerwallet',
+        paymentHash: PAYMENT_HASH,
+        amountSats,
+        successAction: null,
+        verifyUrl: 'https://wallet.example.com/verify/1',
+      })),
+      verify: jest.fn(async () => ({ settled: false, preimage: null })),
+    };
+    payouts = { enqueueTipPayout: jest.fn(), recordDirectTip: jest.fn() };
+    ledger = { recordInvoiceSettled: jest.fn() };
+    const snapshotRepository = {
+      create: jest.fn(async (data: CreatePriceSnapshotDto) => ({
+        id: 11,
+        currency: data.currency,
+        btc_price: data.btcPrice,
+        sources: data.sources,
+        fetched_at: data.fetchedAt,
+        created_at: new Date(),
+      })),
+    };
+    publish = jest.spyOn(realtimeService, 'publish').mockImplementation(() => undefined);
+
+    service = new TipService(
+      tipRepository as unknown as TipRepository,
+      { findById: jest.fn(async () => job) } as unknown as JobRepository,
+      { findByUserId: jest.fn(async () => ({ lightning_address: 'runner@wallet.example.com' })) } as unknown as RunnerRepository,
+      lightning,
+      lnurlPay as unknown as LnurlPayClient,
+      new PriceOracle(
+        [new FixedPriceSource({ USD: 50000 })],
+        snapshotRepository as unknown as PriceSnapshotRepository
+      ),
+      payouts as unknown as PayoutService,
+      ledger as unknown as LedgerService
+    );
+  });
+
+  afterEach(() => {
+    publish.mockRestore();
+  });
+
+  describe('createTip', () => {
+    it('should issue a platform invoice for the tip amount', async () => {
+      const tip = await service.createTip(job.id, job.client_id, { amountCents: 500, method: 'invoice', message: 'Thanks!' });
+
+      expect(tip.status).toBe('pending');
+      expect(tip.amountSats).toBe(10000); // $5 at $50,000/BTC
+      expect(tip.paymentRequest).toBeTruthy();
+      expect(tipRepository.tips[0]).toMatchObject({ runner_id: 20, price_snapshot_id: 11, message: 'Thanks!' });
+    });
+
+    it('should only allow tips once the payment is confirmed', async () => {
+      job = buildJob({ status: 'awaiting_payment' });
+
+      await expect(
+        service.createTip(job.id, job.client_id, { amountCents: 500, method: 'invoice' })
+      ).rejects.toMatchObject({ code: 'INVALID_JOB_STATUS' });
+    });
+
+    it('should only allow the client to tip', async () => {
+      await expect(
+        service.createTip(job.id, job.runner_id!, { amountCents: 500, method: 'invoice' })
+      ).rejects.toMatchObject({ code: 'NOT_JOB_CLIENT' });
+    });
+
+    it('should reject amounts outside the allowed range', async () => {
+      await expect(
+        service.createTip(job.id, job.client_id, { amountCents: 1, method: 'invoice' })
+      ).rejects.toMatchObject({ code: 'INVALID_TIP_AMOUNT' });
+    });
+  });
+
+  describe('invoice tips', () => {
+    it('should post the tip to the ledger and queue it for payout once, after the invoice is paid', async () => {
+      const tip = await service.createTip(job.id, job.client_id, { amountCents: 500, method: 'invoice' });
+
+      expect((await service.getTip(tip.id, job.client_id)).status).toBe('pending');
+      await lightning.sendPayment(tip.paymentRequest!);
+
+      const paid = await service.getTip(tip.id, job.client_id);
+      await service.getTip(tip.id, job.runner_id!);
+
+      expect(paid.status).toBe('paid');
+      expect(paid.paymentRequest).toBeNull();
+      expect(ledger.recordInvoiceSettled).toHaveBeenCalledTimes(1);
+      expect(ledger.recordInvoiceSettled).toHaveBeenCalledWith({
+        paymentHash: tip.paymentHash,
+        jobId: job.id,
+        clientId: job.client_id,
+        amountSats: 10000,
+      });
+      expect(payouts.enqueueTipPayout).toHaveBeenCalledTimes(1);
+      expect(payouts.recordDirectTip).not.toHaveBeenCalled();
+      expect(publish).toHaveBeenCalledWith([job.runner_id], 'tip.received', expect.objectContaining({ tipId: tip.id }));
+    });
+
+    it('should expire a tip that was never paid', async () => {
+      const tip = await service.createTip(job.id, job.client_id, { amountCents: 500, method: 'invoice' });
+      tipRepository.tips[0]!.expires_at = new Date(Date.now() - 1000);
+
+      expect((await service.getTip(tip.id, job.client_id)).status).toBe('expired');
+      expect(payouts.enqueueTipPayout).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Lightning address tips', () => {
+    it('should record the tip as paid to the runner when the client shows the preimage', async () => {
+      const tip = await service.createTip(job.id, job.client_id, {
+        amountCents: 500,
+        method: 'lightning_address',
+        message: 'Great job',
+      });
+
+      expect(lnurlPay.fetchInvoice).toHaveBeenCalledWith('runner@wallet.example.com', 10000, 'Great job');
+      expect(tip.paymentRequest).toBe('lnbc1runnerwallet');
+
+      const paid = await service.confirmTip(tip.id, job.client_id, PREIMAGE);
+
+      expect(paid.status).toBe('paid');
+      expect(payouts.recordDirectTip).toHaveBeenCalledWith(expect.objectContaining({ id: tip.id, payment_preimage: PREIMAGE }));
+      expect(ledger.recordInvoiceSettled).not.toHaveBeenCalled();
+    });
+
+    it('should reject a preimage that does not match the invoice', async () => {
+      const tip = await service.createTip(job.id, job.client_id, { amountCents: 500, method: 'lightning_address' });
+
+      await expect(service.confirmTip(tip.id, job.client_id, 'cd'.repeat(32))).rejects.toMatchObject({
+        code: 'INVALID_PREIMAGE',
+      });
+      expect(payouts.recordDirectTip).not.toHaveBeenCalled();
+    });
+
+    it('should pick up a payment the runner wallet reports as settled', async () => {
+      const tip = await service.createTip(job.id, job.client_id, { amountCents: 500, method: 'lightning_address' });
+      lnurlPay.verify.mockResolvedValue({ settled: true, preimage: PREIMAGE });
+
+      expect((await service.getTip(tip.id, job.runner_id!)).status).toBe('paid');
+      expect(payouts.recordDirectTip).toHaveBeenCalledTimes(1);
+    });
+  });
+});
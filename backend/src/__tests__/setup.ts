@@ -8,6 +8,9 @@ process.env.NODE_ENV = 'test';
 process.env.JWT_SECRET = 'test-jwt-secret-key-for-testing-only';
 process.env['JWT_REFRESH_SECRET'] = 'test-refresh-secret-key-for-testing-only';
 process.env.DATABASE_URL = process.env['TEST_DATABASE_URL'] || 'postgresql://localhost:5432/errandbit_test';
+process.env['PRICE_SOURCES'] = 'fixed';
+process.env['BTC_PRICE_USD'] = '50000';
+process.env['BTC_PRICE_KES'] = '6450000';
 
 // Mock console methods to reduce noise in tests
 global.console = {
@@ -18,8 +18,17 @@ export const AUTH_CONSTANTS = {
     MAX_LENGTH: 100,
   },
   TOKEN: {
-    EXPIRES_IN: '7d',
-    REFRESH_EXPIRES_IN: '30d',
+    EXPIRES_IN: '15m', // Access tokens; renewed with the refresh token
+    REFRESH_EXPIRES_IN_MS: 30 * 24 * 60 * 60 * 1000, // Sliding: every refresh extends the session
+    REFRESH_TOKEN_BYTES: 32,
+  },
+  NOSTR: {
+    EVENT_KIND: 22242, // NIP-42 client authentication
+    CHALLENGE_TTL_MS: 5 * 60 * 1000,
+    MAX_CLOCK_SKEW_SECONDS: 60, // How far created_at may be from the server clock
+  },
+  LNURL: {
+    CHALLENGE_TTL_MS: 5 * 60 * 1000, // Time to scan the QR code and finish signing in
   },
 } as const;
 
@@ -96,6 +105,7 @@ export const PAGINATION = {
 } as const;
 
 export const JOB_CONSTANTS = {
+  CATEGORIES: ['delivery', 'shopping', 'cleaning', 'moving', 'handyman', 'other'],
   TITLE: {
     MIN_LENGTH: 3,
     MAX_LENGTH: 200,
@@ -115,7 +125,131 @@ export const JOB_CONSTANTS = {
   DEADLINE: {
     MIN_HOURS_FUTURE: 1,
     MAX_DAYS_FUTURE: 365,
+    START_WINDOW_HOURS: 24, // Accepted jobs not started by then go back to the open pool
+    SWEEP_INTERVAL_MS: 5 * 60 * 1000, // 5 minutes
+    SWEEP_BATCH_SIZE: 100,
+  },
+  STOPS: {
+    MAX_COUNT: 10,
+    ADDRESS_MAX_LENGTH: 500,
+    INSTRUCTIONS_MAX_LENGTH: 500,
+  },
+} as const;
+
+export const ESCROW_CONSTANTS = {
+  INVOICE_EXPIRY_SECONDS: 24 * 60 * 60, // 24 hours to fund an accepted job
+  AUTO_RELEASE_HOURS: 48, // Release to runner if client does not confirm delivery
+  HOLD_CLTV_EXPIRY_BLOCKS: 1008, // ~7 days for the node to settle or cancel the held HTLC
+  MAX_HOLD_HOURS: 144, // Held escrow is released or refunded by then, a day short of the CLTV window
+  RELEASE_CHECK_INTERVAL_MS: 5 * 60 * 1000, // 5 minutes; also how late held_at may be stamped
+} as const;
+
+export const LIGHTNING_CONSTANTS = {
+  BACKENDS: ['lnbits', 'lnd', 'cln', 'nwc', 'fake'],
+  REQUEST_TIMEOUT_MS: 30 * 1000,
+  PAYMENT_TIMEOUT_MS: 60 * 1000, // Outgoing payments may take several route attempts
+  NWC_REPLY_TIMEOUT_MS: 60 * 1000, // Wallet has to be online to answer over the relay
+  LNURL_TIMEOUT_MS: 10 * 1000,
+  LNURL_SUCCESS_MESSAGE_MAX_LENGTH: 144, // LUD-09
+} as const;
+
+export const PRICE_CONSTANTS = {
+  CURRENCIES: ['USD', 'KES'],
+  SOURCES: ['coinbase', 'kraken', 'coingecko', 'fixed'],
+  DEFAULT_SOURCES: ['coinbase', 'kraken', 'coingecko'],
+  REQUEST_TIMEOUT_MS: 5 * 1000,
+  CACHE_TTL_MS: 60 * 1000, // Quotes younger than this are served without refetching
+  MAX_STALENESS_MS: 15 * 60 * 1000, // Oldest quote used when every source is down
+  MAX_DEVIATION: 0.05, // Sources further than 5% from the median are ignored
+} as const;
+
+export const PAYOUT_CONSTANTS = {
+  POLL_INTERVAL_MS: 15 * 1000,
+  BATCH_SIZE: 10, // Payouts leased per poll by each replica
+  LEASE_MS: 5 * 60 * 1000, // Longer than an LNURL lookup plus a payment attempt
+  MAX_RETRIES: 8, // Failed attempts before a payout is dead-lettered
+  BACKOFF_BASE_MS: 30 * 1000, // Doubles after every failed attempt
+  BACKOFF_MAX_MS: 6 * 60 * 60 * 1000, // 6 hours
+  DEAD_LETTER_LIST_LIMIT: 100,
+} as const;
+
+export const FEE_CONSTANTS = {
+  VOLUME_WINDOW_DAYS: 30, // Jobs a runner was paid for in this window set their volume tier
+  ANY_FEDI_COMMUNITY: '*', // Override key matching every Fedi community
+  FEDI_COMMUNITY_MAX_LENGTH: 100,
+} as const;
+
+export const JOB_TEMPLATE_CONSTANTS = {
+  MAX_ACTIVE_PER_CLIENT: 20,
+  HORIZON_DAYS: 28, // Occurrences written ahead so single ones can be skipped or edited
+  DEFAULT_LEAD_HOURS: 48, // Jobs are posted this long before they are due
+  MAX_LEAD_HOURS: 14 * 24,
+  PREVIOUS_RUNNER_WINDOW_HOURS: 12, // Other runners can bid after this
+  SCHEDULER_INTERVAL_MS: 15 * 60 * 1000,
+  SCHEDULER_BATCH_SIZE: 50,
+  LIST_OCCURRENCES: 10, // Upcoming occurrences shown per template
+} as const;
+
+export const TIP_CONSTANTS = {
+  TIPPABLE_STATUSES: ['payment_confirmed', 'paid'], // Once the job payment is settled
+  METHODS: ['invoice', 'lightning_address'],
+  MIN_CENTS: 10,
+  MAX_CENTS: 50000, // $500
+  INVOICE_EXPIRY_SECONDS: 15 * 60,
+  MESSAGE_MAX_LENGTH: 280,
+} as const;
+
+export const LEDGER_CONSTANTS = {
+  RECONCILIATION_INTERVAL_MS: 60 * 60 * 1000, // 1 hour
+  DRIFT_TOLERANCE_SATS: 10, // Node balance rounding (msats) and in-flight routing fees
+} as const;
+
+export const DISPUTE_CONSTANTS = {
+  REASON: {
+    MIN_LENGTH: 10,
+    MAX_LENGTH: 2000,
+  },
+  STATEMENT: {
+    MAX_LENGTH: 2000,
   },
+  MAX_EVIDENCE_URLS: 10,
+} as const;
+
+export const OFFER_CONSTANTS = {
+  NOTE: {
+    MAX_LENGTH: 500,
+  },
+  MAX_ETA_MINUTES: 7 * 24 * 60, // One week
+} as const;
+
+export const REALTIME_CONSTANTS = {
+  HEARTBEAT_INTERVAL_MS: 25 * 1000, // Keep proxies from closing idle streams
+  RETRY_MS: 3000, // Client reconnect delay sent with each stream
+  MAX_CONNECTIONS_PER_USER: 5,
+} as const;
+
+export const TRACKING_CONSTANTS = {
+  MIN_PING_INTERVAL_MS: 5000, // Pings arriving faster are not stored
+  TRAIL_LIMIT: 200, // Most recent points returned to the client
+  FALLBACK_SPEED_KMH: 15, // ETA speed when the device reports none
+  RETENTION_AFTER_JOB_MINUTES: 60, // Trail kept this long once the job leaves in_progress
+  MAX_RETENTION_HOURS: 24, // No ping is ever kept longer than this
+  PURGE_INTERVAL_MS: 15 * 60 * 1000, // 15 minutes
+} as const;
+
+export const DELIVERY_PROOF_CONSTANTS = {
+  MAX_ATTACHMENTS: 3,
+  MAX_ATTACHMENT_BYTES: 2 * 1024 * 1024, // 2MB, keeps a full proof under the JSON body limit
+  ALLOWED_MIME_TYPES: ['image/jpeg', 'image/png', 'image/webp'],
+  ATTACHMENT_KINDS: ['photo', 'receipt'],
+  FILE_NAME_MAX_LENGTH: 255,
+  RECIPIENT_NAME_MAX_LENGTH: 100,
+  NOTE_MAX_LENGTH: 500,
+  CODE_LENGTH: 6,
+} as const;
+
+export const STORAGE_CONSTANTS = {
+  LOCAL_DIR: 'uploads', // Relative to the working directory unless UPLOAD_DIR is set
 } as const;
 
 export const RUNNER_CONSTANTS = {
@@ -134,6 +268,53 @@ export const RUNNER_CONSTANTS = {
     DEFAULT_KM: 10,
     MAX_KM: 100,
   },
+  AVAILABILITY: {
+    MAX_CONCURRENT_JOBS: 10,
+    MAX_WORKING_HOURS: 21, // Up to three blocks a day
+    MAX_TIME_OFF_DAYS: 365, // Longest single block, and how far ahead one may start
+    TIME_OFF_REASON_MAX_LENGTH: 200,
+  },
+} as const;
+
+export const MATCHING_CONSTANTS = {
+  TOP_N: 5, // Runners a job is pushed to in each wave
+  INITIAL_RADIUS_KM: 3,
+  RADIUS_GROWTH: 2, // Radius multiplier for each later wave
+  MAX_RADIUS_KM: 25,
+  WAVE_INTERVAL_MINUTES: 10, // Time an open job waits before the next, wider wave
+  MAX_WAVES: 4,
+  CANDIDATE_POOL: 50, // Closest runners scored in each wave
+  RECENT_LOAD_DAYS: 7, // Jobs a runner accepted in this window count as recent load
+  WEIGHTS: {
+    distance: 0.3,
+    category: 0.2,
+    rating: 0.2,
+    completion: 0.1,
+    availability: 0.1,
+    load: 0.1,
+  },
+  SUGGESTIONS: {
+    DEFAULT_LIMIT: 10,
+    MAX_LIMIT: 50,
+  },
+  SWEEP_INTERVAL_MS: 60 * 1000,
+  SWEEP_BATCH_SIZE: 50,
+} as const;
+
+export const SAVED_SEARCH_CONSTANTS = {
+  MAX_PER_RUNNER: 10,
+  NAME_MAX_LENGTH: 100,
+  MAX_RADIUS_KM: 50,
+  CHANNELS: ['in_app', 'email', 'push'],
+  DIGEST_TIME: '08:00', // Local time the daily digest goes out, unless it falls in quiet hours
+  ALERT_JOBS_SHOWN: 5, // Jobs listed in one alert; the rest are counted
+  SWEEP_INTERVAL_MS: 60 * 1000,
+  SWEEP_BATCH_SIZE: 50,
+  PUSH: {
+    TTL_SECONDS: 24 * 60 * 60, // How long a push service keeps an alert for an offline browser
+    VAPID_EXPIRY_HOURS: 12,
+    TIMEOUT_MS: 10000,
+  },
 } as const;
 
 export const REVIEW_CONSTANTS = {
@@ -144,6 +325,15 @@ export const REVIEW_CONSTANTS = {
   COMMENT: {
     MAX_LENGTH: 1000,
   },
+  REPLY: {
+    MAX_LENGTH: 1000,
+  },
+  REPORT_REASON: {
+    MAX_LENGTH: 500,
+  },
+  CLIENT_FLAGS: ['no_show', 'late_payment', 'no_payment'],
+  REVEAL_WINDOW_DAYS: 14, // Reviews may be written until then; hidden ones are revealed when it closes
+  REVEAL_INTERVAL_MS: 15 * 60 * 1000,
 } as const;
 
 export const VALIDATION_CONSTANTS = {
@@ -0,0 +1,190 @@
+/**
+ * Dispute Controller
+ * Handles HTTP requests for job disputes
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { DisputeService } from '../services/dispute/DisputeService.js';
+import { EscrowService } from '../services/escrow/EscrowService.js';
+import { DisputeRepository } from '../database/repositories/DisputeRepository.js';
+import { EscrowRepository } from '../database/repositories/EscrowRepository.js';
+import { JobRepository } from '../database/repositories/JobRepository.js';
+import { RunnerRepository } from '../database/repositories/RunnerRepository.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class DisputeController {
+  private disputeService: DisputeService;
+
+  constructor() {
+    const jobRepository = new JobRepository();
+    this.disputeService = new DisputeService(
+      new DisputeRepository(),
+      jobRepository,
+      new RunnerRepository(),
+      new EscrowService(new EscrowRepository(), jobRepository)
+    );
+  }
+
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to parse the dispute ID route param
+   */
+  private parseDisputeId(req: AuthenticatedRequest): number {
+    const disputeId = parseInt(req.params['id'] as string, 10);
+    if (isNaN(disputeId)) {
+      throw new ValidationError('Invalid dispute ID', 'INVALID_ID');
+    }
+    return disputeId;
+  }
+
+  /**
+   * Open a dispute on a job
+   * POST /api/disputes
+   */
+  openDispute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.user?.id);
+      const { jobId, reason, evidenceUrls } = req.body;
+
+      if (!jobId || !reason) {
+        throw new ValidationError('Job ID and reason are required', 'MISSING_FIELDS');
+      }
+
+      const dispute = await this.disputeService.openDispute({
+        jobId: parseInt(jobId, 10),
+        userId,
+        reason,
+        evidenceUrls,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: dispute,
+        message: 'Dispute opened successfully',
+      });
+    } catch (error) {
+      logger.error('Error opening dispute', { error, body: req.body });
+      throw error;
+    }
+  };
+
+  /**
+   * List unresolved disputes
+   * GET /api/disputes
+   */
+  listOpenDisputes = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const limit = req.query['limit'] ? parseInt(req.query['limit'] as string, 10) : 20;
+      const offset = req.query['offset'] ? parseInt(req.query['offset'] as string, 10) : 0;
+
+      const disputes = await this.disputeService.listOpenDisputes(limit, offset);
+
+      res.status(200).json({
+        success: true,
+        data: disputes,
+      });
+    } catch (error) {
+      logger.error('Error listing disputes', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * Get dispute with timeline
+   * GET /api/disputes/:id
+   */
+  getDispute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const disputeId = this.parseDisputeId(req);
+      const userId = this.ensureUserId(req.user?.id);
+
+      const dispute = await this.disputeService.getDispute(
+        disputeId,
+        userId,
+        req.user?.role === 'admin'
+      );
+
+      res.status(200).json({
+        success: true,
+        data: dispute,
+      });
+    } catch (error) {
+      logger.error('Error fetching dispute', { error, disputeId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Add a statement to a dispute
+   * POST /api/disputes/:id/statements
+   */
+  addStatement = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const disputeId = this.parseDisputeId(req);
+      const userId = this.ensureUserId(req.user?.id);
+      const { body, evidenceUrls } = req.body;
+
+      const statement = await this.disputeService.addStatement({
+        disputeId,
+        userId,
+        isAdmin: req.user?.role === 'admin',
+        body,
+        evidenceUrls,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: statement,
+        message: 'Statement added successfully',
+      });
+    } catch (error) {
+      logger.error('Error adding dispute statement', { error, disputeId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Resolve a dispute
+   * POST /api/disputes/:id/resolve
+   */
+  resolveDispute = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const disputeId = this.parseDisputeId(req);
+      const adminId = this.ensureUserId(req.user?.id);
+      const { resolution, runnerAmountCents, notes } = req.body;
+
+      if (!resolution) {
+        throw new ValidationError('Resolution is required', 'MISSING_FIELDS');
+      }
+
+      const dispute = await this.disputeService.resolveDispute({
+        disputeId,
+        adminId,
+        resolution,
+        runnerAmountCents:
+          runnerAmountCents !== undefined ? parseInt(runnerAmountCents, 10) : undefined,
+        notes,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: dispute,
+        message: 'Dispute resolved successfully',
+      });
+    } catch (error) {
+      logger.error('Error resolving dispute', { error, disputeId: req.params['id'] });
+      throw error;
+    }
+  };
+}
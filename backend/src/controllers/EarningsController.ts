@@ -30,7 +30,10 @@ export class EarningsController {
           totalPayouts: parseInt(summary.total_payouts || '0'),
           totalEarnedCents: parseInt(summary.total_earned_cents || '0'),
           totalEarnedSats: parseInt(summary.total_earned_sats || '0'),
-          pendingCents: parseInt(summary.pending_cents || '0')
+          pendingCents: parseInt(summary.pending_cents || '0'),
+          totalTips: parseInt(summary.total_tips || '0'),
+          totalTipsCents: parseInt(summary.total_tips_cents || '0'),
+          totalTipsSats: parseInt(summary.total_tips_sats || '0')
         }
       });
     } catch (error: any) {
@@ -64,6 +67,7 @@ export class EarningsController {
           id: item.id,
           jobId: item.job_id,
           jobTitle: item.job_title,
+          kind: item.kind,
           amountCents: item.amount_cents,
           amountSats: item.amount_sats,
           platformFeeCents: item.platform_fee_cents,
@@ -75,7 +79,9 @@ export class EarningsController {
           paymentHash: item.payment_hash,
           createdAt: item.created_at,
           completedAt: item.completed_at,
-          errorMessage: item.error_message
+          errorMessage: item.error_message,
+          retryCount: item.retry_count,
+          nextAttemptAt: item.next_attempt_at
         }))
       });
     } catch (error: any) {
@@ -89,7 +95,7 @@ export class EarningsController {
 
   /**
    * POST /api/earnings/:id/retry
-   * Retry failed payout
+   * Move a failed payout to the front of the payout queue
    */
   retryPayout = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -111,17 +117,19 @@ export class EarningsController {
         return;
       }
 
-      const success = await payoutService.processPayout(earningId);
+      const earning = await payoutService.retryPayout(earningId);
 
-      if (success) {
-        res.status(200).json({
+      if (earning) {
+        res.status(202).json({
           success: true,
-          message: 'Payout processed successfully'
+          data: { id: earning.id, status: earning.status, nextAttemptAt: earning.next_attempt_at },
+          message: 'Payout queued for retry'
         });
       } else {
-        res.status(400).json({
+        res.status(409).json({
           success: false,
-          message: 'Payout processing failed'
+          error: 'Payout cannot be retried',
+          message: 'Only failed payouts that never reached the Lightning node can be retried'
         });
       }
     } catch (error: any) {
@@ -132,6 +140,73 @@ export class EarningsController {
       });
     }
   };
+
+  /**
+   * GET /api/earnings/dead-letter
+   * List payouts the queue gave up on (admin)
+   */
+  getDeadLetters = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const limit = parseInt(req.query['limit'] as string) || undefined;
+      const deadLetters = await payoutService.getDeadLetters(limit);
+
+      res.status(200).json({
+        success: true,
+        data: deadLetters.map((item) => ({
+          id: item.id,
+          runnerId: item.runner_id,
+          jobId: item.job_id,
+          jobTitle: item.job_title,
+          netAmountCents: item.net_amount_cents,
+          netAmountSats: item.net_amount_sats,
+          lightningAddress: item.lightning_address,
+          paymentHash: item.payment_hash,
+          paymentRequest: item.payment_request,
+          retryCount: item.retry_count,
+          errorMessage: item.error_message,
+          createdAt: item.created_at,
+          deadAt: item.dead_at
+        }))
+      });
+    } catch (error: any) {
+      logger.error('Error fetching dead-lettered payouts', { error: error.message });
+      res.status(500).json({
+        error: 'Failed to fetch dead-lettered payouts',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * POST /api/earnings/:id/requeue
+   * Put a dead-lettered payout back on the queue with fresh retries (admin)
+   */
+  requeueDeadLetter = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const earningId = parseInt(req.params['id'] || '0');
+      const earning = await payoutService.requeueDeadLetter(earningId);
+
+      if (earning) {
+        res.status(202).json({
+          success: true,
+          data: { id: earning.id, status: earning.status, nextAttemptAt: earning.next_attempt_at },
+          message: 'Payout requeued'
+        });
+      } else {
+        res.status(409).json({
+          success: false,
+          error: 'Payout cannot be requeued',
+          message: 'Only failed or dead-lettered payouts can be requeued'
+        });
+      }
+    } catch (error: any) {
+      logger.error('Error requeueing payout', { error: error.message });
+      res.status(500).json({
+        error: 'Failed to requeue payout',
+        message: error.message
+      });
+    }
+  };
 }
 
 export const earningsController = new EarningsController();
@@ -0,0 +1,77 @@
+/**
+ * Fee Controller
+ * Handles HTTP requests for platform fee previews
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { feeService } from '../services/fees/FeeService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class FeeController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Preview the fee of a job before it is posted
+   * GET /api/fees/preview?priceCents=&category=&fediCommunityId=
+   */
+  previewFee = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const priceCents = Number(req.query['priceCents']);
+      if (!Number.isInteger(priceCents) || priceCents <= 0) {
+        throw new ValidationError('Price must be a positive number of cents', 'INVALID_PRICE');
+      }
+
+      const category = req.query['category'];
+      const fediCommunityId = req.query['fediCommunityId'];
+      const quote = await feeService.quote({
+        priceCents,
+        category: typeof category === 'string' ? category : null,
+        fediCommunityId: typeof fediCommunityId === 'string' ? fediCommunityId : null,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      logger.error('Error previewing fee', { error, query: req.query });
+      throw error;
+    }
+  };
+
+  /**
+   * Fee the platform keeps from a job's payout
+   * GET /api/jobs/:id/fee
+   */
+  getJobFee = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+      const userId = this.ensureUserId(req.user?.id);
+
+      const quote = await feeService.quoteForJob(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: quote,
+      });
+    } catch (error) {
+      logger.error('Error fetching job fee', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+}
+
+export const feeController = new FeeController();
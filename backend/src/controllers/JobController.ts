@@ -8,16 +8,38 @@ import type { AuthenticatedRequest } from '../types/index.js';
 import { JobService } from '../services/job/JobService.js';
 import { JobRepository } from '../database/repositories/JobRepository.js';
 import { UserRepository } from '../database/repositories/UserRepository.js';
+import { EscrowRepository } from '../database/repositories/EscrowRepository.js';
+import { JobStatusHistoryRepository } from '../database/repositories/JobStatusHistoryRepository.js';
+import { JobStopRepository } from '../database/repositories/JobStopRepository.js';
+import { EscrowService } from '../services/escrow/EscrowService.js';
+import { DeliveryProofService } from '../services/delivery/DeliveryProofService.js';
+import { DeliveryProofRepository } from '../database/repositories/DeliveryProofRepository.js';
+import { LocalDiskStorage } from '../services/storage/LocalDiskStorage.js';
 import { ValidationError } from '../core/errors/AppError.js';
 import logger from '../utils/logger.js';
 
 export class JobController {
   private jobService: JobService;
+  private escrowService: EscrowService;
+  private deliveryProofService: DeliveryProofService;
 
   constructor() {
     const jobRepository = new JobRepository();
     const userRepository = new UserRepository();
-    this.jobService = new JobService(jobRepository, userRepository);
+    this.escrowService = new EscrowService(new EscrowRepository(), jobRepository);
+    this.jobService = new JobService(
+      jobRepository,
+      userRepository,
+      new JobStatusHistoryRepository(),
+      new JobStopRepository(),
+      this.escrowService
+    );
+    this.deliveryProofService = new DeliveryProofService(
+      new DeliveryProofRepository(),
+      jobRepository,
+      this.jobService,
+      new LocalDiskStorage()
+    );
   }
 
   /**
@@ -53,6 +75,29 @@ export class JobController {
         };
       }
 
+      // Legacy pickup/dropoff pair becomes a two-stop route
+      let stops = req.body.stops;
+      if (!stops && location && req.body.dropoff_lat && req.body.dropoff_lng) {
+        stops = [
+          {
+            kind: 'pickup',
+            lat: location.lat,
+            lng: location.lng,
+            address: req.body.pickup_address || req.body.address,
+          },
+          {
+            kind: 'dropoff',
+            lat: req.body.dropoff_lat,
+            lng: req.body.dropoff_lng,
+            address: req.body.dropoff_address,
+          },
+        ];
+      }
+
+      if (stops !== undefined && !Array.isArray(stops)) {
+        throw new ValidationError('Stops must be a list', 'INVALID_STOPS');
+      }
+
       const jobData = {
         clientId,
         title: req.body.title,
@@ -61,6 +106,9 @@ export class JobController {
         location,
         address: req.body.pickup_address || req.body.address,
         deadline: req.body.deadline,
+        category: req.body.category,
+        fediCommunityId: req.body.fediCommunityId,
+        stops,
       };
 
       const job = await this.jobService.createJob(jobData);
@@ -190,10 +238,10 @@ export class JobController {
   };
 
   /**
-   * Assign runner to job
-   * POST /api/jobs/:id/assign
+   * Start job
+   * POST /api/jobs/:id/start
    */
-  assignRunner = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  startJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const jobId = parseInt(req.params['id'] as string, 10);
       const runnerId = this.ensureUserId(req.user?.id);
@@ -202,45 +250,48 @@ export class JobController {
         throw new ValidationError('Invalid job ID', 'INVALID_ID');
       }
 
-      const updatedJob = await this.jobService.assignRunner(jobId, runnerId);
+      const updatedJob = await this.jobService.startJob(jobId, runnerId);
 
-      logger.info('Runner assigned to job', { jobId, runnerId });
+      logger.info('Job started', { jobId, runnerId });
 
       res.status(200).json({
         success: true,
         data: updatedJob,
-        message: 'Runner assigned successfully',
+        message: 'Job started successfully',
       });
     } catch (error) {
-      logger.error('Error assigning runner', { error, jobId: req.params['id'] });
+      logger.error('Error starting job', { error, jobId: req.params['id'] });
       throw error;
     }
   };
 
   /**
-   * Start job
-   * POST /api/jobs/:id/start
+   * Check off a stop
+   * POST /api/jobs/:id/stops/:stopId/complete
    */
-  startJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  completeStop = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const jobId = parseInt(req.params['id'] as string, 10);
+      const stopId = parseInt(req.params['stopId'] as string, 10);
       const runnerId = this.ensureUserId(req.user?.id);
 
-      if (isNaN(jobId)) {
-        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      if (isNaN(jobId) || isNaN(stopId)) {
+        throw new ValidationError('Invalid job or stop ID', 'INVALID_ID');
       }
 
-      const updatedJob = await this.jobService.startJob(jobId, runnerId);
-
-      logger.info('Job started', { jobId, runnerId });
+      const stop = await this.jobService.completeStop(jobId, stopId, runnerId);
 
       res.status(200).json({
         success: true,
-        data: updatedJob,
-        message: 'Job started successfully',
+        data: stop,
+        message: 'Stop completed',
       });
     } catch (error) {
-      logger.error('Error starting job', { error, jobId: req.params['id'] });
+      logger.error('Error completing stop', {
+        error,
+        jobId: req.params['id'],
+        stopId: req.params['stopId'],
+      });
       throw error;
     }
   };
@@ -258,7 +309,18 @@ export class JobController {
         throw new ValidationError('Invalid job ID', 'INVALID_ID');
       }
 
-      const updatedJob = await this.jobService.completeJob(jobId, runnerId);
+      const { attachments, recipientName, deliveryCode, note } = req.body ?? {};
+
+      if (attachments !== undefined && !Array.isArray(attachments)) {
+        throw new ValidationError('Attachments must be a list', 'INVALID_ATTACHMENTS');
+      }
+
+      const updatedJob = await this.deliveryProofService.completeJob(jobId, runnerId, {
+        attachments,
+        recipientName,
+        deliveryCode: deliveryCode !== undefined && deliveryCode !== null ? String(deliveryCode) : undefined,
+        note,
+      });
 
       logger.info('Job completed', { jobId, runnerId });
 
@@ -273,6 +335,88 @@ export class JobController {
     }
   };
 
+  /**
+   * Issue the job's one-time delivery code
+   * POST /api/jobs/:id/delivery-code
+   */
+  issueDeliveryCode = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const clientId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const code = await this.deliveryProofService.issueDeliveryCode(jobId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: code,
+      });
+    } catch (error) {
+      logger.error('Error issuing delivery code', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Get proof of delivery
+   * GET /api/jobs/:id/proof
+   */
+  getDeliveryProof = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const proof = await this.deliveryProofService.getProof(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: proof,
+      });
+    } catch (error) {
+      logger.error('Error fetching delivery proof', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Download a proof of delivery attachment
+   * GET /api/jobs/:id/proof/attachments/:attachmentId
+   */
+  getDeliveryAttachment = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const attachmentId = parseInt(req.params['attachmentId'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId) || isNaN(attachmentId)) {
+        throw new ValidationError('Invalid job or attachment ID', 'INVALID_ID');
+      }
+
+      const file = await this.deliveryProofService.getAttachment(jobId, attachmentId, userId);
+
+      res
+        .status(200)
+        .type(file.mimeType)
+        .set('Cache-Control', 'private, max-age=300')
+        .set('Content-Disposition', `inline; filename="${encodeURIComponent(file.fileName)}"`)
+        .send(file.content);
+    } catch (error) {
+      logger.error('Error fetching delivery attachment', {
+        error,
+        jobId: req.params['id'],
+        attachmentId: req.params['attachmentId'],
+      });
+      throw error;
+    }
+  };
+
   /**
    * Cancel job
    * POST /api/jobs/:id/cancel
@@ -301,6 +445,84 @@ export class JobController {
     }
   };
 
+  /**
+   * Get job status history
+   * GET /api/jobs/:id/history
+   */
+  getJobHistory = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const history = await this.jobService.getJobHistory(jobId, userId, req.user?.role === 'admin');
+
+      res.status(200).json({
+        success: true,
+        data: history,
+      });
+    } catch (error) {
+      logger.error('Error fetching job history', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Get escrow invoice and status for a job
+   * GET /api/jobs/:id/escrow
+   */
+  getEscrow = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const escrow = await this.escrowService.getEscrowForJob(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: escrow,
+      });
+    } catch (error) {
+      logger.error('Error fetching escrow', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Confirm delivery and release escrow to runner
+   * POST /api/jobs/:id/confirm-delivery
+   */
+  confirmDelivery = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const clientId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const escrow = await this.escrowService.confirmDelivery(jobId, clientId);
+
+      logger.info('Delivery confirmed, escrow released', { jobId, clientId });
+
+      res.status(200).json({
+        success: true,
+        data: escrow,
+        message: 'Delivery confirmed, payment released to runner',
+      });
+    } catch (error) {
+      logger.error('Error confirming delivery', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
   /**
    * Search jobs
    * GET /api/jobs/search
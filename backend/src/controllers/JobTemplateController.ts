@@ -0,0 +1,316 @@
+/**
+ * Job Template Controller
+ * Handles HTTP requests for recurring errands and their occurrences
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import {
+  JobTemplateChanges,
+  JobTemplateInput,
+  OccurrenceChanges,
+  jobTemplateService,
+} from '../services/job/JobTemplateService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class JobTemplateController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to parse a numeric route parameter
+   */
+  private parseId(value: string | undefined, label: string): number {
+    const id = parseInt(value as string, 10);
+    if (isNaN(id)) {
+      throw new ValidationError(`Invalid ${label} ID`, 'INVALID_ID');
+    }
+    return id;
+  }
+
+  /**
+   * Helper to parse an ISO date from the request body
+   */
+  private parseDate(value: unknown, label: string): Date {
+    const date = typeof value === 'string' || typeof value === 'number' ? new Date(value) : new Date(NaN);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${label} must be a valid date`, 'INVALID_DATE');
+    }
+    return date;
+  }
+
+  /**
+   * Helper to read template fields from the request body
+   * Fields that are not sent are left undefined
+   */
+  private parseTemplate(body: any): JobTemplateChanges {
+    const {
+      title,
+      description,
+      priceCents,
+      category,
+      fediCommunityId,
+      location,
+      address,
+      stops,
+      rrule,
+      timezone,
+      startsAt,
+      leadHours,
+      preferPreviousRunner,
+    } = body;
+
+    return {
+      title,
+      description,
+      priceCents: priceCents !== undefined ? Number(priceCents) : undefined,
+      category,
+      fediCommunityId,
+      location,
+      address,
+      stops,
+      rrule,
+      timezone,
+      startsAt: startsAt !== undefined ? this.parseDate(startsAt, 'Start time') : undefined,
+      leadHours: leadHours !== undefined ? Number(leadHours) : undefined,
+      preferPreviousRunner: preferPreviousRunner !== undefined ? Boolean(preferPreviousRunner) : undefined,
+    };
+  }
+
+  /**
+   * List the client's recurring errands
+   * GET /api/job-templates
+   */
+  getTemplates = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const templates = await jobTemplateService.getTemplates(clientId);
+
+      res.status(200).json({
+        success: true,
+        data: templates,
+      });
+    } catch (error) {
+      logger.error('Error fetching recurring errands', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Create a recurring errand
+   * POST /api/job-templates
+   */
+  createTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const clientId = this.ensureUserId(req.user?.id);
+      const input = this.parseTemplate(req.body);
+
+      if (!input.title || !input.description || input.priceCents === undefined || !input.rrule || !input.startsAt) {
+        throw new ValidationError(
+          'Title, description, price, recurrence rule and start time are required',
+          'MISSING_FIELDS'
+        );
+      }
+
+      const template = await jobTemplateService.createTemplate(clientId, input as JobTemplateInput);
+
+      res.status(201).json({
+        success: true,
+        data: template,
+        message: 'Recurring errand created successfully',
+      });
+    } catch (error) {
+      logger.error('Error creating recurring errand', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Get a recurring errand
+   * GET /api/job-templates/:id
+   */
+  getTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const templateId = this.parseId(req.params['id'], 'template');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const template = await jobTemplateService.getTemplate(templateId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Error fetching recurring errand', { error, templateId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Change a recurring errand
+   * PATCH /api/job-templates/:id
+   */
+  updateTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const templateId = this.parseId(req.params['id'], 'template');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const template = await jobTemplateService.updateTemplate(templateId, clientId, this.parseTemplate(req.body));
+
+      res.status(200).json({
+        success: true,
+        data: template,
+        message: 'Recurring errand updated successfully',
+      });
+    } catch (error) {
+      logger.error('Error updating recurring errand', { error, templateId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Pause a recurring errand
+   * POST /api/job-templates/:id/pause
+   */
+  pauseTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const templateId = this.parseId(req.params['id'], 'template');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const template = await jobTemplateService.pauseTemplate(templateId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Error pausing recurring errand', { error, templateId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Resume a paused recurring errand
+   * POST /api/job-templates/:id/resume
+   */
+  resumeTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const templateId = this.parseId(req.params['id'], 'template');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const template = await jobTemplateService.resumeTemplate(templateId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+      });
+    } catch (error) {
+      logger.error('Error resuming recurring errand', { error, templateId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * End a recurring errand
+   * DELETE /api/job-templates/:id
+   */
+  endTemplate = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const templateId = this.parseId(req.params['id'], 'template');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const template = await jobTemplateService.endTemplate(templateId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: template,
+        message: 'Recurring errand ended',
+      });
+    } catch (error) {
+      logger.error('Error ending recurring errand', { error, templateId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Move an occurrence or change its title, notes or price
+   * PATCH /api/job-templates/occurrences/:occurrenceId
+   */
+  updateOccurrence = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const occurrenceId = this.parseId(req.params['occurrenceId'], 'occurrence');
+      const clientId = this.ensureUserId(req.user?.id);
+      const { scheduledFor, title, description, priceCents } = req.body;
+
+      const changes: OccurrenceChanges = {
+        scheduledFor: scheduledFor !== undefined ? this.parseDate(scheduledFor, 'Scheduled time') : undefined,
+        title,
+        description,
+        priceCents: priceCents === undefined || priceCents === null ? priceCents : Number(priceCents),
+      };
+
+      const occurrence = await jobTemplateService.updateOccurrence(occurrenceId, clientId, changes);
+
+      res.status(200).json({
+        success: true,
+        data: occurrence,
+      });
+    } catch (error) {
+      logger.error('Error updating occurrence', { error, occurrenceId: req.params['occurrenceId'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Skip an occurrence
+   * POST /api/job-templates/occurrences/:occurrenceId/skip
+   */
+  skipOccurrence = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const occurrenceId = this.parseId(req.params['occurrenceId'], 'occurrence');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const occurrence = await jobTemplateService.skipOccurrence(occurrenceId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: occurrence,
+      });
+    } catch (error) {
+      logger.error('Error skipping occurrence', { error, occurrenceId: req.params['occurrenceId'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Undo skipping an occurrence
+   * POST /api/job-templates/occurrences/:occurrenceId/restore
+   */
+  restoreOccurrence = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const occurrenceId = this.parseId(req.params['occurrenceId'], 'occurrence');
+      const clientId = this.ensureUserId(req.user?.id);
+
+      const occurrence = await jobTemplateService.restoreOccurrence(occurrenceId, clientId);
+
+      res.status(200).json({
+        success: true,
+        data: occurrence,
+      });
+    } catch (error) {
+      logger.error('Error restoring occurrence', { error, occurrenceId: req.params['occurrenceId'] });
+      throw error;
+    }
+  };
+}
+
+export const jobTemplateController = new JobTemplateController();
@@ -0,0 +1,60 @@
+/**
+ * Ledger Controller
+ * Admin views of the double-entry ledger and its reconciliation
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '../types';
+import { ledgerService, naturalBalance } from '../services/ledger/LedgerService';
+import logger from '../utils/logger';
+
+export class LedgerController {
+  /**
+   * GET /api/ledger/accounts
+   * Balance of every ledger account
+   */
+  getAccounts = async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const balances = await ledgerService.getBalances();
+
+      res.status(200).json({
+        success: true,
+        data: balances.map((account) => ({
+          id: account.account_id,
+          type: account.type,
+          userId: account.user_id,
+          balanceSats: naturalBalance(account)
+        }))
+      });
+    } catch (error: any) {
+      logger.error('Error fetching ledger accounts', { error: error.message });
+      res.status(500).json({
+        error: 'Failed to fetch ledger accounts',
+        message: error.message
+      });
+    }
+  };
+
+  /**
+   * GET /api/ledger/reconciliation
+   * Reconcile the ledger against the payout queue and the Lightning node
+   */
+  getReconciliation = async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const report = await ledgerService.reconcile();
+
+      res.status(200).json({
+        success: true,
+        data: report
+      });
+    } catch (error: any) {
+      logger.error('Error reconciling ledger', { error: error.message });
+      res.status(500).json({
+        error: 'Failed to reconcile ledger',
+        message: error.message
+      });
+    }
+  };
+}
+
+export const ledgerController = new LedgerController();
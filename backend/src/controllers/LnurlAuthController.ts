@@ -0,0 +1,80 @@
+/**
+ * LNURL Auth Controller
+ * Handles HTTP requests for signing in with a Lightning wallet
+ */
+
+import { Request, Response } from 'express';
+import { lnurlAuthService } from '../services/auth/LnurlAuthService.js';
+import { AppError } from '../core/errors/AppError.js';
+import { HTTP_STATUS } from '../config/constants.js';
+import logger from '../utils/logger.js';
+
+export class LnurlAuthController {
+  /**
+   * Get a one-time k1 and its LNURL
+   * POST /api/auth/lnurl/challenge
+   */
+  createChallenge = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const challenge = await lnurlAuthService.createChallenge();
+
+      res.status(HTTP_STATUS.CREATED).json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      logger.error('Error creating LNURL-auth challenge', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * Wallet callback; answers in the LUD-04 format wallets expect
+   * GET /api/auth/lnurl/callback
+   */
+  callback = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { k1, sig, key } = req.query;
+
+      await lnurlAuthService.verifyCallback(k1, sig, key);
+
+      res.status(HTTP_STATUS.OK).json({ status: 'OK' });
+    } catch (error) {
+      if (error instanceof AppError) {
+        res.status(error.statusCode).json({ status: 'ERROR', reason: error.message });
+        return;
+      }
+      logger.error('Error verifying LNURL-auth callback', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * Poll until the wallet has signed, then sign in
+   * POST /api/auth/lnurl/login
+   */
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const result = await lnurlAuthService.pollLogin(req.body.k1, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if (result.status === 'pending') {
+        res.status(HTTP_STATUS.OK).json({ success: true, data: result });
+        return;
+      }
+
+      res.status(result.created ? HTTP_STATUS.CREATED : HTTP_STATUS.OK).json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error logging in with LNURL-auth', { error });
+      throw error;
+    }
+  };
+}
+
+export const lnurlAuthController = new LnurlAuthController();
@@ -0,0 +1,60 @@
+/**
+ * Matching Controller
+ * Handles HTTP requests for runner suggestions
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { runnerMatchingService } from '../services/matching/RunnerMatchingService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import { MATCHING_CONSTANTS } from '../config/constants.js';
+import logger from '../utils/logger.js';
+
+export class MatchingController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Runners ranked for an open job
+   * GET /api/jobs/:id/suggested-runners?limit=10
+   */
+  getSuggestedRunners = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+      const userId = this.ensureUserId(req.user?.id);
+
+      const limit =
+        req.query['limit'] !== undefined
+          ? parseInt(req.query['limit'] as string, 10)
+          : MATCHING_CONSTANTS.SUGGESTIONS.DEFAULT_LIMIT;
+      if (isNaN(limit) || limit < 1 || limit > MATCHING_CONSTANTS.SUGGESTIONS.MAX_LIMIT) {
+        throw new ValidationError(
+          `Limit must be between 1 and ${MATCHING_CONSTANTS.SUGGESTIONS.MAX_LIMIT}`,
+          'INVALID_LIMIT'
+        );
+      }
+
+      const suggestions = await runnerMatchingService.getSuggestedRunners(jobId, userId, limit);
+
+      res.status(200).json({
+        success: true,
+        data: suggestions,
+      });
+    } catch (error) {
+      logger.error('Error fetching suggested runners', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+}
+
+export const matchingController = new MatchingController();
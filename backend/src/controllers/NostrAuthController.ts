@@ -0,0 +1,55 @@
+/**
+ * Nostr Auth Controller
+ * Handles HTTP requests for signing in with a Nostr key
+ */
+
+import { Request, Response } from 'express';
+import { nostrAuthService } from '../services/auth/NostrAuthService.js';
+import { HTTP_STATUS } from '../config/constants.js';
+import logger from '../utils/logger.js';
+
+export class NostrAuthController {
+  /**
+   * Get a one-time challenge to sign
+   * POST /api/auth/nostr/challenge
+   */
+  createChallenge = async (_req: Request, res: Response): Promise<void> => {
+    try {
+      const challenge = await nostrAuthService.createChallenge();
+
+      res.status(HTTP_STATUS.CREATED).json({
+        success: true,
+        data: challenge,
+      });
+    } catch (error) {
+      logger.error('Error creating Nostr challenge', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * Sign in with a signed challenge event
+   * POST /api/auth/nostr/login
+   */
+  login = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { event, pubkey } = req.body;
+
+      const result = await nostrAuthService.login(event, pubkey, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      res.status(result.created ? HTTP_STATUS.CREATED : HTTP_STATUS.OK).json({
+        success: true,
+        message: 'Login successful',
+        data: result,
+      });
+    } catch (error) {
+      logger.error('Error logging in with Nostr', { error });
+      throw error;
+    }
+  };
+}
+
+export const nostrAuthController = new NostrAuthController();
@@ -0,0 +1,225 @@
+/**
+ * Offer Controller
+ * Handles HTTP requests for job offers and counter-offers
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { OfferService, OfferTerms } from '../services/offer/OfferService.js';
+import { JobService } from '../services/job/JobService.js';
+import { EscrowService } from '../services/escrow/EscrowService.js';
+import { runnerAvailabilityService } from '../services/runner/RunnerAvailabilityService.js';
+import { OfferRepository } from '../database/repositories/OfferRepository.js';
+import { JobRepository } from '../database/repositories/JobRepository.js';
+import { UserRepository } from '../database/repositories/UserRepository.js';
+import { JobStatusHistoryRepository } from '../database/repositories/JobStatusHistoryRepository.js';
+import { JobStopRepository } from '../database/repositories/JobStopRepository.js';
+import { EscrowRepository } from '../database/repositories/EscrowRepository.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class OfferController {
+  private offerService: OfferService;
+
+  constructor() {
+    const jobRepository = new JobRepository();
+    const jobService = new JobService(
+      jobRepository,
+      new UserRepository(),
+      new JobStatusHistoryRepository(),
+      new JobStopRepository(),
+      new EscrowService(new EscrowRepository(), jobRepository),
+      runnerAvailabilityService
+    );
+    this.offerService = new OfferService(new OfferRepository(), jobRepository, jobService);
+  }
+
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to parse a numeric ID route param
+   */
+  private parseId(req: AuthenticatedRequest, label: string): number {
+    const id = parseInt(req.params['id'] as string, 10);
+    if (isNaN(id)) {
+      throw new ValidationError(`Invalid ${label} ID`, 'INVALID_ID');
+    }
+    return id;
+  }
+
+  /**
+   * Helper to read offer terms from the request body
+   */
+  private parseTerms(body: any): OfferTerms {
+    const { priceCents, etaMinutes, note } = body;
+
+    if (priceCents === undefined) {
+      throw new ValidationError('Price is required', 'MISSING_FIELDS');
+    }
+
+    return {
+      priceCents: Number(priceCents),
+      etaMinutes: etaMinutes !== undefined && etaMinutes !== null ? Number(etaMinutes) : undefined,
+      note,
+    };
+  }
+
+  /**
+   * Make an offer on a job
+   * POST /api/jobs/:id/offers
+   */
+  submitOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = this.parseId(req, 'job');
+      const runnerId = this.ensureUserId(req.user?.id);
+
+      const offer = await this.offerService.submitOffer(jobId, runnerId, this.parseTerms(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: offer,
+        message: 'Offer submitted successfully',
+      });
+    } catch (error) {
+      logger.error('Error submitting offer', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * List offers on a job
+   * GET /api/jobs/:id/offers
+   */
+  getJobOffers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = this.parseId(req, 'job');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const offers = await this.offerService.getOffersForJob(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: offers,
+      });
+    } catch (error) {
+      logger.error('Error fetching job offers', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * List the user's negotiations across all jobs
+   * GET /api/offers/mine
+   */
+  getMyOffers = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.user?.id);
+
+      const offers = await this.offerService.getMyOffers(userId);
+
+      res.status(200).json({
+        success: true,
+        data: offers,
+      });
+    } catch (error) {
+      logger.error('Error fetching offers', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Counter an offer with new terms
+   * POST /api/offers/:id/counter
+   */
+  counterOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const offerId = this.parseId(req, 'offer');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const offer = await this.offerService.counterOffer(offerId, userId, this.parseTerms(req.body));
+
+      res.status(201).json({
+        success: true,
+        data: offer,
+        message: 'Counter-offer sent successfully',
+      });
+    } catch (error) {
+      logger.error('Error countering offer', { error, offerId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Accept an offer and assign the job
+   * POST /api/offers/:id/accept
+   */
+  acceptOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const offerId = this.parseId(req, 'offer');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const result = await this.offerService.acceptOffer(offerId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: result,
+        message: 'Offer accepted and runner assigned',
+      });
+    } catch (error) {
+      logger.error('Error accepting offer', { error, offerId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Reject an offer
+   * POST /api/offers/:id/reject
+   */
+  rejectOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const offerId = this.parseId(req, 'offer');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const offer = await this.offerService.rejectOffer(offerId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: offer,
+        message: 'Offer rejected',
+      });
+    } catch (error) {
+      logger.error('Error rejecting offer', { error, offerId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Withdraw your own offer
+   * POST /api/offers/:id/withdraw
+   */
+  withdrawOffer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const offerId = this.parseId(req, 'offer');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const offer = await this.offerService.withdrawOffer(offerId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: offer,
+        message: 'Offer withdrawn',
+      });
+    } catch (error) {
+      logger.error('Error withdrawing offer', { error, offerId: req.params['id'] });
+      throw error;
+    }
+  };
+}
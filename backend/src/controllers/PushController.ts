@@ -0,0 +1,81 @@
+/**
+ * Push Controller
+ * Handles HTTP requests for Web Push subscriptions
+ */
+
+import { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { webPushService } from '../services/notification/WebPushService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class PushController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Public key browsers subscribe with
+   * GET /api/push/public-key
+   */
+  getPublicKey = async (_req: Request, res: Response): Promise<void> => {
+    res.status(200).json({
+      success: true,
+      data: { publicKey: webPushService.getPublicKey() },
+    });
+  };
+
+  /**
+   * Save this browser's push subscription
+   * POST /api/push/subscriptions
+   */
+  subscribe = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.user?.id);
+      const { endpoint, keys } = req.body;
+
+      await webPushService.subscribe(userId, { endpoint, keys, userAgent: req.get('user-agent') });
+
+      res.status(201).json({
+        success: true,
+        message: 'Push notifications enabled',
+      });
+    } catch (error) {
+      logger.error('Error saving push subscription', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Remove this browser's push subscription
+   * DELETE /api/push/subscriptions
+   */
+  unsubscribe = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.user?.id);
+      const { endpoint } = req.body;
+
+      if (typeof endpoint !== 'string' || !endpoint) {
+        throw new ValidationError('Endpoint is required', 'MISSING_FIELDS');
+      }
+
+      await webPushService.unsubscribe(userId, endpoint);
+
+      res.status(200).json({
+        success: true,
+        message: 'Push notifications disabled',
+      });
+    } catch (error) {
+      logger.error('Error removing push subscription', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+}
+
+export const pushController = new PushController();
@@ -0,0 +1,41 @@
+/**
+ * Realtime Controller
+ * Opens Server-Sent Event streams for authenticated users
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { realtimeService } from '../services/realtime/RealtimeService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+
+export class RealtimeController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Stream job, message and payment events for the current user
+   * GET /api/realtime/stream
+   */
+  stream = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    const userId = this.ensureUserId(req.user?.id);
+
+    res.status(200).set({
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no', // Disable nginx response buffering
+    });
+    res.flushHeaders();
+
+    // Closed by the realtime service once the session is logged out or revoked
+    const unsubscribe = realtimeService.subscribe(userId, res, req.sessionId);
+    req.on('close', unsubscribe);
+  };
+}
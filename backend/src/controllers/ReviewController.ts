@@ -40,7 +40,7 @@ export class ReviewController {
     try {
       const reviewerId = this.ensureUserId(req.user?.id);
 
-      const { jobId, rating, comment } = req.body;
+      const { jobId, rating, comment, flags, subRatings } = req.body;
 
       if (!jobId || !rating) {
         throw new ValidationError('Job ID and rating are required', 'MISSING_FIELDS');
@@ -51,6 +51,8 @@ export class ReviewController {
         reviewerId,
         rating: parseInt(rating, 10),
         comment,
+        flags,
+        subRatings,
       };
 
       const review = await this.reviewService.createReview(reviewData);
@@ -75,12 +77,13 @@ export class ReviewController {
   getReviewById = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const reviewId = parseInt(req.params['id'] as string, 10);
+      const viewerId = this.ensureUserId(req.user?.id);
 
       if (isNaN(reviewId)) {
         throw new ValidationError('Invalid review ID', 'INVALID_ID');
       }
 
-      const review = await this.reviewService.getReviewById(reviewId);
+      const review = await this.reviewService.getReviewById(reviewId, viewerId);
 
       res.status(200).json({
         success: true,
@@ -93,25 +96,26 @@ export class ReviewController {
   };
 
   /**
-   * Get review by job ID
+   * Get the reviews of a job the user may see
    * GET /api/reviews/job/:jobId
    */
-  getReviewByJobId = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+  getReviewsForJob = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const jobId = parseInt(req.params['jobId'] as string, 10);
+      const viewerId = this.ensureUserId(req.user?.id);
 
       if (isNaN(jobId)) {
         throw new ValidationError('Invalid job ID', 'INVALID_ID');
       }
 
-      const review = await this.reviewService.getReviewByJobId(jobId);
+      const reviews = await this.reviewService.getReviewsForJob(jobId, viewerId);
 
       res.status(200).json({
         success: true,
-        data: review,
+        data: reviews,
       });
     } catch (error) {
-      logger.error('Error fetching review by job', { error, jobId: req.params['jobId'] });
+      logger.error('Error fetching reviews for job', { error, jobId: req.params['jobId'] });
       throw error;
     }
   };
@@ -147,6 +151,37 @@ export class ReviewController {
     }
   };
 
+  /**
+   * Get reviews for client
+   * GET /api/reviews/client/:clientId
+   */
+  getReviewsForClient = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const clientId = parseInt(req.params['clientId'] as string, 10);
+      const limit = req.query['limit'] ? parseInt(req.query['limit'] as string, 10) : 20;
+      const offset = req.query['offset'] ? parseInt(req.query['offset'] as string, 10) : 0;
+
+      if (isNaN(clientId)) {
+        throw new ValidationError('Invalid client ID', 'INVALID_ID');
+      }
+
+      const reviews = await this.reviewService.getReviewsForClient(clientId, limit, offset);
+
+      res.status(200).json({
+        success: true,
+        data: reviews,
+        pagination: {
+          limit,
+          offset,
+          total: reviews.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Error fetching reviews for client', { error, clientId: req.params['clientId'] });
+      throw error;
+    }
+  };
+
   /**
    * Get reviews by reviewer
    * GET /api/reviews/reviewer/:reviewerId
@@ -154,6 +189,7 @@ export class ReviewController {
   getReviewsByReviewer = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
       const reviewerId = parseInt(req.params['reviewerId'] as string, 10);
+      const viewerId = this.ensureUserId(req.user?.id);
       const limit = req.query['limit'] ? parseInt(req.query['limit'] as string, 10) : 20;
       const offset = req.query['offset'] ? parseInt(req.query['offset'] as string, 10) : 0;
 
@@ -161,7 +197,7 @@ export class ReviewController {
         throw new ValidationError('Invalid reviewer ID', 'INVALID_ID');
       }
 
-      const reviews = await this.reviewService.getReviewsByReviewer(reviewerId, limit, offset);
+      const reviews = await this.reviewService.getReviewsByReviewer(reviewerId, viewerId, limit, offset);
 
       res.status(200).json({
         success: true,
@@ -256,4 +292,183 @@ export class ReviewController {
       throw error;
     }
   };
+
+  /**
+   * Get client reputation statistics
+   * GET /api/reviews/client/:clientId/stats
+   */
+  getClientRatingStats = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const clientId = parseInt(req.params['clientId'] as string, 10);
+
+      if (isNaN(clientId)) {
+        throw new ValidationError('Invalid client ID', 'INVALID_ID');
+      }
+
+      const stats = await this.reviewService.getClientRatingStats(clientId);
+
+      res.status(200).json({
+        success: true,
+        data: stats,
+      });
+    } catch (error) {
+      logger.error('Error fetching client rating stats', { error, clientId: req.params['clientId'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Reply to a review as the reviewed runner
+   * POST /api/reviews/:id/reply
+   */
+  replyToReview = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(reviewId)) {
+        throw new ValidationError('Invalid review ID', 'INVALID_ID');
+      }
+
+      const review = await this.reviewService.replyToReview(reviewId, userId, req.body.reply);
+
+      res.status(201).json({
+        success: true,
+        data: review,
+        message: 'Reply posted successfully',
+      });
+    } catch (error) {
+      logger.error('Error replying to review', { error, reviewId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Report an abusive review
+   * POST /api/reviews/:id/report
+   */
+  reportReview = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params['id'] as string, 10);
+      const reporterId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(reviewId)) {
+        throw new ValidationError('Invalid review ID', 'INVALID_ID');
+      }
+
+      await this.reviewService.reportReview(reviewId, reporterId, req.body.reason);
+
+      res.status(201).json({
+        success: true,
+        message: 'Review reported to the moderators',
+      });
+    } catch (error) {
+      logger.error('Error reporting review', { error, reviewId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * List reviews with open reports
+   * GET /api/reviews/reports
+   */
+  listReportedReviews = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const limit = req.query['limit'] ? parseInt(req.query['limit'] as string, 10) : 20;
+      const offset = req.query['offset'] ? parseInt(req.query['offset'] as string, 10) : 0;
+
+      const reported = await this.reviewService.listReportedReviews(limit, offset);
+
+      res.status(200).json({
+        success: true,
+        data: reported,
+        pagination: {
+          limit,
+          offset,
+          total: reported.length,
+        },
+      });
+    } catch (error) {
+      logger.error('Error listing reported reviews', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * Hide a review and uphold its reports
+   * POST /api/reviews/:id/hide
+   */
+  hideReview = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params['id'] as string, 10);
+      const adminId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(reviewId)) {
+        throw new ValidationError('Invalid review ID', 'INVALID_ID');
+      }
+
+      const review = await this.reviewService.hideReview(reviewId, adminId, req.body.reason);
+
+      res.status(200).json({
+        success: true,
+        data: review,
+        message: 'Review hidden successfully',
+      });
+    } catch (error) {
+      logger.error('Error hiding review', { error, reviewId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Show a hidden review again
+   * POST /api/reviews/:id/restore
+   */
+  restoreReview = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params['id'] as string, 10);
+      const adminId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(reviewId)) {
+        throw new ValidationError('Invalid review ID', 'INVALID_ID');
+      }
+
+      const review = await this.reviewService.restoreReview(reviewId, adminId);
+
+      res.status(200).json({
+        success: true,
+        data: review,
+        message: 'Review restored successfully',
+      });
+    } catch (error) {
+      logger.error('Error restoring review', { error, reviewId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Dismiss the open reports of a review
+   * POST /api/reviews/:id/dismiss-reports
+   */
+  dismissReports = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const reviewId = parseInt(req.params['id'] as string, 10);
+      const adminId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(reviewId)) {
+        throw new ValidationError('Invalid review ID', 'INVALID_ID');
+      }
+
+      const dismissed = await this.reviewService.dismissReports(reviewId, adminId);
+
+      res.status(200).json({
+        success: true,
+        data: { dismissed },
+        message: 'Reports dismissed successfully',
+      });
+    } catch (error) {
+      logger.error('Error dismissing review reports', { error, reviewId: req.params['id'] });
+      throw error;
+    }
+  };
 }
@@ -6,6 +6,7 @@
 import { Response } from 'express';
 import type { AuthenticatedRequest } from '../types/index.js';
 import { RunnerService } from '../services/runner/RunnerService.js';
+import { runnerAvailabilityService } from '../services/runner/RunnerAvailabilityService.js';
 import { RunnerRepository } from '../database/repositories/RunnerRepository.js';
 import { UserRepository } from '../database/repositories/UserRepository.js';
 import { ValidationError } from '../core/errors/AppError.js';
@@ -174,6 +175,7 @@ export class RunnerController {
         latitude: req.query['lat'] ? parseFloat(req.query['lat'] as string) : undefined,
         longitude: req.query['lng'] ? parseFloat(req.query['lng'] as string) : undefined,
         radius: req.query['radius'] ? parseFloat(req.query['radius'] as string) : undefined,
+        availableOnly: req.query['available'] === 'true',
         limit: req.query['limit'] ? parseInt(req.query['limit'] as string, 10) : 20,
         offset: req.query['offset'] ? parseInt(req.query['offset'] as string, 10) : 0,
       } as any;
@@ -221,6 +223,124 @@ export class RunnerController {
     }
   };
 
+  /**
+   * Get a runner's working hours, time off and job capacity
+   * GET /api/runners/:id/availability
+   */
+  getAvailability = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const profileId = parseInt(req.params['id'] as string, 10);
+
+      if (isNaN(profileId)) {
+        throw new ValidationError('Invalid profile ID', 'INVALID_ID');
+      }
+
+      const availability = await runnerAvailabilityService.getAvailability(profileId);
+
+      res.status(200).json({
+        success: true,
+        data: availability,
+      });
+    } catch (error) {
+      logger.error('Error fetching runner availability', { error, profileId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Update a runner's availability switch, time zone, job capacity and working hours
+   * PATCH /api/runners/:id/availability
+   */
+  updateAvailability = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const profileId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(profileId)) {
+        throw new ValidationError('Invalid profile ID', 'INVALID_ID');
+      }
+
+      const { isAvailable, timezone, maxConcurrentJobs, workingHours } = req.body;
+
+      const availability = await runnerAvailabilityService.updateAvailability(profileId, userId, {
+        isAvailable,
+        timezone,
+        maxConcurrentJobs: maxConcurrentJobs === undefined ? undefined : Number(maxConcurrentJobs),
+        workingHours,
+      });
+
+      res.status(200).json({
+        success: true,
+        data: availability,
+        message: 'Availability updated successfully',
+      });
+    } catch (error) {
+      logger.error('Error updating runner availability', { error, profileId: req.params['id'], body: req.body });
+      throw error;
+    }
+  };
+
+  /**
+   * Block out time off
+   * POST /api/runners/:id/time-off
+   */
+  addTimeOff = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const profileId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(profileId)) {
+        throw new ValidationError('Invalid profile ID', 'INVALID_ID');
+      }
+
+      const { startsAt, endsAt, reason } = req.body;
+
+      if (typeof reason !== 'undefined' && reason !== null && typeof reason !== 'string') {
+        throw new ValidationError('Reason must be text', 'INVALID_TIME_OFF');
+      }
+
+      const timeOff = await runnerAvailabilityService.addTimeOff(profileId, userId, {
+        startsAt,
+        endsAt,
+        reason: reason ?? undefined,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: timeOff,
+      });
+    } catch (error) {
+      logger.error('Error adding runner time off', { error, profileId: req.params['id'], body: req.body });
+      throw error;
+    }
+  };
+
+  /**
+   * Remove a time off block
+   * DELETE /api/runners/:id/time-off/:timeOffId
+   */
+  removeTimeOff = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const profileId = parseInt(req.params['id'] as string, 10);
+      const timeOffId = parseInt(req.params['timeOffId'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(profileId) || isNaN(timeOffId)) {
+        throw new ValidationError('Invalid ID', 'INVALID_ID');
+      }
+
+      await runnerAvailabilityService.removeTimeOff(profileId, userId, timeOffId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Time off removed successfully',
+      });
+    } catch (error) {
+      logger.error('Error removing runner time off', { error, profileId: req.params['id'], timeOffId: req.params['timeOffId'] });
+      throw error;
+    }
+  };
+
   /**
    * Update runner statistics
    * PATCH /api/runners/:id/stats
@@ -0,0 +1,146 @@
+/**
+ * Saved Search Controller
+ * Handles HTTP requests for runners' saved job searches
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { SavedSearchChanges, SavedSearchInput, savedSearchService } from '../services/search/SavedSearchService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class SavedSearchController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to parse a numeric route parameter
+   */
+  private parseId(value: string | undefined, label: string): number {
+    const id = parseInt(value as string, 10);
+    if (isNaN(id)) {
+      throw new ValidationError(`Invalid ${label} ID`, 'INVALID_ID');
+    }
+    return id;
+  }
+
+  /**
+   * Helper to read search fields from the request body
+   * Fields that are not sent are left undefined
+   */
+  private parseSearch(body: any): SavedSearchChanges {
+    const { name, location, radiusKm, categories, minPriceCents, channels, quietHours, timezone, digest, isActive } =
+      body;
+
+    return {
+      name,
+      location,
+      radiusKm: radiusKm !== undefined ? Number(radiusKm) : undefined,
+      categories,
+      minPriceCents: minPriceCents === undefined || minPriceCents === null ? minPriceCents : Number(minPriceCents),
+      channels,
+      quietHours,
+      timezone,
+      digest: digest !== undefined ? Boolean(digest) : undefined,
+      isActive: isActive !== undefined ? Boolean(isActive) : undefined,
+    };
+  }
+
+  /**
+   * List the runner's saved searches
+   * GET /api/saved-searches
+   */
+  getSearches = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const runnerId = this.ensureUserId(req.user?.id);
+
+      const searches = await savedSearchService.getSearches(runnerId);
+
+      res.status(200).json({
+        success: true,
+        data: searches,
+      });
+    } catch (error) {
+      logger.error('Error fetching saved searches', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Save a search
+   * POST /api/saved-searches
+   */
+  createSearch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const runnerId = this.ensureUserId(req.user?.id);
+      const input = this.parseSearch(req.body);
+
+      if (!input.name || !input.location || input.radiusKm === undefined) {
+        throw new ValidationError('Name, location and radius are required', 'MISSING_FIELDS');
+      }
+
+      const search = await savedSearchService.createSearch(runnerId, input as SavedSearchInput);
+
+      res.status(201).json({
+        success: true,
+        data: search,
+        message: 'Search saved successfully',
+      });
+    } catch (error) {
+      logger.error('Error saving search', { error, userId: req.user?.id });
+      throw error;
+    }
+  };
+
+  /**
+   * Change a saved search
+   * PATCH /api/saved-searches/:id
+   */
+  updateSearch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const searchId = this.parseId(req.params['id'], 'saved search');
+      const runnerId = this.ensureUserId(req.user?.id);
+
+      const search = await savedSearchService.updateSearch(searchId, runnerId, this.parseSearch(req.body));
+
+      res.status(200).json({
+        success: true,
+        data: search,
+        message: 'Saved search updated successfully',
+      });
+    } catch (error) {
+      logger.error('Error updating saved search', { error, searchId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Delete a saved search
+   * DELETE /api/saved-searches/:id
+   */
+  deleteSearch = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const searchId = this.parseId(req.params['id'], 'saved search');
+      const runnerId = this.ensureUserId(req.user?.id);
+
+      await savedSearchService.deleteSearch(searchId, runnerId);
+
+      res.status(200).json({
+        success: true,
+        message: 'Saved search deleted',
+      });
+    } catch (error) {
+      logger.error('Error deleting saved search', { error, searchId: req.params['id'] });
+      throw error;
+    }
+  };
+}
+
+export const savedSearchController = new SavedSearchController();
@@ -0,0 +1,128 @@
+/**
+ * Session Controller
+ * Handles HTTP requests for refreshing tokens, logging out and managing sessions
+ */
+
+import { Request, Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { sessionService, ClientInfo } from '../services/auth/SessionService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import { HTTP_STATUS } from '../config/constants.js';
+import logger from '../utils/logger.js';
+
+/**
+ * IP and user agent of the requesting client
+ */
+const clientOf = (req: Request): ClientInfo => ({ ipAddress: req.ip, userAgent: req.get('user-agent') });
+
+export class SessionController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Swap a refresh token for a new token pair
+   * POST /api/auth/session/refresh
+   */
+  refresh = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const { token, refreshToken } = await sessionService.refresh(req.body.refreshToken, clientOf(req));
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: { token, refreshToken },
+      });
+    } catch (error) {
+      logger.error('Error refreshing session', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * End the session of a refresh token
+   * POST /api/auth/session/logout
+   */
+  logout = async (req: Request, res: Response): Promise<void> => {
+    try {
+      await sessionService.logout(req.body.refreshToken, clientOf(req));
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        message: 'Logged out',
+      });
+    } catch (error) {
+      logger.error('Error logging out', { error });
+      throw error;
+    }
+  };
+
+  /**
+   * List the user's active sessions
+   * GET /api/profile/sessions
+   */
+  listSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.userId);
+
+      const sessions = await sessionService.listSessions(userId, req.sessionId);
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        data: sessions,
+      });
+    } catch (error) {
+      logger.error('Error listing sessions', { error, userId: req.userId });
+      throw error;
+    }
+  };
+
+  /**
+   * End one of the user's sessions
+   * DELETE /api/profile/sessions/:id
+   */
+  revokeSession = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.userId);
+      const sessionId = parseInt(req.params['id'] as string, 10);
+
+      await sessionService.revokeSession(userId, sessionId, clientOf(req));
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        message: 'Session ended',
+      });
+    } catch (error) {
+      logger.error('Error revoking session', { error, sessionId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Log out everywhere
+   * DELETE /api/profile/sessions
+   */
+  revokeAllSessions = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const userId = this.ensureUserId(req.userId);
+
+      const count = await sessionService.revokeAllSessions(userId, clientOf(req));
+
+      res.status(HTTP_STATUS.OK).json({
+        success: true,
+        message: 'Logged out everywhere',
+        data: { count },
+      });
+    } catch (error) {
+      logger.error('Error revoking all sessions', { error, userId: req.userId });
+      throw error;
+    }
+  };
+}
+
+export const sessionController = new SessionController();
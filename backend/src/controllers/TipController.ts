@@ -0,0 +1,133 @@
+/**
+ * Tip Controller
+ * Handles HTTP requests for tipping runners
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { tipService } from '../services/tip/TipService.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class TipController {
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to parse a numeric route parameter
+   */
+  private parseId(value: string | undefined, label: string): number {
+    const id = parseInt(value as string, 10);
+    if (isNaN(id)) {
+      throw new ValidationError(`Invalid ${label} ID`, 'INVALID_ID');
+    }
+    return id;
+  }
+
+  /**
+   * Start a tip for the runner of a job
+   * POST /api/jobs/:id/tips
+   */
+  createTip = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = this.parseId(req.params['id'], 'job');
+      const userId = this.ensureUserId(req.user?.id);
+      const { amountCents, method, message } = req.body;
+
+      if (typeof message !== 'undefined' && typeof message !== 'string') {
+        throw new ValidationError('Message must be text', 'INVALID_TIP_MESSAGE');
+      }
+
+      const tip = await tipService.createTip(jobId, userId, {
+        amountCents: Number(amountCents),
+        method: method ?? 'invoice',
+        message,
+      });
+
+      res.status(201).json({
+        success: true,
+        data: tip,
+      });
+    } catch (error) {
+      logger.error('Error creating tip', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * List the tips of a job
+   * GET /api/jobs/:id/tips
+   */
+  getJobTips = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = this.parseId(req.params['id'], 'job');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const tips = await tipService.getTipsForJob(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: tips,
+      });
+    } catch (error) {
+      logger.error('Error fetching job tips', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Get a tip and whether it has been paid
+   * GET /api/tips/:id
+   */
+  getTip = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const tipId = this.parseId(req.params['id'], 'tip');
+      const userId = this.ensureUserId(req.user?.id);
+
+      const tip = await tipService.getTip(tipId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: tip,
+      });
+    } catch (error) {
+      logger.error('Error fetching tip', { error, tipId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Confirm a tip was paid, with the preimage from the client's wallet
+   * POST /api/tips/:id/confirm
+   */
+  confirmTip = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const tipId = this.parseId(req.params['id'], 'tip');
+      const userId = this.ensureUserId(req.user?.id);
+      const { preimage } = req.body;
+
+      if (typeof preimage !== 'undefined' && typeof preimage !== 'string') {
+        throw new ValidationError('Preimage must be a hex string', 'INVALID_PREIMAGE');
+      }
+
+      const tip = await tipService.confirmTip(tipId, userId, preimage);
+
+      res.status(200).json({
+        success: true,
+        data: tip,
+      });
+    } catch (error) {
+      logger.error('Error confirming tip', { error, tipId: req.params['id'] });
+      throw error;
+    }
+  };
+}
+
+export const tipController = new TipController();
@@ -0,0 +1,104 @@
+/**
+ * Tracking Controller
+ * Handles HTTP requests for live runner location during a job
+ */
+
+import { Response } from 'express';
+import type { AuthenticatedRequest } from '../types/index.js';
+import { LocationTrackingService } from '../services/tracking/LocationTrackingService.js';
+import { LocationPingRepository } from '../database/repositories/LocationPingRepository.js';
+import { JobRepository } from '../database/repositories/JobRepository.js';
+import { JobStopRepository } from '../database/repositories/JobStopRepository.js';
+import { ValidationError } from '../core/errors/AppError.js';
+import logger from '../utils/logger.js';
+
+export class TrackingController {
+  private trackingService: LocationTrackingService;
+
+  constructor() {
+    this.trackingService = new LocationTrackingService(
+      new LocationPingRepository(),
+      new JobRepository(),
+      new JobStopRepository()
+    );
+  }
+
+  /**
+   * Helper to ensure userId is a number
+   */
+  private ensureUserId(userId: string | number | undefined): number {
+    if (!userId) {
+      throw new ValidationError('User not authenticated', 'UNAUTHORIZED');
+    }
+    return typeof userId === 'string' ? parseInt(userId, 10) : userId;
+  }
+
+  /**
+   * Helper to read an optional numeric field from the request body
+   */
+  private optionalNumber(value: unknown): number | undefined {
+    return value !== undefined && value !== null ? Number(value) : undefined;
+  }
+
+  /**
+   * Send a location ping
+   * POST /api/jobs/:id/location
+   */
+  recordPing = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const runnerId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const { lat, lng, accuracy, heading, speed } = req.body;
+
+      if (lat === undefined || lng === undefined) {
+        throw new ValidationError('Latitude and longitude are required', 'MISSING_FIELDS');
+      }
+
+      const position = await this.trackingService.recordPing(jobId, runnerId, {
+        lat: Number(lat),
+        lng: Number(lng),
+        accuracyM: this.optionalNumber(accuracy),
+        heading: this.optionalNumber(heading),
+        speedMps: this.optionalNumber(speed),
+      });
+
+      res.status(200).json({
+        success: true,
+        data: position,
+      });
+    } catch (error) {
+      logger.error('Error recording location ping', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+
+  /**
+   * Get the runner's live position and trail
+   * GET /api/jobs/:id/location
+   */
+  getLiveLocation = async (req: AuthenticatedRequest, res: Response): Promise<void> => {
+    try {
+      const jobId = parseInt(req.params['id'] as string, 10);
+      const userId = this.ensureUserId(req.user?.id);
+
+      if (isNaN(jobId)) {
+        throw new ValidationError('Invalid job ID', 'INVALID_ID');
+      }
+
+      const location = await this.trackingService.getLiveLocation(jobId, userId);
+
+      res.status(200).json({
+        success: true,
+        data: location,
+      });
+    } catch (error) {
+      logger.error('Error fetching live location', { error, jobId: req.params['id'] });
+      throw error;
+    }
+  };
+}
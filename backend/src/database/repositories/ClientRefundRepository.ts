@@ -0,0 +1,218 @@
+/**
+ * Client Refund Repository
+ * Data access layer for the client_refunds table, the queue of refunds paid
+ * back to clients (their share of a split dispute)
+ *
+ * Leasing works like the payout queue in RunnerEarningRepository: workers
+ * claim due rows with FOR UPDATE SKIP LOCKED and every write made while
+ * holding a lease checks locked_by.
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export type ClientRefundStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead';
+
+export interface ClientRefund {
+  id: number;
+  client_id: number;
+  job_id: number;
+  dispute_id: number;
+  amount_cents: number;
+  amount_sats: number;
+  price_snapshot_id: number | null;
+  status: ClientRefundStatus;
+  lightning_address: string | null;
+  payment_request: string | null;
+  payment_hash: string | null;
+  payment_preimage: string | null;
+  error_message: string | null;
+  retry_count: number;
+  next_attempt_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  created_at: Date;
+  completed_at: Date | null;
+  dead_at: Date | null;
+  updated_at: Date;
+}
+
+export interface CreateClientRefundDto {
+  clientId: number;
+  jobId: number;
+  disputeId: number;
+  amountCents: number;
+  amountSats: number;
+  priceSnapshotId: number | null;
+}
+
+const REFUND_COLUMNS = `
+  id, client_id, job_id, dispute_id, amount_cents, amount_sats::int as amount_sats,
+  price_snapshot_id, status, lightning_address, payment_request, payment_hash, payment_preimage,
+  error_message, retry_count, next_attempt_at, locked_by, locked_until,
+  created_at, completed_at, dead_at, updated_at
+`;
+
+export class ClientRefundRepository extends BaseRepository<ClientRefund> {
+  /**
+   * Find the refund owed for a dispute
+   */
+  async findByDisputeId(disputeId: number): Promise<ClientRefund | null> {
+    const query = `
+      SELECT ${REFUND_COLUMNS}
+      FROM client_refunds
+      WHERE dispute_id = $1
+    `;
+    return this.queryOne(query, [disputeId]);
+  }
+
+  /**
+   * Queue the client's share of a dispute
+   * Returns the existing refund if the dispute was already queued
+   */
+  async createForDispute(data: CreateClientRefundDto): Promise<ClientRefund> {
+    const query = `
+      INSERT INTO client_refunds (
+        client_id, job_id, dispute_id, amount_cents, amount_sats, price_snapshot_id,
+        status, next_attempt_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, 'pending', NOW())
+      ON CONFLICT (dispute_id) DO NOTHING
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    const created = await this.queryOne(query, [
+      data.clientId,
+      data.jobId,
+      data.disputeId,
+      data.amountCents,
+      data.amountSats,
+      data.priceSnapshotId,
+    ]);
+
+    return created ?? (await this.findByDisputeId(data.disputeId))!;
+  }
+
+  /**
+   * Lease due refunds for this worker
+   * Each attempt pays the Lightning address currently on the client's profile.
+   */
+  async claimDue(workerId: string, leaseMs: number, limit: number): Promise<ClientRefund[]> {
+    const query = `
+      UPDATE client_refunds cr
+      SET status = 'processing',
+          locked_by = $1,
+          locked_until = NOW() + $2 * INTERVAL '1 millisecond',
+          lightning_address = (SELECT u.lightning_address FROM users u WHERE u.id = cr.client_id)
+      WHERE cr.id IN (
+        SELECT id
+        FROM client_refunds
+        WHERE status IN ('pending', 'failed') AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    return this.queryRows(query, [workerId, leaseMs, limit]);
+  }
+
+  /**
+   * Return refunds whose worker died mid-attempt to the queue
+   * A refund that already had an invoice may have been paid, so it is
+   * dead-lettered instead of being sent again
+   */
+  async releaseExpiredLeases(): Promise<ClientRefund[]> {
+    const query = `
+      UPDATE client_refunds
+      SET status = CASE WHEN payment_request IS NULL THEN 'pending' ELSE 'dead' END,
+          dead_at = CASE WHEN payment_request IS NULL THEN NULL ELSE NOW() END,
+          error_message = CASE
+            WHEN payment_request IS NULL THEN error_message
+            ELSE 'Worker stopped while paying; check the node before requeueing'
+          END,
+          next_attempt_at = NOW(),
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE status = 'processing' AND locked_until < NOW()
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    return this.queryRows(query);
+  }
+
+  /**
+   * Remember the invoice about to be paid
+   */
+  async recordInvoice(id: number, workerId: string, paymentRequest: string, paymentHash: string): Promise<boolean> {
+    const query = `
+      UPDATE client_refunds
+      SET payment_request = $3, payment_hash = $4
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+    `;
+    const result = await this.query(query, [id, workerId, paymentRequest, paymentHash]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark a leased refund as paid
+   */
+  async markCompleted(
+    id: number,
+    workerId: string,
+    paymentHash: string | null,
+    paymentPreimage: string | null
+  ): Promise<ClientRefund | null> {
+    const query = `
+      UPDATE client_refunds
+      SET status = 'completed',
+          completed_at = NOW(),
+          payment_hash = COALESCE($3, payment_hash),
+          payment_preimage = $4,
+          error_message = NULL,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, paymentHash, paymentPreimage]);
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one
+   */
+  async scheduleRetry(id: number, workerId: string, error: string, delayMs: number): Promise<ClientRefund | null> {
+    const query = `
+      UPDATE client_refunds
+      SET status = 'failed',
+          error_message = $3,
+          retry_count = retry_count + 1,
+          next_attempt_at = NOW() + $4 * INTERVAL '1 millisecond',
+          payment_request = NULL,
+          payment_hash = NULL,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, error, delayMs]);
+  }
+
+  /**
+   * Move a leased refund to the dead-letter list
+   * @param keepInvoice - Keep the invoice when the payment may have gone through
+   */
+  async markDead(id: number, workerId: string, error: string, keepInvoice: boolean): Promise<ClientRefund | null> {
+    const query = `
+      UPDATE client_refunds
+      SET status = 'dead',
+          dead_at = NOW(),
+          error_message = $3,
+          retry_count = retry_count + 1,
+          payment_request = CASE WHEN $4 THEN payment_request ELSE NULL END,
+          payment_hash = CASE WHEN $4 THEN payment_hash ELSE NULL END,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${REFUND_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, error, keepInvoice]);
+  }
+}
@@ -0,0 +1,179 @@
+/**
+ * Delivery Proof Repository
+ * Data access layer for delivery codes, proofs and their attachments
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository.js';
+import { NotFoundError } from '../../core/errors/AppError.js';
+
+export type DeliveryAttachmentKind = 'photo' | 'receipt';
+
+export interface DeliveryAttachment {
+  id: number;
+  proof_id: number;
+  kind: DeliveryAttachmentKind;
+  file_name: string;
+  file_size: number;
+  mime_type: string;
+  storage_path: string;
+  uploaded_at: Date;
+}
+
+export interface DeliveryProof {
+  id: number;
+  job_id: number;
+  runner_id: number;
+  recipient_name: string | null;
+  code_verified: boolean;
+  note: string | null;
+  submitted_at: Date;
+  attachments: DeliveryAttachment[];
+}
+
+export interface DeliveryCode {
+  job_id: number;
+  code: string;
+  created_at: Date;
+  used_at: Date | null;
+}
+
+export interface CreateDeliveryAttachmentDto {
+  kind: DeliveryAttachmentKind;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  storagePath: string;
+}
+
+export interface CreateDeliveryProofDto {
+  jobId: number;
+  runnerId: number;
+  recipientName?: string | null | undefined;
+  codeVerified: boolean;
+  note?: string | null | undefined;
+  attachments: CreateDeliveryAttachmentDto[];
+}
+
+export class DeliveryProofRepository extends BaseRepository<DeliveryProof> {
+  /**
+   * Find the delivery code issued for a job
+   */
+  async findCode(jobId: number): Promise<DeliveryCode | null> {
+    const query = `
+      SELECT job_id, code, created_at, used_at
+      FROM job_delivery_codes
+      WHERE job_id = $1
+    `;
+
+    return this.queryOne<DeliveryCode>(query, [jobId]);
+  }
+
+  /**
+   * Store a job's delivery code, keeping an existing one
+   */
+  async createCode(jobId: number, code: string): Promise<DeliveryCode> {
+    const query = `
+      INSERT INTO job_delivery_codes (job_id, code)
+      VALUES ($1, $2)
+      ON CONFLICT (job_id) DO UPDATE SET job_id = EXCLUDED.job_id
+      RETURNING job_id, code, created_at, used_at
+    `;
+    const rows = await this.queryRows<DeliveryCode>(query, [jobId, code]);
+
+    return rows[0]!;
+  }
+
+  /**
+   * Find the proof submitted for a job with its attachments
+   */
+  async findByJobId(jobId: number): Promise<DeliveryProof | null> {
+    const proof = await this.queryOne<Omit<DeliveryProof, 'attachments'>>(
+      `SELECT id, job_id, runner_id, recipient_name, code_verified, note, submitted_at
+       FROM job_delivery_proofs
+       WHERE job_id = $1`,
+      [jobId]
+    );
+
+    if (!proof) {
+      return null;
+    }
+
+    const attachments = await this.queryRows<DeliveryAttachment>(
+      `SELECT id, proof_id, kind, file_name, file_size, mime_type, storage_path, uploaded_at
+       FROM job_delivery_attachments
+       WHERE proof_id = $1
+       ORDER BY id ASC`,
+      [proof.id]
+    );
+
+    return { ...proof, attachments };
+  }
+
+  /**
+   * Store a proof and its attachments, marking the delivery code used
+   */
+  async create(data: CreateDeliveryProofDto): Promise<DeliveryProof> {
+    return this.transaction(async (client) => {
+      const result = await client.query<Omit<DeliveryProof, 'attachments'>>(
+        `INSERT INTO job_delivery_proofs (job_id, runner_id, recipient_name, code_verified, note)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, job_id, runner_id, recipient_name, code_verified, note, submitted_at`,
+        [data.jobId, data.runnerId, data.recipientName ?? null, data.codeVerified, data.note ?? null]
+      );
+      const proof = result.rows[0];
+
+      if (!proof) {
+        throw new NotFoundError('Failed to store delivery proof', 'PROOF_CREATE_FAILED');
+      }
+
+      const attachments = await this.insertAttachments(client, proof.id, data.attachments);
+
+      if (data.codeVerified) {
+        await client.query(
+          'UPDATE job_delivery_codes SET used_at = NOW() WHERE job_id = $1',
+          [data.jobId]
+        );
+      }
+
+      return { ...proof, attachments };
+    });
+  }
+
+  /**
+   * Remove a job's proof (when completing the job fails after it was stored)
+   */
+  async deleteByJobId(jobId: number): Promise<void> {
+    await this.transaction(async (client) => {
+      await client.query('DELETE FROM job_delivery_proofs WHERE job_id = $1', [jobId]);
+      await client.query('UPDATE job_delivery_codes SET used_at = NULL WHERE job_id = $1', [jobId]);
+    });
+  }
+
+  private async insertAttachments(
+    client: PoolClient,
+    proofId: number,
+    attachments: CreateDeliveryAttachmentDto[]
+  ): Promise<DeliveryAttachment[]> {
+    const rows: DeliveryAttachment[] = [];
+
+    for (const attachment of attachments) {
+      const result = await client.query<DeliveryAttachment>(
+        `INSERT INTO job_delivery_attachments (proof_id, kind, file_name, file_size, mime_type, storage_path)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id, proof_id, kind, file_name, file_size, mime_type, storage_path, uploaded_at`,
+        [
+          proofId,
+          attachment.kind,
+          attachment.fileName,
+          attachment.fileSize,
+          attachment.mimeType,
+          attachment.storagePath,
+        ]
+      );
+      rows.push(result.rows[0]!);
+    }
+
+    return rows;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Dispute Repository
+ * Data access layer for disputes and dispute_statements tables
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { NotFoundError } from '../../core/errors/AppError.js';
+
+export type DisputeStatus = 'open' | 'peer_mediation' | 'admin_review' | 'resolved' | 'dismissed';
+
+export type DisputeResolution = 'payout' | 'split' | 'refund';
+
+export type DisputeParticipantRole = 'client' | 'runner' | 'admin';
+
+export interface Dispute {
+  id: number;
+  job_id: number;
+  opened_by: number;
+  status: DisputeStatus;
+  reason: string | null;
+  evidence_urls: string[] | null;
+  resolution: DisputeResolution | null;
+  runner_amount_cents: number | null;
+  refund_amount_cents: number | null;
+  resolution_notes: string | null;
+  resolved_by: number | null;
+  resolved_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface DisputeStatement {
+  id: number;
+  dispute_id: number;
+  author_id: number;
+  author_role: DisputeParticipantRole;
+  body: string;
+  evidence_urls: string[];
+  created_at: Date;
+}
+
+export interface CreateDisputeDto {
+  jobId: number;
+  openedBy: number;
+  reason: string;
+  evidenceUrls: string[];
+}
+
+export interface CreateStatementDto {
+  disputeId: number;
+  authorId: number;
+  authorRole: DisputeParticipantRole;
+  body: string;
+  evidenceUrls: string[];
+}
+
+export interface ResolveDisputeDto {
+  resolution: DisputeResolution;
+  runnerAmountCents: number;
+  refundAmountCents: number;
+  notes: string | null;
+  resolvedBy: number;
+}
+
+const DISPUTE_COLUMNS = `
+  id, job_id, opened_by, status, reason, evidence_urls, resolution,
+  runner_amount_cents, refund_amount_cents, resolution_notes, resolved_by,
+  resolved_at, created_at, updated_at
+`;
+
+export class DisputeRepository extends BaseRepository<Dispute> {
+  /**
+   * Find dispute by ID
+   */
+  async findById(id: number): Promise<Dispute> {
+    const query = `
+      SELECT ${DISPUTE_COLUMNS}
+      FROM disputes
+      WHERE id = $1
+    `;
+    const dispute = await this.queryOne<Dispute>(query, [id]);
+
+    if (!dispute) {
+      throw new NotFoundError(`Dispute with ID ${id} not found`, 'DISPUTE_NOT_FOUND');
+    }
+
+    return dispute;
+  }
+
+  /**
+   * Find dispute by job ID
+   */
+  async findByJobId(jobId: number): Promise<Dispute | null> {
+    const query = `
+      SELECT ${DISPUTE_COLUMNS}
+      FROM disputes
+      WHERE job_id = $1
+    `;
+    return this.queryOne<Dispute>(query, [jobId]);
+  }
+
+  /**
+   * Find disputes by status, oldest first
+   */
+  async findByStatus(
+    statuses: DisputeStatus[],
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<Dispute[]> {
+    const query = `
+      SELECT ${DISPUTE_COLUMNS}
+      FROM disputes
+      WHERE status = ANY($1)
+      ORDER BY created_at ASC
+      LIMIT $2 OFFSET $3
+    `;
+    return this.queryRows<Dispute>(query, [statuses, limit, offset]);
+  }
+
+  /**
+   * Create dispute
+   */
+  async create(data: CreateDisputeDto): Promise<Dispute> {
+    const query = `
+      INSERT INTO disputes (job_id, opened_by, status, reason, evidence_urls)
+      VALUES ($1, $2, 'open', $3, $4)
+      RETURNING ${DISPUTE_COLUMNS}
+    `;
+
+    const disputes = await this.queryRows<Dispute>(query, [
+      data.jobId,
+      data.openedBy,
+      data.reason,
+      data.evidenceUrls,
+    ]);
+
+    if (disputes.length === 0) {
+      throw new NotFoundError('Failed to create dispute', 'DISPUTE_CREATE_FAILED');
+    }
+
+    return disputes[0]!;
+  }
+
+  /**
+   * Update status of an unresolved dispute
+   */
+  async updateStatus(id: number, status: DisputeStatus): Promise<void> {
+    const query = `
+      UPDATE disputes
+      SET status = $2
+      WHERE id = $1 AND status NOT IN ('resolved', 'dismissed')
+    `;
+    await this.query(query, [id, status]);
+  }
+
+  /**
+   * Record the resolution outcome
+   * Returns null if the dispute was already closed
+   */
+  async resolve(id: number, data: ResolveDisputeDto): Promise<Dispute | null> {
+    const query = `
+      UPDATE disputes
+      SET status = 'resolved',
+          resolution = $2,
+          runner_amount_cents = $3,
+          refund_amount_cents = $4,
+          resolution_notes = $5,
+          resolved_by = $6,
+          resolved_at = NOW()
+      WHERE id = $1 AND status NOT IN ('resolved', 'dismissed')
+      RETURNING ${DISPUTE_COLUMNS}
+    `;
+
+    return this.queryOne<Dispute>(query, [
+      id,
+      data.resolution,
+      data.runnerAmountCents,
+      data.refundAmountCents,
+      data.notes,
+      data.resolvedBy,
+    ]);
+  }
+
+  /**
+   * Add a statement to a dispute
+   */
+  async addStatement(data: CreateStatementDto): Promise<DisputeStatement> {
+    const query = `
+      INSERT INTO dispute_statements (dispute_id, author_id, author_role, body, evidence_urls)
+      VALUES ($1, $2, $3, $4, $5)
+      RETURNING id, dispute_id, author_id, author_role, body, evidence_urls, created_at
+    `;
+
+    const statements = await this.queryRows<DisputeStatement>(query, [
+      data.disputeId,
+      data.authorId,
+      data.authorRole,
+      data.body,
+      data.evidenceUrls,
+    ]);
+
+    if (statements.length === 0) {
+      throw new NotFoundError('Failed to add statement', 'STATEMENT_CREATE_FAILED');
+    }
+
+    return statements[0]!;
+  }
+
+  /**
+   * Find statements for a dispute, oldest first
+   */
+  async findStatements(disputeId: number): Promise<DisputeStatement[]> {
+    const query = `
+      SELECT id, dispute_id, author_id, author_role, body, evidence_urls, created_at
+      FROM dispute_statements
+      WHERE dispute_id = $1
+      ORDER BY created_at ASC, id ASC
+    `;
+    return this.queryRows<DisputeStatement>(query, [disputeId]);
+  }
+
+  /**
+   * Count disputes a runner lost with a full refund to the client
+   */
+  async countRefundedForRunner(runnerId: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM disputes d
+      JOIN jobs j ON j.id = d.job_id
+      WHERE j.runner_id = $1 AND d.resolution = 'refund'
+    `;
+    const result = await this.queryOne<{ count: string }>(query, [runnerId]);
+    return parseInt(result?.count || '0', 10);
+  }
+
+  /**
+   * Flag a job's unverified Lightning payments as disputed
+   */
+  async markTransactionsDisputed(jobId: number): Promise<void> {
+    const query = `
+      UPDATE lightning_transactions
+      SET verification_level = 'disputed', updated_at = NOW()
+      WHERE job_id = $1 AND verification_level = 'pending_manual'
+    `;
+    await this.query(query, [jobId]);
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Escrow Repository
+ * Data access layer for job_escrows table
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { NotFoundError } from '../../core/errors/AppError.js';
+
+export type EscrowStatus = 'pending' | 'held' | 'settled' | 'cancelled';
+
+export interface JobEscrow {
+  id: number;
+  job_id: number;
+  payment_hash: string;
+  preimage: string;
+  payment_request: string;
+  amount_sats: number;
+  price_snapshot_id: number | null;
+  status: EscrowStatus;
+  release_after: Date | null;
+  created_at: Date;
+  expires_at: Date;
+  held_at: Date | null;
+  settled_at: Date | null;
+  cancelled_at: Date | null;
+  updated_at: Date;
+}
+
+export interface CreateEscrowDto {
+  jobId: number;
+  paymentHash: string;
+  preimage: string;
+  paymentRequest: string;
+  amountSats: number;
+  priceSnapshotId: number | null;
+  expiresAt: Date;
+}
+
+const ESCROW_COLUMNS = `
+  id, job_id, payment_hash, preimage, payment_request, amount_sats::int as amount_sats,
+  price_snapshot_id, status, release_after, created_at, expires_at, held_at, settled_at, cancelled_at, updated_at
+`;
+
+export class EscrowRepository extends BaseRepository<JobEscrow> {
+  /**
+   * Find the latest escrow of a job
+   * A job released back to the open pool keeps its cancelled escrows, and
+   * the next runner's escrow is the latest one
+   */
+  async findByJobId(jobId: number): Promise<JobEscrow | null> {
+    const query = `
+      SELECT ${ESCROW_COLUMNS}
+      FROM job_escrows
+      WHERE job_id = $1
+      ORDER BY id DESC
+      LIMIT 1
+    `;
+    return this.queryOne<JobEscrow>(query, [jobId]);
+  }
+
+  /**
+   * Find escrow by payment hash
+   */
+  async findByPaymentHash(paymentHash: string): Promise<JobEscrow | null> {
+    const query = `
+      SELECT ${ESCROW_COLUMNS}
+      FROM job_escrows
+      WHERE payment_hash = $1
+    `;
+    return this.queryOne<JobEscrow>(query, [paymentHash]);
+  }
+
+  /**
+   * Create escrow for a job
+   */
+  async create(data: CreateEscrowDto): Promise<JobEscrow> {
+    const query = `
+      INSERT INTO job_escrows (
+        job_id, payment_hash, preimage, payment_request, amount_sats, price_snapshot_id, status, expires_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, 'pending', $7)
+      RETURNING ${ESCROW_COLUMNS}
+    `;
+
+    const escrows = await this.queryRows<JobEscrow>(query, [
+      data.jobId,
+      data.paymentHash,
+      data.preimage,
+      data.paymentRequest,
+      data.amountSats,
+      data.priceSnapshotId,
+      data.expiresAt,
+    ]);
+
+    if (escrows.length === 0) {
+      throw new NotFoundError('Failed to create escrow', 'ESCROW_CREATE_FAILED');
+    }
+
+    return escrows[0]!;
+  }
+
+  /**
+   * Mark escrow as held (client HTLC locked in)
+   */
+  async markHeld(id: number): Promise<JobEscrow | null> {
+    const query = `
+      UPDATE job_escrows
+      SET status = 'held', held_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+      RETURNING ${ESCROW_COLUMNS}
+    `;
+    return this.queryOne<JobEscrow>(query, [id]);
+  }
+
+  /**
+   * Mark escrow as settled (preimage released)
+   * Returns null if the escrow was not held, so concurrent releases settle once
+   */
+  async markSettled(id: number): Promise<JobEscrow | null> {
+    const query = `
+      UPDATE job_escrows
+      SET status = 'settled', settled_at = NOW()
+      WHERE id = $1 AND status = 'held'
+      RETURNING ${ESCROW_COLUMNS}
+    `;
+    return this.queryOne<JobEscrow>(query, [id]);
+  }
+
+  /**
+   * Mark escrow as cancelled (client refunded)
+   */
+  async markCancelled(id: number): Promise<JobEscrow | null> {
+    const query = `
+      UPDATE job_escrows
+      SET status = 'cancelled', cancelled_at = NOW()
+      WHERE id = $1 AND status IN ('pending', 'held')
+      RETURNING ${ESCROW_COLUMNS}
+    `;
+    return this.queryOne<JobEscrow>(query, [id]);
+  }
+
+  /**
+   * Set the time after which the escrow is released automatically
+   */
+  async setReleaseAfter(jobId: number, releaseAfter: Date): Promise<void> {
+    const query = `
+      UPDATE job_escrows
+      SET release_after = $2
+      WHERE job_id = $1 AND status IN ('pending', 'held')
+    `;
+    await this.query(query, [jobId, releaseAfter]);
+  }
+
+  /**
+   * Find escrows still waiting for the client's payment, oldest first
+   */
+  async findPending(): Promise<JobEscrow[]> {
+    const query = `
+      SELECT ${ESCROW_COLUMNS}
+      FROM job_escrows
+      WHERE status = 'pending'
+      ORDER BY created_at ASC
+    `;
+    return this.queryRows<JobEscrow>(query);
+  }
+
+  /**
+   * Find held escrows whose release window has passed
+   * Jobs that left awaiting_payment (e.g. disputed) are skipped
+   */
+  async findDueForRelease(limit: number = 50): Promise<JobEscrow[]> {
+    const query = `
+      SELECT ${ESCROW_COLUMNS}
+      FROM job_escrows
+      WHERE status = 'held'
+        AND release_after IS NOT NULL
+        AND release_after <= NOW()
+        AND EXISTS (
+          SELECT 1 FROM jobs j
+          WHERE j.id = job_escrows.job_id AND j.status = 'awaiting_payment'
+        )
+      ORDER BY release_after ASC
+      LIMIT $1
+    `;
+    return this.queryRows<JobEscrow>(query, [limit]);
+  }
+
+  /**
+   * Held escrows locked in since before a cutoff
+   * Used to release or refund escrow before the node's CLTV window runs out
+   */
+  async findHeldSince(cutoff: Date, limit: number = 50): Promise<JobEscrow[]> {
+    const query = `
+      SELECT ${ESCROW_COLUMNS}
+      FROM job_escrows
+      WHERE status = 'held' AND held_at <= $1
+      ORDER BY held_at ASC
+      LIMIT $2
+    `;
+    return this.queryRows<JobEscrow>(query, [cutoff, limit]);
+  }
+
+  /**
+   * Total locked in held escrows: accepted by the node, not settled yet
+   */
+  async sumHeldSats(): Promise<number> {
+    const query = `
+      SELECT COALESCE(SUM(amount_sats), 0)::float as total
+      FROM job_escrows
+      WHERE status = 'held'
+    `;
+    const result = await this.queryOne<{ total: number }>(query);
+    return result?.total ?? 0;
+  }
+}
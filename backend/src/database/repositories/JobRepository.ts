@@ -3,9 +3,11 @@
  * Data access layer for jobs table
  */
 
+import { PoolClient } from 'pg';
 import { BaseRepository } from './BaseRepository.js';
-import { NotFoundError } from '../../core/errors/AppError.js';
-import { JobStatus } from '../../types/index.js';
+import { NotFoundError, ConflictError } from '../../core/errors/AppError.js';
+import { JobActor, JobStatus } from '../../types/index.js';
+import { CreateJobStopDto } from './JobStopRepository.js';
 
 export interface Job {
   id: number;
@@ -23,6 +25,8 @@ export interface Job {
   accepted_at: Date | null;
   completed_at: Date | null;
   payment_confirmed_at: Date | null;
+  category: string | null;
+  fedi_community_id: string | null; // Posted from this Fedi community
 }
 
 export interface CreateJobDto {
@@ -33,6 +37,9 @@ export interface CreateJobDto {
   location?: { lat: number; lng: number } | undefined;
   address?: string | undefined;
   deadline?: Date | undefined;
+  category?: string | undefined;
+  fediCommunityId?: string | undefined;
+  stops?: CreateJobStopDto[] | undefined; // In visiting order
 }
 
 export interface UpdateJobDto {
@@ -43,6 +50,14 @@ export interface UpdateJobDto {
   deadline?: Date | undefined;
 }
 
+export interface JobStatusChange {
+  actor: JobActor;
+  actorId: number | null;
+  reason?: string | undefined;
+  runnerId?: number | undefined;
+  priceCents?: number | undefined; // Agreed price replacing the current price; a job back in the open pool gets its listed price
+}
+
 export interface JobFilters {
   status?: JobStatus | undefined;
   clientId?: number | undefined;
@@ -61,7 +76,7 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       FROM jobs
       WHERE id = $1
     `;
@@ -82,22 +97,22 @@ export class JobRepository extends BaseRepository<Job> {
       ? `
         INSERT INTO jobs (
           client_id, title, description, price_cents, location, 
-          pickup_address, status, deadline, created_at, updated_at
+          pickup_address, status, deadline, category, fedi_community_id, created_at, updated_at
         )
-        VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($5, $6), 4326), $7, 'open', $8, NOW(), NOW())
+        VALUES ($1, $2, $3, $4, ST_SetSRID(ST_MakePoint($5, $6), 4326), $7, 'open', $8, $9, $10, NOW(), NOW())
         RETURNING id, client_id, runner_id, title, description, price_cents,
                   location, pickup_address as address, status, deadline, created_at, updated_at,
-                  accepted_at, completed_at, payment_confirmed_at
+                  accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       `
       : `
         INSERT INTO jobs (
           client_id, title, description, price_cents, location, 
-          pickup_address, status, deadline, created_at, updated_at
+          pickup_address, status, deadline, category, fedi_community_id, created_at, updated_at
         )
-        VALUES ($1, $2, $3, $4, NULL, $5, 'open', $6, NOW(), NOW())
+        VALUES ($1, $2, $3, $4, NULL, $5, 'open', $6, $7, $8, NOW(), NOW())
         RETURNING id, client_id, runner_id, title, description, price_cents,
                   location, pickup_address as address, status, deadline, created_at, updated_at,
-                  accepted_at, completed_at, payment_confirmed_at
+                  accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       `;
 
     const params = data.location
@@ -110,6 +125,8 @@ export class JobRepository extends BaseRepository<Job> {
           data.location.lat,
           data.address || null,
           data.deadline || null,
+          data.category || null,
+          data.fediCommunityId || null,
         ]
       : [
           data.clientId,
@@ -118,15 +135,30 @@ export class JobRepository extends BaseRepository<Job> {
           data.priceCents,
           data.address || null,
           data.deadline || null,
+          data.category || null,
+          data.fediCommunityId || null,
         ];
 
-    const jobs = await this.queryRows<Job>(query, params);
+    return this.transaction(async (client) => {
+      const result = await client.query<Job>(query, params);
+      const job = result.rows[0];
 
-    if (jobs.length === 0) {
-      throw new NotFoundError('Failed to create job', 'JOB_CREATE_FAILED');
-    }
+      if (!job) {
+        throw new NotFoundError('Failed to create job', 'JOB_CREATE_FAILED');
+      }
 
-    return jobs[0]!;
+      await this.insertStops(client, job.id, data.stops ?? []);
+
+      await this.recordStatusChange(
+        client,
+        job.id,
+        null,
+        job.status,
+        { actor: 'client', actorId: data.clientId }
+      );
+
+      return job;
+    });
   }
 
   /**
@@ -176,7 +208,7 @@ export class JobRepository extends BaseRepository<Job> {
       WHERE id = $${paramCount}
       RETURNING id, client_id, runner_id, title, description, price_cents,
                 location, status, deadline, created_at, updated_at,
-                accepted_at, completed_at, payment_confirmed_at
+                accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
     `;
 
     const jobs = await this.queryRows<Job>(query, values);
@@ -189,53 +221,68 @@ export class JobRepository extends BaseRepository<Job> {
   }
 
   /**
-   * Update job status
+   * Move a job from one status to another and record it in the status history
+   * Only succeeds if the job is still in `from`, so concurrent transitions can't
+   * both win. Callers validate the transition against the job state machine.
    */
-  async updateStatus(id: number, status: JobStatus): Promise<Job> {
-    const timestampField = this.getTimestampFieldForStatus(status);
-    const timestampUpdate = timestampField ? `, ${timestampField} = NOW()` : '';
+  async transitionStatus(
+    id: number,
+    from: JobStatus,
+    to: JobStatus,
+    change: JobStatusChange
+  ): Promise<Job> {
+    const updates: string[] = ['status = $1', 'updated_at = NOW()'];
+    const values: any[] = [to, id, from];
+
+    const timestampField = this.getTimestampFieldForStatus(to);
+    if (timestampField) {
+      updates.push(`${timestampField} = NOW()`);
+    }
 
-    const query = `
-      UPDATE jobs
-      SET status = $1, updated_at = NOW()${timestampUpdate}
-      WHERE id = $2
-      RETURNING id, client_id, runner_id, title, description, price_cents,
-                location, status, deadline, created_at, updated_at,
-                accepted_at, completed_at, payment_confirmed_at
-    `;
+    if (to === 'accepted' && change.runnerId !== undefined) {
+      updates.push(`runner_id = $${values.length + 1}`);
+      values.push(change.runnerId);
+    }
 
-    const jobs = await this.queryRows<Job>(query, [status, id]);
-    
-    if (jobs.length === 0) {
-      throw new NotFoundError(`Job with ID ${id} not found`, 'JOB_NOT_FOUND');
+    if (to === 'accepted') {
+      // Keep the client's price while the accepted offer's price applies
+      updates.push('listed_price_cents = price_cents');
     }
 
-    return jobs[0]!;
-  }
+    // Back to the open pool: the job no longer has a runner and is listed
+    // at the client's price again, not the one agreed with the last runner
+    if (to === 'open') {
+      updates.push('runner_id = NULL', 'accepted_at = NULL');
+      updates.push('price_cents = COALESCE(listed_price_cents, price_cents)', 'listed_price_cents = NULL');
+    } else if (change.priceCents !== undefined) {
+      updates.push(`price_cents = $${values.length + 1}`);
+      values.push(change.priceCents);
+    }
 
-  /**
-   * Assign runner to job
-   */
-  async assignRunner(jobId: number, runnerId: number): Promise<Job> {
     const query = `
       UPDATE jobs
-      SET runner_id = $1, status = 'accepted', accepted_at = NOW(), updated_at = NOW()
-      WHERE id = $2 AND status = 'open'
+      SET ${updates.join(', ')}
+      WHERE id = $2 AND status = $3
       RETURNING id, client_id, runner_id, title, description, price_cents,
                 location, status, deadline, created_at, updated_at,
-                accepted_at, completed_at, payment_confirmed_at
+                accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
     `;
 
-    const jobs = await this.queryRows<Job>(query, [runnerId, jobId]);
-    
-    if (jobs.length === 0) {
-      throw new NotFoundError(
-        `Job with ID ${jobId} not found or not available`,
-        'JOB_NOT_AVAILABLE'
-      );
-    }
+    return this.transaction(async (client) => {
+      const result = await client.query<Job>(query, values);
+      const job = result.rows[0];
 
-    return jobs[0]!;
+      if (!job) {
+        throw new ConflictError(
+          `Job with ID ${id} is no longer ${from}`,
+          'JOB_STATUS_CHANGED'
+        );
+      }
+
+      await this.recordStatusChange(client, id, from, to, change);
+
+      return job;
+    });
   }
 
   /**
@@ -245,7 +292,7 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       FROM jobs
       WHERE client_id = $1
       ORDER BY created_at DESC
@@ -262,7 +309,7 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       FROM jobs
       WHERE runner_id = $1
       ORDER BY created_at DESC
@@ -279,7 +326,7 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       FROM jobs
       WHERE status = $1
       ORDER BY created_at DESC
@@ -291,6 +338,7 @@ export class JobRepository extends BaseRepository<Job> {
 
   /**
    * Find nearby jobs
+   * A job matches when any of its stops is within the radius; distance is to the closest stop
    */
   async findNearby(
     lat: number,
@@ -302,18 +350,39 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at,
-             ST_Distance(
-               location::geography,
-               ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id,
+             LEAST(
+               ST_Distance(
+                 location::geography,
+                 ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
+               ),
+               (
+                 SELECT MIN(ST_Distance(s.location, ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography))
+                 FROM job_stops s
+                 WHERE s.job_id = jobs.id
+               )
              ) / 1000 as distance_km
       FROM jobs
       WHERE status = 'open'
-        AND location IS NOT NULL
-        AND ST_DWithin(
-          location::geography,
-          ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
-          $3 * 1000
+        AND (
+          (
+            location IS NOT NULL
+            AND ST_DWithin(
+              location::geography,
+              ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
+              $3 * 1000
+            )
+          )
+          OR EXISTS (
+            SELECT 1
+            FROM job_stops s
+            WHERE s.job_id = jobs.id
+              AND ST_DWithin(
+                s.location,
+                ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
+                $3 * 1000
+              )
+          )
         )
       ORDER BY distance_km ASC
       LIMIT $4 OFFSET $5
@@ -362,7 +431,7 @@ export class JobRepository extends BaseRepository<Job> {
     const query = `
       SELECT id, client_id, runner_id, title, description, price_cents,
              location, pickup_address as address, status, deadline, created_at, updated_at,
-             accepted_at, completed_at, payment_confirmed_at
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
       FROM jobs
       ${whereClause}
       ORDER BY created_at DESC
@@ -419,6 +488,78 @@ export class JobRepository extends BaseRepository<Job> {
     return parseInt(result?.count || '0', 10);
   }
 
+  /**
+   * Count jobs a runner delivered and was paid (in full or in part) for
+   */
+  async countDeliveredJobsForRunner(runnerId: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM jobs
+      WHERE runner_id = $1 AND status IN ('completed', 'payment_confirmed', 'paid')
+    `;
+
+    const result = await this.queryOne<{ count: string }>(query, [runnerId]);
+    return parseInt(result?.count || '0', 10);
+  }
+
+  /**
+   * Open jobs whose deadline passed before a runner was assigned
+   */
+  async findExpiredOpen(limit: number): Promise<Job[]> {
+    const query = `
+      SELECT id, client_id, runner_id, title, description, price_cents,
+             location, pickup_address as address, status, deadline, created_at, updated_at,
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
+      FROM jobs
+      WHERE status = 'open' AND deadline IS NOT NULL AND deadline < NOW()
+      ORDER BY deadline ASC
+      LIMIT $1
+    `;
+
+    return this.queryRows<Job>(query, [limit]);
+  }
+
+  /**
+   * Accepted jobs the runner has not started since before a time
+   */
+  async findUnstarted(acceptedBefore: Date, limit: number): Promise<Job[]> {
+    const query = `
+      SELECT id, client_id, runner_id, title, description, price_cents,
+             location, pickup_address as address, status, deadline, created_at, updated_at,
+             accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
+      FROM jobs
+      WHERE status = 'accepted' AND accepted_at < $1
+      ORDER BY accepted_at ASC
+      LIMIT $2
+    `;
+
+    return this.queryRows<Job>(query, [acceptedBefore, limit]);
+  }
+
+  /**
+   * Claim jobs in progress that ran past their deadline and have not been
+   * flagged yet; each job is only returned once
+   */
+  async claimOverdue(limit: number): Promise<Job[]> {
+    const query = `
+      UPDATE jobs
+      SET overdue_notified_at = NOW()
+      WHERE id IN (
+        SELECT id FROM jobs
+        WHERE status = 'in_progress' AND deadline IS NOT NULL AND deadline < NOW()
+          AND overdue_notified_at IS NULL
+        ORDER BY deadline ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING id, client_id, runner_id, title, description, price_cents,
+                location, pickup_address as address, status, deadline, created_at, updated_at,
+                accepted_at, completed_at, payment_confirmed_at, category, fedi_community_id
+    `;
+
+    return this.queryRows<Job>(query, [limit]);
+  }
+
   /**
    * Delete job
    */
@@ -427,6 +568,40 @@ export class JobRepository extends BaseRepository<Job> {
     await this.query(query, [id]);
   }
 
+  /**
+   * Insert the stops of a new job within the caller's transaction
+   */
+  private async insertStops(
+    client: PoolClient,
+    jobId: number,
+    stops: CreateJobStopDto[]
+  ): Promise<void> {
+    for (const [position, stop] of stops.entries()) {
+      await client.query(
+        `INSERT INTO job_stops (job_id, position, kind, location, address, instructions)
+         VALUES ($1, $2, $3, ST_SetSRID(ST_MakePoint($4, $5), 4326)::geography, $6, $7)`,
+        [jobId, position, stop.kind, stop.lng, stop.lat, stop.address, stop.instructions ?? null]
+      );
+    }
+  }
+
+  /**
+   * Append an entry to job_status_history within the caller's transaction
+   */
+  private async recordStatusChange(
+    client: PoolClient,
+    jobId: number,
+    from: JobStatus | null,
+    to: JobStatus,
+    change: JobStatusChange
+  ): Promise<void> {
+    await client.query(
+      `INSERT INTO job_status_history (job_id, from_status, to_status, actor, actor_id, reason)
+       VALUES ($1, $2, $3, $4, $5, $6)`,
+      [jobId, from, to, change.actor, change.actorId, change.reason ?? null]
+    );
+  }
+
   /**
    * Get timestamp field for status
    */
@@ -435,9 +610,12 @@ export class JobRepository extends BaseRepository<Job> {
       case 'accepted':
         return 'accepted_at';
       case 'completed':
+      case 'awaiting_payment':
         return 'completed_at';
       case 'payment_confirmed':
         return 'payment_confirmed_at';
+      case 'paid':
+        return 'paid_at';
       default:
         return null;
     }
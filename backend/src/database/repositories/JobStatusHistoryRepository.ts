@@ -0,0 +1,35 @@
+/**
+ * Job Status History Repository
+ * Data access layer for job_status_history table
+ *
+ * Entries are written by JobRepository alongside each status change.
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { JobActor, JobStatus } from '../../types/index.js';
+
+export interface JobStatusHistoryEntry {
+  id: number;
+  job_id: number;
+  from_status: JobStatus | null;
+  to_status: JobStatus;
+  actor: JobActor;
+  actor_id: number | null;
+  reason: string | null;
+  created_at: Date;
+}
+
+export class JobStatusHistoryRepository extends BaseRepository<JobStatusHistoryEntry> {
+  /**
+   * Find all status changes for a job, oldest first
+   */
+  async findByJobId(jobId: number): Promise<JobStatusHistoryEntry[]> {
+    const query = `
+      SELECT id, job_id, from_status, to_status, actor, actor_id, reason, created_at
+      FROM job_status_history
+      WHERE job_id = $1
+      ORDER BY created_at ASC, id ASC
+    `;
+    return this.queryRows<JobStatusHistoryEntry>(query, [jobId]);
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Job Stop Repository
+ * Data access layer for the job_stops table
+ * Stops are written together with their job in JobRepository.create
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { ConflictError, NotFoundError } from '../../core/errors/AppError.js';
+
+export type JobStopKind = 'pickup' | 'dropoff' | 'stop';
+
+export interface JobStop {
+  id: number;
+  job_id: number;
+  position: number;
+  kind: JobStopKind;
+  lat: number;
+  lng: number;
+  address: string;
+  instructions: string | null;
+  completed_at: Date | null;
+  completed_by: number | null;
+  created_at: Date;
+}
+
+export interface CreateJobStopDto {
+  kind: JobStopKind;
+  lat: number;
+  lng: number;
+  address: string;
+  instructions?: string | null | undefined;
+}
+
+export const JOB_STOP_COLUMNS = `
+  id, job_id, position, kind,
+  ST_Y(location::geometry) as lat, ST_X(location::geometry) as lng,
+  address, instructions, completed_at, completed_by, created_at
+`;
+
+export class JobStopRepository extends BaseRepository<JobStop> {
+  /**
+   * Find the stops of a job in visiting order
+   */
+  async findByJobId(jobId: number): Promise<JobStop[]> {
+    const query = `
+      SELECT ${JOB_STOP_COLUMNS}
+      FROM job_stops
+      WHERE job_id = $1
+      ORDER BY position ASC
+    `;
+
+    return this.queryRows(query, [jobId]);
+  }
+
+  /**
+   * Find the stops of several jobs, grouped by job in visiting order
+   */
+  async findByJobIds(jobIds: number[]): Promise<Map<number, JobStop[]>> {
+    const stopsByJob = new Map<number, JobStop[]>();
+    if (jobIds.length === 0) {
+      return stopsByJob;
+    }
+
+    const query = `
+      SELECT ${JOB_STOP_COLUMNS}
+      FROM job_stops
+      WHERE job_id = ANY($1::int[])
+      ORDER BY job_id, position ASC
+    `;
+    const stops = await this.queryRows(query, [jobIds]);
+
+    for (const stop of stops) {
+      const jobStops = stopsByJob.get(stop.job_id) ?? [];
+      jobStops.push(stop);
+      stopsByJob.set(stop.job_id, jobStops);
+    }
+
+    return stopsByJob;
+  }
+
+  /**
+   * Check a stop off
+   * Only succeeds once per stop
+   */
+  async complete(jobId: number, stopId: number, runnerId: number): Promise<JobStop> {
+    const query = `
+      UPDATE job_stops
+      SET completed_at = NOW(), completed_by = $3
+      WHERE id = $1 AND job_id = $2 AND completed_at IS NULL
+      RETURNING ${JOB_STOP_COLUMNS}
+    `;
+    const stop = await this.queryOne(query, [stopId, jobId, runnerId]);
+
+    if (!stop) {
+      const exists = await this.exists(
+        'SELECT EXISTS(SELECT 1 FROM job_stops WHERE id = $1 AND job_id = $2) as exists',
+        [stopId, jobId]
+      );
+
+      if (!exists) {
+        throw new NotFoundError(`Stop with ID ${stopId} not found on job ${jobId}`, 'STOP_NOT_FOUND');
+      }
+      throw new ConflictError('Stop has already been completed', 'STOP_ALREADY_COMPLETED');
+    }
+
+    return stop;
+  }
+
+  /**
+   * Count stops the runner has not checked off yet
+   */
+  async countPending(jobId: number): Promise<number> {
+    const query = `
+      SELECT COUNT(*) as count
+      FROM job_stops
+      WHERE job_id = $1 AND completed_at IS NULL
+    `;
+    const result = await this.queryOne<{ count: string }>(query, [jobId]);
+
+    return parseInt(result?.count || '0', 10);
+  }
+}
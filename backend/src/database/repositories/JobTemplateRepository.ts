@@ -0,0 +1,453 @@
+/**
+ * Job Template Repository
+ * Data access layer for recurring errands (job_templates and their occurrences)
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { NotFoundError } from '../../core/errors/AppError.js';
+import type { CreateJobStopDto } from './JobStopRepository.js';
+
+export type JobTemplateStatus = 'active' | 'paused' | 'ended';
+
+export type OccurrenceStatus = 'scheduled' | 'created' | 'skipped' | 'missed' | 'failed';
+
+export interface JobTemplate {
+  id: number;
+  client_id: number;
+  title: string;
+  description: string;
+  price_cents: number;
+  category: string | null;
+  fedi_community_id: string | null;
+  address: string | null;
+  stops: CreateJobStopDto[]; // Normalized when the template is saved
+  rrule: string;
+  timezone: string;
+  starts_at: Date;
+  lead_hours: number;
+  prefer_previous_runner: boolean;
+  status: JobTemplateStatus;
+  generated_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface JobTemplateOccurrence {
+  id: number;
+  template_id: number;
+  original_at: Date;
+  scheduled_for: Date;
+  status: OccurrenceStatus;
+  job_id: number | null;
+  error_message: string | null;
+  title_override: string | null;
+  description_override: string | null;
+  price_cents_override: number | null;
+  reserved_runner_id: number | null;
+  reserved_until: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateJobTemplateDto {
+  clientId: number;
+  title: string;
+  description: string;
+  priceCents: number;
+  category: string | null;
+  fediCommunityId: string | null;
+  address: string | null;
+  stops: CreateJobStopDto[];
+  rrule: string;
+  timezone: string;
+  startsAt: Date;
+  leadHours: number;
+  preferPreviousRunner: boolean;
+}
+
+export type UpdateJobTemplateDto = Partial<Omit<CreateJobTemplateDto, 'clientId'>>;
+
+export interface UpdateOccurrenceDto {
+  scheduledFor?: Date;
+  titleOverride?: string | null;
+  descriptionOverride?: string | null;
+  priceCentsOverride?: number | null;
+}
+
+const TEMPLATE_COLUMNS = `
+  id, client_id, title, description, price_cents, category, fedi_community_id,
+  address, stops, rrule, timezone, starts_at, lead_hours,
+  prefer_previous_runner, status, generated_until, created_at, updated_at
+`;
+
+const OCCURRENCE_COLUMNS = `
+  id, template_id, original_at, scheduled_for, status, job_id, error_message,
+  title_override, description_override, price_cents_override,
+  reserved_runner_id, reserved_until, created_at, updated_at
+`;
+
+// Template fields and the columns they are stored in
+const TEMPLATE_FIELDS: Record<keyof UpdateJobTemplateDto, string> = {
+  title: 'title',
+  description: 'description',
+  priceCents: 'price_cents',
+  category: 'category',
+  fediCommunityId: 'fedi_community_id',
+  address: 'address',
+  stops: 'stops',
+  rrule: 'rrule',
+  timezone: 'timezone',
+  startsAt: 'starts_at',
+  leadHours: 'lead_hours',
+  preferPreviousRunner: 'prefer_previous_runner',
+};
+
+const OCCURRENCE_FIELDS: Record<keyof UpdateOccurrenceDto, string> = {
+  scheduledFor: 'scheduled_for',
+  titleOverride: 'title_override',
+  descriptionOverride: 'description_override',
+  priceCentsOverride: 'price_cents_override',
+};
+
+export class JobTemplateRepository extends BaseRepository<JobTemplate> {
+  /**
+   * Find template by ID
+   */
+  async findById(id: number): Promise<JobTemplate> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM job_templates
+      WHERE id = $1
+    `;
+    const template = await this.queryOne(query, [id]);
+
+    if (!template) {
+      throw new NotFoundError(`Recurring errand with ID ${id} not found`, 'JOB_TEMPLATE_NOT_FOUND');
+    }
+
+    return template;
+  }
+
+  /**
+   * List a client's templates, newest first
+   */
+  async findByClientId(clientId: number): Promise<JobTemplate[]> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM job_templates
+      WHERE client_id = $1
+      ORDER BY created_at DESC
+    `;
+    return this.queryRows(query, [clientId]);
+  }
+
+  /**
+   * List the templates the scheduler posts jobs for
+   */
+  async findActive(): Promise<JobTemplate[]> {
+    const query = `
+      SELECT ${TEMPLATE_COLUMNS}
+      FROM job_templates
+      WHERE status = 'active'
+    `;
+    return this.queryRows(query);
+  }
+
+  /**
+   * Count a client's templates that are not ended
+   */
+  async countOpenForClient(clientId: number): Promise<number> {
+    const row = await this.queryOne<{ count: number }>(
+      `SELECT COUNT(*)::int as count FROM job_templates WHERE client_id = $1 AND status <> 'ended'`,
+      [clientId]
+    );
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Create a template
+   */
+  async create(data: CreateJobTemplateDto): Promise<JobTemplate> {
+    const query = `
+      INSERT INTO job_templates (
+        client_id, title, description, price_cents, category, fedi_community_id,
+        address, stops, rrule, timezone, starts_at, lead_hours, prefer_previous_runner
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+      RETURNING ${TEMPLATE_COLUMNS}
+    `;
+    const template = await this.queryOne(query, [
+      data.clientId,
+      data.title,
+      data.description,
+      data.priceCents,
+      data.category,
+      data.fediCommunityId,
+      data.address,
+      JSON.stringify(data.stops),
+      data.rrule,
+      data.timezone,
+      data.startsAt,
+      data.leadHours,
+      data.preferPreviousRunner,
+    ]);
+    return template!;
+  }
+
+  /**
+   * Update template fields
+   */
+  async update(id: number, data: UpdateJobTemplateDto): Promise<JobTemplate> {
+    const sets: string[] = [];
+    const params: any[] = [id];
+
+    for (const [field, column] of Object.entries(TEMPLATE_FIELDS)) {
+      const value = data[field as keyof UpdateJobTemplateDto];
+      if (value !== undefined) {
+        params.push(field === 'stops' ? JSON.stringify(value) : value);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    if (sets.length === 0) {
+      return this.findById(id);
+    }
+
+    const query = `
+      UPDATE job_templates
+      SET ${sets.join(', ')}, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${TEMPLATE_COLUMNS}
+    `;
+    const template = await this.queryOne(query, params);
+    if (!template) {
+      throw new NotFoundError(`Recurring errand with ID ${id} not found`, 'JOB_TEMPLATE_NOT_FOUND');
+    }
+    return template;
+  }
+
+  /**
+   * Pause, resume or end a template
+   */
+  async setStatus(id: number, status: JobTemplateStatus): Promise<JobTemplate> {
+    const query = `
+      UPDATE job_templates
+      SET status = $2, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${TEMPLATE_COLUMNS}
+    `;
+    const template = await this.queryOne(query, [id, status]);
+    if (!template) {
+      throw new NotFoundError(`Recurring errand with ID ${id} not found`, 'JOB_TEMPLATE_NOT_FOUND');
+    }
+    return template;
+  }
+
+  /**
+   * Write occurrences the rule puts in the window, keeping ones already written
+   */
+  async addOccurrences(templateId: number, dates: Date[], generatedUntil: Date): Promise<void> {
+    await this.transaction(async (client) => {
+      if (dates.length > 0) {
+        await client.query(
+          `INSERT INTO job_template_occurrences (template_id, original_at, scheduled_for)
+           SELECT $1, at, at FROM UNNEST($2::timestamp[]) AS at
+           ON CONFLICT (template_id, original_at) DO NOTHING`,
+          [templateId, dates]
+        );
+      }
+      await client.query(
+        `UPDATE job_templates SET generated_until = $2 WHERE id = $1`,
+        [templateId, generatedUntil]
+      );
+    });
+  }
+
+  /**
+   * Drop occurrences still waiting to be posted, e.g. after the rule changed
+   */
+  async deleteScheduled(templateId: number): Promise<void> {
+    await this.query(
+      `DELETE FROM job_template_occurrences WHERE template_id = $1 AND status = 'scheduled'`,
+      [templateId]
+    );
+    await this.query(`UPDATE job_templates SET generated_until = NULL WHERE id = $1`, [templateId]);
+  }
+
+  /**
+   * Find occurrence by ID
+   */
+  async findOccurrenceById(id: number): Promise<JobTemplateOccurrence> {
+    const occurrence = await this.queryOne<JobTemplateOccurrence>(
+      `SELECT ${OCCURRENCE_COLUMNS} FROM job_template_occurrences WHERE id = $1`,
+      [id]
+    );
+
+    if (!occurrence) {
+      throw new NotFoundError(`Occurrence with ID ${id} not found`, 'OCCURRENCE_NOT_FOUND');
+    }
+
+    return occurrence;
+  }
+
+  /**
+   * Recent and upcoming occurrences of a template, in date order
+   * @param since - Leave out occurrences due before this
+   */
+  async findOccurrences(templateId: number, since: Date, limit: number): Promise<JobTemplateOccurrence[]> {
+    const query = `
+      SELECT ${OCCURRENCE_COLUMNS}
+      FROM job_template_occurrences
+      WHERE template_id = $1 AND scheduled_for >= $2
+      ORDER BY scheduled_for ASC
+      LIMIT $3
+    `;
+    return this.queryRows<JobTemplateOccurrence>(query, [templateId, since, limit]);
+  }
+
+  /**
+   * Change a single occurrence that has not been posted yet
+   * Returns null if it was posted or skipped in the meantime
+   */
+  async updateOccurrence(id: number, data: UpdateOccurrenceDto): Promise<JobTemplateOccurrence | null> {
+    const sets: string[] = [];
+    const params: any[] = [id];
+
+    for (const [field, column] of Object.entries(OCCURRENCE_FIELDS)) {
+      const value = data[field as keyof UpdateOccurrenceDto];
+      if (value !== undefined) {
+        params.push(value);
+        sets.push(`${column} = $${params.length}`);
+      }
+    }
+
+    const query = `
+      UPDATE job_template_occurrences
+      SET ${[...sets, 'updated_at = NOW()'].join(', ')}
+      WHERE id = $1 AND status = 'scheduled'
+      RETURNING ${OCCURRENCE_COLUMNS}
+    `;
+    return this.queryOne<JobTemplateOccurrence>(query, params);
+  }
+
+  /**
+   * Move an occurrence between statuses, e.g. skip it or undo the skip
+   * Returns null if it was no longer in the expected status
+   */
+  async transitionOccurrence(
+    id: number,
+    from: OccurrenceStatus,
+    to: OccurrenceStatus
+  ): Promise<JobTemplateOccurrence | null> {
+    const query = `
+      UPDATE job_template_occurrences
+      SET status = $3, updated_at = NOW()
+      WHERE id = $1 AND status = $2
+      RETURNING ${OCCURRENCE_COLUMNS}
+    `;
+    return this.queryOne<JobTemplateOccurrence>(query, [id, from, to]);
+  }
+
+  /**
+   * Mark occurrences that came due without a job being posted
+   * (their template was paused)
+   */
+  async markMissed(): Promise<number> {
+    const result = await this.query(
+      `UPDATE job_template_occurrences
+       SET status = 'missed', updated_at = NOW()
+       WHERE status = 'scheduled' AND scheduled_for <= NOW()`
+    );
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Claim occurrences of active templates that are within their lead time
+   * Claimed rows are marked created; rows claimed by another replica are skipped.
+   */
+  async claimDue(limit: number): Promise<JobTemplateOccurrence[]> {
+    const query = `
+      UPDATE job_template_occurrences
+      SET status = 'created', updated_at = NOW()
+      WHERE id IN (
+        SELECT o.id
+        FROM job_template_occurrences o
+        JOIN job_templates t ON t.id = o.template_id
+        WHERE o.status = 'scheduled'
+          AND t.status = 'active'
+          AND o.scheduled_for > NOW()
+          AND o.scheduled_for - make_interval(hours => t.lead_hours) <= NOW()
+        ORDER BY o.scheduled_for ASC
+        LIMIT $1
+        FOR UPDATE OF o SKIP LOCKED
+      )
+      RETURNING ${OCCURRENCE_COLUMNS}
+    `;
+    return this.queryRows<JobTemplateOccurrence>(query, [limit]);
+  }
+
+  /**
+   * Link the posted job, and the runner it is offered to first if any
+   */
+  async attachJob(
+    id: number,
+    jobId: number,
+    reservation: { runnerId: number; until: Date } | null
+  ): Promise<JobTemplateOccurrence> {
+    const query = `
+      UPDATE job_template_occurrences
+      SET job_id = $2, reserved_runner_id = $3, reserved_until = $4, updated_at = NOW()
+      WHERE id = $1
+      RETURNING ${OCCURRENCE_COLUMNS}
+    `;
+    const occurrence = await this.queryOne<JobTemplateOccurrence>(query, [
+      id,
+      jobId,
+      reservation?.runnerId ?? null,
+      reservation?.until ?? null,
+    ]);
+    return occurrence!;
+  }
+
+  /**
+   * Record why an occurrence could not be posted
+   */
+  async markFailed(id: number, errorMessage: string): Promise<void> {
+    await this.query(
+      `UPDATE job_template_occurrences
+       SET status = 'failed', error_message = $2, updated_at = NOW()
+       WHERE id = $1`,
+      [id, errorMessage]
+    );
+  }
+
+  /**
+   * Runner of the template's latest assigned job, or else of the client's
+   * latest paid job
+   */
+  async findPreviousRunner(templateId: number, clientId: number): Promise<number | null> {
+    const fromTemplate = await this.queryOne<{ runner_id: number }>(
+      `SELECT j.runner_id
+       FROM job_template_occurrences o
+       JOIN jobs j ON j.id = o.job_id
+       WHERE o.template_id = $1 AND j.runner_id IS NOT NULL AND j.status <> 'cancelled'
+       ORDER BY o.scheduled_for DESC
+       LIMIT 1`,
+      [templateId]
+    );
+    if (fromTemplate) {
+      return fromTemplate.runner_id;
+    }
+
+    const fromClient = await this.queryOne<{ runner_id: number }>(
+      `SELECT runner_id
+       FROM jobs
+       WHERE client_id = $1 AND runner_id IS NOT NULL
+         AND status IN ('payment_confirmed', 'paid')
+       ORDER BY updated_at DESC
+       LIMIT 1`,
+      [clientId]
+    );
+    return fromClient?.runner_id ?? null;
+  }
+}
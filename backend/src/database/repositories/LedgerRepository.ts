@@ -0,0 +1,178 @@
+/**
+ * Ledger Repository
+ * Data access layer for the double-entry ledger (ledger_accounts,
+ * ledger_transactions and ledger_entries)
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export type LedgerAccountType = 'lightning_float' | 'client_escrow' | 'runner_balance' | 'platform_fees';
+
+export type LedgerTransactionKind =
+  | 'invoice_settled'
+  | 'escrow_funded'
+  | 'escrow_refunded'
+  | 'earning_released'
+  | 'payout_sent'
+  | 'refund_sent';
+
+export interface LedgerTransaction {
+  id: number;
+  kind: LedgerTransactionKind;
+  reference: string;
+  job_id: number | null;
+  description: string | null;
+  created_at: Date;
+}
+
+export interface LedgerEntryDto {
+  account: LedgerAccountType;
+  userId: number | null;   // Owner of client and runner accounts
+  amountSats: number;      // Debit positive, credit negative
+}
+
+export interface PostLedgerTransactionDto {
+  kind: LedgerTransactionKind;
+  reference: string;
+  jobId: number | null;
+  description: string;
+  entries: LedgerEntryDto[];
+}
+
+export interface LedgerAccountBalance {
+  account_id: number;
+  type: LedgerAccountType;
+  user_id: number | null;
+  balance_sats: number;    // Sum of entries: debit positive, credit negative
+}
+
+export interface UnbalancedLedgerTransaction {
+  id: number;
+  reference: string;
+  total_sats: number;
+}
+
+export interface RunnerBalanceMismatch {
+  runner_id: number;
+  ledger_sats: number;     // Owed to the runner according to the ledger
+  earnings_sats: number;   // Unpaid net earnings in runner_earnings
+}
+
+const TRANSACTION_COLUMNS = `
+  id, kind, reference, job_id, description, created_at
+`;
+
+export class LedgerRepository extends BaseRepository<LedgerTransaction> {
+  /**
+   * Post a transaction and its entries atomically
+   * The database rejects entries that do not sum to zero at commit.
+   * @returns The transaction, or null if the reference was already posted
+   */
+  async post(data: PostLedgerTransactionDto): Promise<LedgerTransaction | null> {
+    return this.transaction(async (client) => {
+      const inserted = await client.query<LedgerTransaction>(
+        `INSERT INTO ledger_transactions (kind, reference, job_id, description)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT (reference) DO NOTHING
+         RETURNING ${TRANSACTION_COLUMNS}`,
+        [data.kind, data.reference, data.jobId, data.description]
+      );
+
+      const transaction = inserted.rows[0];
+      if (!transaction) {
+        return null;
+      }
+
+      for (const entry of data.entries) {
+        await client.query(
+          `INSERT INTO ledger_accounts (type, user_id)
+           VALUES ($1, $2)
+           ON CONFLICT (type, (COALESCE(user_id, 0))) DO NOTHING`,
+          [entry.account, entry.userId]
+        );
+
+        await client.query(
+          `INSERT INTO ledger_entries (transaction_id, account_id, amount_sats)
+           SELECT $1, id, $4
+           FROM ledger_accounts
+           WHERE type = $2 AND COALESCE(user_id, 0) = COALESCE($3::int, 0)`,
+          [transaction.id, entry.account, entry.userId, entry.amountSats]
+        );
+      }
+
+      return transaction;
+    });
+  }
+
+  /**
+   * Find a posted transaction by its reference
+   */
+  async findByReference(reference: string): Promise<LedgerTransaction | null> {
+    const query = `
+      SELECT ${TRANSACTION_COLUMNS}
+      FROM ledger_transactions
+      WHERE reference = $1
+    `;
+    return this.queryOne(query, [reference]);
+  }
+
+  /**
+   * Balance of every account
+   */
+  async getBalances(): Promise<LedgerAccountBalance[]> {
+    const query = `
+      SELECT a.id as account_id, a.type, a.user_id,
+             COALESCE(SUM(e.amount_sats), 0)::float as balance_sats
+      FROM ledger_accounts a
+      LEFT JOIN ledger_entries e ON e.account_id = a.id
+      GROUP BY a.id
+      ORDER BY a.type, a.user_id
+    `;
+    return this.queryRows<LedgerAccountBalance>(query);
+  }
+
+  /**
+   * Transactions whose entries do not sum to zero
+   * Should always be empty; the commit-time check can be bypassed by hand.
+   */
+  async findUnbalanced(): Promise<UnbalancedLedgerTransaction[]> {
+    const query = `
+      SELECT t.id, t.reference, COALESCE(SUM(e.amount_sats), 0)::float as total_sats
+      FROM ledger_transactions t
+      LEFT JOIN ledger_entries e ON e.transaction_id = t.id
+      GROUP BY t.id
+      HAVING COALESCE(SUM(e.amount_sats), 0) <> 0 OR COUNT(e.id) = 0
+      ORDER BY t.id
+    `;
+    return this.queryRows<UnbalancedLedgerTransaction>(query);
+  }
+
+  /**
+   * Runners whose ledger balance differs from their unpaid earnings
+   */
+  async findRunnerBalanceMismatches(): Promise<RunnerBalanceMismatch[]> {
+    const query = `
+      WITH ledger AS (
+        SELECT a.user_id as runner_id, -COALESCE(SUM(e.amount_sats), 0) as sats
+        FROM ledger_accounts a
+        LEFT JOIN ledger_entries e ON e.account_id = a.id
+        WHERE a.type = 'runner_balance'
+        GROUP BY a.user_id
+      ),
+      earnings AS (
+        SELECT runner_id, SUM(net_amount_sats) as sats
+        FROM runner_earnings
+        WHERE status IN ('pending', 'processing', 'failed', 'dead')
+        GROUP BY runner_id
+      )
+      SELECT COALESCE(l.runner_id, r.runner_id) as runner_id,
+             COALESCE(l.sats, 0)::float as ledger_sats,
+             COALESCE(r.sats, 0)::float as earnings_sats
+      FROM ledger l
+      FULL OUTER JOIN earnings r ON r.runner_id = l.runner_id
+      WHERE COALESCE(l.sats, 0) <> COALESCE(r.sats, 0)
+      ORDER BY runner_id
+    `;
+    return this.queryRows<RunnerBalanceMismatch>(query);
+  }
+}
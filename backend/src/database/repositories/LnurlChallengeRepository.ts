@@ -0,0 +1,81 @@
+/**
+ * LNURL Challenge Repository
+ * Data access layer for one-time LNURL-auth k1 challenges
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface LnurlChallenge {
+  k1: string;
+  linking_key: string | null;
+  expires_at: Date;
+  signed_at: Date | null;
+  claimed_at: Date | null;
+  created_at: Date;
+}
+
+export class LnurlChallengeRepository extends BaseRepository<LnurlChallenge> {
+  /**
+   * Store a new challenge
+   */
+  async create(k1: string, expiresAt: Date): Promise<LnurlChallenge> {
+    const query = `
+      INSERT INTO lnurl_auth_challenges (k1, expires_at)
+      VALUES ($1, $2)
+      RETURNING *
+    `;
+    const rows = await this.queryRows<LnurlChallenge>(query, [k1, expiresAt]);
+    return rows[0]!;
+  }
+
+  /**
+   * Find a challenge by k1
+   */
+  async findByK1(k1: string): Promise<LnurlChallenge | null> {
+    return this.queryOne<LnurlChallenge>('SELECT * FROM lnurl_auth_challenges WHERE k1 = $1', [k1]);
+  }
+
+  /**
+   * Record the wallet's linking key if the challenge is unsigned and unexpired
+   * @returns False if it is unknown, already signed or expired
+   */
+  async markSigned(k1: string, linkingKey: string): Promise<boolean> {
+    const query = `
+      UPDATE lnurl_auth_challenges
+      SET linking_key = $2, signed_at = NOW()
+      WHERE k1 = $1 AND signed_at IS NULL AND expires_at > NOW()
+      RETURNING k1
+    `;
+    const rows = await this.queryRows<{ k1: string }>(query, [k1, linkingKey]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Mark a signed challenge claimed if it is unclaimed and unexpired
+   * @returns Linking key that signed it, null if it cannot be claimed
+   */
+  async claim(k1: string): Promise<string | null> {
+    const query = `
+      UPDATE lnurl_auth_challenges
+      SET claimed_at = NOW()
+      WHERE k1 = $1 AND signed_at IS NOT NULL AND claimed_at IS NULL AND expires_at > NOW()
+      RETURNING linking_key
+    `;
+    const rows = await this.queryRows<{ linking_key: string }>(query, [k1]);
+    return rows[0]?.linking_key ?? null;
+  }
+
+  /**
+   * Delete challenges that expired before the given time
+   * @returns Number of challenges deleted
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    const query = `
+      DELETE FROM lnurl_auth_challenges
+      WHERE expires_at < $1
+      RETURNING k1
+    `;
+    const rows = await this.queryRows<{ k1: string }>(query, [before]);
+    return rows.length;
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Location Ping Repository
+ * Data access layer for the job_location_pings table
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface LocationPing {
+  id: number;
+  job_id: number;
+  runner_id: number;
+  lat: number;
+  lng: number;
+  accuracy_m: number | null;
+  heading: number | null;
+  speed_mps: number | null;
+  recorded_at: Date;
+}
+
+export interface CreateLocationPingDto {
+  jobId: number;
+  runnerId: number;
+  lat: number;
+  lng: number;
+  accuracyM?: number | null | undefined;
+  heading?: number | null | undefined;
+  speedMps?: number | null | undefined;
+}
+
+export interface PurgeLocationPingsOptions {
+  /** Trail of a job that left in_progress is kept this long */
+  afterJobMinutes: number;
+  /** Any ping older than this is removed */
+  maxAgeHours: number;
+}
+
+const PING_COLUMNS = `
+  id, job_id, runner_id,
+  ST_Y(location::geometry) as lat, ST_X(location::geometry) as lng,
+  accuracy_m, heading, speed_mps, recorded_at
+`;
+
+export class LocationPingRepository extends BaseRepository<LocationPing> {
+  /**
+   * Store a ping
+   */
+  async create(data: CreateLocationPingDto): Promise<LocationPing> {
+    const query = `
+      INSERT INTO job_location_pings (job_id, runner_id, location, accuracy_m, heading, speed_mps)
+      VALUES ($1, $2, ST_SetSRID(ST_MakePoint($3, $4), 4326)::geography, $5, $6, $7)
+      RETURNING ${PING_COLUMNS}
+    `;
+    const rows = await this.queryRows(query, [
+      data.jobId,
+      data.runnerId,
+      data.lng,
+      data.lat,
+      data.accuracyM ?? null,
+      data.heading ?? null,
+      data.speedMps ?? null,
+    ]);
+
+    return rows[0]!;
+  }
+
+  /**
+   * Most recent ping of a job
+   */
+  async findLatest(jobId: number): Promise<LocationPing | null> {
+    const query = `
+      SELECT ${PING_COLUMNS}
+      FROM job_location_pings
+      WHERE job_id = $1
+      ORDER BY recorded_at DESC
+      LIMIT 1
+    `;
+
+    return this.queryOne(query, [jobId]);
+  }
+
+  /**
+   * Breadcrumb trail of a job, oldest first
+   * @param limit - Only the most recent points
+   */
+  async findTrail(jobId: number, limit: number): Promise<LocationPing[]> {
+    const query = `
+      SELECT *
+      FROM (
+        SELECT ${PING_COLUMNS}
+        FROM job_location_pings
+        WHERE job_id = $1
+        ORDER BY recorded_at DESC
+        LIMIT $2
+      ) recent
+      ORDER BY recorded_at ASC
+    `;
+
+    return this.queryRows(query, [jobId, limit]);
+  }
+
+  /**
+   * Delete pings past the retention window
+   * @returns Number of pings deleted
+   */
+  async purgeExpired(options: PurgeLocationPingsOptions): Promise<number> {
+    const query = `
+      DELETE FROM job_location_pings p
+      USING jobs j
+      WHERE j.id = p.job_id
+        AND (
+          p.recorded_at < NOW() - make_interval(hours => $2)
+          OR (
+            j.status <> 'in_progress'
+            AND p.recorded_at < NOW() - make_interval(mins => $1)
+          )
+        )
+    `;
+    const result = await this.query(query, [options.afterJobMinutes, options.maxAgeHours]);
+
+    return result.rowCount ?? 0;
+  }
+}
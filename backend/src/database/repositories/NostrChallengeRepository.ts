@@ -0,0 +1,57 @@
+/**
+ * Nostr Challenge Repository
+ * Data access layer for one-time Nostr login challenges
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface NostrChallenge {
+  challenge: string;
+  expires_at: Date;
+  used_at: Date | null;
+  created_at: Date;
+}
+
+export class NostrChallengeRepository extends BaseRepository<NostrChallenge> {
+  /**
+   * Store a new challenge
+   */
+  async create(challenge: string, expiresAt: Date): Promise<NostrChallenge> {
+    const query = `
+      INSERT INTO nostr_auth_challenges (challenge, expires_at)
+      VALUES ($1, $2)
+      RETURNING challenge, expires_at, used_at, created_at
+    `;
+    const rows = await this.queryRows<NostrChallenge>(query, [challenge, expiresAt]);
+    return rows[0]!;
+  }
+
+  /**
+   * Mark a challenge used if it is unused and unexpired
+   * @returns False if it is unknown, already used or expired
+   */
+  async consume(challenge: string): Promise<boolean> {
+    const query = `
+      UPDATE nostr_auth_challenges
+      SET used_at = NOW()
+      WHERE challenge = $1 AND used_at IS NULL AND expires_at > NOW()
+      RETURNING challenge
+    `;
+    const rows = await this.queryRows<{ challenge: string }>(query, [challenge]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Delete challenges that expired before the given time
+   * @returns Number of challenges deleted
+   */
+  async deleteExpired(before: Date): Promise<number> {
+    const query = `
+      DELETE FROM nostr_auth_challenges
+      WHERE expires_at < $1
+      RETURNING challenge
+    `;
+    const rows = await this.queryRows<{ challenge: string }>(query, [before]);
+    return rows.length;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * Offer Repository
+ * Data access layer for the job_offers table
+ */
+
+import { PoolClient } from 'pg';
+import { BaseRepository } from './BaseRepository.js';
+import { ConflictError, NotFoundError } from '../../core/errors/AppError.js';
+
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'rejected' | 'withdrawn';
+
+export type OfferParty = 'client' | 'runner';
+
+export interface JobOffer {
+  id: number;
+  job_id: number;
+  runner_id: number;
+  parent_id: number | null;
+  proposed_by: OfferParty;
+  price_cents: number;
+  eta_minutes: number | null;
+  note: string | null;
+  status: OfferStatus;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface JobOfferSummary extends JobOffer {
+  job_title: string;
+  job_status: string;
+  client_id: number;
+}
+
+export interface CreateOfferDto {
+  jobId: number;
+  runnerId: number;
+  proposedBy: OfferParty;
+  priceCents: number;
+  etaMinutes: number | null;
+  note: string | null;
+}
+
+const OFFER_COLUMNS = `
+  id, job_id, runner_id, parent_id, proposed_by, price_cents, eta_minutes,
+  note, status, created_at, updated_at
+`;
+
+export class OfferRepository extends BaseRepository<JobOffer> {
+  /**
+   * Find offer by ID
+   */
+  async findById(id: number): Promise<JobOffer> {
+    const query = `
+      SELECT ${OFFER_COLUMNS}
+      FROM job_offers
+      WHERE id = $1
+    `;
+    const offer = await this.queryOne(query, [id]);
+
+    if (!offer) {
+      throw new NotFoundError(`Offer with ID ${id} not found`, 'OFFER_NOT_FOUND');
+    }
+
+    return offer;
+  }
+
+  /**
+   * Find all offers on a job, oldest first
+   * @param runnerId - Only return the negotiation with this runner
+   */
+  async findByJobId(jobId: number, runnerId?: number): Promise<JobOffer[]> {
+    const params: any[] = [jobId];
+    let query = `
+      SELECT ${OFFER_COLUMNS}
+      FROM job_offers
+      WHERE job_id = $1
+    `;
+
+    if (runnerId !== undefined) {
+      params.push(runnerId);
+      query += ` AND runner_id = $2`;
+    }
+
+    query += ` ORDER BY created_at ASC, id ASC`;
+
+    return this.queryRows(query, params);
+  }
+
+  /**
+   * Find the latest proposal of every negotiation a user takes part in,
+   * as the runner or as the job's client, newest first
+   */
+  async findLatestForUser(userId: number, limit: number = 50): Promise<JobOfferSummary[]> {
+    const query = `
+      SELECT * FROM (
+        SELECT DISTINCT ON (o.job_id, o.runner_id)
+          o.id, o.job_id, o.runner_id, o.parent_id, o.proposed_by, o.price_cents,
+          o.eta_minutes, o.note, o.status, o.created_at, o.updated_at,
+          j.title AS job_title, j.status AS job_status, j.client_id
+        FROM job_offers o
+        JOIN jobs j ON j.id = o.job_id
+        WHERE o.runner_id = $1 OR j.client_id = $1
+        ORDER BY o.job_id, o.runner_id, o.created_at DESC, o.id DESC
+      ) latest
+      ORDER BY latest.updated_at DESC
+      LIMIT $2
+    `;
+    return this.queryRows<JobOfferSummary>(query, [userId, limit]);
+  }
+
+  /**
+   * Find the pending proposal between a job and a runner, if any
+   */
+  async findPending(jobId: number, runnerId: number): Promise<JobOffer | null> {
+    const query = `
+      SELECT ${OFFER_COLUMNS}
+      FROM job_offers
+      WHERE job_id = $1 AND runner_id = $2 AND status = 'pending'
+    `;
+    return this.queryOne(query, [jobId, runnerId]);
+  }
+
+  /**
+   * Runner a recurring errand's job is held for, if the hold is still on
+   * The hold ends when it lapses or when that runner has no pending proposal
+   * left (they turned the job down).
+   */
+  async findReservedRunner(jobId: number): Promise<number | null> {
+    const row = await this.queryOne<{ runner_id: number }>(
+      `SELECT o.reserved_runner_id AS runner_id
+       FROM job_template_occurrences o
+       WHERE o.job_id = $1 AND o.reserved_until > NOW()
+         AND EXISTS (
+           SELECT 1 FROM job_offers p
+           WHERE p.job_id = o.job_id AND p.runner_id = o.reserved_runner_id AND p.status = 'pending'
+         )`,
+      [jobId]
+    );
+    return row?.runner_id ?? null;
+  }
+
+  /**
+   * Create an opening proposal
+   */
+  async create(data: CreateOfferDto): Promise<JobOffer> {
+    const query = `
+      INSERT INTO job_offers (job_id, runner_id, proposed_by, price_cents, eta_minutes, note)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      RETURNING ${OFFER_COLUMNS}
+    `;
+
+    const offers = await this.queryRows(query, [
+      data.jobId,
+      data.runnerId,
+      data.proposedBy,
+      data.priceCents,
+      data.etaMinutes,
+      data.note,
+    ]);
+
+    if (offers.length === 0) {
+      throw new NotFoundError('Failed to create offer', 'OFFER_CREATE_FAILED');
+    }
+
+    return offers[0]!;
+  }
+
+  /**
+   * Replace a pending proposal with a counter-offer
+   * Only succeeds while the countered proposal is still pending
+   */
+  async counter(offerId: number, data: CreateOfferDto): Promise<JobOffer> {
+    return this.transaction(async (client) => {
+      await this.setStatus(client, offerId, 'countered');
+
+      const result = await client.query<JobOffer>(
+        `INSERT INTO job_offers
+           (job_id, runner_id, parent_id, proposed_by, price_cents, eta_minutes, note)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         RETURNING ${OFFER_COLUMNS}`,
+        [
+          data.jobId,
+          data.runnerId,
+          offerId,
+          data.proposedBy,
+          data.priceCents,
+          data.etaMinutes,
+          data.note,
+        ]
+      );
+
+      return result.rows[0]!;
+    });
+  }
+
+  /**
+   * Move a pending proposal to a final status
+   * Throws if the proposal was answered in the meantime
+   */
+  async close(offerId: number, status: 'rejected' | 'withdrawn'): Promise<JobOffer> {
+    return this.transaction((client) => this.setStatus(client, offerId, status));
+  }
+
+  /**
+   * Mark a proposal accepted and reject every other pending proposal on the job
+   */
+  async accept(offerId: number): Promise<JobOffer> {
+    return this.transaction(async (client) => {
+      const offer = await this.setStatus(client, offerId, 'accepted');
+
+      await client.query(
+        `UPDATE job_offers
+         SET status = 'rejected'
+         WHERE job_id = $1 AND id <> $2 AND status = 'pending'`,
+        [offer.job_id, offerId]
+      );
+
+      return offer;
+    });
+  }
+
+  private async setStatus(
+    client: PoolClient,
+    offerId: number,
+    status: OfferStatus
+  ): Promise<JobOffer> {
+    const result = await client.query<JobOffer>(
+      `UPDATE job_offers
+       SET status = $2
+       WHERE id = $1 AND status = 'pending'
+       RETURNING ${OFFER_COLUMNS}`,
+      [offerId, status]
+    );
+
+    const offer = result.rows[0];
+    if (!offer) {
+      throw new ConflictError('Offer has already been answered', 'OFFER_NOT_PENDING');
+    }
+
+    return offer;
+  }
+}
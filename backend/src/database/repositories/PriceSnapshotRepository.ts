@@ -0,0 +1,60 @@
+/**
+ * Price Snapshot Repository
+ * Data access layer for the price_snapshots table
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import { NotFoundError } from '../../core/errors/AppError.js';
+import type { FiatCurrency } from '../../services/pricing/PriceSource.js';
+
+export interface PriceSnapshot {
+  id: number;
+  currency: FiatCurrency;
+  btc_price: number;
+  sources: string[];
+  fetched_at: Date;
+  created_at: Date;
+}
+
+export interface CreatePriceSnapshotDto {
+  currency: FiatCurrency;
+  btcPrice: number;
+  sources: string[];
+  fetchedAt: Date;
+}
+
+const SNAPSHOT_COLUMNS = `
+  id, currency, btc_price::float as btc_price, sources, fetched_at, created_at
+`;
+
+export class PriceSnapshotRepository extends BaseRepository<PriceSnapshot> {
+  /**
+   * Find snapshot by ID
+   */
+  async findById(id: number): Promise<PriceSnapshot | null> {
+    const query = `
+      SELECT ${SNAPSHOT_COLUMNS}
+      FROM price_snapshots
+      WHERE id = $1
+    `;
+    return this.queryOne(query, [id]);
+  }
+
+  /**
+   * Store the price used for a conversion
+   */
+  async create(data: CreatePriceSnapshotDto): Promise<PriceSnapshot> {
+    const query = `
+      INSERT INTO price_snapshots (currency, btc_price, sources, fetched_at)
+      VALUES ($1, $2, $3, $4)
+      RETURNING ${SNAPSHOT_COLUMNS}
+    `;
+    const snapshot = await this.queryOne(query, [data.currency, data.btcPrice, data.sources, data.fetchedAt]);
+
+    if (!snapshot) {
+      throw new NotFoundError('Failed to store price snapshot', 'PRICE_SNAPSHOT_CREATE_FAILED');
+    }
+
+    return snapshot;
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Push Subscription Repository
+ * Data access layer for the Web Push subscriptions of users' browsers
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface PushSubscription {
+  id: number;
+  user_id: number;
+  endpoint: string;
+  p256dh: string; // Browser public key, base64url
+  auth: string; // Browser auth secret, base64url
+  user_agent: string | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+export interface SavePushSubscriptionDto {
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent: string | null;
+}
+
+export class PushSubscriptionRepository extends BaseRepository<PushSubscription> {
+  /**
+   * Save a browser's subscription for a user
+   * A browser keeps its endpoint, so saving it again replaces the keys and
+   * moves it to the user now signed in
+   */
+  async save(userId: number, data: SavePushSubscriptionDto): Promise<PushSubscription> {
+    const query = `
+      INSERT INTO push_subscriptions (user_id, endpoint, p256dh, auth, user_agent)
+      VALUES ($1, $2, $3, $4, $5)
+      ON CONFLICT (endpoint) DO UPDATE
+      SET user_id = EXCLUDED.user_id, p256dh = EXCLUDED.p256dh, auth = EXCLUDED.auth,
+          user_agent = EXCLUDED.user_agent
+      RETURNING *
+    `;
+
+    const rows = await this.queryRows<PushSubscription>(query, [
+      userId,
+      data.endpoint,
+      data.p256dh,
+      data.auth,
+      data.userAgent,
+    ]);
+    return rows[0]!;
+  }
+
+  /**
+   * Subscriptions of a user
+   */
+  async findByUserId(userId: number): Promise<PushSubscription[]> {
+    return this.queryRows<PushSubscription>(
+      'SELECT * FROM push_subscriptions WHERE user_id = $1 ORDER BY created_at ASC',
+      [userId]
+    );
+  }
+
+  /**
+   * Remove a user's subscription; returns whether one was removed
+   */
+  async deleteForUser(userId: number, endpoint: string): Promise<boolean> {
+    const result = await this.query('DELETE FROM push_subscriptions WHERE user_id = $1 AND endpoint = $2', [
+      userId,
+      endpoint,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Remove a subscription the push service no longer knows
+   */
+  async delete(id: number): Promise<void> {
+    await this.query('DELETE FROM push_subscriptions WHERE id = $1', [id]);
+  }
+
+  /**
+   * Record that a push was accepted for a subscription
+   */
+  async markUsed(id: number): Promise<void> {
+    await this.query('UPDATE push_subscriptions SET last_used_at = NOW() WHERE id = $1', [id]);
+  }
+}
@@ -6,34 +6,97 @@
 import { BaseRepository } from './BaseRepository.js';
 import { NotFoundError } from '../../core/errors/AppError.js';
 
+export type ReviewerRole = 'client' | 'runner';
+
+export type ClientFlag = 'no_show' | 'late_payment' | 'no_payment';
+
 export interface Review {
   id: number;
   job_id: number;
   reviewer_id: number;
+  reviewee_id: number;
+  reviewer_role: ReviewerRole;
   rating: number;
   comment: string | null;
+  flags: ClientFlag[]; // Only on runner reviews of clients
+  punctuality_rating: number | null; // Sub-ratings, only on client reviews of runners
+  communication_rating: number | null;
+  care_of_items_rating: number | null;
+  reply: string | null; // The reviewee's public reply
+  replied_at: Date | null;
+  revealed_at: Date | null; // NULL while hidden from the other side
+  hidden_at: Date | null; // Set when an admin hides the review
+  hidden_reason: string | null;
+  created_at: Date;
+}
+
+export type ReviewReportStatus = 'open' | 'upheld' | 'dismissed';
+
+export interface ReviewReport {
+  id: number;
+  review_id: number;
+  reporter_id: number;
+  reason: string;
+  status: ReviewReportStatus;
+  resolved_by: number | null;
+  resolved_at: Date | null;
   created_at: Date;
 }
 
+export interface ReportedReview extends Review {
+  reports: Pick<ReviewReport, 'id' | 'reporter_id' | 'reason' | 'created_at'>[]; // Open reports, oldest first
+}
+
 export interface CreateReviewDto {
   jobId: number;
   reviewerId: number;
+  revieweeId: number;
+  reviewerRole: ReviewerRole;
   rating: number;
   comment?: string | undefined;
+  flags?: ClientFlag[] | undefined;
+  punctualityRating?: number | undefined;
+  communicationRating?: number | undefined;
+  careOfItemsRating?: number | undefined;
 }
 
 export interface UpdateReviewDto {
   rating?: number | undefined;
   comment?: string | undefined;
+  flags?: ClientFlag[] | undefined;
+  punctualityRating?: number | undefined;
+  communicationRating?: number | undefined;
+  careOfItemsRating?: number | undefined;
+}
+
+export interface RunnerSubRatingAverages {
+  punctuality: number | null;
+  communication: number | null;
+  care_of_items: number | null;
+}
+
+export interface ClientReviewStats {
+  avg_rating: number;
+  review_count: number;
+  no_show_count: number;
+  late_payment_count: number;
+  no_payment_count: number;
+  completed_jobs: number;
 }
 
+const REVIEW_COLUMNS = `
+  id, job_id, reviewer_id, reviewee_id, reviewer_role, rating, comment, flags,
+  punctuality_rating, communication_rating, care_of_items_rating, reply, replied_at,
+  revealed_at, hidden_at, hidden_reason, created_at
+`;
+
 export class ReviewRepository extends BaseRepository<Review> {
   /**
    * Find review by ID
    */
   async findById(id: number): Promise<Review> {
     const query = `
-      SELECT id, job_id, reviewer_id, rating, comment, created_at
+      SELECT ${REVIEW_COLUMNS}
       FROM reviews
       WHERE id = $1
     `;
@@ -50,46 +113,86 @@ export class ReviewRepository extends BaseRepository<Review> {
   }
 
   /**
-   * Find review by job ID
+   * Find both sides' reviews of a job, hidden ones included
    */
-  async findByJobId(jobId: number): Promise<Review | null> {
+  async findByJobId(jobId: number): Promise<Review[]> {
     const query = `
-      SELECT id, job_id, reviewer_id, rating, comment, created_at
+      SELECT ${REVIEW_COLUMNS}
       FROM reviews
       WHERE job_id = $1
+      ORDER BY created_at
     `;
-    return this.queryOne<Review>(query, [jobId]);
+    return this.queryRows<Review>(query, [jobId]);
+  }
+
+  /**
+   * Find one side's review of a job
+   */
+  async findByJobAndRole(jobId: number, role: ReviewerRole): Promise<Review | null> {
+    const query = `
+      SELECT ${REVIEW_COLUMNS}
+      FROM reviews
+      WHERE job_id = $1 AND reviewer_role = $2
+    `;
+    return this.queryOne<Review>(query, [jobId, role]);
   }
 
   /**
    * Find reviews by reviewer ID
+   * @param includeHidden - Also return reviews not revealed yet or hidden by an admin (for their author)
    */
-  async findByReviewerId(reviewerId: number, limit: number = 20, offset: number = 0): Promise<Review[]> {
+  async findByReviewerId(
+    reviewerId: number,
+    limit: number = 20,
+    offset: number = 0,
+    includeHidden: boolean = false
+  ): Promise<Review[]> {
     const query = `
-      SELECT id, job_id, reviewer_id, rating, comment, created_at
+      SELECT ${REVIEW_COLUMNS}
       FROM reviews
-      WHERE reviewer_id = $1
+      WHERE reviewer_id = $1 AND ($4 OR (revealed_at IS NOT NULL AND hidden_at IS NULL))
       ORDER BY created_at DESC
       LIMIT $2 OFFSET $3
     `;
-    return this.queryRows<Review>(query, [reviewerId, limit, offset]);
+    return this.queryRows<Review>(query, [reviewerId, limit, offset, includeHidden]);
   }
 
   /**
-   * Find reviews for a runner (reviews of jobs they completed)
+   * Find revealed, visible client reviews of a runner (reviews of jobs they ran)
    */
   async findForRunner(runnerId: number, limit: number = 20, offset: number = 0): Promise<Review[]> {
     const query = `
-      SELECT r.id, r.job_id, r.reviewer_id, r.rating, r.comment, r.created_at
+      SELECT r.id, r.job_id, r.reviewer_id, r.reviewee_id, r.reviewer_role, r.rating, r.comment, r.flags,
+             r.punctuality_rating, r.communication_rating, r.care_of_items_rating, r.reply, r.replied_at,
+             r.revealed_at, r.hidden_at, r.hidden_reason, r.created_at
       FROM reviews r
       INNER JOIN jobs j ON r.job_id = j.id
-      WHERE j.runner_id = $1
+      WHERE j.runner_id = $1 AND r.reviewer_role = 'client' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
       ORDER BY r.created_at DESC
       LIMIT $2 OFFSET $3
     `;
     return this.queryRows<Review>(query, [runnerId, limit, offset]);
   }
 
+  /**
+   * Find revealed, visible runner reviews of a client (reviews of jobs they posted)
+   */
+  async findForClient(clientId: number, limit: number = 20, offset: number = 0): Promise<Review[]> {
+    const query = `
+      SELECT r.id, r.job_id, r.reviewer_id, r.reviewee_id, r.reviewer_role, r.rating, r.comment, r.flags,
+             r.punctuality_rating, r.communication_rating, r.care_of_items_rating, r.reply, r.replied_at,
+             r.revealed_at, r.hidden_at, r.hidden_reason, r.created_at
+      FROM reviews r
+      INNER JOIN jobs j ON r.job_id = j.id
+      WHERE j.client_id = $1 AND r.reviewer_role = 'runner' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
+      ORDER BY r.created_at DESC
+      LIMIT $2 OFFSET $3
+    `;
+    return this.queryRows<Review>(query, [clientId, limit, offset]);
+  }
+
   /**
    * Check if review exists for job
    */
@@ -107,16 +210,25 @@ export class ReviewRepository extends BaseRepository<Review> {
    */
   async create(data: CreateReviewDto): Promise<Review> {
     const query = `
-      INSERT INTO reviews (job_id, reviewer_id, rating, comment, created_at)
-      VALUES ($1, $2, $3, $4, NOW())
-      RETURNING id, job_id, reviewer_id, rating, comment, created_at
+      INSERT INTO reviews (
+        job_id, reviewer_id, reviewee_id, reviewer_role, rating, comment, flags,
+        punctuality_rating, communication_rating, care_of_items_rating, created_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())
+      RETURNING ${REVIEW_COLUMNS}
     `;
 
     const reviews = await this.queryRows<Review>(query, [
       data.jobId,
       data.reviewerId,
+      data.revieweeId,
+      data.reviewerRole,
       data.rating,
       data.comment || null,
+      data.flags ?? [],
+      data.punctualityRating ?? null,
+      data.communicationRating ?? null,
+      data.careOfItemsRating ?? null,
     ]);
 
     if (reviews.length === 0) {
@@ -144,6 +256,26 @@ export class ReviewRepository extends BaseRepository<Review> {
       values.push(data.comment);
     }
 
+    if (data.flags !== undefined) {
+      updates.push(`flags = $${paramCount++}`);
+      values.push(data.flags);
+    }
+
+    if (data.punctualityRating !== undefined) {
+      updates.push(`punctuality_rating = $${paramCount++}`);
+      values.push(data.punctualityRating);
+    }
+
+    if (data.communicationRating !== undefined) {
+      updates.push(`communication_rating = $${paramCount++}`);
+      values.push(data.communicationRating);
+    }
+
+    if (data.careOfItemsRating !== undefined) {
+      updates.push(`care_of_items_rating = $${paramCount++}`);
+      values.push(data.careOfItemsRating);
+    }
+
     if (updates.length === 0) {
       return this.findById(id);
     }
@@ -154,7 +286,7 @@ export class ReviewRepository extends BaseRepository<Review> {
       UPDATE reviews
       SET ${updates.join(', ')}
       WHERE id = $${paramCount}
-      RETURNING id, job_id, reviewer_id, rating, comment, created_at
+      RETURNING ${REVIEW_COLUMNS}
     `;
 
     const reviews = await this.queryRows<Review>(query, values);
@@ -169,6 +301,43 @@ export class ReviewRepository extends BaseRepository<Review> {
     return reviews[0]!;
   }
 
+  /**
+   * Reveal both reviews of a job once both sides have submitted
+   * @returns The reviews revealed now, none while one side is missing
+   */
+  async revealIfBothSubmitted(jobId: number): Promise<Review[]> {
+    const query = `
+      UPDATE reviews
+      SET revealed_at = NOW()
+      WHERE job_id = $1
+        AND revealed_at IS NULL
+        AND (SELECT COUNT(*) FROM reviews WHERE job_id = $1) = 2
+      RETURNING ${REVIEW_COLUMNS}
+    `;
+    return this.queryRows<Review>(query, [jobId]);
+  }
+
+  /**
+   * Reveal hidden reviews whose review window has closed
+   * The window opens when the job is completed or paid, whichever came
+   * first, or at its last update for jobs that ended otherwise
+   */
+  async revealExpired(windowDays: number): Promise<Review[]> {
+    const query = `
+      UPDATE reviews r
+      SET revealed_at = NOW()
+      FROM jobs j
+      WHERE r.job_id = j.id
+        AND r.revealed_at IS NULL
+        AND COALESCE(LEAST(j.completed_at, j.payment_confirmed_at), j.updated_at)
+          + make_interval(days => $1) <= NOW()
+      RETURNING r.id, r.job_id, r.reviewer_id, r.reviewee_id, r.reviewer_role, r.rating, r.comment, r.flags,
+                r.punctuality_rating, r.communication_rating, r.care_of_items_rating, r.reply, r.replied_at,
+                r.revealed_at, r.hidden_at, r.hidden_reason, r.created_at
+    `;
+    return this.queryRows<Review>(query, [windowDays]);
+  }
+
   /**
    * Get average rating for a runner
    */
@@ -177,7 +346,8 @@ export class ReviewRepository extends BaseRepository<Review> {
       SELECT COALESCE(AVG(r.rating), 0) as avg_rating
       FROM reviews r
       INNER JOIN jobs j ON r.job_id = j.id
-      WHERE j.runner_id = $1
+      WHERE j.runner_id = $1 AND r.reviewer_role = 'client' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
     `;
     const result = await this.queryOne<{ avg_rating: number }>(query, [runnerId]);
     return result?.avg_rating || 0;
@@ -191,18 +361,178 @@ export class ReviewRepository extends BaseRepository<Review> {
       SELECT COUNT(*) as count
       FROM reviews r
       INNER JOIN jobs j ON r.job_id = j.id
-      WHERE j.runner_id = $1
+      WHERE j.runner_id = $1 AND r.reviewer_role = 'client' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
     `;
     const result = await this.queryOne<{ count: string }>(query, [runnerId]);
     return parseInt(result?.count || '0', 10);
   }
 
+  /**
+   * Get a client's reputation from revealed runner reviews
+   */
+  async getClientStats(clientId: number): Promise<ClientReviewStats> {
+    const query = `
+      SELECT
+        COALESCE(AVG(r.rating), 0)::float AS avg_rating,
+        COUNT(r.id)::int AS review_count,
+        COUNT(r.id) FILTER (WHERE 'no_show' = ANY(r.flags))::int AS no_show_count,
+        COUNT(r.id) FILTER (WHERE 'late_payment' = ANY(r.flags))::int AS late_payment_count,
+        COUNT(r.id) FILTER (WHERE 'no_payment' = ANY(r.flags))::int AS no_payment_count,
+        (
+          SELECT COUNT(*)::int FROM jobs
+          WHERE client_id = $1 AND status IN ('completed', 'payment_confirmed', 'paid')
+        ) AS completed_jobs
+      FROM reviews r
+      INNER JOIN jobs j ON r.job_id = j.id
+      WHERE j.client_id = $1 AND r.reviewer_role = 'runner' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
+    `;
+    const result = await this.queryOne<ClientReviewStats>(query, [clientId]);
+    return (
+      result ?? {
+        avg_rating: 0,
+        review_count: 0,
+        no_show_count: 0,
+        late_payment_count: 0,
+        no_payment_count: 0,
+        completed_jobs: 0,
+      }
+    );
+  }
+
+  /**
+   * Get a runner's average sub-ratings from revealed, visible client reviews
+   * Each average is NULL until a client gave that sub-rating
+   */
+  async getSubRatingAveragesForRunner(runnerId: number): Promise<RunnerSubRatingAverages> {
+    const query = `
+      SELECT
+        AVG(r.punctuality_rating)::float AS punctuality,
+        AVG(r.communication_rating)::float AS communication,
+        AVG(r.care_of_items_rating)::float AS care_of_items
+      FROM reviews r
+      INNER JOIN jobs j ON r.job_id = j.id
+      WHERE j.runner_id = $1 AND r.reviewer_role = 'client' AND r.revealed_at IS NOT NULL
+        AND r.hidden_at IS NULL
+    `;
+    const result = await this.queryOne<RunnerSubRatingAverages>(query, [runnerId]);
+    return result ?? { punctuality: null, communication: null, care_of_items: null };
+  }
+
+  /**
+   * Add the reviewee's reply to a review
+   * @returns The updated review, or null if it already has a reply
+   */
+  async addReply(id: number, reply: string): Promise<Review | null> {
+    const query = `
+      UPDATE reviews
+      SET reply = $2, replied_at = NOW()
+      WHERE id = $1 AND reply IS NULL
+      RETURNING ${REVIEW_COLUMNS}
+    `;
+    return this.queryOne<Review>(query, [id, reply]);
+  }
+
+  /**
+   * Report a review to the moderators
+   * @returns The report, or null if the user already reported this review
+   */
+  async createReport(reviewId: number, reporterId: number, reason: string): Promise<ReviewReport | null> {
+    const query = `
+      INSERT INTO review_reports (review_id, reporter_id, reason)
+      VALUES ($1, $2, $3)
+      ON CONFLICT (review_id, reporter_id) DO NOTHING
+      RETURNING id, review_id, reporter_id, reason, status, resolved_by, resolved_at, created_at
+    `;
+    return this.queryOne<ReviewReport>(query, [reviewId, reporterId, reason]);
+  }
+
+  /**
+   * Find reviews with open reports, longest waiting first
+   */
+  async findReported(limit: number = 20, offset: number = 0): Promise<ReportedReview[]> {
+    const query = `
+      SELECT r.id, r.job_id, r.reviewer_id, r.reviewee_id, r.reviewer_role, r.rating, r.comment, r.flags,
+             r.punctuality_rating, r.communication_rating, r.care_of_items_rating, r.reply, r.replied_at,
+             r.revealed_at, r.hidden_at, r.hidden_reason, r.created_at,
+             json_agg(
+               json_build_object(
+                 'id', rr.id, 'reporter_id', rr.reporter_id, 'reason', rr.reason, 'created_at', rr.created_at
+               ) ORDER BY rr.created_at
+             ) AS reports
+      FROM reviews r
+      INNER JOIN review_reports rr ON rr.review_id = r.id AND rr.status = 'open'
+      GROUP BY r.id
+      ORDER BY MIN(rr.created_at)
+      LIMIT $1 OFFSET $2
+    `;
+    return this.queryRows<ReportedReview>(query, [limit, offset]);
+  }
+
+  /**
+   * Hide a review without deleting it
+   */
+  async hide(id: number, adminId: number, reason: string | null): Promise<Review> {
+    const query = `
+      UPDATE reviews
+      SET hidden_at = NOW(), hidden_by = $2, hidden_reason = $3
+      WHERE id = $1
+      RETURNING ${REVIEW_COLUMNS}
+    `;
+    const review = await this.queryOne<Review>(query, [id, adminId, reason]);
+
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${id} not found`, 'REVIEW_NOT_FOUND');
+    }
+
+    return review;
+  }
+
+  /**
+   * Show a hidden review again
+   */
+  async restore(id: number): Promise<Review> {
+    const query = `
+      UPDATE reviews
+      SET hidden_at = NULL, hidden_by = NULL, hidden_reason = NULL
+      WHERE id = $1
+      RETURNING ${REVIEW_COLUMNS}
+    `;
+    const review = await this.queryOne<Review>(query, [id]);
+
+    if (!review) {
+      throw new NotFoundError(`Review with ID ${id} not found`, 'REVIEW_NOT_FOUND');
+    }
+
+    return review;
+  }
+
+  /**
+   * Close the open reports of a review
+   * @returns Number of reports closed
+   */
+  async resolveReports(
+    reviewId: number,
+    adminId: number,
+    status: Exclude<ReviewReportStatus, 'open'>
+  ): Promise<number> {
+    const query = `
+      UPDATE review_reports
+      SET status = $3, resolved_by = $2, resolved_at = NOW()
+      WHERE review_id = $1 AND status = 'open'
+      RETURNING id
+    `;
+    const rows = await this.queryRows<{ id: number }>(query, [reviewId, adminId, status]);
+    return rows.length;
+  }
+
   /**
    * List all reviews
    */
   async list(limit: number = 20, offset: number = 0): Promise<Review[]> {
     const query = `
-      SELECT id, job_id, reviewer_id, rating, comment, created_at
+      SELECT ${REVIEW_COLUMNS}
       FROM reviews
       ORDER BY created_at DESC
       LIMIT $1 OFFSET $2
@@ -0,0 +1,210 @@
+/**
+ * Runner Availability Repository
+ * Data access layer for runner working hours, time off and availability
+ * settings on runner_profiles
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface RunnerAvailabilitySettings {
+  is_available: boolean;
+  timezone: string;
+  max_concurrent_jobs: number;
+}
+
+export interface RunnerWorkingHours {
+  id: number;
+  runner_id: number;
+  weekday: number; // 0 is Sunday
+  starts_at: string; // HH:MM in the runner's time zone
+  ends_at: string;
+}
+
+export interface RunnerTimeOff {
+  id: number;
+  runner_id: number;
+  starts_at: Date;
+  ends_at: Date;
+  reason: string | null;
+  created_at: Date;
+}
+
+export interface WorkingHoursDto {
+  weekday: number;
+  startsAt: string;
+  endsAt: string;
+}
+
+export interface CreateTimeOffDto {
+  runnerId: number;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string | null;
+}
+
+export interface RunnerAvailabilityNow {
+  profile_id: number;
+  is_available: boolean;
+  on_time_off: boolean;
+  within_hours: boolean;
+  active_jobs: number;
+  max_concurrent_jobs: number;
+}
+
+/*
+ * Conditions on a runner_profiles row aliased as rp, shared by search,
+ * matching and job assignment so they all agree on who is available
+ */
+
+// No working hours means any time
+const WITHIN_WORKING_HOURS_SQL = `(
+  NOT EXISTS (SELECT 1 FROM runner_working_hours wh WHERE wh.runner_id = rp.id)
+  OR EXISTS (
+    SELECT 1 FROM runner_working_hours wh
+    WHERE wh.runner_id = rp.id
+      AND wh.weekday = EXTRACT(DOW FROM NOW() AT TIME ZONE rp.timezone)
+      AND (NOW() AT TIME ZONE rp.timezone)::time >= wh.starts_at
+      AND (NOW() AT TIME ZONE rp.timezone)::time < wh.ends_at
+  )
+)`;
+
+const ON_TIME_OFF_SQL = `EXISTS (
+  SELECT 1 FROM runner_time_off t
+  WHERE t.runner_id = rp.id AND t.starts_at <= NOW() AND t.ends_at > NOW()
+)`;
+
+const ACTIVE_JOBS_SQL = `(
+  SELECT COUNT(*) FROM jobs a
+  WHERE a.runner_id = rp.user_id AND a.status IN ('accepted', 'in_progress')
+)`;
+
+export const RUNNER_AVAILABLE_NOW_SQL = `(
+  rp.is_available
+  AND ${WITHIN_WORKING_HOURS_SQL}
+  AND NOT ${ON_TIME_OFF_SQL}
+  AND ${ACTIVE_JOBS_SQL} < rp.max_concurrent_jobs
+)`;
+
+export class RunnerAvailabilityRepository extends BaseRepository<RunnerWorkingHours> {
+  /**
+   * Availability settings of a runner profile
+   */
+  async findSettings(runnerId: number): Promise<RunnerAvailabilitySettings | null> {
+    return this.queryOne<RunnerAvailabilitySettings>(
+      'SELECT is_available, timezone, max_concurrent_jobs FROM runner_profiles WHERE id = $1',
+      [runnerId]
+    );
+  }
+
+  /**
+   * Weekly working hours of a runner, by weekday and start
+   */
+  async findWorkingHours(runnerId: number): Promise<RunnerWorkingHours[]> {
+    const query = `
+      SELECT id, runner_id, weekday, to_char(starts_at, 'HH24:MI') as starts_at,
+             to_char(ends_at, 'HH24:MI') as ends_at
+      FROM runner_working_hours
+      WHERE runner_id = $1
+      ORDER BY weekday ASC, starts_at ASC
+    `;
+
+    return this.queryRows<RunnerWorkingHours>(query, [runnerId]);
+  }
+
+  /**
+   * Time off blocks that have not ended yet, soonest first
+   */
+  async findUpcomingTimeOff(runnerId: number): Promise<RunnerTimeOff[]> {
+    const query = `
+      SELECT id, runner_id, starts_at, ends_at, reason, created_at
+      FROM runner_time_off
+      WHERE runner_id = $1 AND ends_at > NOW()
+      ORDER BY starts_at ASC
+    `;
+
+    return this.queryRows<RunnerTimeOff>(query, [runnerId]);
+  }
+
+  /**
+   * Update availability settings and, when given, replace the working hours
+   */
+  async update(
+    runnerId: number,
+    settings: Partial<RunnerAvailabilitySettings>,
+    workingHours?: WorkingHoursDto[] | undefined
+  ): Promise<void> {
+    await this.transaction(async (client) => {
+      const updates: string[] = [];
+      const values: unknown[] = [];
+
+      for (const column of ['is_available', 'timezone', 'max_concurrent_jobs'] as const) {
+        if (settings[column] !== undefined) {
+          values.push(settings[column]);
+          updates.push(`${column} = $${values.length}`);
+        }
+      }
+
+      if (updates.length > 0) {
+        values.push(runnerId);
+        await client.query(
+          `UPDATE runner_profiles SET ${updates.join(', ')}, updated_at = NOW() WHERE id = $${values.length}`,
+          values
+        );
+      }
+
+      if (workingHours !== undefined) {
+        await client.query('DELETE FROM runner_working_hours WHERE runner_id = $1', [runnerId]);
+        for (const hours of workingHours) {
+          await client.query(
+            `INSERT INTO runner_working_hours (runner_id, weekday, starts_at, ends_at)
+             VALUES ($1, $2, $3, $4)`,
+            [runnerId, hours.weekday, hours.startsAt, hours.endsAt]
+          );
+        }
+      }
+    });
+  }
+
+  /**
+   * Add a time off block
+   */
+  async createTimeOff(data: CreateTimeOffDto): Promise<RunnerTimeOff> {
+    const query = `
+      INSERT INTO runner_time_off (runner_id, starts_at, ends_at, reason)
+      VALUES ($1, $2, $3, $4)
+      RETURNING id, runner_id, starts_at, ends_at, reason, created_at
+    `;
+
+    const rows = await this.queryRows<RunnerTimeOff>(query, [data.runnerId, data.startsAt, data.endsAt, data.reason]);
+    return rows[0]!;
+  }
+
+  /**
+   * Remove a time off block of a runner; returns whether one was removed
+   */
+  async deleteTimeOff(runnerId: number, timeOffId: number): Promise<boolean> {
+    const result = await this.query('DELETE FROM runner_time_off WHERE id = $1 AND runner_id = $2', [
+      timeOffId,
+      runnerId,
+    ]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Whether the runner with a user ID can take a job right now, condition by
+   * condition; null when the user has no runner profile
+   */
+  async findAvailabilityNow(userId: number): Promise<RunnerAvailabilityNow | null> {
+    const query = `
+      SELECT rp.id as profile_id, rp.is_available,
+             ${ON_TIME_OFF_SQL} as on_time_off,
+             ${WITHIN_WORKING_HOURS_SQL} as within_hours,
+             ${ACTIVE_JOBS_SQL}::int as active_jobs,
+             rp.max_concurrent_jobs
+      FROM runner_profiles rp
+      WHERE rp.user_id = $1
+    `;
+
+    return this.queryOne<RunnerAvailabilityNow>(query, [userId]);
+  }
+}
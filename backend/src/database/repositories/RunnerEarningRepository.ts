@@ -0,0 +1,375 @@
+/**
+ * Runner Earning Repository
+ * Data access layer for the runner_earnings table, which is also the payout queue
+ *
+ * Workers lease due rows with FOR UPDATE SKIP LOCKED, so several backend
+ * replicas can poll the queue without sending the same payout twice. Every
+ * write made while holding a lease checks locked_by, so a worker whose lease
+ * expired cannot overwrite the outcome of the worker that took over.
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export type RunnerEarningStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'dead' | 'cancelled';
+
+export type RunnerEarningKind = 'job' | 'tip';
+
+export interface RunnerEarning {
+  id: number;
+  runner_id: number;
+  job_id: number | null;
+  kind: RunnerEarningKind;
+  tip_id: number | null;
+  amount_cents: number;
+  amount_sats: number;
+  platform_fee_cents: number;
+  platform_fee_sats: number;
+  net_amount_cents: number;
+  net_amount_sats: number;
+  price_snapshot_id: number | null;
+  status: RunnerEarningStatus;
+  payout_method: string;
+  lightning_address: string | null;
+  payment_hash: string | null;
+  payment_preimage: string | null;
+  payment_request: string | null;
+  error_message: string | null;
+  retry_count: number;
+  next_attempt_at: Date;
+  locked_by: string | null;
+  locked_until: Date | null;
+  created_at: Date;
+  processed_at: Date | null;
+  completed_at: Date | null;
+  failed_at: Date | null;
+  dead_at: Date | null;
+  updated_at: Date;
+}
+
+export interface DeadLetterEarning extends RunnerEarning {
+  job_title: string | null;
+}
+
+export interface CreateRunnerEarningDto {
+  runnerId: number;
+  jobId: number;
+  amountCents: number;
+  amountSats: number;
+  platformFeeCents: number;
+  platformFeeSats: number;
+  netAmountCents: number;
+  netAmountSats: number;
+  priceSnapshotId: number | null;
+  lightningAddress: string | null;
+}
+
+export interface CreateTipEarningDto {
+  runnerId: number;
+  jobId: number;
+  tipId: number;
+  amountCents: number;
+  amountSats: number;
+  priceSnapshotId: number | null;
+  lightningAddress: string | null;
+  paymentHash: string | null;  // Set when the client paid the runner directly
+}
+
+const EARNING_COLUMNS = `
+  id, runner_id, job_id, kind, tip_id, amount_cents, amount_sats::int as amount_sats,
+  platform_fee_cents, platform_fee_sats::int as platform_fee_sats,
+  net_amount_cents, net_amount_sats::int as net_amount_sats, price_snapshot_id,
+  status, payout_method, lightning_address, payment_hash, payment_preimage, payment_request,
+  error_message, retry_count, next_attempt_at, locked_by, locked_until,
+  created_at, processed_at, completed_at, failed_at, dead_at, updated_at
+`;
+
+export class RunnerEarningRepository extends BaseRepository<RunnerEarning> {
+  /**
+   * Find earning by ID
+   */
+  async findById(id: number): Promise<RunnerEarning | null> {
+    const query = `
+      SELECT ${EARNING_COLUMNS}
+      FROM runner_earnings
+      WHERE id = $1
+    `;
+    return this.queryOne(query, [id]);
+  }
+
+  /**
+   * Find the earning of a job
+   */
+  async findByJobId(jobId: number): Promise<RunnerEarning | null> {
+    const query = `
+      SELECT ${EARNING_COLUMNS}
+      FROM runner_earnings
+      WHERE job_id = $1 AND kind = 'job'
+    `;
+    return this.queryOne(query, [jobId]);
+  }
+
+  /**
+   * Find the earning a tip was credited to
+   */
+  async findByTipId(tipId: number): Promise<RunnerEarning | null> {
+    const query = `
+      SELECT ${EARNING_COLUMNS}
+      FROM runner_earnings
+      WHERE tip_id = $1
+    `;
+    return this.queryOne(query, [tipId]);
+  }
+
+  /**
+   * Count the jobs a runner earned from since a date
+   */
+  async countJobsSince(runnerId: number, since: Date): Promise<number> {
+    const query = `
+      SELECT COUNT(DISTINCT job_id)::int as count
+      FROM runner_earnings
+      WHERE runner_id = $1 AND created_at >= $2 AND kind = 'job' AND status != 'cancelled'
+    `;
+    const row = await this.queryOne<{ count: number }>(query, [runnerId, since]);
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Queue the payout of a job
+   * Returns the existing earning if the job was already queued
+   */
+  async createForJob(data: CreateRunnerEarningDto): Promise<RunnerEarning> {
+    const query = `
+      INSERT INTO runner_earnings (
+        runner_id, job_id, amount_cents, amount_sats,
+        platform_fee_cents, platform_fee_sats,
+        net_amount_cents, net_amount_sats, price_snapshot_id,
+        lightning_address, status, next_attempt_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, 'pending', NOW())
+      ON CONFLICT (job_id) WHERE job_id IS NOT NULL AND kind = 'job' DO NOTHING
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    const created = await this.queryOne(query, [
+      data.runnerId,
+      data.jobId,
+      data.amountCents,
+      data.amountSats,
+      data.platformFeeCents,
+      data.platformFeeSats,
+      data.netAmountCents,
+      data.netAmountSats,
+      data.priceSnapshotId,
+      data.lightningAddress,
+    ]);
+
+    return created ?? (await this.findByJobId(data.jobId))!;
+  }
+
+  /**
+   * Credit a tip to the runner in full
+   * Tips paid to the platform are queued for payout; tips the client paid to
+   * the runner directly are recorded as already completed. Returns the
+   * existing earning if the tip was already credited.
+   */
+  async createForTip(data: CreateTipEarningDto): Promise<RunnerEarning> {
+    const direct = data.paymentHash !== null;
+    const query = `
+      INSERT INTO runner_earnings (
+        runner_id, job_id, kind, tip_id, amount_cents, amount_sats,
+        platform_fee_cents, platform_fee_sats,
+        net_amount_cents, net_amount_sats, price_snapshot_id,
+        lightning_address, payout_method, payment_hash, status, completed_at, next_attempt_at
+      )
+      VALUES ($1, $2, 'tip', $3, $4, $5, 0, 0, $4, $5, $6, $7, $8, $9, $10, $11, NOW())
+      ON CONFLICT (tip_id) WHERE tip_id IS NOT NULL DO NOTHING
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    const created = await this.queryOne(query, [
+      data.runnerId,
+      data.jobId,
+      data.tipId,
+      data.amountCents,
+      data.amountSats,
+      data.priceSnapshotId,
+      data.lightningAddress,
+      direct ? 'direct' : 'lightning',
+      data.paymentHash,
+      direct ? 'completed' : 'pending',
+      direct ? new Date() : null,
+    ]);
+
+    return created ?? (await this.findByTipId(data.tipId))!;
+  }
+
+  /**
+   * Lease due payouts for this worker
+   * Rows leased by another replica are skipped rather than waited on
+   */
+  async claimDue(workerId: string, leaseMs: number, limit: number): Promise<RunnerEarning[]> {
+    const query = `
+      UPDATE runner_earnings
+      SET status = 'processing',
+          locked_by = $1,
+          locked_until = NOW() + $2 * INTERVAL '1 millisecond',
+          processed_at = NOW()
+      WHERE id IN (
+        SELECT id
+        FROM runner_earnings
+        WHERE status IN ('pending', 'failed') AND next_attempt_at <= NOW()
+        ORDER BY next_attempt_at
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryRows(query, [workerId, leaseMs, limit]);
+  }
+
+  /**
+   * Return payouts whose worker died mid-attempt to the queue
+   * A payout that already had an invoice may have been paid, so it is
+   * dead-lettered instead of being sent again
+   */
+  async releaseExpiredLeases(): Promise<RunnerEarning[]> {
+    const query = `
+      UPDATE runner_earnings
+      SET status = CASE WHEN payment_request IS NULL THEN 'pending' ELSE 'dead' END,
+          dead_at = CASE WHEN payment_request IS NULL THEN NULL ELSE NOW() END,
+          error_message = CASE
+            WHEN payment_request IS NULL THEN error_message
+            ELSE 'Worker stopped while paying; check the node before requeueing'
+          END,
+          next_attempt_at = NOW(),
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE status = 'processing' AND locked_until < NOW()
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryRows(query);
+  }
+
+  /**
+   * Remember the invoice about to be paid
+   */
+  async recordInvoice(id: number, workerId: string, paymentRequest: string, paymentHash: string): Promise<boolean> {
+    const query = `
+      UPDATE runner_earnings
+      SET payment_request = $3, payment_hash = $4
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+    `;
+    const result = await this.query(query, [id, workerId, paymentRequest, paymentHash]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Mark a leased payout as paid
+   */
+  async markCompleted(
+    id: number,
+    workerId: string,
+    paymentHash: string | null,
+    paymentPreimage: string | null
+  ): Promise<RunnerEarning | null> {
+    const query = `
+      UPDATE runner_earnings
+      SET status = 'completed',
+          completed_at = NOW(),
+          payment_hash = COALESCE($3, payment_hash),
+          payment_preimage = $4,
+          error_message = NULL,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, paymentHash, paymentPreimage]);
+  }
+
+  /**
+   * Record a failed attempt and schedule the next one
+   * The invoice is dropped: the next attempt asks the payee for a fresh one
+   */
+  async scheduleRetry(id: number, workerId: string, error: string, delayMs: number): Promise<RunnerEarning | null> {
+    const query = `
+      UPDATE runner_earnings
+      SET status = 'failed',
+          failed_at = NOW(),
+          error_message = $3,
+          retry_count = retry_count + 1,
+          next_attempt_at = NOW() + $4 * INTERVAL '1 millisecond',
+          payment_request = NULL,
+          payment_hash = NULL,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, error, delayMs]);
+  }
+
+  /**
+   * Move a leased payout to the dead-letter list
+   * @param keepInvoice - Keep the invoice when the payment may have gone through
+   */
+  async markDead(id: number, workerId: string, error: string, keepInvoice: boolean): Promise<RunnerEarning | null> {
+    const query = `
+      UPDATE runner_earnings
+      SET status = 'dead',
+          failed_at = NOW(),
+          dead_at = NOW(),
+          error_message = $3,
+          retry_count = retry_count + 1,
+          payment_request = CASE WHEN $4 THEN payment_request ELSE NULL END,
+          payment_hash = CASE WHEN $4 THEN payment_hash ELSE NULL END,
+          locked_by = NULL,
+          locked_until = NULL
+      WHERE id = $1 AND status = 'processing' AND locked_by = $2
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryOne(query, [id, workerId, error, keepInvoice]);
+  }
+
+  /**
+   * Put a failed or dead-lettered payout back at the front of the queue
+   * The runner's current Lightning address replaces the one captured at queue time.
+   * @param includeUnsafe - Also requeue dead payouts that may have been paid (admins only)
+   */
+  async requeue(id: number, includeUnsafe: boolean): Promise<RunnerEarning | null> {
+    const query = `
+      UPDATE runner_earnings re
+      SET status = 'pending',
+          next_attempt_at = NOW(),
+          retry_count = CASE WHEN re.status = 'dead' THEN 0 ELSE re.retry_count END,
+          lightning_address = COALESCE(
+            (SELECT rp.lightning_address FROM runner_profiles rp WHERE rp.user_id = re.runner_id),
+            re.lightning_address
+          ),
+          payment_request = NULL,
+          payment_hash = NULL,
+          dead_at = NULL
+      WHERE re.id = $1
+        AND (re.status = 'failed' OR (re.status = 'dead' AND ($2 OR re.payment_request IS NULL)))
+      RETURNING ${EARNING_COLUMNS}
+    `;
+    return this.queryOne(query, [id, includeUnsafe]);
+  }
+
+  /**
+   * List dead-lettered payouts, most recent first
+   */
+  async findDead(limit: number): Promise<DeadLetterEarning[]> {
+    const query = `
+      SELECT e.*, j.title as job_title
+      FROM (
+        SELECT ${EARNING_COLUMNS}
+        FROM runner_earnings
+        WHERE status = 'dead'
+        ORDER BY dead_at DESC
+        LIMIT $1
+      ) e
+      LEFT JOIN jobs j ON e.job_id = j.id
+      ORDER BY e.dead_at DESC
+    `;
+    return this.queryRows<DeadLetterEarning>(query, [limit]);
+  }
+}
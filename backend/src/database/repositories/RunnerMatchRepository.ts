@@ -0,0 +1,118 @@
+/**
+ * Runner Match Repository
+ * Data access layer for job_runner_suggestions and the matching waves of jobs
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import type { Job } from './JobRepository.js';
+
+export interface JobRunnerSuggestion {
+  id: number;
+  job_id: number;
+  runner_id: number;
+  wave: number;
+  score: number;
+  distance_km: number | null;
+  notified_at: Date;
+}
+
+export interface CreateSuggestionDto {
+  runnerId: number;
+  score: number;
+  distanceKm: number | null;
+}
+
+export type MatchingJob = Job & { match_wave: number };
+
+export class RunnerMatchRepository extends BaseRepository<JobRunnerSuggestion> {
+  /**
+   * Claim open jobs due for their next matching wave and move them to it
+   * Jobs still offered to a previous runner wait until that offer runs out;
+   * a claimed job is not returned again until the wave interval has passed.
+   */
+  async claimDueWaves(waveIntervalMinutes: number, maxWaves: number, limit: number): Promise<MatchingJob[]> {
+    const query = `
+      UPDATE jobs j
+      SET match_wave = COALESCE(j.match_wave + 1, 0), match_wave_at = NOW()
+      WHERE j.id IN (
+        SELECT id FROM jobs
+        WHERE status = 'open'
+          AND created_at > NOW() - INTERVAL '1 day'
+          AND (
+            match_wave IS NULL
+            OR (match_wave < $2 - 1 AND match_wave_at <= NOW() - make_interval(mins => $1))
+          )
+          AND NOT EXISTS (
+            SELECT 1 FROM job_template_occurrences o
+            WHERE o.job_id = jobs.id AND o.reserved_until > NOW()
+          )
+        ORDER BY created_at ASC
+        LIMIT $3
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING j.id, j.client_id, j.runner_id, j.title, j.description, j.price_cents,
+                j.location, j.pickup_address as address, j.status, j.deadline, j.created_at, j.updated_at,
+                j.accepted_at, j.completed_at, j.payment_confirmed_at, j.category, j.fedi_community_id,
+                j.match_wave
+    `;
+
+    return this.queryRows<MatchingJob>(query, [waveIntervalMinutes, maxWaves, limit]);
+  }
+
+  /**
+   * Record the runners a job was pushed to in a wave
+   * Runners already told about the job are skipped; returns the new rows
+   */
+  async recordSuggestions(
+    jobId: number,
+    wave: number,
+    suggestions: CreateSuggestionDto[]
+  ): Promise<JobRunnerSuggestion[]> {
+    if (suggestions.length === 0) {
+      return [];
+    }
+
+    const values: unknown[] = [jobId, wave];
+    const rows = suggestions.map((suggestion) => {
+      values.push(suggestion.runnerId, suggestion.score, suggestion.distanceKm);
+      const n = values.length;
+      return `($1, $${n - 2}, $2, $${n - 1}, $${n})`;
+    });
+
+    const query = `
+      INSERT INTO job_runner_suggestions (job_id, runner_id, wave, score, distance_km)
+      VALUES ${rows.join(', ')}
+      ON CONFLICT (job_id, runner_id) DO NOTHING
+      RETURNING id, job_id, runner_id, wave, score::float as score,
+                distance_km::float as distance_km, notified_at
+    `;
+
+    return this.queryRows<JobRunnerSuggestion>(query, values);
+  }
+
+  /**
+   * Runners a job was pushed to, by wave
+   */
+  async findByJobId(jobId: number): Promise<JobRunnerSuggestion[]> {
+    const query = `
+      SELECT id, job_id, runner_id, wave, score::float as score,
+             distance_km::float as distance_km, notified_at
+      FROM job_runner_suggestions
+      WHERE job_id = $1
+      ORDER BY wave ASC, score DESC
+    `;
+
+    return this.queryRows<JobRunnerSuggestion>(query, [jobId]);
+  }
+
+  /**
+   * Last matching wave sent for a job, or null before the first
+   */
+  async findWave(jobId: number): Promise<number | null> {
+    const row = await this.queryOne<{ match_wave: number | null }>(
+      'SELECT match_wave FROM jobs WHERE id = $1',
+      [jobId]
+    );
+    return row?.match_wave ?? null;
+  }
+}
@@ -5,6 +5,7 @@
 
 import { BaseRepository } from './BaseRepository.js';
 import { NotFoundError } from '../../core/errors/AppError.js';
+import { RUNNER_AVAILABLE_NOW_SQL } from './RunnerAvailabilityRepository.js';
 
 export interface RunnerProfile {
   id: number;
@@ -21,6 +22,8 @@ export interface RunnerProfile {
   total_jobs: number;
   created_at: Date;
   updated_at: Date;
+  is_available?: boolean; // The runner's own switch, set by single profile lookups
+  available_now?: boolean; // Set by searches
 }
 
 export interface CreateRunnerProfileDto {
@@ -52,10 +55,36 @@ export interface RunnerSearchFilters {
   lat?: number | undefined;
   lng?: number | undefined;
   radiusKm?: number | undefined;
+  availableOnly?: boolean | undefined;
   limit?: number | undefined;
   offset?: number | undefined;
 }
 
+export interface RunnerMatchCandidate {
+  profile_id: number;
+  user_id: number;
+  display_name: string;
+  avatar_url: string | null;
+  tags: string[];
+  hourly_rate_cents: number | null;
+  avg_rating: number;
+  completion_rate: number;
+  total_jobs: number;
+  distance_km: number | null; // Unknown when the job or the runner has no location
+  available_now: boolean; // Switched on, within working hours, not on time off, below capacity
+  max_concurrent_jobs: number;
+  active_jobs: number; // Accepted or in progress right now
+  recent_jobs: number; // Accepted within the recent load window
+}
+
+export interface MatchCandidateQuery {
+  radiusKm: number | null; // Distance is ignored without one
+  recentDays: number;
+  limit: number;
+  excludeNotified?: boolean | undefined; // Leave out runners already told about the job
+  availableOnly?: boolean | undefined;
+}
+
 export class RunnerRepository extends BaseRepository<RunnerProfile> {
   /**
    * Find runner profile by ID
@@ -64,7 +93,7 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
     const query = `
       SELECT id, user_id, display_name, bio, lightning_address,
              hourly_rate_cents, tags, location, avatar_url,
-             completion_rate, avg_rating, total_jobs,
+             completion_rate, avg_rating, total_jobs, is_available,
              created_at, updated_at
       FROM runner_profiles
       WHERE id = $1
@@ -88,7 +117,7 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
     const query = `
       SELECT id, user_id, display_name, bio, lightning_address,
              hourly_rate_cents, tags, location, avatar_url,
-             completion_rate, avg_rating, total_jobs,
+             completion_rate, avg_rating, total_jobs, is_available,
              created_at, updated_at
       FROM runner_profiles
       WHERE user_id = $1
@@ -309,7 +338,8 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
     lng: number,
     radiusKm: number,
     limit: number = 20,
-    offset: number = 0
+    offset: number = 0,
+    availableOnly: boolean = false
   ): Promise<RunnerProfile[]> {
     const query = `
       SELECT id, user_id, display_name, bio, lightning_address,
@@ -319,19 +349,21 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
              ST_Distance(
                location::geography,
                ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography
-             ) / 1000 as distance_km
-      FROM runner_profiles
+             ) / 1000 as distance_km,
+             ${RUNNER_AVAILABLE_NOW_SQL} as available_now
+      FROM runner_profiles rp
       WHERE location IS NOT NULL
         AND ST_DWithin(
           location::geography,
           ST_SetSRID(ST_MakePoint($1, $2), 4326)::geography,
           $3 * 1000
         )
+        AND (NOT $6::boolean OR ${RUNNER_AVAILABLE_NOW_SQL})
       ORDER BY distance_km ASC, avg_rating DESC
       LIMIT $4 OFFSET $5
     `;
 
-    return this.queryRows<RunnerProfile>(query, [lng, lat, radiusKm, limit, offset]);
+    return this.queryRows<RunnerProfile>(query, [lng, lat, radiusKm, limit, offset, availableOnly]);
   }
 
   /**
@@ -376,6 +408,10 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
       paramCount += 3;
     }
 
+    if (filters.availableOnly) {
+      conditions.push(RUNNER_AVAILABLE_NOW_SQL);
+    }
+
     const whereClause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
     const limit = filters.limit || 20;
     const offset = filters.offset || 0;
@@ -401,8 +437,9 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
       SELECT id, user_id, display_name, bio, lightning_address,
              hourly_rate_cents, tags, location, avatar_url,
              completion_rate, avg_rating, total_jobs,
-             created_at, updated_at${selectDistance}
-      FROM runner_profiles
+             created_at, updated_at${selectDistance},
+             ${RUNNER_AVAILABLE_NOW_SQL} as available_now
+      FROM runner_profiles rp
       ${whereClause}
       ORDER BY ${orderBy}
       LIMIT $${paramCount++} OFFSET $${paramCount}
@@ -413,6 +450,52 @@ export class RunnerRepository extends BaseRepository<RunnerProfile> {
     return this.queryRows<RunnerProfile>(query, values);
   }
 
+  /**
+   * Runners who could take a job, closest first, with their current and
+   * recent load; the job's own client is left out
+   */
+  async findMatchCandidates(jobId: number, options: MatchCandidateQuery): Promise<RunnerMatchCandidate[]> {
+    const query = `
+      SELECT rp.id as profile_id, rp.user_id, rp.display_name, rp.avatar_url, COALESCE(rp.tags, '{}') as tags,
+             rp.hourly_rate_cents, rp.avg_rating::float as avg_rating,
+             rp.completion_rate::float as completion_rate, rp.total_jobs,
+             CASE WHEN j.location IS NULL OR rp.location IS NULL THEN NULL
+                  ELSE ST_Distance(rp.location::geography, j.location::geography) / 1000
+             END as distance_km,
+             ${RUNNER_AVAILABLE_NOW_SQL} as available_now, rp.max_concurrent_jobs,
+             (SELECT COUNT(*) FROM jobs a
+              WHERE a.runner_id = rp.user_id AND a.status IN ('accepted', 'in_progress'))::int as active_jobs,
+             (SELECT COUNT(*) FROM jobs r
+              WHERE r.runner_id = rp.user_id AND r.accepted_at > NOW() - make_interval(days => $3))::int as recent_jobs
+      FROM runner_profiles rp
+      JOIN jobs j ON j.id = $1
+      WHERE rp.user_id <> j.client_id
+        AND (
+          $2::float IS NULL OR j.location IS NULL
+          OR (rp.location IS NOT NULL
+              AND ST_DWithin(rp.location::geography, j.location::geography, $2 * 1000))
+        )
+        AND (
+          NOT $5::boolean
+          OR NOT EXISTS (
+            SELECT 1 FROM job_runner_suggestions s WHERE s.job_id = j.id AND s.runner_id = rp.user_id
+          )
+        )
+        AND (NOT $6::boolean OR ${RUNNER_AVAILABLE_NOW_SQL})
+      ORDER BY distance_km ASC NULLS LAST, rp.avg_rating DESC
+      LIMIT $4
+    `;
+
+    return this.queryRows<RunnerMatchCandidate>(query, [
+      jobId,
+      options.radiusKm,
+      options.recentDays,
+      options.limit,
+      options.excludeNotified ?? false,
+      options.availableOnly ?? false,
+    ]);
+  }
+
   /**
    * List all runners
    */
@@ -0,0 +1,318 @@
+/**
+ * Saved Search Repository
+ * Data access layer for saved_searches, the new jobs that match them and the
+ * search alert mark on jobs
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export type AlertChannel = 'in_app' | 'email' | 'push';
+
+export interface SavedSearch {
+  id: number;
+  runner_id: number;
+  name: string;
+  lat: number;
+  lng: number;
+  radius_km: number;
+  categories: string[];
+  min_price_cents: number | null;
+  channels: AlertChannel[];
+  quiet_start: string | null; // HH:MM in the search's time zone
+  quiet_end: string | null;
+  timezone: string;
+  digest: boolean;
+  is_active: boolean;
+  last_digest_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type SavedSearchWithEmail = SavedSearch & { email: string | null };
+
+export interface SavedSearchDto {
+  name: string;
+  lat: number;
+  lng: number;
+  radiusKm: number;
+  categories: string[];
+  minPriceCents: number | null;
+  channels: AlertChannel[];
+  quietStart: string | null;
+  quietEnd: string | null;
+  timezone: string;
+  digest: boolean;
+  isActive: boolean;
+}
+
+export interface PendingMatch {
+  id: number;
+  search_id: number;
+  job_id: number;
+  title: string;
+  price_cents: number;
+  category: string | null;
+  distance_km: number;
+  matched_at: Date;
+}
+
+const SAVED_SEARCH_COLUMNS = `
+  s.id, s.runner_id, s.name,
+  ST_Y(s.location::geometry) as lat, ST_X(s.location::geometry) as lng,
+  s.radius_km::float as radius_km, s.categories, s.min_price_cents, s.channels,
+  to_char(s.quiet_start, 'HH24:MI') as quiet_start, to_char(s.quiet_end, 'HH24:MI') as quiet_end,
+  s.timezone, s.digest, s.is_active, s.last_digest_at, s.created_at, s.updated_at
+`;
+
+// Columns a search can be changed through, by DTO field
+const UPDATABLE_COLUMNS: Array<[keyof SavedSearchDto, string]> = [
+  ['name', 'name'],
+  ['radiusKm', 'radius_km'],
+  ['categories', 'categories'],
+  ['minPriceCents', 'min_price_cents'],
+  ['channels', 'channels'],
+  ['quietStart', 'quiet_start'],
+  ['quietEnd', 'quiet_end'],
+  ['timezone', 'timezone'],
+  ['digest', 'digest'],
+  ['isActive', 'is_active'],
+];
+
+export class SavedSearchRepository extends BaseRepository<SavedSearch> {
+  /**
+   * Searches of a runner, oldest first
+   */
+  async findByRunnerId(runnerId: number): Promise<SavedSearch[]> {
+    const query = `
+      SELECT ${SAVED_SEARCH_COLUMNS}
+      FROM saved_searches s
+      WHERE s.runner_id = $1
+      ORDER BY s.created_at ASC
+    `;
+
+    return this.queryRows<SavedSearch>(query, [runnerId]);
+  }
+
+  /**
+   * A search by ID, or null
+   */
+  async findById(id: number): Promise<SavedSearch | null> {
+    return this.queryOne<SavedSearch>(`SELECT ${SAVED_SEARCH_COLUMNS} FROM saved_searches s WHERE s.id = $1`, [id]);
+  }
+
+  /**
+   * Number of searches a runner has saved
+   */
+  async countForRunner(runnerId: number): Promise<number> {
+    const row = await this.queryOne<{ count: number }>(
+      'SELECT COUNT(*)::int as count FROM saved_searches WHERE runner_id = $1',
+      [runnerId]
+    );
+    return row?.count ?? 0;
+  }
+
+  /**
+   * Save a search
+   */
+  async create(runnerId: number, data: SavedSearchDto): Promise<SavedSearch> {
+    const query = `
+      WITH inserted AS (
+        INSERT INTO saved_searches (
+          runner_id, name, location, radius_km, categories, min_price_cents, channels,
+          quiet_start, quiet_end, timezone, digest, is_active
+        )
+        VALUES ($1, $2, ST_SetSRID(ST_MakePoint($4, $3), 4326)::geography, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+        RETURNING *
+      )
+      SELECT ${SAVED_SEARCH_COLUMNS} FROM inserted s
+    `;
+
+    const rows = await this.queryRows<SavedSearch>(query, [
+      runnerId,
+      data.name,
+      data.lat,
+      data.lng,
+      data.radiusKm,
+      data.categories,
+      data.minPriceCents,
+      data.channels,
+      data.quietStart,
+      data.quietEnd,
+      data.timezone,
+      data.digest,
+      data.isActive,
+    ]);
+    return rows[0]!;
+  }
+
+  /**
+   * Change a search; fields left out keep their value
+   */
+  async update(id: number, data: Partial<SavedSearchDto>): Promise<SavedSearch | null> {
+    const updates: string[] = [];
+    const values: unknown[] = [];
+
+    for (const [field, column] of UPDATABLE_COLUMNS) {
+      if (data[field] !== undefined) {
+        values.push(data[field]);
+        updates.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (data.lat !== undefined && data.lng !== undefined) {
+      values.push(data.lng, data.lat);
+      updates.push(`location = ST_SetSRID(ST_MakePoint($${values.length - 1}, $${values.length}), 4326)::geography`);
+    }
+
+    values.push(id);
+    const query = `
+      WITH updated AS (
+        UPDATE saved_searches
+        SET ${[...updates, 'updated_at = NOW()'].join(', ')}
+        WHERE id = $${values.length}
+        RETURNING *
+      )
+      SELECT ${SAVED_SEARCH_COLUMNS} FROM updated s
+    `;
+
+    return this.queryOne<SavedSearch>(query, values);
+  }
+
+  /**
+   * Delete a search and its matches; returns whether one was deleted
+   */
+  async delete(id: number): Promise<boolean> {
+    const result = await this.query('DELETE FROM saved_searches WHERE id = $1', [id]);
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  /**
+   * Claim new open jobs not yet checked against saved searches
+   * Jobs still offered to a previous runner wait until that offer runs out,
+   * as with matching waves. Jobs older than a day are never alerted.
+   */
+  async claimNewJobs(limit: number): Promise<number[]> {
+    const query = `
+      UPDATE jobs j
+      SET search_alerted_at = NOW()
+      WHERE j.id IN (
+        SELECT id FROM jobs
+        WHERE status = 'open'
+          AND search_alerted_at IS NULL
+          AND created_at > NOW() - INTERVAL '1 day'
+          AND NOT EXISTS (
+            SELECT 1 FROM job_template_occurrences o
+            WHERE o.job_id = jobs.id AND o.reserved_until > NOW()
+          )
+        ORDER BY created_at ASC
+        LIMIT $1
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING j.id
+    `;
+
+    const rows = await this.queryRows<{ id: number }>(query, [limit]);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Record the active searches each job matches
+   * A job matches when it lies within the search radius, is in one of its
+   * categories (any, when it has none) and pays at least its minimum price.
+   * Runners are not alerted about their own jobs. Returns how many matches
+   * were new.
+   */
+  async recordMatches(jobIds: number[]): Promise<number> {
+    if (jobIds.length === 0) {
+      return 0;
+    }
+
+    const query = `
+      INSERT INTO saved_search_matches (search_id, job_id)
+      SELECT s.id, j.id
+      FROM jobs j
+      JOIN saved_searches s
+        ON s.is_active
+       AND s.runner_id <> j.client_id
+       AND ST_DWithin(s.location, j.location::geography, s.radius_km * 1000)
+       AND (cardinality(s.categories) = 0 OR j.category = ANY(s.categories))
+       AND (s.min_price_cents IS NULL OR j.price_cents >= s.min_price_cents)
+      WHERE j.id = ANY($1::int[]) AND j.location IS NOT NULL
+      ON CONFLICT (search_id, job_id) DO NOTHING
+    `;
+
+    const result = await this.query(query, [jobIds]);
+    return result.rowCount ?? 0;
+  }
+
+  /**
+   * Active searches with matches the runner was not told about yet
+   */
+  async findWithPendingMatches(): Promise<SavedSearchWithEmail[]> {
+    const query = `
+      SELECT ${SAVED_SEARCH_COLUMNS}, u.email
+      FROM saved_searches s
+      JOIN users u ON u.id = s.runner_id
+      WHERE s.is_active
+        AND EXISTS (
+          SELECT 1 FROM saved_search_matches m
+          JOIN jobs j ON j.id = m.job_id
+          WHERE m.search_id = s.id AND m.notified_at IS NULL AND j.status = 'open'
+        )
+      ORDER BY s.id ASC
+    `;
+
+    return this.queryRows<SavedSearchWithEmail>(query);
+  }
+
+  /**
+   * Claim the pending matches of a search on jobs that are still open and
+   * mark them notified, oldest first
+   */
+  async claimPendingMatches(searchId: number): Promise<PendingMatch[]> {
+    const query = `
+      UPDATE saved_search_matches m
+      SET notified_at = NOW()
+      FROM jobs j, saved_searches s
+      WHERE m.id IN (
+          SELECT pm.id FROM saved_search_matches pm
+          JOIN jobs pj ON pj.id = pm.job_id
+          WHERE pm.search_id = $1 AND pm.notified_at IS NULL AND pj.status = 'open'
+          FOR UPDATE OF pm SKIP LOCKED
+        )
+        AND j.id = m.job_id
+        AND s.id = m.search_id
+      RETURNING m.id, m.search_id, m.job_id, j.title, j.price_cents, j.category,
+                ST_Distance(s.location, j.location::geography)::float / 1000 as distance_km,
+                m.matched_at
+    `;
+
+    const rows = await this.queryRows<PendingMatch>(query, [searchId]);
+    return rows.sort((a, b) => a.matched_at.getTime() - b.matched_at.getTime());
+  }
+
+  /**
+   * Record that a search's daily digest went out
+   */
+  async markDigestSent(searchId: number, at: Date): Promise<void> {
+    await this.query('UPDATE saved_searches SET last_digest_at = $2 WHERE id = $1', [searchId, at]);
+  }
+
+  /**
+   * Drop pending matches that will never be sent: the job is no longer open
+   * or the search was paused. Returns how many were dropped.
+   */
+  async discardStaleMatches(): Promise<number> {
+    const query = `
+      DELETE FROM saved_search_matches m
+      USING jobs j, saved_searches s
+      WHERE m.job_id = j.id
+        AND m.search_id = s.id
+        AND m.notified_at IS NULL
+        AND (j.status <> 'open' OR NOT s.is_active)
+    `;
+
+    const result = await this.query(query);
+    return result.rowCount ?? 0;
+  }
+}
@@ -0,0 +1,35 @@
+/**
+ * Security Audit Repository
+ * Data access layer for the security audit log
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export interface SecurityAuditEntry {
+  userId: number;
+  action: string; // e.g. 'session_created', 'refresh_token_reused'
+  success: boolean;
+  details?: Record<string, unknown> | undefined;
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export class SecurityAuditRepository extends BaseRepository<Record<string, unknown>> {
+  /**
+   * Append an entry to the audit log
+   */
+  async log(entry: SecurityAuditEntry): Promise<void> {
+    const query = `
+      INSERT INTO security_audit_log (user_id, action, success, details, ip_address, user_agent)
+      VALUES ($1, $2, $3, $4, $5, $6)
+    `;
+    await this.query(query, [
+      entry.userId,
+      entry.action,
+      entry.success,
+      JSON.stringify(entry.details ?? {}),
+      entry.ipAddress ?? null,
+      entry.userAgent ?? null,
+    ]);
+  }
+}
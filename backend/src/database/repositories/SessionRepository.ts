@@ -0,0 +1,183 @@
+/**
+ * Session Repository
+ * Data access layer for login sessions and their refresh tokens
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+import type { UserRole } from '../../types/index.js';
+
+export type SessionRevokedReason = 'logout' | 'revoked' | 'reuse';
+
+export interface AuthSession {
+  id: number;
+  user_id: number;
+  role: UserRole;
+  expires_at: Date;
+  last_used_at: Date;
+  revoked_at: Date | null;
+  revoked_reason: SessionRevokedReason | null;
+  created_at: Date;
+}
+
+export interface RefreshTokenRecord {
+  session_id: number;
+  user_id: number;
+  used_at: Date | null;
+}
+
+export interface SessionWithDevice extends AuthSession {
+  ip_address: string | null;
+  user_agent: string | null;
+}
+
+export class SessionRepository extends BaseRepository<AuthSession> {
+  /**
+   * Open a session
+   */
+  async create(userId: number, role: UserRole, expiresAt: Date): Promise<AuthSession> {
+    const query = `
+      INSERT INTO auth_sessions (user_id, role, expires_at)
+      VALUES ($1, $2, $3)
+      RETURNING *
+    `;
+    const rows = await this.queryRows<AuthSession>(query, [userId, role, expiresAt]);
+    return rows[0]!;
+  }
+
+  /**
+   * Find a session by ID
+   */
+  async findById(id: number): Promise<AuthSession | null> {
+    return this.queryOne<AuthSession>('SELECT * FROM auth_sessions WHERE id = $1', [id]);
+  }
+
+  /**
+   * Whether a session is neither revoked nor expired
+   */
+  async isActive(id: number): Promise<boolean> {
+    const query = `
+      SELECT EXISTS(
+        SELECT 1 FROM auth_sessions WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+      ) as exists
+    `;
+    return this.exists(query, [id]);
+  }
+
+  /**
+   * Which of the given sessions are neither revoked nor expired
+   */
+  async findActiveIds(ids: number[]): Promise<number[]> {
+    const query = `
+      SELECT id FROM auth_sessions
+      WHERE id = ANY($1::int[]) AND revoked_at IS NULL AND expires_at > NOW()
+    `;
+    const rows = await this.queryRows<{ id: number }>(query, [ids]);
+    return rows.map((row) => row.id);
+  }
+
+  /**
+   * Active sessions of a user, with the IP and user agent of their latest
+   * security audit log entry
+   */
+  async findActiveForUser(userId: number): Promise<SessionWithDevice[]> {
+    const query = `
+      SELECT s.*, a.ip_address, a.user_agent
+      FROM auth_sessions s
+      LEFT JOIN LATERAL (
+        SELECT split_part(l.ip_address::text, '/', 1) AS ip_address, l.user_agent
+        FROM security_audit_log l
+        WHERE l.user_id = s.user_id AND l.details->>'session_id' = s.id::text
+        ORDER BY l.created_at DESC
+        LIMIT 1
+      ) a ON TRUE
+      WHERE s.user_id = $1 AND s.revoked_at IS NULL AND s.expires_at > NOW()
+      ORDER BY s.last_used_at DESC
+    `;
+    return this.queryRows<SessionWithDevice>(query, [userId]);
+  }
+
+  /**
+   * Record use of a session and move its expiry
+   * The session takes the user's current role, so a role change applies
+   * from the next refresh.
+   */
+  async touch(id: number, expiresAt: Date): Promise<AuthSession | null> {
+    const query = `
+      UPDATE auth_sessions s
+      SET last_used_at = NOW(), expires_at = $2, role = u.role
+      FROM users u
+      WHERE s.id = $1 AND u.id = s.user_id
+      RETURNING s.*
+    `;
+    return this.queryOne<AuthSession>(query, [id, expiresAt]);
+  }
+
+  /**
+   * Revoke a session if it is not revoked yet
+   * @param userId - Only revoke it if it belongs to this user (optional)
+   * @returns False if it is unknown, someone else's or already revoked
+   */
+  async revoke(id: number, reason: SessionRevokedReason, userId?: number): Promise<boolean> {
+    const query = `
+      UPDATE auth_sessions
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE id = $1 AND revoked_at IS NULL AND ($3::int IS NULL OR user_id = $3)
+      RETURNING id
+    `;
+    const rows = await this.queryRows<{ id: number }>(query, [id, reason, userId ?? null]);
+    return rows.length > 0;
+  }
+
+  /**
+   * Revoke every open session of a user
+   * @returns Number of sessions revoked
+   */
+  async revokeAllForUser(userId: number, reason: SessionRevokedReason): Promise<number> {
+    const query = `
+      UPDATE auth_sessions
+      SET revoked_at = NOW(), revoked_reason = $2
+      WHERE user_id = $1 AND revoked_at IS NULL
+      RETURNING id
+    `;
+    const rows = await this.queryRows<{ id: number }>(query, [userId, reason]);
+    return rows.length;
+  }
+
+  /**
+   * Store the hash of a newly issued refresh token
+   */
+  async addRefreshToken(sessionId: number, tokenHash: string): Promise<void> {
+    await this.query('INSERT INTO auth_refresh_tokens (token_hash, session_id) VALUES ($1, $2)', [
+      tokenHash,
+      sessionId,
+    ]);
+  }
+
+  /**
+   * Mark a refresh token used if it has not been used yet
+   * @returns Session ID, null if the token is unknown or already used
+   */
+  async useRefreshToken(tokenHash: string): Promise<number | null> {
+    const query = `
+      UPDATE auth_refresh_tokens
+      SET used_at = NOW()
+      WHERE token_hash = $1 AND used_at IS NULL
+      RETURNING session_id
+    `;
+    const rows = await this.queryRows<{ session_id: number }>(query, [tokenHash]);
+    return rows[0]?.session_id ?? null;
+  }
+
+  /**
+   * Find a refresh token, used or not, with the user of its session
+   */
+  async findRefreshToken(tokenHash: string): Promise<RefreshTokenRecord | null> {
+    const query = `
+      SELECT t.session_id, s.user_id, t.used_at
+      FROM auth_refresh_tokens t
+      JOIN auth_sessions s ON s.id = t.session_id
+      WHERE t.token_hash = $1
+    `;
+    return this.queryOne<RefreshTokenRecord>(query, [tokenHash]);
+  }
+}
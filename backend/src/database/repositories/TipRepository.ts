@@ -0,0 +1,135 @@
+/**
+ * Tip Repository
+ * Data access layer for job_tips table
+ */
+
+import { BaseRepository } from './BaseRepository.js';
+
+export type TipMethod = 'invoice' | 'lightning_address';
+
+export type TipStatus = 'pending' | 'paid' | 'expired';
+
+export interface JobTip {
+  id: number;
+  job_id: number;
+  client_id: number;
+  runner_id: number;
+  method: TipMethod;
+  amount_sats: number;
+  amount_cents: number;
+  price_snapshot_id: number | null;
+  message: string | null;
+  payment_hash: string;
+  payment_request: string;
+  verify_url: string | null;
+  payment_preimage: string | null;
+  status: TipStatus;
+  expires_at: Date;
+  paid_at: Date | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface CreateTipDto {
+  jobId: number;
+  clientId: number;
+  runnerId: number;
+  method: TipMethod;
+  amountSats: number;
+  amountCents: number;
+  priceSnapshotId: number | null;
+  message: string | null;
+  paymentHash: string;
+  paymentRequest: string;
+  verifyUrl: string | null;
+  expiresAt: Date;
+}
+
+const TIP_COLUMNS = `
+  id, job_id, client_id, runner_id, method, amount_sats::int as amount_sats, amount_cents,
+  price_snapshot_id, message, payment_hash, payment_request, verify_url, payment_preimage,
+  status, expires_at, paid_at, created_at, updated_at
+`;
+
+export class TipRepository extends BaseRepository<JobTip> {
+  /**
+   * Find tip by ID
+   */
+  async findById(id: number): Promise<JobTip | null> {
+    const query = `
+      SELECT ${TIP_COLUMNS}
+      FROM job_tips
+      WHERE id = $1
+    `;
+    return this.queryOne<JobTip>(query, [id]);
+  }
+
+  /**
+   * List the tips of a job, newest first
+   */
+  async findByJobId(jobId: number): Promise<JobTip[]> {
+    const query = `
+      SELECT ${TIP_COLUMNS}
+      FROM job_tips
+      WHERE job_id = $1
+      ORDER BY created_at DESC
+    `;
+    return this.queryRows<JobTip>(query, [jobId]);
+  }
+
+  /**
+   * Record a tip waiting to be paid
+   */
+  async create(data: CreateTipDto): Promise<JobTip> {
+    const query = `
+      INSERT INTO job_tips (
+        job_id, client_id, runner_id, method, amount_sats, amount_cents, price_snapshot_id,
+        message, payment_hash, payment_request, verify_url, expires_at
+      )
+      VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+      RETURNING ${TIP_COLUMNS}
+    `;
+    const tip = await this.queryOne<JobTip>(query, [
+      data.jobId,
+      data.clientId,
+      data.runnerId,
+      data.method,
+      data.amountSats,
+      data.amountCents,
+      data.priceSnapshotId,
+      data.message,
+      data.paymentHash,
+      data.paymentRequest,
+      data.verifyUrl,
+      data.expiresAt,
+    ]);
+    return tip!;
+  }
+
+  /**
+   * Mark a pending tip as paid
+   * Returns null if it was no longer pending, so the runner is credited once
+   */
+  async markPaid(id: number, preimage: string | null): Promise<JobTip | null> {
+    const query = `
+      UPDATE job_tips
+      SET status = 'paid', paid_at = NOW(), payment_preimage = COALESCE($2, payment_preimage), updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+      RETURNING ${TIP_COLUMNS}
+    `;
+    return this.queryOne<JobTip>(query, [id, preimage]);
+  }
+
+  /**
+   * Mark a pending tip whose invoice expired unpaid
+   */
+  async markExpired(id: number): Promise<JobTip | null> {
+    const query = `
+      UPDATE job_tips
+      SET status = 'expired', updated_at = NOW()
+      WHERE id = $1 AND status = 'pending'
+      RETURNING ${TIP_COLUMNS}
+    `;
+    return this.queryOne<JobTip>(query, [id]);
+  }
+}
@@ -5,6 +5,7 @@
 
 import { BaseRepository } from './BaseRepository.js';
 import { NotFoundError } from '../../core/errors/AppError.js';
+import type { UserRole } from '../../types/index.js';
 
 export interface User {
   id: number;
@@ -12,6 +13,9 @@ export interface User {
   password_hash: string;
   display_name: string;
   phone_number?: string;
+  role?: UserRole; // Only selected by the queries that issue tokens
+  nostr_pubkey?: string | null;
+  lnurl_linking_key?: string | null;
   created_at: Date;
   updated_at?: Date;
 }
@@ -84,6 +88,60 @@ export class UserRepository extends BaseRepository<User> {
     return this.queryOne<User>(query, [phoneNumber]);
   }
 
+  /**
+   * Find user by Nostr public key (hex)
+   */
+  async findByNostrPubkey(pubkey: string): Promise<User | null> {
+    const query = `
+      SELECT id, username, display_name, role, nostr_pubkey, created_at, updated_at
+      FROM users
+      WHERE nostr_pubkey = $1
+    `;
+    return this.queryOne<User>(query, [pubkey]);
+  }
+
+  /**
+   * Create a user who signs in with a Nostr key instead of a password
+   */
+  async createWithNostrPubkey(pubkey: string, username: string, displayName: string): Promise<User> {
+    const query = `
+      INSERT INTO users (username, display_name, nostr_pubkey, created_at)
+      VALUES ($1, $2, $3, NOW())
+      RETURNING id, username, display_name, role, nostr_pubkey, created_at
+    `;
+
+    const users = await this.queryRows<Partial<User>>(query, [username, displayName, pubkey]);
+
+    return users[0] as User;
+  }
+
+  /**
+   * Find user by LNURL-auth linking key
+   */
+  async findByLnurlLinkingKey(linkingKey: string): Promise<User | null> {
+    const query = `
+      SELECT id, username, display_name, role, lnurl_linking_key, created_at, updated_at
+      FROM users
+      WHERE lnurl_linking_key = $1
+    `;
+    return this.queryOne<User>(query, [linkingKey]);
+  }
+
+  /**
+   * Create a user who signs in with a Lightning wallet (LNURL-auth)
+   */
+  async createWithLnurlLinkingKey(linkingKey: string, username: string, displayName: string): Promise<User> {
+    const query = `
+      INSERT INTO users (username, display_name, lnurl_linking_key, created_at)
+      VALUES ($1, $2, $3, NOW())
+      RETURNING id, username, display_name, role, lnurl_linking_key, created_at
+    `;
+
+    const users = await this.queryRows<Partial<User>>(query, [username, displayName, linkingKey]);
+
+    return users[0] as User;
+  }
+
   /**
    * Create new user
    */
@@ -8,36 +8,16 @@
  * - Requires valid JWT token for all protected routes
  * - Validates user exists and is active
  * - Checks for banned accounts
- * - Implements token blacklist for logout
+ * - Rejects tokens whose session was logged out or revoked
  * - Provides detailed security logging
  */
 
 import type { Response, NextFunction } from 'express';
 import { verifyToken, extractToken } from '../utils/jwt.js';
 import { getPool } from '../db.js';
+import { isSessionActive } from './session.js';
 import type { AuthenticatedRequest, User, UserRole } from '../types/index.js';
 
-// Token blacklist for logout functionality
-// In production, use Redis for distributed systems
-const tokenBlacklist = new Set<string>();
-
-/**
- * Add token to blacklist (called during logout)
- */
-export function blacklistToken(token: string): void {
-  tokenBlacklist.add(token);
-  
-  // Clean up expired tokens periodically
-  // In production, implement TTL in Redis
-}
-
-/**
- * Check if token is blacklisted
- */
-function isTokenBlacklisted(token: string): boolean {
-  return tokenBlacklist.has(token);
-}
-
 /**
  * Secure Authentication Middleware
  * 
@@ -67,16 +47,7 @@ export async function authenticate(
       return;
     }
     
-    // Step 2: Check if token is blacklisted (logged out)
-    if (isTokenBlacklisted(token)) {
-      res.status(401).json({
-        error: 'Token invalidated',
-        message: 'This token has been logged out. Please log in again.'
-      });
-      return;
-    }
-    
-    // Step 3: Verify token signature and expiration
+    // Step 2: Verify token signature and expiration
     let decoded;
     try {
       decoded = verifyToken(token);
@@ -89,11 +60,21 @@ export async function authenticate(
       return;
     }
     
-    // Step 4: Load user from database
     const pool = getPool();
     if (!pool) {
       throw new Error('Database connection not available');
     }
+
+    // Step 3: Check the session was not logged out or revoked
+    if (!(await isSessionActive(decoded.sessionId))) {
+      res.status(401).json({
+        error: 'Session ended',
+        message: 'This session has been logged out. Please log in again.'
+      });
+      return;
+    }
+    
+    // Step 4: Load user from database
     
     const result = await pool.query<User>(
       `SELECT 
@@ -143,6 +124,7 @@ export async function authenticate(
     // Step 9: Attach user to request object
     req.user = user;
     req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
     
     // Continue to next middleware
     next();
@@ -191,17 +173,12 @@ export async function optionalAuth(
       return;
     }
     
-    // Token is blacklisted - continue without authentication
-    if (isTokenBlacklisted(token)) {
-      next();
-      return;
-    }
-    
     // Verify token
     const decoded = verifyToken(token);
     const pool = getPool();
     
-    if (pool) {
+    // Tokens of ended sessions are treated as absent
+    if (pool && (await isSessionActive(decoded.sessionId))) {
       const result = await pool.query<User>(
         `SELECT id, role, phone, email, nostr_pubkey, created_at
          FROM users 
@@ -213,6 +190,7 @@ export async function optionalAuth(
       if (user) {
         req.user = user;
         req.userId = decoded.userId;
+        req.sessionId = decoded.sessionId;
       }
     }
     
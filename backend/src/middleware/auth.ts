@@ -6,26 +6,9 @@
 import type { Response, NextFunction } from 'express';
 import { verifyToken, extractToken } from '../utils/jwt.js';
 import { getPool } from '../db.js';
+import { isSessionActive } from './session.js';
 import type { AuthenticatedRequest, User, UserRole } from '../types/index.js';
 
-// Token blacklist for logout functionality
-// In production, use Redis for distributed systems
-const tokenBlacklist = new Set<string>();
-
-/**
- * Add token to blacklist (called during logout)
- */
-export function blacklistToken(token: string): void {
-  tokenBlacklist.add(token);
-}
-
-/**
- * Check if token is blacklisted
- */
-function isTokenBlacklisted(token: string): boolean {
-  return tokenBlacklist.has(token);
-}
-
 /**
  * Secure Authentication Middleware
  * 
@@ -36,7 +19,7 @@ function isTokenBlacklisted(token: string): boolean {
  * - Requires valid JWT token
  * - Validates user exists and is active
  * - Checks for banned accounts
- * - Implements token blacklist for logout
+ * - Rejects tokens whose session was logged out or revoked
  * - Updates last login timestamp
  */
 export async function authenticate(
@@ -56,16 +39,7 @@ export async function authenticate(
       return;
     }
     
-    // Step 2: Check if token is blacklisted (logged out)
-    if (isTokenBlacklisted(token)) {
-      res.status(401).json({
-        error: 'Token invalidated',
-        message: 'This token has been logged out. Please log in again.'
-      });
-      return;
-    }
-    
-    // Step 3: Verify token signature and expiration
+    // Step 2: Verify token signature and expiration
     let decoded;
     try {
       decoded = verifyToken(token);
@@ -78,11 +52,21 @@ export async function authenticate(
       return;
     }
     
-    // Step 4: Load user from database
     const pool = getPool();
     if (!pool) {
       throw new Error('Database connection not available');
     }
+
+    // Step 3: Check the session was not logged out or revoked
+    if (!(await isSessionActive(decoded.sessionId))) {
+      res.status(401).json({
+        error: 'Session ended',
+        message: 'This session has been logged out. Please log in again.'
+      });
+      return;
+    }
+    
+    // Step 4: Load user from database
     
     const result = await pool.query<User>(
       `SELECT 
@@ -106,6 +90,7 @@ export async function authenticate(
     // Step 6: Attach user to request object
     req.user = user;
     req.userId = decoded.userId;
+    req.sessionId = decoded.sessionId;
     
     // Continue to next middleware
     next();
@@ -143,7 +128,7 @@ export async function optionalAuth(
     const decoded = verifyToken(token);
     const pool = getPool();
     
-    if (pool) {
+    if (pool && (await isSessionActive(decoded.sessionId))) {
       const result = await pool.query<User>(
         'SELECT id, role, phone_number as phone, NULL as email, NULL as nostr_pubkey FROM users WHERE id = $1',
         [decoded.userId]
@@ -153,6 +138,7 @@ export async function optionalAuth(
       if (user) {
         req.user = user;
         req.userId = decoded.userId;
+        req.sessionId = decoded.sessionId;
       }
     }
     
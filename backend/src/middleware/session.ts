@@ -0,0 +1,21 @@
+/**
+ * Session Check
+ * Shared by the authentication middleware in auth.ts and auth.secure.ts
+ */
+
+import { SessionRepository } from '../database/repositories/SessionRepository.js';
+
+const sessionRepository = new SessionRepository();
+
+/**
+ * Check the session a token was issued for is still open
+ * Logout and remote logout revoke sessions in the database, so this
+ * survives restarts and works across instances. Every login issues
+ * session-bound tokens, so tokens without a session id cannot be revoked
+ * and are rejected.
+ */
+export async function isSessionActive(sessionId: number | undefined): Promise<boolean> {
+  if (sessionId === undefined) return false;
+
+  return sessionRepository.isActive(sessionId);
+}
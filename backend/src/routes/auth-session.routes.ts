@@ -0,0 +1,26 @@
+/**
+ * Auth Session Routes
+ * Refresh access tokens and log out, for every login method
+ */
+
+import { Router } from 'express';
+import { sessionController } from '../controllers/SessionController.js';
+import { asyncHandler } from '../middleware/error/asyncHandler.js';
+
+const router = Router();
+
+/**
+ * @route   POST /api/auth/session/refresh
+ * @desc    Swap a refresh token for a new access and refresh token; a reused refresh token ends the session
+ * @access  Public (refresh token)
+ */
+router.post('/refresh', asyncHandler(sessionController.refresh));
+
+/**
+ * @route   POST /api/auth/session/logout
+ * @desc    End the session of a refresh token
+ * @access  Public (refresh token)
+ */
+router.post('/logout', asyncHandler(sessionController.logout));
+
+export default router;
@@ -7,7 +7,7 @@ import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import bcrypt from 'bcrypt';
 import { getPool } from '../db.js';
-import { generateToken } from '../utils/jwt.js';
+import { sessionService } from '../services/auth/SessionService.js';
 import { authenticate } from '../middleware/auth.js';
 import type { AuthenticatedRequest } from '../types/index.js';
 import logger from '../utils/logger.js';
@@ -69,16 +69,17 @@ router.post('/register',
 
       const user = result.rows[0];
 
-      // Generate JWT token
-      const token = generateToken({
-        userId: user.id,
-        role: 'client',
+      // Open a session: short-lived access token plus rotating refresh token
+      const { token, refreshToken } = await sessionService.start(user.id, 'client', {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
       });
 
       res.status(201).json({
         success: true,
         message: 'User registered successfully',
         token,
+        refreshToken,
         user: {
           id: user.id,
           username: user.username,
@@ -151,16 +152,17 @@ router.post('/login',
         return;
       }
 
-      // Generate JWT token
-      const token = generateToken({
-        userId: user.id,
-        role: 'client',
+      // Open a session: short-lived access token plus rotating refresh token
+      const { token, refreshToken } = await sessionService.start(user.id, 'client', {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
       });
 
       res.json({
         success: true,
         message: 'Login successful',
         token,
+        refreshToken,
         user: {
           id: user.id,
           username: user.username,
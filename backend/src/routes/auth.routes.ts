@@ -6,7 +6,7 @@
 import { Router, Request, Response } from 'express';
 import { body, validationResult } from 'express-validator';
 import { getPool } from '../db.js';
-import { generateToken } from '../utils/jwt.js';
+import { sessionService } from '../services/auth/SessionService.js';
 import { otpService } from '../services/otp.service.js';
 import { authenticate } from '../middleware/auth.js';
 import type { AuthenticatedRequest } from '../types/index.js';
@@ -123,10 +123,10 @@ router.post('/verify-otp',
         user = result.rows[0];
       }
 
-      // Generate JWT token
-      const token = generateToken({
-        userId: user.id,
-        role: 'client'
+      // Open a session for the verified phone
+      const { token, refreshToken } = await sessionService.start(user.id, 'client', {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
       });
 
       res.json({
@@ -134,6 +134,7 @@ router.post('/verify-otp',
         message: isNewUser ? 'Account created successfully' : 'Login successful',
         is_new_user: isNewUser,
         token,
+        refreshToken,
         user: {
           id: user.id,
           phone_number: user.phone_number,
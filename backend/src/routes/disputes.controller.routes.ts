@@ -0,0 +1,51 @@
+/**
+ * Dispute Routes - Controller-based
+ * Routes for opening, arguing and resolving job disputes
+ */
+
+import { Router } from 'express';
+import { DisputeController } from '../controllers/DisputeController.js';
+import { authenticate, authorize } from '../middleware/auth.js';
+
+const router = Router();
+const disputeController = new DisputeController();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   POST /api/disputes
+ * @desc    Open a dispute on a job with a reason and evidence
+ * @access  Private (job client or assigned runner)
+ */
+router.post('/', disputeController.openDispute);
+
+/**
+ * @route   GET /api/disputes
+ * @desc    List unresolved disputes
+ * @access  Private (admin only)
+ */
+router.get('/', authorize('admin'), disputeController.listOpenDisputes);
+
+/**
+ * @route   GET /api/disputes/:id
+ * @desc    Get dispute with its timeline
+ * @access  Private (job client, assigned runner or admin)
+ */
+router.get('/:id', disputeController.getDispute);
+
+/**
+ * @route   POST /api/disputes/:id/statements
+ * @desc    Add a statement to the dispute
+ * @access  Private (job client, assigned runner or admin)
+ */
+router.post('/:id/statements', disputeController.addStatement);
+
+/**
+ * @route   POST /api/disputes/:id/resolve
+ * @desc    Resolve dispute with a full payout, partial split or refund
+ * @access  Private (admin only)
+ */
+router.post('/:id/resolve', authorize('admin'), disputeController.resolveDispute);
+
+export default router;
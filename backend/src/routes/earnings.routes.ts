@@ -5,7 +5,7 @@
 
 import { Router } from 'express';
 import { earningsController } from '../controllers/EarningsController';
-import { authenticate } from '../middleware/auth';
+import { authenticate, authorize } from '../middleware/auth';
 
 const router = Router();
 
@@ -28,9 +28,23 @@ router.get('/history', earningsController.getPayoutHistory);
 
 /**
  * @route   POST /api/earnings/:id/retry
- * @desc    Retry failed payout
+ * @desc    Retry failed payout (queued for the payout worker)
  * @access  Private (runners only)
  */
 router.post('/:id/retry', earningsController.retryPayout);
 
+/**
+ * @route   GET /api/earnings/dead-letter
+ * @desc    List payouts that ran out of retries or need a manual check
+ * @access  Private (admin only)
+ */
+router.get('/dead-letter', authorize('admin'), earningsController.getDeadLetters);
+
+/**
+ * @route   POST /api/earnings/:id/requeue
+ * @desc    Requeue a dead-lettered payout with fresh retries
+ * @access  Private (admin only)
+ */
+router.post('/:id/requeue', authorize('admin'), earningsController.requeueDeadLetter);
+
 export default router;
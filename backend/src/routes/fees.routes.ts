@@ -0,0 +1,23 @@
+/**
+ * Fee Routes
+ * Routes for previewing platform fees
+ * The fee of an existing job is under /api/jobs/:id/fee
+ */
+
+import { Router } from 'express';
+import { feeController } from '../controllers/FeeController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/fees/preview
+ * @desc    Fee the platform would keep from a job at this price and category
+ * @access  Private
+ */
+router.get('/preview', feeController.previewFee);
+
+export default router;
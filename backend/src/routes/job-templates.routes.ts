@@ -0,0 +1,85 @@
+/**
+ * Job Template Routes
+ * Routes for recurring errands and their occurrences
+ */
+
+import { Router } from 'express';
+import { jobTemplateController } from '../controllers/JobTemplateController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/job-templates
+ * @desc    List the client's recurring errands with recent and upcoming occurrences
+ * @access  Private
+ */
+router.get('/', jobTemplateController.getTemplates);
+
+/**
+ * @route   POST /api/job-templates
+ * @desc    Create a recurring errand from job details and a recurrence rule
+ * @access  Private
+ */
+router.post('/', jobTemplateController.createTemplate);
+
+/**
+ * @route   PATCH /api/job-templates/occurrences/:occurrenceId
+ * @desc    Move an occurrence or change its title, notes or price
+ * @access  Private (template client only)
+ */
+router.patch('/occurrences/:occurrenceId', jobTemplateController.updateOccurrence);
+
+/**
+ * @route   POST /api/job-templates/occurrences/:occurrenceId/skip
+ * @desc    Skip an occurrence
+ * @access  Private (template client only)
+ */
+router.post('/occurrences/:occurrenceId/skip', jobTemplateController.skipOccurrence);
+
+/**
+ * @route   POST /api/job-templates/occurrences/:occurrenceId/restore
+ * @desc    Undo skipping an occurrence
+ * @access  Private (template client only)
+ */
+router.post('/occurrences/:occurrenceId/restore', jobTemplateController.restoreOccurrence);
+
+/**
+ * @route   GET /api/job-templates/:id
+ * @desc    Get a recurring errand
+ * @access  Private (template client only)
+ */
+router.get('/:id', jobTemplateController.getTemplate);
+
+/**
+ * @route   PATCH /api/job-templates/:id
+ * @desc    Change a recurring errand's details or schedule
+ * @access  Private (template client only)
+ */
+router.patch('/:id', jobTemplateController.updateTemplate);
+
+/**
+ * @route   POST /api/job-templates/:id/pause
+ * @desc    Stop posting jobs until resumed
+ * @access  Private (template client only)
+ */
+router.post('/:id/pause', jobTemplateController.pauseTemplate);
+
+/**
+ * @route   POST /api/job-templates/:id/resume
+ * @desc    Resume a paused recurring errand
+ * @access  Private (template client only)
+ */
+router.post('/:id/resume', jobTemplateController.resumeTemplate);
+
+/**
+ * @route   DELETE /api/job-templates/:id
+ * @desc    End a recurring errand; jobs already posted are kept
+ * @access  Private (template client only)
+ */
+router.delete('/:id', jobTemplateController.endTemplate);
+
+export default router;
@@ -5,10 +5,17 @@
 
 import { Router } from 'express';
 import { JobController } from '../controllers/JobController.js';
+import { OfferController } from '../controllers/OfferController.js';
+import { TrackingController } from '../controllers/TrackingController.js';
+import { feeController } from '../controllers/FeeController.js';
+import { tipController } from '../controllers/TipController.js';
+import { matchingController } from '../controllers/MatchingController.js';
 import { authenticate } from '../middleware/auth.js';
 
 const router = Router();
 const jobController = new JobController();
+const offerController = new OfferController();
+const trackingController = new TrackingController();
 
 // All routes require authentication
 router.use(authenticate);
@@ -71,11 +78,26 @@ router.patch('/:id', jobController.updateJob);
 router.delete('/:id', jobController.deleteJob);
 
 /**
- * @route   POST /api/jobs/:id/assign
- * @desc    Assign runner to job
+ * @route   GET /api/jobs/:id/offers
+ * @desc    List offers on a job (client sees all, runners see their own)
+ * @access  Private
+ */
+router.get('/:id/offers', offerController.getJobOffers);
+
+/**
+ * @route   POST /api/jobs/:id/offers
+ * @desc    Make an offer on an open job with a price, ETA and note
  * @access  Private (runners only)
  */
-router.post('/:id/assign', jobController.assignRunner);
+router.post('/:id/offers', offerController.submitOffer);
+
+/**
+ * @route   GET /api/jobs/:id/suggested-runners
+ * @desc    Runners ranked for an open job by distance, categories, rating,
+ *          completion rate, availability and recent load
+ * @access  Private (job client only)
+ */
+router.get('/:id/suggested-runners', matchingController.getSuggestedRunners);
 
 /**
  * @route   POST /api/jobs/:id/start
@@ -84,13 +106,56 @@ router.post('/:id/assign', jobController.assignRunner);
  */
 router.post('/:id/start', jobController.startJob);
 
+/**
+ * @route   POST /api/jobs/:id/stops/:stopId/complete
+ * @desc    Check off a stop on the way
+ * @access  Private (assigned runner only, job in progress)
+ */
+router.post('/:id/stops/:stopId/complete', jobController.completeStop);
+
+/**
+ * @route   GET /api/jobs/:id/location
+ * @desc    Runner's live position, ETA to the next stop and recent trail
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/location', trackingController.getLiveLocation);
+
+/**
+ * @route   POST /api/jobs/:id/location
+ * @desc    Send a location ping while the job is in progress
+ * @access  Private (assigned runner only)
+ */
+router.post('/:id/location', trackingController.recordPing);
+
+/**
+ * @route   POST /api/jobs/:id/delivery-code
+ * @desc    Issue the one-time code the recipient gives the runner on delivery
+ * @access  Private (job client only)
+ */
+router.post('/:id/delivery-code', jobController.issueDeliveryCode);
+
 /**
  * @route   POST /api/jobs/:id/complete
- * @desc    Mark job as completed
+ * @desc    Mark job as completed, optionally with proof of delivery
+ *          (photos, receipt, recipient name, delivery code)
  * @access  Private (assigned runner only)
  */
 router.post('/:id/complete', jobController.completeJob);
 
+/**
+ * @route   GET /api/jobs/:id/proof
+ * @desc    Proof of delivery submitted with the job
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/proof', jobController.getDeliveryProof);
+
+/**
+ * @route   GET /api/jobs/:id/proof/attachments/:attachmentId
+ * @desc    Download a proof of delivery photo or receipt
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/proof/attachments/:attachmentId', jobController.getDeliveryAttachment);
+
 /**
  * @route   POST /api/jobs/:id/cancel
  * @desc    Cancel job
@@ -98,4 +163,47 @@ router.post('/:id/complete', jobController.completeJob);
  */
 router.post('/:id/cancel', jobController.cancelJob);
 
+/**
+ * @route   GET /api/jobs/:id/history
+ * @desc    Get job status history
+ * @access  Private (job client, assigned runner or admin)
+ */
+router.get('/:id/history', jobController.getJobHistory);
+
+/**
+ * @route   GET /api/jobs/:id/escrow
+ * @desc    Get escrow hold invoice and status
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/escrow', jobController.getEscrow);
+
+/**
+ * @route   GET /api/jobs/:id/fee
+ * @desc    Platform fee kept from the job's payout, with the rules applied
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/fee', feeController.getJobFee);
+
+/**
+ * @route   GET /api/jobs/:id/tips
+ * @desc    Tips sent to the runner of the job
+ * @access  Private (job client or assigned runner)
+ */
+router.get('/:id/tips', tipController.getJobTips);
+
+/**
+ * @route   POST /api/jobs/:id/tips
+ * @desc    Tip the runner once the payment is confirmed, by platform invoice
+ *          or straight to the runner's Lightning address
+ * @access  Private (job client only)
+ */
+router.post('/:id/tips', tipController.createTip);
+
+/**
+ * @route   POST /api/jobs/:id/confirm-delivery
+ * @desc    Confirm delivery and release escrowed payment to runner
+ * @access  Private (job owner only)
+ */
+router.post('/:id/confirm-delivery', jobController.confirmDelivery);
+
 export default router;
@@ -1,6 +1,10 @@
 /**
  * Jobs Routes - TypeScript (MVP)
  * Job posting, browsing, and management
+ *
+ * Status changes (start, complete, cancel) live in jobs.controller.routes.ts
+ * under /api/jobs, where they run the job state machine's guards and escrow
+ * side effects. Runners are assigned by accepting offers (/api/offers).
  */
 
 import { Router, Response } from 'express';
@@ -202,248 +206,4 @@ router.get('/:id', authenticate, async (req: AuthenticatedRequest, res: Response
   }
 });
 
-/**
- * POST /api/v1/jobs/:id/accept
- * Accept a job (runner only)
- */
-router.post('/:id/accept', authenticate,
-  [
-    body('runner_id').notEmpty().withMessage('Runner ID required'),
-    body('agreed_price_usd').optional().isFloat({ min: 1 }).withMessage('Price must be at least $1'),
-    body('agreed_price_sats').optional().isInt({ min: 1 }).withMessage('Price must be at least 1 sat')
-  ],
-  async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-    try {
-      const errors = validationResult(req);
-      if (!errors.isEmpty()) {
-        res.status(400).json({ 
-          success: false,
-          errors: errors.array() 
-        });
-        return;
-      }
-
-      const { id } = req.params;
-      const { runner_id, agreed_price_usd, agreed_price_sats } = req.body;
-
-      if (!id) {
-        res.status(400).json({ success: false, error: 'Job ID required' });
-        return;
-      }
-
-      // Verify job exists and is open
-      const job = await jobService.getJobById(id);
-      if (!job) {
-        res.status(404).json({ 
-          success: false,
-          error: 'Job not found' 
-        });
-        return;
-      }
-
-      if (job.status !== 'open') {
-        res.status(400).json({ 
-          success: false,
-          error: `Job is ${job.status}, cannot accept` 
-        });
-        return;
-      }
-
-      // Update job status to accepted
-      const statusUpdate: any = {
-        job_id: id,
-        new_status: 'accepted'
-      };
-
-      if (runner_id) statusUpdate.runner_id = runner_id;
-      if (agreed_price_usd) statusUpdate.agreed_price_usd = parseFloat(agreed_price_usd);
-      if (agreed_price_sats) statusUpdate.agreed_price_sats = parseInt(agreed_price_sats);
-
-      const updatedJob = await jobService.updateJobStatus(statusUpdate);
-
-      res.json({
-        success: true,
-        message: 'Job accepted successfully',
-        job: updatedJob
-      });
-    } catch (error) {
-      const err = error as Error;
-      logger.error('Accept job error:', err);
-      res.status(500).json({ 
-        success: false,
-        error: 'Failed to accept job',
-        message: err.message 
-      });
-    }
-  }
-);
-
-/**
- * POST /api/v1/jobs/:id/start
- * Start working on a job (runner only)
- */
-router.post('/:id/start', authenticate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Job ID required' });
-      return;
-    }
-
-    // Verify job exists and is accepted
-    const job = await jobService.getJobById(id);
-    if (!job) {
-      res.status(404).json({ 
-        success: false,
-        error: 'Job not found' 
-      });
-      return;
-    }
-
-    if (job.status !== 'accepted') {
-      res.status(400).json({ 
-        success: false,
-        error: `Job is ${job.status}, cannot start` 
-      });
-      return;
-    }
-
-    // Update job status to in_progress
-    const updatedJob = await jobService.updateJobStatus({
-      job_id: id!,
-      new_status: 'in_progress'
-    });
-
-    res.json({
-      success: true,
-      message: 'Job started successfully',
-      job: updatedJob
-    });
-  } catch (error) {
-    const err = error as Error;
-    console.error('Start job error:', err);
-    res.status(500).json({ 
-      success: false,
-      error: 'Failed to start job',
-      message: err.message 
-    });
-  }
-});
-
-/**
- * POST /api/v1/jobs/:id/complete
- * Mark job as completed (runner only)
- */
-router.post('/:id/complete', authenticate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Job ID required' });
-      return;
-    }
-
-    // Verify job exists and is in progress
-    const job = await jobService.getJobById(id);
-    if (!job) {
-      res.status(404).json({ 
-        success: false,
-        error: 'Job not found' 
-      });
-      return;
-    }
-
-    if (job.status !== 'in_progress') {
-      res.status(400).json({ 
-        success: false,
-        error: `Job is ${job.status}, cannot complete` 
-      });
-      return;
-    }
-
-    // Update job status to completed
-    const updatedJob = await jobService.updateJobStatus({
-      job_id: id!,
-      new_status: 'completed'
-    });
-
-    res.json({
-      success: true,
-      message: 'Job completed successfully',
-      job: updatedJob
-    });
-  } catch (error) {
-    const err = error as Error;
-    console.error('Complete job error:', err);
-    res.status(500).json({ 
-      success: false,
-      error: 'Failed to complete job',
-      message: err.message 
-    });
-  }
-});
-
-/**
- * POST /api/v1/jobs/:id/cancel
- * Cancel a job (client or runner)
- */
-router.post('/:id/cancel', authenticate, async (req: AuthenticatedRequest, res: Response): Promise<void> => {
-  try {
-    const { id } = req.params;
-
-    if (!id) {
-      res.status(400).json({ success: false, error: 'Job ID required' });
-      return;
-    }
-
-    // Verify job exists
-    const job = await jobService.getJobById(id);
-    if (!job) {
-      res.status(404).json({ 
-        success: false,
-        error: 'Job not found' 
-      });
-      return;
-    }
-
-    // Verify user is client or runner
-    if (job.client_id !== req.userId && job.runner_id !== req.userId) {
-      res.status(403).json({ 
-        success: false,
-        error: 'Not authorized to cancel this job' 
-      });
-      return;
-    }
-
-    if (job.status === 'completed' || job.status === 'paid') {
-      res.status(400).json({ 
-        success: false,
-        error: 'Cannot cancel completed or paid job' 
-      });
-      return;
-    }
-
-    // Update job status to cancelled
-    const updatedJob = await jobService.updateJobStatus({
-      job_id: id!,
-      new_status: 'cancelled'
-    });
-
-    res.json({
-      success: true,
-      message: 'Job cancelled successfully',
-      job: updatedJob
-    });
-  } catch (error) {
-    const err = error as Error;
-    console.error('Cancel job error:', err);
-    res.status(500).json({ 
-      success: false,
-      error: 'Failed to cancel job',
-      message: err.message 
-    });
-  }
-});
-
 export default router;
@@ -0,0 +1,29 @@
+/**
+ * Ledger Routes
+ * Routes for ledger balances and reconciliation
+ */
+
+import { Router } from 'express';
+import { ledgerController } from '../controllers/LedgerController';
+import { authenticate, authorize } from '../middleware/auth';
+
+const router = Router();
+
+// All routes are for admins
+router.use(authenticate, authorize('admin'));
+
+/**
+ * @route   GET /api/ledger/accounts
+ * @desc    Balance of every ledger account
+ * @access  Private (admin only)
+ */
+router.get('/accounts', ledgerController.getAccounts);
+
+/**
+ * @route   GET /api/ledger/reconciliation
+ * @desc    Reconcile the ledger against the payout queue and the node balance
+ * @access  Private (admin only)
+ */
+router.get('/reconciliation', ledgerController.getReconciliation);
+
+export default router;
@@ -0,0 +1,33 @@
+/**
+ * LNURL Auth Routes
+ * Sign in with a Lightning wallet (LUD-04)
+ */
+
+import { Router } from 'express';
+import { lnurlAuthController } from '../controllers/LnurlAuthController.js';
+import { asyncHandler } from '../middleware/error/asyncHandler.js';
+
+const router = Router();
+
+/**
+ * @route   POST /api/auth/lnurl/challenge
+ * @desc    Get a one-time k1 and the LNURL to show as a QR code
+ * @access  Public
+ */
+router.post('/challenge', asyncHandler(lnurlAuthController.createChallenge));
+
+/**
+ * @route   GET /api/auth/lnurl/callback
+ * @desc    Wallet callback with the signature of k1 and the linking key
+ * @access  Public
+ */
+router.get('/callback', asyncHandler(lnurlAuthController.callback));
+
+/**
+ * @route   POST /api/auth/lnurl/login
+ * @desc    Poll with k1; signs in once the wallet has called back, creating the account on first login
+ * @access  Public
+ */
+router.post('/login', asyncHandler(lnurlAuthController.login));
+
+export default router;
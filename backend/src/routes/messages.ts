@@ -12,6 +12,7 @@ import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth.js';
 import { getPool } from '../db.js';
 import logger from '../utils/logger.js';
+import { realtimeService } from '../services/realtime/RealtimeService.js';
 
 const router = Router();
 
@@ -143,20 +144,23 @@ router.post('/job/:jobId', authenticate, async (req: Request, res: Response): Pr
       [jobId, userId, content.trim(), media_url || null, ln_invoice || null]
     );
 
-    const message = result.rows[0];
+    const row = result.rows[0];
+    const message = {
+      id: row.id,
+      jobId: row.job_id,
+      senderId: row.sender_id,
+      content: row.content,
+      mediaUrl: row.media_url,
+      lnInvoice: row.ln_invoice,
+      createdAt: row.created_at,
+    };
+
+    realtimeService.publish([job.client_id, job.runner_id], 'message.created', message);
 
     res.status(201).json({
       success: true,
       data: {
-        message: {
-          id: message.id,
-          jobId: message.job_id,
-          senderId: message.sender_id,
-          content: message.content,
-          mediaUrl: message.media_url,
-          lnInvoice: message.ln_invoice,
-          createdAt: message.created_at,
-        },
+        message,
       },
     });
   } catch (error) {
@@ -0,0 +1,26 @@
+/**
+ * Nostr Auth Routes
+ * Sign in with a Nostr key through a NIP-07 signer or the Fedi wallet
+ */
+
+import { Router } from 'express';
+import { nostrAuthController } from '../controllers/NostrAuthController.js';
+import { asyncHandler } from '../middleware/error/asyncHandler.js';
+
+const router = Router();
+
+/**
+ * @route   POST /api/auth/nostr/challenge
+ * @desc    Get a one-time challenge to sign in a kind-22242 event
+ * @access  Public
+ */
+router.post('/challenge', asyncHandler(nostrAuthController.createChallenge));
+
+/**
+ * @route   POST /api/auth/nostr/login
+ * @desc    Sign in with the signed challenge event; creates the account on first login
+ * @access  Public
+ */
+router.post('/login', asyncHandler(nostrAuthController.login));
+
+export default router;
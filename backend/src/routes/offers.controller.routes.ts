@@ -0,0 +1,52 @@
+/**
+ * Offer Routes - Controller-based
+ * Routes for answering job offers and counter-offers
+ * Offers are made and listed under /api/jobs/:id/offers
+ */
+
+import { Router } from 'express';
+import { OfferController } from '../controllers/OfferController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+const offerController = new OfferController();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/offers/mine
+ * @desc    Latest proposal of each negotiation the user is part of
+ * @access  Private
+ */
+router.get('/mine', offerController.getMyOffers);
+
+/**
+ * @route   POST /api/offers/:id/counter
+ * @desc    Answer an offer with new terms
+ * @access  Private (job client or the offering runner, whoever did not propose it)
+ */
+router.post('/:id/counter', offerController.counterOffer);
+
+/**
+ * @route   POST /api/offers/:id/accept
+ * @desc    Accept an offer and assign the job at its price
+ * @access  Private (job client or the offering runner, whoever did not propose it)
+ */
+router.post('/:id/accept', offerController.acceptOffer);
+
+/**
+ * @route   POST /api/offers/:id/reject
+ * @desc    Reject an offer
+ * @access  Private (job client or the offering runner, whoever did not propose it)
+ */
+router.post('/:id/reject', offerController.rejectOffer);
+
+/**
+ * @route   POST /api/offers/:id/withdraw
+ * @desc    Withdraw your own pending offer
+ * @access  Private (whoever proposed it)
+ */
+router.post('/:id/withdraw', offerController.withdrawOffer);
+
+export default router;
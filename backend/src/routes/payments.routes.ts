@@ -9,6 +9,9 @@ import { authenticate } from '../middleware/auth.js';
 import { validateWebhookSignature } from '../middleware/webhook-validation.js';
 import { lightningService } from '../services/lightning.service.js';
 import { jobService } from '../services/job.service.js';
+import { priceOracle } from '../services/pricing/createPriceOracle.js';
+import { PRICE_CONSTANTS } from '../config/constants.js';
+import { centsToSats, satsToCents } from '../utils/lightning.js';
 import type { AuthenticatedRequest } from '../types/index.js';
 import logger from '../utils/logger.js';
 
@@ -69,8 +72,8 @@ router.post('/create-invoice', authenticate,
         ? parseFloat(amount_usd) 
         : job.agreed_price_usd || job.budget_max_usd;
 
-      // Convert USD to satoshis
-      const amountSats = await lightningService.usdToSats(paymentAmount);
+      // Convert USD to satoshis, keeping the rate with the invoice
+      const { sats: amountSats, snapshot } = await priceOracle.fiatToSats(Math.round(paymentAmount * 100));
 
       // Create Lightning invoice
       const invoice = await lightningService.createInvoice({
@@ -78,7 +81,8 @@ router.post('/create-invoice', authenticate,
         amount_usd: paymentAmount,
         job_id,
         user_id: req.userId!,
-        description: `Payment for: ${job.title}`
+        description: `Payment for: ${job.title}`,
+        price_snapshot_id: snapshot.id
       });
 
       res.status(201).json({
@@ -89,6 +93,7 @@ router.post('/create-invoice', authenticate,
           payment_hash: invoice.payment_hash,
           amount_sats: invoice.amount_sats,
           amount_usd: paymentAmount,
+          btc_price_usd: snapshot.btc_price,
           expires_at: invoice.expires_at
         }
       });
@@ -277,15 +282,43 @@ router.get('/rates/btc-usd', authenticate, async (_req: AuthenticatedRequest, re
   }
 });
 
+/**
+ * GET /api/v1/payments/rates
+ * Get current BTC price in every supported currency
+ */
+router.get('/rates', authenticate, async (_req: AuthenticatedRequest, res: Response): Promise<void> => {
+  try {
+    const quotes = await Promise.all(PRICE_CONSTANTS.CURRENCIES.map((currency) => priceOracle.getQuote(currency)));
+
+    res.json({
+      success: true,
+      rates: quotes.map((quote) => ({
+        currency: quote.currency,
+        btc_price: quote.btcPrice,
+        sources: quote.sources,
+        fetched_at: quote.fetchedAt
+      }))
+    });
+  } catch (error) {
+    const err = error as Error;
+    logger.error('Get BTC rates error:', err);
+    res.status(503).json({
+      success: false,
+      error: 'Failed to fetch exchange rates',
+      message: err.message
+    });
+  }
+});
+
 /**
  * POST /api/v1/payments/convert
- * Convert between USD and satoshis
+ * Convert between fiat (USD, KES) and satoshis
  */
 router.post('/convert', authenticate,
   [
     body('amount').isFloat({ min: 0 }).withMessage('Amount must be positive'),
-    body('from').isIn(['usd', 'sats']).withMessage('From must be usd or sats'),
-    body('to').isIn(['usd', 'sats']).withMessage('To must be usd or sats')
+    body('from').isIn(['usd', 'kes', 'sats']).withMessage('From must be usd, kes or sats'),
+    body('to').isIn(['usd', 'kes', 'sats']).withMessage('To must be usd, kes or sats')
   ],
   async (req: AuthenticatedRequest, res: Response): Promise<void> => {
     try {
@@ -310,12 +343,13 @@ router.post('/convert', authenticate,
         return;
       }
 
-      let result: number;
-      if (from === 'usd' && to === 'sats') {
-        result = await lightningService.usdToSats(parseFloat(amount));
-      } else {
-        result = await lightningService.satsToUsd(parseInt(amount));
-      }
+      // Fiat goes through sats, so every conversion uses the oracle's prices
+      const sats = from === 'sats'
+        ? parseInt(amount)
+        : centsToSats(Math.round(parseFloat(amount) * 100), (await priceOracle.getQuote(from.toUpperCase())).btcPrice);
+      const result = to === 'sats'
+        ? sats
+        : satsToCents(sats, (await priceOracle.getQuote(to.toUpperCase())).btcPrice) / 100;
 
       res.json({
         success: true,
@@ -28,9 +28,12 @@ import {
   recordPaymentTransaction,
   PaymentVerificationLevel
 } from '../services/PaymentService';
-import { payoutService } from '../services/PayoutService';
+import { JobRepository } from '../database/repositories/JobRepository';
+import { JobStateMachine, findTransition } from '../services/job/JobStateMachine';
+import { priceOracle } from '../services/pricing/createPriceOracle';
 
 const router = Router();
+const jobStateMachine = new JobStateMachine(new JobRepository());
 
 /**
  * GET /payments/instruction?job_id=...
@@ -84,14 +87,17 @@ router.get('/instruction', authenticate, paymentInstructionValidation, async (re
       return;
     }
 
-    // Convert price to satoshis (using default BTC price)
-    const amountSats = centsToSats(job.price_cents);
+    // Convert price to satoshis at the current BTC price
+    const quote = await priceOracle.getQuote('USD');
+    const amountSats = centsToSats(job.price_cents, quote.btcPrice);
 
     res.json({
       job_id: parseInt(job_id),
       amount_cents: job.price_cents,
       amount_sats: amountSats,
       fiat_equiv_usd: (job.price_cents / 100).toFixed(2),
+      btc_price_usd: quote.btcPrice,
+      price_fetched_at: quote.fetchedAt,
       runner: {
         lightning_address: job.lightning_address,
         display_name: job.display_name,
@@ -149,7 +155,8 @@ router.post('/validate-invoice', authenticate, validateInvoiceValidation, async
     }
 
     // Convert expected amount to satoshis
-    const expectedAmountSats = centsToSats(job.price_cents);
+    const quote = await priceOracle.getQuote('USD');
+    const expectedAmountSats = centsToSats(job.price_cents, quote.btcPrice);
 
     // Validate the invoice
     const validation = await validateLightningInvoice(bolt11, expectedAmountSats, pool);
@@ -241,38 +248,32 @@ router.post('/confirm', authenticate, confirmPaymentValidation, async (req: Auth
       return;
     }
 
-    // Start transaction
-    await pool.query('BEGIN');
-
-    try {
-      // Record payment
-      const amountSats = centsToSats(job.price_cents);
-      await pool.query(
-        `INSERT INTO payments (job_id, payment_hash, preimage, amount_sats, paid_at)
-         VALUES ($1, $2, $3, $4, NOW())`,
-        [job_id, payment_hash || null, preimage || null, amountSats]
-      );
+    if (!findTransition(job.status, 'payment_confirmed')) {
+      res.status(409).json({ error: `Job is ${job.status}, cannot confirm payment` });
+      return;
+    }
 
-      // Update job status
-      await pool.query(
-        `UPDATE jobs 
-         SET status = 'payment_confirmed', payment_confirmed_at = NOW()
-         WHERE id = $1`,
-        [job_id]
-      );
+    // Record payment with the rate it was converted at
+    const { sats: amountSats, snapshot } = await priceOracle.fiatToSats(job.price_cents);
+    await pool.query(
+      `INSERT INTO payments (job_id, payment_hash, preimage, amount_sats, price_snapshot_id, paid_at)
+       VALUES ($1, $2, $3, $4, $5, NOW())`,
+      [job_id, payment_hash || null, preimage || null, amountSats, snapshot.id]
+    );
 
-      await pool.query('COMMIT');
+    // Update job status (the state machine triggers the runner payout)
+    await jobStateMachine.transition(job.id, 'payment_confirmed', {
+      actor: 'client',
+      actorId: req.userId as number,
+      reason: 'Client confirmed payment',
+    });
 
-      res.json({
-        success: true,
-        message: 'Payment confirmed successfully',
-        job_id: parseInt(String(job_id)),
-        status: 'payment_confirmed',
-      });
-    } catch (error) {
-      await pool.query('ROLLBACK');
-      throw error;
-    }
+    res.json({
+      success: true,
+      message: 'Payment confirmed successfully',
+      job_id: parseInt(String(job_id)),
+      status: 'payment_confirmed',
+    });
   } catch (error) {
     console.error('Payment confirmation error:', error);
     res.status(500).json({ error: 'Failed to confirm payment', message: (error as Error).message });
@@ -308,15 +309,6 @@ router.post(
         const pool = getPool();
         
         if (pool) {
-          await pool.query(
-            `UPDATE jobs 
-             SET status = 'payment_confirmed',
-                 paid_at = NOW(),
-                 updated_at = NOW()
-             WHERE id = $1`,
-            [jobId]
-          );
-
           // Update transaction status
           await pool.query(
             `UPDATE lightning_transactions
@@ -328,21 +320,12 @@ router.post(
             [proof, PaymentVerificationLevel.CRYPTOGRAPHIC, paymentHash]
           );
 
-          // AUTOMATICALLY TRIGGER RUNNER PAYOUT
-          console.log(`Processing automatic payout for job ${jobId}...`);
-          
-          // Process payout asynchronously (don't block response)
-          payoutService.processJobPayout(jobId)
-            .then((success) => {
-              if (success) {
-                console.log(`Runner payout completed for job ${jobId}`);
-              } else {
-                console.error(`Runner payout failed for job ${jobId}`);
-              }
-            })
-            .catch((error) => {
-              console.error(`Runner payout error for job ${jobId}:`, error);
-            });
+          // Confirm the job; the state machine triggers the runner payout
+          await jobStateMachine.transition(jobId, 'payment_confirmed', {
+            actor: 'system',
+            actorId: null,
+            reason: 'Payment cryptographically verified',
+          });
         }
       }
 
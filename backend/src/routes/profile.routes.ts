@@ -8,6 +8,8 @@ import { authenticate } from '../middleware/auth.js';
 import { validateBody } from '../middleware/validate.js';
 import type { AuthenticatedRequest } from '../types/index.js';
 import { ProfileService } from '../services/ProfileService.js';
+import { sessionController } from '../controllers/SessionController.js';
+import { asyncHandler } from '../middleware/error/asyncHandler.js';
 import { PasswordService } from '../services/auth/PasswordService.js';
 import { getPool } from '../db.js';
 import {
@@ -245,4 +247,25 @@ router.get(
   }
 );
 
+/**
+ * @route   GET /api/profile/sessions
+ * @desc    List active sessions with the device and IP they were last used from
+ * @access  Private
+ */
+router.get('/sessions', authenticate, asyncHandler(sessionController.listSessions));
+
+/**
+ * @route   DELETE /api/profile/sessions
+ * @desc    Log out everywhere, this session included
+ * @access  Private
+ */
+router.delete('/sessions', authenticate, asyncHandler(sessionController.revokeAllSessions));
+
+/**
+ * @route   DELETE /api/profile/sessions/:id
+ * @desc    End one session
+ * @access  Private
+ */
+router.delete('/sessions/:id', authenticate, asyncHandler(sessionController.revokeSession));
+
 export default router;
@@ -0,0 +1,33 @@
+/**
+ * Push Routes
+ * Routes for Web Push subscriptions of users' browsers
+ */
+
+import { Router } from 'express';
+import { pushController } from '../controllers/PushController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+/**
+ * @route   GET /api/push/public-key
+ * @desc    Get the VAPID public key browsers subscribe with
+ * @access  Public
+ */
+router.get('/public-key', pushController.getPublicKey);
+
+/**
+ * @route   POST /api/push/subscriptions
+ * @desc    Save this browser's push subscription
+ * @access  Private
+ */
+router.post('/subscriptions', authenticate, pushController.subscribe);
+
+/**
+ * @route   DELETE /api/push/subscriptions
+ * @desc    Remove this browser's push subscription
+ * @access  Private
+ */
+router.delete('/subscriptions', authenticate, pushController.unsubscribe);
+
+export default router;
@@ -0,0 +1,23 @@
+/**
+ * Realtime Routes
+ * Server-Sent Event stream for live job, message and payment updates
+ */
+
+import { Router } from 'express';
+import { RealtimeController } from '../controllers/RealtimeController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+const realtimeController = new RealtimeController();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/realtime/stream
+ * @desc    Open an event stream of job status, message and payment events
+ * @access  Private
+ */
+router.get('/stream', realtimeController.stream);
+
+export default router;
@@ -5,7 +5,7 @@
 
 import { Router } from 'express';
 import { ReviewController } from '../controllers/ReviewController.js';
-import { authenticate } from '../middleware/auth.js';
+import { authenticate, authorize } from '../middleware/auth.js';
 
 const router = Router();
 const reviewController = new ReviewController();
@@ -15,18 +15,18 @@ router.use(authenticate);
 
 /**
  * @route   POST /api/reviews
- * @desc    Create review for completed job
+ * @desc    Review the other side of a finished job
  * @access  Private
  */
 router.post('/', reviewController.createReview);
 
 /**
  * @route   GET /api/reviews/job/:jobId
- * @desc    Get review by job ID
+ * @desc    Get the reviews of a job; hidden ones only to their author
  * @access  Private
  * @note    Must be before /:id route to avoid conflicts
  */
-router.get('/job/:jobId', reviewController.getReviewByJobId);
+router.get('/job/:jobId', reviewController.getReviewsForJob);
 
 /**
  * @route   GET /api/reviews/runner/:runnerId/stats
@@ -42,6 +42,28 @@ router.get('/runner/:runnerId/stats', reviewController.getRunnerRatingStats);
  */
 router.get('/runner/:runnerId', reviewController.getReviewsForRunner);
 
+/**
+ * @route   GET /api/reviews/client/:clientId/stats
+ * @desc    Get client reputation statistics
+ * @access  Private
+ */
+router.get('/client/:clientId/stats', reviewController.getClientRatingStats);
+
+/**
+ * @route   GET /api/reviews/client/:clientId
+ * @desc    Get reviews for client
+ * @access  Private
+ */
+router.get('/client/:clientId', reviewController.getReviewsForClient);
+
+/**
+ * @route   GET /api/reviews/reports
+ * @desc    List reviews with open reports, the moderation queue
+ * @access  Private (admin only)
+ * @note    Must be before /:id route to avoid conflicts
+ */
+router.get('/reports', authorize('admin'), reviewController.listReportedReviews);
+
 /**
  * @route   GET /api/reviews/reviewer/:reviewerId
  * @desc    Get reviews by reviewer
@@ -58,16 +80,51 @@ router.get('/:id', reviewController.getReviewById);
 
 /**
  * @route   PATCH /api/reviews/:id
- * @desc    Update review
+ * @desc    Update review while it is hidden
  * @access  Private (reviewer only)
  */
 router.patch('/:id', reviewController.updateReview);
 
 /**
  * @route   DELETE /api/reviews/:id
- * @desc    Delete review
+ * @desc    Delete review while it is hidden
  * @access  Private (reviewer only)
  */
 router.delete('/:id', reviewController.deleteReview);
 
+/**
+ * @route   POST /api/reviews/:id/reply
+ * @desc    Reply once to a revealed review
+ * @access  Private (reviewed runner only)
+ */
+router.post('/:id/reply', reviewController.replyToReview);
+
+/**
+ * @route   POST /api/reviews/:id/report
+ * @desc    Report an abusive review to the moderators
+ * @access  Private
+ */
+router.post('/:id/report', reviewController.reportReview);
+
+/**
+ * @route   POST /api/reviews/:id/hide
+ * @desc    Hide a review without deleting it and uphold its reports
+ * @access  Private (admin only)
+ */
+router.post('/:id/hide', authorize('admin'), reviewController.hideReview);
+
+/**
+ * @route   POST /api/reviews/:id/restore
+ * @desc    Show a hidden review again
+ * @access  Private (admin only)
+ */
+router.post('/:id/restore', authorize('admin'), reviewController.restoreReview);
+
+/**
+ * @route   POST /api/reviews/:id/dismiss-reports
+ * @desc    Dismiss the open reports of a review
+ * @access  Private (admin only)
+ */
+router.post('/:id/dismiss-reports', authorize('admin'), reviewController.dismissReports);
+
 export default router;
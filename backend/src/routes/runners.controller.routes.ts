@@ -41,6 +41,13 @@ router.get('/', runnerController.getAllRunners);
  */
 router.get('/:id', runnerController.getRunnerProfile);
 
+/**
+ * @route   GET /api/runners/:id/availability
+ * @desc    Get a runner's working hours, time off and job capacity (PUBLIC)
+ * @access  Public - clients check when a runner works
+ */
+router.get('/:id/availability', runnerController.getAvailability);
+
 // Authentication required for routes below
 router.use(authenticate);
 
@@ -72,4 +79,25 @@ router.delete('/:id', runnerController.deleteRunnerProfile);
  */
 router.patch('/:id/stats', runnerController.updateRunnerStats);
 
+/**
+ * @route   PATCH /api/runners/:id/availability
+ * @desc    Update availability switch, time zone, max concurrent jobs and weekly working hours
+ * @access  Private (profile owner only)
+ */
+router.patch('/:id/availability', runnerController.updateAvailability);
+
+/**
+ * @route   POST /api/runners/:id/time-off
+ * @desc    Block out time off; times without an offset are in the runner's time zone
+ * @access  Private (profile owner only)
+ */
+router.post('/:id/time-off', runnerController.addTimeOff);
+
+/**
+ * @route   DELETE /api/runners/:id/time-off/:timeOffId
+ * @desc    Remove a time off block
+ * @access  Private (profile owner only)
+ */
+router.delete('/:id/time-off/:timeOffId', runnerController.removeTimeOff);
+
 export default router;
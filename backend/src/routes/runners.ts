@@ -203,6 +203,7 @@ router.get('/:id', getRunnerValidation, async (req: Request, res: Response): Pro
        JOIN jobs j ON r.job_id = j.id
        JOIN users u ON r.reviewer_id = u.id
        WHERE j.runner_id = (SELECT user_id FROM runner_profiles WHERE id = $1)
+         AND r.reviewer_role = 'client' AND r.revealed_at IS NOT NULL AND r.hidden_at IS NULL
        ORDER BY r.created_at DESC
        LIMIT 10`,
       [id]
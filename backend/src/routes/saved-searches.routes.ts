@@ -0,0 +1,43 @@
+/**
+ * Saved Search Routes
+ * Routes for runners' saved job searches and their alerts
+ */
+
+import { Router } from 'express';
+import { savedSearchController } from '../controllers/SavedSearchController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/saved-searches
+ * @desc    List the runner's saved searches
+ * @access  Private
+ */
+router.get('/', savedSearchController.getSearches);
+
+/**
+ * @route   POST /api/saved-searches
+ * @desc    Save a job search and how to be alerted about new matches
+ * @access  Private (runners only)
+ */
+router.post('/', savedSearchController.createSearch);
+
+/**
+ * @route   PATCH /api/saved-searches/:id
+ * @desc    Change a saved search, its alert channels, quiet hours or digest
+ * @access  Private (search owner only)
+ */
+router.patch('/:id', savedSearchController.updateSearch);
+
+/**
+ * @route   DELETE /api/saved-searches/:id
+ * @desc    Delete a saved search
+ * @access  Private (search owner only)
+ */
+router.delete('/:id', savedSearchController.deleteSearch);
+
+export default router;
@@ -0,0 +1,30 @@
+/**
+ * Tip Routes
+ * Routes for checking and confirming tips
+ * Tips are started under /api/jobs/:id/tips
+ */
+
+import { Router } from 'express';
+import { tipController } from '../controllers/TipController.js';
+import { authenticate } from '../middleware/auth.js';
+
+const router = Router();
+
+// All routes require authentication
+router.use(authenticate);
+
+/**
+ * @route   GET /api/tips/:id
+ * @desc    Get a tip and whether it has been paid
+ * @access  Private (tipping client or tipped runner)
+ */
+router.get('/:id', tipController.getTip);
+
+/**
+ * @route   POST /api/tips/:id/confirm
+ * @desc    Confirm a tip was paid, with the preimage returned by the wallet
+ * @access  Private (tipping client only)
+ */
+router.post('/:id/confirm', tipController.confirmTip);
+
+export default router;
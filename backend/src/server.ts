@@ -35,15 +35,44 @@ import jobsControllerRouter from './routes/jobs.controller.routes.js';
 import runnersControllerRouter from './routes/runners.controller.routes.js';
 import paymentsControllerRouter from './routes/payments.controller.routes.js';
 import reviewsControllerRouter from './routes/reviews.controller.routes.js';
+import disputesControllerRouter from './routes/disputes.controller.routes.js';
+import offersControllerRouter from './routes/offers.controller.routes.js';
+import realtimeRouter from './routes/realtime.routes.js';
 import earningsRouter from './routes/earnings.routes.js';
+import ledgerRouter from './routes/ledger.routes.js';
+import feesRouter from './routes/fees.routes.js';
+import tipsRouter from './routes/tips.routes.js';
+import jobTemplatesRouter from './routes/job-templates.routes.js';
+import savedSearchesRouter from './routes/saved-searches.routes.js';
+import pushRouter from './routes/push.routes.js';
 import profileRouter from './routes/profile.routes.js';
 import adminRouter from './routes/admin.js';
+import nostrAuthRouter from './routes/nostr-auth.routes.js';
+import lnurlAuthRouter from './routes/lnurl-auth.routes.js';
+import authSessionRouter from './routes/auth-session.routes.js';
 
 // TypeScript modules
 import { notFound } from './utils/error.js';
 import { sanitizeError, sanitizeBody } from './middleware/sanitize.js';
 import { generalLimiter, authLimiter, paymentLimiter } from './middleware/rateLimiter.js';
 import { errorHandler, notFoundHandler } from './middleware/error/errorHandler.js';
+import { EscrowService } from './services/escrow/EscrowService.js';
+import { EscrowRepository } from './database/repositories/EscrowRepository.js';
+import { JobRepository } from './database/repositories/JobRepository.js';
+import { LocationTrackingService } from './services/tracking/LocationTrackingService.js';
+import { LocationPingRepository } from './database/repositories/LocationPingRepository.js';
+import { JobStopRepository } from './database/repositories/JobStopRepository.js';
+import { UserRepository } from './database/repositories/UserRepository.js';
+import { JobStatusHistoryRepository } from './database/repositories/JobStatusHistoryRepository.js';
+import { JobService } from './services/job/JobService.js';
+import { payoutService } from './services/PayoutService.js';
+import { ledgerService } from './services/ledger/LedgerService.js';
+import { jobTemplateService } from './services/job/JobTemplateService.js';
+import { runnerMatchingService } from './services/matching/RunnerMatchingService.js';
+import { savedSearchService } from './services/search/SavedSearchService.js';
+import { ReviewService } from './services/review/ReviewService.js';
+import { ReviewRepository } from './database/repositories/ReviewRepository.js';
+import { RunnerRepository } from './database/repositories/RunnerRepository.js';
 
 dotenv.config();
 
@@ -101,11 +130,24 @@ app.use('/messages', generalLimiter, messagesRouter);
 app.use('/payments', paymentLimiter, paymentsRouter);
 
 // New controller-based routes (clean architecture)
+app.use('/api/auth/nostr', authLimiter, nostrAuthRouter);
+app.use('/api/auth/lnurl', authLimiter, lnurlAuthRouter); // Pending polls succeed, so they don't count
+app.use('/api/auth/session', authLimiter, authSessionRouter);
 app.use('/api/jobs', jobsControllerRouter);
 app.use('/api/runners', runnersControllerRouter);
 app.use('/api/payments', paymentLimiter, paymentsControllerRouter);
 app.use('/api/reviews', reviewsControllerRouter);
+app.use('/api/disputes', disputesControllerRouter);
+app.use('/api/offers', offersControllerRouter);
+app.use('/api/messages', generalLimiter, messagesRouter);
+app.use('/api/realtime', realtimeRouter);
 app.use('/api/earnings', earningsRouter);
+app.use('/api/ledger', ledgerRouter);
+app.use('/api/fees', feesRouter);
+app.use('/api/tips', tipsRouter);
+app.use('/api/job-templates', jobTemplatesRouter);
+app.use('/api/saved-searches', savedSearchesRouter);
+app.use('/api/push', pushRouter);
 app.use('/api/profile', profileRouter);
 app.use('/api/admin', adminRouter);
 
@@ -131,6 +173,44 @@ app.listen(PORT, () => {
   logger.info(`Security: Rate limiting enabled`);
   logger.info(`Database: ${process.env.DATABASE_URL ? 'Configured' : 'Not configured'}`);
   logger.info(`TypeScript: Strict mode enabled ✓`);
+
+  // Release held escrows whose client never confirmed delivery
+  new EscrowService(new EscrowRepository(), new JobRepository()).startReleaseJob();
+
+  // Expire open jobs past their deadline, free jobs never started and flag overdue ones
+  const jobRepository = new JobRepository();
+  new JobService(
+    jobRepository,
+    new UserRepository(),
+    new JobStatusHistoryRepository(),
+    new JobStopRepository(),
+    new EscrowService(new EscrowRepository(), jobRepository)
+  ).startDeadlineJob();
+
+  // Drop runner location trails once they leave the retention window
+  new LocationTrackingService(
+    new LocationPingRepository(),
+    new JobRepository(),
+    new JobStopRepository()
+  ).startPurgeJob();
+
+  // Send queued runner payouts; every replica leases its own share
+  payoutService.startQueueWorker();
+
+  // Flag drift between the ledger and the Lightning node
+  ledgerService.startReconciliationJob();
+
+  // Post recurring errands ahead of their occurrences
+  jobTemplateService.startScheduler();
+
+  // Push open jobs to the best matching runners, widening the radius over time
+  runnerMatchingService.startMatchingJob();
+
+  // Alert runners about new jobs matching their saved searches
+  savedSearchService.startAlertJob();
+
+  // Reveal blind reviews once their review window closes
+  new ReviewService(new ReviewRepository(), new JobRepository(), new RunnerRepository()).startRevealJob();
 });
 
 // Graceful shutdown
@@ -1,376 +1,632 @@
 /**
  * Payout Service
  * Handles automatic Lightning payouts to runners after job completion
+ *
+ * Payouts go through a queue kept in runner_earnings: completing a job only
+ * queues the payout, and the worker started by startQueueWorker (one per
+ * replica) leases due payouts and sends them, retrying with backoff.
+ * Queueing releases the earning from the client's escrow in the ledger, and
+ * a sent payout is posted against the Lightning float. The platform fee comes
+ * from the fee schedule (see FeePolicy) when the payout is queued.
+ *
+ * Tips paid to the platform go through the same queue with no fee; tips the
+ * client paid to the runner directly are only recorded.
+ *
+ * The client's share of a split dispute is queued in client_refunds and sent
+ * by the same worker to the Lightning address on the client's profile. A
+ * client without one is retried with backoff, so they can still add it.
  */
 
-import axios from 'axios';
+import { hostname } from 'os';
 import { getPool } from '../db.js';
+import { PAYOUT_CONSTANTS } from '../config/constants.js';
+import {
+  DeadLetterEarning,
+  RunnerEarning,
+  RunnerEarningRepository
+} from '../database/repositories/RunnerEarningRepository.js';
+import type { JobTip } from '../database/repositories/TipRepository.js';
+import { ClientRefund, ClientRefundRepository } from '../database/repositories/ClientRefundRepository.js';
 import logger from '../utils/logger.js';
+import { realtimeService } from './realtime/RealtimeService.js';
+import type { LightningBackend } from './lightning/backends/LightningBackend.js';
+import { lightningBackend } from './lightning/backends/createLightningBackend.js';
+import { LnurlPayClient, lnurlPayClient } from './lightning/LnurlPayClient.js';
+import type { PriceOracle } from './pricing/PriceOracle.js';
+import { priceOracle } from './pricing/createPriceOracle.js';
+import { LedgerService, ledgerService } from './ledger/LedgerService.js';
+import { FeeService, feeService } from './fees/FeeService.js';
+import { centsToSats } from '../utils/lightning.js';
 
 interface PayoutResult {
-  success: boolean;
-  paymentHash?: string;
+  paymentHash: string;
   paymentPreimage?: string;
-  error?: string;
+  feeSats?: number;
 }
 
-export class PayoutService {
-  private lnbitsUrl: string;
-  private lnbitsApiKey: string;
-
-  constructor() {
-    this.lnbitsUrl = process.env['LNBITS_URL'] || 'https://legend.lnbits.com';
-    this.lnbitsApiKey = process.env['LNBITS_ADMIN_KEY'] || '';
-  }
+// Lease writes shared by the payout and refund queues
+interface PaymentQueue {
+  recordInvoice(id: number, workerId: string, paymentRequest: string, paymentHash: string): Promise<boolean>;
+  scheduleRetry(id: number, workerId: string, error: string, delayMs: number): Promise<unknown>;
+  markDead(id: number, workerId: string, error: string, keepInvoice: boolean): Promise<unknown>;
+}
 
-  /**
-   * Calculate platform fee (0% for now - free platform to build trust)
-   */
-  private calculateFee(amountCents: number): { feeCents: number; netCents: number } {
-    const feePercent = Number(process.env['PLATFORM_FEE_PERCENT'] || '0');
-    const feeCents = Math.floor(amountCents * (feePercent / 100));
-    const netCents = amountCents - feeCents;
-    return { feeCents, netCents };
-  }
+export class PayoutService {
+  // Set while this instance is draining the queue, so polls don't overlap
+  private draining = false;
+
+  constructor(
+    private readonly lightning: LightningBackend = lightningBackend,
+    private readonly lnurlPay: LnurlPayClient = lnurlPayClient,
+    private readonly earningRepository: RunnerEarningRepository = new RunnerEarningRepository(),
+    private readonly prices: PriceOracle = priceOracle,
+    private readonly ledger: LedgerService = ledgerService,
+    private readonly fees: FeeService = feeService,
+    private readonly refundRepository: ClientRefundRepository = new ClientRefundRepository(),
+    // Pod name in Kubernetes, so leases show which replica holds them
+    private readonly workerId: string = `${hostname()}:${process.pid}`
+  ) {}
 
   /**
-   * Convert USD cents to sats (rough conversion: 1 USD = 2000 sats)
+   * Delay before the next attempt after `retryCount` failed ones
    */
-  private centsToSats(cents: number): number {
-    return Math.floor((cents / 100) * 2000);
+  private backoffMs(retryCount: number): number {
+    return Math.min(PAYOUT_CONSTANTS.BACKOFF_BASE_MS * 2 ** retryCount, PAYOUT_CONSTANTS.BACKOFF_MAX_MS);
   }
 
   /**
-   * Send Lightning payment to runner's Lightning address
+   * Send Lightning payment to a Lightning address
+   * The invoice is recorded on the queued row before it is paid.
+   * @param onPaying - Called once the payment may reach the network
    */
   private async sendLightningPayment(
-    lightningAddress: string,
+    queue: PaymentQueue,
+    id: number,
     amountSats: number,
-    memo: string
+    lightningAddress: string,
+    memo: string,
+    onPaying: () => void
   ): Promise<PayoutResult> {
-    try {
-      // In development mode, simulate successful payment
-      if (process.env.NODE_ENV === 'development' || !this.lnbitsApiKey) {
-        logger.info('🔧 DEV MODE: Simulating Lightning payout', {
-          lightningAddress,
-          amountSats,
-          memo
-        });
-
-        return {
-          success: true,
-          paymentHash: 'dev_' + Date.now().toString(16),
-          paymentPreimage: 'dev_preimage_' + Math.random().toString(36).substring(7)
-        };
-      }
 
-      // Production: Use LNbits to send payment
-      // First, get invoice from Lightning address
-      const [username, domain] = lightningAddress.split('@');
-      const lnurlResponse = await axios.get(
-        `https://${domain}/.well-known/lnurlp/${username}`
-      );
+    // In development mode, simulate successful payment
+    if (process.env.NODE_ENV === 'development' || this.lightning.name === 'fake') {
+      logger.info('🔧 DEV MODE: Simulating Lightning payout', {
+        lightningAddress,
+        amountSats,
+        memo
+      });
 
-      const { callback, minSendable, maxSendable } = lnurlResponse.data;
-      const amountMsat = amountSats * 1000;
+      return {
+        paymentHash: 'dev_' + Date.now().toString(16),
+        paymentPreimage: 'dev_preimage_' + Math.random().toString(36).substring(7)
+      };
+    }
 
-      if (amountMsat < minSendable || amountMsat > maxSendable) {
-        throw new Error(
-          `Amount ${amountSats} sats is outside allowed range for ${lightningAddress}`
-        );
-      }
+    // Production: Pay through the configured Lightning backend
+    // First, get a checked invoice from the Lightning address, with the
+    // job reference as the comment
+    const invoice = await this.lnurlPay.fetchInvoice(lightningAddress, amountSats, memo);
 
-      // Get invoice from callback
-      const invoiceResponse = await axios.get(callback, {
-        params: { amount: amountMsat }
-      });
+    const recorded = await queue.recordInvoice(id, this.workerId, invoice.paymentRequest, invoice.paymentHash);
+    if (!recorded) {
+      throw new Error('Payment lease was lost before paying');
+    }
 
-      const { pr: paymentRequest } = invoiceResponse.data;
-
-      // Pay invoice using LNbits
-      const paymentResponse = await axios.post(
-        `${this.lnbitsUrl}/api/v1/payments`,
-        { out: true, bolt11: paymentRequest },
-        {
-          headers: {
-            'X-Api-Key': this.lnbitsApiKey,
-            'Content-Type': 'application/json'
-          }
-        }
-      );
+    // Pay the invoice from our node
+    onPaying();
+    const payment = await this.lightning.payInvoice(invoice.paymentRequest);
+    let preimage = payment.preimage;
 
-      const { payment_hash, payment_preimage } = paymentResponse.data;
+    // Some backends return before the preimage is known; ask the payee
+    if (!preimage && invoice.verifyUrl) {
+      const verification = await this.lnurlPay.verify(invoice.verifyUrl).catch(() => null);
+      preimage = verification?.preimage ?? undefined;
+    }
 
-      return {
-        success: true,
-        paymentHash: payment_hash,
-        paymentPreimage: payment_preimage
-      };
-    } catch (error: any) {
-      logger.error('Lightning payment failed', {
+    if (invoice.successAction) {
+      logger.info('Payout success action', {
         lightningAddress,
-        amountSats,
-        error: error.message
+        successAction: invoice.successAction
       });
+    }
 
-      return {
-        success: false,
-        error: error.message || 'Payment failed'
-      };
+    const result: PayoutResult = { paymentHash: invoice.paymentHash };
+    if (preimage) {
+      result.paymentPreimage = preimage;
     }
+    if (payment.feeSats !== undefined) {
+      result.feeSats = payment.feeSats;
+    }
+    return result;
   }
 
   /**
-   * Create runner earnings record for a job
+   * Queue the payout of a completed job
+   * Queueing twice returns the existing earning, so a job is only paid once.
+   * @param amountCents - Amount owed to the runner; defaults to the job price
+   * (a dispute split pays out less)
    */
-  async createRunnerEarning(
-    jobId: number,
-    runnerId: number,
-    amountCents: number,
-    lightningAddress: string | null
-  ): Promise<number> {
+  async enqueueJobPayout(jobId: number, amountCents?: number): Promise<RunnerEarning> {
     const pool = getPool();
     if (!pool) {
       throw new Error('Database connection not available');
     }
 
-    const { feeCents, netCents } = this.calculateFee(amountCents);
-    const amountSats = this.centsToSats(amountCents);
-    const feeSats = this.centsToSats(feeCents);
-    const netSats = this.centsToSats(netCents);
-
-    const result = await pool.query(
-      `INSERT INTO runner_earnings 
-       (runner_id, job_id, amount_cents, amount_sats, 
-        platform_fee_cents, platform_fee_sats, 
-        net_amount_cents, net_amount_sats,
-        lightning_address, status)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       RETURNING id`,
-      [
-        runnerId,
-        jobId,
-        amountCents,
-        amountSats,
-        feeCents,
-        feeSats,
-        netCents,
-        netSats,
-        lightningAddress,
-        'pending'
-      ]
+    // Get job details with runner's Lightning address
+    const jobResult = await pool.query(
+      `SELECT j.id, j.client_id, j.runner_id, j.price_cents, j.category, j.fedi_community_id, rp.lightning_address,
+              je.price_snapshot_id as escrow_price_snapshot_id
+       FROM jobs j
+       LEFT JOIN runner_profiles rp ON j.runner_id = rp.user_id
+       LEFT JOIN job_escrows je ON je.job_id = j.id AND je.status <> 'cancelled'
+       WHERE j.id = $1`,
+      [jobId]
     );
 
-    return result.rows[0].id;
+    if (jobResult.rows.length === 0) {
+      throw new Error('Job not found');
+    }
+
+    const job = jobResult.rows[0];
+
+    if (!job.runner_id) {
+      throw new Error('No runner assigned to job');
+    }
+
+    const grossCents = amountCents ?? job.price_cents;
+    // Fee schedule as it stands when the payout is released
+    const { feeCents, netCents, rules } = await this.fees.quote({
+      priceCents: grossCents,
+      category: job.category,
+      fediCommunityId: job.fedi_community_id,
+      runnerId: job.runner_id,
+    });
+
+    // Pay at the rate the client's escrow was funded at, so the platform is
+    // not exposed to price moves in between; otherwise at today's rate
+    const snapshot =
+      (job.escrow_price_snapshot_id && (await this.prices.getSnapshot(job.escrow_price_snapshot_id))) ||
+      (await this.prices.snapshot('USD'));
+    // Net sats are what is left after the fee, so the ledger entries balance
+    const amountSats = centsToSats(grossCents, snapshot.btc_price);
+    const feeSats = centsToSats(feeCents, snapshot.btc_price);
+
+    const earning = await this.earningRepository.createForJob({
+      runnerId: job.runner_id,
+      jobId,
+      amountCents: grossCents,
+      amountSats,
+      platformFeeCents: feeCents,
+      platformFeeSats: feeSats,
+      netAmountCents: netCents,
+      netAmountSats: amountSats - feeSats,
+      priceSnapshotId: snapshot.id,
+      lightningAddress: job.lightning_address
+    });
+
+    logger.info('Runner payout queued', {
+      earningId: earning.id,
+      jobId,
+      status: earning.status,
+      feeCents,
+      feeRules: rules.map((rule) => rule.code),
+    });
+
+    await this.ledger.recordEarningReleased(earning, job.client_id);
+
+    // Don't wait for the next poll
+    this.processDuePayouts().catch((error) => {
+      logger.error('Payout queue run failed', { error: error.message });
+    });
+
+    return earning;
   }
 
   /**
-   * Verify earning belongs to runner (security check)
+   * Queue a tip the client paid to the platform, passed on to the runner in full
    */
-  async verifyEarningOwnership(earningId: number, runnerId: number): Promise<boolean> {
+  async enqueueTipPayout(tip: JobTip): Promise<RunnerEarning> {
+    const earning = await this.earningRepository.createForTip({
+      runnerId: tip.runner_id,
+      jobId: tip.job_id,
+      tipId: tip.id,
+      amountCents: tip.amount_cents,
+      amountSats: tip.amount_sats,
+      priceSnapshotId: tip.price_snapshot_id,
+      lightningAddress: await this.getLightningAddress(tip.runner_id),
+      paymentHash: null
+    });
+
+    logger.info('Tip payout queued', { earningId: earning.id, tipId: tip.id, jobId: tip.job_id });
+
+    await this.ledger.recordEarningReleased(earning, tip.client_id);
+
+    this.processDuePayouts().catch((error) => {
+      logger.error('Payout queue run failed', { error: error.message });
+    });
+
+    return earning;
+  }
+
+  /**
+   * Record a tip the client paid straight to the runner's Lightning address
+   * The sats never reach the platform's node, so nothing is queued or posted
+   * to the ledger.
+   */
+  async recordDirectTip(tip: JobTip): Promise<RunnerEarning> {
+    const earning = await this.earningRepository.createForTip({
+      runnerId: tip.runner_id,
+      jobId: tip.job_id,
+      tipId: tip.id,
+      amountCents: tip.amount_cents,
+      amountSats: tip.amount_sats,
+      priceSnapshotId: tip.price_snapshot_id,
+      lightningAddress: null,
+      paymentHash: tip.payment_hash
+    });
+
+    logger.info('Direct tip recorded', { earningId: earning.id, tipId: tip.id, jobId: tip.job_id });
+
+    return earning;
+  }
+
+  /**
+   * Queue the client's share of a split dispute
+   * The escrow settles in full, so the client is refunded what it held beyond
+   * the runner's earning, at the rate it was funded at. Queueing twice returns
+   * the existing refund.
+   */
+  async enqueueClientRefund(jobId: number, disputeId: number, amountCents: number): Promise<ClientRefund> {
     const pool = getPool();
     if (!pool) {
       throw new Error('Database connection not available');
     }
 
-    try {
-      const result = await pool.query(
-        `SELECT id FROM runner_earnings WHERE id = $1 AND runner_id = $2`,
-        [earningId, runnerId]
-      );
+    const jobResult = await pool.query(
+      `SELECT j.id, j.client_id,
+              je.amount_sats::int as escrow_amount_sats, je.price_snapshot_id as escrow_price_snapshot_id,
+              re.amount_sats::int as earning_amount_sats
+       FROM jobs j
+       LEFT JOIN job_escrows je ON je.job_id = j.id AND je.status <> 'cancelled'
+       LEFT JOIN runner_earnings re ON re.job_id = j.id AND re.kind = 'job'
+       WHERE j.id = $1`,
+      [jobId]
+    );
 
-      return result.rows.length > 0;
-    } catch (error) {
-      logger.error('Error verifying earning ownership', { error, earningId, runnerId });
-      return false;
+    if (jobResult.rows.length === 0) {
+      throw new Error('Job not found');
     }
+
+    const job = jobResult.rows[0];
+
+    const snapshot =
+      (job.escrow_price_snapshot_id && (await this.prices.getSnapshot(job.escrow_price_snapshot_id))) ||
+      (await this.prices.snapshot('USD'));
+    // What is left in the client's escrow account after the earning, so the
+    // refund clears it exactly
+    const amountSats =
+      job.escrow_amount_sats !== null && job.earning_amount_sats !== null
+        ? job.escrow_amount_sats - job.earning_amount_sats
+        : centsToSats(amountCents, snapshot.btc_price);
+
+    if (amountSats <= 0) {
+      throw new Error('Nothing left to refund');
+    }
+
+    const refund = await this.refundRepository.createForDispute({
+      clientId: job.client_id,
+      jobId,
+      disputeId,
+      amountCents,
+      amountSats,
+      priceSnapshotId: snapshot.id,
+    });
+
+    logger.info('Client refund queued', { refundId: refund.id, jobId, disputeId, status: refund.status });
+
+    this.processDuePayouts().catch((error) => {
+      logger.error('Payout queue run failed', { error: error.message });
+    });
+
+    return refund;
   }
 
   /**
-   * Process payout to runner
+   * Make one attempt at a leased payout
+   * Failures are retried with exponential backoff until MAX_RETRIES, then
+   * dead-lettered. A payment that failed in an unknown state (timeout, node
+   * error) is dead-lettered straight away: it may still settle, and paying a
+   * fresh invoice could pay the runner twice.
    */
-  async processPayout(earningId: number): Promise<boolean> {
-    const pool = getPool();
-    if (!pool) {
-      throw new Error('Database connection not available');
+  private async attemptPayout(earning: RunnerEarning): Promise<boolean> {
+    if (!earning.lightning_address) {
+      logger.warn('Runner has no Lightning address, dead-lettering payout', {
+        earningId: earning.id,
+        runnerId: earning.runner_id
+      });
+      await this.earningRepository.markDead(earning.id, this.workerId, 'No Lightning address configured', false);
+      return false;
     }
 
+    let paying = false;
+
     try {
-      // Get earning record
-      const earningResult = await pool.query(
-        `SELECT * FROM runner_earnings WHERE id = $1`,
-        [earningId]
+      const payoutResult = await this.sendLightningPayment(
+        this.earningRepository,
+        earning.id,
+        earning.net_amount_sats,
+        earning.lightning_address,
+        earning.kind === 'tip' ? `Tip for job #${earning.job_id}` : `Payout for job #${earning.job_id}`,
+        () => {
+          paying = true;
+        }
       );
 
-      if (earningResult.rows.length === 0) {
-        throw new Error('Earning record not found');
+      const completed = await this.earningRepository.markCompleted(
+        earning.id,
+        this.workerId,
+        payoutResult.paymentHash,
+        payoutResult.paymentPreimage ?? null
+      );
+      if (!completed) {
+        logger.warn('Payout sent after its lease was lost', { earningId: earning.id });
+        return false;
       }
 
-      const earning = earningResult.rows[0];
+      await this.ledger.recordPayoutSent(earning, payoutResult.feeSats ?? 0);
 
-      if (earning.status !== 'pending') {
-        logger.warn('Earning already processed', { earningId, status: earning.status });
-        return false;
-      }
+      logger.info('✅ Payout completed successfully', {
+        earningId: earning.id,
+        runnerId: earning.runner_id,
+        amountSats: earning.net_amount_sats,
+        paymentHash: payoutResult.paymentHash
+      });
 
-      // Update status to processing
-      await pool.query(
-        `UPDATE runner_earnings 
-         SET status = 'processing', processed_at = NOW()
-         WHERE id = $1`,
-        [earningId]
-      );
+      realtimeService.publish([earning.runner_id], 'payout.completed', {
+        jobId: earning.job_id,
+        earningId: earning.id,
+        amountSats: earning.net_amount_sats,
+        paymentHash: payoutResult.paymentHash
+      });
 
-      // Check if runner has Lightning address
-      if (!earning.lightning_address) {
-        logger.warn('Runner has no Lightning address, skipping payout', {
-          earningId,
-          runnerId: earning.runner_id
-        });
-
-        await pool.query(
-          `UPDATE runner_earnings 
-           SET status = 'failed', 
-               failed_at = NOW(),
-               error_message = 'No Lightning address configured'
-           WHERE id = $1`,
-          [earningId]
-        );
+      return true;
+    } catch (error: any) {
+      await this.recordFailure(this.earningRepository, 'Payout', { earningId: earning.id }, earning, error, paying);
+      return false;
+    }
+  }
 
-        return false;
-      }
+  /**
+   * Make one attempt at a leased client refund
+   * Failures are handled as for payouts.
+   */
+  private async attemptRefund(refund: ClientRefund): Promise<boolean> {
+    if (!refund.lightning_address) {
+      await this.recordFailure(
+        this.refundRepository,
+        'Refund',
+        { refundId: refund.id, clientId: refund.client_id },
+        refund,
+        new Error('No Lightning address configured'),
+        false
+      );
+      return false;
+    }
+
+    let paying = false;
 
-      // Send Lightning payment
+    try {
       const payoutResult = await this.sendLightningPayment(
-        earning.lightning_address,
-        earning.net_amount_sats,
-        `Payout for job #${earning.job_id}`
+        this.refundRepository,
+        refund.id,
+        refund.amount_sats,
+        refund.lightning_address,
+        `Refund for job #${refund.job_id}`,
+        () => {
+          paying = true;
+        }
       );
 
-      if (payoutResult.success) {
-        // Update earning record with success
-        await pool.query(
-          `UPDATE runner_earnings 
-           SET status = 'completed',
-               completed_at = NOW(),
-               payment_hash = $2,
-               payment_preimage = $3
-           WHERE id = $1`,
-          [earningId, payoutResult.paymentHash, payoutResult.paymentPreimage]
-        );
-
-        logger.info('✅ Payout completed successfully', {
-          earningId,
-          runnerId: earning.runner_id,
-          amountSats: earning.net_amount_sats,
-          paymentHash: payoutResult.paymentHash
-        });
-
-        return true;
-      } else {
-        // Update earning record with failure
-        await pool.query(
-          `UPDATE runner_earnings 
-           SET status = 'failed',
-               failed_at = NOW(),
-               error_message = $2,
-               retry_count = retry_count + 1
-           WHERE id = $1`,
-          [earningId, payoutResult.error]
-        );
-
-        logger.error('❌ Payout failed', {
-          earningId,
-          error: payoutResult.error
-        });
-
+      const completed = await this.refundRepository.markCompleted(
+        refund.id,
+        this.workerId,
+        payoutResult.paymentHash,
+        payoutResult.paymentPreimage ?? null
+      );
+      if (!completed) {
+        logger.warn('Refund sent after its lease was lost', { refundId: refund.id });
         return false;
       }
-    } catch (error: any) {
-      logger.error('Payout processing error', {
-        earningId,
-        error: error.message
-      });
 
-      // Update earning record with error
-      await pool.query(
-        `UPDATE runner_earnings 
-         SET status = 'failed',
-             failed_at = NOW(),
-             error_message = $2,
-             retry_count = retry_count + 1
-         WHERE id = $1`,
-        [earningId, error.message]
-      );
+      await this.ledger.recordRefundSent(refund, payoutResult.feeSats ?? 0);
 
+      logger.info('✅ Client refund completed', {
+        refundId: refund.id,
+        clientId: refund.client_id,
+        amountSats: refund.amount_sats,
+        paymentHash: payoutResult.paymentHash
+      });
+
+      return true;
+    } catch (error: any) {
+      await this.recordFailure(this.refundRepository, 'Refund', { refundId: refund.id }, refund, error, paying);
       return false;
     }
   }
 
   /**
-   * Process payout for a completed job
+   * Retry a failed payment with exponential backoff until MAX_RETRIES, then
+   * dead-letter it. A payment that failed in an unknown state is dead-lettered
+   * straight away.
    */
-  async processJobPayout(jobId: number): Promise<boolean> {
-    const pool = getPool();
-    if (!pool) {
-      throw new Error('Database connection not available');
+  private async recordFailure(
+    queue: PaymentQueue,
+    label: 'Payout' | 'Refund',
+    context: Record<string, unknown>,
+    item: { id: number; retry_count: number },
+    error: any,
+    paying: boolean
+  ): Promise<void> {
+    const message = error.message || 'Payment failed';
+    const attempts = item.retry_count + 1;
+
+    if (paying && error.code !== 'PAYMENT_FAILED') {
+      await queue.markDead(item.id, this.workerId, `Payment outcome unknown: ${message}`, true);
+      logger.error(`❌ ${label} outcome unknown, dead-lettered`, { ...context, error: message });
+    } else if (attempts >= PAYOUT_CONSTANTS.MAX_RETRIES) {
+      await queue.markDead(item.id, this.workerId, message, false);
+      logger.error(`❌ ${label} out of retries, dead-lettered`, { ...context, attempts, error: message });
+    } else {
+      const delayMs = this.backoffMs(item.retry_count);
+      await queue.scheduleRetry(item.id, this.workerId, message, delayMs);
+      logger.warn(`${label} failed, retrying later`, { ...context, attempts, delayMs, error: message });
     }
+  }
 
-    try {
-      // Get job details with runner's Lightning address
-      const jobResult = await pool.query(
-        `SELECT j.id, j.runner_id, j.price_cents, rp.lightning_address
-         FROM jobs j
-         LEFT JOIN runner_profiles rp ON j.runner_id = rp.user_id
-         WHERE j.id = $1`,
-        [jobId]
-      );
-
-      if (jobResult.rows.length === 0) {
-        throw new Error('Job not found');
+  /**
+   * Lease and attempt batches from a queue until it has nothing due
+   */
+  private async drain<T>(claim: () => Promise<T[]>, attempt: (item: T) => Promise<boolean>): Promise<number> {
+    let attempted = 0;
+    let batch: T[];
+    do {
+      batch = await claim();
+      for (const item of batch) {
+        await attempt(item);
+        attempted++;
       }
+    } while (batch.length === PAYOUT_CONSTANTS.BATCH_SIZE);
+
+    return attempted;
+  }
+
+  /**
+   * Send every payout and client refund that is due
+   * Safe to run on several replicas at once: each leases its own rows.
+   * @returns Number of payments attempted
+   */
+  async processDuePayouts(): Promise<number> {
+    if (this.draining) {
+      return 0;
+    }
+    this.draining = true;
 
-      const job = jobResult.rows[0];
+    try {
+      const released = await this.earningRepository.releaseExpiredLeases();
+      for (const earning of released) {
+        logger.warn('Payout lease expired', { earningId: earning.id, status: earning.status });
+      }
 
-      if (!job.runner_id) {
-        throw new Error('No runner assigned to job');
+      const releasedRefunds = await this.refundRepository.releaseExpiredLeases();
+      for (const refund of releasedRefunds) {
+        logger.warn('Refund lease expired', { refundId: refund.id, status: refund.status });
       }
 
-      // Check if earning already exists
-      const existingResult = await pool.query(
-        `SELECT id FROM runner_earnings WHERE job_id = $1`,
-        [jobId]
+      const payouts = await this.drain(
+        () => this.earningRepository.claimDue(this.workerId, PAYOUT_CONSTANTS.LEASE_MS, PAYOUT_CONSTANTS.BATCH_SIZE),
+        (earning) => this.attemptPayout(earning)
+      );
+      const refunds = await this.drain(
+        () => this.refundRepository.claimDue(this.workerId, PAYOUT_CONSTANTS.LEASE_MS, PAYOUT_CONSTANTS.BATCH_SIZE),
+        (refund) => this.attemptRefund(refund)
       );
 
-      let earningId: number;
-
-      if (existingResult.rows.length > 0) {
-        earningId = existingResult.rows[0].id;
-        logger.info('Using existing earning record', { earningId, jobId });
-      } else {
-        // Create new earning record
-        earningId = await this.createRunnerEarning(
-          jobId,
-          job.runner_id,
-          job.price_cents,
-          job.lightning_address
-        );
-
-        logger.info('Created new earning record', { earningId, jobId });
-      }
+      return payouts + refunds;
+    } finally {
+      this.draining = false;
+    }
+  }
 
-      // Process the payout
-      return await this.processPayout(earningId);
-    } catch (error: any) {
-      logger.error('Job payout processing error', {
-        jobId,
-        error: error.message
+  /**
+   * Start the background worker that drains the payout queue
+   */
+  startQueueWorker(): void {
+    logger.info('Starting payout queue worker', {
+      workerId: this.workerId,
+      pollIntervalMs: PAYOUT_CONSTANTS.POLL_INTERVAL_MS,
+      maxRetries: PAYOUT_CONSTANTS.MAX_RETRIES
+    });
+
+    const run = () => {
+      this.processDuePayouts().catch((err) => {
+        logger.error('Payout queue worker failed:', err);
       });
+    };
+
+    run();
+    setInterval(run, PAYOUT_CONSTANTS.POLL_INTERVAL_MS);
+  }
+
+  /**
+   * Lightning address a runner is paid at
+   */
+  private async getLightningAddress(runnerId: number): Promise<string | null> {
+    const pool = getPool();
+    if (!pool) {
+      throw new Error('Database connection not available');
+    }
 
+    const result = await pool.query(
+      `SELECT lightning_address FROM runner_profiles WHERE user_id = $1`,
+      [runnerId]
+    );
+    return result.rows[0]?.lightning_address ?? null;
+  }
+
+  /**
+   * Verify earning belongs to runner (security check)
+   */
+  async verifyEarningOwnership(earningId: number, runnerId: number): Promise<boolean> {
+    const pool = getPool();
+    if (!pool) {
+      throw new Error('Database connection not available');
+    }
+
+    try {
+      const result = await pool.query(
+        `SELECT id FROM runner_earnings WHERE id = $1 AND runner_id = $2`,
+        [earningId, runnerId]
+      );
+
+      return result.rows.length > 0;
+    } catch (error) {
+      logger.error('Error verifying earning ownership', { error, earningId, runnerId });
       return false;
     }
   }
 
+  /**
+   * Move a failed payout to the front of the queue (runner retry)
+   * Dead-lettered payouts are only requeued if they never reached the node.
+   * @returns The requeued earning, or null if it cannot be retried
+   */
+  async retryPayout(earningId: number): Promise<RunnerEarning | null> {
+    const earning = await this.earningRepository.requeue(earningId, false);
+    if (earning) {
+      logger.info('Payout requeued by runner', { earningId });
+    }
+    return earning;
+  }
+
+  /**
+   * Requeue a dead-lettered payout (admin)
+   * Resets its retries; the admin is expected to have checked the node first.
+   */
+  async requeueDeadLetter(earningId: number): Promise<RunnerEarning | null> {
+    const earning = await this.earningRepository.requeue(earningId, true);
+    if (earning) {
+      logger.info('Dead-lettered payout requeued', { earningId });
+    }
+    return earning;
+  }
+
+  /**
+   * List dead-lettered payouts for admins
+   */
+  async getDeadLetters(limit: number = PAYOUT_CONSTANTS.DEAD_LETTER_LIST_LIMIT): Promise<DeadLetterEarning[]> {
+    return this.earningRepository.findDead(limit);
+  }
+
   /**
    * Get runner's earnings summary
    */
@@ -382,10 +638,13 @@ export class PayoutService {
 
     const result = await pool.query(
       `SELECT 
-         COUNT(*) as total_payouts,
-         SUM(CASE WHEN status = 'completed' THEN net_amount_cents ELSE 0 END) as total_earned_cents,
+         COUNT(*) FILTER (WHERE kind = 'job') as total_payouts,
+         SUM(CASE WHEN status = 'completed' AND kind = 'job' THEN net_amount_cents ELSE 0 END) as total_earned_cents,
          SUM(CASE WHEN status = 'pending' THEN net_amount_cents ELSE 0 END) as pending_cents,
-         SUM(CASE WHEN status = 'completed' THEN net_amount_sats ELSE 0 END) as total_earned_sats
+         SUM(CASE WHEN status = 'completed' AND kind = 'job' THEN net_amount_sats ELSE 0 END) as total_earned_sats,
+         COUNT(*) FILTER (WHERE kind = 'tip') as total_tips,
+         SUM(CASE WHEN status = 'completed' AND kind = 'tip' THEN net_amount_cents ELSE 0 END) as total_tips_cents,
+         SUM(CASE WHEN status = 'completed' AND kind = 'tip' THEN net_amount_sats ELSE 0 END) as total_tips_sats
        FROM runner_earnings
        WHERE runner_id = $1`,
       [runnerId]
@@ -0,0 +1,149 @@
+/**
+ * LNURL Auth Service
+ * Sign in with a Lightning wallet (LUD-04), no phone number or password
+ *
+ * Flow:
+ * 1. The login page asks for a challenge: a random k1 and the LNURL of the
+ *    callback carrying it, shown as a QR code
+ * 2. The wallet signs k1 with the linking key it derives for this domain and
+ *    calls the callback with the signature and the key
+ * 3. The server checks the ECDSA signature and records the key against the
+ *    unexpired, unsigned challenge
+ * 4. The page polls with k1; once signed it claims the challenge, which only
+ *    works once, and receives the JWT. The first login with a key creates the
+ *    account
+ */
+
+import crypto from 'crypto';
+import { UserRepository, User } from '../../database/repositories/UserRepository.js';
+import { LnurlChallengeRepository } from '../../database/repositories/LnurlChallengeRepository.js';
+import { SessionService, ClientInfo } from './SessionService.js';
+import { AuthenticationError, ValidationError } from '../../core/errors/AppError.js';
+import { AUTH_CONSTANTS } from '../../config/constants.js';
+import { bech32Encode } from '../../utils/bech32.js';
+import { ecdsaVerify } from '../../utils/secp256k1.js';
+import logger from '../../utils/logger.js';
+
+export interface LnurlChallengeResponse {
+  k1: string;
+  lnurl: string; // Bech32 LNURL of the callback, uppercase for compact QR codes
+  expiresAt: Date;
+}
+
+export interface LnurlAuthResponse {
+  token: string;
+  refreshToken: string;
+  user: {
+    id: number;
+    username: string;
+    displayName: string;
+    linkingKey: string;
+  };
+  created: boolean; // The account was created by this login
+}
+
+export type LnurlLoginStatus = { status: 'pending' } | ({ status: 'complete' } & LnurlAuthResponse);
+
+const { CHALLENGE_TTL_MS } = AUTH_CONSTANTS.LNURL;
+
+const isK1 = (value: unknown): value is string => typeof value === 'string' && /^[0-9a-f]{64}$/.test(value);
+
+export class LnurlAuthService {
+  constructor(
+    private readonly userRepository: UserRepository = new UserRepository(),
+    private readonly challengeRepository: LnurlChallengeRepository = new LnurlChallengeRepository(),
+    private readonly sessionService: SessionService = new SessionService(),
+    private readonly apiUrl: string = process.env['API_URL'] || 'http://localhost:4000'
+  ) {}
+
+  /**
+   * Hand out a one-time k1 and the LNURL for the wallet to call back
+   * Expired challenges are pruned as new ones are handed out
+   */
+  async createChallenge(): Promise<LnurlChallengeResponse> {
+    const k1 = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+    await this.challengeRepository.deleteExpired(new Date());
+    await this.challengeRepository.create(k1, expiresAt);
+
+    const callbackUrl = `${this.apiUrl.replace(/\/$/, '')}/api/auth/lnurl/callback?tag=login&k1=${k1}&action=login`;
+    const lnurl = bech32Encode('lnurl', Buffer.from(callbackUrl, 'utf8')).toUpperCase();
+
+    return { k1, lnurl, expiresAt };
+  }
+
+  /**
+   * Wallet callback: record the linking key that signed k1
+   * @param sig - DER encoded ECDSA signature of k1 (hex)
+   * @param key - Compressed secp256k1 linking key (hex)
+   */
+  async verifyCallback(k1: unknown, sig: unknown, key: unknown): Promise<void> {
+    if (!isK1(k1) || typeof sig !== 'string' || typeof key !== 'string') {
+      throw new ValidationError('k1, sig and key are required', 'INVALID_CALLBACK');
+    }
+
+    const linkingKey = key.toLowerCase();
+    if (!ecdsaVerify(sig, k1, linkingKey)) {
+      throw new AuthenticationError('Invalid signature', 'INVALID_SIGNATURE');
+    }
+
+    if (!(await this.challengeRepository.markSigned(k1, linkingKey))) {
+      throw new AuthenticationError('Challenge is unknown, used or expired', 'INVALID_CHALLENGE');
+    }
+  }
+
+  /**
+   * Poll with k1 until the wallet has signed, then sign in
+   */
+  async pollLogin(k1: unknown, client: ClientInfo = {}): Promise<LnurlLoginStatus> {
+    const challenge = isK1(k1) ? await this.challengeRepository.findByK1(k1) : null;
+    if (!challenge || challenge.claimed_at || challenge.expires_at <= new Date()) {
+      throw new AuthenticationError('Challenge is unknown, used or expired', 'INVALID_CHALLENGE');
+    }
+
+    if (!challenge.signed_at) {
+      return { status: 'pending' };
+    }
+
+    // Claimed atomically so two pollers cannot both sign in
+    const linkingKey = await this.challengeRepository.claim(challenge.k1);
+    if (!linkingKey) {
+      throw new AuthenticationError('Challenge is unknown, used or expired', 'INVALID_CHALLENGE');
+    }
+
+    let user = await this.userRepository.findByLnurlLinkingKey(linkingKey);
+    const created = !user;
+
+    if (!user) {
+      const name = `lnurl_${linkingKey.slice(2, 18)}`;
+      user = await this.userRepository.createWithLnurlLinkingKey(linkingKey, name, name);
+      logger.info('User registered with LNURL-auth', { userId: user.id });
+    }
+
+    logger.info('User logged in with LNURL-auth', { userId: user.id });
+    const { token, refreshToken } = await this.sessionService.start(user.id, user.role ?? 'client', client);
+
+    return {
+      status: 'complete',
+      token,
+      refreshToken,
+      user: this.toUser(user, linkingKey),
+      created,
+    };
+  }
+
+  /**
+   * Map a user row to the login response (internal helper)
+   */
+  private toUser(user: User, linkingKey: string): LnurlAuthResponse['user'] {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      linkingKey,
+    };
+  }
+}
+
+export const lnurlAuthService = new LnurlAuthService();
@@ -0,0 +1,150 @@
+/**
+ * Nostr Auth Service
+ * Sign in with a Nostr key instead of a password
+ *
+ * Flow:
+ * 1. The client asks for a challenge, a random one-time nonce
+ * 2. It signs a kind-22242 event carrying the challenge in a `challenge` tag,
+ *    through a NIP-07 browser extension or the Fedi wallet
+ * 3. The server checks the event id and schnorr signature, that it was
+ *    created within a minute of now and that the challenge is unused and
+ *    unexpired, then consumes the challenge so the event cannot be replayed
+ * 4. The first login with a key creates the account
+ */
+
+import crypto from 'crypto';
+import { UserRepository, User } from '../../database/repositories/UserRepository.js';
+import { NostrChallengeRepository } from '../../database/repositories/NostrChallengeRepository.js';
+import { SessionService, ClientInfo } from './SessionService.js';
+import { AuthenticationError, ValidationError } from '../../core/errors/AppError.js';
+import { AUTH_CONSTANTS } from '../../config/constants.js';
+import { NostrEvent, normalizePublicKey, verifyEvent } from '../../utils/nostr.js';
+import logger from '../../utils/logger.js';
+
+export interface NostrChallengeResponse {
+  challenge: string;
+  kind: number; // Kind of the event to sign
+  expiresAt: Date;
+}
+
+export interface NostrAuthResponse {
+  token: string;
+  refreshToken: string;
+  user: {
+    id: number;
+    username: string;
+    displayName: string;
+    nostrPubkey: string;
+  };
+  created: boolean; // The account was created by this login
+}
+
+const { EVENT_KIND, CHALLENGE_TTL_MS, MAX_CLOCK_SKEW_SECONDS } = AUTH_CONSTANTS.NOSTR;
+
+/**
+ * Whether a request body value has the shape of a signed Nostr event
+ */
+const isNostrEvent = (value: any): value is NostrEvent =>
+  !!value &&
+  typeof value.id === 'string' &&
+  typeof value.pubkey === 'string' &&
+  typeof value.sig === 'string' &&
+  typeof value.content === 'string' &&
+  Number.isInteger(value.kind) &&
+  Number.isInteger(value.created_at) &&
+  Array.isArray(value.tags) &&
+  value.tags.every((tag: unknown) => Array.isArray(tag) && tag.every((item) => typeof item === 'string'));
+
+export class NostrAuthService {
+  constructor(
+    private readonly userRepository: UserRepository = new UserRepository(),
+    private readonly challengeRepository: NostrChallengeRepository = new NostrChallengeRepository(),
+    private readonly sessionService: SessionService = new SessionService()
+  ) {}
+
+  /**
+   * Hand out a one-time challenge to sign
+   * Expired challenges are pruned as new ones are handed out
+   */
+  async createChallenge(): Promise<NostrChallengeResponse> {
+    const challenge = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(Date.now() + CHALLENGE_TTL_MS);
+
+    await this.challengeRepository.deleteExpired(new Date());
+    await this.challengeRepository.create(challenge, expiresAt);
+
+    return { challenge, kind: EVENT_KIND, expiresAt };
+  }
+
+  /**
+   * Sign in with a signed challenge event
+   * @param pubkey - Key the user claims to sign with, hex or npub (optional)
+   */
+  async login(event: unknown, pubkey?: string, client: ClientInfo = {}): Promise<NostrAuthResponse> {
+    if (!isNostrEvent(event)) {
+      throw new ValidationError('A signed Nostr event is required', 'INVALID_EVENT');
+    }
+
+    if (event.kind !== EVENT_KIND) {
+      throw new ValidationError(`Login event must be of kind ${EVENT_KIND}`, 'INVALID_EVENT_KIND');
+    }
+
+    if (pubkey !== undefined) {
+      const expected = normalizePublicKey(pubkey);
+      if (!expected) {
+        throw new ValidationError('Public key must be 64 hex characters or an npub', 'INVALID_PUBKEY');
+      }
+      if (expected !== event.pubkey.toLowerCase()) {
+        throw new AuthenticationError('Event was not signed by this public key', 'PUBKEY_MISMATCH');
+      }
+    }
+
+    if (Math.abs(Math.floor(Date.now() / 1000) - event.created_at) > MAX_CLOCK_SKEW_SECONDS) {
+      throw new AuthenticationError('Login event is too old or in the future', 'EVENT_EXPIRED');
+    }
+
+    if (!verifyEvent(event)) {
+      throw new AuthenticationError('Invalid Nostr signature', 'INVALID_SIGNATURE');
+    }
+
+    // Only consumed once the signature checks out, so forged events cannot burn challenges
+    const challenge = event.tags.find((tag) => tag[0] === 'challenge')?.[1];
+    if (!challenge || !(await this.challengeRepository.consume(challenge))) {
+      throw new AuthenticationError('Challenge is unknown, used or expired', 'INVALID_CHALLENGE');
+    }
+
+    const nostrPubkey = event.pubkey.toLowerCase();
+    let user = await this.userRepository.findByNostrPubkey(nostrPubkey);
+    const created = !user;
+
+    if (!user) {
+      const name = `nostr_${nostrPubkey.slice(0, 16)}`;
+      user = await this.userRepository.createWithNostrPubkey(nostrPubkey, name, name);
+      logger.info('User registered with Nostr', { userId: user.id });
+    }
+
+    logger.info('User logged in with Nostr', { userId: user.id });
+    const { token, refreshToken } = await this.sessionService.start(user.id, user.role ?? 'client', client);
+
+    return {
+      token,
+      refreshToken,
+      user: this.toUser(user, nostrPubkey),
+      created,
+    };
+  }
+
+  /**
+   * Map a user row to the login response (internal helper)
+   */
+  private toUser(user: User, nostrPubkey: string): NostrAuthResponse['user'] {
+    return {
+      id: user.id,
+      username: user.username,
+      displayName: user.display_name,
+      nostrPubkey,
+    };
+  }
+}
+
+export const nostrAuthService = new NostrAuthService();
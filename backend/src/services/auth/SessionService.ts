@@ -0,0 +1,224 @@
+/**
+ * Session Service
+ * Login sessions with short-lived access tokens and rotating refresh tokens
+ *
+ * - Every login opens a session; access tokens carry its id, so revoking the
+ *   session ends them before they expire
+ * - A refresh token works once: refreshing returns a new pair and marks the
+ *   old token used. Only sha256 hashes of refresh tokens are stored
+ * - A used refresh token presented again means it leaked; the session is
+ *   revoked so neither the thief nor the user can keep using it
+ * - Session events go to the security audit log with the client's IP and
+ *   user agent, which the session list shows
+ */
+
+import crypto from 'crypto';
+import {
+  SessionRepository,
+  AuthSession,
+  SessionWithDevice,
+} from '../../database/repositories/SessionRepository.js';
+import { SecurityAuditRepository } from '../../database/repositories/SecurityAuditRepository.js';
+import { TokenService } from './TokenService.js';
+import { AuthenticationError, NotFoundError, ValidationError } from '../../core/errors/AppError.js';
+import { AUTH_CONSTANTS } from '../../config/constants.js';
+import type { UserRole } from '../../types/index.js';
+import logger from '../../utils/logger.js';
+
+export interface ClientInfo {
+  ipAddress?: string | undefined;
+  userAgent?: string | undefined;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  sessionId: number;
+}
+
+export interface SessionView {
+  id: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: Date;
+  lastUsedAt: Date;
+  expiresAt: Date;
+  current: boolean; // The session of the token making the request
+}
+
+const { REFRESH_EXPIRES_IN_MS, REFRESH_TOKEN_BYTES } = AUTH_CONSTANTS.TOKEN;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+export class SessionService {
+  constructor(
+    private readonly sessionRepository: SessionRepository = new SessionRepository(),
+    private readonly auditRepository: SecurityAuditRepository = new SecurityAuditRepository(),
+    private readonly tokenService: TokenService = new TokenService()
+  ) {}
+
+  /**
+   * Open a session at login
+   */
+  async start(userId: number, role: UserRole, client: ClientInfo = {}): Promise<SessionTokens> {
+    const session = await this.sessionRepository.create(userId, role, this.nextExpiry());
+    await this.audit(userId, 'session_created', session.id, client);
+
+    return this.issueTokens(session);
+  }
+
+  /**
+   * Swap a refresh token for a new access and refresh token
+   */
+  async refresh(refreshToken: unknown, client: ClientInfo = {}): Promise<SessionTokens> {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new ValidationError('Refresh token is required', 'REFRESH_TOKEN_REQUIRED');
+    }
+
+    const tokenHash = hashToken(refreshToken);
+    const sessionId = await this.sessionRepository.useRefreshToken(tokenHash);
+
+    if (sessionId === null) {
+      const reused = await this.sessionRepository.findRefreshToken(tokenHash);
+      if (!reused) {
+        throw new AuthenticationError('Invalid refresh token', 'REFRESH_TOKEN_INVALID');
+      }
+
+      await this.sessionRepository.revoke(reused.session_id, 'reuse');
+      await this.audit(reused.user_id, 'refresh_token_reused', reused.session_id, client, false);
+      logger.warn('Refresh token reused, session revoked', { userId: reused.user_id, sessionId: reused.session_id });
+
+      throw new AuthenticationError(
+        'Refresh token was already used; the session has been ended',
+        'REFRESH_TOKEN_REUSED'
+      );
+    }
+
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.revoked_at || session.expires_at <= new Date()) {
+      throw new AuthenticationError('Session has ended, please log in again', 'SESSION_ENDED');
+    }
+
+    // Reissued with the user's current role, not the one they logged in with
+    const touched = await this.sessionRepository.touch(session.id, this.nextExpiry());
+    if (!touched) {
+      throw new AuthenticationError('Session has ended, please log in again', 'SESSION_ENDED');
+    }
+    await this.audit(touched.user_id, 'session_refreshed', touched.id, client);
+
+    return this.issueTokens(touched);
+  }
+
+  /**
+   * End the session a refresh token belongs to
+   * Unknown tokens are ignored, so logging out twice is harmless
+   */
+  async logout(refreshToken: unknown, client: ClientInfo = {}): Promise<void> {
+    if (typeof refreshToken !== 'string' || !refreshToken) {
+      throw new ValidationError('Refresh token is required', 'REFRESH_TOKEN_REQUIRED');
+    }
+
+    const record = await this.sessionRepository.findRefreshToken(hashToken(refreshToken));
+    if (record && (await this.sessionRepository.revoke(record.session_id, 'logout'))) {
+      await this.audit(record.user_id, 'logout', record.session_id, client);
+    }
+  }
+
+  /**
+   * Active sessions of a user, most recently used first
+   * @param currentSessionId - Session of the requesting token (optional)
+   */
+  async listSessions(userId: number, currentSessionId?: number): Promise<SessionView[]> {
+    const sessions = await this.sessionRepository.findActiveForUser(userId);
+    return sessions.map((session) => this.toView(session, currentSessionId));
+  }
+
+  /**
+   * End one of the user's sessions, e.g. on a lost phone
+   */
+  async revokeSession(userId: number, sessionId: number, client: ClientInfo = {}): Promise<void> {
+    if (!(await this.sessionRepository.revoke(sessionId, 'revoked', userId))) {
+      throw new NotFoundError('Session not found', 'SESSION_NOT_FOUND');
+    }
+
+    await this.audit(userId, 'session_revoked', sessionId, client);
+  }
+
+  /**
+   * Log out everywhere, including the requesting session
+   * @returns Number of sessions ended
+   */
+  async revokeAllSessions(userId: number, client: ClientInfo = {}): Promise<number> {
+    const count = await this.sessionRepository.revokeAllForUser(userId, 'revoked');
+
+    await this.auditRepository.log({
+      userId,
+      action: 'sessions_revoked_all',
+      success: true,
+      details: { count },
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+    logger.info('All sessions revoked', { userId, count });
+
+    return count;
+  }
+
+  /**
+   * Issue an access token and a fresh refresh token for a session (internal helper)
+   */
+  private async issueTokens(session: AuthSession): Promise<SessionTokens> {
+    const refreshToken = crypto.randomBytes(REFRESH_TOKEN_BYTES).toString('base64url');
+    await this.sessionRepository.addRefreshToken(session.id, hashToken(refreshToken));
+
+    return {
+      token: this.tokenService.generate({ userId: session.user_id, role: session.role, sessionId: session.id }),
+      refreshToken,
+      sessionId: session.id,
+    };
+  }
+
+  /**
+   * Expiry of a session used now (internal helper)
+   */
+  private nextExpiry(): Date {
+    return new Date(Date.now() + REFRESH_EXPIRES_IN_MS);
+  }
+
+  /**
+   * Record a session event with the client's device (internal helper)
+   */
+  private async audit(
+    userId: number,
+    action: string,
+    sessionId: number,
+    client: ClientInfo,
+    success: boolean = true
+  ): Promise<void> {
+    await this.auditRepository.log({
+      userId,
+      action,
+      success,
+      details: { session_id: sessionId },
+      ipAddress: client.ipAddress,
+      userAgent: client.userAgent,
+    });
+  }
+
+  /**
+   * Map a session row to the API shape (internal helper)
+   */
+  private toView(session: SessionWithDevice, currentSessionId?: number): SessionView {
+    return {
+      id: session.id,
+      ipAddress: session.ip_address,
+      userAgent: session.user_agent,
+      createdAt: session.created_at,
+      lastUsedAt: session.last_used_at,
+      expiresAt: session.expires_at,
+      current: session.id === currentSessionId,
+    };
+  }
+}
+
+export const sessionService = new SessionService();
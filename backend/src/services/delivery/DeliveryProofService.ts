@@ -0,0 +1,353 @@
+/**
+ * Delivery Proof Service
+ * Evidence attached by the runner when completing a job
+ *
+ * Flow:
+ * 1. Optionally the client issues a one-time delivery code and shares it with the recipient
+ * 2. The runner completes the job with photos, a receipt, the recipient's name and/or the code
+ * 3. Files go to the storage adapter, metadata to job_delivery_proofs
+ * 4. The client reviews the proof before releasing payment
+ */
+
+import crypto from 'crypto';
+import {
+  DeliveryAttachment,
+  DeliveryAttachmentKind,
+  DeliveryCode,
+  DeliveryProof,
+  DeliveryProofRepository,
+} from '../../database/repositories/DeliveryProofRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import { JobService } from '../job/JobService.js';
+import { StorageAdapter } from '../storage/StorageAdapter.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ValidationError,
+} from '../../core/errors/AppError.js';
+import { DELIVERY_PROOF_CONSTANTS } from '../../config/constants.js';
+import logger from '../../utils/logger.js';
+
+export interface DeliveryAttachmentInput {
+  kind?: DeliveryAttachmentKind | undefined;
+  fileName: string;
+  /** Base64 file content, optionally as a data: URL */
+  data: string;
+}
+
+export interface DeliveryProofInput {
+  attachments?: DeliveryAttachmentInput[] | undefined;
+  recipientName?: string | undefined;
+  deliveryCode?: string | undefined;
+  note?: string | undefined;
+}
+
+interface DecodedAttachment {
+  kind: DeliveryAttachmentKind;
+  fileName: string;
+  mimeType: string;
+  content: Buffer;
+}
+
+// Content types are detected from the file itself, never taken from the client
+const FILE_SIGNATURES: Array<{ mimeType: string; matches: (content: Buffer) => boolean }> = [
+  {
+    mimeType: 'image/jpeg',
+    matches: (content) => content[0] === 0xff && content[1] === 0xd8 && content[2] === 0xff,
+  },
+  {
+    mimeType: 'image/png',
+    matches: (content) => content.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])),
+  },
+  {
+    mimeType: 'image/webp',
+    matches: (content) =>
+      content.subarray(0, 4).toString('ascii') === 'RIFF' && content.subarray(8, 12).toString('ascii') === 'WEBP',
+  },
+];
+
+const BASE64_PATTERN = /^[A-Za-z0-9+/]+={0,2}$/;
+
+export class DeliveryProofService {
+  constructor(
+    private readonly proofRepository: DeliveryProofRepository,
+    private readonly jobRepository: JobRepository,
+    private readonly jobService: JobService,
+    private readonly storage: StorageAdapter
+  ) {}
+
+  /**
+   * Issue the one-time delivery code of a job (client only)
+   * Calling again returns the same code
+   */
+  async issueDeliveryCode(jobId: number, clientId: number): Promise<any> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== clientId) {
+      throw new AuthorizationError('Only the client can issue a delivery code', 'NOT_JOB_CLIENT');
+    }
+
+    const existing = await this.proofRepository.findCode(jobId);
+    if (existing) {
+      return this.toCodeView(existing);
+    }
+
+    if (job.status !== 'accepted' && job.status !== 'in_progress') {
+      throw new ConflictError('Delivery codes can only be issued before delivery', 'INVALID_JOB_STATUS');
+    }
+
+    const code = crypto
+      .randomInt(0, 10 ** DELIVERY_PROOF_CONSTANTS.CODE_LENGTH)
+      .toString()
+      .padStart(DELIVERY_PROOF_CONSTANTS.CODE_LENGTH, '0');
+
+    logger.info('Issuing delivery code', { jobId, clientId });
+
+    return this.toCodeView(await this.proofRepository.createCode(jobId, code));
+  }
+
+  /**
+   * Complete a job with proof of delivery (assigned runner)
+   * The proof is stored first and removed again if the job cannot be completed
+   */
+  async completeJob(jobId: number, runnerId: number, input: DeliveryProofInput = {}): Promise<any> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.runner_id !== runnerId) {
+      throw new ConflictError('You are not assigned to this job', 'NOT_ASSIGNED_RUNNER');
+    }
+
+    if (job.status !== 'in_progress') {
+      throw new ConflictError('Only jobs in progress can be completed', 'JOB_NOT_IN_PROGRESS');
+    }
+
+    const attachments = this.decodeAttachments(input.attachments ?? []);
+    const recipientName = this.normalizeText(
+      input.recipientName,
+      DELIVERY_PROOF_CONSTANTS.RECIPIENT_NAME_MAX_LENGTH,
+      'Recipient name',
+      'RECIPIENT_NAME_TOO_LONG'
+    );
+    const note = this.normalizeText(input.note, DELIVERY_PROOF_CONSTANTS.NOTE_MAX_LENGTH, 'Note', 'NOTE_TOO_LONG');
+    const codeVerified = await this.verifyDeliveryCode(jobId, input.deliveryCode);
+
+    if (attachments.length === 0 && !recipientName && !codeVerified) {
+      return this.jobService.completeJob(jobId, runnerId);
+    }
+
+    const storagePaths: string[] = [];
+    let proofStored = false;
+
+    try {
+      const stored = [];
+      for (const attachment of attachments) {
+        const file = await this.storage.save(`delivery-proofs/${jobId}`, attachment.fileName, attachment.content);
+        storagePaths.push(file.storagePath);
+        stored.push({
+          kind: attachment.kind,
+          fileName: attachment.fileName,
+          fileSize: file.size,
+          mimeType: attachment.mimeType,
+          storagePath: file.storagePath,
+        });
+      }
+
+      await this.proofRepository.create({
+        jobId,
+        runnerId,
+        recipientName,
+        codeVerified,
+        note,
+        attachments: stored,
+      });
+      proofStored = true;
+
+      const updatedJob = await this.jobService.completeJob(jobId, runnerId);
+
+      logger.info('Delivery proof submitted', { jobId, attachments: stored.length, codeVerified });
+
+      return updatedJob;
+    } catch (error) {
+      await this.discardProof(jobId, proofStored, storagePaths);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the proof of a job (client or assigned runner)
+   */
+  async getProof(jobId: number, userId: number): Promise<any> {
+    const job = await this.jobRepository.findById(jobId);
+    this.ensureParticipant(job, userId);
+
+    const proof = await this.proofRepository.findByJobId(jobId);
+    return proof ? this.toProofView(proof) : null;
+  }
+
+  /**
+   * Read one attachment of a job's proof (client or assigned runner)
+   */
+  async getAttachment(
+    jobId: number,
+    attachmentId: number,
+    userId: number
+  ): Promise<{ fileName: string; mimeType: string; content: Buffer }> {
+    const job = await this.jobRepository.findById(jobId);
+    this.ensureParticipant(job, userId);
+
+    const proof = await this.proofRepository.findByJobId(jobId);
+    const attachment = proof?.attachments.find((a) => a.id === attachmentId);
+
+    if (!attachment) {
+      throw new NotFoundError('Attachment not found', 'ATTACHMENT_NOT_FOUND');
+    }
+
+    return {
+      fileName: attachment.file_name,
+      mimeType: attachment.mime_type,
+      content: await this.storage.read(attachment.storage_path),
+    };
+  }
+
+  private ensureParticipant(job: Job, userId: number): void {
+    if (job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+    }
+  }
+
+  /**
+   * Check the runner's code against the one the client issued
+   * @returns Whether a code was issued and matched
+   */
+  private async verifyDeliveryCode(jobId: number, submitted: string | undefined): Promise<boolean> {
+    const issued = await this.proofRepository.findCode(jobId);
+    const code = submitted?.trim() ?? '';
+
+    if (!issued) {
+      if (code) {
+        throw new ValidationError('No delivery code was issued for this job', 'INVALID_DELIVERY_CODE');
+      }
+      return false;
+    }
+
+    if (!code) {
+      throw new ValidationError('Enter the delivery code from the recipient', 'DELIVERY_CODE_REQUIRED');
+    }
+
+    const matches =
+      code.length === issued.code.length &&
+      crypto.timingSafeEqual(Buffer.from(code), Buffer.from(issued.code));
+
+    if (!matches) {
+      throw new ValidationError('Delivery code does not match', 'INVALID_DELIVERY_CODE');
+    }
+
+    return true;
+  }
+
+  /**
+   * Validate and decode uploaded files
+   */
+  private decodeAttachments(inputs: DeliveryAttachmentInput[]): DecodedAttachment[] {
+    if (!Array.isArray(inputs)) {
+      throw new ValidationError('Attachments must be a list', 'INVALID_ATTACHMENTS');
+    }
+
+    if (inputs.length > DELIVERY_PROOF_CONSTANTS.MAX_ATTACHMENTS) {
+      throw new ValidationError(
+        `At most ${DELIVERY_PROOF_CONSTANTS.MAX_ATTACHMENTS} attachments are allowed`,
+        'TOO_MANY_ATTACHMENTS'
+      );
+    }
+
+    return inputs.map((input) => {
+      const kind = input.kind ?? 'photo';
+      if (!(DELIVERY_PROOF_CONSTANTS.ATTACHMENT_KINDS as readonly string[]).includes(kind)) {
+        throw new ValidationError(`Invalid attachment kind: ${kind}`, 'INVALID_ATTACHMENT_KIND');
+      }
+
+      const fileName = typeof input.fileName === 'string' ? input.fileName.trim() : '';
+      if (!fileName || fileName.length > DELIVERY_PROOF_CONSTANTS.FILE_NAME_MAX_LENGTH) {
+        throw new ValidationError('Each attachment needs a file name', 'INVALID_FILE_NAME');
+      }
+
+      const base64 = typeof input.data === 'string' ? input.data.replace(/^data:[^;,]*;base64,/, '') : '';
+      if (!BASE64_PATTERN.test(base64)) {
+        throw new ValidationError(`${fileName} is not valid base64 data`, 'INVALID_ATTACHMENT_DATA');
+      }
+
+      const content = Buffer.from(base64, 'base64');
+      if (content.length > DELIVERY_PROOF_CONSTANTS.MAX_ATTACHMENT_BYTES) {
+        const maxMb = DELIVERY_PROOF_CONSTANTS.MAX_ATTACHMENT_BYTES / (1024 * 1024);
+        throw new ValidationError(`${fileName} is larger than ${maxMb}MB`, 'ATTACHMENT_TOO_LARGE');
+      }
+
+      const mimeType = FILE_SIGNATURES.find((signature) => signature.matches(content))?.mimeType;
+      if (!mimeType || !(DELIVERY_PROOF_CONSTANTS.ALLOWED_MIME_TYPES as readonly string[]).includes(mimeType)) {
+        throw new ValidationError(`${fileName} must be a JPEG, PNG or WebP image`, 'INVALID_ATTACHMENT_TYPE');
+      }
+
+      return { kind: kind as DeliveryAttachmentKind, fileName, mimeType, content };
+    });
+  }
+
+  private normalizeText(value: unknown, maxLength: number, label: string, code: string): string | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const text = String(value).trim();
+    if (text.length > maxLength) {
+      throw new ValidationError(`${label} must be at most ${maxLength} characters`, code);
+    }
+
+    return text || undefined;
+  }
+
+  /**
+   * Undo a partially stored proof
+   */
+  private async discardProof(jobId: number, proofStored: boolean, storagePaths: string[]): Promise<void> {
+    try {
+      if (proofStored) {
+        await this.proofRepository.deleteByJobId(jobId);
+      }
+      await Promise.all(storagePaths.map((storagePath) => this.storage.remove(storagePath)));
+    } catch (error) {
+      logger.error('Failed to discard delivery proof', { error, jobId });
+    }
+  }
+
+  private toCodeView(code: DeliveryCode) {
+    return {
+      code: code.code,
+      createdAt: code.created_at,
+      usedAt: code.used_at,
+    };
+  }
+
+  private toAttachmentView(attachment: DeliveryAttachment) {
+    return {
+      id: attachment.id,
+      kind: attachment.kind,
+      fileName: attachment.file_name,
+      fileSize: attachment.file_size,
+      mimeType: attachment.mime_type,
+      uploadedAt: attachment.uploaded_at,
+    };
+  }
+
+  private toProofView(proof: DeliveryProof) {
+    return {
+      id: proof.id,
+      jobId: proof.job_id,
+      runnerId: proof.runner_id,
+      recipientName: proof.recipient_name,
+      codeVerified: proof.code_verified,
+      note: proof.note,
+      submittedAt: proof.submitted_at,
+      attachments: proof.attachments.map((attachment) => this.toAttachmentView(attachment)),
+    };
+  }
+}
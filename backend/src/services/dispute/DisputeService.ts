@@ -0,0 +1,441 @@
+/**
+ * Dispute Service
+ * Dispute resolution for disputed jobs
+ *
+ * Flow:
+ * 1. Client or runner opens a dispute with a reason and evidence -> job moves to disputed
+ * 2. Both parties (and admins) add statements to the timeline
+ * 3. An admin resolves the dispute:
+ *    - payout: escrow is settled and the runner is paid the full price
+ *    - split: escrow is settled, the runner is paid their share and the
+ *      client's share is queued as a refund to their Lightning address
+ *    - refund: escrow is cancelled and the client's payment is returned
+ */
+
+import {
+  Dispute,
+  DisputeParticipantRole,
+  DisputeRepository,
+  DisputeResolution,
+  DisputeStatement,
+} from '../../database/repositories/DisputeRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import { EscrowService } from '../escrow/EscrowService.js';
+import { payoutService } from '../PayoutService.js';
+import { JobEffectHandlers, JobStateMachine, assertTransition, triggerPayout } from '../job/JobStateMachine.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../../core/errors/AppError.js';
+import { DISPUTE_CONSTANTS } from '../../config/constants.js';
+import logger from '../../utils/logger.js';
+
+export interface OpenDisputeRequest {
+  jobId: number;
+  userId: number;
+  reason: string;
+  evidenceUrls?: string[] | undefined;
+}
+
+export interface AddStatementRequest {
+  disputeId: number;
+  userId: number;
+  isAdmin: boolean;
+  body: string;
+  evidenceUrls?: string[] | undefined;
+}
+
+export interface ResolveDisputeRequest {
+  disputeId: number;
+  adminId: number;
+  resolution: DisputeResolution;
+  runnerAmountCents?: number | undefined;
+  notes?: string | undefined;
+}
+
+export interface DisputeTimelineEvent {
+  type: 'opened' | 'statement' | 'resolved';
+  at: Date;
+  actorId: number | null;
+  actorRole: DisputeParticipantRole | null;
+  body: string | null;
+  evidenceUrls: string[];
+}
+
+export class DisputeService {
+  constructor(
+    private readonly disputeRepository: DisputeRepository,
+    private readonly jobRepository: JobRepository,
+    private readonly runnerRepository: RunnerRepository,
+    private readonly escrowService?: EscrowService
+  ) {}
+
+  /**
+   * Open a dispute on a job (client or assigned runner)
+   */
+  async openDispute(data: OpenDisputeRequest): Promise<any> {
+    logger.info('Opening dispute', { jobId: data.jobId, userId: data.userId });
+
+    const job = await this.jobRepository.findById(data.jobId);
+    const role = this.getParticipantRole(job, data.userId);
+
+    const reason = data.reason?.trim() ?? '';
+    if (reason.length < DISPUTE_CONSTANTS.REASON.MIN_LENGTH) {
+      throw new ValidationError(
+        `Reason must be at least ${DISPUTE_CONSTANTS.REASON.MIN_LENGTH} characters`,
+        'REASON_TOO_SHORT'
+      );
+    }
+    if (reason.length > DISPUTE_CONSTANTS.REASON.MAX_LENGTH) {
+      throw new ValidationError(
+        `Reason must be less than ${DISPUTE_CONSTANTS.REASON.MAX_LENGTH} characters`,
+        'REASON_TOO_LONG'
+      );
+    }
+
+    const evidenceUrls = this.validateEvidenceUrls(data.evidenceUrls);
+
+    const existing = await this.disputeRepository.findByJobId(job.id);
+    if (existing) {
+      throw new ConflictError('This job has already been disputed', 'DISPUTE_EXISTS');
+    }
+
+    // Check before writing anything so an invalid job status leaves no dispute behind
+    assertTransition(job.status, 'disputed', role);
+
+    await this.stateMachine().transition(job.id, 'disputed', {
+      actor: role,
+      actorId: data.userId,
+      reason,
+    });
+
+    const dispute = await this.disputeRepository.create({
+      jobId: job.id,
+      openedBy: data.userId,
+      reason,
+      evidenceUrls,
+    });
+
+    await this.disputeRepository.markTransactionsDisputed(job.id);
+
+    logger.info('Dispute opened', { disputeId: dispute.id, jobId: job.id, role });
+
+    return this.toView(dispute);
+  }
+
+  /**
+   * Get dispute with its timeline (participants or admin only)
+   */
+  async getDispute(disputeId: number, userId: number, isAdmin: boolean = false): Promise<any> {
+    const dispute = await this.disputeRepository.findById(disputeId);
+    const job = await this.jobRepository.findById(dispute.job_id);
+
+    if (!isAdmin) {
+      this.getParticipantRole(job, userId);
+    }
+
+    const statements = await this.disputeRepository.findStatements(disputeId);
+
+    return {
+      ...this.toView(dispute),
+      timeline: this.buildTimeline(dispute, job, statements),
+    };
+  }
+
+  /**
+   * List unresolved disputes for admin review
+   */
+  async listOpenDisputes(limit: number = 20, offset: number = 0): Promise<any> {
+    const disputes = await this.disputeRepository.findByStatus(
+      ['open', 'peer_mediation', 'admin_review'],
+      limit,
+      offset
+    );
+
+    return disputes.map((dispute) => this.toView(dispute));
+  }
+
+  /**
+   * Add a statement to an unresolved dispute
+   */
+  async addStatement(data: AddStatementRequest): Promise<any> {
+    const dispute = await this.disputeRepository.findById(data.disputeId);
+    this.ensureUnresolved(dispute);
+
+    const job = await this.jobRepository.findById(dispute.job_id);
+    const role = data.isAdmin ? 'admin' : this.getParticipantRole(job, data.userId);
+
+    const body = data.body?.trim() ?? '';
+    if (body.length === 0) {
+      throw new ValidationError('Statement cannot be empty', 'STATEMENT_REQUIRED');
+    }
+    if (body.length > DISPUTE_CONSTANTS.STATEMENT.MAX_LENGTH) {
+      throw new ValidationError(
+        `Statement must be less than ${DISPUTE_CONSTANTS.STATEMENT.MAX_LENGTH} characters`,
+        'STATEMENT_TOO_LONG'
+      );
+    }
+
+    const statement = await this.disputeRepository.addStatement({
+      disputeId: dispute.id,
+      authorId: data.userId,
+      authorRole: role,
+      body,
+      evidenceUrls: this.validateEvidenceUrls(data.evidenceUrls),
+    });
+
+    // Once an admin weighs in the dispute is under review
+    if (role === 'admin' && dispute.status === 'open') {
+      await this.disputeRepository.updateStatus(dispute.id, 'admin_review');
+    }
+
+    return this.toStatementView(statement);
+  }
+
+  /**
+   * Resolve a dispute (admin only)
+   */
+  async resolveDispute(data: ResolveDisputeRequest): Promise<any> {
+    logger.info('Resolving dispute', {
+      disputeId: data.disputeId,
+      adminId: data.adminId,
+      resolution: data.resolution,
+    });
+
+    const dispute = await this.disputeRepository.findById(data.disputeId);
+    this.ensureUnresolved(dispute);
+
+    const job = await this.jobRepository.findById(dispute.job_id);
+    const { runnerAmountCents, refundAmountCents } = this.splitAmounts(job, data);
+    const notes = data.notes?.trim() || null;
+
+    // The guarded job transition ensures a dispute is only ever paid out once
+    await this.stateMachine(runnerAmountCents).transition(
+      job.id,
+      data.resolution === 'refund' ? 'cancelled' : 'payment_confirmed',
+      {
+        actor: 'admin',
+        actorId: data.adminId,
+        reason: notes ?? `Dispute resolved: ${data.resolution}`,
+      }
+    );
+
+    const resolved = await this.disputeRepository.resolve(dispute.id, {
+      resolution: data.resolution,
+      runnerAmountCents,
+      refundAmountCents,
+      notes,
+      resolvedBy: data.adminId,
+    });
+
+    // A settled escrow holds the client's share of a split until it is refunded
+    if (data.resolution === 'split') {
+      await this.refundClient(job.id, dispute.id, refundAmountCents);
+    }
+
+    if (job.runner_id) {
+      await this.updateRunnerStats(job.runner_id);
+    }
+
+    logger.info('Dispute resolved', {
+      disputeId: dispute.id,
+      jobId: job.id,
+      resolution: data.resolution,
+      runnerAmountCents,
+      refundAmountCents,
+    });
+
+    return this.toView(resolved ?? (await this.disputeRepository.findById(dispute.id)));
+  }
+
+  /**
+   * Work out who gets what for a resolution
+   */
+  private splitAmounts(
+    job: Job,
+    data: ResolveDisputeRequest
+  ): { runnerAmountCents: number; refundAmountCents: number } {
+    switch (data.resolution) {
+      case 'payout':
+        return { runnerAmountCents: job.price_cents, refundAmountCents: 0 };
+      case 'refund':
+        return { runnerAmountCents: 0, refundAmountCents: job.price_cents };
+      case 'split': {
+        const runnerAmountCents = data.runnerAmountCents;
+        if (
+          runnerAmountCents === undefined ||
+          !Number.isInteger(runnerAmountCents) ||
+          runnerAmountCents <= 0 ||
+          runnerAmountCents >= job.price_cents
+        ) {
+          throw new ValidationError(
+            `Runner amount must be between 1 and ${job.price_cents - 1} cents for a split`,
+            'INVALID_SPLIT_AMOUNT'
+          );
+        }
+        return { runnerAmountCents, refundAmountCents: job.price_cents - runnerAmountCents };
+      }
+      default:
+        throw new ValidationError('Resolution must be payout, split or refund', 'INVALID_RESOLUTION');
+    }
+  }
+
+  /**
+   * Queue the client's share of a split
+   * The job is already resolved, so a failure is logged for an admin to
+   * follow up rather than thrown
+   */
+  private async refundClient(jobId: number, disputeId: number, amountCents: number): Promise<void> {
+    try {
+      await payoutService.enqueueClientRefund(jobId, disputeId, amountCents);
+    } catch (error: any) {
+      logger.error('Failed to queue client refund', { jobId, disputeId, amountCents, error: error.message });
+    }
+  }
+
+  /**
+   * Recalculate the runner's completion rate
+   * Refunded disputes count as jobs the runner failed to complete
+   */
+  private async updateRunnerStats(runnerId: number): Promise<void> {
+    const runnerProfile = await this.runnerRepository.findByUserId(runnerId);
+    if (!runnerProfile) {
+      return;
+    }
+
+    const delivered = await this.jobRepository.countDeliveredJobsForRunner(runnerId);
+    const refunded = await this.disputeRepository.countRefundedForRunner(runnerId);
+    const finished = delivered + refunded;
+    const completionRate = finished > 0 ? Math.round((delivered / finished) * 10000) / 100 : 0;
+
+    await this.runnerRepository.updateStats(runnerProfile.id, { completionRate });
+
+    logger.debug('Runner completion rate updated', { runnerId, completionRate, delivered, refunded });
+  }
+
+  /**
+   * State machine wired to escrow and the resolved payout amount
+   */
+  private stateMachine(payoutCents?: number): JobStateMachine {
+    const handlers: JobEffectHandlers = {
+      trigger_payout: (job) => triggerPayout(job.id, payoutCents),
+    };
+
+    if (this.escrowService) {
+      const escrowService = this.escrowService;
+      handlers.settle_escrow = (job) => escrowService.settleEscrow(job.id);
+      handlers.cancel_escrow = (job) => escrowService.cancelEscrow(job.id);
+    }
+
+    return new JobStateMachine(this.jobRepository, handlers);
+  }
+
+  private getParticipantRole(job: Job, userId: number): 'client' | 'runner' {
+    if (job.client_id === userId) {
+      return 'client';
+    }
+    if (job.runner_id === userId) {
+      return 'runner';
+    }
+    throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+  }
+
+  private ensureUnresolved(dispute: Dispute): void {
+    if (dispute.status === 'resolved' || dispute.status === 'dismissed') {
+      throw new ConflictError('Dispute is already closed', 'DISPUTE_CLOSED');
+    }
+  }
+
+  private validateEvidenceUrls(urls: string[] | undefined): string[] {
+    if (urls === undefined) {
+      return [];
+    }
+
+    if (!Array.isArray(urls) || urls.length > DISPUTE_CONSTANTS.MAX_EVIDENCE_URLS) {
+      throw new ValidationError(
+        `Provide at most ${DISPUTE_CONSTANTS.MAX_EVIDENCE_URLS} evidence URLs`,
+        'INVALID_EVIDENCE'
+      );
+    }
+
+    for (const url of urls) {
+      let parsed: URL;
+      try {
+        parsed = new URL(url);
+      } catch {
+        throw new ValidationError(`Invalid evidence URL: ${url}`, 'INVALID_EVIDENCE');
+      }
+      if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+        throw new ValidationError(`Invalid evidence URL: ${url}`, 'INVALID_EVIDENCE');
+      }
+    }
+
+    return urls;
+  }
+
+  private buildTimeline(
+    dispute: Dispute,
+    job: Job,
+    statements: DisputeStatement[]
+  ): DisputeTimelineEvent[] {
+    const timeline: DisputeTimelineEvent[] = [
+      {
+        type: 'opened',
+        at: dispute.created_at,
+        actorId: dispute.opened_by,
+        actorRole: dispute.opened_by === job.client_id ? 'client' : 'runner',
+        body: dispute.reason,
+        evidenceUrls: dispute.evidence_urls ?? [],
+      },
+      ...statements.map((statement) => ({
+        type: 'statement' as const,
+        at: statement.created_at,
+        actorId: statement.author_id,
+        actorRole: statement.author_role,
+        body: statement.body,
+        evidenceUrls: statement.evidence_urls,
+      })),
+    ];
+
+    if (dispute.resolved_at) {
+      timeline.push({
+        type: 'resolved',
+        at: dispute.resolved_at,
+        actorId: dispute.resolved_by,
+        actorRole: 'admin',
+        body: dispute.resolution_notes,
+        evidenceUrls: [],
+      });
+    }
+
+    return timeline;
+  }
+
+  private toView(dispute: Dispute): any {
+    return {
+      id: dispute.id,
+      jobId: dispute.job_id,
+      openedBy: dispute.opened_by,
+      status: dispute.status,
+      reason: dispute.reason,
+      evidenceUrls: dispute.evidence_urls ?? [],
+      resolution: dispute.resolution,
+      runnerAmountCents: dispute.runner_amount_cents,
+      refundAmountCents: dispute.refund_amount_cents,
+      resolutionNotes: dispute.resolution_notes,
+      resolvedBy: dispute.resolved_by,
+      resolvedAt: dispute.resolved_at,
+      createdAt: dispute.created_at,
+    };
+  }
+
+  private toStatementView(statement: DisputeStatement): any {
+    return {
+      id: statement.id,
+      disputeId: statement.dispute_id,
+      authorId: statement.author_id,
+      authorRole: statement.author_role,
+      body: statement.body,
+      evidenceUrls: statement.evidence_urls,
+      createdAt: statement.created_at,
+    };
+  }
+}
@@ -1,6 +1,6 @@
 /**
  * Email Service
- * Handles sending email alerts for payment monitoring and system notifications
+ * Handles sending email alerts for payment monitoring and notification emails to users
  */
 
 import logger from '../utils/logger.js';
@@ -18,6 +18,15 @@ export interface AlertEmailOptions {
   severity?: 'info' | 'warning' | 'critical';
 }
 
+export interface NotificationEmailOptions {
+  to: string;
+  subject: string;
+  body: string;
+  actionUrl?: string | undefined;
+  actionLabel?: string | undefined;
+  footer?: string | undefined;
+}
+
 export class EmailService {
   private smtpHost: string;
   private smtpPort: number;
@@ -25,6 +34,7 @@ export class EmailService {
   private smtpPass: string;
   private alertEmailFrom: string;
   private alertEmailTo: string[];
+  private smtpConfigured: boolean;
   private enabled: boolean;
 
   constructor() {
@@ -35,8 +45,9 @@ export class EmailService {
     this.alertEmailFrom = process.env['ALERT_EMAIL_FROM'] || 'alerts@errandbit.com';
     this.alertEmailTo = (process.env['ALERT_EMAIL_TO'] || '').split(',').filter(Boolean);
     
-    // Email is enabled if all required config is present
-    this.enabled = !!(this.smtpHost && this.smtpUser && this.smtpPass && this.alertEmailTo.length > 0);
+    // Email is enabled if all required config is present; user emails only need SMTP
+    this.smtpConfigured = !!(this.smtpHost && this.smtpUser && this.smtpPass);
+    this.enabled = this.smtpConfigured && this.alertEmailTo.length > 0;
 
     if (!this.enabled) {
       logger.warn('📧 Email service not configured - alerts will be logged only');
@@ -88,11 +99,37 @@ export class EmailService {
     }
   }
 
+  /**
+   * Send a notification email to a user
+   */
+  async sendNotification(options: NotificationEmailOptions): Promise<boolean> {
+    if (!this.smtpConfigured) {
+      logger.info('📧 Email not configured, logging notification instead:', {
+        to: options.to,
+        subject: options.subject
+      });
+      return false;
+    }
+
+    try {
+      await this.sendEmail({
+        to: options.to,
+        subject: options.subject,
+        text: options.actionUrl ? `${options.body}\n\n${options.actionUrl}` : options.body,
+        html: this.generateNotificationHtml(options)
+      });
+      return true;
+    } catch (error) {
+      logger.error('❌ Failed to send notification email', { error, subject: options.subject });
+      return false;
+    }
+  }
+
   /**
    * Send general email
    */
   private async sendEmail(options: EmailOptions): Promise<void> {
-    if (!this.enabled) {
+    if (!this.smtpConfigured) {
       throw new Error('Email service not configured');
     }
 
@@ -195,6 +232,42 @@ export class EmailService {
     `;
   }
 
+  /**
+   * Generate HTML template for user notification emails
+   */
+  private generateNotificationHtml(options: NotificationEmailOptions): string {
+    const escape = (text: string) =>
+      text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+    const action = options.actionUrl
+      ? `<p style="margin: 30px 0 0;">
+              <a href="${escape(options.actionUrl)}" style="background: #3b82f6; color: white; padding: 12px 20px; border-radius: 6px; text-decoration: none;">${escape(options.actionLabel || 'Open ErrandBit')}</a>
+            </p>`
+      : '';
+
+    return `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <meta name="viewport" content="width=device-width, initial-scale=1.0">
+          <title>${escape(options.subject)}</title>
+        </head>
+        <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+          <div style="background: #f9fafb; padding: 30px; border-radius: 8px; border: 1px solid #e5e7eb;">
+            <h1 style="margin: 0 0 20px; font-size: 22px;">${escape(options.subject)}</h1>
+            <div style="white-space: pre-wrap; font-size: 16px;">${escape(options.body)}</div>
+            ${action}
+            <hr style="margin: 30px 0; border: none; border-top: 1px solid #d1d5db;">
+            <p style="font-size: 14px; color: #6b7280; margin: 0;">
+              ${escape(options.footer || 'You are receiving this email because of your ErrandBit notification settings.')}
+            </p>
+          </div>
+        </body>
+      </html>
+    `;
+  }
+
   /**
    * Send payment stuck alert
    */
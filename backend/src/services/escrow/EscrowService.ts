@@ -0,0 +1,451 @@
+/**
+ * Escrow Service
+ * Hold-invoice escrow for job payments
+ *
+ * Flow:
+ * 1. Runner is assigned -> a hold invoice is created for the job price
+ * 2. Client pays -> the HTLC is locked in (escrow "held"), nobody has the funds yet
+ * 3. Client confirms delivery, or the auto-release window passes -> preimage is
+ *    revealed, the invoice settles and the runner payout is triggered
+ * 4. Job is cancelled before release -> the invoice is cancelled and the
+ *    client's HTLC is returned
+ *
+ * The node must settle or cancel a held HTLC within its CLTV window, so no
+ * escrow stays held longer than MAX_HOLD_HOURS: the auto-release is brought
+ * forward to fit, and escrow still held by then is released or refunded.
+ * The hold is timed from held_at, so the release job also polls the node for
+ * pending escrows: held_at then trails the HTLC arriving by at most one check
+ * interval, whether or not anyone looks at the job.
+ *
+ * Funding and refunds are posted to the ledger; the release is posted when
+ * the payout is queued.
+ */
+
+import crypto from 'crypto';
+import { EscrowRepository, JobEscrow } from '../../database/repositories/EscrowRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+} from '../../core/errors/AppError.js';
+import { ESCROW_CONSTANTS } from '../../config/constants.js';
+import { RealLightningService, realLightningService } from '../lightning/RealLightningService.js';
+import { JobStateMachine, assertTransition } from '../job/JobStateMachine.js';
+import { PriceOracle } from '../pricing/PriceOracle.js';
+import { priceOracle } from '../pricing/createPriceOracle.js';
+import { LedgerService, ledgerService } from '../ledger/LedgerService.js';
+import logger from '../../utils/logger.js';
+
+export interface EscrowView {
+  jobId: number;
+  status: JobEscrow['status'];
+  paymentRequest: string;
+  paymentHash: string;
+  amountSats: number;
+  expiresAt: Date;
+  releaseAfter: Date | null;
+  heldAt: Date | null;
+  settledAt: Date | null;
+  cancelledAt: Date | null;
+}
+
+export class EscrowService {
+  private readonly autoReleaseHours: number;
+  private readonly stateMachine: JobStateMachine;
+
+  constructor(
+    private readonly escrowRepository: EscrowRepository,
+    private readonly jobRepository: JobRepository,
+    private readonly lightning: RealLightningService = realLightningService,
+    private readonly prices: PriceOracle = priceOracle,
+    private readonly ledger: LedgerService = ledgerService
+  ) {
+    this.stateMachine = new JobStateMachine(jobRepository, {
+      cancel_escrow: (job) => this.cancelEscrow(job.id),
+    });
+    this.autoReleaseHours = Math.min(
+      Number(process.env['ESCROW_AUTO_RELEASE_HOURS'] || ESCROW_CONSTANTS.AUTO_RELEASE_HOURS),
+      ESCROW_CONSTANTS.MAX_HOLD_HOURS
+    );
+  }
+
+  /**
+   * Open escrow for a freshly assigned job
+   * Generates the preimage server-side and creates a hold invoice for its hash.
+   * A job released back to the open pool gets a new escrow in place of its
+   * cancelled one.
+   */
+  async openEscrow(job: Job): Promise<EscrowView> {
+    logger.info('Opening escrow for job', { jobId: job.id });
+
+    const existing = await this.escrowRepository.findByJobId(job.id);
+    if (existing && existing.status !== 'cancelled') {
+      throw new ConflictError('Escrow already exists for this job', 'ESCROW_EXISTS');
+    }
+
+    // The snapshot records the rate used, for reproducible earnings reports
+    const { sats: amountSats, snapshot } = await this.prices.fiatToSats(job.price_cents);
+    const preimage = crypto.randomBytes(32).toString('hex');
+    const paymentHash = crypto
+      .createHash('sha256')
+      .update(Buffer.from(preimage, 'hex'))
+      .digest('hex');
+
+    let invoice;
+    try {
+      invoice = await this.lightning.createHoldInvoice(
+        paymentHash,
+        amountSats,
+        `ErrandBit escrow for job #${job.id}: ${job.title}`,
+        ESCROW_CONSTANTS.INVOICE_EXPIRY_SECONDS,
+        ESCROW_CONSTANTS.HOLD_CLTV_EXPIRY_BLOCKS
+      );
+    } catch (error) {
+      logger.error('Failed to create escrow invoice', {
+        jobId: job.id,
+        error: (error as Error).message,
+      });
+      throw new ServiceUnavailableError(
+        'Could not create escrow invoice, please try again',
+        'ESCROW_INVOICE_FAILED'
+      );
+    }
+
+    const escrow = await this.escrowRepository.create({
+      jobId: job.id,
+      paymentHash,
+      preimage,
+      paymentRequest: invoice.paymentRequest,
+      amountSats,
+      priceSnapshotId: snapshot.id,
+      expiresAt: invoice.expiresAt,
+    });
+
+    logger.info('Escrow opened', { jobId: job.id, amountSats });
+
+    return this.toView(escrow);
+  }
+
+  /**
+   * Get escrow for a job (client or assigned runner only)
+   */
+  async getEscrowForJob(jobId: number, userId: number): Promise<EscrowView> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+    }
+
+    const escrow = await this.requireEscrow(jobId);
+    return this.toView(await this.sync(escrow));
+  }
+
+  /**
+   * Check whether the client's payment is locked in
+   */
+  async isFunded(jobId: number): Promise<boolean> {
+    const escrow = await this.escrowRepository.findByJobId(jobId);
+    if (!escrow) {
+      return false;
+    }
+
+    const synced = await this.sync(escrow);
+    return synced.status === 'held';
+  }
+
+  /**
+   * Pull the node's state into every escrow still waiting for payment
+   * @returns Number of escrows found funded
+   */
+  async syncPending(): Promise<number> {
+    const pending = await this.escrowRepository.findPending();
+    let funded = 0;
+
+    for (const escrow of pending) {
+      try {
+        const synced = await this.sync(escrow);
+        if (synced.status === 'held') {
+          funded++;
+        }
+      } catch (error) {
+        logger.error('Failed to sync escrow', {
+          jobId: escrow.job_id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (funded > 0) {
+      logger.info(`Found ${funded} newly funded escrows`);
+    }
+
+    return funded;
+  }
+
+  /**
+   * Start the auto-release countdown once the runner reports completion
+   * Never later than the end of the escrow's hold window
+   */
+  async scheduleRelease(jobId: number): Promise<void> {
+    const escrow = await this.escrowRepository.findByJobId(jobId);
+    let releaseAfter = new Date(Date.now() + this.autoReleaseHours * 60 * 60 * 1000);
+
+    if (escrow?.held_at) {
+      const holdEnds = new Date(escrow.held_at.getTime() + ESCROW_CONSTANTS.MAX_HOLD_HOURS * 60 * 60 * 1000);
+      releaseAfter = holdEnds < releaseAfter ? holdEnds : releaseAfter;
+    }
+
+    await this.escrowRepository.setReleaseAfter(jobId, releaseAfter);
+
+    logger.info('Escrow release scheduled', { jobId, releaseAfter });
+  }
+
+  /**
+   * Client confirms delivery and releases the escrow to the runner
+   */
+  async confirmDelivery(jobId: number, clientId: number): Promise<EscrowView> {
+    logger.info('Client confirming delivery', { jobId, clientId });
+
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== clientId) {
+      throw new AuthorizationError('Only the client can confirm delivery', 'NOT_JOB_CLIENT');
+    }
+
+    if (job.status !== 'awaiting_payment') {
+      throw new ConflictError(
+        'Delivery can only be confirmed after the runner completes the job',
+        'INVALID_JOB_STATUS'
+      );
+    }
+
+    const escrow = await this.sync(await this.requireEscrow(jobId));
+    if (escrow.status !== 'held') {
+      throw new ConflictError('Escrow is not funded', 'ESCROW_NOT_FUNDED');
+    }
+
+    return this.toView(await this.release(escrow, clientId));
+  }
+
+  /**
+   * Cancel escrow and refund the client
+   * No-op if the job never had an escrow or it is already cancelled
+   */
+  async cancelEscrow(jobId: number): Promise<void> {
+    const escrow = await this.escrowRepository.findByJobId(jobId);
+    if (!escrow || escrow.status === 'cancelled') {
+      return;
+    }
+
+    if (escrow.status === 'settled') {
+      throw new ConflictError('Escrow has already been released', 'ESCROW_ALREADY_SETTLED');
+    }
+
+    const wasHeld = escrow.status === 'held';
+    await this.lightning.cancelHoldInvoice(escrow.payment_hash);
+    const cancelled = await this.escrowRepository.markCancelled(escrow.id);
+
+    if (cancelled && wasHeld) {
+      const job = await this.jobRepository.findById(jobId);
+      await this.ledger.recordEscrowRefunded(escrow, job.client_id);
+    }
+
+    logger.info('Escrow cancelled, client refunded', { jobId });
+  }
+
+  /**
+   * Settle a held escrow without changing the job status
+   * Used when an admin resolves a dispute in the runner's favour; the
+   * dispute resolution moves the job on. No-op if nothing is held; throws if
+   * the escrow was refunded, e.g. when its hold window ran out.
+   */
+  async settleEscrow(jobId: number): Promise<void> {
+    const escrow = await this.escrowRepository.findByJobId(jobId);
+    if (!escrow) {
+      return;
+    }
+
+    const synced = await this.sync(escrow);
+    if (synced.status === 'cancelled') {
+      throw new ConflictError('Escrow has already been refunded to the client', 'ESCROW_CANCELLED');
+    }
+    if (synced.status !== 'held') {
+      return;
+    }
+
+    await this.lightning.settleHoldInvoice(synced.preimage);
+    await this.escrowRepository.markSettled(synced.id);
+
+    logger.info('Escrow settled', { jobId, amountSats: synced.amount_sats });
+  }
+
+  /**
+   * Release every held escrow whose confirmation window has passed
+   * @returns Number of escrows released
+   */
+  async releaseExpired(): Promise<number> {
+    const due = await this.escrowRepository.findDueForRelease();
+    let released = 0;
+
+    for (const escrow of due) {
+      try {
+        await this.release(escrow);
+        released++;
+      } catch (error) {
+        logger.error('Auto-release failed', {
+          jobId: escrow.job_id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (released > 0) {
+      logger.info(`Auto-released ${released} escrows`);
+    }
+
+    return released;
+  }
+
+  /**
+   * Release or refund every escrow held for MAX_HOLD_HOURS
+   * A completed job is released to the runner, a job still underway is
+   * cancelled and any other job, e.g. a disputed one, has its client refunded.
+   * @returns Number of escrows released or refunded
+   */
+  async expireHolds(): Promise<number> {
+    const cutoff = new Date(Date.now() - ESCROW_CONSTANTS.MAX_HOLD_HOURS * 60 * 60 * 1000);
+    const overdue = await this.escrowRepository.findHeldSince(cutoff);
+    let expired = 0;
+
+    for (const escrow of overdue) {
+      try {
+        const job = await this.jobRepository.findById(escrow.job_id);
+
+        if (job.status === 'awaiting_payment') {
+          await this.release(escrow);
+        } else if (job.status === 'accepted' || job.status === 'in_progress') {
+          await this.stateMachine.transition(job.id, 'cancelled', {
+            actor: 'system',
+            actorId: null,
+            reason: 'Escrow hold window ran out',
+          });
+        } else {
+          await this.cancelEscrow(job.id);
+        }
+
+        logger.warn('Escrow hold window ran out', { jobId: job.id, jobStatus: job.status });
+        expired++;
+      } catch (error) {
+        logger.error('Failed to expire escrow hold', {
+          jobId: escrow.job_id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    return expired;
+  }
+
+  /**
+   * Start periodic auto-release job
+   */
+  startReleaseJob(): void {
+    logger.info('Starting escrow auto-release job', {
+      autoReleaseHours: this.autoReleaseHours,
+    });
+
+    setInterval(() => {
+      this.syncPending()
+        .then(() => this.releaseExpired())
+        .then(() => this.expireHolds())
+        .catch((err) => {
+          logger.error('Escrow auto-release job failed:', err);
+        });
+    }, ESCROW_CONSTANTS.RELEASE_CHECK_INTERVAL_MS);
+  }
+
+  /**
+   * Settle the hold invoice and confirm the job payment
+   * The state machine triggers the runner payout
+   * @param clientId - Confirming client, or null for an auto-release
+   */
+  private async release(escrow: JobEscrow, clientId: number | null = null): Promise<JobEscrow> {
+    const actor = clientId === null ? 'system' : 'client';
+
+    // Check the job may be confirmed before the preimage is revealed;
+    // a disputed job must not be paid out by the auto-release
+    const job = await this.jobRepository.findById(escrow.job_id);
+    assertTransition(job.status, 'payment_confirmed', actor);
+
+    await this.lightning.settleHoldInvoice(escrow.preimage);
+
+    const settled = await this.escrowRepository.markSettled(escrow.id);
+    if (!settled) {
+      // Another worker released it first
+      return (await this.escrowRepository.findByJobId(escrow.job_id)) ?? escrow;
+    }
+
+    await this.stateMachine.transition(escrow.job_id, 'payment_confirmed', {
+      actor,
+      actorId: clientId,
+      reason: clientId === null ? 'Escrow auto-released' : 'Client confirmed delivery',
+    });
+
+    logger.info('Escrow released', { jobId: escrow.job_id, amountSats: escrow.amount_sats });
+
+    return settled;
+  }
+
+  /**
+   * Pull the latest hold invoice state from the node into the escrow record
+   */
+  private async sync(escrow: JobEscrow): Promise<JobEscrow> {
+    if (escrow.status !== 'pending') {
+      return escrow;
+    }
+
+    const state = await this.lightning.getHoldInvoiceState(escrow.payment_hash);
+
+    if (state === 'accepted') {
+      const held = await this.escrowRepository.markHeld(escrow.id);
+      if (!held) {
+        return escrow;
+      }
+
+      const job = await this.jobRepository.findById(escrow.job_id);
+      await this.ledger.recordEscrowFunded(held, job.client_id);
+      return held;
+    }
+
+    if (state === 'cancelled') {
+      return (await this.escrowRepository.markCancelled(escrow.id)) ?? escrow;
+    }
+
+    return escrow;
+  }
+
+  private async requireEscrow(jobId: number): Promise<JobEscrow> {
+    const escrow = await this.escrowRepository.findByJobId(jobId);
+    if (!escrow) {
+      throw new NotFoundError('No escrow found for this job', 'ESCROW_NOT_FOUND');
+    }
+    return escrow;
+  }
+
+  private toView(escrow: JobEscrow): EscrowView {
+    return {
+      jobId: escrow.job_id,
+      status: escrow.status,
+      paymentRequest: escrow.payment_request,
+      paymentHash: escrow.payment_hash,
+      amountSats: escrow.amount_sats,
+      expiresAt: escrow.expires_at,
+      releaseAfter: escrow.release_after,
+      heldAt: escrow.held_at,
+      settledAt: escrow.settled_at,
+      cancelledAt: escrow.cancelled_at,
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Fee Policy
+ * Works out the platform fee kept from a job's payout under a fee schedule
+ *
+ * Rules, in order:
+ * - promotion:      no fee while a promotional window covers the job
+ * - fedi_community: jobs posted from a listed Fedi community pay its rate,
+ *                   and nothing else applies
+ * - category_rate:  the category's rate, or the default rate
+ * - volume_tier:    runners paid for enough jobs recently get a discount
+ *                   off that rate
+ * - minimum:        the fee is at least the flat minimum (never more than
+ *                   the job price)
+ */
+
+import { FEE_CONSTANTS } from '../../config/constants.js';
+
+export type FeeRuleCode = 'promotion' | 'fedi_community' | 'category_rate' | 'default_rate' | 'volume_tier' | 'minimum';
+
+export interface FeeVolumeTier {
+  minJobs: number;          // Jobs paid in the volume window
+  discountPercent: number;  // Taken off the rate, e.g. 25 turns 10% into 7.5%
+}
+
+export interface FeePromotion {
+  name: string;
+  startsAt: Date;
+  endsAt: Date;
+  categories?: string[];    // All categories when omitted
+}
+
+export interface FeeSchedule {
+  defaultPercent: number;
+  categoryPercent: Record<string, number>;
+  minimumCents: number;
+  volumeTiers: FeeVolumeTier[];
+  promotions: FeePromotion[];
+  fediCommunityPercent: Record<string, number>; // '*' matches any community
+}
+
+export interface FeeQuoteInput {
+  priceCents: number;
+  category?: string | null | undefined;
+  fediCommunityId?: string | null | undefined;
+  runnerJobCount?: number | null | undefined; // Unknown until a runner is assigned
+  at?: Date | undefined;
+}
+
+export interface FeeRule {
+  code: FeeRuleCode;
+  description: string;
+}
+
+export interface FeeQuote {
+  priceCents: number;
+  feeCents: number;
+  netCents: number;
+  ratePercent: number;
+  rules: FeeRule[];
+}
+
+export class FeePolicy {
+  constructor(private readonly schedule: FeeSchedule) {}
+
+  /**
+   * Fee kept from a job paid at `priceCents`
+   */
+  quote(input: FeeQuoteInput): FeeQuote {
+    const priceCents = input.priceCents;
+    const at = input.at ?? new Date();
+    const category = input.category ?? null;
+
+    const promotion = this.schedule.promotions.find(
+      (p) => p.startsAt <= at && at < p.endsAt && (!p.categories || (category !== null && p.categories.includes(category)))
+    );
+    if (promotion) {
+      return this.result(priceCents, 0, 0, [
+        { code: 'promotion', description: `No fee during ${promotion.name} (until ${promotion.endsAt.toISOString()})` },
+      ]);
+    }
+
+    const fediPercent = this.fediCommunityPercent(input.fediCommunityId);
+    if (fediPercent !== null) {
+      return this.result(priceCents, fediPercent, this.percentOf(priceCents, fediPercent), [
+        { code: 'fedi_community', description: `Fedi community rate of ${fediPercent}%` },
+      ]);
+    }
+
+    const rules: FeeRule[] = [];
+    let ratePercent: number;
+    const categoryPercent = category !== null ? this.schedule.categoryPercent[category] : undefined;
+    if (categoryPercent !== undefined) {
+      ratePercent = categoryPercent;
+      rules.push({ code: 'category_rate', description: `${category} rate of ${categoryPercent}%` });
+    } else {
+      ratePercent = this.schedule.defaultPercent;
+      rules.push({ code: 'default_rate', description: `Standard rate of ${ratePercent}%` });
+    }
+
+    const tier = this.volumeTier(input.runnerJobCount);
+    if (tier && ratePercent > 0) {
+      ratePercent = ratePercent * (1 - tier.discountPercent / 100);
+      rules.push({
+        code: 'volume_tier',
+        description: `${tier.discountPercent}% off for runners with ${tier.minJobs}+ jobs in ${FEE_CONSTANTS.VOLUME_WINDOW_DAYS} days`,
+      });
+    }
+
+    let feeCents = this.percentOf(priceCents, ratePercent);
+    if (feeCents < this.schedule.minimumCents) {
+      feeCents = Math.min(this.schedule.minimumCents, priceCents);
+      rules.push({ code: 'minimum', description: `Minimum fee of ${this.schedule.minimumCents} cents` });
+    }
+
+    return this.result(priceCents, ratePercent, feeCents, rules);
+  }
+
+  private fediCommunityPercent(communityId: string | null | undefined): number | null {
+    if (!communityId) {
+      return null;
+    }
+    return (
+      this.schedule.fediCommunityPercent[communityId] ??
+      this.schedule.fediCommunityPercent[FEE_CONSTANTS.ANY_FEDI_COMMUNITY] ??
+      null
+    );
+  }
+
+  private volumeTier(jobCount: number | null | undefined): FeeVolumeTier | null {
+    if (jobCount === null || jobCount === undefined) {
+      return null;
+    }
+    // Highest tier the runner reached
+    return this.schedule.volumeTiers
+      .filter((tier) => jobCount >= tier.minJobs)
+      .reduce<FeeVolumeTier | null>((best, tier) => (!best || tier.minJobs > best.minJobs ? tier : best), null);
+  }
+
+  private percentOf(priceCents: number, percent: number): number {
+    return Math.floor(priceCents * (percent / 100));
+  }
+
+  private result(priceCents: number, ratePercent: number, feeCents: number, rules: FeeRule[]): FeeQuote {
+    return { priceCents, feeCents, netCents: priceCents - feeCents, ratePercent, rules };
+  }
+}
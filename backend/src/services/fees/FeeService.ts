@@ -0,0 +1,68 @@
+/**
+ * Fee Service
+ * Quotes the platform fee for a job, looking up what the fee policy needs
+ *
+ * The same quote is shown to the client before posting and paying, and is
+ * applied when the runner's payout is queued. A runner's volume tier is only
+ * known once the job is assigned, so earlier quotes may overstate the fee.
+ */
+
+import { FEE_CONSTANTS } from '../../config/constants.js';
+import { AuthorizationError } from '../../core/errors/AppError.js';
+import { JobRepository } from '../../database/repositories/JobRepository.js';
+import { RunnerEarningRepository } from '../../database/repositories/RunnerEarningRepository.js';
+import { FeePolicy, FeeQuote } from './FeePolicy.js';
+import { feePolicy } from './createFeePolicy.js';
+
+export interface JobFeeInput {
+  priceCents: number;
+  category?: string | null | undefined;
+  fediCommunityId?: string | null | undefined;
+  runnerId?: number | null | undefined;
+}
+
+export class FeeService {
+  constructor(
+    private readonly policy: FeePolicy = feePolicy,
+    private readonly earningRepository: RunnerEarningRepository = new RunnerEarningRepository(),
+    private readonly jobRepository: JobRepository = new JobRepository()
+  ) {}
+
+  /**
+   * Fee for a job, including the runner's volume tier when one is assigned
+   */
+  async quote(input: JobFeeInput, at: Date = new Date()): Promise<FeeQuote> {
+    let runnerJobCount: number | null = null;
+    if (input.runnerId) {
+      const since = new Date(at.getTime() - FEE_CONSTANTS.VOLUME_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      runnerJobCount = await this.earningRepository.countJobsSince(input.runnerId, since);
+    }
+
+    return this.policy.quote({
+      priceCents: input.priceCents,
+      category: input.category,
+      fediCommunityId: input.fediCommunityId,
+      runnerJobCount,
+      at,
+    });
+  }
+
+  /**
+   * Fee for an existing job, for its client or runner
+   */
+  async quoteForJob(jobId: number, userId: number): Promise<FeeQuote> {
+    const job = await this.jobRepository.findById(jobId);
+    if (job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('Only the job client or runner can view its fee', 'NOT_JOB_PARTICIPANT');
+    }
+
+    return this.quote({
+      priceCents: job.price_cents,
+      category: job.category,
+      fediCommunityId: job.fedi_community_id,
+      runnerId: job.runner_id,
+    });
+  }
+}
+
+export const feeService = new FeeService();
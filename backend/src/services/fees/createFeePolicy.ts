@@ -0,0 +1,122 @@
+/**
+ * Fee Policy Setup
+ * Builds the fee schedule from environment variables
+ *
+ * PLATFORM_FEE_PERCENT is the standard rate (default 0). PLATFORM_FEE_SCHEDULE
+ * is optional JSON refining it, for example:
+ *
+ *   {
+ *     "categoryPercent": { "moving": 12, "delivery": 8 },
+ *     "minimumCents": 50,
+ *     "volumeTiers": [{ "minJobs": 50, "discountPercent": 25 }],
+ *     "promotions": [{ "name": "Launch week", "startsAt": "2026-11-01", "endsAt": "2026-11-08" }],
+ *     "fediCommunityPercent": { "*": 0 }
+ *   }
+ */
+
+import { JOB_CONSTANTS } from '../../config/constants.js';
+import { FeePolicy, FeePromotion, FeeSchedule, FeeVolumeTier } from './FeePolicy.js';
+
+type Env = Record<string, string | undefined>;
+
+function percent(value: unknown, name: string): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || value > 100) {
+    throw new Error(`${name} must be a percentage between 0 and 100`);
+  }
+  return value;
+}
+
+function date(value: unknown, name: string): Date {
+  const parsed = typeof value === 'string' ? new Date(value) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) {
+    throw new Error(`${name} must be an ISO date`);
+  }
+  return parsed;
+}
+
+function percentMap(value: unknown, name: string): Record<string, number> {
+  if (value === undefined) {
+    return {};
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${name} must map names to percentages`);
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([key, rate]) => [key, percent(rate, `${name}.${key}`)])
+  );
+}
+
+function list(value: unknown, name: string): Record<string, unknown>[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some((item) => typeof item !== 'object' || item === null)) {
+    throw new Error(`${name} must be a list of objects`);
+  }
+  return value;
+}
+
+export function createFeeSchedule(env: Env = process.env): FeeSchedule {
+  let raw: Record<string, unknown> = {};
+  if (env['PLATFORM_FEE_SCHEDULE']) {
+    try {
+      raw = JSON.parse(env['PLATFORM_FEE_SCHEDULE']);
+    } catch {
+      throw new Error('PLATFORM_FEE_SCHEDULE must be valid JSON');
+    }
+    if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+      throw new Error('PLATFORM_FEE_SCHEDULE must be a JSON object');
+    }
+  }
+
+  const categoryPercent = percentMap(raw['categoryPercent'], 'categoryPercent');
+  for (const category of Object.keys(categoryPercent)) {
+    if (!(JOB_CONSTANTS.CATEGORIES as readonly string[]).includes(category)) {
+      throw new Error(`Unknown job category "${category}"; expected ${JOB_CONSTANTS.CATEGORIES.join(', ')}`);
+    }
+  }
+
+  const minimumCents = raw['minimumCents'] ?? 0;
+  if (typeof minimumCents !== 'number' || !Number.isInteger(minimumCents) || minimumCents < 0) {
+    throw new Error('minimumCents must be a whole number of cents');
+  }
+
+  const volumeTiers: FeeVolumeTier[] = list(raw['volumeTiers'], 'volumeTiers').map((tier, index) => {
+    if (typeof tier['minJobs'] !== 'number' || !Number.isInteger(tier['minJobs']) || tier['minJobs'] < 1) {
+      throw new Error(`volumeTiers[${index}].minJobs must be a positive whole number`);
+    }
+    return {
+      minJobs: tier['minJobs'],
+      discountPercent: percent(tier['discountPercent'], `volumeTiers[${index}].discountPercent`),
+    };
+  });
+
+  const promotions: FeePromotion[] = list(raw['promotions'], 'promotions').map((promotion, index) => {
+    const name = typeof promotion['name'] === 'string' && promotion['name'] ? promotion['name'] : `promotion ${index + 1}`;
+    const startsAt = date(promotion['startsAt'], `promotions[${index}].startsAt`);
+    const endsAt = date(promotion['endsAt'], `promotions[${index}].endsAt`);
+    if (endsAt <= startsAt) {
+      throw new Error(`promotions[${index}] must end after it starts`);
+    }
+    const categories = promotion['categories'];
+    if (categories !== undefined && (!Array.isArray(categories) || categories.some((c) => typeof c !== 'string'))) {
+      throw new Error(`promotions[${index}].categories must be a list of categories`);
+    }
+    return { name, startsAt, endsAt, ...(categories !== undefined && { categories: categories as string[] }) };
+  });
+
+  return {
+    defaultPercent: percent(
+      raw['defaultPercent'] ?? Number(env['PLATFORM_FEE_PERCENT'] || '0'),
+      'PLATFORM_FEE_PERCENT'
+    ),
+    categoryPercent,
+    minimumCents,
+    volumeTiers,
+    promotions,
+    fediCommunityPercent: percentMap(raw['fediCommunityPercent'], 'fediCommunityPercent'),
+  };
+}
+
+// Shared by fee previews and payouts, so both quote the same fee
+export const feePolicy = new FeePolicy(createFeeSchedule());
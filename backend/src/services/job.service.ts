@@ -5,6 +5,9 @@
 
 import { Pool } from 'pg';
 import { getPool } from '../db.js';
+import { assertTransition } from './job/JobStateMachine.js';
+import { realtimeService } from './realtime/RealtimeService.js';
+import type { JobActor } from '../types/index.js';
 
 export type JobStatus = 'open' | 'accepted' | 'in_progress' | 'completed' | 'paid' | 'cancelled';
 export type JobCategory = 'delivery' | 'shopping' | 'cleaning' | 'moving' | 'handyman' | 'other';
@@ -30,6 +33,8 @@ export interface UpdateJobStatusInput {
   runner_id?: string | number;
   agreed_price_usd?: number;
   agreed_price_sats?: number;
+  actor?: JobActor;
+  actor_id?: string | number;
 }
 
 export interface Job {
@@ -294,8 +299,8 @@ export class JobService {
       throw new Error('Job not found');
     }
 
-    // Validate state transition
-    this.validateStatusTransition(currentJob.status, input.new_status);
+    // Validate state transition against the job state machine
+    assertTransition(currentJob.status, input.new_status, input.actor);
 
     // Build update query
     const updates: string[] = ['status = $2'];
@@ -328,10 +333,13 @@ export class JobService {
       updates.push('paid_at = NOW()');
     }
 
+    // Only apply the change if no one else moved the job in the meantime
+    values.push(currentJob.status);
+
     const result = await this.pool.query(
       `UPDATE jobs 
        SET ${updates.join(', ')}, updated_at = NOW()
-       WHERE id = $1
+       WHERE id = $1 AND status = $${paramCount}
        RETURNING 
         id, client_id, runner_id, title, description, category,
         ST_Y(pickup_location::geometry) as pickup_lat,
@@ -346,28 +354,33 @@ export class JobService {
       values
     );
 
-    return this.formatJob(result.rows[0]);
-  }
+    if (result.rows.length === 0) {
+      throw new Error(`Job status changed from ${currentJob.status}, please retry`);
+    }
 
-  /**
-   * Validate job status state machine transitions
-   */
-  private validateStatusTransition(currentStatus: JobStatus, newStatus: JobStatus): void {
-    const validTransitions: Record<JobStatus, JobStatus[]> = {
-      open: ['accepted', 'cancelled'],
-      accepted: ['in_progress', 'cancelled'],
-      in_progress: ['completed', 'cancelled'],
-      completed: ['paid'],
-      paid: [],
-      cancelled: []
-    };
+    await this.pool.query(
+      `INSERT INTO job_status_history (job_id, from_status, to_status, actor, actor_id)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [input.job_id, currentJob.status, input.new_status, input.actor ?? 'system', input.actor_id ?? null]
+    );
 
-    const allowedTransitions = validTransitions[currentStatus];
-    if (!allowedTransitions.includes(newStatus)) {
-      throw new Error(
-        `Invalid status transition: ${currentStatus} -> ${newStatus}`
-      );
-    }
+    const updatedJob = this.formatJob(result.rows[0]);
+
+    realtimeService.publish(
+      [currentJob.client_id, currentJob.runner_id, updatedJob.runner_id].map((id) =>
+        id ? Number(id) : null
+      ),
+      'job.status_changed',
+      {
+        jobId: Number(input.job_id),
+        status: input.new_status,
+        previousStatus: currentJob.status,
+        actor: input.actor ?? 'system',
+        changedAt: new Date().toISOString(),
+      }
+    );
+
+    return updatedJob;
   }
 
   /**
@@ -3,12 +3,35 @@
  * Business logic for job management
  */
 
-import { JobRepository, CreateJobDto, UpdateJobDto, JobFilters } from '../../database/repositories/JobRepository.js';
+import { Job, JobRepository, CreateJobDto, UpdateJobDto, JobFilters } from '../../database/repositories/JobRepository.js';
 import { UserRepository } from '../../database/repositories/UserRepository.js';
-import { NotFoundError, ValidationError, ConflictError } from '../../core/errors/AppError.js';
+import { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+import {
+  JobStopRepository,
+  JobStop,
+  JobStopKind,
+  CreateJobStopDto,
+} from '../../database/repositories/JobStopRepository.js';
+import { EscrowService } from '../escrow/EscrowService.js';
+import { RunnerAvailabilityService } from '../runner/RunnerAvailabilityService.js';
+import { JobStateMachine, JobEffectHandlers } from './JobStateMachine.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import { NotFoundError, ValidationError, ConflictError, AuthorizationError } from '../../core/errors/AppError.js';
+import { FEE_CONSTANTS, JOB_CONSTANTS } from '../../config/constants.js';
+import { isValidCoordinate } from '../../utils/geo.js';
 import { JobStatus } from '../../types/index.js';
 import logger from '../../utils/logger.js';
 
+const STOP_KINDS: readonly JobStopKind[] = ['pickup', 'dropoff', 'stop'];
+
+export interface JobStopInput {
+  kind?: JobStopKind;
+  lat: number;
+  lng: number;
+  address: string;
+  instructions?: string;
+}
+
 export interface CreateJobRequest {
   clientId: number;
   title: string;
@@ -17,6 +40,9 @@ export interface CreateJobRequest {
   location?: { lat: number; lng: number };
   address?: string;
   deadline?: Date;
+  category?: string;
+  fediCommunityId?: string; // Set when posted from a Fedi community, for its fee rate
+  stops?: JobStopInput[]; // In visiting order; replaces location/address
 }
 
 export interface UpdateJobRequest {
@@ -27,6 +53,12 @@ export interface UpdateJobRequest {
   deadline?: Date;
 }
 
+export interface RunnerAgreement {
+  priceCents: number;
+  acceptedBy: 'client' | 'runner';
+  actorId: number;
+}
+
 export interface SearchJobsRequest {
   status?: JobStatus;
   clientId?: number;
@@ -40,11 +72,32 @@ export interface SearchJobsRequest {
   offset?: number;
 }
 
+export interface DeadlineSweep {
+  released: number; // Accepted but never started, back in the open pool
+  expired: number; // Open past the deadline, cancelled
+  overdue: number; // In progress past the deadline, both parties warned
+}
+
 export class JobService {
+  private readonly stateMachine: JobStateMachine;
+  private readonly startWindowHours: number;
+
   constructor(
     private readonly jobRepository: JobRepository,
-    private readonly userRepository: UserRepository
-  ) {}
+    private readonly userRepository: UserRepository,
+    private readonly historyRepository: JobStatusHistoryRepository,
+    private readonly jobStopRepository: JobStopRepository,
+    private readonly escrowService?: EscrowService,
+    private readonly availabilityService?: RunnerAvailabilityService
+  ) {
+    this.stateMachine = new JobStateMachine(jobRepository, {
+      ...this.stopEffects(),
+      ...this.escrowEffects(),
+    });
+    this.startWindowHours = Number(
+      process.env['JOB_START_WINDOW_HOURS'] || JOB_CONSTANTS.DEADLINE.START_WINDOW_HOURS
+    );
+  }
 
   /**
    * Create a new job
@@ -58,6 +111,52 @@ export class JobService {
       throw new NotFoundError('Client not found', 'CLIENT_NOT_FOUND');
     }
 
+    const stops = this.validateJobRequest(data);
+    const firstStop = stops[0];
+
+    const createDto: CreateJobDto = {
+      clientId: data.clientId,
+      title: data.title.trim(),
+      description: data.description.trim(),
+      priceCents: data.priceCents,
+      // The job's own location mirrors the first stop
+      location: firstStop ? { lat: firstStop.lat, lng: firstStop.lng } : undefined,
+      address: firstStop ? firstStop.address : data.address,
+      deadline: data.deadline,
+      category: data.category,
+      fediCommunityId: data.fediCommunityId,
+      stops,
+    };
+
+    const job = await this.jobRepository.create(createDto);
+    const createdStops = await this.jobStopRepository.findByJobId(job.id);
+
+    logger.info('Job created successfully', {
+      jobId: job.id,
+      clientId: data.clientId,
+      stops: createdStops.length,
+    });
+
+    return {
+      id: job.id,
+      clientId: job.client_id,
+      title: job.title,
+      description: job.description,
+      priceCents: job.price_cents,
+      category: job.category,
+      address: job.address,
+      status: job.status,
+      deadline: job.deadline,
+      createdAt: job.created_at,
+      stops: createdStops.map((stop) => this.toStopView(stop)),
+    };
+  }
+
+  /**
+   * Check the details of a new job and normalize its stops
+   * Also used for recurring errand templates before any job is posted
+   */
+  validateJobRequest(data: Omit<CreateJobRequest, 'clientId'>): CreateJobStopDto[] {
     // Validate price
     if (!data.priceCents || data.priceCents <= 0) {
       throw new ValidationError('Price must be greater than 0', 'INVALID_PRICE');
@@ -86,31 +185,18 @@ export class JobService {
       throw new ValidationError('Deadline must be in the future', 'INVALID_DEADLINE');
     }
 
-    const createDto: CreateJobDto = {
-      clientId: data.clientId,
-      title: data.title.trim(),
-      description: data.description.trim(),
-      priceCents: data.priceCents,
-      location: data.location,
-      address: data.address,
-      deadline: data.deadline,
-    };
-
-    const job = await this.jobRepository.create(createDto);
+    if (data.category && !(JOB_CONSTANTS.CATEGORIES as readonly string[]).includes(data.category)) {
+      throw new ValidationError(
+        `Category must be one of ${JOB_CONSTANTS.CATEGORIES.join(', ')}`,
+        'INVALID_CATEGORY'
+      );
+    }
 
-    logger.info('Job created successfully', { jobId: job.id, clientId: data.clientId });
+    if (data.fediCommunityId && data.fediCommunityId.length > FEE_CONSTANTS.FEDI_COMMUNITY_MAX_LENGTH) {
+      throw new ValidationError('Fedi community ID is too long', 'INVALID_FEDI_COMMUNITY');
+    }
 
-    return {
-      id: job.id,
-      clientId: job.client_id,
-      title: job.title,
-      description: job.description,
-      priceCents: job.price_cents,
-      address: job.address,
-      status: job.status,
-      deadline: job.deadline,
-      createdAt: job.created_at,
-    };
+    return this.normalizeStops(data);
   }
 
   /**
@@ -120,6 +206,7 @@ export class JobService {
     logger.debug('Fetching job', { jobId });
 
     const job = await this.jobRepository.findById(jobId);
+    const stops = await this.jobStopRepository.findByJobId(jobId);
 
     return {
       id: job.id,
@@ -128,6 +215,9 @@ export class JobService {
       title: job.title,
       description: job.description,
       priceCents: job.price_cents,
+      category: job.category,
+      address: job.address,
+      stops: stops.map((stop) => this.toStopView(stop)),
       status: job.status,
       deadline: job.deadline,
       createdAt: job.created_at,
@@ -208,10 +298,10 @@ export class JobService {
   }
 
   /**
-   * Assign runner to job
+   * Assign runner to job at the price agreed through an accepted offer
    */
-  async assignRunner(jobId: number, runnerId: number): Promise<any> {
-    logger.info('Assigning runner to job', { jobId, runnerId });
+  async assignRunner(jobId: number, runnerId: number, agreement: RunnerAgreement): Promise<any> {
+    logger.info('Assigning runner to job', { jobId, runnerId, priceCents: agreement.priceCents });
 
     // Verify runner exists before attempting assignment
     const runner = await this.userRepository.findById(runnerId);
@@ -219,12 +309,40 @@ export class JobService {
       throw new NotFoundError('Runner not found', 'RUNNER_NOT_FOUND');
     }
 
-    // Atomic assignment - repository will throw if job is not available
+    const job = await this.jobRepository.findById(jobId);
+    if (job.status !== 'open') {
+      throw new NotFoundError(`Job with ID ${jobId} not found or not available`, 'JOB_NOT_AVAILABLE');
+    }
+
+    // Off, on time off, outside working hours or at capacity
+    await this.availabilityService?.assertAvailable(runnerId, agreement.acceptedBy);
+
+    // Atomic assignment - only succeeds while the job is still open
     // This prevents race conditions where multiple runners try to accept the same job
-    const updatedJob = await this.jobRepository.assignRunner(jobId, runnerId);
+    const updatedJob = await this.stateMachine.transition(jobId, 'accepted', {
+      actor: agreement.acceptedBy,
+      actorId: agreement.actorId,
+      runnerId,
+      priceCents: agreement.priceCents,
+    });
 
     logger.info('Runner assigned successfully', { jobId, runnerId });
 
+    if (this.escrowService) {
+      // Client funds the job up front; without an escrow invoice the assignment is undone
+      try {
+        const escrow = await this.escrowService.openEscrow(updatedJob);
+        return { ...updatedJob, escrow };
+      } catch (error) {
+        await this.stateMachine.transition(jobId, 'open', {
+          actor: 'system',
+          actorId: null,
+          reason: 'Escrow invoice could not be created',
+        });
+        throw error;
+      }
+    }
+
     // Return complete job object for frontend
     return updatedJob;
   }
@@ -242,12 +360,10 @@ export class JobService {
       throw new ConflictError('You are not assigned to this job', 'NOT_ASSIGNED_RUNNER');
     }
 
-    // Verify job is accepted
-    if (job.status !== 'accepted') {
-      throw new ConflictError('Job must be in accepted status to start', 'INVALID_JOB_STATUS');
-    }
-
-    const updatedJob = await this.jobRepository.updateStatus(jobId, 'in_progress');
+    const updatedJob = await this.stateMachine.transition(jobId, 'in_progress', {
+      actor: 'runner',
+      actorId: runnerId,
+    });
 
     logger.info('Job started successfully', { jobId });
 
@@ -268,13 +384,11 @@ export class JobService {
       throw new ConflictError('You are not assigned to this job', 'NOT_ASSIGNED_RUNNER');
     }
 
-    // Verify job is in progress
-    if (job.status !== 'in_progress') {
-      throw new ConflictError('Job must be in progress to complete', 'INVALID_JOB_STATUS');
-    }
-
     // When runner completes job, it moves to awaiting_payment status
-    const updatedJob = await this.jobRepository.updateStatus(jobId, 'awaiting_payment');
+    const updatedJob = await this.stateMachine.transition(jobId, 'awaiting_payment', {
+      actor: 'runner',
+      actorId: runnerId,
+    });
 
     logger.info('Job completed successfully', { jobId });
 
@@ -282,6 +396,36 @@ export class JobService {
     return updatedJob;
   }
 
+  /**
+   * Check off a stop on the way (assigned runner, job in progress)
+   */
+  async completeStop(jobId: number, stopId: number, runnerId: number): Promise<any> {
+    logger.info('Completing job stop', { jobId, stopId, runnerId });
+
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.runner_id !== runnerId) {
+      throw new ConflictError('You are not assigned to this job', 'NOT_ASSIGNED_RUNNER');
+    }
+
+    if (job.status !== 'in_progress') {
+      throw new ConflictError('Stops can only be checked off while the job is in progress', 'JOB_NOT_IN_PROGRESS');
+    }
+
+    const stop = await this.jobStopRepository.complete(jobId, stopId, runnerId);
+
+    realtimeService.publish([job.client_id, job.runner_id], 'job.stop_completed', {
+      jobId,
+      stopId: stop.id,
+      position: stop.position,
+      completedAt: (stop.completed_at ?? new Date()).toISOString(),
+    });
+
+    logger.info('Job stop completed', { jobId, stopId, position: stop.position });
+
+    return this.toStopView(stop);
+  }
+
   /**
    * Cancel job
    */
@@ -295,12 +439,10 @@ export class JobService {
       throw new ConflictError('You can only cancel your own jobs', 'NOT_JOB_OWNER');
     }
 
-    // Can only cancel open or accepted jobs
-    if (job.status !== 'open' && job.status !== 'accepted') {
-      throw new ConflictError('Cannot cancel job in current status', 'INVALID_JOB_STATUS');
-    }
-
-    const updatedJob = await this.jobRepository.updateStatus(jobId, 'cancelled');
+    const updatedJob = await this.stateMachine.transition(jobId, 'cancelled', {
+      actor: 'client',
+      actorId: clientId,
+    });
 
     logger.info('Job cancelled successfully', { jobId });
 
@@ -310,6 +452,31 @@ export class JobService {
     };
   }
 
+  /**
+   * Get the status history of a job (client, assigned runner or admin only)
+   */
+  async getJobHistory(jobId: number, userId: number, isAdmin: boolean = false): Promise<any> {
+    logger.debug('Fetching job status history', { jobId, userId });
+
+    const job = await this.jobRepository.findById(jobId);
+
+    if (!isAdmin && job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+    }
+
+    const history = await this.historyRepository.findByJobId(jobId);
+
+    return history.map(entry => ({
+      id: entry.id,
+      fromStatus: entry.from_status,
+      toStatus: entry.to_status,
+      actor: entry.actor,
+      actorId: entry.actor_id,
+      reason: entry.reason,
+      createdAt: entry.created_at,
+    }));
+  }
+
   /**
    * Search jobs
    */
@@ -342,6 +509,8 @@ export class JobService {
       jobs = await this.jobRepository.list(filters);
     }
 
+    const stopsByJob = await this.jobStopRepository.findByJobIds(jobs.map(job => job.id));
+
     return jobs.map(job => ({
       id: job.id,
       clientId: job.client_id,
@@ -349,6 +518,8 @@ export class JobService {
       title: job.title,
       description: job.description,
       priceCents: job.price_cents,
+      address: job.address,
+      stops: (stopsByJob.get(job.id) ?? []).map(stop => this.toStopView(stop)),
       status: job.status,
       deadline: job.deadline,
       createdAt: job.created_at,
@@ -421,4 +592,204 @@ export class JobService {
 
     logger.info('Job deleted successfully', { jobId });
   }
+
+  /**
+   * One pass of the deadline sweeper
+   * Status changes go through the state machine as the system, so the usual
+   * transition rules and side effects (such as refunding the escrow) apply.
+   */
+  async sweepDeadlines(): Promise<DeadlineSweep> {
+    const sweep: DeadlineSweep = { released: 0, expired: 0, overdue: 0 };
+    const batchSize = JOB_CONSTANTS.DEADLINE.SWEEP_BATCH_SIZE;
+
+    // Released jobs already past their deadline are expired below
+    const acceptedBefore = new Date(Date.now() - this.startWindowHours * 60 * 60 * 1000);
+    for (const job of await this.jobRepository.findUnstarted(acceptedBefore, batchSize)) {
+      const reason = `Runner did not start within ${this.startWindowHours} hours`;
+      if (await this.sweepTransition(job, 'open', reason)) sweep.released++;
+    }
+
+    for (const job of await this.jobRepository.findExpiredOpen(batchSize)) {
+      if (await this.sweepTransition(job, 'cancelled', 'Deadline passed before a runner was assigned')) {
+        sweep.expired++;
+      }
+    }
+
+    for (const job of await this.jobRepository.claimOverdue(batchSize)) {
+      realtimeService.publish([job.client_id, job.runner_id], 'job.overdue', {
+        jobId: job.id,
+        title: job.title,
+        deadline: new Date(job.deadline!).toISOString(),
+      });
+      sweep.overdue++;
+    }
+
+    if (sweep.released > 0 || sweep.expired > 0 || sweep.overdue > 0) {
+      logger.info('Job deadline sweep', sweep);
+    }
+
+    return sweep;
+  }
+
+  /**
+   * Start periodic deadline sweep
+   */
+  startDeadlineJob(): void {
+    logger.info('Starting job deadline sweeper', {
+      startWindowHours: this.startWindowHours,
+    });
+
+    setInterval(() => {
+      this.sweepDeadlines().catch((err) => {
+        logger.error('Job deadline sweep failed:', err);
+      });
+    }, JOB_CONSTANTS.DEADLINE.SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Move a job for the deadline sweeper
+   * A job that changed meanwhile or whose side effects fail is left for the
+   * next sweep rather than stopping this one.
+   */
+  private async sweepTransition(job: Job, to: JobStatus, reason: string): Promise<boolean> {
+    try {
+      await this.stateMachine.transition(job.id, to, { actor: 'system', actorId: null, reason });
+      return true;
+    } catch (error) {
+      logger.error('Deadline sweep could not move job', {
+        jobId: job.id,
+        from: job.status,
+        to,
+        error: (error as Error).message,
+      });
+      return false;
+    }
+  }
+
+  /**
+   * Turn the requested stops (or the legacy single location) into stops to store
+   */
+  private normalizeStops(data: Omit<CreateJobRequest, 'clientId'>): CreateJobStopDto[] {
+    if (!data.stops || data.stops.length === 0) {
+      if (!data.location) {
+        return [];
+      }
+      this.validateCoordinates(data.location.lat, data.location.lng);
+      return [
+        {
+          kind: 'pickup',
+          lat: data.location.lat,
+          lng: data.location.lng,
+          address: data.address?.trim() ?? '',
+        },
+      ];
+    }
+
+    if (data.stops.length > JOB_CONSTANTS.STOPS.MAX_COUNT) {
+      throw new ValidationError(
+        `A job can have at most ${JOB_CONSTANTS.STOPS.MAX_COUNT} stops`,
+        'TOO_MANY_STOPS'
+      );
+    }
+
+    const lastIndex = data.stops.length - 1;
+
+    return data.stops.map((stop, index) => {
+      this.validateCoordinates(stop.lat, stop.lng);
+
+      const address = stop.address?.trim() ?? '';
+      if (!address) {
+        throw new ValidationError(`Stop ${index + 1} needs an address`, 'STOP_ADDRESS_REQUIRED');
+      }
+      if (address.length > JOB_CONSTANTS.STOPS.ADDRESS_MAX_LENGTH) {
+        throw new ValidationError(
+          `Stop address must be less than ${JOB_CONSTANTS.STOPS.ADDRESS_MAX_LENGTH} characters`,
+          'STOP_ADDRESS_TOO_LONG'
+        );
+      }
+
+      const instructions = stop.instructions?.trim() || null;
+      if (instructions && instructions.length > JOB_CONSTANTS.STOPS.INSTRUCTIONS_MAX_LENGTH) {
+        throw new ValidationError(
+          `Stop instructions must be less than ${JOB_CONSTANTS.STOPS.INSTRUCTIONS_MAX_LENGTH} characters`,
+          'STOP_INSTRUCTIONS_TOO_LONG'
+        );
+      }
+
+      if (stop.kind !== undefined && !STOP_KINDS.includes(stop.kind)) {
+        throw new ValidationError(`Invalid stop kind: ${stop.kind}`, 'INVALID_STOP_KIND');
+      }
+
+      // Without an explicit kind the route runs from a pickup to a dropoff
+      const defaultKind: JobStopKind =
+        index === 0 ? 'pickup' : index === lastIndex ? 'dropoff' : 'stop';
+
+      return {
+        kind: stop.kind ?? defaultKind,
+        lat: Number(stop.lat),
+        lng: Number(stop.lng),
+        address,
+        instructions,
+      };
+    });
+  }
+
+  private validateCoordinates(lat: number, lng: number): void {
+    if (!isValidCoordinate(Number(lat), Number(lng))) {
+      throw new ValidationError('Invalid stop coordinates', 'INVALID_STOP_LOCATION');
+    }
+  }
+
+  private toStopView(stop: JobStop) {
+    return {
+      id: stop.id,
+      position: stop.position,
+      kind: stop.kind,
+      location: { lat: stop.lat, lng: stop.lng },
+      address: stop.address,
+      instructions: stop.instructions,
+      completedAt: stop.completed_at,
+    };
+  }
+
+  /**
+   * Stop side effects run by the job state machine
+   */
+  private stopEffects(): JobEffectHandlers {
+    return {
+      // Runner can only finish once every stop is checked off
+      require_stops_completed: async (job) => {
+        const pending = await this.jobStopRepository.countPending(job.id);
+        if (pending > 0) {
+          throw new ConflictError(
+            `${pending} stop${pending === 1 ? ' is' : 's are'} not completed yet`,
+            'STOPS_INCOMPLETE'
+          );
+        }
+      },
+    };
+  }
+
+  /**
+   * Escrow side effects run by the job state machine
+   */
+  private escrowEffects(): JobEffectHandlers {
+    const escrowService = this.escrowService;
+    if (!escrowService) {
+      return {};
+    }
+
+    return {
+      // Runner only starts once the client's payment is locked in escrow
+      require_funded_escrow: async (job) => {
+        if (!(await escrowService.isFunded(job.id))) {
+          throw new ConflictError('Job must be funded by the client before it can start', 'ESCROW_NOT_FUNDED');
+        }
+      },
+      // Refund the client before the job leaves the runner
+      cancel_escrow: (job) => escrowService.cancelEscrow(job.id),
+      // Escrow is released automatically if the client never confirms delivery
+      schedule_release: (job) => escrowService.scheduleRelease(job.id),
+    };
+  }
 }
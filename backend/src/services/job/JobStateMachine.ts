@@ -0,0 +1,266 @@
+/**
+ * Job State Machine
+ * Single source of truth for job status transitions
+ *
+ * Lists every status allowed by the jobs_status_check constraint, the statuses
+ * each one may move to, which actors may trigger the move and the side effects
+ * that run with it. Status changes go through JobStateMachine.transition so
+ * they are validated, applied atomically and recorded in job_status_history.
+ */
+
+import { Job, JobRepository, JobStatusChange } from '../../database/repositories/JobRepository.js';
+import { AuthorizationError, ConflictError, ServiceUnavailableError } from '../../core/errors/AppError.js';
+import { JobActor, JobStatus } from '../../types/index.js';
+import { payoutService } from '../PayoutService.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import logger from '../../utils/logger.js';
+
+export type JobSideEffect =
+  | 'require_funded_escrow' // Client payment must be locked in escrow
+  | 'cancel_escrow' // Cancel the hold invoice and refund the client
+  | 'settle_escrow' // Settle the hold invoice without releasing through the client
+  | 'schedule_release' // Start the escrow auto-release countdown
+  | 'require_stops_completed' // Every stop must be checked off
+  | 'trigger_payout'; // Pay the runner
+
+export interface JobTransition {
+  from: JobStatus;
+  to: JobStatus;
+  actors: readonly JobActor[];
+  /** Run before the status changes; a failure or missing handler aborts the transition */
+  before?: readonly JobSideEffect[];
+  /** Run once the status change is committed */
+  after?: readonly JobSideEffect[];
+}
+
+export type JobEffectHandler = (job: Job) => Promise<void>;
+
+export type JobEffectHandlers = Partial<Record<JobSideEffect, JobEffectHandler>>;
+
+export const JOB_STATUSES: readonly JobStatus[] = [
+  'open',
+  'accepted',
+  'in_progress',
+  'completed',
+  'awaiting_payment',
+  'payment_pending_verification',
+  'payment_confirmed',
+  'paid',
+  'disputed',
+  'cancelled',
+];
+
+export const JOB_TRANSITIONS: readonly JobTransition[] = [
+  // Posted, collecting offers; either side accepting the other's offer assigns the runner
+  { from: 'open', to: 'accepted', actors: ['client', 'runner'] },
+  { from: 'open', to: 'cancelled', actors: ['client', 'admin', 'system'] },
+
+  // Runner assigned, waiting for the client to fund the escrow
+  { from: 'accepted', to: 'open', actors: ['admin', 'system'], before: ['cancel_escrow'] },
+  { from: 'accepted', to: 'in_progress', actors: ['runner'], before: ['require_funded_escrow'] },
+  {
+    from: 'accepted',
+    to: 'cancelled',
+    actors: ['client', 'runner', 'admin', 'system'],
+    before: ['cancel_escrow'],
+  },
+
+  // Runner working on the job
+  {
+    from: 'in_progress',
+    to: 'awaiting_payment',
+    actors: ['runner'],
+    before: ['require_stops_completed'],
+    after: ['schedule_release'],
+  },
+  // Legacy flow without escrow
+  { from: 'in_progress', to: 'completed', actors: ['runner'], before: ['require_stops_completed'] },
+  { from: 'in_progress', to: 'disputed', actors: ['client', 'runner'] },
+  // The system cancels a job whose escrow hold window ran out
+  {
+    from: 'in_progress',
+    to: 'cancelled',
+    actors: ['runner', 'admin', 'system'],
+    before: ['cancel_escrow'],
+  },
+
+  // Legacy: completed jobs are paid outside escrow
+  { from: 'completed', to: 'awaiting_payment', actors: ['system'] },
+  { from: 'completed', to: 'payment_pending_verification', actors: ['client'] },
+  {
+    from: 'completed',
+    to: 'payment_confirmed',
+    actors: ['client', 'system'],
+    after: ['trigger_payout'],
+  },
+  { from: 'completed', to: 'paid', actors: ['client', 'system'] },
+  { from: 'completed', to: 'disputed', actors: ['client', 'runner'] },
+
+  // Runner done, waiting for the client to confirm delivery or pay
+  { from: 'awaiting_payment', to: 'payment_pending_verification', actors: ['client'] },
+  {
+    from: 'awaiting_payment',
+    to: 'payment_confirmed',
+    actors: ['client', 'system'],
+    after: ['trigger_payout'],
+  },
+  { from: 'awaiting_payment', to: 'paid', actors: ['system'] },
+  { from: 'awaiting_payment', to: 'disputed', actors: ['client', 'runner'] },
+
+  // Payment proof submitted, waiting for the runner to confirm receipt
+  {
+    from: 'payment_pending_verification',
+    to: 'payment_confirmed',
+    actors: ['runner', 'admin', 'system'],
+    after: ['trigger_payout'],
+  },
+  { from: 'payment_pending_verification', to: 'disputed', actors: ['client', 'runner', 'admin'] },
+
+  // Payment settled, runner payout in flight
+  { from: 'payment_confirmed', to: 'paid', actors: ['system'] },
+
+  // Resolved by an admin: release to the runner or refund the client
+  {
+    from: 'disputed',
+    to: 'payment_confirmed',
+    actors: ['admin'],
+    before: ['settle_escrow'],
+    after: ['trigger_payout'],
+  },
+  { from: 'disputed', to: 'cancelled', actors: ['admin'], before: ['cancel_escrow'] },
+];
+
+/**
+ * Find the transition rule between two statuses
+ */
+export function findTransition(from: JobStatus, to: JobStatus): JobTransition | undefined {
+  return JOB_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
+
+/**
+ * Statuses a job may move to next, optionally limited to one actor
+ */
+export function getAllowedTransitions(from: JobStatus, actor?: JobActor): JobStatus[] {
+  return JOB_TRANSITIONS.filter(
+    (t) => t.from === from && (actor === undefined || t.actors.includes(actor))
+  ).map((t) => t.to);
+}
+
+/**
+ * Terminal statuses have no outgoing transitions
+ */
+export function isTerminalStatus(status: JobStatus): boolean {
+  return getAllowedTransitions(status).length === 0;
+}
+
+/**
+ * Validate a transition and return its rule
+ * The actor check is skipped when no actor is given
+ */
+export function assertTransition(from: JobStatus, to: JobStatus, actor?: JobActor): JobTransition {
+  const transition = findTransition(from, to);
+
+  if (!transition) {
+    throw new ConflictError(`Invalid status transition: ${from} -> ${to}`, 'INVALID_STATUS_TRANSITION');
+  }
+
+  if (actor !== undefined && !transition.actors.includes(actor)) {
+    throw new AuthorizationError(
+      `A ${actor} cannot move a job from ${from} to ${to}`,
+      'TRANSITION_NOT_ALLOWED'
+    );
+  }
+
+  return transition;
+}
+
+export class JobStateMachine {
+  private readonly handlers: JobEffectHandlers;
+
+  constructor(
+    private readonly jobRepository: JobRepository,
+    handlers: JobEffectHandlers = {}
+  ) {
+    this.handlers = { trigger_payout: (job) => triggerPayout(job.id), ...handlers };
+  }
+
+  /**
+   * Move a job to a new status
+   * Validates the transition, runs its side effects and records the change
+   */
+  async transition(jobId: number, to: JobStatus, change: JobStatusChange): Promise<Job> {
+    const job = await this.jobRepository.findById(jobId);
+    const transition = assertTransition(job.status, to, change.actor);
+
+    await this.runEffects(job, transition.before, true);
+
+    const updatedJob = await this.jobRepository.transitionStatus(jobId, job.status, to, change);
+
+    logger.info('Job status changed', {
+      jobId,
+      from: job.status,
+      to,
+      actor: change.actor,
+      actorId: change.actorId,
+    });
+
+    // Notify both parties, including a runner who was just unassigned
+    realtimeService.publish(
+      [job.client_id, job.runner_id, updatedJob.runner_id],
+      'job.status_changed',
+      {
+        jobId,
+        status: to,
+        previousStatus: job.status,
+        actor: change.actor,
+        changedAt: new Date().toISOString(),
+      }
+    );
+
+    await this.runEffects(updatedJob, transition.after);
+
+    return updatedJob;
+  }
+
+  /**
+   * Run side effects in order
+   * @param required - Guards must have a handler, or a job could skip them
+   */
+  private async runEffects(
+    job: Job,
+    effects: readonly JobSideEffect[] = [],
+    required: boolean = false
+  ): Promise<void> {
+    for (const effect of effects) {
+      const handler = this.handlers[effect];
+
+      if (!handler) {
+        if (required) {
+          logger.error('No handler registered for job guard', { jobId: job.id, effect });
+          throw new ServiceUnavailableError(
+            'This status change is not available right now',
+            'JOB_EFFECT_UNAVAILABLE'
+          );
+        }
+
+        logger.debug('No handler registered for job side effect', { jobId: job.id, effect });
+        continue;
+      }
+
+      await handler(job);
+    }
+  }
+}
+
+/**
+ * Queue the runner payout; the payout worker sends it
+ * A queueing failure is logged rather than blocking the status change.
+ * @param amountCents - Amount to pay out; defaults to the job price
+ */
+export async function triggerPayout(jobId: number, amountCents?: number): Promise<void> {
+  try {
+    await payoutService.enqueueJobPayout(jobId, amountCents);
+  } catch (error: any) {
+    logger.error('Failed to queue runner payout', { jobId, error: error.message });
+  }
+}
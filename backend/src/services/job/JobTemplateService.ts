@@ -0,0 +1,638 @@
+/**
+ * Job Template Service
+ * Recurring and scheduled errands
+ *
+ * Flow:
+ * 1. A client saves a job as a template with a recurrence rule and a time zone
+ * 2. The scheduler writes the template's occurrences a few weeks ahead; the
+ *    client can skip one, or move it and change its title, notes or price
+ * 3. Once an occurrence is within the template's lead time it is posted as a
+ *    normal open job, due at the occurrence time
+ * 4. If the client prefers it, the job is first offered to the runner who did
+ *    the previous one; other runners can bid once that runner turns it down
+ *    or the reservation lapses
+ */
+
+import {
+  CreateJobTemplateDto,
+  JobTemplate,
+  JobTemplateOccurrence,
+  JobTemplateRepository,
+  UpdateJobTemplateDto,
+  UpdateOccurrenceDto,
+} from '../../database/repositories/JobTemplateRepository.js';
+import { JobRepository } from '../../database/repositories/JobRepository.js';
+import { UserRepository } from '../../database/repositories/UserRepository.js';
+import { JobStatusHistoryRepository } from '../../database/repositories/JobStatusHistoryRepository.js';
+import { CreateJobStopDto, JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import { EscrowRepository } from '../../database/repositories/EscrowRepository.js';
+import { OfferRepository } from '../../database/repositories/OfferRepository.js';
+import { CreateJobRequest, JobService, JobStopInput } from './JobService.js';
+import { EscrowService } from '../escrow/EscrowService.js';
+import { runnerAvailabilityService } from '../runner/RunnerAvailabilityService.js';
+import { OfferService } from '../offer/OfferService.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../../core/errors/AppError.js';
+import { JOB_TEMPLATE_CONSTANTS } from '../../config/constants.js';
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  isValidTimeZone,
+  parseRecurrenceRule,
+  RecurrenceRule,
+} from '../../utils/recurrence.js';
+import logger from '../../utils/logger.js';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface JobTemplateInput {
+  title: string;
+  description: string;
+  priceCents: number;
+  category?: string | undefined;
+  fediCommunityId?: string | undefined;
+  location?: { lat: number; lng: number } | undefined;
+  address?: string | undefined;
+  stops?: JobStopInput[] | undefined;
+  rrule: string;
+  timezone?: string | undefined;
+  startsAt: Date;
+  leadHours?: number | undefined;
+  preferPreviousRunner?: boolean | undefined;
+}
+
+// Fields left undefined keep their current value
+export type JobTemplateChanges = { [K in keyof JobTemplateInput]?: JobTemplateInput[K] | undefined };
+
+export interface OccurrenceChanges {
+  scheduledFor?: Date | undefined;
+  title?: string | null | undefined; // null goes back to the template's
+  description?: string | null | undefined;
+  priceCents?: number | null | undefined;
+}
+
+export interface OccurrenceView {
+  id: number;
+  templateId: number;
+  originalAt: Date;
+  scheduledFor: Date;
+  status: JobTemplateOccurrence['status'];
+  jobId: number | null;
+  title: string;
+  description: string;
+  priceCents: number;
+  edited: boolean;
+  reservedRunnerId: number | null;
+  reservedUntil: Date | null;
+  errorMessage: string | null;
+}
+
+export interface JobTemplateView {
+  id: number;
+  title: string;
+  description: string;
+  priceCents: number;
+  category: string | null;
+  address: string | null;
+  stops: CreateJobStopDto[];
+  rrule: string;
+  timezone: string;
+  startsAt: Date;
+  leadHours: number;
+  preferPreviousRunner: boolean;
+  status: JobTemplate['status'];
+  createdAt: Date;
+  occurrences: OccurrenceView[];
+}
+
+export interface SchedulerRun {
+  posted: number;
+  failed: number;
+  missed: number;
+}
+
+export class JobTemplateService {
+  constructor(
+    private readonly templateRepository: JobTemplateRepository = new JobTemplateRepository(),
+    private readonly jobRepository: JobRepository = new JobRepository(),
+    private readonly jobService: JobService = new JobService(
+      jobRepository,
+      new UserRepository(),
+      new JobStatusHistoryRepository(),
+      new JobStopRepository(),
+      new EscrowService(new EscrowRepository(), jobRepository),
+      runnerAvailabilityService
+    ),
+    private readonly offerService: OfferService = new OfferService(new OfferRepository(), jobRepository, jobService)
+  ) {}
+
+  /**
+   * Save a recurring errand and write its first occurrences
+   */
+  async createTemplate(clientId: number, input: JobTemplateInput): Promise<JobTemplateView> {
+    const open = await this.templateRepository.countOpenForClient(clientId);
+    if (open >= JOB_TEMPLATE_CONSTANTS.MAX_ACTIVE_PER_CLIENT) {
+      throw new ConflictError(
+        `You can have at most ${JOB_TEMPLATE_CONSTANTS.MAX_ACTIVE_PER_CLIENT} recurring errands`,
+        'TOO_MANY_TEMPLATES'
+      );
+    }
+
+    const fields = this.validateTemplate(input);
+    const template = await this.templateRepository.create({ clientId, ...fields });
+
+    logger.info('Recurring errand created', { templateId: template.id, clientId, rrule: template.rrule });
+
+    await this.materialize(template);
+    return this.toView(template);
+  }
+
+  /**
+   * List a client's recurring errands with their recent and upcoming occurrences
+   */
+  async getTemplates(clientId: number): Promise<JobTemplateView[]> {
+    const templates = await this.templateRepository.findByClientId(clientId);
+    return Promise.all(templates.map((template) => this.toView(template)));
+  }
+
+  /**
+   * Get one of the client's recurring errands
+   */
+  async getTemplate(templateId: number, clientId: number): Promise<JobTemplateView> {
+    const template = await this.requireOwnTemplate(templateId, clientId);
+    return this.toView(template);
+  }
+
+  /**
+   * Change a recurring errand
+   * Job details apply to occurrences not yet posted; a new schedule replaces
+   * the occurrences not yet posted, dropping their edits
+   */
+  async updateTemplate(
+    templateId: number,
+    clientId: number,
+    changes: JobTemplateChanges
+  ): Promise<JobTemplateView> {
+    const template = await this.requireOwnTemplate(templateId, clientId);
+    if (template.status === 'ended') {
+      throw new ConflictError('This recurring errand has ended', 'TEMPLATE_ENDED');
+    }
+
+    const fields = this.validateTemplate({ ...this.toInput(template), ...this.definedOnly(changes) });
+    const update: UpdateJobTemplateDto = fields;
+
+    const scheduleChanged =
+      fields.rrule !== template.rrule ||
+      fields.timezone !== template.timezone ||
+      fields.startsAt.getTime() !== new Date(template.starts_at).getTime();
+
+    let updated = await this.templateRepository.update(templateId, update);
+
+    if (scheduleChanged) {
+      await this.templateRepository.deleteScheduled(templateId);
+      updated = { ...updated, generated_until: null };
+      if (updated.status === 'active') {
+        await this.materialize(updated);
+      }
+    }
+
+    logger.info('Recurring errand updated', { templateId, scheduleChanged });
+    return this.toView(updated);
+  }
+
+  /**
+   * Stop posting jobs until resumed; occurrences that come due meanwhile are missed
+   */
+  async pauseTemplate(templateId: number, clientId: number): Promise<JobTemplateView> {
+    const template = await this.requireOwnTemplate(templateId, clientId);
+    if (template.status !== 'active') {
+      throw new ConflictError('Only an active recurring errand can be paused', 'INVALID_TEMPLATE_STATUS');
+    }
+
+    const paused = await this.templateRepository.setStatus(templateId, 'paused');
+    return this.toView(paused);
+  }
+
+  /**
+   * Resume a paused recurring errand
+   */
+  async resumeTemplate(templateId: number, clientId: number): Promise<JobTemplateView> {
+    const template = await this.requireOwnTemplate(templateId, clientId);
+    if (template.status !== 'paused') {
+      throw new ConflictError('Only a paused recurring errand can be resumed', 'INVALID_TEMPLATE_STATUS');
+    }
+
+    // Occurrences that came due while paused are missed, not posted late
+    await this.templateRepository.markMissed();
+    const resumed = await this.templateRepository.setStatus(templateId, 'active');
+    await this.materialize(resumed);
+    return this.toView(resumed);
+  }
+
+  /**
+   * End a recurring errand; jobs already posted are left as they are
+   */
+  async endTemplate(templateId: number, clientId: number): Promise<JobTemplateView> {
+    const template = await this.requireOwnTemplate(templateId, clientId);
+    if (template.status === 'ended') {
+      throw new ConflictError('This recurring errand has already ended', 'TEMPLATE_ENDED');
+    }
+
+    const ended = await this.templateRepository.setStatus(templateId, 'ended');
+    await this.templateRepository.deleteScheduled(templateId);
+
+    logger.info('Recurring errand ended', { templateId, clientId });
+    return this.toView(ended);
+  }
+
+  /**
+   * Skip one occurrence; no job is posted for it
+   */
+  async skipOccurrence(occurrenceId: number, clientId: number): Promise<OccurrenceView> {
+    const { template } = await this.requireOwnOccurrence(occurrenceId, clientId);
+
+    const skipped = await this.templateRepository.transitionOccurrence(occurrenceId, 'scheduled', 'skipped');
+    if (!skipped) {
+      throw new ConflictError('Only an occurrence not yet posted can be skipped', 'OCCURRENCE_NOT_SCHEDULED');
+    }
+    return this.toOccurrenceView(template, skipped);
+  }
+
+  /**
+   * Undo skipping an occurrence that is still in the future
+   */
+  async restoreOccurrence(occurrenceId: number, clientId: number): Promise<OccurrenceView> {
+    const { template, occurrence } = await this.requireOwnOccurrence(occurrenceId, clientId);
+
+    if (new Date(occurrence.scheduled_for) <= new Date()) {
+      throw new ConflictError('This occurrence is already past', 'OCCURRENCE_PAST');
+    }
+
+    const restored = await this.templateRepository.transitionOccurrence(occurrenceId, 'skipped', 'scheduled');
+    if (!restored) {
+      throw new ConflictError('Only a skipped occurrence can be restored', 'OCCURRENCE_NOT_SKIPPED');
+    }
+    return this.toOccurrenceView(template, restored);
+  }
+
+  /**
+   * Move one occurrence or change its title, notes or price
+   */
+  async updateOccurrence(
+    occurrenceId: number,
+    clientId: number,
+    changes: OccurrenceChanges
+  ): Promise<OccurrenceView> {
+    const { template, occurrence } = await this.requireOwnOccurrence(occurrenceId, clientId);
+
+    // Check the occurrence as the job it will be posted as
+    this.jobService.validateJobRequest({
+      title: changes.title ?? occurrence.title_override ?? template.title,
+      description: changes.description ?? occurrence.description_override ?? template.description,
+      priceCents: changes.priceCents ?? occurrence.price_cents_override ?? template.price_cents,
+    });
+
+    const update: UpdateOccurrenceDto = {};
+    if (changes.scheduledFor !== undefined) {
+      if (isNaN(changes.scheduledFor.getTime()) || changes.scheduledFor <= new Date()) {
+        throw new ValidationError('An occurrence can only be moved to a future time', 'INVALID_SCHEDULE');
+      }
+      update.scheduledFor = changes.scheduledFor;
+    }
+    if (changes.title !== undefined) update.titleOverride = changes.title?.trim() || null;
+    if (changes.description !== undefined) update.descriptionOverride = changes.description?.trim() || null;
+    if (changes.priceCents !== undefined) update.priceCentsOverride = changes.priceCents;
+
+    const updated = await this.templateRepository.updateOccurrence(occurrenceId, update);
+    if (!updated) {
+      throw new ConflictError('Only an occurrence not yet posted can be changed', 'OCCURRENCE_NOT_SCHEDULED');
+    }
+    return this.toOccurrenceView(template, updated);
+  }
+
+  /**
+   * One pass of the scheduler: mark missed occurrences, write occurrences up
+   * to the horizon and post the jobs that are due
+   */
+  async runScheduler(): Promise<SchedulerRun> {
+    const run: SchedulerRun = { posted: 0, failed: 0, missed: 0 };
+
+    run.missed = await this.templateRepository.markMissed();
+
+    for (const template of await this.templateRepository.findActive()) {
+      try {
+        await this.materialize(template);
+      } catch (error) {
+        logger.error('Failed to schedule recurring errand', { error, templateId: template.id });
+      }
+    }
+
+    const templates = new Map<number, JobTemplate>();
+    for (;;) {
+      const due = await this.templateRepository.claimDue(JOB_TEMPLATE_CONSTANTS.SCHEDULER_BATCH_SIZE);
+
+      for (const occurrence of due) {
+        let template = templates.get(occurrence.template_id);
+        if (!template) {
+          template = await this.templateRepository.findById(occurrence.template_id);
+          templates.set(template.id, template);
+        }
+
+        if (await this.postOccurrence(template, occurrence)) {
+          run.posted++;
+        } else {
+          run.failed++;
+        }
+      }
+
+      if (due.length < JOB_TEMPLATE_CONSTANTS.SCHEDULER_BATCH_SIZE) break;
+    }
+
+    if (run.posted > 0 || run.failed > 0 || run.missed > 0) {
+      logger.info('Recurring errand scheduler run', run);
+    }
+    return run;
+  }
+
+  /**
+   * Run the scheduler periodically
+   */
+  startScheduler(): void {
+    logger.info('Starting recurring errand scheduler', {
+      horizonDays: JOB_TEMPLATE_CONSTANTS.HORIZON_DAYS,
+    });
+
+    setInterval(() => {
+      this.runScheduler().catch((err) => {
+        logger.error('Recurring errand scheduler failed:', err);
+      });
+    }, JOB_TEMPLATE_CONSTANTS.SCHEDULER_INTERVAL_MS);
+  }
+
+  /**
+   * Post an occurrence as a job and offer it to the previous runner if wanted
+   * A failure is recorded on the occurrence and does not stop the run
+   */
+  private async postOccurrence(template: JobTemplate, occurrence: JobTemplateOccurrence): Promise<boolean> {
+    const priceCents = occurrence.price_cents_override ?? template.price_cents;
+
+    let job: { id: number };
+    try {
+      job = await this.jobService.createJob(this.toJobRequest(template, occurrence));
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Job could not be posted';
+      await this.templateRepository.markFailed(occurrence.id, message);
+      logger.error('Failed to post recurring errand', { error, templateId: template.id, occurrenceId: occurrence.id });
+      return false;
+    }
+
+    let reservation: { runnerId: number; until: Date } | null = null;
+
+    if (template.prefer_previous_runner) {
+      const runnerId = await this.templateRepository.findPreviousRunner(template.id, template.client_id);
+
+      if (runnerId !== null) {
+        // The job is posted either way, so a failed offer only loses the head start
+        try {
+          await this.offerService.proposeToRunner(await this.jobRepository.findById(job.id), runnerId, {
+            priceCents,
+            note: 'You ran the last one of these, so it is offered to you first',
+          });
+
+          const until = Math.min(
+            Date.now() + JOB_TEMPLATE_CONSTANTS.PREVIOUS_RUNNER_WINDOW_HOURS * HOUR_MS,
+            new Date(occurrence.scheduled_for).getTime()
+          );
+          reservation = { runnerId, until: new Date(until) };
+        } catch (error) {
+          logger.warn('Could not offer recurring errand to previous runner', {
+            error,
+            jobId: job.id,
+            runnerId,
+          });
+        }
+      }
+    }
+
+    await this.templateRepository.attachJob(occurrence.id, job.id, reservation);
+
+    logger.info('Recurring errand posted', {
+      templateId: template.id,
+      occurrenceId: occurrence.id,
+      jobId: job.id,
+      reservedFor: reservation?.runnerId ?? null,
+    });
+    return true;
+  }
+
+  /**
+   * Write the template's occurrences up to the horizon
+   * A finite rule whose last occurrence has passed ends the template.
+   */
+  private async materialize(template: JobTemplate, now: Date = new Date()): Promise<void> {
+    const horizon = new Date(now.getTime() + JOB_TEMPLATE_CONSTANTS.HORIZON_DAYS * DAY_MS);
+    const generatedUntil = template.generated_until ? new Date(template.generated_until) : null;
+    if (generatedUntil && generatedUntil >= horizon) return;
+
+    const rule = parseRecurrenceRule(template.rrule);
+    const from = generatedUntil && generatedUntil > now ? generatedUntil : now;
+    const dates = expandRecurrence(rule, new Date(template.starts_at), template.timezone, from, horizon);
+
+    await this.templateRepository.addOccurrences(template.id, dates, horizon);
+
+    if (this.isExhausted(rule, template, now)) {
+      await this.templateRepository.setStatus(template.id, 'ended');
+      logger.info('Recurring errand has no more occurrences', { templateId: template.id });
+    }
+  }
+
+  /**
+   * Whether a COUNT or UNTIL rule has no occurrences after a time
+   */
+  private isExhausted(rule: RecurrenceRule, template: JobTemplate, after: Date): boolean {
+    if (rule.count === null && rule.until === null) return false;
+    // The expansion stops at COUNT or UNTIL
+    const all = expandRecurrence(rule, new Date(template.starts_at), template.timezone, new Date(0), new Date(8.64e15));
+    const last = all[all.length - 1];
+    return last === undefined || last < after;
+  }
+
+  /**
+   * Check a template's job details and schedule
+   */
+  private validateTemplate(input: JobTemplateInput): Omit<CreateJobTemplateDto, 'clientId'> {
+    const stops = this.jobService.validateJobRequest({
+      title: input.title,
+      description: input.description,
+      priceCents: input.priceCents,
+      ...(input.category ? { category: input.category } : {}),
+      ...(input.fediCommunityId ? { fediCommunityId: input.fediCommunityId } : {}),
+      ...(input.location ? { location: input.location } : {}),
+      ...(input.address ? { address: input.address } : {}),
+      ...(input.stops ? { stops: input.stops } : {}),
+    });
+
+    const rule = parseRecurrenceRule(input.rrule);
+
+    const timezone = input.timezone || 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      throw new ValidationError(`Unknown time zone "${timezone}"`, 'INVALID_TIMEZONE');
+    }
+
+    if (!(input.startsAt instanceof Date) || isNaN(input.startsAt.getTime())) {
+      throw new ValidationError('A valid start time is required', 'INVALID_START');
+    }
+
+    const leadHours = input.leadHours ?? JOB_TEMPLATE_CONSTANTS.DEFAULT_LEAD_HOURS;
+    if (!Number.isInteger(leadHours) || leadHours < 1 || leadHours > JOB_TEMPLATE_CONSTANTS.MAX_LEAD_HOURS) {
+      throw new ValidationError(
+        `Jobs can be posted between 1 and ${JOB_TEMPLATE_CONSTANTS.MAX_LEAD_HOURS} hours ahead`,
+        'INVALID_LEAD_TIME'
+      );
+    }
+
+    // Catch rules that never fall in the future, such as an UNTIL in the past
+    const now = new Date();
+    const nextYear = new Date(now.getTime() + 366 * DAY_MS);
+    if (expandRecurrence(rule, input.startsAt, timezone, now, nextYear).length === 0) {
+      throw new ValidationError('The schedule has no occurrences in the next year', 'NO_OCCURRENCES');
+    }
+
+    return {
+      title: input.title.trim(),
+      description: input.description.trim(),
+      priceCents: input.priceCents,
+      category: input.category || null,
+      fediCommunityId: input.fediCommunityId || null,
+      address: stops[0]?.address ?? (input.address || null),
+      stops,
+      rrule: formatRecurrenceRule(rule),
+      timezone,
+      startsAt: input.startsAt,
+      leadHours,
+      preferPreviousRunner: input.preferPreviousRunner ?? true,
+    };
+  }
+
+  /**
+   * The job an occurrence is posted as
+   */
+  private toJobRequest(template: JobTemplate, occurrence: JobTemplateOccurrence): CreateJobRequest {
+    return {
+      clientId: template.client_id,
+      title: occurrence.title_override ?? template.title,
+      description: occurrence.description_override ?? template.description,
+      priceCents: occurrence.price_cents_override ?? template.price_cents,
+      deadline: new Date(occurrence.scheduled_for),
+      ...(template.category ? { category: template.category } : {}),
+      ...(template.fedi_community_id ? { fediCommunityId: template.fedi_community_id } : {}),
+      ...(template.address ? { address: template.address } : {}),
+      ...(template.stops.length > 0 ? { stops: template.stops.map((stop) => this.toStopInput(stop)) } : {}),
+    };
+  }
+
+  private toStopInput(stop: CreateJobStopDto): JobStopInput {
+    return {
+      kind: stop.kind,
+      lat: stop.lat,
+      lng: stop.lng,
+      address: stop.address,
+      ...(stop.instructions ? { instructions: stop.instructions } : {}),
+    };
+  }
+
+  /**
+   * A stored template as input, so changes can be checked as a whole
+   */
+  private toInput(template: JobTemplate): JobTemplateInput {
+    return {
+      title: template.title,
+      description: template.description,
+      priceCents: template.price_cents,
+      category: template.category ?? undefined,
+      fediCommunityId: template.fedi_community_id ?? undefined,
+      address: template.address ?? undefined,
+      stops: template.stops.map((stop) => this.toStopInput(stop)),
+      rrule: template.rrule,
+      timezone: template.timezone,
+      startsAt: new Date(template.starts_at),
+      leadHours: template.lead_hours,
+      preferPreviousRunner: template.prefer_previous_runner,
+    };
+  }
+
+  private definedOnly(changes: JobTemplateChanges): Partial<JobTemplateInput> {
+    return Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    ) as Partial<JobTemplateInput>;
+  }
+
+  private async requireOwnTemplate(templateId: number, clientId: number): Promise<JobTemplate> {
+    const template = await this.templateRepository.findById(templateId);
+    if (template.client_id !== clientId) {
+      throw new AuthorizationError('Not authorized to manage this recurring errand', 'NOT_TEMPLATE_OWNER');
+    }
+    return template;
+  }
+
+  private async requireOwnOccurrence(
+    occurrenceId: number,
+    clientId: number
+  ): Promise<{ template: JobTemplate; occurrence: JobTemplateOccurrence }> {
+    const occurrence = await this.templateRepository.findOccurrenceById(occurrenceId);
+    const template = await this.requireOwnTemplate(occurrence.template_id, clientId);
+    return { template, occurrence };
+  }
+
+  private async toView(template: JobTemplate): Promise<JobTemplateView> {
+    // Include the last few days so recently posted jobs stay visible
+    const since = new Date(Date.now() - 7 * DAY_MS);
+    const occurrences = await this.templateRepository.findOccurrences(
+      template.id,
+      since,
+      JOB_TEMPLATE_CONSTANTS.LIST_OCCURRENCES
+    );
+
+    return {
+      id: template.id,
+      title: template.title,
+      description: template.description,
+      priceCents: template.price_cents,
+      category: template.category,
+      address: template.address,
+      stops: template.stops,
+      rrule: template.rrule,
+      timezone: template.timezone,
+      startsAt: template.starts_at,
+      leadHours: template.lead_hours,
+      preferPreviousRunner: template.prefer_previous_runner,
+      status: template.status,
+      createdAt: template.created_at,
+      occurrences: occurrences.map((occurrence) => this.toOccurrenceView(template, occurrence)),
+    };
+  }
+
+  private toOccurrenceView(template: JobTemplate, occurrence: JobTemplateOccurrence): OccurrenceView {
+    return {
+      id: occurrence.id,
+      templateId: occurrence.template_id,
+      originalAt: occurrence.original_at,
+      scheduledFor: occurrence.scheduled_for,
+      status: occurrence.status,
+      jobId: occurrence.job_id,
+      title: occurrence.title_override ?? template.title,
+      description: occurrence.description_override ?? template.description,
+      priceCents: occurrence.price_cents_override ?? template.price_cents,
+      edited:
+        occurrence.title_override !== null ||
+        occurrence.description_override !== null ||
+        occurrence.price_cents_override !== null ||
+        new Date(occurrence.scheduled_for).getTime() !== new Date(occurrence.original_at).getTime(),
+      reservedRunnerId: occurrence.reserved_runner_id,
+      reservedUntil: occurrence.reserved_until,
+      errorMessage: occurrence.error_message,
+    };
+  }
+}
+
+export const jobTemplateService = new JobTemplateService();
@@ -0,0 +1,345 @@
+/**
+ * Ledger Service
+ * Posts every movement of money to the double-entry ledger and reconciles
+ * the ledger against the Lightning node
+ *
+ * Postings:
+ * - invoice settled:  Lightning float  -> client escrow
+ * - escrow funded:    Lightning float  -> client escrow (HTLC locked in)
+ * - escrow refunded:  client escrow    -> Lightning float (held HTLC returned)
+ * - earning released: client escrow    -> runner balance + platform fees
+ * - payout sent:      runner balance   -> Lightning float, routing fees
+ *                     charged to platform fees
+ * - refund sent:      client escrow    -> Lightning float, routing fees
+ *                     charged to platform fees
+ *
+ * Postings happen after the money has moved, so a failed posting is logged
+ * rather than thrown; reconciliation then reports the gap.
+ */
+
+import { LEDGER_CONSTANTS } from '../../config/constants.js';
+import { EscrowRepository, JobEscrow } from '../../database/repositories/EscrowRepository.js';
+import {
+  LedgerAccountBalance,
+  LedgerAccountType,
+  LedgerRepository,
+  LedgerTransaction,
+  PostLedgerTransactionDto,
+} from '../../database/repositories/LedgerRepository.js';
+import type { RunnerEarning } from '../../database/repositories/RunnerEarningRepository.js';
+import type { ClientRefund } from '../../database/repositories/ClientRefundRepository.js';
+import logger from '../../utils/logger.js';
+import type { LightningBackend, LightningBackendName } from '../lightning/backends/LightningBackend.js';
+import { lightningBackend } from '../lightning/backends/createLightningBackend.js';
+
+export interface SettledInvoice {
+  paymentHash: string;
+  jobId: number | null;
+  clientId: number;
+  amountSats: number;
+}
+
+export type ReconciliationIssueCode =
+  | 'NODE_BALANCE_DRIFT'
+  | 'NODE_BALANCE_UNAVAILABLE'
+  | 'UNBALANCED_TRANSACTION'
+  | 'NEGATIVE_BALANCE'
+  | 'RUNNER_BALANCE_MISMATCH';
+
+export interface ReconciliationIssue {
+  code: ReconciliationIssueCode;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+export interface ReconciliationReport {
+  generatedAt: Date;
+  backend: LightningBackendName;
+  nodeBalanceSats: number | null;
+  ledgerFloatSats: number;
+  heldEscrowSats: number;           // In the float, but not in the node balance until settled
+  expectedNodeBalanceSats: number;
+  driftSats: number | null;         // Node balance minus expected
+  totals: Record<LedgerAccountType, number>;
+  issues: ReconciliationIssue[];
+  ok: boolean;
+}
+
+// Accounts whose balance is normally a credit (owed by the platform)
+const CREDIT_ACCOUNTS: LedgerAccountType[] = ['client_escrow', 'runner_balance', 'platform_fees'];
+
+/**
+ * Account balance in its natural sign: positive when the account holds funds
+ */
+export function naturalBalance(account: Pick<LedgerAccountBalance, 'type' | 'balance_sats'>): number {
+  return CREDIT_ACCOUNTS.includes(account.type) ? -account.balance_sats : account.balance_sats;
+}
+
+export class LedgerService {
+  private readonly driftToleranceSats: number;
+
+  constructor(
+    private readonly ledgerRepository: LedgerRepository = new LedgerRepository(),
+    private readonly escrowRepository: EscrowRepository = new EscrowRepository(),
+    private readonly lightning: LightningBackend = lightningBackend
+  ) {
+    this.driftToleranceSats = Number(
+      process.env['LEDGER_DRIFT_TOLERANCE_SATS'] || LEDGER_CONSTANTS.DRIFT_TOLERANCE_SATS
+    );
+  }
+
+  /**
+   * A job invoice was paid to the platform's node
+   */
+  async recordInvoiceSettled(invoice: SettledInvoice): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'invoice_settled',
+      reference: `invoice:${invoice.paymentHash}:settled`,
+      jobId: invoice.jobId,
+      description: `Invoice ${invoice.paymentHash} settled`,
+      entries: [
+        { account: 'lightning_float', userId: null, amountSats: invoice.amountSats },
+        { account: 'client_escrow', userId: invoice.clientId, amountSats: -invoice.amountSats },
+      ],
+    });
+  }
+
+  /**
+   * The client's HTLC for an escrow was locked in
+   */
+  async recordEscrowFunded(escrow: JobEscrow, clientId: number): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'escrow_funded',
+      reference: `escrow:${escrow.id}:funded`,
+      jobId: escrow.job_id,
+      description: `Escrow for job #${escrow.job_id} funded`,
+      entries: [
+        { account: 'lightning_float', userId: null, amountSats: escrow.amount_sats },
+        { account: 'client_escrow', userId: clientId, amountSats: -escrow.amount_sats },
+      ],
+    });
+  }
+
+  /**
+   * A funded escrow was cancelled and the HTLC returned to the client
+   */
+  async recordEscrowRefunded(escrow: JobEscrow, clientId: number): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'escrow_refunded',
+      reference: `escrow:${escrow.id}:refunded`,
+      jobId: escrow.job_id,
+      description: `Escrow for job #${escrow.job_id} refunded`,
+      entries: [
+        { account: 'client_escrow', userId: clientId, amountSats: escrow.amount_sats },
+        { account: 'lightning_float', userId: null, amountSats: -escrow.amount_sats },
+      ],
+    });
+  }
+
+  /**
+   * A runner earned their share of a job; the platform keeps its fee
+   * Anything the client paid beyond the earning (a dispute split) stays in
+   * their escrow account as owed back to them.
+   */
+  async recordEarningReleased(earning: RunnerEarning, clientId: number): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'earning_released',
+      reference: `earning:${earning.id}:released`,
+      jobId: earning.job_id,
+      description: `Earning #${earning.id} released to runner #${earning.runner_id}`,
+      entries: [
+        { account: 'client_escrow', userId: clientId, amountSats: earning.amount_sats },
+        { account: 'runner_balance', userId: earning.runner_id, amountSats: -earning.net_amount_sats },
+        { account: 'platform_fees', userId: null, amountSats: -earning.platform_fee_sats },
+      ],
+    });
+  }
+
+  /**
+   * A runner payout left the node
+   * @param routingFeeSats - Fee paid to route the payment, borne by the platform
+   */
+  async recordPayoutSent(earning: RunnerEarning, routingFeeSats: number = 0): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'payout_sent',
+      reference: `earning:${earning.id}:paid`,
+      jobId: earning.job_id,
+      description: `Payout of earning #${earning.id} to runner #${earning.runner_id}`,
+      entries: [
+        { account: 'runner_balance', userId: earning.runner_id, amountSats: earning.net_amount_sats },
+        { account: 'platform_fees', userId: null, amountSats: routingFeeSats },
+        { account: 'lightning_float', userId: null, amountSats: -(earning.net_amount_sats + routingFeeSats) },
+      ],
+    });
+  }
+
+  /**
+   * The client's share of a split dispute left the node
+   * @param routingFeeSats - Fee paid to route the payment, borne by the platform
+   */
+  async recordRefundSent(refund: ClientRefund, routingFeeSats: number = 0): Promise<LedgerTransaction | null> {
+    return this.post({
+      kind: 'refund_sent',
+      reference: `refund:${refund.id}:paid`,
+      jobId: refund.job_id,
+      description: `Refund #${refund.id} to client #${refund.client_id}`,
+      entries: [
+        { account: 'client_escrow', userId: refund.client_id, amountSats: refund.amount_sats },
+        { account: 'platform_fees', userId: null, amountSats: routingFeeSats },
+        { account: 'lightning_float', userId: null, amountSats: -(refund.amount_sats + routingFeeSats) },
+      ],
+    });
+  }
+
+  /**
+   * Balance of every ledger account
+   */
+  async getBalances(): Promise<LedgerAccountBalance[]> {
+    return this.ledgerRepository.getBalances();
+  }
+
+  /**
+   * Compare the ledger with itself, the payout queue and the node's balance
+   */
+  async reconcile(): Promise<ReconciliationReport> {
+    const [balances, unbalanced, runnerMismatches, heldEscrowSats] = await Promise.all([
+      this.ledgerRepository.getBalances(),
+      this.ledgerRepository.findUnbalanced(),
+      this.ledgerRepository.findRunnerBalanceMismatches(),
+      this.escrowRepository.sumHeldSats(),
+    ]);
+
+    const issues: ReconciliationIssue[] = [];
+    const totals: Record<LedgerAccountType, number> = {
+      lightning_float: 0,
+      client_escrow: 0,
+      runner_balance: 0,
+      platform_fees: 0,
+    };
+
+    for (const account of balances) {
+      const balance = naturalBalance(account);
+      totals[account.type] += balance;
+
+      if (balance < 0 && account.type !== 'platform_fees') {
+        issues.push({
+          code: 'NEGATIVE_BALANCE',
+          message: `${account.type} account #${account.account_id} is overdrawn by ${-balance} sats`,
+          details: { accountId: account.account_id, type: account.type, userId: account.user_id, balanceSats: balance },
+        });
+      }
+    }
+
+    for (const transaction of unbalanced) {
+      issues.push({
+        code: 'UNBALANCED_TRANSACTION',
+        message: `Ledger transaction ${transaction.reference} is off by ${transaction.total_sats} sats`,
+        details: { transactionId: transaction.id, reference: transaction.reference, totalSats: transaction.total_sats },
+      });
+    }
+
+    for (const mismatch of runnerMismatches) {
+      issues.push({
+        code: 'RUNNER_BALANCE_MISMATCH',
+        message: `Runner #${mismatch.runner_id} is owed ${mismatch.ledger_sats} sats in the ledger but ${mismatch.earnings_sats} sats in unpaid earnings`,
+        details: {
+          runnerId: mismatch.runner_id,
+          ledgerSats: mismatch.ledger_sats,
+          earningsSats: mismatch.earnings_sats,
+        },
+      });
+    }
+
+    // Held HTLCs are only added to the node balance when the escrow settles
+    const expectedNodeBalanceSats = totals.lightning_float - heldEscrowSats;
+    let nodeBalanceSats: number | null = null;
+    let driftSats: number | null = null;
+
+    try {
+      nodeBalanceSats = await this.lightning.getBalance();
+      driftSats = nodeBalanceSats - expectedNodeBalanceSats;
+
+      if (Math.abs(driftSats) > this.driftToleranceSats) {
+        issues.push({
+          code: 'NODE_BALANCE_DRIFT',
+          message: `Node balance is ${nodeBalanceSats} sats, ledger expects ${expectedNodeBalanceSats} sats`,
+          details: { nodeBalanceSats, expectedNodeBalanceSats, driftSats, toleranceSats: this.driftToleranceSats },
+        });
+      }
+    } catch (error) {
+      issues.push({
+        code: 'NODE_BALANCE_UNAVAILABLE',
+        message: `Could not read the ${this.lightning.name} balance: ${(error as Error).message}`,
+      });
+    }
+
+    return {
+      generatedAt: new Date(),
+      backend: this.lightning.name,
+      nodeBalanceSats,
+      ledgerFloatSats: totals.lightning_float,
+      heldEscrowSats,
+      expectedNodeBalanceSats,
+      driftSats,
+      totals,
+      issues,
+      ok: issues.length === 0,
+    };
+  }
+
+  /**
+   * Start periodic reconciliation, logging any drift it finds
+   */
+  startReconciliationJob(): void {
+    logger.info('Starting ledger reconciliation job', {
+      intervalMs: LEDGER_CONSTANTS.RECONCILIATION_INTERVAL_MS,
+      driftToleranceSats: this.driftToleranceSats,
+    });
+
+    setInterval(() => {
+      this.reconcile()
+        .then((report) => {
+          if (report.ok) {
+            logger.info('Ledger reconciled', { driftSats: report.driftSats });
+            return;
+          }
+          logger.warn('Ledger reconciliation found issues', {
+            driftSats: report.driftSats,
+            issues: report.issues,
+          });
+        })
+        .catch((err) => {
+          logger.error('Ledger reconciliation job failed:', err);
+        });
+    }, LEDGER_CONSTANTS.RECONCILIATION_INTERVAL_MS);
+  }
+
+  private async post(data: PostLedgerTransactionDto): Promise<LedgerTransaction | null> {
+    const entries = data.entries.filter((entry) => entry.amountSats !== 0);
+    const total = entries.reduce((sum, entry) => sum + entry.amountSats, 0);
+    if (entries.length === 0) {
+      return null;
+    }
+
+    try {
+      if (total !== 0 || entries.some((entry) => !Number.isInteger(entry.amountSats))) {
+        throw new Error(`Entries must be whole sats summing to zero (off by ${total})`);
+      }
+
+      const transaction = await this.ledgerRepository.post({ ...data, entries });
+      if (transaction) {
+        logger.info('Ledger transaction posted', { kind: data.kind, reference: data.reference });
+      }
+      return transaction;
+    } catch (error) {
+      logger.error('Ledger posting failed', {
+        kind: data.kind,
+        reference: data.reference,
+        error: (error as Error).message,
+      });
+      return null;
+    }
+  }
+}
+
+export const ledgerService = new LedgerService();
@@ -1,10 +1,18 @@
 /**
  * Lightning Service - TypeScript
- * LNBits integration for Lightning Network payments
+ * Job payment invoices through the configured Lightning backend
  */
 
-import axios, { AxiosInstance } from 'axios';
 import { getPool } from '../db.js';
+import { JobRepository } from '../database/repositories/JobRepository.js';
+import { JobStateMachine } from './job/JobStateMachine.js';
+import { realtimeService } from './realtime/RealtimeService.js';
+import type { LightningBackend } from './lightning/backends/LightningBackend.js';
+import { lightningBackend } from './lightning/backends/createLightningBackend.js';
+import type { PriceOracle } from './pricing/PriceOracle.js';
+import { priceOracle } from './pricing/createPriceOracle.js';
+import { LedgerService, ledgerService } from './ledger/LedgerService.js';
+import { centsToSats, satsToCents } from '../utils/lightning.js';
 
 export interface CreateInvoiceInput {
   amount_sats: number;
@@ -12,6 +20,7 @@ export interface CreateInvoiceInput {
   job_id: string;
   user_id: string;
   description: string;
+  price_snapshot_id?: number; // Rate amount_sats was converted at
 }
 
 export interface LightningInvoice {
@@ -19,7 +28,6 @@ export interface LightningInvoice {
   payment_request: string; // BOLT11 invoice
   amount_sats: number;
   expires_at: Date;
-  checking_id: string;
 }
 
 export interface PaymentStatus {
@@ -31,38 +39,25 @@ export interface PaymentStatus {
 }
 
 export class LightningService {
-  private lnbitsClient: AxiosInstance;
-  private apiKey: string;
-  private baseUrl: string;
-
-  constructor() {
-    this.apiKey = process.env['LNBITS_API_KEY'] || '';
-    this.baseUrl = process.env['LNBITS_URL'] || 'https://legend.lnbits.com';
-    
-    this.lnbitsClient = axios.create({
-      baseURL: this.baseUrl,
-      headers: {
-        'X-Api-Key': this.apiKey,
-        'Content-Type': 'application/json'
-      },
-      timeout: 30000
-    });
-  }
+  constructor(
+    private readonly backend: LightningBackend = lightningBackend,
+    private readonly prices: PriceOracle = priceOracle,
+    private readonly ledger: LedgerService = ledgerService
+  ) {}
 
   /**
    * Create Lightning invoice for job payment
    */
   async createInvoice(input: CreateInvoiceInput): Promise<LightningInvoice> {
     try {
-      // Create invoice via LNBits API
-      const response = await this.lnbitsClient.post('/api/v1/payments', {
-        out: false, // incoming payment
-        amount: input.amount_sats,
-        memo: input.description,
-        webhook: `${process.env['API_URL']}/api/v1/payments/webhook`
-      });
-
-      const { payment_hash, payment_request, checking_id } = response.data;
+      // Backends without webhooks are picked up by status checks instead
+      const { paymentHash: payment_hash, paymentRequest: payment_request, expiresAt } =
+        await this.backend.createInvoice({
+          amountSats: input.amount_sats,
+          description: input.description,
+          expirySeconds: 3600, // 1 hour
+          webhookUrl: `${process.env['API_URL']}/api/v1/payments/webhook`
+        });
 
       // Store transaction in database
       const pool = getPool();
@@ -70,8 +65,8 @@ export class LightningService {
         await pool.query(
           `INSERT INTO lightning_transactions (
             job_id, user_id, transaction_type, amount_sats, amount_usd,
-            payment_hash, payment_request, status, provider
-          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+            payment_hash, payment_request, status, provider, price_snapshot_id
+          ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
           [
             input.job_id,
             input.user_id,
@@ -81,7 +76,8 @@ export class LightningService {
             payment_hash,
             payment_request,
             'pending',
-            'lnbits'
+            this.backend.name,
+            input.price_snapshot_id ?? null
           ]
         );
       }
@@ -90,8 +86,7 @@ export class LightningService {
         payment_hash,
         payment_request,
         amount_sats: input.amount_sats,
-        expires_at: new Date(Date.now() + 3600000), // 1 hour
-        checking_id
+        expires_at: expiresAt
       };
     } catch (error) {
       const err = error as any;
@@ -112,7 +107,7 @@ export class LightningService {
 
       // Get transaction from database
       const result = await pool.query(
-        `SELECT payment_hash, status, amount_sats, payment_preimage, updated_at
+        `SELECT payment_hash, job_id, user_id, status, amount_sats, payment_preimage, updated_at
          FROM lightning_transactions
          WHERE payment_hash = $1`,
         [paymentHash]
@@ -135,9 +130,8 @@ export class LightningService {
         };
       }
 
-      // Check with LNBits
-      const response = await this.lnbitsClient.get(`/api/v1/payments/${paymentHash}`);
-      const { paid, preimage } = response.data;
+      // Check with the Lightning backend
+      const { paid, preimage } = await this.backend.getInvoiceStatus(paymentHash);
 
       // Update database if payment confirmed
       if (paid && tx.status !== 'completed') {
@@ -145,14 +139,24 @@ export class LightningService {
           `UPDATE lightning_transactions
            SET status = 'completed', payment_preimage = $1, updated_at = NOW()
            WHERE payment_hash = $2`,
-          [preimage, paymentHash]
+          [preimage ?? null, paymentHash]
         );
+
+        // The payer's funds are now on our node, held for the job.
+        // Rows from the UUID-keyed schema have no integer job id.
+        const jobId = Number(tx.job_id ?? NaN);
+        await this.ledger.recordInvoiceSettled({
+          paymentHash,
+          jobId: Number.isInteger(jobId) ? jobId : null,
+          clientId: Number(tx.user_id),
+          amountSats: parseInt(tx.amount_sats)
+        });
       }
 
       return {
         paid,
         payment_hash: paymentHash,
-        payment_preimage: preimage,
+        ...(preimage && { payment_preimage: preimage }),
         amount_sats: parseInt(tx.amount_sats),
         paid_at: paid ? new Date() : undefined
       };
@@ -179,18 +183,32 @@ export class LightningService {
       if (status.paid) {
         // Get transaction details
         const result = await pool.query(
-          `SELECT job_id FROM lightning_transactions WHERE payment_hash = $1`,
+          `SELECT lt.job_id, j.status
+           FROM lightning_transactions lt
+           JOIN jobs j ON j.id = lt.job_id
+           WHERE lt.payment_hash = $1`,
           [paymentHash]
         );
 
         if (result.rows.length > 0) {
-          const { job_id } = result.rows[0];
+          const { job_id, status: jobStatus } = result.rows[0];
+
+          // Webhooks are retried, so the job may already be paid
+          if (jobStatus === 'paid') {
+            return;
+          }
 
           // Update job status to paid
-          await pool.query(
-            `UPDATE jobs SET status = 'paid', paid_at = NOW() WHERE id = $1`,
-            [job_id]
-          );
+          const job = await new JobStateMachine(new JobRepository()).transition(job_id, 'paid', {
+            actor: 'system',
+            actorId: null,
+            reason: 'Lightning payment settled',
+          });
+
+          realtimeService.publish([job.client_id, job.runner_id], 'payment.confirmed', {
+            jobId: job.id,
+            paymentHash,
+          });
 
           console.log(`✅ Payment confirmed for job ${job_id}`);
         }
@@ -256,53 +274,35 @@ export class LightningService {
   }
 
   /**
-   * Calculate BTC/USD rate (simplified - in production use real API)
+   * Current BTC/USD rate from the price oracle
    */
   async getBtcUsdRate(): Promise<number> {
-    try {
-      // In production, use a real price API (e.g., CoinGecko, Kraken)
-      // For MVP, use a fixed rate or simple API
-      const response = await axios.get('https://api.coinbase.com/v2/exchange-rates?currency=BTC');
-      const usdRate = parseFloat(response.data.data.rates.USD);
-      return usdRate;
-    } catch (error) {
-      console.error('Failed to fetch BTC rate, using fallback');
-      // Fallback rate (update periodically)
-      return 45000; // $45,000 per BTC
-    }
+    return (await this.prices.getQuote('USD')).btcPrice;
   }
 
   /**
    * Convert USD to satoshis
    */
   async usdToSats(usdAmount: number): Promise<number> {
-    const btcUsdRate = await this.getBtcUsdRate();
-    const btcAmount = usdAmount / btcUsdRate;
-    const sats = Math.round(btcAmount * 100000000); // 1 BTC = 100M sats
-    return sats;
+    return centsToSats(Math.round(usdAmount * 100), await this.getBtcUsdRate());
   }
 
   /**
    * Convert satoshis to USD
    */
   async satsToUsd(sats: number): Promise<number> {
-    const btcUsdRate = await this.getBtcUsdRate();
-    const btcAmount = sats / 100000000;
-    const usdAmount = btcAmount * btcUsdRate;
-    return parseFloat(usdAmount.toFixed(2));
+    return satsToCents(sats, await this.getBtcUsdRate()) / 100;
   }
 
   /**
-   * Validate LNBits connection
+   * Validate Lightning backend connection
    */
   async validateConnection(): Promise<boolean> {
-    try {
-      const response = await this.lnbitsClient.get('/api/v1/wallet');
-      return response.status === 200;
-    } catch (error) {
-      console.error('LNBits connection failed:', error);
-      return false;
+    const connected = await this.backend.checkConnection();
+    if (!connected) {
+      console.error(`Lightning backend (${this.backend.name}) connection failed`);
     }
+    return connected;
   }
 }
 
@@ -0,0 +1,312 @@
+/**
+ * LNURL-pay Client
+ * Fetches invoices from Lightning addresses and LNURL-pay endpoints
+ *
+ * Supports:
+ * - LUD-06 pay requests, checking the invoice amount and description hash
+ * - LUD-09/10 success actions (message, url, aes)
+ * - LUD-12 comments
+ * - LUD-16 Lightning addresses
+ * - LUD-21 verify URLs for confirming settlement with the payee
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import { ServiceUnavailableError, ValidationError } from '../../core/errors/AppError.js';
+import { LIGHTNING_CONSTANTS } from '../../config/constants.js';
+import { decodeLightningInvoice } from '../../utils/lightning.js';
+
+export interface LnurlPayParams {
+  callback: string;
+  minSendableMsat: number;
+  maxSendableMsat: number;
+  metadata: string;        // Raw JSON string; the invoice commits to its sha256
+  description: string;     // text/plain entry of the metadata
+  commentAllowed: number;  // Longest comment accepted, 0 when comments are not
+}
+
+export type SuccessAction =
+  | { tag: 'message'; message: string }
+  | { tag: 'url'; description: string; url: string }
+  | { tag: 'aes'; description: string; ciphertext: string; iv: string };
+
+export interface LnurlInvoice {
+  paymentRequest: string;
+  paymentHash: string;
+  amountSats: number;
+  successAction: SuccessAction | null;
+  verifyUrl: string | null;
+}
+
+export interface LnurlVerification {
+  settled: boolean;
+  preimage: string | null;
+}
+
+export interface LnurlPayClientOptions {
+  http?: AxiosInstance;
+  /** Resolve addresses over plain http and accept http URLs (local testing only) */
+  allowHttp?: boolean;
+}
+
+const LIGHTNING_ADDRESS = /^([a-z0-9._+-]+)@([a-z0-9.-]+\.[a-z0-9-]+(?::\d+)?)$/i;
+
+const sha256Hex = (text: string): string => crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+
+const invalidResponse = (detail: string): ServiceUnavailableError =>
+  new ServiceUnavailableError(`Invalid LNURL-pay response: ${detail}`, 'INVALID_LNURL_RESPONSE');
+
+/**
+ * Decrypt an aes success action with the payment preimage (LUD-10)
+ */
+export function decryptSuccessAction(action: Extract<SuccessAction, { tag: 'aes' }>, preimage: string): string {
+  const decipher = crypto.createDecipheriv(
+    'aes-256-cbc',
+    Buffer.from(preimage, 'hex'),
+    Buffer.from(action.iv, 'base64')
+  );
+  return Buffer.concat([decipher.update(Buffer.from(action.ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
+
+export class LnurlPayClient {
+  private readonly http: AxiosInstance;
+  private readonly allowHttp: boolean;
+
+  constructor(options: LnurlPayClientOptions = {}) {
+    this.http =
+      options.http ??
+      axios.create({
+        timeout: LIGHTNING_CONSTANTS.LNURL_TIMEOUT_MS,
+        headers: { Accept: 'application/json' },
+      });
+    this.allowHttp = options.allowHttp ?? false;
+  }
+
+  /**
+   * Endpoint URL for a Lightning address (user@domain) or an LNURL-pay URL
+   */
+  resolveUrl(target: string): URL {
+    const value = target.trim().replace(/^lightning:/i, '');
+    const address = value.match(LIGHTNING_ADDRESS);
+
+    if (address) {
+      const [, username, domain] = address;
+      const protocol = this.allowHttp || domain!.endsWith('.onion') ? 'http' : 'https';
+      return new URL(`${protocol}://${domain!.toLowerCase()}/.well-known/lnurlp/${username!.toLowerCase()}`);
+    }
+
+    try {
+      return this.checkUrl(value);
+    } catch {
+      throw new ValidationError('Invalid Lightning address', 'INVALID_LIGHTNING_ADDRESS');
+    }
+  }
+
+  /**
+   * First step: what the payee accepts
+   */
+  async fetchPayParams(target: string): Promise<LnurlPayParams> {
+    const data = await this.get(this.resolveUrl(target));
+
+    if (data.tag !== 'payRequest') {
+      throw invalidResponse('not a pay request');
+    }
+
+    const minSendableMsat = Number(data.minSendable);
+    const maxSendableMsat = Number(data.maxSendable);
+    if (!(minSendableMsat > 0) || !(maxSendableMsat >= minSendableMsat)) {
+      throw invalidResponse('bad sendable range');
+    }
+
+    let callback: URL;
+    try {
+      callback = this.checkUrl(String(data.callback));
+    } catch {
+      throw invalidResponse('bad callback URL');
+    }
+
+    let entries: unknown;
+    try {
+      entries = typeof data.metadata === 'string' ? JSON.parse(data.metadata) : null;
+    } catch {
+      entries = null;
+    }
+    const description = Array.isArray(entries)
+      ? entries.find((entry) => Array.isArray(entry) && entry[0] === 'text/plain')?.[1]
+      : undefined;
+    if (typeof description !== 'string') {
+      throw invalidResponse('metadata has no text/plain entry');
+    }
+
+    return {
+      callback: callback.toString(),
+      minSendableMsat,
+      maxSendableMsat,
+      metadata: data.metadata,
+      description,
+      commentAllowed: Math.max(0, Math.floor(Number(data.commentAllowed) || 0)),
+    };
+  }
+
+  /**
+   * Second step: ask the payee for an invoice and check it is the one we asked for
+   * @param comment - Sent only if the payee accepts comments, cut to their limit
+   */
+  async requestInvoice(params: LnurlPayParams, amountSats: number, comment?: string): Promise<LnurlInvoice> {
+    const amountMsat = amountSats * 1000;
+    if (!Number.isInteger(amountSats) || amountMsat < params.minSendableMsat || amountMsat > params.maxSendableMsat) {
+      throw new ValidationError(
+        `Amount ${amountSats} sats is outside the payee's range of ` +
+          `${Math.ceil(params.minSendableMsat / 1000)}-${Math.floor(params.maxSendableMsat / 1000)} sats`,
+        'AMOUNT_OUT_OF_RANGE'
+      );
+    }
+
+    const url = new URL(params.callback);
+    url.searchParams.set('amount', String(amountMsat));
+    if (comment && params.commentAllowed > 0) {
+      url.searchParams.set('comment', comment.slice(0, params.commentAllowed));
+    }
+
+    const data = await this.get(url);
+    if (typeof data.pr !== 'string') {
+      throw invalidResponse('no invoice returned');
+    }
+
+    let invoice;
+    try {
+      invoice = decodeLightningInvoice(data.pr);
+    } catch {
+      throw invalidResponse('invoice could not be decoded');
+    }
+
+    if (invoice.amountMsat !== amountMsat) {
+      throw new ServiceUnavailableError(
+        `Invoice is for ${invoice.amountMsat ?? 'any'} msat, expected ${amountMsat}`,
+        'INVOICE_AMOUNT_MISMATCH'
+      );
+    }
+    if (invoice.descriptionHash !== sha256Hex(params.metadata)) {
+      throw new ServiceUnavailableError('Invoice description hash does not match the metadata', 'INVOICE_DESCRIPTION_MISMATCH');
+    }
+    if (invoice.expiresAt <= new Date()) {
+      throw invalidResponse('invoice already expired');
+    }
+
+    return {
+      paymentRequest: data.pr,
+      paymentHash: invoice.paymentHash,
+      amountSats,
+      successAction: this.parseSuccessAction(data.successAction, url),
+      verifyUrl: this.parseVerifyUrl(data.verify),
+    };
+  }
+
+  /**
+   * Both steps for a Lightning address or LNURL-pay URL
+   */
+  async fetchInvoice(target: string, amountSats: number, comment?: string): Promise<LnurlInvoice> {
+    return this.requestInvoice(await this.fetchPayParams(target), amountSats, comment);
+  }
+
+  /**
+   * Ask the payee whether the invoice was settled (LUD-21)
+   */
+  async verify(verifyUrl: string): Promise<LnurlVerification> {
+    const data = await this.get(this.checkUrl(verifyUrl));
+
+    return {
+      settled: data.settled === true,
+      preimage: typeof data.preimage === 'string' && /^[0-9a-f]{64}$/i.test(data.preimage) ? data.preimage : null,
+    };
+  }
+
+  /**
+   * Accept https URLs, plus http for .onion hosts
+   */
+  private checkUrl(value: string): URL {
+    const url = new URL(value);
+    const secure =
+      url.protocol === 'https:' ||
+      (url.protocol === 'http:' && (this.allowHttp || url.hostname.endsWith('.onion')));
+
+    if (!secure) {
+      throw new Error(`Unsupported LNURL URL: ${url.protocol}`);
+    }
+    return url;
+  }
+
+  /**
+   * Keep success actions that follow LUD-09/10; drop anything else
+   */
+  private parseSuccessAction(action: any, callback: URL): SuccessAction | null {
+    if (!action || typeof action !== 'object') {
+      return null;
+    }
+
+    const description = typeof action.description === 'string' ? action.description : '';
+
+    switch (action.tag) {
+      case 'message':
+        return typeof action.message === 'string' &&
+          action.message.length <= LIGHTNING_CONSTANTS.LNURL_SUCCESS_MESSAGE_MAX_LENGTH
+          ? { tag: 'message', message: action.message }
+          : null;
+      case 'url': {
+        // Must point at the same domain as the callback
+        try {
+          const url = this.checkUrl(String(action.url));
+          return url.hostname === callback.hostname ? { tag: 'url', description, url: url.toString() } : null;
+        } catch {
+          return null;
+        }
+      }
+      case 'aes':
+        return typeof action.ciphertext === 'string' && typeof action.iv === 'string'
+          ? { tag: 'aes', description, ciphertext: action.ciphertext, iv: action.iv }
+          : null;
+      default:
+        return null;
+    }
+  }
+
+  private parseVerifyUrl(value: unknown): string | null {
+    if (typeof value !== 'string') {
+      return null;
+    }
+    try {
+      return this.checkUrl(value).toString();
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * GET an LNURL endpoint, turning {status: 'ERROR'} replies into errors
+   */
+  private async get(url: URL): Promise<any> {
+    let data: any;
+    try {
+      data = (await this.http.get(url.toString())).data;
+    } catch (error: any) {
+      data = error.response?.data;
+      if (data?.status !== 'ERROR') {
+        throw new ServiceUnavailableError(`LNURL request to ${url.host} failed`, 'LNURL_REQUEST_FAILED');
+      }
+    }
+
+    if (data?.status === 'ERROR') {
+      throw new ServiceUnavailableError(
+        `LNURL service at ${url.host} returned an error: ${String(data.reason ?? 'unknown')}`,
+        'LNURL_REQUEST_FAILED'
+      );
+    }
+    if (!data || typeof data !== 'object') {
+      throw invalidResponse('not JSON');
+    }
+
+    return data;
+  }
+}
+
+export const lnurlPayClient = new LnurlPayClient();
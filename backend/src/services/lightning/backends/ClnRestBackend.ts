@@ -0,0 +1,155 @@
+/**
+ * Core Lightning Backend
+ * clnrest plugin of a Core Lightning node, authenticated with a rune
+ * (the same runes commando issues)
+ *
+ * Core Lightning has no native hold invoices, so escrow needs LNbits or LND.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { randomUUID } from 'crypto';
+import https from 'https';
+import {
+  assertInvoiceAmount,
+  backendError,
+  CreateHoldInvoiceParams,
+  CreateInvoiceParams,
+  HoldInvoiceState,
+  holdInvoicesUnsupported,
+  LightningBackend,
+  LightningInvoice,
+  PaymentStatus,
+  SentPayment,
+} from './LightningBackend.js';
+import { LIGHTNING_CONSTANTS } from '../../../config/constants.js';
+
+export interface ClnConfig {
+  restUrl: string;            // e.g. https://localhost:3010
+  rune: string;               // Restricted to invoice, listinvoices, pay, listfunds and getinfo
+  tlsCert?: string | Buffer;  // PEM of the node's self-signed certificate
+}
+
+interface ClnInvoice {
+  status: 'unpaid' | 'paid' | 'expired';
+  amount_received_msat?: number;
+  paid_at?: number;
+  payment_preimage?: string;
+}
+
+export class ClnRestBackend implements LightningBackend {
+  readonly name = 'cln' as const;
+  private readonly client: AxiosInstance;
+
+  constructor(config: ClnConfig) {
+    this.client = axios.create({
+      baseURL: config.restUrl,
+      headers: {
+        Rune: config.rune,
+        'Content-Type': 'application/json',
+      },
+      timeout: LIGHTNING_CONSTANTS.REQUEST_TIMEOUT_MS,
+      ...(config.tlsCert && { httpsAgent: new https.Agent({ ca: config.tlsCert }) }),
+    });
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    try {
+      const response = await this.client.post('/v1/invoice', {
+        amount_msat: params.amountSats * 1000,
+        label: `errandbit-${randomUUID()}`, // Must be unique per node
+        description: params.description,
+        expiry: params.expirySeconds,
+      });
+
+      return {
+        paymentRequest: response.data.bolt11,
+        paymentHash: response.data.payment_hash,
+        amountSats: params.amountSats,
+        expiresAt: new Date(response.data.expires_at * 1000),
+        description: params.description,
+      };
+    } catch (error) {
+      throw backendError(this.name, 'create invoice', error);
+    }
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<PaymentStatus> {
+    let invoice: ClnInvoice | undefined;
+    try {
+      const response = await this.client.post('/v1/listinvoices', { payment_hash: paymentHash });
+      invoice = response.data.invoices?.[0];
+    } catch (error) {
+      throw backendError(this.name, 'check invoice', error);
+    }
+
+    const status: PaymentStatus = { paid: invoice?.status === 'paid', paymentHash };
+    if (invoice && status.paid) {
+      status.amountPaidSats = Math.floor((invoice.amount_received_msat ?? 0) / 1000);
+      status.paidAt = invoice.paid_at ? new Date(invoice.paid_at * 1000) : new Date();
+      if (invoice.payment_preimage) {
+        status.preimage = invoice.payment_preimage;
+      }
+    }
+
+    return status;
+  }
+
+  async payInvoice(paymentRequest: string): Promise<SentPayment> {
+    try {
+      const response = await this.client.post(
+        '/v1/pay',
+        { bolt11: paymentRequest },
+        { timeout: LIGHTNING_CONSTANTS.PAYMENT_TIMEOUT_MS }
+      );
+      const { payment_hash, payment_preimage, amount_msat, amount_sent_msat } = response.data;
+
+      const payment: SentPayment = { paymentHash: payment_hash, preimage: payment_preimage };
+      if (amount_msat !== undefined && amount_sent_msat !== undefined) {
+        payment.feeSats = Math.ceil((amount_sent_msat - amount_msat) / 1000);
+      }
+      return payment;
+    } catch (error) {
+      throw backendError(this.name, 'pay invoice', error, 'PAYMENT_FAILED');
+    }
+  }
+
+  async createHoldInvoice(_params: CreateHoldInvoiceParams): Promise<LightningInvoice> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async getHoldInvoiceState(_paymentHash: string): Promise<HoldInvoiceState> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async settleHoldInvoice(_preimage: string): Promise<void> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async cancelHoldInvoice(_paymentHash: string): Promise<void> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async getBalance(): Promise<number> {
+    try {
+      const response = await this.client.post('/v1/listfunds', {});
+      const channels: { our_amount_msat?: number; state?: string }[] = response.data.channels ?? [];
+      const msats = channels
+        .filter((channel) => channel.state === 'CHANNELD_NORMAL')
+        .reduce((sum, channel) => sum + Number(channel.our_amount_msat ?? 0), 0);
+      return Math.floor(msats / 1000);
+    } catch (error) {
+      throw backendError(this.name, 'get balance', error);
+    }
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.post('/v1/getinfo', {});
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
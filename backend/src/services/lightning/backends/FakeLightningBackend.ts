@@ -0,0 +1,175 @@
+/**
+ * Fake Lightning Backend
+ * In-process wallet for development and tests - DO NOT USE IN PRODUCTION
+ *
+ * Invoices it issues can be "paid" with payInvoice, which stands in for the
+ * payer's wallet. Any other invoice is treated as an external payee and
+ * succeeds without moving real funds; the balance follows both.
+ */
+
+import crypto from 'crypto';
+import {
+  assertInvoiceAmount,
+  CreateHoldInvoiceParams,
+  CreateInvoiceParams,
+  HoldInvoiceState,
+  LightningBackend,
+  LightningInvoice,
+  PaymentStatus,
+  SentPayment,
+} from './LightningBackend.js';
+import { NotFoundError, ServiceUnavailableError } from '../../../core/errors/AppError.js';
+import { decodeLightningInvoice } from '../../../utils/lightning.js';
+
+interface FakeInvoice {
+  amountSats: number;
+  preimage: string | null; // Unknown to the node for hold invoices until settled
+  hold: boolean;
+  state: HoldInvoiceState;
+  paidAt: Date | null;
+}
+
+const sha256Hex = (hex: string): string =>
+  crypto.createHash('sha256').update(Buffer.from(hex, 'hex')).digest('hex');
+
+export class FakeLightningBackend implements LightningBackend {
+  readonly name = 'fake' as const;
+  private readonly invoices = new Map<string, FakeInvoice>();
+  private balanceSats = 0;
+
+  async createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    const preimage = crypto.randomBytes(32).toString('hex');
+    const paymentHash = sha256Hex(preimage);
+    this.invoices.set(paymentHash, {
+      amountSats: params.amountSats,
+      preimage,
+      hold: false,
+      state: 'open',
+      paidAt: null,
+    });
+
+    return this.toInvoice(paymentHash, params);
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<PaymentStatus> {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice || invoice.state !== 'settled') {
+      return { paid: false, paymentHash };
+    }
+
+    const status: PaymentStatus = {
+      paid: true,
+      paymentHash,
+      amountPaidSats: invoice.amountSats,
+      paidAt: invoice.paidAt ?? new Date(),
+    };
+    if (invoice.preimage) {
+      status.preimage = invoice.preimage;
+    }
+    return status;
+  }
+
+  async payInvoice(paymentRequest: string): Promise<SentPayment> {
+    const paymentHash = paymentRequest.match(/fake1([0-9a-f]{64})$/)?.[1];
+    const invoice = paymentHash ? this.invoices.get(paymentHash) : undefined;
+
+    if (!paymentHash || !invoice) {
+      return this.payExternal(paymentRequest);
+    }
+    if (invoice.state !== 'open') {
+      throw new ServiceUnavailableError(`Invoice is ${invoice.state}`, 'PAYMENT_FAILED');
+    }
+
+    // Hold invoices lock the HTLC instead of settling
+    if (invoice.hold) {
+      invoice.state = 'accepted';
+      return { paymentHash, feeSats: 0 };
+    }
+
+    invoice.state = 'settled';
+    invoice.paidAt = new Date();
+    this.balanceSats += invoice.amountSats;
+    return { paymentHash, preimage: invoice.preimage!, feeSats: 0 };
+  }
+
+  async createHoldInvoice(params: CreateHoldInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    this.invoices.set(params.paymentHash, {
+      amountSats: params.amountSats,
+      preimage: null,
+      hold: true,
+      state: 'open',
+      paidAt: null,
+    });
+
+    return this.toInvoice(params.paymentHash, params);
+  }
+
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    return this.findHoldInvoice(paymentHash).state;
+  }
+
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    const invoice = this.findHoldInvoice(sha256Hex(preimage));
+    if (invoice.state !== 'accepted') {
+      throw new ServiceUnavailableError(`Cannot settle hold invoice in state ${invoice.state}`, 'LIGHTNING_BACKEND_ERROR');
+    }
+
+    invoice.state = 'settled';
+    invoice.preimage = preimage;
+    invoice.paidAt = new Date();
+    this.balanceSats += invoice.amountSats;
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    const invoice = this.findHoldInvoice(paymentHash);
+    if (invoice.state === 'settled') {
+      throw new ServiceUnavailableError('Cannot cancel a settled hold invoice', 'LIGHTNING_BACKEND_ERROR');
+    }
+
+    invoice.state = 'cancelled';
+  }
+
+  async getBalance(): Promise<number> {
+    return this.balanceSats;
+  }
+
+  async checkConnection(): Promise<boolean> {
+    return true;
+  }
+
+  private toInvoice(paymentHash: string, params: CreateInvoiceParams): LightningInvoice {
+    return {
+      // Not a decodable BOLT11 string; only this backend can "pay" it
+      paymentRequest: `lnbcrt${params.amountSats}fake1${paymentHash}`,
+      paymentHash,
+      amountSats: params.amountSats,
+      expiresAt: new Date(Date.now() + params.expirySeconds * 1000),
+      description: params.description,
+    };
+  }
+
+  private findHoldInvoice(paymentHash: string): FakeInvoice {
+    const invoice = this.invoices.get(paymentHash);
+    if (!invoice?.hold) {
+      throw new NotFoundError('Hold invoice not found', 'INVOICE_NOT_FOUND');
+    }
+    return invoice;
+  }
+
+  private payExternal(paymentRequest: string): SentPayment {
+    const preimage = crypto.randomBytes(32).toString('hex');
+    let paymentHash: string;
+    try {
+      const decoded = decodeLightningInvoice(paymentRequest);
+      paymentHash = decoded.paymentHash;
+      this.balanceSats -= decoded.amountSats ?? 0;
+    } catch {
+      paymentHash = sha256Hex(preimage);
+    }
+    return { paymentHash, preimage, feeSats: 0 };
+  }
+}
@@ -0,0 +1,132 @@
+/**
+ * Lightning Backend
+ * Interface every Lightning node or wallet adapter implements, so invoices,
+ * payment checks and payouts do not depend on one provider
+ */
+
+import { ServiceUnavailableError, ValidationError } from '../../../core/errors/AppError.js';
+import logger from '../../../utils/logger.js';
+
+export type LightningBackendName = 'lnbits' | 'lnd' | 'cln' | 'nwc' | 'fake';
+
+export interface LightningInvoice {
+  paymentRequest: string;  // BOLT11 invoice string
+  paymentHash: string;     // SHA256 hash for verification
+  amountSats: number;      // Amount in satoshis
+  expiresAt: Date;         // Expiration timestamp
+  description?: string;    // Invoice description
+}
+
+export interface PaymentStatus {
+  paid: boolean;
+  paymentHash: string;
+  preimage?: string;
+  amountPaidSats?: number;
+  paidAt?: Date;
+}
+
+/**
+ * Hold invoice lifecycle as reported by the node
+ * - open: created, not paid yet
+ * - accepted: HTLC locked in, waiting for settle or cancel
+ * - settled: preimage released, funds received
+ * - cancelled: invoice cancelled, any held HTLC returned to the payer
+ */
+export type HoldInvoiceState = 'open' | 'accepted' | 'settled' | 'cancelled';
+
+export interface CreateInvoiceParams {
+  amountSats: number;
+  description: string;
+  expirySeconds: number;
+  /** Called by the backend when the invoice is paid, where supported */
+  webhookUrl?: string;
+}
+
+export interface CreateHoldInvoiceParams extends CreateInvoiceParams {
+  /** SHA256 hash of the preimage kept by the caller */
+  paymentHash: string;
+  /** Blocks the held HTLC stays valid; it must be settled or cancelled before then */
+  cltvExpiry: number;
+}
+
+export interface SentPayment {
+  paymentHash: string;
+  preimage?: string;
+  feeSats?: number;
+}
+
+export interface LightningBackend {
+  readonly name: LightningBackendName;
+
+  createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice>;
+  getInvoiceStatus(paymentHash: string): Promise<PaymentStatus>;
+
+  /**
+   * Pay a BOLT11 invoice
+   * @throws ServiceUnavailableError with code PAYMENT_FAILED if it does not go through
+   */
+  payInvoice(paymentRequest: string): Promise<SentPayment>;
+
+  createHoldInvoice(params: CreateHoldInvoiceParams): Promise<LightningInvoice>;
+  getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState>;
+  settleHoldInvoice(preimage: string): Promise<void>;
+  cancelHoldInvoice(paymentHash: string): Promise<void>;
+
+  /**
+   * Sats the node or wallet can spend over Lightning
+   * Used to reconcile the ledger's Lightning float against the node.
+   */
+  getBalance(): Promise<number>;
+
+  /** Whether the node or wallet answers with the configured credentials */
+  checkConnection(): Promise<boolean>;
+}
+
+/**
+ * Reject amounts no backend can invoice
+ */
+export function assertInvoiceAmount(amountSats: number): void {
+  if (!Number.isInteger(amountSats) || amountSats <= 0) {
+    throw new ValidationError('Invoice amount must be a positive whole number of sats', 'INVALID_AMOUNT');
+  }
+}
+
+/**
+ * Error for backends that cannot lock funds in a hold invoice
+ */
+export function holdInvoicesUnsupported(backend: LightningBackendName): ServiceUnavailableError {
+  return new ServiceUnavailableError(
+    `The ${backend} Lightning backend does not support hold invoices`,
+    'HOLD_INVOICES_UNSUPPORTED'
+  );
+}
+
+/**
+ * Log a failed backend call and turn it into an application error
+ * Keeps provider responses (which may echo credentials) out of the message.
+ */
+export function backendError(
+  backend: LightningBackendName,
+  action: string,
+  error: any,
+  code: string = 'LIGHTNING_BACKEND_ERROR'
+): ServiceUnavailableError {
+  if (error instanceof ServiceUnavailableError || error instanceof ValidationError) {
+    return error;
+  }
+
+  logger.error(`Lightning backend failed to ${action}`, {
+    backend,
+    error: error?.message,
+    status: error?.response?.status,
+    response: error?.response?.data,
+  });
+
+  return new ServiceUnavailableError(`Lightning backend failed to ${action}`, code);
+}
+
+/**
+ * Convert between the hex hashes used in the API and the base64 some nodes use
+ */
+export const hexToBase64 = (hex: string): string => Buffer.from(hex, 'hex').toString('base64');
+export const base64ToHex = (base64: string): string => Buffer.from(base64, 'base64').toString('hex');
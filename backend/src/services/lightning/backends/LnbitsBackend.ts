@@ -0,0 +1,193 @@
+/**
+ * LNbits Backend
+ * Wallet API of an LNbits instance (hosted or self-hosted)
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import {
+  assertInvoiceAmount,
+  backendError,
+  CreateHoldInvoiceParams,
+  CreateInvoiceParams,
+  HoldInvoiceState,
+  LightningBackend,
+  LightningInvoice,
+  PaymentStatus,
+  SentPayment,
+} from './LightningBackend.js';
+import { LIGHTNING_CONSTANTS } from '../../../config/constants.js';
+
+export interface LNbitsConfig {
+  apiUrl: string;          // LNbits API endpoint
+  apiKey: string;          // Invoice/read key, used for everything but payments
+  adminKey?: string;       // Admin key, required to pay invoices
+}
+
+export class LnbitsBackend implements LightningBackend {
+  readonly name = 'lnbits' as const;
+  private readonly client: AxiosInstance;
+  private readonly adminKey: string;
+
+  constructor(config: LNbitsConfig) {
+    this.adminKey = config.adminKey || config.apiKey;
+    this.client = axios.create({
+      baseURL: config.apiUrl,
+      headers: {
+        'X-Api-Key': config.apiKey,
+        'Content-Type': 'application/json',
+      },
+      timeout: LIGHTNING_CONSTANTS.REQUEST_TIMEOUT_MS,
+    });
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    try {
+      const response = await this.client.post('/api/v1/payments', {
+        out: false,  // Incoming payment
+        amount: params.amountSats,
+        memo: params.description,
+        unit: 'sat',
+        expiry: params.expirySeconds,
+        ...(params.webhookUrl && { webhook: params.webhookUrl }),
+      });
+
+      return {
+        paymentRequest: response.data.payment_request,
+        paymentHash: response.data.payment_hash,
+        amountSats: params.amountSats,
+        expiresAt: new Date(Date.now() + params.expirySeconds * 1000),
+        description: params.description,
+      };
+    } catch (error) {
+      throw backendError(this.name, 'create invoice', error);
+    }
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<PaymentStatus> {
+    try {
+      const response = await this.client.get(`/api/v1/payments/${paymentHash}`);
+      const { paid, preimage, details } = response.data;
+
+      const status: PaymentStatus = { paid: !!paid, paymentHash };
+      if (paid) {
+        // LNbits reports amounts in millisats
+        status.amountPaidSats = details?.amount ? Math.floor(Math.abs(Number(details.amount)) / 1000) : 0;
+        status.paidAt = new Date();
+        if (preimage) {
+          status.preimage = preimage;
+        }
+      }
+
+      return status;
+    } catch (error) {
+      throw backendError(this.name, 'check invoice', error);
+    }
+  }
+
+  async payInvoice(paymentRequest: string): Promise<SentPayment> {
+    try {
+      const response = await this.client.post(
+        '/api/v1/payments',
+        { out: true, bolt11: paymentRequest },
+        {
+          headers: { 'X-Api-Key': this.adminKey },
+          timeout: LIGHTNING_CONSTANTS.PAYMENT_TIMEOUT_MS,
+        }
+      );
+
+      const payment: SentPayment = { paymentHash: response.data.payment_hash };
+      if (response.data.payment_preimage) {
+        payment.preimage = response.data.payment_preimage;
+      }
+      return payment;
+    } catch (error) {
+      throw backendError(this.name, 'pay invoice', error, 'PAYMENT_FAILED');
+    }
+  }
+
+  async createHoldInvoice(params: CreateHoldInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    try {
+      const response = await this.client.post('/api/v1/payments', {
+        out: false,
+        amount: params.amountSats,
+        memo: params.description,
+        unit: 'sat',
+        expiry: params.expirySeconds,
+        payment_hash: params.paymentHash,
+        cltv_expiry: params.cltvExpiry,
+      });
+
+      return {
+        paymentRequest: response.data.payment_request,
+        paymentHash: params.paymentHash,
+        amountSats: params.amountSats,
+        expiresAt: new Date(Date.now() + params.expirySeconds * 1000),
+        description: params.description,
+      };
+    } catch (error) {
+      throw backendError(this.name, 'create hold invoice', error);
+    }
+  }
+
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    try {
+      const response = await this.client.get(`/api/v1/payments/${paymentHash}`);
+      const { paid, status, details } = response.data;
+
+      if (paid) {
+        return 'settled';
+      }
+
+      const detailStatus = status || details?.status;
+      if (detailStatus === 'held' || detailStatus === 'accepted') {
+        return 'accepted';
+      }
+      if (detailStatus === 'failed' || detailStatus === 'cancelled') {
+        return 'cancelled';
+      }
+
+      return 'open';
+    } catch (error) {
+      throw backendError(this.name, 'check hold invoice', error);
+    }
+  }
+
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    try {
+      await this.client.post('/api/v1/payments/settle', { preimage });
+    } catch (error) {
+      throw backendError(this.name, 'settle hold invoice', error);
+    }
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    try {
+      await this.client.post('/api/v1/payments/cancel', { payment_hash: paymentHash });
+    } catch (error) {
+      throw backendError(this.name, 'cancel hold invoice', error);
+    }
+  }
+
+  async getBalance(): Promise<number> {
+    try {
+      const response = await this.client.get('/api/v1/wallet');
+      // LNbits reports the wallet balance in millisats
+      return Math.floor(Number(response.data.balance ?? 0) / 1000);
+    } catch (error) {
+      throw backendError(this.name, 'get balance', error);
+    }
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/api/v1/wallet');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
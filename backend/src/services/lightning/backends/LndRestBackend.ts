@@ -0,0 +1,199 @@
+/**
+ * LND Backend
+ * REST proxy of an LND node, authenticated with a macaroon
+ *
+ * LND returns hashes and preimages base64 encoded; the rest of the API uses hex.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import https from 'https';
+import {
+  assertInvoiceAmount,
+  backendError,
+  base64ToHex,
+  CreateHoldInvoiceParams,
+  CreateInvoiceParams,
+  hexToBase64,
+  HoldInvoiceState,
+  LightningBackend,
+  LightningInvoice,
+  PaymentStatus,
+  SentPayment,
+} from './LightningBackend.js';
+import { ServiceUnavailableError } from '../../../core/errors/AppError.js';
+import { LIGHTNING_CONSTANTS } from '../../../config/constants.js';
+
+export interface LndConfig {
+  restUrl: string;            // e.g. https://localhost:8080
+  macaroon: string;           // Hex encoded; invoice + offchain permissions
+  tlsCert?: string | Buffer;  // PEM of the node's self-signed certificate
+}
+
+type LndInvoiceState = 'OPEN' | 'SETTLED' | 'CANCELED' | 'ACCEPTED';
+
+const HOLD_STATES: Record<LndInvoiceState, HoldInvoiceState> = {
+  OPEN: 'open',
+  ACCEPTED: 'accepted',
+  SETTLED: 'settled',
+  CANCELED: 'cancelled',
+};
+
+export class LndRestBackend implements LightningBackend {
+  readonly name = 'lnd' as const;
+  private readonly client: AxiosInstance;
+
+  constructor(config: LndConfig) {
+    this.client = axios.create({
+      baseURL: config.restUrl,
+      headers: {
+        'Grpc-Metadata-macaroon': config.macaroon,
+        'Content-Type': 'application/json',
+      },
+      timeout: LIGHTNING_CONSTANTS.REQUEST_TIMEOUT_MS,
+      ...(config.tlsCert && { httpsAgent: new https.Agent({ ca: config.tlsCert }) }),
+    });
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    try {
+      const response = await this.client.post('/v1/invoices', {
+        value: String(params.amountSats),
+        memo: params.description,
+        expiry: String(params.expirySeconds),
+      });
+
+      return {
+        paymentRequest: response.data.payment_request,
+        paymentHash: base64ToHex(response.data.r_hash),
+        amountSats: params.amountSats,
+        expiresAt: new Date(Date.now() + params.expirySeconds * 1000),
+        description: params.description,
+      };
+    } catch (error) {
+      throw backendError(this.name, 'create invoice', error);
+    }
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<PaymentStatus> {
+    const invoice = await this.lookupInvoice(paymentHash);
+    const status: PaymentStatus = { paid: invoice.state === 'SETTLED', paymentHash };
+
+    if (status.paid) {
+      status.amountPaidSats = Number(invoice.amt_paid_sat || 0);
+      status.paidAt = invoice.settle_date ? new Date(Number(invoice.settle_date) * 1000) : new Date();
+      if (invoice.r_preimage) {
+        status.preimage = base64ToHex(invoice.r_preimage);
+      }
+    }
+
+    return status;
+  }
+
+  async payInvoice(paymentRequest: string): Promise<SentPayment> {
+    let response;
+    try {
+      response = await this.client.post(
+        '/v1/channels/transactions',
+        { payment_request: paymentRequest },
+        { timeout: LIGHTNING_CONSTANTS.PAYMENT_TIMEOUT_MS }
+      );
+    } catch (error) {
+      throw backendError(this.name, 'pay invoice', error, 'PAYMENT_FAILED');
+    }
+
+    // Routing failures come back as a 200 with payment_error set
+    const { payment_error, payment_hash, payment_preimage, payment_route } = response.data;
+    if (payment_error) {
+      throw new ServiceUnavailableError(`Lightning payment failed: ${payment_error}`, 'PAYMENT_FAILED');
+    }
+
+    const payment: SentPayment = { paymentHash: base64ToHex(payment_hash) };
+    if (payment_preimage) {
+      payment.preimage = base64ToHex(payment_preimage);
+    }
+    if (payment_route?.total_fees !== undefined) {
+      payment.feeSats = Number(payment_route.total_fees);
+    }
+    return payment;
+  }
+
+  async createHoldInvoice(params: CreateHoldInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    try {
+      const response = await this.client.post('/v2/invoices/hodl', {
+        hash: hexToBase64(params.paymentHash),
+        value: String(params.amountSats),
+        memo: params.description,
+        expiry: String(params.expirySeconds),
+        cltv_expiry: String(params.cltvExpiry),
+      });
+
+      return {
+        paymentRequest: response.data.payment_request,
+        paymentHash: params.paymentHash,
+        amountSats: params.amountSats,
+        expiresAt: new Date(Date.now() + params.expirySeconds * 1000),
+        description: params.description,
+      };
+    } catch (error) {
+      throw backendError(this.name, 'create hold invoice', error);
+    }
+  }
+
+  async getHoldInvoiceState(paymentHash: string): Promise<HoldInvoiceState> {
+    const invoice = await this.lookupInvoice(paymentHash);
+    return HOLD_STATES[invoice.state];
+  }
+
+  async settleHoldInvoice(preimage: string): Promise<void> {
+    try {
+      await this.client.post('/v2/invoices/settle', { preimage: hexToBase64(preimage) });
+    } catch (error) {
+      throw backendError(this.name, 'settle hold invoice', error);
+    }
+  }
+
+  async cancelHoldInvoice(paymentHash: string): Promise<void> {
+    try {
+      await this.client.post('/v2/invoices/cancel', { payment_hash: hexToBase64(paymentHash) });
+    } catch (error) {
+      throw backendError(this.name, 'cancel hold invoice', error);
+    }
+  }
+
+  async getBalance(): Promise<number> {
+    try {
+      const response = await this.client.get('/v1/balance/channels');
+      // Older LND versions only report the deprecated `balance` field
+      return Number(response.data.local_balance?.sat ?? response.data.balance ?? 0);
+    } catch (error) {
+      throw backendError(this.name, 'get balance', error);
+    }
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.client.get('/v1/getinfo');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async lookupInvoice(paymentHash: string): Promise<{
+    state: LndInvoiceState;
+    amt_paid_sat?: string;
+    settle_date?: string;
+    r_preimage?: string;
+  }> {
+    try {
+      const response = await this.client.get(`/v1/invoice/${paymentHash}`);
+      return response.data;
+    } catch (error) {
+      throw backendError(this.name, 'check invoice', error);
+    }
+  }
+}
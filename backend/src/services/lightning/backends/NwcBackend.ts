@@ -0,0 +1,287 @@
+/**
+ * Nostr Wallet Connect Backend
+ * NIP-47 wallet reached over a Nostr relay with a connection URI
+ * (nostr+walletconnect://<wallet pubkey>?relay=<wss url>&secret=<hex>)
+ *
+ * Each call opens the relay, publishes an encrypted request event (kind 23194)
+ * and waits for the wallet's signed response (kind 23195).
+ * NWC wallets cannot hold invoices, so escrow needs LNbits or LND.
+ */
+
+import crypto from 'crypto';
+import {
+  assertInvoiceAmount,
+  backendError,
+  CreateHoldInvoiceParams,
+  CreateInvoiceParams,
+  HoldInvoiceState,
+  holdInvoicesUnsupported,
+  LightningBackend,
+  LightningInvoice,
+  PaymentStatus,
+  SentPayment,
+} from './LightningBackend.js';
+import { ServiceUnavailableError, ValidationError } from '../../../core/errors/AppError.js';
+import { LIGHTNING_CONSTANTS } from '../../../config/constants.js';
+import { decodeLightningInvoice } from '../../../utils/lightning.js';
+import { finalizeEvent, nip04Decrypt, nip04Encrypt, NostrEvent, verifyEvent } from '../../../utils/nostr.js';
+
+const REQUEST_KIND = 23194;
+const RESPONSE_KIND = 23195;
+
+export interface NwcConnection {
+  walletPubkey: string;
+  relayUrl: string;
+  secret: string;
+}
+
+/**
+ * Open relay connection; messages are NIP-01 arrays
+ */
+export interface RelayConnection {
+  send(message: unknown[]): void;
+  close(): void;
+}
+
+export type RelayConnector = (
+  relayUrl: string,
+  onMessage: (message: unknown[]) => void
+) => Promise<RelayConnection>;
+
+interface NwcReply {
+  result_type: string;
+  error?: { code: string; message: string } | null;
+  result?: Record<string, any> | null;
+}
+
+/**
+ * Parse a nostr+walletconnect:// connection URI
+ */
+export function parseNwcUri(uri: string): NwcConnection {
+  const match = uri.trim().match(/^nostr\+walletconnect:(?:\/\/)?([0-9a-f]{64})\?(.+)$/i);
+  const params = new URLSearchParams(match?.[2] ?? '');
+  const relayUrl = params.get('relay');
+  const secret = params.get('secret');
+
+  if (!match?.[1] || !relayUrl || !secret || !/^[0-9a-f]{64}$/i.test(secret)) {
+    throw new ValidationError('Invalid Nostr Wallet Connect URI', 'INVALID_NWC_URI');
+  }
+
+  return { walletPubkey: match[1].toLowerCase(), relayUrl, secret: secret.toLowerCase() };
+}
+
+/**
+ * Relay connector over the runtime's WebSocket client (Node 22+)
+ */
+export const connectWebSocketRelay: RelayConnector = (relayUrl, onMessage) =>
+  new Promise((resolve, reject) => {
+    const { WebSocket: WebSocketClient } = globalThis;
+    if (typeof WebSocketClient === 'undefined') {
+      reject(new ServiceUnavailableError('Nostr Wallet Connect needs Node.js 22 or later', 'NWC_UNAVAILABLE'));
+      return;
+    }
+
+    const socket = new WebSocketClient(relayUrl);
+    socket.onopen = () =>
+      resolve({
+        send: (message) => socket.send(JSON.stringify(message)),
+        close: () => socket.close(),
+      });
+    socket.onerror = () => reject(new Error(`Could not connect to relay ${relayUrl}`));
+    socket.onmessage = (event) => {
+      try {
+        const message: unknown = JSON.parse(String(event.data));
+        if (Array.isArray(message)) {
+          onMessage(message);
+        }
+      } catch {
+        // Relays only send JSON; ignore anything else
+      }
+    };
+  });
+
+export class NwcBackend implements LightningBackend {
+  readonly name = 'nwc' as const;
+  private readonly connection: NwcConnection;
+
+  constructor(
+    connectionUri: string,
+    private readonly connect: RelayConnector = connectWebSocketRelay,
+    private readonly replyTimeoutMs: number = LIGHTNING_CONSTANTS.NWC_REPLY_TIMEOUT_MS
+  ) {
+    this.connection = parseNwcUri(connectionUri);
+  }
+
+  async createInvoice(params: CreateInvoiceParams): Promise<LightningInvoice> {
+    assertInvoiceAmount(params.amountSats);
+
+    const result = await this.request('make_invoice', {
+      amount: params.amountSats * 1000, // NIP-47 amounts are millisats
+      description: params.description,
+      expiry: params.expirySeconds,
+    }, 'create invoice');
+
+    return {
+      paymentRequest: result['invoice'],
+      paymentHash: result['payment_hash'],
+      amountSats: params.amountSats,
+      expiresAt: result['expires_at']
+        ? new Date(result['expires_at'] * 1000)
+        : new Date(Date.now() + params.expirySeconds * 1000),
+      description: params.description,
+    };
+  }
+
+  async getInvoiceStatus(paymentHash: string): Promise<PaymentStatus> {
+    const result = await this.request('lookup_invoice', { payment_hash: paymentHash }, 'check invoice');
+    const status: PaymentStatus = { paid: !!result['settled_at'], paymentHash };
+
+    if (status.paid) {
+      status.amountPaidSats = Math.floor((result['amount'] ?? 0) / 1000);
+      status.paidAt = new Date(result['settled_at'] * 1000);
+      if (result['preimage']) {
+        status.preimage = result['preimage'];
+      }
+    }
+
+    return status;
+  }
+
+  async payInvoice(paymentRequest: string): Promise<SentPayment> {
+    const result = await this.request('pay_invoice', { invoice: paymentRequest }, 'pay invoice', 'PAYMENT_FAILED');
+
+    // The response only carries the preimage; the hash is in the invoice
+    const payment: SentPayment = {
+      paymentHash: decodeLightningInvoice(paymentRequest).paymentHash,
+      preimage: result['preimage'],
+    };
+    if (result['fees_paid'] !== undefined) {
+      payment.feeSats = Math.ceil(result['fees_paid'] / 1000);
+    }
+    return payment;
+  }
+
+  async createHoldInvoice(_params: CreateHoldInvoiceParams): Promise<LightningInvoice> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async getHoldInvoiceState(_paymentHash: string): Promise<HoldInvoiceState> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async settleHoldInvoice(_preimage: string): Promise<void> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async cancelHoldInvoice(_paymentHash: string): Promise<void> {
+    throw holdInvoicesUnsupported(this.name);
+  }
+
+  async getBalance(): Promise<number> {
+    const result = await this.request('get_balance', {}, 'get balance');
+    return Math.floor((result['balance'] ?? 0) / 1000);
+  }
+
+  async checkConnection(): Promise<boolean> {
+    try {
+      await this.request('get_info', {}, 'get wallet info');
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Send one NIP-47 request and wait for the wallet's result
+   */
+  private async request(
+    method: string,
+    params: Record<string, unknown>,
+    action: string,
+    errorCode?: string
+  ): Promise<Record<string, any>> {
+    const { walletPubkey, relayUrl, secret } = this.connection;
+    const request = finalizeEvent(
+      {
+        kind: REQUEST_KIND,
+        created_at: Math.floor(Date.now() / 1000),
+        tags: [['p', walletPubkey]],
+        content: nip04Encrypt(secret, walletPubkey, JSON.stringify({ method, params })),
+      },
+      secret
+    );
+    const subscriptionId = crypto.randomBytes(8).toString('hex');
+
+    let relay: RelayConnection | undefined;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let finished = false;
+
+    try {
+      const reply = await new Promise<NwcReply>((resolve, reject) => {
+        timer = setTimeout(
+          () => reject(new ServiceUnavailableError('Wallet did not respond in time', 'NWC_TIMEOUT')),
+          this.replyTimeoutMs
+        );
+
+        const onMessage = (message: unknown[]) => {
+          const [type, , payload] = message;
+
+          if (type === 'OK' && message[1] === request.id && message[2] === false) {
+            reject(new Error(`Relay rejected request: ${String(message[3] ?? '')}`));
+            return;
+          }
+          if (type !== 'EVENT' || message[1] !== subscriptionId) {
+            return;
+          }
+
+          const event = payload as NostrEvent;
+          const answers = event.tags?.some((tag) => tag[0] === 'e' && tag[1] === request.id);
+          if (event.kind !== RESPONSE_KIND || event.pubkey !== walletPubkey || !answers || !verifyEvent(event)) {
+            return;
+          }
+
+          try {
+            resolve(JSON.parse(nip04Decrypt(secret, walletPubkey, event.content)));
+          } catch (error) {
+            reject(error);
+          }
+        };
+
+        this.connect(relayUrl, onMessage)
+          .then((connection) => {
+            // Timed out while connecting
+            if (finished) {
+              connection.close();
+              return;
+            }
+            relay = connection;
+            connection.send([
+              'REQ',
+              subscriptionId,
+              { kinds: [RESPONSE_KIND], authors: [walletPubkey], '#e': [request.id] },
+            ]);
+            connection.send(['EVENT', request]);
+          })
+          .catch(reject);
+      });
+
+      if (reply.error) {
+        throw new ServiceUnavailableError(
+          `Wallet could not ${action}: ${reply.error.message}`,
+          errorCode ?? 'LIGHTNING_BACKEND_ERROR'
+        );
+      }
+
+      return reply.result ?? {};
+    } catch (error) {
+      throw backendError(this.name, action, error, errorCode);
+    } finally {
+      finished = true;
+      clearTimeout(timer);
+      if (relay) {
+        relay.send(['CLOSE', subscriptionId]);
+        relay.close();
+      }
+    }
+  }
+}
@@ -0,0 +1,90 @@
+/**
+ * Lightning Backend Selection
+ * Builds the backend named by LIGHTNING_BACKEND from environment variables
+ *
+ * Without LIGHTNING_BACKEND, LNbits is used when its URL and key are set and
+ * the fake backend otherwise, which keeps existing LNbits setups working.
+ */
+
+import { readFileSync } from 'fs';
+import { LightningBackend, LightningBackendName } from './LightningBackend.js';
+import { ClnRestBackend } from './ClnRestBackend.js';
+import { FakeLightningBackend } from './FakeLightningBackend.js';
+import { LnbitsBackend } from './LnbitsBackend.js';
+import { LndRestBackend } from './LndRestBackend.js';
+import { NwcBackend } from './NwcBackend.js';
+import { LIGHTNING_CONSTANTS } from '../../../config/constants.js';
+import logger from '../../../utils/logger.js';
+
+type Env = Record<string, string | undefined>;
+
+function required(env: Env, key: string, backend: LightningBackendName): string {
+  const value = env[key];
+  if (!value) {
+    throw new Error(`${key} must be set to use the ${backend} Lightning backend`);
+  }
+  return value;
+}
+
+const readCert = (filePath: string | undefined): Buffer | undefined =>
+  filePath ? readFileSync(filePath) : undefined;
+
+export function createLightningBackend(env: Env = process.env): LightningBackend {
+  const lnbitsUrl = env['LNBITS_URL'] || env['LNBITS_API_URL'];
+  const name = (env['LIGHTNING_BACKEND'] || (lnbitsUrl && env['LNBITS_API_KEY'] ? 'lnbits' : 'fake')).toLowerCase();
+
+  if (!(LIGHTNING_CONSTANTS.BACKENDS as readonly string[]).includes(name)) {
+    throw new Error(
+      `Unknown LIGHTNING_BACKEND "${name}"; expected one of ${LIGHTNING_CONSTANTS.BACKENDS.join(', ')}`
+    );
+  }
+
+  let backend: LightningBackend;
+
+  switch (name as LightningBackendName) {
+    case 'lnbits': {
+      const config = {
+        apiUrl: lnbitsUrl || required(env, 'LNBITS_URL', 'lnbits'),
+        apiKey: required(env, 'LNBITS_API_KEY', 'lnbits'),
+      };
+      backend = new LnbitsBackend(env['LNBITS_ADMIN_KEY'] ? { ...config, adminKey: env['LNBITS_ADMIN_KEY'] } : config);
+      break;
+    }
+    case 'lnd': {
+      const tlsCert = readCert(env['LND_TLS_CERT_PATH']);
+      const config = {
+        restUrl: required(env, 'LND_REST_URL', 'lnd'),
+        macaroon: required(env, 'LND_MACAROON', 'lnd'),
+      };
+      backend = new LndRestBackend(tlsCert ? { ...config, tlsCert } : config);
+      break;
+    }
+    case 'cln': {
+      const tlsCert = readCert(env['CLN_TLS_CERT_PATH']);
+      const config = {
+        restUrl: required(env, 'CLN_REST_URL', 'cln'),
+        rune: required(env, 'CLN_RUNE', 'cln'),
+      };
+      backend = new ClnRestBackend(tlsCert ? { ...config, tlsCert } : config);
+      break;
+    }
+    case 'nwc':
+      backend = new NwcBackend(required(env, 'NWC_CONNECTION_URI', 'nwc'));
+      break;
+    case 'fake':
+      backend = new FakeLightningBackend();
+      break;
+  }
+
+  if (backend.name === 'fake') {
+    logger.warn('Lightning Network not configured - using the FAKE backend (DEV ONLY)');
+    logger.warn('Set LIGHTNING_BACKEND and its credentials for production');
+  } else {
+    logger.info('Lightning backend initialized', { backend: backend.name });
+  }
+
+  return backend;
+}
+
+// Shared by every service that talks to the node
+export const lightningBackend = createLightningBackend();
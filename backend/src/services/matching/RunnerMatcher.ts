@@ -0,0 +1,102 @@
+/**
+ * Runner Matcher
+ * Ranks the runners who could take a job
+ *
+ * Each factor scores between 0 and 1 and the match score is their weighted
+ * average (MATCHING_CONSTANTS.WEIGHTS):
+ * - distance:     closer to the job within the search radius is better
+ * - category:     the job's category is one of the runner's tags
+ * - rating:       average rating out of 5
+ * - completion:   share of accepted jobs the runner completed
+ * - availability: the runner is available right now, scaled by the share of
+ *   their concurrent job slots still free
+ * - load:         fewer jobs accepted recently is better, spreading work out
+ *
+ * Unknown values (no location, no category, a runner without reviews or
+ * finished jobs yet) score 0.5 so they neither help nor sink a runner.
+ */
+
+import { MATCHING_CONSTANTS } from '../../config/constants.js';
+import type { RunnerMatchCandidate } from '../../database/repositories/RunnerRepository.js';
+
+export type MatchFactor = keyof typeof MATCHING_CONSTANTS.WEIGHTS;
+
+export interface MatchJob {
+  category: string | null;
+}
+
+export interface RunnerMatch {
+  candidate: RunnerMatchCandidate;
+  score: number;
+  factors: Record<MatchFactor, number>;
+}
+
+const NEUTRAL = 0.5;
+
+const clamp = (value: number): number => Math.min(1, Math.max(0, value));
+
+const round = (value: number): number => Math.round(value * 10000) / 10000;
+
+/**
+ * Search radius of a matching wave, growing until it reaches the maximum
+ */
+export function radiusForWave(wave: number): number {
+  return Math.min(
+    MATCHING_CONSTANTS.MAX_RADIUS_KM,
+    MATCHING_CONSTANTS.INITIAL_RADIUS_KM * Math.pow(MATCHING_CONSTANTS.RADIUS_GROWTH, wave)
+  );
+}
+
+/**
+ * Score one runner for a job
+ * @param radiusKm - Search radius, or null when the job has no location
+ */
+export function scoreRunner(candidate: RunnerMatchCandidate, job: MatchJob, radiusKm: number | null): RunnerMatch {
+  const hasHistory = candidate.total_jobs > 0;
+  const tags = candidate.tags.map((tag) => tag.toLowerCase());
+
+  const factors: Record<MatchFactor, number> = {
+    distance:
+      candidate.distance_km === null || radiusKm === null
+        ? NEUTRAL
+        : clamp(1 - candidate.distance_km / radiusKm),
+    category: job.category ? (tags.includes(job.category.toLowerCase()) ? 1 : 0) : NEUTRAL,
+    rating: candidate.avg_rating > 0 ? clamp(candidate.avg_rating / 5) : NEUTRAL,
+    completion: hasHistory ? clamp(candidate.completion_rate / 100) : NEUTRAL,
+    availability: candidate.available_now
+      ? clamp(1 - candidate.active_jobs / Math.max(candidate.max_concurrent_jobs, 1))
+      : 0,
+    load: 1 / (1 + candidate.recent_jobs),
+  };
+
+  const weights = MATCHING_CONSTANTS.WEIGHTS;
+  let total = 0;
+  let weighted = 0;
+  for (const factor of Object.keys(weights) as MatchFactor[]) {
+    total += weights[factor];
+    weighted += weights[factor] * factors[factor];
+  }
+
+  for (const factor of Object.keys(factors) as MatchFactor[]) {
+    factors[factor] = round(factors[factor]);
+  }
+
+  return { candidate, score: round(weighted / total), factors };
+}
+
+/**
+ * Rank runners for a job, best match first (closer first on equal scores)
+ */
+export function rankRunners(
+  candidates: RunnerMatchCandidate[],
+  job: MatchJob,
+  radiusKm: number | null
+): RunnerMatch[] {
+  return candidates
+    .map((candidate) => scoreRunner(candidate, job, radiusKm))
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.candidate.distance_km ?? Infinity) - (b.candidate.distance_km ?? Infinity)
+    );
+}
@@ -0,0 +1,206 @@
+/**
+ * Runner Matching Service
+ * Pushes new open jobs to the best matching runners and suggests runners to
+ * the client
+ *
+ * Flow:
+ * 1. Once a job is open (and no longer offered to a previous runner only),
+ *    the sweeper sends its first wave: the top runners within the initial
+ *    radius are told about it
+ * 2. While the job stays open, every wave interval the radius grows and the
+ *    next best runners who were not told yet are reached, up to MAX_WAVES
+ * 3. Waves only reach runners who are available right now; unavailable
+ *    runners are still suggested to the client, marked as such
+ * 4. The client can see the ranked runners for the job at any time
+ */
+
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import { MatchingJob, RunnerMatchRepository } from '../../database/repositories/RunnerMatchRepository.js';
+import { AuthorizationError, ConflictError } from '../../core/errors/AppError.js';
+import { MATCHING_CONSTANTS } from '../../config/constants.js';
+import { MatchFactor, rankRunners, radiusForWave } from './RunnerMatcher.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import logger from '../../utils/logger.js';
+
+export interface SuggestedRunner {
+  runnerId: number; // User ID of the runner
+  profileId: number;
+  displayName: string;
+  avatarUrl: string | null;
+  tags: string[];
+  hourlyRateCents: number | null;
+  avgRating: number;
+  completionRate: number;
+  totalJobs: number;
+  distanceKm: number | null;
+  available: boolean;
+  score: number;
+  factors: Record<MatchFactor, number>;
+  notifiedAt: Date | null; // When the job was pushed to the runner, if it was
+}
+
+export interface SuggestedRunners {
+  jobId: number;
+  radiusKm: number | null; // Null when the job has no location
+  wave: number | null; // Last wave sent, null before the first
+  runners: SuggestedRunner[];
+}
+
+export interface MatchingRun {
+  jobs: number;
+  notified: number;
+}
+
+export class RunnerMatchingService {
+  constructor(
+    private readonly matchRepository: RunnerMatchRepository = new RunnerMatchRepository(),
+    private readonly runnerRepository: RunnerRepository = new RunnerRepository(),
+    private readonly jobRepository: JobRepository = new JobRepository()
+  ) {}
+
+  /**
+   * Ranked runners for an open job (job client only)
+   */
+  async getSuggestedRunners(
+    jobId: number,
+    userId: number,
+    limit: number = MATCHING_CONSTANTS.SUGGESTIONS.DEFAULT_LIMIT
+  ): Promise<SuggestedRunners> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== userId) {
+      throw new AuthorizationError('Only the client can see suggested runners', 'NOT_JOB_CLIENT');
+    }
+    if (job.status !== 'open') {
+      throw new ConflictError('Runners are only suggested while the job is open', 'INVALID_JOB_STATUS');
+    }
+
+    const radiusKm = job.location ? MATCHING_CONSTANTS.MAX_RADIUS_KM : null;
+    const [candidates, suggestions, wave] = await Promise.all([
+      this.runnerRepository.findMatchCandidates(jobId, {
+        radiusKm,
+        recentDays: MATCHING_CONSTANTS.RECENT_LOAD_DAYS,
+        limit: MATCHING_CONSTANTS.CANDIDATE_POOL,
+      }),
+      this.matchRepository.findByJobId(jobId),
+      this.matchRepository.findWave(jobId),
+    ]);
+
+    const notifiedAt = new Map(suggestions.map((s) => [s.runner_id, s.notified_at]));
+    const runners = rankRunners(candidates, job, radiusKm)
+      .slice(0, Math.min(limit, MATCHING_CONSTANTS.SUGGESTIONS.MAX_LIMIT))
+      .map(({ candidate, score, factors }): SuggestedRunner => ({
+        runnerId: candidate.user_id,
+        profileId: candidate.profile_id,
+        displayName: candidate.display_name,
+        avatarUrl: candidate.avatar_url,
+        tags: candidate.tags,
+        hourlyRateCents: candidate.hourly_rate_cents,
+        avgRating: candidate.avg_rating,
+        completionRate: candidate.completion_rate,
+        totalJobs: candidate.total_jobs,
+        distanceKm: candidate.distance_km === null ? null : Math.round(candidate.distance_km * 10) / 10,
+        available: candidate.available_now,
+        score,
+        factors,
+        notifiedAt: notifiedAt.get(candidate.user_id) ?? null,
+      }));
+
+    return { jobId, radiusKm, wave, runners };
+  }
+
+  /**
+   * Send the matching waves that are due
+   * A job that fails is logged and keeps its wave; the next one is sent
+   * after the wave interval.
+   */
+  async runMatching(): Promise<MatchingRun> {
+    const jobs = await this.matchRepository.claimDueWaves(
+      MATCHING_CONSTANTS.WAVE_INTERVAL_MINUTES,
+      MATCHING_CONSTANTS.MAX_WAVES,
+      MATCHING_CONSTANTS.SWEEP_BATCH_SIZE
+    );
+
+    const run: MatchingRun = { jobs: jobs.length, notified: 0 };
+    for (const job of jobs) {
+      try {
+        run.notified += await this.sendWave(job);
+      } catch (error) {
+        logger.error('Failed to send matching wave', {
+          jobId: job.id,
+          wave: job.match_wave,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (run.notified > 0) {
+      logger.info('Runner matching sent', run);
+    }
+
+    return run;
+  }
+
+  /**
+   * Start periodic matching
+   */
+  startMatchingJob(): void {
+    logger.info('Starting runner matching', {
+      topN: MATCHING_CONSTANTS.TOP_N,
+      waveIntervalMinutes: MATCHING_CONSTANTS.WAVE_INTERVAL_MINUTES,
+    });
+
+    setInterval(() => {
+      this.runMatching().catch((err) => {
+        logger.error('Runner matching failed:', err);
+      });
+    }, MATCHING_CONSTANTS.SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Push a job to the best runners of its current wave who were not told yet
+   */
+  private async sendWave(job: MatchingJob): Promise<number> {
+    const radiusKm = job.location ? radiusForWave(job.match_wave) : null;
+    const candidates = await this.runnerRepository.findMatchCandidates(job.id, {
+      radiusKm,
+      recentDays: MATCHING_CONSTANTS.RECENT_LOAD_DAYS,
+      limit: MATCHING_CONSTANTS.CANDIDATE_POOL,
+      excludeNotified: true,
+      availableOnly: true,
+    });
+
+    const picked = rankRunners(candidates, job, radiusKm).slice(0, MATCHING_CONSTANTS.TOP_N);
+    const recorded = await this.matchRepository.recordSuggestions(
+      job.id,
+      job.match_wave,
+      picked.map(({ candidate, score }) => ({
+        runnerId: candidate.user_id,
+        score,
+        distanceKm: candidate.distance_km,
+      }))
+    );
+
+    for (const suggestion of recorded) {
+      this.notifyRunner(job, suggestion.runner_id, suggestion.distance_km);
+    }
+
+    return recorded.length;
+  }
+
+  /**
+   * Tell a runner about a job they match
+   */
+  private notifyRunner(job: Job, runnerId: number, distanceKm: number | null): void {
+    realtimeService.publish([runnerId], 'job.suggested', {
+      jobId: job.id,
+      title: job.title,
+      priceCents: job.price_cents,
+      category: job.category,
+      distanceKm: distanceKm === null ? null : Math.round(distanceKm * 10) / 10,
+    });
+  }
+}
+
+export const runnerMatchingService = new RunnerMatchingService();
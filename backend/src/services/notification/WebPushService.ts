@@ -0,0 +1,266 @@
+/**
+ * Web Push Service
+ * Sends notifications to users' browsers through their push services
+ *
+ * Payloads are encrypted for the browser with aes128gcm (RFC 8291) and each
+ * request carries a VAPID token signed with the server's key (RFC 8292).
+ * Keys are read from VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY (base64url, as
+ * printed by `npx web-push generate-vapid-keys`); without them pushes are
+ * logged only. Subscriptions the push service reports gone are removed.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import crypto from 'crypto';
+import {
+  PushSubscription,
+  PushSubscriptionRepository,
+} from '../../database/repositories/PushSubscriptionRepository.js';
+import { ServiceUnavailableError, ValidationError } from '../../core/errors/AppError.js';
+import { SAVED_SEARCH_CONSTANTS } from '../../config/constants.js';
+import logger from '../../utils/logger.js';
+
+export interface VapidKeys {
+  publicKey: string; // Uncompressed P-256 point, base64url
+  privateKey: string; // P-256 scalar, base64url
+  subject: string; // mailto: or https: contact for push services
+}
+
+export interface WebPushMessage {
+  title: string;
+  body: string;
+  url?: string | undefined; // Opened when the notification is clicked
+  tag?: string | undefined; // A newer notification with the same tag replaces the older
+}
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+  userAgent?: string | undefined;
+}
+
+export interface WebPushServiceOptions {
+  http?: AxiosInstance;
+  vapid?: VapidKeys | null;
+}
+
+const RECORD_SIZE = 4096;
+
+const hkdf = (ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer =>
+  Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+
+const base64url = (value: Buffer | string): string => Buffer.from(value).toString('base64url');
+
+/**
+ * Encrypt a payload for a browser subscription (RFC 8291, aes128gcm)
+ * The body is one record: salt, record size and the server's one-off public
+ * key, followed by the ciphertext.
+ */
+export function encryptPushPayload(payload: Buffer, p256dh: string, auth: string): Buffer {
+  const browserKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  const ecdh = crypto.createECDH('prime256v1');
+  const serverKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(browserKey);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), browserKey, serverKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const salt = crypto.randomBytes(16);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // A single, last record ends with the 0x02 delimiter and no padding
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([payload, Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverKey.length, 20);
+
+  return Buffer.concat([header, serverKey, ciphertext]);
+}
+
+/**
+ * VAPID Authorization header for a push endpoint (RFC 8292)
+ */
+export function createVapidAuthorization(endpoint: string, vapid: VapidKeys, now: Date = new Date()): string {
+  const publicKey = Buffer.from(vapid.publicKey, 'base64url');
+  const key = crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: vapid.privateKey,
+      x: base64url(publicKey.subarray(1, 33)),
+      y: base64url(publicKey.subarray(33, 65)),
+    },
+    format: 'jwk',
+  });
+
+  const header = base64url(JSON.stringify({ typ: 'JWT', alg: 'ES256' }));
+  const claims = base64url(
+    JSON.stringify({
+      aud: new URL(endpoint).origin,
+      exp: Math.floor(now.getTime() / 1000) + SAVED_SEARCH_CONSTANTS.PUSH.VAPID_EXPIRY_HOURS * 60 * 60,
+      sub: vapid.subject,
+    })
+  );
+  const signature = crypto.sign('sha256', Buffer.from(`${header}.${claims}`), { key, dsaEncoding: 'ieee-p1363' });
+
+  return `vapid t=${header}.${claims}.${base64url(signature)}, k=${vapid.publicKey}`;
+}
+
+function vapidFromEnv(): VapidKeys | null {
+  const publicKey = process.env['VAPID_PUBLIC_KEY'];
+  const privateKey = process.env['VAPID_PRIVATE_KEY'];
+  if (!publicKey || !privateKey) {
+    return null;
+  }
+  return { publicKey, privateKey, subject: process.env['VAPID_SUBJECT'] || 'mailto:support@errandbit.com' };
+}
+
+export class WebPushService {
+  private readonly http: AxiosInstance;
+  private readonly vapid: VapidKeys | null;
+
+  constructor(
+    private readonly subscriptionRepository: PushSubscriptionRepository = new PushSubscriptionRepository(),
+    options: WebPushServiceOptions = {}
+  ) {
+    this.http = options.http ?? axios.create({ timeout: SAVED_SEARCH_CONSTANTS.PUSH.TIMEOUT_MS });
+    this.vapid = options.vapid === undefined ? vapidFromEnv() : options.vapid;
+
+    if (this.vapid) {
+      try {
+        createVapidAuthorization('https://push.example', this.vapid);
+      } catch (error) {
+        logger.error('Invalid VAPID keys, Web Push disabled', { error: (error as Error).message });
+        this.vapid = null;
+      }
+    }
+  }
+
+  /**
+   * Whether pushes can be sent
+   */
+  isEnabled(): boolean {
+    return this.vapid !== null;
+  }
+
+  /**
+   * Public key browsers subscribe with
+   */
+  getPublicKey(): string {
+    if (!this.vapid) {
+      throw new ServiceUnavailableError('Push notifications are not configured', 'PUSH_NOT_CONFIGURED');
+    }
+    return this.vapid.publicKey;
+  }
+
+  /**
+   * Save a browser subscription for a user
+   */
+  async subscribe(userId: number, input: PushSubscriptionInput): Promise<void> {
+    this.getPublicKey();
+
+    let endpoint: URL;
+    try {
+      endpoint = new URL(String(input?.endpoint));
+    } catch {
+      throw new ValidationError('Push endpoint must be a URL', 'INVALID_PUSH_SUBSCRIPTION');
+    }
+    if (endpoint.protocol !== 'https:') {
+      throw new ValidationError('Push endpoint must use https', 'INVALID_PUSH_SUBSCRIPTION');
+    }
+
+    const p256dh = typeof input.keys?.p256dh === 'string' ? Buffer.from(input.keys.p256dh, 'base64url') : null;
+    const auth = typeof input.keys?.auth === 'string' ? Buffer.from(input.keys.auth, 'base64url') : null;
+    if (p256dh?.length !== 65 || p256dh[0] !== 4 || auth?.length !== 16) {
+      throw new ValidationError('Push subscription keys are invalid', 'INVALID_PUSH_SUBSCRIPTION');
+    }
+
+    await this.subscriptionRepository.save(userId, {
+      endpoint: endpoint.toString(),
+      p256dh: input.keys.p256dh,
+      auth: input.keys.auth,
+      userAgent: input.userAgent?.slice(0, 255) ?? null,
+    });
+
+    logger.info('Push subscription saved', { userId, host: endpoint.host });
+  }
+
+  /**
+   * Remove a browser subscription of a user
+   */
+  async unsubscribe(userId: number, endpoint: string): Promise<void> {
+    const removed = await this.subscriptionRepository.deleteForUser(userId, endpoint);
+    if (removed) {
+      logger.info('Push subscription removed', { userId });
+    }
+  }
+
+  /**
+   * Push a notification to every browser of a user
+   * Failures are logged per browser; returns how many push services took it
+   */
+  async sendToUser(userId: number, message: WebPushMessage): Promise<number> {
+    if (!this.vapid) {
+      logger.info('Web Push not configured, logging push instead', { userId, title: message.title });
+      return 0;
+    }
+
+    const subscriptions = await this.subscriptionRepository.findByUserId(userId);
+    let sent = 0;
+    for (const subscription of subscriptions) {
+      try {
+        if (await this.send(subscription, message, this.vapid)) {
+          sent++;
+        }
+      } catch (error) {
+        logger.warn('Web Push failed', { userId, subscriptionId: subscription.id, error: (error as Error).message });
+      }
+    }
+    return sent;
+  }
+
+  private async send(subscription: PushSubscription, message: WebPushMessage, vapid: VapidKeys): Promise<boolean> {
+    const body = encryptPushPayload(
+      Buffer.from(JSON.stringify(message), 'utf8'),
+      subscription.p256dh,
+      subscription.auth
+    );
+
+    const response = await this.http.post(subscription.endpoint, body, {
+      headers: {
+        Authorization: createVapidAuthorization(subscription.endpoint, vapid),
+        'Content-Encoding': 'aes128gcm',
+        'Content-Type': 'application/octet-stream',
+        TTL: String(SAVED_SEARCH_CONSTANTS.PUSH.TTL_SECONDS),
+      },
+      validateStatus: () => true,
+    });
+
+    if (response.status === 404 || response.status === 410) {
+      await this.subscriptionRepository.delete(subscription.id);
+      logger.info('Push subscription expired', { userId: subscription.user_id, subscriptionId: subscription.id });
+      return false;
+    }
+    if (response.status < 200 || response.status >= 300) {
+      logger.warn('Push service refused notification', {
+        userId: subscription.user_id,
+        subscriptionId: subscription.id,
+        status: response.status,
+      });
+      return false;
+    }
+
+    await this.subscriptionRepository.markUsed(subscription.id);
+    return true;
+  }
+}
+
+export const webPushService = new WebPushService();
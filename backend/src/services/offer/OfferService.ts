@@ -0,0 +1,309 @@
+/**
+ * Offer Service
+ * Bidding on open jobs
+ *
+ * Flow:
+ * 1. A runner makes an offer on an open job with a price, an ETA and a note
+ *    (recurring errands may first be offered by the client to the runner who
+ *    did the last one; nobody else can bid while that offer is pending)
+ * 2. The client and the runner may answer each other's latest proposal with a
+ *    counter-offer; only the side that did not make a proposal can answer it
+ * 3. Accepting a proposal assigns the job to that runner at the agreed price
+ *    (which opens the escrow) and rejects every other pending offer on the job
+ */
+
+import { JobOffer, OfferParty, OfferRepository } from '../../database/repositories/OfferRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import { JobService } from '../job/JobService.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../../core/errors/AppError.js';
+import { OFFER_CONSTANTS } from '../../config/constants.js';
+import logger from '../../utils/logger.js';
+
+export interface OfferTerms {
+  priceCents: number;
+  etaMinutes?: number | undefined;
+  note?: string | undefined;
+}
+
+export class OfferService {
+  constructor(
+    private readonly offerRepository: OfferRepository,
+    private readonly jobRepository: JobRepository,
+    private readonly jobService: JobService
+  ) {}
+
+  /**
+   * Make an opening offer on an open job
+   */
+  async submitOffer(jobId: number, runnerId: number, terms: OfferTerms): Promise<any> {
+    logger.info('Submitting offer', { jobId, runnerId, priceCents: terms.priceCents });
+
+    this.validateTerms(terms);
+
+    const job = await this.jobRepository.findById(jobId);
+    this.ensureOpen(job);
+
+    if (job.client_id === runnerId) {
+      throw new ConflictError('You cannot make an offer on your own job', 'OWN_JOB');
+    }
+
+    const reservedFor = await this.offerRepository.findReservedRunner(jobId);
+    if (reservedFor !== null && reservedFor !== runnerId) {
+      throw new ConflictError(
+        "This job is being offered to the client's previous runner first",
+        'JOB_RESERVED'
+      );
+    }
+
+    if (await this.offerRepository.findPending(jobId, runnerId)) {
+      throw new ConflictError(
+        'You already have a pending offer on this job; withdraw it or wait for a reply',
+        'OFFER_EXISTS'
+      );
+    }
+
+    const offer = await this.offerRepository.create({
+      jobId,
+      runnerId,
+      proposedBy: 'runner',
+      priceCents: terms.priceCents,
+      etaMinutes: terms.etaMinutes ?? null,
+      note: terms.note?.trim() || null,
+    });
+
+    this.notify(job, offer);
+
+    return this.toView(offer);
+  }
+
+  /**
+   * Offer an open job to a runner on the client's behalf
+   * Used to give a recurring errand to the runner who did the last one
+   */
+  async proposeToRunner(job: Job, runnerId: number, terms: OfferTerms): Promise<any> {
+    this.validateTerms(terms);
+    this.ensureOpen(job);
+
+    if (job.client_id === runnerId) {
+      throw new ConflictError('You cannot offer a job to yourself', 'OWN_JOB');
+    }
+
+    const offer = await this.offerRepository.create({
+      jobId: job.id,
+      runnerId,
+      proposedBy: 'client',
+      priceCents: terms.priceCents,
+      etaMinutes: terms.etaMinutes ?? null,
+      note: terms.note?.trim() || null,
+    });
+
+    this.notify(job, offer);
+
+    return this.toView(offer);
+  }
+
+  /**
+   * List offers on a job
+   * The client sees every negotiation; a runner only sees their own
+   */
+  async getOffersForJob(jobId: number, userId: number): Promise<any[]> {
+    const job = await this.jobRepository.findById(jobId);
+
+    const offers = await this.offerRepository.findByJobId(
+      jobId,
+      job.client_id === userId ? undefined : userId
+    );
+
+    return offers.map((offer) => this.toView(offer));
+  }
+
+  /**
+   * List the current state of every negotiation the user takes part in
+   */
+  async getMyOffers(userId: number): Promise<any[]> {
+    const offers = await this.offerRepository.findLatestForUser(userId);
+
+    return offers.map((offer) => ({
+      ...this.toView(offer),
+      jobTitle: offer.job_title,
+      jobStatus: offer.job_status,
+      role: offer.client_id === userId ? 'client' : 'runner',
+      // Side expected to answer next, if the negotiation is still open
+      awaitingReplyFrom:
+        offer.status === 'pending' ? (offer.proposed_by === 'client' ? 'runner' : 'client') : null,
+    }));
+  }
+
+  /**
+   * Answer the other side's proposal with new terms
+   */
+  async counterOffer(offerId: number, userId: number, terms: OfferTerms): Promise<any> {
+    logger.info('Countering offer', { offerId, userId, priceCents: terms.priceCents });
+
+    this.validateTerms(terms);
+
+    const { offer, job, party } = await this.loadForResponse(offerId, userId);
+
+    const counter = await this.offerRepository.counter(offer.id, {
+      jobId: job.id,
+      runnerId: offer.runner_id,
+      proposedBy: party,
+      priceCents: terms.priceCents,
+      etaMinutes: terms.etaMinutes ?? offer.eta_minutes,
+      note: terms.note?.trim() || null,
+    });
+
+    this.notify(job, counter);
+
+    return this.toView(counter);
+  }
+
+  /**
+   * Accept the other side's proposal and assign the job at its price
+   */
+  async acceptOffer(offerId: number, userId: number): Promise<any> {
+    logger.info('Accepting offer', { offerId, userId });
+
+    const { offer, job, party } = await this.loadForResponse(offerId, userId);
+
+    // Guarded on the job still being open, so only one offer can win
+    const assignedJob = await this.jobService.assignRunner(job.id, offer.runner_id, {
+      priceCents: offer.price_cents,
+      acceptedBy: party,
+      actorId: userId,
+    });
+
+    const accepted = await this.offerRepository.accept(offer.id);
+
+    logger.info('Offer accepted', {
+      offerId,
+      jobId: job.id,
+      runnerId: offer.runner_id,
+      priceCents: offer.price_cents,
+    });
+
+    this.notify(job, accepted);
+
+    return { offer: this.toView(accepted), job: assignedJob };
+  }
+
+  /**
+   * Decline the other side's proposal, ending the negotiation
+   */
+  async rejectOffer(offerId: number, userId: number): Promise<any> {
+    const { offer, job } = await this.loadForResponse(offerId, userId);
+
+    const rejected = await this.offerRepository.close(offer.id, 'rejected');
+    this.notify(job, rejected);
+
+    return this.toView(rejected);
+  }
+
+  /**
+   * Take back your own proposal before it is answered
+   */
+  async withdrawOffer(offerId: number, userId: number): Promise<any> {
+    const offer = await this.offerRepository.findById(offerId);
+    const job = await this.jobRepository.findById(offer.job_id);
+
+    if (this.getParty(job, offer, userId) !== offer.proposed_by) {
+      throw new AuthorizationError('You can only withdraw your own offer', 'NOT_OFFER_AUTHOR');
+    }
+
+    const withdrawn = await this.offerRepository.close(offer.id, 'withdrawn');
+    this.notify(job, withdrawn);
+
+    return this.toView(withdrawn);
+  }
+
+  /**
+   * Load a pending proposal that the user is allowed to answer
+   */
+  private async loadForResponse(
+    offerId: number,
+    userId: number
+  ): Promise<{ offer: JobOffer; job: Job; party: OfferParty }> {
+    const offer = await this.offerRepository.findById(offerId);
+    const job = await this.jobRepository.findById(offer.job_id);
+    const party = this.getParty(job, offer, userId);
+
+    if (offer.status !== 'pending') {
+      throw new ConflictError('Offer has already been answered', 'OFFER_NOT_PENDING');
+    }
+
+    if (party === offer.proposed_by) {
+      throw new ConflictError('Waiting for the other side to respond', 'OFFER_AWAITING_RESPONSE');
+    }
+
+    this.ensureOpen(job);
+
+    return { offer, job, party };
+  }
+
+  private getParty(job: Job, offer: JobOffer, userId: number): OfferParty {
+    if (job.client_id === userId) {
+      return 'client';
+    }
+    if (offer.runner_id === userId) {
+      return 'runner';
+    }
+    throw new AuthorizationError('You are not part of this offer', 'NOT_OFFER_PARTICIPANT');
+  }
+
+  private ensureOpen(job: Job): void {
+    if (job.status !== 'open') {
+      throw new ConflictError('Job is no longer taking offers', 'JOB_NOT_OPEN');
+    }
+  }
+
+  private validateTerms(terms: OfferTerms): void {
+    if (!Number.isInteger(terms.priceCents) || terms.priceCents <= 0) {
+      throw new ValidationError('Price must be greater than 0', 'INVALID_PRICE');
+    }
+
+    if (
+      terms.etaMinutes !== undefined &&
+      (!Number.isInteger(terms.etaMinutes) ||
+        terms.etaMinutes <= 0 ||
+        terms.etaMinutes > OFFER_CONSTANTS.MAX_ETA_MINUTES)
+    ) {
+      throw new ValidationError(
+        `ETA must be between 1 and ${OFFER_CONSTANTS.MAX_ETA_MINUTES} minutes`,
+        'INVALID_ETA'
+      );
+    }
+
+    if (terms.note && terms.note.length > OFFER_CONSTANTS.NOTE.MAX_LENGTH) {
+      throw new ValidationError(
+        `Note must be less than ${OFFER_CONSTANTS.NOTE.MAX_LENGTH} characters`,
+        'NOTE_TOO_LONG'
+      );
+    }
+  }
+
+  private notify(job: Job, offer: JobOffer): void {
+    realtimeService.publish([job.client_id, offer.runner_id], 'offer.updated', {
+      offerId: offer.id,
+      jobId: job.id,
+      runnerId: offer.runner_id,
+      status: offer.status,
+    });
+  }
+
+  private toView(offer: JobOffer) {
+    return {
+      id: offer.id,
+      jobId: offer.job_id,
+      runnerId: offer.runner_id,
+      parentId: offer.parent_id,
+      proposedBy: offer.proposed_by,
+      priceCents: offer.price_cents,
+      etaMinutes: offer.eta_minutes,
+      note: offer.note,
+      status: offer.status,
+      createdAt: offer.created_at,
+      updatedAt: offer.updated_at,
+    };
+  }
+}
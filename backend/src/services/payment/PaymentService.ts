@@ -5,6 +5,7 @@
 
 import { PaymentRepository, CreatePaymentDto } from '../../database/repositories/PaymentRepository.js';
 import { JobRepository } from '../../database/repositories/JobRepository.js';
+import { JobStateMachine } from '../job/JobStateMachine.js';
 import { ValidationError, ConflictError } from '../../core/errors/AppError.js';
 import logger from '../../utils/logger.js';
 import crypto from 'crypto';
@@ -21,10 +22,14 @@ export interface ConfirmPaymentRequest {
 }
 
 export class PaymentService {
+  private readonly stateMachine: JobStateMachine;
+
   constructor(
     private readonly paymentRepository: PaymentRepository,
     private readonly jobRepository: JobRepository
-  ) {}
+  ) {
+    this.stateMachine = new JobStateMachine(jobRepository);
+  }
 
   /**
    * Create payment for job
@@ -71,8 +76,12 @@ export class PaymentService {
 
     const payment = await this.paymentRepository.create(createDto);
 
-    // Update job status to payment_confirmed
-    await this.jobRepository.updateStatus(data.jobId, 'payment_confirmed');
+    // Update job status to payment_confirmed (state machine triggers the runner payout)
+    await this.stateMachine.transition(data.jobId, 'payment_confirmed', {
+      actor: 'system',
+      actorId: null,
+      reason: 'Payment recorded',
+    });
 
     logger.info('Payment created successfully', { paymentId: payment.id, jobId: data.jobId });
 
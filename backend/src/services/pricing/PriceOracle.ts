@@ -0,0 +1,196 @@
+/**
+ * Price Oracle
+ * One BTC price for every sats/fiat conversion in the app
+ *
+ * Features:
+ * - Reads several price sources in parallel and takes the median, ignoring
+ *   sources that stray too far from it
+ * - Caches quotes per currency; a quote older than the cache TTL is refreshed,
+ *   and is still used while every source is down until it is too stale
+ * - Snapshots the quote used for an invoice or payout so the conversion can
+ *   be reproduced later
+ */
+
+import { PRICE_CONSTANTS } from '../../config/constants.js';
+import { ServiceUnavailableError, ValidationError } from '../../core/errors/AppError.js';
+import {
+  PriceSnapshot,
+  PriceSnapshotRepository,
+} from '../../database/repositories/PriceSnapshotRepository.js';
+import { centsToSats, satsToCents } from '../../utils/lightning.js';
+import logger from '../../utils/logger.js';
+import type { FiatCurrency, PriceSource } from './PriceSource.js';
+
+export interface PriceQuote {
+  currency: FiatCurrency;
+  btcPrice: number;        // One BTC in major units, rounded to the minor unit
+  sources: string[];       // Sources that agreed on the price
+  fetchedAt: Date;
+}
+
+export interface PriceOracleOptions {
+  cacheTtlMs?: number;
+  maxStalenessMs?: number;
+  maxDeviation?: number;
+}
+
+export interface SatsConversion {
+  sats: number;
+  snapshot: PriceSnapshot;
+}
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle]! : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+export function isFiatCurrency(value: string): value is FiatCurrency {
+  return (PRICE_CONSTANTS.CURRENCIES as readonly string[]).includes(value);
+}
+
+export class PriceOracle {
+  private readonly cacheTtlMs: number;
+  private readonly maxStalenessMs: number;
+  private readonly maxDeviation: number;
+  private readonly quotes = new Map<FiatCurrency, PriceQuote>();
+  // Snapshot of each cached quote, so one quote is stored once
+  private readonly snapshots = new WeakMap<PriceQuote, Promise<PriceSnapshot>>();
+  private refreshing: Promise<void> | null = null;
+
+  constructor(
+    private readonly sources: PriceSource[],
+    private readonly snapshotRepository: PriceSnapshotRepository = new PriceSnapshotRepository(),
+    options: PriceOracleOptions = {}
+  ) {
+    if (sources.length === 0) {
+      throw new Error('Price oracle needs at least one price source');
+    }
+    this.cacheTtlMs = options.cacheTtlMs ?? PRICE_CONSTANTS.CACHE_TTL_MS;
+    this.maxStalenessMs = options.maxStalenessMs ?? PRICE_CONSTANTS.MAX_STALENESS_MS;
+    this.maxDeviation = options.maxDeviation ?? PRICE_CONSTANTS.MAX_DEVIATION;
+  }
+
+  /**
+   * Current BTC price in a currency
+   * @throws ServiceUnavailableError PRICE_UNAVAILABLE if no source answered
+   * within the staleness bound
+   */
+  async getQuote(currency: FiatCurrency = 'USD'): Promise<PriceQuote> {
+    if (!this.isFresh(this.quotes.get(currency), this.cacheTtlMs)) {
+      await this.refresh();
+    }
+
+    const quote = this.quotes.get(currency);
+    if (!quote || !this.isFresh(quote, this.maxStalenessMs)) {
+      throw new ServiceUnavailableError(`No recent BTC/${currency} price available`, 'PRICE_UNAVAILABLE');
+    }
+    return quote;
+  }
+
+  /**
+   * Current quote, stored so a conversion made with it can be traced back
+   */
+  async snapshot(currency: FiatCurrency = 'USD'): Promise<PriceSnapshot> {
+    const quote = await this.getQuote(currency);
+
+    let snapshot = this.snapshots.get(quote);
+    if (!snapshot) {
+      snapshot = this.snapshotRepository.create({
+        currency: quote.currency,
+        btcPrice: quote.btcPrice,
+        sources: quote.sources,
+        fetchedAt: quote.fetchedAt,
+      });
+      snapshot.catch(() => this.snapshots.delete(quote));
+      this.snapshots.set(quote, snapshot);
+    }
+    return snapshot;
+  }
+
+  /**
+   * Snapshot a conversion stored earlier
+   */
+  async getSnapshot(id: number): Promise<PriceSnapshot | null> {
+    return this.snapshotRepository.findById(id);
+  }
+
+  /**
+   * Convert a fiat amount in minor units (cents) to sats at the current price
+   */
+  async fiatToSats(amountMinor: number, currency: FiatCurrency = 'USD'): Promise<SatsConversion> {
+    if (!Number.isFinite(amountMinor) || amountMinor < 0) {
+      throw new ValidationError('Amount must be a positive number', 'INVALID_AMOUNT');
+    }
+
+    const snapshot = await this.snapshot(currency);
+    return { sats: centsToSats(amountMinor, snapshot.btc_price), snapshot };
+  }
+
+  /**
+   * Value of a sats amount in fiat minor units (cents) at the current price
+   */
+  async satsToFiat(sats: number, currency: FiatCurrency = 'USD'): Promise<number> {
+    const quote = await this.getQuote(currency);
+    return satsToCents(sats, quote.btcPrice);
+  }
+
+  private isFresh(quote: PriceQuote | undefined, maxAgeMs: number): boolean {
+    return !!quote && Date.now() - quote.fetchedAt.getTime() <= maxAgeMs;
+  }
+
+  /**
+   * Read every source once, shared by concurrent callers
+   */
+  private refresh(): Promise<void> {
+    if (!this.refreshing) {
+      this.refreshing = this.fetchQuotes().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async fetchQuotes(): Promise<void> {
+    const currencies = PRICE_CONSTANTS.CURRENCIES;
+    const results = await Promise.allSettled(this.sources.map((source) => source.fetchPrices(currencies)));
+    const fetchedAt = new Date();
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        logger.warn('Price source failed', {
+          source: this.sources[i]!.name,
+          error: result.reason?.message ?? String(result.reason),
+        });
+      }
+    });
+
+    for (const currency of currencies) {
+      const readings: { source: string; price: number }[] = [];
+      results.forEach((result, i) => {
+        const price = result.status === 'fulfilled' ? result.value[currency] : undefined;
+        if (price !== undefined) {
+          readings.push({ source: this.sources[i]!.name, price });
+        }
+      });
+
+      if (readings.length === 0) {
+        continue;
+      }
+
+      const middle = median(readings.map((r) => r.price));
+      const agreeing = readings.filter((r) => Math.abs(r.price - middle) / middle <= this.maxDeviation);
+      const outliers = readings.filter((r) => !agreeing.includes(r));
+      if (outliers.length > 0) {
+        logger.warn('Ignoring outlying BTC prices', { currency, median: middle, outliers });
+      }
+
+      this.quotes.set(currency, {
+        currency,
+        btcPrice: Math.round(median(agreeing.map((r) => r.price)) * 100) / 100,
+        sources: agreeing.map((r) => r.source),
+        fetchedAt,
+      });
+    }
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Price Sources
+ * Public BTC price feeds read by the price oracle
+ *
+ * Each source reports the price of one bitcoin in whichever of the requested
+ * currencies it quotes; currencies it does not quote are left out.
+ */
+
+import axios, { AxiosInstance } from 'axios';
+import { PRICE_CONSTANTS } from '../../config/constants.js';
+
+export type FiatCurrency = (typeof PRICE_CONSTANTS.CURRENCIES)[number];
+export type PriceSourceName = (typeof PRICE_CONSTANTS.SOURCES)[number];
+
+/** Price of one BTC in major units (dollars, shillings) */
+export type BtcPrices = Partial<Record<FiatCurrency, number>>;
+
+export interface PriceSource {
+  readonly name: PriceSourceName;
+
+  fetchPrices(currencies: readonly FiatCurrency[]): Promise<BtcPrices>;
+}
+
+const createClient = (baseURL: string): AxiosInstance =>
+  axios.create({
+    baseURL,
+    timeout: PRICE_CONSTANTS.REQUEST_TIMEOUT_MS,
+    headers: { Accept: 'application/json' },
+  });
+
+/**
+ * Keep the positive, finite prices of the requested currencies
+ */
+function pickPrices(currencies: readonly FiatCurrency[], read: (currency: FiatCurrency) => unknown): BtcPrices {
+  const prices: BtcPrices = {};
+  for (const currency of currencies) {
+    const price = Number(read(currency));
+    if (Number.isFinite(price) && price > 0) {
+      prices[currency] = price;
+    }
+  }
+  return prices;
+}
+
+/**
+ * Coinbase exchange rates (quotes USD and KES)
+ */
+export class CoinbasePriceSource implements PriceSource {
+  readonly name = 'coinbase' as const;
+  private readonly client: AxiosInstance;
+
+  constructor(baseUrl: string = 'https://api.coinbase.com') {
+    this.client = createClient(baseUrl);
+  }
+
+  async fetchPrices(currencies: readonly FiatCurrency[]): Promise<BtcPrices> {
+    const response = await this.client.get('/v2/exchange-rates', { params: { currency: 'BTC' } });
+    const rates = response.data?.data?.rates ?? {};
+    return pickPrices(currencies, (currency) => rates[currency]);
+  }
+}
+
+/**
+ * Kraken ticker, last trade price (quotes USD only)
+ */
+export class KrakenPriceSource implements PriceSource {
+  readonly name = 'kraken' as const;
+  private readonly client: AxiosInstance;
+
+  constructor(baseUrl: string = 'https://api.kraken.com') {
+    this.client = createClient(baseUrl);
+  }
+
+  async fetchPrices(currencies: readonly FiatCurrency[]): Promise<BtcPrices> {
+    if (!currencies.includes('USD')) {
+      return {};
+    }
+
+    const response = await this.client.get('/0/public/Ticker', { params: { pair: 'XBTUSD' } });
+    const { error, result } = response.data ?? {};
+    if (Array.isArray(error) && error.length > 0) {
+      throw new Error(`Kraken: ${error.join(', ')}`);
+    }
+
+    // Kraken answers with its own pair name (XXBTZUSD)
+    const ticker: any = Object.values(result ?? {})[0];
+    return pickPrices(['USD'], () => ticker?.c?.[0]);
+  }
+}
+
+/**
+ * CoinGecko simple price (quotes USD and KES)
+ */
+export class CoinGeckoPriceSource implements PriceSource {
+  readonly name = 'coingecko' as const;
+  private readonly client: AxiosInstance;
+
+  constructor(baseUrl: string = 'https://api.coingecko.com') {
+    this.client = createClient(baseUrl);
+  }
+
+  async fetchPrices(currencies: readonly FiatCurrency[]): Promise<BtcPrices> {
+    const response = await this.client.get('/api/v3/simple/price', {
+      params: { ids: 'bitcoin', vs_currencies: currencies.map((c) => c.toLowerCase()).join(',') },
+    });
+    const bitcoin = response.data?.bitcoin ?? {};
+    return pickPrices(currencies, (currency) => bitcoin[currency.toLowerCase()]);
+  }
+}
+
+/**
+ * Fixed prices from configuration, for offline development and tests
+ */
+export class FixedPriceSource implements PriceSource {
+  readonly name = 'fixed' as const;
+
+  constructor(private readonly prices: BtcPrices) {}
+
+  async fetchPrices(currencies: readonly FiatCurrency[]): Promise<BtcPrices> {
+    return pickPrices(currencies, (currency) => this.prices[currency]);
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Price Oracle Setup
+ * Builds the price sources named by PRICE_SOURCES from environment variables
+ *
+ * PRICE_SOURCES is a comma-separated list (default: coinbase,kraken,coingecko).
+ * The fixed source reads BTC_PRICE_USD and BTC_PRICE_KES and is meant for
+ * offline development and tests.
+ */
+
+import { PRICE_CONSTANTS } from '../../config/constants.js';
+import logger from '../../utils/logger.js';
+import { PriceOracle } from './PriceOracle.js';
+import {
+  BtcPrices,
+  CoinbasePriceSource,
+  CoinGeckoPriceSource,
+  FixedPriceSource,
+  KrakenPriceSource,
+  PriceSource,
+  PriceSourceName,
+} from './PriceSource.js';
+
+type Env = Record<string, string | undefined>;
+
+export function createPriceSources(env: Env = process.env): PriceSource[] {
+  const names = (env['PRICE_SOURCES'] || PRICE_CONSTANTS.DEFAULT_SOURCES.join(','))
+    .split(',')
+    .map((name) => name.trim().toLowerCase())
+    .filter(Boolean);
+
+  return names.map((name) => {
+    if (!(PRICE_CONSTANTS.SOURCES as readonly string[]).includes(name)) {
+      throw new Error(`Unknown price source "${name}"; expected ${PRICE_CONSTANTS.SOURCES.join(', ')}`);
+    }
+
+    switch (name as PriceSourceName) {
+      case 'coinbase':
+        return new CoinbasePriceSource();
+      case 'kraken':
+        return new KrakenPriceSource();
+      case 'coingecko':
+        return new CoinGeckoPriceSource();
+      case 'fixed': {
+        const prices: BtcPrices = {};
+        for (const currency of PRICE_CONSTANTS.CURRENCIES) {
+          const price = env[`BTC_PRICE_${currency}`];
+          if (price) {
+            prices[currency] = Number(price);
+          }
+        }
+        if (Object.keys(prices).length === 0) {
+          throw new Error('BTC_PRICE_USD or BTC_PRICE_KES must be set to use the fixed price source');
+        }
+        logger.warn('Using FIXED BTC prices (DEV ONLY)', prices);
+        return new FixedPriceSource(prices);
+      }
+    }
+  });
+}
+
+// Shared by every conversion in the app
+export const priceOracle = new PriceOracle(createPriceSources());
@@ -0,0 +1,301 @@
+/**
+ * Realtime Service
+ * Pushes job, message and payment events to connected users over Server-Sent Events
+ *
+ * A stream outlives the access token it was opened with, so each heartbeat
+ * also checks the streams' sessions and closes those whose session was
+ * logged out or revoked, on whichever replica holds them.
+ */
+
+import type { Response } from 'express';
+import { REALTIME_CONSTANTS } from '../../config/constants.js';
+import { SessionRepository } from '../../database/repositories/SessionRepository.js';
+import type { JobActor, JobStatus } from '../../types/index.js';
+import logger from '../../utils/logger.js';
+
+export type RealtimeEventType =
+  | 'job.status_changed'
+  | 'message.created'
+  | 'payment.confirmed'
+  | 'payout.completed'
+  | 'tip.received'
+  | 'offer.updated'
+  | 'job.stop_completed'
+  | 'job.overdue'
+  | 'job.suggested'
+  | 'job.alert'
+  | 'runner.location';
+
+export interface JobStatusChangedEvent {
+  jobId: number;
+  status: JobStatus;
+  previousStatus: JobStatus;
+  actor: JobActor;
+  changedAt: string;
+}
+
+export interface MessageCreatedEvent {
+  id: number;
+  jobId: number;
+  senderId: number;
+  content: string;
+  mediaUrl: string | null;
+  lnInvoice: string | null;
+  createdAt: string;
+}
+
+export interface PaymentConfirmedEvent {
+  jobId: number;
+  paymentHash: string;
+}
+
+export interface PayoutCompletedEvent {
+  jobId: number | null;
+  earningId: number;
+  amountSats: number;
+  paymentHash: string | null;
+}
+
+export interface TipReceivedEvent {
+  tipId: number;
+  jobId: number;
+  amountSats: number;
+  amountCents: number;
+  method: 'invoice' | 'lightning_address';
+  message: string | null;
+}
+
+export interface OfferUpdatedEvent {
+  offerId: number;
+  jobId: number;
+  runnerId: number;
+  status: 'pending' | 'countered' | 'accepted' | 'rejected' | 'withdrawn';
+}
+
+export interface JobStopCompletedEvent {
+  jobId: number;
+  stopId: number;
+  position: number;
+  completedAt: string;
+}
+
+export interface JobOverdueEvent {
+  jobId: number;
+  title: string;
+  deadline: string;
+}
+
+export interface JobSuggestedEvent {
+  jobId: number;
+  title: string;
+  priceCents: number;
+  category: string | null;
+  distanceKm: number | null;
+}
+
+export interface JobAlertEvent {
+  searchId: number;
+  searchName: string;
+  digest: boolean;
+  total: number; // Jobs matched; only the first few are listed
+  jobs: Array<{
+    jobId: number;
+    title: string;
+    priceCents: number;
+    category: string | null;
+    distanceKm: number;
+  }>;
+}
+
+export interface RunnerLocationEvent {
+  jobId: number;
+  lat: number;
+  lng: number;
+  accuracyM: number | null;
+  heading: number | null;
+  recordedAt: string;
+  nextStopId: number | null;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+}
+
+export interface RealtimeEventMap {
+  'job.status_changed': JobStatusChangedEvent;
+  'message.created': MessageCreatedEvent;
+  'payment.confirmed': PaymentConfirmedEvent;
+  'payout.completed': PayoutCompletedEvent;
+  'tip.received': TipReceivedEvent;
+  'offer.updated': OfferUpdatedEvent;
+  'job.stop_completed': JobStopCompletedEvent;
+  'job.overdue': JobOverdueEvent;
+  'job.suggested': JobSuggestedEvent;
+  'job.alert': JobAlertEvent;
+  'runner.location': RunnerLocationEvent;
+}
+
+/**
+ * Anything that can receive a serialized event frame
+ * Satisfied by an Express Response holding an open event stream
+ */
+export type RealtimeStream = Pick<Response, 'write' | 'end'>;
+
+export class RealtimeService {
+  private readonly streams = new Map<number, Set<RealtimeStream>>();
+  // Session each stream was opened under
+  private readonly streamSessions = new Map<RealtimeStream, number>();
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private nextEventId = 1;
+
+  constructor(
+    private readonly sessionRepository: Pick<SessionRepository, 'findActiveIds'> = new SessionRepository()
+  ) {}
+
+  /**
+   * Register an open stream for a user
+   * @param sessionId - Session of the token the stream was opened with
+   * @returns Function that unregisters the stream
+   */
+  subscribe(userId: number, stream: RealtimeStream, sessionId?: number): () => void {
+    const userStreams = this.streams.get(userId) ?? new Set<RealtimeStream>();
+
+    // Drop the oldest stream rather than refusing a fresh tab
+    if (userStreams.size >= REALTIME_CONSTANTS.MAX_CONNECTIONS_PER_USER) {
+      const oldest = userStreams.values().next().value;
+      if (oldest) {
+        userStreams.delete(oldest);
+        this.streamSessions.delete(oldest);
+        oldest.end();
+      }
+    }
+
+    userStreams.add(stream);
+    this.streams.set(userId, userStreams);
+    if (sessionId !== undefined) {
+      this.streamSessions.set(stream, sessionId);
+    }
+    stream.write(`retry: ${REALTIME_CONSTANTS.RETRY_MS}\n\n`);
+    this.startHeartbeat();
+
+    logger.debug('Realtime stream opened', { userId, streams: userStreams.size });
+
+    return () => this.unsubscribe(userId, stream);
+  }
+
+  /**
+   * Send an event to every open stream of the given users
+   * Null IDs (e.g. a job without a runner) are skipped
+   */
+  publish<T extends RealtimeEventType>(
+    userIds: readonly (number | null | undefined)[],
+    type: T,
+    data: RealtimeEventMap[T]
+  ): void {
+    const recipients = new Set(userIds.filter((id): id is number => typeof id === 'number'));
+    if (recipients.size === 0) {
+      return;
+    }
+
+    const frame = `id: ${this.nextEventId++}\nevent: ${type}\ndata: ${JSON.stringify(data)}\n\n`;
+
+    for (const userId of recipients) {
+      for (const stream of this.streams.get(userId) ?? []) {
+        try {
+          stream.write(frame);
+        } catch (error) {
+          logger.warn('Failed to write realtime event', {
+            userId,
+            type,
+            error: (error as Error).message,
+          });
+        }
+      }
+    }
+  }
+
+  /**
+   * Close every stream whose session was logged out, revoked or has expired
+   * @returns Number of streams closed
+   */
+  async closeEndedSessions(): Promise<number> {
+    const sessionIds = [...new Set(this.streamSessions.values())];
+    if (sessionIds.length === 0) {
+      return 0;
+    }
+
+    const active = new Set(await this.sessionRepository.findActiveIds(sessionIds));
+    let closed = 0;
+
+    for (const [userId, userStreams] of [...this.streams]) {
+      for (const stream of [...userStreams]) {
+        const sessionId = this.streamSessions.get(stream);
+        if (sessionId === undefined || active.has(sessionId)) {
+          continue;
+        }
+
+        this.unsubscribe(userId, stream);
+        stream.end();
+        closed++;
+      }
+    }
+
+    if (closed > 0) {
+      logger.info('Closed realtime streams of ended sessions', { closed });
+    }
+
+    return closed;
+  }
+
+  /**
+   * Number of users with at least one open stream
+   */
+  getConnectedUserCount(): number {
+    return this.streams.size;
+  }
+
+  private startHeartbeat(): void {
+    if (this.heartbeat) {
+      return;
+    }
+
+    this.heartbeat = setInterval(() => {
+      for (const userStreams of this.streams.values()) {
+        for (const stream of userStreams) {
+          stream.write(': heartbeat\n\n');
+        }
+      }
+
+      this.closeEndedSessions().catch((error) => {
+        logger.warn('Failed to check realtime stream sessions', { error: (error as Error).message });
+      });
+    }, REALTIME_CONSTANTS.HEARTBEAT_INTERVAL_MS);
+
+    // Never keep the process alive just to ping idle streams
+    this.heartbeat.unref();
+  }
+
+  private unsubscribe(userId: number, stream: RealtimeStream): void {
+    const userStreams = this.streams.get(userId);
+    if (!userStreams?.delete(stream)) {
+      return;
+    }
+
+    this.streamSessions.delete(stream);
+    if (userStreams.size === 0) {
+      this.streams.delete(userId);
+    }
+    if (this.streams.size === 0) {
+      this.stopHeartbeat();
+    }
+
+    logger.debug('Realtime stream closed', { userId });
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -1,26 +1,146 @@
 /**
  * Review Service
  * Business logic for review management
+ *
+ * Reviews go both ways: the client rates the runner, and the runner rates the
+ * client and may flag a no-show or a late or missing payment. Reviews are
+ * blind: neither side sees the other's review until both have submitted or
+ * the review window closes, and a revealed review can no longer be changed.
+ *
+ * Clients may also rate the runner's punctuality, communication and care of
+ * items, and the runner may reply once to a revealed review. Anyone who can
+ * see a review may report it; an admin then hides it or dismisses the
+ * reports. Hidden reviews are kept but left out of listings and ratings.
  */
 
-import { ReviewRepository, CreateReviewDto, UpdateReviewDto } from '../../database/repositories/ReviewRepository.js';
-import { JobRepository } from '../../database/repositories/JobRepository.js';
+import {
+  ReviewRepository,
+  CreateReviewDto,
+  UpdateReviewDto,
+  Review,
+  ReviewerRole,
+  ClientFlag,
+} from '../../database/repositories/ReviewRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
 import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
-import { ValidationError, ConflictError } from '../../core/errors/AppError.js';
+import { ValidationError, ConflictError, NotFoundError } from '../../core/errors/AppError.js';
+import { REVIEW_CONSTANTS } from '../../config/constants.js';
+import type { JobStatus } from '../../types/index.js';
 import logger from '../../utils/logger.js';
 
+export interface SubRatings {
+  punctuality?: number | undefined;
+  communication?: number | undefined;
+  careOfItems?: number | undefined;
+}
+
 export interface CreateReviewRequest {
   jobId: number;
   reviewerId: number;
   rating: number;
   comment?: string;
+  flags?: ClientFlag[] | undefined;
+  subRatings?: SubRatings | undefined;
 }
 
 export interface UpdateReviewRequest {
   rating?: number;
   comment?: string;
+  flags?: ClientFlag[] | undefined;
+  subRatings?: SubRatings | undefined;
+}
+
+export interface ReviewView {
+  id: number;
+  jobId: number;
+  reviewerId: number;
+  revieweeId: number;
+  reviewerRole: ReviewerRole;
+  rating: number;
+  comment: string | null;
+  flags: ClientFlag[];
+  subRatings: {
+    punctuality: number | null;
+    communication: number | null;
+    careOfItems: number | null;
+  };
+  reply: { comment: string; createdAt: Date } | null;
+  revealed: boolean;
+  hidden: boolean; // Hidden by an admin; only its author still sees it
+  createdAt: Date;
+}
+
+export interface ReportedReviewView {
+  review: ReviewView;
+  reports: {
+    id: number;
+    reporterId: number;
+    reason: string;
+    createdAt: Date;
+  }[];
+}
+
+export interface RunnerRatingStats {
+  runnerId: number;
+  averageRating: number;
+  totalReviews: number;
+  subRatings: {
+    punctuality: number | null;
+    communication: number | null;
+    careOfItems: number | null;
+  };
+}
+
+export interface JobReviews {
+  jobId: number;
+  reviews: ReviewView[]; // Revealed reviews and the viewer's own
+  awaitingReveal: boolean; // A review the viewer cannot see yet exists
+  revealAt: Date | null; // When hidden reviews are revealed at the latest
+}
+
+export interface ClientRatingStats {
+  clientId: number;
+  averageRating: number;
+  totalReviews: number;
+  completedJobs: number;
+  flags: {
+    noShow: number;
+    latePayment: number;
+    noPayment: number;
+  };
 }
 
+// Statuses each side may review a job in; a runner may also review a job
+// that ended badly, such as a client who never showed up or paid
+const REVIEWABLE_STATUSES: Record<ReviewerRole, readonly JobStatus[]> = {
+  client: ['completed', 'payment_confirmed'],
+  runner: ['completed', 'payment_confirmed', 'paid', 'disputed', 'cancelled'],
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * When the review window of a job opened: once it was completed or paid,
+ * whichever came first, or its last update for a job that ended otherwise
+ */
+const reviewWindowOpenedAt = (job: Job): Date => {
+  const ends = [job.completed_at, job.payment_confirmed_at].filter((at): at is Date => at !== null);
+  return ends.length > 0 ? new Date(Math.min(...ends.map((at) => at.getTime()))) : job.updated_at;
+};
+
+const reviewWindowClosesAt = (job: Job): Date =>
+  new Date(reviewWindowOpenedAt(job).getTime() + REVIEW_CONSTANTS.REVEAL_WINDOW_DAYS * DAY_MS);
+
+/**
+ * Whether a user may see a review: its author always, anyone else once it
+ * is revealed and unless an admin hid it
+ */
+const isVisibleTo = (review: Review, viewerId: number): boolean =>
+  review.reviewer_id === viewerId || (review.revealed_at !== null && review.hidden_at === null);
+
+const roundRating = (rating: number | null): number | null =>
+  rating === null ? null : Math.round(Number(rating) * 10) / 10;
+
 export class ReviewService {
   constructor(
     private readonly reviewRepository: ReviewRepository,
@@ -29,145 +149,138 @@ export class ReviewService {
   ) {}
 
   /**
-   * Create review for completed job
+   * Create review for a finished job, as its client or runner
    */
-  async createReview(data: CreateReviewRequest): Promise<any> {
+  async createReview(data: CreateReviewRequest): Promise<ReviewView> {
     logger.info('Creating review', { jobId: data.jobId, reviewerId: data.reviewerId });
 
     // Verify job exists
     const job = await this.jobRepository.findById(data.jobId);
 
-    // Verify job is completed
-    if (job.status !== 'completed' && job.status !== 'payment_confirmed') {
+    // Verify reviewer took part in the job
+    const role: ReviewerRole | null =
+      job.client_id === data.reviewerId ? 'client' : job.runner_id === data.reviewerId ? 'runner' : null;
+    if (!role) {
+      throw new ConflictError('Only the client or runner of the job can review it', 'NOT_JOB_PARTICIPANT');
+    }
+
+    // Verify job is finished
+    if (!REVIEWABLE_STATUSES[role].includes(job.status)) {
       throw new ConflictError('Can only review completed jobs', 'JOB_NOT_COMPLETED');
     }
 
-    // Verify reviewer is the client
-    if (job.client_id !== data.reviewerId) {
-      throw new ConflictError('Only the client can review the job', 'NOT_JOB_CLIENT');
+    if (new Date() > reviewWindowClosesAt(job)) {
+      throw new ConflictError('The review window for this job has closed', 'REVIEW_WINDOW_CLOSED');
     }
 
-    // Check if review already exists
-    const existingReview = await this.reviewRepository.findByJobId(data.jobId);
+    // Check if this side already reviewed the job
+    const existingReview = await this.reviewRepository.findByJobAndRole(data.jobId, role);
     if (existingReview) {
       throw new ConflictError('Review already exists for this job', 'REVIEW_EXISTS');
     }
 
-    // Validate rating
-    if (data.rating < 1 || data.rating > 5) {
-      throw new ValidationError('Rating must be between 1 and 5', 'INVALID_RATING');
-    }
-
-    // Validate comment length
-    if (data.comment && data.comment.length > 1000) {
-      throw new ValidationError('Comment must be less than 1000 characters', 'COMMENT_TOO_LONG');
-    }
+    this.validateReview(data, role);
 
     const createDto: CreateReviewDto = {
       jobId: data.jobId,
       reviewerId: data.reviewerId,
+      revieweeId: role === 'client' ? job.runner_id! : job.client_id,
+      reviewerRole: role,
       rating: data.rating,
       comment: data.comment?.trim(),
+      flags: data.flags,
+      punctualityRating: data.subRatings?.punctuality,
+      communicationRating: data.subRatings?.communication,
+      careOfItemsRating: data.subRatings?.careOfItems,
     };
 
     const review = await this.reviewRepository.create(createDto);
 
-    // Update runner statistics
-    if (job.runner_id) {
-      await this.updateRunnerRating(job.runner_id);
+    // The second review reveals both
+    const revealed = await this.reviewRepository.revealIfBothSubmitted(data.jobId);
+    if (revealed.length > 0) {
+      await this.updateRatings(revealed);
     }
 
-    logger.info('Review created successfully', { reviewId: review.id, jobId: data.jobId });
+    logger.info('Review created successfully', {
+      reviewId: review.id,
+      jobId: data.jobId,
+      role,
+      revealed: revealed.length > 0,
+    });
 
-    return {
-      id: review.id,
-      jobId: review.job_id,
-      reviewerId: review.reviewer_id,
-      rating: review.rating,
-      comment: review.comment,
-      createdAt: review.created_at,
-    };
+    return this.toView(revealed.find((r) => r.id === review.id) ?? review);
   }
 
   /**
-   * Get review by ID
+   * Get review by ID; a hidden review is only found by its author
    */
-  async getReviewById(reviewId: number): Promise<any> {
+  async getReviewById(reviewId: number, viewerId: number): Promise<ReviewView> {
     logger.debug('Fetching review', { reviewId });
 
-    const review = await this.reviewRepository.findById(reviewId);
-
-    return {
-      id: review.id,
-      jobId: review.job_id,
-      reviewerId: review.reviewer_id,
-      rating: review.rating,
-      comment: review.comment,
-      createdAt: review.created_at,
-    };
+    return this.toView(await this.findVisibleReview(reviewId, viewerId));
   }
 
   /**
-   * Get review by job ID
+   * Get the reviews of a job the viewer may see
    */
-  async getReviewByJobId(jobId: number): Promise<any | null> {
-    logger.debug('Fetching review by job ID', { jobId });
-
-    const review = await this.reviewRepository.findByJobId(jobId);
+  async getReviewsForJob(jobId: number, viewerId: number): Promise<JobReviews> {
+    logger.debug('Fetching reviews for job', { jobId });
 
-    if (!review) {
-      return null;
-    }
+    const reviews = await this.reviewRepository.findByJobId(jobId);
+    const visible = reviews.filter((review) => isVisibleTo(review, viewerId));
+    const unrevealed = reviews.filter((review) => !review.revealed_at);
 
     return {
-      id: review.id,
-      jobId: review.job_id,
-      reviewerId: review.reviewer_id,
-      rating: review.rating,
-      comment: review.comment,
-      createdAt: review.created_at,
+      jobId,
+      reviews: visible.map((review) => this.toView(review)),
+      awaitingReveal: unrevealed.some((review) => review.reviewer_id !== viewerId),
+      revealAt: unrevealed.length > 0 ? reviewWindowClosesAt(await this.jobRepository.findById(jobId)) : null,
     };
   }
 
   /**
-   * Get reviews for runner
+   * Get revealed reviews of a runner
    */
-  async getReviewsForRunner(runnerId: number, limit: number = 20, offset: number = 0): Promise<any> {
+  async getReviewsForRunner(runnerId: number, limit: number = 20, offset: number = 0): Promise<ReviewView[]> {
     logger.debug('Fetching reviews for runner', { runnerId });
 
     const reviews = await this.reviewRepository.findForRunner(runnerId, limit, offset);
 
-    return reviews.map(review => ({
-      id: review.id,
-      jobId: review.job_id,
-      reviewerId: review.reviewer_id,
-      rating: review.rating,
-      comment: review.comment,
-      createdAt: review.created_at,
-    }));
+    return reviews.map((review) => this.toView(review));
+  }
+
+  /**
+   * Get revealed reviews of a client
+   */
+  async getReviewsForClient(clientId: number, limit: number = 20, offset: number = 0): Promise<ReviewView[]> {
+    logger.debug('Fetching reviews for client', { clientId });
+
+    const reviews = await this.reviewRepository.findForClient(clientId, limit, offset);
+
+    return reviews.map((review) => this.toView(review));
   }
 
   /**
-   * Get reviews by reviewer
+   * Get reviews by reviewer; hidden ones are only listed for their author
    */
-  async getReviewsByReviewer(reviewerId: number, limit: number = 20, offset: number = 0): Promise<any> {
+  async getReviewsByReviewer(
+    reviewerId: number,
+    viewerId: number,
+    limit: number = 20,
+    offset: number = 0
+  ): Promise<ReviewView[]> {
     logger.debug('Fetching reviews by reviewer', { reviewerId });
 
-    const reviews = await this.reviewRepository.findByReviewerId(reviewerId, limit, offset);
+    const reviews = await this.reviewRepository.findByReviewerId(reviewerId, limit, offset, reviewerId === viewerId);
 
-    return reviews.map(review => ({
-      id: review.id,
-      jobId: review.job_id,
-      rating: review.rating,
-      comment: review.comment,
-      createdAt: review.created_at,
-    }));
+    return reviews.map((review) => this.toView(review));
   }
 
   /**
-   * Update review
+   * Update review while it is still hidden
    */
-  async updateReview(reviewId: number, reviewerId: number, data: UpdateReviewRequest): Promise<any> {
+  async updateReview(reviewId: number, reviewerId: number, data: UpdateReviewRequest): Promise<ReviewView> {
     logger.info('Updating review', { reviewId, reviewerId });
 
     const review = await this.reviewRepository.findById(reviewId);
@@ -177,60 +290,73 @@ export class ReviewService {
       throw new ConflictError('You can only update your own reviews', 'NOT_REVIEW_OWNER');
     }
 
-    // Validate rating
-    if (data.rating !== undefined && (data.rating < 1 || data.rating > 5)) {
-      throw new ValidationError('Rating must be between 1 and 5', 'INVALID_RATING');
+    if (review.revealed_at) {
+      throw new ConflictError('Reviews cannot be changed once revealed', 'REVIEW_REVEALED');
     }
 
-    // Validate comment length
-    if (data.comment !== undefined && data.comment.length > 1000) {
-      throw new ValidationError('Comment must be less than 1000 characters', 'COMMENT_TOO_LONG');
-    }
+    this.validateReview(data, review.reviewer_role);
 
     const updateDto: UpdateReviewDto = {
       rating: data.rating,
       comment: data.comment?.trim(),
+      flags: data.flags,
+      punctualityRating: data.subRatings?.punctuality,
+      communicationRating: data.subRatings?.communication,
+      careOfItemsRating: data.subRatings?.careOfItems,
     };
 
     const updatedReview = await this.reviewRepository.update(reviewId, updateDto);
 
-    // Update runner statistics if rating changed
-    if (data.rating !== undefined) {
-      const job = await this.jobRepository.findById(review.job_id);
-      if (job.runner_id) {
-        await this.updateRunnerRating(job.runner_id);
-      }
-    }
-
     logger.info('Review updated successfully', { reviewId });
 
-    return {
-      id: updatedReview.id,
-      jobId: updatedReview.job_id,
-      rating: updatedReview.rating,
-      comment: updatedReview.comment,
-      createdAt: updatedReview.created_at,
-    };
+    return this.toView(updatedReview);
   }
 
   /**
-   * Get runner rating statistics
+   * Get runner rating statistics, with the average of each sub-rating
    */
-  async getRunnerRatingStats(runnerId: number): Promise<any> {
+  async getRunnerRatingStats(runnerId: number): Promise<RunnerRatingStats> {
     logger.debug('Fetching runner rating statistics', { runnerId });
 
     const avgRating = await this.reviewRepository.getAverageRatingForRunner(runnerId);
     const reviewCount = await this.reviewRepository.countForRunner(runnerId);
+    const subRatings = await this.reviewRepository.getSubRatingAveragesForRunner(runnerId);
 
     return {
       runnerId,
       averageRating: Math.round(avgRating * 10) / 10, // Round to 1 decimal
       totalReviews: reviewCount,
+      subRatings: {
+        punctuality: roundRating(subRatings.punctuality),
+        communication: roundRating(subRatings.communication),
+        careOfItems: roundRating(subRatings.care_of_items),
+      },
     };
   }
 
   /**
-   * Delete review
+   * Get client reputation, shown to runners before they take a job
+   */
+  async getClientRatingStats(clientId: number): Promise<ClientRatingStats> {
+    logger.debug('Fetching client rating statistics', { clientId });
+
+    const stats = await this.reviewRepository.getClientStats(clientId);
+
+    return {
+      clientId,
+      averageRating: Math.round(Number(stats.avg_rating) * 10) / 10, // Round to 1 decimal
+      totalReviews: stats.review_count,
+      completedJobs: stats.completed_jobs,
+      flags: {
+        noShow: stats.no_show_count,
+        latePayment: stats.late_payment_count,
+        noPayment: stats.no_payment_count,
+      },
+    };
+  }
+
+  /**
+   * Delete review while it is still hidden
    */
   async deleteReview(reviewId: number, reviewerId: number): Promise<void> {
     logger.info('Deleting review', { reviewId, reviewerId });
@@ -242,43 +368,288 @@ export class ReviewService {
       throw new ConflictError('You can only delete your own reviews', 'NOT_REVIEW_OWNER');
     }
 
-    // Get job to update runner stats after deletion
-    const job = await this.jobRepository.findById(review.job_id);
+    if (review.revealed_at) {
+      throw new ConflictError('Reviews cannot be deleted once revealed', 'REVIEW_REVEALED');
+    }
 
     await this.reviewRepository.delete(reviewId);
 
-    // Update runner statistics
-    if (job.runner_id) {
-      await this.updateRunnerRating(job.runner_id);
+    logger.info('Review deleted successfully', { reviewId });
+  }
+
+  /**
+   * Reply publicly to a revealed review, as the runner it is about
+   */
+  async replyToReview(reviewId: number, userId: number, reply: string): Promise<ReviewView> {
+    logger.info('Replying to review', { reviewId, userId });
+
+    const review = await this.findVisibleReview(reviewId, userId);
+
+    if (review.reviewer_role !== 'client' || review.reviewee_id !== userId) {
+      throw new ConflictError('Only the reviewed runner can reply to a review', 'NOT_REVIEWEE');
     }
 
-    logger.info('Review deleted successfully', { reviewId });
+    const comment = reply?.trim() ?? '';
+    if (comment.length === 0 || comment.length > REVIEW_CONSTANTS.REPLY.MAX_LENGTH) {
+      throw new ValidationError(
+        `Reply must be between 1 and ${REVIEW_CONSTANTS.REPLY.MAX_LENGTH} characters`,
+        'INVALID_REPLY'
+      );
+    }
+
+    const updatedReview = await this.reviewRepository.addReply(reviewId, comment);
+    if (!updatedReview) {
+      throw new ConflictError('This review already has a reply', 'REPLY_EXISTS');
+    }
+
+    logger.info('Review reply added', { reviewId });
+
+    return this.toView(updatedReview);
+  }
+
+  /**
+   * Report an abusive review to the moderators
+   */
+  async reportReview(reviewId: number, reporterId: number, reason: string): Promise<void> {
+    logger.info('Reporting review', { reviewId, reporterId });
+
+    const review = await this.findVisibleReview(reviewId, reporterId);
+
+    if (review.reviewer_id === reporterId) {
+      throw new ConflictError('You cannot report your own review', 'OWN_REVIEW');
+    }
+
+    const trimmed = reason?.trim() ?? '';
+    if (trimmed.length === 0 || trimmed.length > REVIEW_CONSTANTS.REPORT_REASON.MAX_LENGTH) {
+      throw new ValidationError(
+        `Reason must be between 1 and ${REVIEW_CONSTANTS.REPORT_REASON.MAX_LENGTH} characters`,
+        'INVALID_REASON'
+      );
+    }
+
+    const report = await this.reviewRepository.createReport(reviewId, reporterId, trimmed);
+    if (!report) {
+      throw new ConflictError('You already reported this review', 'REVIEW_ALREADY_REPORTED');
+    }
+
+    logger.info('Review reported', { reviewId, reportId: report.id });
+  }
+
+  /**
+   * List reviews with open reports for admin moderation
+   */
+  async listReportedReviews(limit: number = 20, offset: number = 0): Promise<ReportedReviewView[]> {
+    const reported = await this.reviewRepository.findReported(limit, offset);
+
+    return reported.map((review) => ({
+      review: this.toView(review),
+      reports: review.reports.map((report) => ({
+        id: report.id,
+        reporterId: report.reporter_id,
+        reason: report.reason,
+        createdAt: report.created_at,
+      })),
+    }));
+  }
+
+  /**
+   * Hide a review and uphold its reports (admin only)
+   */
+  async hideReview(reviewId: number, adminId: number, reason?: string): Promise<ReviewView> {
+    logger.info('Hiding review', { reviewId, adminId });
+
+    const existing = await this.reviewRepository.findById(reviewId);
+    if (existing.hidden_at) {
+      throw new ConflictError('Review is already hidden', 'REVIEW_HIDDEN');
+    }
+
+    const review = await this.reviewRepository.hide(reviewId, adminId, reason?.trim() || null);
+    const upheld = await this.reviewRepository.resolveReports(reviewId, adminId, 'upheld');
+    await this.updateRatings([review]);
+
+    logger.info('Review hidden', { reviewId, upheldReports: upheld });
+
+    return this.toView(review);
+  }
+
+  /**
+   * Show a hidden review again (admin only)
+   */
+  async restoreReview(reviewId: number, adminId: number): Promise<ReviewView> {
+    logger.info('Restoring review', { reviewId, adminId });
+
+    const existing = await this.reviewRepository.findById(reviewId);
+    if (!existing.hidden_at) {
+      throw new ConflictError('Review is not hidden', 'REVIEW_NOT_HIDDEN');
+    }
+
+    const review = await this.reviewRepository.restore(reviewId);
+    await this.updateRatings([review]);
+
+    logger.info('Review restored', { reviewId });
+
+    return this.toView(review);
+  }
+
+  /**
+   * Dismiss the open reports of a review, keeping it visible (admin only)
+   * @returns Number of reports dismissed
+   */
+  async dismissReports(reviewId: number, adminId: number): Promise<number> {
+    logger.info('Dismissing review reports', { reviewId, adminId });
+
+    const dismissed = await this.reviewRepository.resolveReports(reviewId, adminId, 'dismissed');
+    if (dismissed === 0) {
+      throw new NotFoundError('Review has no open reports', 'NO_OPEN_REPORTS');
+    }
+
+    return dismissed;
+  }
+
+  /**
+   * Reveal hidden reviews whose review window has closed
+   * @returns Number of reviews revealed
+   */
+  async revealExpired(): Promise<number> {
+    const revealed = await this.reviewRepository.revealExpired(REVIEW_CONSTANTS.REVEAL_WINDOW_DAYS);
+
+    if (revealed.length > 0) {
+      await this.updateRatings(revealed);
+      logger.info('Revealed reviews after the review window closed', { count: revealed.length });
+    }
+
+    return revealed.length;
+  }
+
+  /**
+   * Start periodic reveal of reviews past their window
+   */
+  startRevealJob(): void {
+    logger.info('Starting review reveal job', { windowDays: REVIEW_CONSTANTS.REVEAL_WINDOW_DAYS });
+
+    setInterval(() => {
+      this.revealExpired().catch((err) => {
+        logger.error('Review reveal job failed:', err);
+      });
+    }, REVIEW_CONSTANTS.REVEAL_INTERVAL_MS);
+  }
+
+  /**
+   * Find a review the viewer may see (internal helper)
+   */
+  private async findVisibleReview(reviewId: number, viewerId: number): Promise<Review> {
+    const review = await this.reviewRepository.findById(reviewId);
+
+    if (!isVisibleTo(review, viewerId)) {
+      throw new NotFoundError(`Review with ID ${reviewId} not found`, 'REVIEW_NOT_FOUND');
+    }
+
+    return review;
   }
 
   /**
-   * Update runner's average rating (internal helper)
+   * Validate rating, comment, flags and sub-ratings (internal helper)
+   */
+  private validateReview(data: UpdateReviewRequest, role: ReviewerRole): void {
+    const { MIN, MAX } = REVIEW_CONSTANTS.RATING;
+
+    if (data.rating !== undefined && (!Number.isInteger(data.rating) || data.rating < MIN || data.rating > MAX)) {
+      throw new ValidationError(`Rating must be between ${MIN} and ${MAX}`, 'INVALID_RATING');
+    }
+
+    if (data.comment !== undefined && data.comment.length > REVIEW_CONSTANTS.COMMENT.MAX_LENGTH) {
+      throw new ValidationError(
+        `Comment must be less than ${REVIEW_CONSTANTS.COMMENT.MAX_LENGTH} characters`,
+        'COMMENT_TOO_LONG'
+      );
+    }
+
+    if (data.flags !== undefined) {
+      const known: readonly string[] = REVIEW_CONSTANTS.CLIENT_FLAGS;
+      if (!Array.isArray(data.flags) || data.flags.some((flag) => !known.includes(flag))) {
+        throw new ValidationError(`Flags must be among: ${known.join(', ')}`, 'INVALID_FLAGS');
+      }
+      if (role !== 'runner' && data.flags.length > 0) {
+        throw new ValidationError('Only runners can flag a client', 'INVALID_FLAGS');
+      }
+    }
+
+    if (data.subRatings !== undefined) {
+      const values = Object.values(data.subRatings ?? {}).filter((value): value is number => value !== undefined);
+      if (values.some((value) => !Number.isInteger(value) || value < MIN || value > MAX)) {
+        throw new ValidationError(`Sub-ratings must be between ${MIN} and ${MAX}`, 'INVALID_SUB_RATINGS');
+      }
+      if (role !== 'client' && values.length > 0) {
+        throw new ValidationError('Only clients can give sub-ratings', 'INVALID_SUB_RATINGS');
+      }
+    }
+  }
+
+  /**
+   * Refresh the ratings of runners whose reviews were just revealed, hidden
+   * or restored (internal helper)
+   */
+  private async updateRatings(changed: Review[]): Promise<void> {
+    const runnerIds = new Set(
+      changed
+        .filter((review) => review.reviewer_role === 'client' && review.revealed_at !== null)
+        .map((review) => review.reviewee_id)
+    );
+
+    for (const runnerId of runnerIds) {
+      await this.updateRunnerRating(runnerId);
+    }
+  }
+
+  /**
+   * Map a review row to its API shape (internal helper)
+   */
+  private toView(review: Review): ReviewView {
+    return {
+      id: review.id,
+      jobId: review.job_id,
+      reviewerId: review.reviewer_id,
+      revieweeId: review.reviewee_id,
+      reviewerRole: review.reviewer_role,
+      rating: review.rating,
+      comment: review.comment,
+      flags: review.flags,
+      subRatings: {
+        punctuality: review.punctuality_rating,
+        communication: review.communication_rating,
+        careOfItems: review.care_of_items_rating,
+      },
+      reply: review.reply && review.replied_at ? { comment: review.reply, createdAt: review.replied_at } : null,
+      revealed: review.revealed_at !== null,
+      hidden: review.hidden_at !== null,
+      createdAt: review.created_at,
+    };
+  }
+
+  /**
+   * Update runner's average rating from revealed, visible reviews (internal helper)
    */
   private async updateRunnerRating(runnerId: number): Promise<void> {
     logger.debug('Updating runner rating', { runnerId });
 
     const avgRating = await this.reviewRepository.getAverageRatingForRunner(runnerId);
     const reviewCount = await this.reviewRepository.countForRunner(runnerId);
-    
+
     // Get actual completed job count (not just reviews)
     const completedJobs = await this.jobRepository.countCompletedJobsForRunner(runnerId);
 
     // Get runner profile
     const runnerProfile = await this.runnerRepository.findByUserId(runnerId);
-    
+
     if (runnerProfile) {
       await this.runnerRepository.updateStats(runnerProfile.id, {
         avgRating: Math.round(avgRating * 10) / 10,
         totalJobs: completedJobs, // Use actual completed job count
       });
 
-      logger.debug('Runner rating updated', { 
-        runnerId, 
-        avgRating: Math.round(avgRating * 10) / 10, 
+      logger.debug('Runner rating updated', {
+        runnerId,
+        avgRating: Math.round(avgRating * 10) / 10,
         reviewCount,
         completedJobs
       });
@@ -0,0 +1,281 @@
+/**
+ * Runner Availability Service
+ * Working hours, time off and job capacity of runners
+ *
+ * A runner can take a job right now when:
+ * - their availability switch is on
+ * - it is within their working hours in their time zone (or they set none)
+ * - they are not on time off
+ * - they have fewer jobs accepted or in progress than their maximum
+ * Search, matching and job assignment all use the same rules.
+ */
+
+import {
+  RunnerAvailabilityNow,
+  RunnerAvailabilityRepository,
+  RunnerAvailabilitySettings,
+  WorkingHoursDto,
+} from '../../database/repositories/RunnerAvailabilityRepository.js';
+import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../core/errors/AppError.js';
+import { RUNNER_CONSTANTS } from '../../config/constants.js';
+import { isValidTimeZone, parseZonedDateTime } from '../../utils/recurrence.js';
+import logger from '../../utils/logger.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface WorkingHoursView {
+  weekday: number; // 0 is Sunday
+  startsAt: string; // HH:MM
+  endsAt: string;
+}
+
+export interface TimeOffView {
+  id: number;
+  startsAt: Date;
+  endsAt: Date;
+  reason: string | null;
+}
+
+export interface RunnerAvailabilityView {
+  profileId: number;
+  isAvailable: boolean;
+  timezone: string;
+  maxConcurrentJobs: number;
+  workingHours: WorkingHoursView[];
+  timeOff: TimeOffView[]; // Current and upcoming blocks
+}
+
+export interface UpdateAvailabilityInput {
+  isAvailable?: boolean | undefined;
+  timezone?: string | undefined;
+  maxConcurrentJobs?: number | undefined;
+  workingHours?: WorkingHoursView[] | undefined; // Replaces all working hours
+}
+
+export interface AddTimeOffInput {
+  startsAt: string; // ISO 8601; without an offset it is read in the runner's time zone
+  endsAt: string;
+  reason?: string | undefined;
+}
+
+export class RunnerAvailabilityService {
+  constructor(
+    private readonly availabilityRepository: RunnerAvailabilityRepository = new RunnerAvailabilityRepository(),
+    private readonly runnerRepository: RunnerRepository = new RunnerRepository()
+  ) {}
+
+  /**
+   * Availability settings, working hours and upcoming time off of a runner
+   */
+  async getAvailability(profileId: number): Promise<RunnerAvailabilityView> {
+    const settings = await this.findSettings(profileId);
+    const [workingHours, timeOff] = await Promise.all([
+      this.availabilityRepository.findWorkingHours(profileId),
+      this.availabilityRepository.findUpcomingTimeOff(profileId),
+    ]);
+
+    return {
+      profileId,
+      isAvailable: settings.is_available,
+      timezone: settings.timezone,
+      maxConcurrentJobs: settings.max_concurrent_jobs,
+      workingHours: workingHours.map((h) => ({ weekday: h.weekday, startsAt: h.starts_at, endsAt: h.ends_at })),
+      timeOff: timeOff.map((t) => ({ id: t.id, startsAt: t.starts_at, endsAt: t.ends_at, reason: t.reason })),
+    };
+  }
+
+  /**
+   * Update the availability settings of a runner (profile owner only)
+   */
+  async updateAvailability(
+    profileId: number,
+    userId: number,
+    input: UpdateAvailabilityInput
+  ): Promise<RunnerAvailabilityView> {
+    await this.assertOwner(profileId, userId);
+
+    if (input.isAvailable !== undefined && typeof input.isAvailable !== 'boolean') {
+      throw new ValidationError('isAvailable must be true or false', 'INVALID_AVAILABILITY');
+    }
+    if (input.timezone !== undefined && !isValidTimeZone(input.timezone)) {
+      throw new ValidationError(`Unknown time zone ${input.timezone}`, 'INVALID_TIMEZONE');
+    }
+    if (
+      input.maxConcurrentJobs !== undefined &&
+      (!Number.isInteger(input.maxConcurrentJobs) ||
+        input.maxConcurrentJobs < 1 ||
+        input.maxConcurrentJobs > RUNNER_CONSTANTS.AVAILABILITY.MAX_CONCURRENT_JOBS)
+    ) {
+      throw new ValidationError(
+        `Maximum concurrent jobs must be between 1 and ${RUNNER_CONSTANTS.AVAILABILITY.MAX_CONCURRENT_JOBS}`,
+        'INVALID_MAX_CONCURRENT_JOBS'
+      );
+    }
+
+    const workingHours = input.workingHours === undefined ? undefined : this.validateWorkingHours(input.workingHours);
+    const settings: Partial<RunnerAvailabilitySettings> = {};
+    if (input.isAvailable !== undefined) settings.is_available = input.isAvailable;
+    if (input.timezone !== undefined) settings.timezone = input.timezone;
+    if (input.maxConcurrentJobs !== undefined) settings.max_concurrent_jobs = input.maxConcurrentJobs;
+
+    await this.availabilityRepository.update(profileId, settings, workingHours);
+
+    logger.info('Runner availability updated', { profileId, ...settings, workingHours: workingHours?.length });
+
+    return this.getAvailability(profileId);
+  }
+
+  /**
+   * Block out time off (profile owner only)
+   */
+  async addTimeOff(profileId: number, userId: number, input: AddTimeOffInput): Promise<TimeOffView> {
+    await this.assertOwner(profileId, userId);
+    const { timezone } = await this.findSettings(profileId);
+
+    const startsAt = typeof input.startsAt === 'string' ? parseZonedDateTime(input.startsAt, timezone) : null;
+    const endsAt = typeof input.endsAt === 'string' ? parseZonedDateTime(input.endsAt, timezone) : null;
+    if (!startsAt || !endsAt) {
+      throw new ValidationError('Time off needs a start and an end date-time', 'INVALID_TIME_OFF');
+    }
+    if (endsAt <= startsAt) {
+      throw new ValidationError('Time off must end after it starts', 'INVALID_TIME_OFF');
+    }
+    if (endsAt <= new Date()) {
+      throw new ValidationError('Time off must end in the future', 'INVALID_TIME_OFF');
+    }
+    if (endsAt.getTime() - startsAt.getTime() > RUNNER_CONSTANTS.AVAILABILITY.MAX_TIME_OFF_DAYS * DAY_MS) {
+      throw new ValidationError(
+        `Time off can last at most ${RUNNER_CONSTANTS.AVAILABILITY.MAX_TIME_OFF_DAYS} days`,
+        'TIME_OFF_TOO_LONG'
+      );
+    }
+    if (startsAt.getTime() - Date.now() > RUNNER_CONSTANTS.AVAILABILITY.MAX_TIME_OFF_DAYS * DAY_MS) {
+      throw new ValidationError(
+        `Time off can start at most ${RUNNER_CONSTANTS.AVAILABILITY.MAX_TIME_OFF_DAYS} days ahead`,
+        'TIME_OFF_TOO_FAR'
+      );
+    }
+
+    const reason = input.reason?.trim() || null;
+    if (reason && reason.length > RUNNER_CONSTANTS.AVAILABILITY.TIME_OFF_REASON_MAX_LENGTH) {
+      throw new ValidationError(
+        `Reason must be at most ${RUNNER_CONSTANTS.AVAILABILITY.TIME_OFF_REASON_MAX_LENGTH} characters`,
+        'REASON_TOO_LONG'
+      );
+    }
+
+    const timeOff = await this.availabilityRepository.createTimeOff({ runnerId: profileId, startsAt, endsAt, reason });
+
+    logger.info('Runner time off added', { profileId, timeOffId: timeOff.id });
+
+    return { id: timeOff.id, startsAt: timeOff.starts_at, endsAt: timeOff.ends_at, reason: timeOff.reason };
+  }
+
+  /**
+   * Remove a time off block (profile owner only)
+   */
+  async removeTimeOff(profileId: number, userId: number, timeOffId: number): Promise<void> {
+    await this.assertOwner(profileId, userId);
+
+    const removed = await this.availabilityRepository.deleteTimeOff(profileId, timeOffId);
+    if (!removed) {
+      throw new NotFoundError('Time off not found', 'TIME_OFF_NOT_FOUND');
+    }
+
+    logger.info('Runner time off removed', { profileId, timeOffId });
+  }
+
+  /**
+   * Check that a runner can take a job right now
+   * Working hours only bind jobs the client assigns; a runner accepting a
+   * job themselves outside their hours has chosen to work. Users without a
+   * runner profile are not checked.
+   */
+  async assertAvailable(runnerId: number, acceptedBy: 'client' | 'runner'): Promise<void> {
+    const availability = await this.availabilityRepository.findAvailabilityNow(runnerId);
+    if (!availability) {
+      return;
+    }
+
+    const error = this.unavailableError(availability, acceptedBy);
+    if (error) {
+      throw error;
+    }
+  }
+
+  private unavailableError(availability: RunnerAvailabilityNow, acceptedBy: 'client' | 'runner'): ConflictError | null {
+    if (!availability.is_available) {
+      return new ConflictError('The runner is not taking jobs right now', 'RUNNER_UNAVAILABLE');
+    }
+    if (availability.on_time_off) {
+      return new ConflictError('The runner is on time off', 'RUNNER_TIME_OFF');
+    }
+    if (!availability.within_hours && acceptedBy === 'client') {
+      return new ConflictError('The runner is outside their working hours', 'RUNNER_OFF_HOURS');
+    }
+    if (availability.active_jobs >= availability.max_concurrent_jobs) {
+      return new ConflictError(
+        `The runner already has ${availability.active_jobs} of ${availability.max_concurrent_jobs} jobs in progress`,
+        'RUNNER_AT_CAPACITY'
+      );
+    }
+    return null;
+  }
+
+  private async findSettings(profileId: number): Promise<RunnerAvailabilitySettings> {
+    const settings = await this.availabilityRepository.findSettings(profileId);
+    if (!settings) {
+      throw new NotFoundError(`Runner profile with ID ${profileId} not found`, 'RUNNER_NOT_FOUND');
+    }
+    return settings;
+  }
+
+  private async assertOwner(profileId: number, userId: number): Promise<void> {
+    const profile = await this.runnerRepository.findById(profileId);
+    if (profile.user_id !== userId) {
+      throw new AuthorizationError('You can only change your own availability', 'NOT_PROFILE_OWNER');
+    }
+  }
+
+  /**
+   * Weekday, HH:MM format, end after start and no overlaps within a day
+   */
+  private validateWorkingHours(hours: WorkingHoursView[]): WorkingHoursDto[] {
+    if (!Array.isArray(hours)) {
+      throw new ValidationError('Working hours must be a list', 'INVALID_WORKING_HOURS');
+    }
+    if (hours.length > RUNNER_CONSTANTS.AVAILABILITY.MAX_WORKING_HOURS) {
+      throw new ValidationError(
+        `At most ${RUNNER_CONSTANTS.AVAILABILITY.MAX_WORKING_HOURS} working hour blocks are allowed`,
+        'TOO_MANY_WORKING_HOURS'
+      );
+    }
+
+    for (const block of hours) {
+      if (!Number.isInteger(block?.weekday) || block.weekday < 0 || block.weekday > 6) {
+        throw new ValidationError('Weekday must be 0 (Sunday) to 6 (Saturday)', 'INVALID_WORKING_HOURS');
+      }
+      if (!TIME_PATTERN.test(block.startsAt) || !TIME_PATTERN.test(block.endsAt)) {
+        throw new ValidationError('Working hours must be HH:MM', 'INVALID_WORKING_HOURS');
+      }
+      if (block.endsAt <= block.startsAt) {
+        throw new ValidationError('Working hours must end after they start', 'INVALID_WORKING_HOURS');
+      }
+    }
+
+    const sorted = [...hours].sort((a, b) => a.weekday - b.weekday || a.startsAt.localeCompare(b.startsAt));
+    for (let i = 1; i < sorted.length; i++) {
+      const previous = sorted[i - 1]!;
+      const current = sorted[i]!;
+      if (current.weekday === previous.weekday && current.startsAt < previous.endsAt) {
+        throw new ValidationError('Working hours on the same day must not overlap', 'OVERLAPPING_WORKING_HOURS');
+      }
+    }
+
+    return sorted.map(({ weekday, startsAt, endsAt }) => ({ weekday, startsAt, endsAt }));
+  }
+}
+
+export const runnerAvailabilityService = new RunnerAvailabilityService();
@@ -37,6 +37,7 @@ export interface SearchRunnersRequest {
   lat?: number;
   lng?: number;
   radiusKm?: number;
+  availableOnly?: boolean;
   limit?: number;
   offset?: number;
 }
@@ -146,6 +147,7 @@ export class RunnerService {
       completionRate: profile.completion_rate,
       avgRating: profile.avg_rating,
       totalJobs: profile.total_jobs,
+      available: profile.is_available ?? true,
       createdAt: profile.created_at,
       updatedAt: profile.updated_at,
     };
@@ -175,6 +177,7 @@ export class RunnerService {
       completionRate: profile.completion_rate,
       avgRating: profile.avg_rating,
       totalJobs: profile.total_jobs,
+      available: profile.is_available ?? true,
       createdAt: profile.created_at,
       updatedAt: profile.updated_at,
     };
@@ -256,7 +259,8 @@ export class RunnerService {
         params.lng,
         params.radiusKm,
         params.limit || 20,
-        params.offset || 0
+        params.offset || 0,
+        params.availableOnly ?? false
       );
     } else {
       // Filter-based search
@@ -268,6 +272,7 @@ export class RunnerService {
         lat: params.lat,
         lng: params.lng,
         radiusKm: params.radiusKm,
+        availableOnly: params.availableOnly,
         limit: params.limit || 20,
         offset: params.offset || 0,
       };
@@ -286,6 +291,7 @@ export class RunnerService {
       completionRate: runner.completion_rate,
       avgRating: runner.avg_rating,
       totalJobs: runner.total_jobs,
+      available: runner.available_now ?? false,
     }));
   }
 
@@ -0,0 +1,63 @@
+/**
+ * Alert Schedule
+ * When the alerts of a saved search may go out
+ *
+ * - Quiet hours hold every alert until they end. They are read on the wall
+ *   clock of the search's time zone and may span midnight (22:00 to 07:00).
+ * - A daily digest goes out once a local day, from DIGEST_TIME on; matches
+ *   collected since the last one are sent together.
+ */
+
+import { SAVED_SEARCH_CONSTANTS } from '../../config/constants.js';
+import type { SavedSearch } from '../../database/repositories/SavedSearchRepository.js';
+import { toLocal } from '../../utils/recurrence.js';
+
+export type AlertTiming = Pick<SavedSearch, 'quiet_start' | 'quiet_end' | 'timezone' | 'digest' | 'last_digest_at'>;
+
+const minutesOf = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return (hours ?? 0) * 60 + (minutes ?? 0);
+};
+
+/**
+ * Whether a time falls in quiet hours; equal start and end mean none
+ */
+export function isQuietTime(at: Date, quietStart: string | null, quietEnd: string | null, timeZone: string): boolean {
+  if (quietStart === null || quietEnd === null || quietStart === quietEnd) {
+    return false;
+  }
+
+  const local = toLocal(at, timeZone);
+  const now = local.hour * 60 + local.minute;
+  const start = minutesOf(quietStart);
+  const end = minutesOf(quietEnd);
+
+  return start < end ? now >= start && now < end : now >= start || now < end;
+}
+
+/**
+ * Whether today's digest is due: it is past the digest time and none went
+ * out yet on this local day
+ */
+export function isDigestDue(at: Date, lastDigestAt: Date | null, timeZone: string): boolean {
+  const local = toLocal(at, timeZone);
+  if (local.hour * 60 + local.minute < minutesOf(SAVED_SEARCH_CONSTANTS.DIGEST_TIME)) {
+    return false;
+  }
+  if (lastDigestAt === null) {
+    return true;
+  }
+
+  const last = toLocal(lastDigestAt, timeZone);
+  return Date.UTC(last.year, last.month - 1, last.day) < Date.UTC(local.year, local.month - 1, local.day);
+}
+
+/**
+ * Whether a search's pending matches can be sent now
+ */
+export function isAlertDue(search: AlertTiming, at: Date): boolean {
+  if (isQuietTime(at, search.quiet_start, search.quiet_end, search.timezone)) {
+    return false;
+  }
+  return !search.digest || isDigestDue(at, search.last_digest_at, search.timezone);
+}
@@ -0,0 +1,420 @@
+/**
+ * Saved Search Service
+ * Saved job searches of runners and alerts about new jobs that match them
+ *
+ * Flow:
+ * 1. A runner saves a search: an area (point and radius), categories and a
+ *    minimum price, the channels to be alerted on (in-app, email, Web Push),
+ *    optional quiet hours and whether to get a daily digest instead
+ * 2. The sweeper checks every new open job against all active searches once,
+ *    after any offer to a previous runner has run out, and records matches
+ * 3. Matches are sent right away, or held until quiet hours end, or collected
+ *    until the next daily digest (see AlertSchedule)
+ * 4. Matches on jobs that are taken or withdrawn meanwhile are dropped unsent
+ */
+
+import {
+  AlertChannel,
+  PendingMatch,
+  SavedSearch,
+  SavedSearchDto,
+  SavedSearchRepository,
+  SavedSearchWithEmail,
+} from '../../database/repositories/SavedSearchRepository.js';
+import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import { AuthorizationError, ConflictError, NotFoundError, ValidationError } from '../../core/errors/AppError.js';
+import { JOB_CONSTANTS, SAVED_SEARCH_CONSTANTS } from '../../config/constants.js';
+import { isValidTimeZone } from '../../utils/recurrence.js';
+import { isAlertDue } from './AlertSchedule.js';
+import { EmailService, emailService as defaultEmailService } from '../email.service.js';
+import { WebPushService, webPushService as defaultWebPushService } from '../notification/WebPushService.js';
+import { JobAlertEvent, realtimeService } from '../realtime/RealtimeService.js';
+import logger from '../../utils/logger.js';
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+export interface QuietHours {
+  start: string; // HH:MM
+  end: string; // May be earlier than start, spanning midnight
+}
+
+export interface SavedSearchInput {
+  name: string;
+  location: { lat: number; lng: number };
+  radiusKm: number;
+  categories?: string[] | undefined; // None matches any category
+  minPriceCents?: number | null | undefined;
+  channels?: AlertChannel[] | undefined;
+  quietHours?: QuietHours | null | undefined;
+  timezone?: string | undefined;
+  digest?: boolean | undefined;
+  isActive?: boolean | undefined;
+}
+
+// Fields left undefined keep their current value
+export type SavedSearchChanges = { [K in keyof SavedSearchInput]?: SavedSearchInput[K] | undefined };
+
+export interface SavedSearchView {
+  id: number;
+  name: string;
+  location: { lat: number; lng: number };
+  radiusKm: number;
+  categories: string[];
+  minPriceCents: number | null;
+  channels: AlertChannel[];
+  quietHours: QuietHours | null;
+  timezone: string;
+  digest: boolean;
+  isActive: boolean;
+  lastDigestAt: Date | null;
+  createdAt: Date;
+}
+
+export interface AlertRun {
+  jobs: number; // New jobs checked
+  matches: number;
+  alerts: number; // Alerts sent, each covering one or more matches
+}
+
+export class SavedSearchService {
+  constructor(
+    private readonly searchRepository: SavedSearchRepository = new SavedSearchRepository(),
+    private readonly runnerRepository: RunnerRepository = new RunnerRepository(),
+    private readonly emailService: EmailService = defaultEmailService,
+    private readonly webPushService: WebPushService = defaultWebPushService
+  ) {}
+
+  /**
+   * Saved searches of a runner
+   */
+  async getSearches(runnerId: number): Promise<SavedSearchView[]> {
+    const searches = await this.searchRepository.findByRunnerId(runnerId);
+    return searches.map((search) => this.toView(search));
+  }
+
+  /**
+   * Save a search (runners only)
+   */
+  async createSearch(runnerId: number, input: SavedSearchInput): Promise<SavedSearchView> {
+    const profile = await this.runnerRepository.findByUserId(runnerId);
+    if (!profile) {
+      throw new AuthorizationError('Only runners can save job searches', 'NOT_A_RUNNER');
+    }
+
+    const count = await this.searchRepository.countForRunner(runnerId);
+    if (count >= SAVED_SEARCH_CONSTANTS.MAX_PER_RUNNER) {
+      throw new ConflictError(
+        `You can have at most ${SAVED_SEARCH_CONSTANTS.MAX_PER_RUNNER} saved searches`,
+        'TOO_MANY_SAVED_SEARCHES'
+      );
+    }
+
+    const search = await this.searchRepository.create(runnerId, this.validateSearch(input));
+
+    logger.info('Search saved', { searchId: search.id, runnerId, channels: search.channels });
+
+    return this.toView(search);
+  }
+
+  /**
+   * Change a saved search
+   */
+  async updateSearch(searchId: number, runnerId: number, changes: SavedSearchChanges): Promise<SavedSearchView> {
+    const search = await this.requireOwnSearch(searchId, runnerId);
+
+    const fields = this.validateSearch({ ...this.toInput(search), ...this.definedOnly(changes) });
+    const updated = await this.searchRepository.update(searchId, fields);
+    if (!updated) {
+      throw new NotFoundError('Saved search not found', 'SAVED_SEARCH_NOT_FOUND');
+    }
+
+    logger.info('Saved search updated', { searchId, runnerId });
+
+    return this.toView(updated);
+  }
+
+  /**
+   * Delete a saved search; alerts not sent yet are dropped
+   */
+  async deleteSearch(searchId: number, runnerId: number): Promise<void> {
+    await this.requireOwnSearch(searchId, runnerId);
+    await this.searchRepository.delete(searchId);
+
+    logger.info('Saved search deleted', { searchId, runnerId });
+  }
+
+  /**
+   * One pass of the sweeper: match new jobs, then send the alerts that are due
+   * A search that fails is logged; its claimed matches are not sent again.
+   */
+  async runAlerts(now: Date = new Date()): Promise<AlertRun> {
+    const jobIds = await this.searchRepository.claimNewJobs(SAVED_SEARCH_CONSTANTS.SWEEP_BATCH_SIZE);
+    const run: AlertRun = { jobs: jobIds.length, matches: 0, alerts: 0 };
+
+    run.matches = await this.searchRepository.recordMatches(jobIds);
+    await this.searchRepository.discardStaleMatches();
+
+    for (const search of await this.searchRepository.findWithPendingMatches()) {
+      if (!isAlertDue(search, now)) {
+        continue;
+      }
+
+      try {
+        const matches = await this.searchRepository.claimPendingMatches(search.id);
+        if (matches.length === 0) {
+          continue;
+        }
+        if (search.digest) {
+          await this.searchRepository.markDigestSent(search.id, now);
+        }
+        await this.sendAlert(search, matches);
+        run.alerts++;
+      } catch (error) {
+        logger.error('Failed to send saved search alert', {
+          searchId: search.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (run.matches > 0 || run.alerts > 0) {
+      logger.info('Saved search alerts sent', run);
+    }
+
+    return run;
+  }
+
+  /**
+   * Start periodic alerts
+   */
+  startAlertJob(): void {
+    logger.info('Starting saved search alerts', {
+      digestTime: SAVED_SEARCH_CONSTANTS.DIGEST_TIME,
+      webPush: this.webPushService.isEnabled(),
+    });
+
+    setInterval(() => {
+      this.runAlerts().catch((err) => {
+        logger.error('Saved search alerts failed:', err);
+      });
+    }, SAVED_SEARCH_CONSTANTS.SWEEP_INTERVAL_MS);
+  }
+
+  /**
+   * Tell a runner about the new jobs of a search on each of its channels
+   */
+  private async sendAlert(search: SavedSearchWithEmail, matches: PendingMatch[]): Promise<void> {
+    const event: JobAlertEvent = {
+      searchId: search.id,
+      searchName: search.name,
+      digest: search.digest,
+      total: matches.length,
+      jobs: matches.slice(0, SAVED_SEARCH_CONSTANTS.ALERT_JOBS_SHOWN).map((match) => ({
+        jobId: match.job_id,
+        title: match.title,
+        priceCents: match.price_cents,
+        category: match.category,
+        distanceKm: Math.round(match.distance_km * 10) / 10,
+      })),
+    };
+    const { subject, body, path } = this.describeAlert(event);
+    const channels = new Set(search.channels);
+
+    if (channels.has('in_app')) {
+      realtimeService.publish([search.runner_id], 'job.alert', event);
+    }
+
+    if (channels.has('email') && search.email) {
+      const frontendUrl = process.env['FRONTEND_URL'] || 'http://localhost:5173';
+      await this.emailService.sendNotification({
+        to: search.email,
+        subject,
+        body,
+        actionUrl: `${frontendUrl}${path}`,
+        actionLabel: matches.length === 1 ? 'View job' : 'Browse jobs',
+        footer:
+          `You get these emails for your saved search "${search.name}". ` +
+          'You can change or delete it on the Browse Jobs page.',
+      });
+    }
+
+    if (channels.has('push')) {
+      await this.webPushService.sendToUser(search.runner_id, {
+        title: subject,
+        body,
+        url: path,
+        tag: `saved-search-${search.id}`,
+      });
+    }
+  }
+
+  /**
+   * Subject, text and app path of an alert
+   */
+  private describeAlert(event: JobAlertEvent): { subject: string; body: string; path: string } {
+    const describeJob = (job: JobAlertEvent['jobs'][number]) =>
+      `${job.title} · $${(job.priceCents / 100).toFixed(2)} · ${job.distanceKm} km away`;
+
+    const [first] = event.jobs;
+    if (event.total === 1 && first) {
+      return { subject: `New job for "${event.searchName}"`, body: describeJob(first), path: `/jobs/${first.jobId}` };
+    }
+
+    const lines = event.jobs.map((job) => `- ${describeJob(job)}`);
+    if (event.total > event.jobs.length) {
+      lines.push(`and ${event.total - event.jobs.length} more`);
+    }
+
+    return {
+      subject: event.digest
+        ? `Daily digest for "${event.searchName}": ${event.total} new jobs`
+        : `${event.total} new jobs for "${event.searchName}"`,
+      body: lines.join('\n'),
+      path: '/browse-jobs',
+    };
+  }
+
+  /**
+   * Check a whole search and normalize it for storage
+   */
+  private validateSearch(input: SavedSearchInput): SavedSearchDto {
+    const name = typeof input.name === 'string' ? input.name.trim() : '';
+    if (!name || name.length > SAVED_SEARCH_CONSTANTS.NAME_MAX_LENGTH) {
+      throw new ValidationError(
+        `Name is required and must be at most ${SAVED_SEARCH_CONSTANTS.NAME_MAX_LENGTH} characters`,
+        'INVALID_SEARCH_NAME'
+      );
+    }
+
+    const lat = Number(input.location?.lat);
+    const lng = Number(input.location?.lng);
+    if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+      throw new ValidationError('A search needs a valid location', 'INVALID_LOCATION');
+    }
+
+    if (
+      typeof input.radiusKm !== 'number' ||
+      !(input.radiusKm > 0) ||
+      input.radiusKm > SAVED_SEARCH_CONSTANTS.MAX_RADIUS_KM
+    ) {
+      throw new ValidationError(
+        `Radius must be more than 0 and at most ${SAVED_SEARCH_CONSTANTS.MAX_RADIUS_KM} km`,
+        'INVALID_RADIUS'
+      );
+    }
+
+    const categories = input.categories ?? [];
+    if (
+      !Array.isArray(categories) ||
+      categories.some((category) => !(JOB_CONSTANTS.CATEGORIES as readonly string[]).includes(category))
+    ) {
+      throw new ValidationError(
+        `Categories must be among ${JOB_CONSTANTS.CATEGORIES.join(', ')}`,
+        'INVALID_CATEGORIES'
+      );
+    }
+
+    const minPriceCents = input.minPriceCents ?? null;
+    if (minPriceCents !== null && (!Number.isInteger(minPriceCents) || minPriceCents < 0)) {
+      throw new ValidationError('Minimum price must be a whole number of cents', 'INVALID_MIN_PRICE');
+    }
+
+    const channels = input.channels ?? ['in_app'];
+    if (
+      !Array.isArray(channels) ||
+      channels.length === 0 ||
+      channels.some((channel) => !(SAVED_SEARCH_CONSTANTS.CHANNELS as readonly string[]).includes(channel))
+    ) {
+      throw new ValidationError(
+        `Alert channels must be one or more of ${SAVED_SEARCH_CONSTANTS.CHANNELS.join(', ')}`,
+        'INVALID_CHANNELS'
+      );
+    }
+
+    const quietHours = input.quietHours ?? null;
+    if (
+      quietHours !== null &&
+      (!TIME_PATTERN.test(quietHours.start) ||
+        !TIME_PATTERN.test(quietHours.end) ||
+        quietHours.start === quietHours.end)
+    ) {
+      throw new ValidationError('Quiet hours need a different HH:MM start and end', 'INVALID_QUIET_HOURS');
+    }
+
+    const timezone = input.timezone ?? 'UTC';
+    if (!isValidTimeZone(timezone)) {
+      throw new ValidationError(`Unknown time zone ${timezone}`, 'INVALID_TIMEZONE');
+    }
+
+    return {
+      name,
+      lat,
+      lng,
+      radiusKm: input.radiusKm,
+      categories: [...new Set(categories)],
+      minPriceCents,
+      channels: [...new Set(channels)],
+      quietStart: quietHours?.start ?? null,
+      quietEnd: quietHours?.end ?? null,
+      timezone,
+      digest: input.digest === true,
+      isActive: input.isActive !== false,
+    };
+  }
+
+  private toView(search: SavedSearch): SavedSearchView {
+    return {
+      id: search.id,
+      name: search.name,
+      location: { lat: search.lat, lng: search.lng },
+      radiusKm: search.radius_km,
+      categories: search.categories,
+      minPriceCents: search.min_price_cents,
+      channels: search.channels,
+      quietHours:
+        search.quiet_start !== null && search.quiet_end !== null
+          ? { start: search.quiet_start, end: search.quiet_end }
+          : null,
+      timezone: search.timezone,
+      digest: search.digest,
+      isActive: search.is_active,
+      lastDigestAt: search.last_digest_at,
+      createdAt: search.created_at,
+    };
+  }
+
+  private toInput(search: SavedSearch): SavedSearchInput {
+    const view = this.toView(search);
+    return {
+      name: view.name,
+      location: view.location,
+      radiusKm: view.radiusKm,
+      categories: view.categories,
+      minPriceCents: view.minPriceCents,
+      channels: view.channels,
+      quietHours: view.quietHours,
+      timezone: view.timezone,
+      digest: view.digest,
+      isActive: view.isActive,
+    };
+  }
+
+  private definedOnly(changes: SavedSearchChanges): Partial<SavedSearchInput> {
+    return Object.fromEntries(
+      Object.entries(changes).filter(([, value]) => value !== undefined)
+    ) as Partial<SavedSearchInput>;
+  }
+
+  private async requireOwnSearch(searchId: number, runnerId: number): Promise<SavedSearch> {
+    const search = await this.searchRepository.findById(searchId);
+    if (!search) {
+      throw new NotFoundError('Saved search not found', 'SAVED_SEARCH_NOT_FOUND');
+    }
+    if (search.runner_id !== runnerId) {
+      throw new AuthorizationError('Not authorized to manage this saved search', 'NOT_SEARCH_OWNER');
+    }
+    return search;
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,59 @@
+/**
+ * Local Disk Storage
+ * Stores uploads under a directory on the API server
+ */
+
+import { randomUUID } from 'crypto';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { StorageAdapter, StoredFile } from './StorageAdapter.js';
+import { NotFoundError, ValidationError } from '../../core/errors/AppError.js';
+import { STORAGE_CONSTANTS } from '../../config/constants.js';
+
+export class LocalDiskStorage implements StorageAdapter {
+  private readonly rootDir: string;
+
+  constructor(rootDir: string = process.env['UPLOAD_DIR'] || STORAGE_CONSTANTS.LOCAL_DIR) {
+    this.rootDir = path.resolve(rootDir);
+  }
+
+  async save(namespace: string, fileName: string, data: Buffer): Promise<StoredFile> {
+    // Never trust the uploaded name for the path; keep only its extension
+    const extension = path.extname(fileName).toLowerCase().replace(/[^.a-z0-9]/g, '');
+    const storagePath = path.posix.join(namespace, `${randomUUID()}${extension}`);
+    const filePath = this.resolve(storagePath);
+
+    await mkdir(path.dirname(filePath), { recursive: true });
+    await writeFile(filePath, data, { flag: 'wx' });
+
+    return { storagePath, size: data.length };
+  }
+
+  async read(storagePath: string): Promise<Buffer> {
+    try {
+      return await readFile(this.resolve(storagePath));
+    } catch (error) {
+      if ((error as { code?: string }).code === 'ENOENT') {
+        throw new NotFoundError('Stored file not found', 'FILE_NOT_FOUND');
+      }
+      throw error;
+    }
+  }
+
+  async remove(storagePath: string): Promise<void> {
+    await rm(this.resolve(storagePath), { force: true });
+  }
+
+  /**
+   * Map a storage path to a file inside the root directory
+   */
+  private resolve(storagePath: string): string {
+    const filePath = path.resolve(this.rootDir, storagePath);
+
+    if (!filePath.startsWith(this.rootDir + path.sep)) {
+      throw new ValidationError('Invalid storage path', 'INVALID_STORAGE_PATH');
+    }
+
+    return filePath;
+  }
+}
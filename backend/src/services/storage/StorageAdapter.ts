@@ -0,0 +1,30 @@
+/**
+ * Storage Adapter
+ * Pluggable file storage for user uploads
+ *
+ * Rows only keep the storage path an adapter hands back, so uploads can move
+ * from local disk to another backend without touching the services that use them.
+ */
+
+export interface StoredFile {
+  /** Key within the adapter, persisted as storage_path */
+  storagePath: string;
+  size: number;
+}
+
+export interface StorageAdapter {
+  /**
+   * Store a file under a namespace, e.g. "delivery-proofs/42"
+   */
+  save(namespace: string, fileName: string, data: Buffer): Promise<StoredFile>;
+
+  /**
+   * Read a stored file back
+   */
+  read(storagePath: string): Promise<Buffer>;
+
+  /**
+   * Remove a stored file; missing files are ignored
+   */
+  remove(storagePath: string): Promise<void>;
+}
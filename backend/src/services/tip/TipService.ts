@@ -0,0 +1,293 @@
+/**
+ * Tip Service
+ * Tips from a client to the runner once a job's payment is confirmed
+ *
+ * Methods:
+ * - invoice: the client pays a platform invoice; once it settles the tip is
+ *   posted to the ledger and queued for payout with no platform fee
+ * - lightning_address: the client's wallet pays an invoice fetched from the
+ *   runner's Lightning address; the tip is recorded as a completed earning
+ *   once the client shows the preimage or the runner's wallet confirms it
+ */
+
+import { JobRepository } from '../../database/repositories/JobRepository.js';
+import { RunnerRepository } from '../../database/repositories/RunnerRepository.js';
+import { JobTip, TipMethod, TipRepository } from '../../database/repositories/TipRepository.js';
+import {
+  AuthorizationError,
+  ConflictError,
+  NotFoundError,
+  ServiceUnavailableError,
+  ValidationError,
+} from '../../core/errors/AppError.js';
+import { TIP_CONSTANTS } from '../../config/constants.js';
+import { RealLightningService, realLightningService } from '../lightning/RealLightningService.js';
+import { LnurlPayClient, lnurlPayClient } from '../lightning/LnurlPayClient.js';
+import { PriceOracle } from '../pricing/PriceOracle.js';
+import { priceOracle } from '../pricing/createPriceOracle.js';
+import { PayoutService, payoutService } from '../PayoutService.js';
+import { LedgerService, ledgerService } from '../ledger/LedgerService.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import { decodeLightningInvoice, verifyPreimage } from '../../utils/lightning.js';
+import { JobStatus } from '../../types/index.js';
+import logger from '../../utils/logger.js';
+
+export interface CreateTipInput {
+  amountCents: number;
+  method: TipMethod;
+  message?: string | undefined;
+}
+
+export interface TipView {
+  id: number;
+  jobId: number;
+  method: TipMethod;
+  amountSats: number;
+  amountCents: number;
+  message: string | null;
+  status: JobTip['status'];
+  paymentRequest: string | null;  // Only while the tip is waiting to be paid
+  paymentHash: string;
+  expiresAt: Date;
+  paidAt: Date | null;
+  createdAt: Date;
+}
+
+export class TipService {
+  constructor(
+    private readonly tipRepository: TipRepository = new TipRepository(),
+    private readonly jobRepository: JobRepository = new JobRepository(),
+    private readonly runnerRepository: RunnerRepository = new RunnerRepository(),
+    private readonly lightning: RealLightningService = realLightningService,
+    private readonly lnurlPay: LnurlPayClient = lnurlPayClient,
+    private readonly prices: PriceOracle = priceOracle,
+    private readonly payouts: PayoutService = payoutService,
+    private readonly ledger: LedgerService = ledgerService
+  ) {}
+
+  /**
+   * Start a tip (job client only)
+   * Returns the invoice for the client to pay
+   */
+  async createTip(jobId: number, clientId: number, input: CreateTipInput): Promise<TipView> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== clientId) {
+      throw new AuthorizationError('Only the client can tip the runner', 'NOT_JOB_CLIENT');
+    }
+    if (!(TIP_CONSTANTS.TIPPABLE_STATUSES as readonly JobStatus[]).includes(job.status)) {
+      throw new ConflictError('Tips can be sent once the job payment is confirmed', 'INVALID_JOB_STATUS');
+    }
+    if (!job.runner_id) {
+      throw new ConflictError('Job has no runner to tip', 'NO_RUNNER_ASSIGNED');
+    }
+
+    const { amountCents, method } = input;
+    if (!Number.isInteger(amountCents) || amountCents < TIP_CONSTANTS.MIN_CENTS || amountCents > TIP_CONSTANTS.MAX_CENTS) {
+      throw new ValidationError(
+        `Tip must be between ${TIP_CONSTANTS.MIN_CENTS} and ${TIP_CONSTANTS.MAX_CENTS} cents`,
+        'INVALID_TIP_AMOUNT'
+      );
+    }
+    if (!(TIP_CONSTANTS.METHODS as readonly string[]).includes(method)) {
+      throw new ValidationError(`Tip method must be one of ${TIP_CONSTANTS.METHODS.join(', ')}`, 'INVALID_TIP_METHOD');
+    }
+    const message = input.message?.trim() || null;
+    if (message && message.length > TIP_CONSTANTS.MESSAGE_MAX_LENGTH) {
+      throw new ValidationError(
+        `Message must be at most ${TIP_CONSTANTS.MESSAGE_MAX_LENGTH} characters`,
+        'TIP_MESSAGE_TOO_LONG'
+      );
+    }
+
+    const { sats: amountSats, snapshot } = await this.prices.fiatToSats(amountCents);
+
+    let invoice: { paymentRequest: string; paymentHash: string; verifyUrl: string | null; expiresAt: Date };
+    if (method === 'lightning_address') {
+      const profile = await this.runnerRepository.findByUserId(job.runner_id);
+      if (!profile?.lightning_address) {
+        throw new ConflictError('The runner has no Lightning address to tip directly', 'NO_LIGHTNING_ADDRESS');
+      }
+
+      const lnurlInvoice = await this.lnurlPay.fetchInvoice(profile.lightning_address, amountSats, message ?? undefined);
+      invoice = {
+        paymentRequest: lnurlInvoice.paymentRequest,
+        paymentHash: lnurlInvoice.paymentHash,
+        verifyUrl: lnurlInvoice.verifyUrl,
+        expiresAt: decodeLightningInvoice(lnurlInvoice.paymentRequest).expiresAt,
+      };
+    } else {
+      try {
+        const created = await this.lightning.createInvoice(
+          amountSats,
+          `ErrandBit tip for job #${job.id}: ${job.title}`,
+          TIP_CONSTANTS.INVOICE_EXPIRY_SECONDS
+        );
+        invoice = { ...created, verifyUrl: null };
+      } catch (error) {
+        logger.error('Failed to create tip invoice', { jobId, error: (error as Error).message });
+        throw new ServiceUnavailableError('Could not create tip invoice, please try again', 'TIP_INVOICE_FAILED');
+      }
+    }
+
+    const tip = await this.tipRepository.create({
+      jobId,
+      clientId,
+      runnerId: job.runner_id,
+      method,
+      amountSats,
+      amountCents,
+      priceSnapshotId: snapshot.id,
+      message,
+      paymentHash: invoice.paymentHash,
+      paymentRequest: invoice.paymentRequest,
+      verifyUrl: invoice.verifyUrl,
+      expiresAt: invoice.expiresAt,
+    });
+
+    logger.info('Tip started', { tipId: tip.id, jobId, method, amountSats });
+
+    return this.toView(tip);
+  }
+
+  /**
+   * Tips of a job (client or assigned runner)
+   */
+  async getTipsForJob(jobId: number, userId: number): Promise<TipView[]> {
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+    }
+
+    const tips = await this.tipRepository.findByJobId(jobId);
+    const synced = await Promise.all(tips.map((tip) => this.sync(tip)));
+    return synced.map((tip) => this.toView(tip));
+  }
+
+  /**
+   * Get a tip, checking whether it has been paid (client or runner)
+   */
+  async getTip(tipId: number, userId: number): Promise<TipView> {
+    const tip = await this.requireTip(tipId);
+
+    if (tip.client_id !== userId && tip.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this tip', 'NOT_TIP_PARTICIPANT');
+    }
+
+    return this.toView(await this.sync(tip));
+  }
+
+  /**
+   * Client reports a tip as paid, with the preimage their wallet returned
+   * Without a preimage the tip is only checked against the node or wallet.
+   */
+  async confirmTip(tipId: number, clientId: number, preimage?: string): Promise<TipView> {
+    const tip = await this.requireTip(tipId);
+
+    if (tip.client_id !== clientId) {
+      throw new AuthorizationError('Only the client can confirm a tip', 'NOT_TIP_CLIENT');
+    }
+
+    if (preimage && tip.status === 'pending') {
+      if (!(await verifyPreimage(preimage, tip.payment_hash))) {
+        throw new ValidationError('Preimage does not match the tip invoice', 'INVALID_PREIMAGE');
+      }
+      return this.toView(await this.credit(tip, preimage));
+    }
+
+    return this.toView(await this.sync(tip));
+  }
+
+  /**
+   * Check a pending tip against the node or the runner's wallet
+   */
+  private async sync(tip: JobTip): Promise<JobTip> {
+    if (tip.status !== 'pending') {
+      return tip;
+    }
+
+    if (tip.method === 'invoice') {
+      const status = await this.lightning.checkPaymentStatus(tip.payment_hash);
+      if (status.paid) {
+        return this.credit(tip, status.preimage ?? null);
+      }
+    } else if (tip.verify_url) {
+      try {
+        const verification = await this.lnurlPay.verify(tip.verify_url);
+        if (verification.settled) {
+          return this.credit(tip, verification.preimage);
+        }
+      } catch (error) {
+        logger.warn('Could not verify direct tip', { tipId: tip.id, error: (error as Error).message });
+      }
+    }
+
+    if (tip.expires_at < new Date()) {
+      return (await this.tipRepository.markExpired(tip.id)) ?? tip;
+    }
+    return tip;
+  }
+
+  /**
+   * Credit a paid tip to the runner, once
+   */
+  private async credit(tip: JobTip, preimage: string | null): Promise<JobTip> {
+    const paid = await this.tipRepository.markPaid(tip.id, preimage);
+    if (!paid) {
+      return (await this.tipRepository.findById(tip.id)) ?? tip;
+    }
+
+    if (paid.method === 'invoice') {
+      await this.ledger.recordInvoiceSettled({
+        paymentHash: paid.payment_hash,
+        jobId: paid.job_id,
+        clientId: paid.client_id,
+        amountSats: paid.amount_sats,
+      });
+      await this.payouts.enqueueTipPayout(paid);
+    } else {
+      await this.payouts.recordDirectTip(paid);
+    }
+
+    logger.info('Tip paid', { tipId: paid.id, jobId: paid.job_id, method: paid.method });
+
+    realtimeService.publish([paid.runner_id], 'tip.received', {
+      tipId: paid.id,
+      jobId: paid.job_id,
+      amountSats: paid.amount_sats,
+      amountCents: paid.amount_cents,
+      method: paid.method,
+      message: paid.message,
+    });
+
+    return paid;
+  }
+
+  private async requireTip(tipId: number): Promise<JobTip> {
+    const tip = await this.tipRepository.findById(tipId);
+    if (!tip) {
+      throw new NotFoundError('Tip not found', 'TIP_NOT_FOUND');
+    }
+    return tip;
+  }
+
+  private toView(tip: JobTip): TipView {
+    return {
+      id: tip.id,
+      jobId: tip.job_id,
+      method: tip.method,
+      amountSats: tip.amount_sats,
+      amountCents: tip.amount_cents,
+      message: tip.message,
+      status: tip.status,
+      paymentRequest: tip.status === 'pending' ? tip.payment_request : null,
+      paymentHash: tip.payment_hash,
+      expiresAt: tip.expires_at,
+      paidAt: tip.paid_at,
+      createdAt: tip.created_at,
+    };
+  }
+}
+
+export const tipService = new TipService();
@@ -0,0 +1,206 @@
+/**
+ * Location Tracking Service
+ * Live runner position while a job is in progress
+ *
+ * Flow:
+ * 1. Once the job is in_progress the runner's app sends location pings
+ * 2. Each stored ping is pushed to the client with an ETA to the next open stop
+ * 3. The trail is purged shortly after the job leaves in_progress and is never
+ *    kept longer than the retention window (see NON_KYC_POLICY.md)
+ */
+
+import {
+  LocationPing,
+  LocationPingRepository,
+} from '../../database/repositories/LocationPingRepository.js';
+import { Job, JobRepository } from '../../database/repositories/JobRepository.js';
+import { JobStop, JobStopRepository } from '../../database/repositories/JobStopRepository.js';
+import { realtimeService } from '../realtime/RealtimeService.js';
+import { AuthorizationError, ConflictError, ValidationError } from '../../core/errors/AppError.js';
+import { TRACKING_CONSTANTS } from '../../config/constants.js';
+import { distanceKm, isValidCoordinate } from '../../utils/geo.js';
+import logger from '../../utils/logger.js';
+
+export interface LocationPingInput {
+  lat: number;
+  lng: number;
+  accuracyM?: number | undefined;
+  heading?: number | undefined;
+  speedMps?: number | undefined;
+}
+
+export interface RunnerPositionView {
+  lat: number;
+  lng: number;
+  accuracyM: number | null;
+  heading: number | null;
+  recordedAt: Date;
+  /** Next stop the runner has not checked off yet */
+  nextStopId: number | null;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+}
+
+export class LocationTrackingService {
+  constructor(
+    private readonly pingRepository: LocationPingRepository,
+    private readonly jobRepository: JobRepository,
+    private readonly jobStopRepository: JobStopRepository
+  ) {}
+
+  /**
+   * Record a ping from the assigned runner
+   * Pings arriving faster than the minimum interval are acknowledged but not stored
+   */
+  async recordPing(jobId: number, runnerId: number, input: LocationPingInput): Promise<RunnerPositionView> {
+    this.validatePing(input);
+
+    const job = await this.jobRepository.findById(jobId);
+
+    if (job.runner_id !== runnerId) {
+      throw new AuthorizationError('You are not assigned to this job', 'NOT_ASSIGNED_RUNNER');
+    }
+
+    if (job.status !== 'in_progress') {
+      throw new ConflictError('Location is only shared while the job is in progress', 'JOB_NOT_IN_PROGRESS');
+    }
+
+    const latest = await this.pingRepository.findLatest(jobId);
+    if (latest && Date.now() - latest.recorded_at.getTime() < TRACKING_CONSTANTS.MIN_PING_INTERVAL_MS) {
+      return this.toPositionView(latest, await this.jobStopRepository.findByJobId(jobId));
+    }
+
+    const ping = await this.pingRepository.create({
+      jobId,
+      runnerId,
+      lat: input.lat,
+      lng: input.lng,
+      accuracyM: input.accuracyM,
+      heading: input.heading,
+      speedMps: input.speedMps,
+    });
+
+    const position = this.toPositionView(ping, await this.jobStopRepository.findByJobId(jobId));
+
+    realtimeService.publish([job.client_id], 'runner.location', {
+      jobId,
+      ...position,
+      recordedAt: position.recordedAt.toISOString(),
+    });
+
+    return position;
+  }
+
+  /**
+   * Current runner position, ETA and recent trail (job client or assigned runner)
+   */
+  async getLiveLocation(jobId: number, userId: number): Promise<any> {
+    const job = await this.jobRepository.findById(jobId);
+    this.ensureParticipant(job, userId);
+
+    if (job.status !== 'in_progress') {
+      return { jobId, tracking: false, position: null, trail: [] };
+    }
+
+    const [trail, stops] = await Promise.all([
+      this.pingRepository.findTrail(jobId, TRACKING_CONSTANTS.TRAIL_LIMIT),
+      this.jobStopRepository.findByJobId(jobId),
+    ]);
+    const latest = trail[trail.length - 1];
+
+    return {
+      jobId,
+      tracking: true,
+      position: latest ? this.toPositionView(latest, stops) : null,
+      trail: trail.map((ping) => ({ lat: ping.lat, lng: ping.lng, recordedAt: ping.recorded_at })),
+    };
+  }
+
+  /**
+   * Delete trails past the retention window
+   */
+  async purgeExpired(): Promise<number> {
+    const purged = await this.pingRepository.purgeExpired({
+      afterJobMinutes: TRACKING_CONSTANTS.RETENTION_AFTER_JOB_MINUTES,
+      maxAgeHours: TRACKING_CONSTANTS.MAX_RETENTION_HOURS,
+    });
+
+    if (purged > 0) {
+      logger.info(`Purged ${purged} runner location pings`);
+    }
+
+    return purged;
+  }
+
+  /**
+   * Start periodic trail purge job
+   */
+  startPurgeJob(): void {
+    logger.info('Starting runner location purge job', {
+      retentionAfterJobMinutes: TRACKING_CONSTANTS.RETENTION_AFTER_JOB_MINUTES,
+      maxRetentionHours: TRACKING_CONSTANTS.MAX_RETENTION_HOURS,
+    });
+
+    setInterval(() => {
+      this.purgeExpired().catch((err) => {
+        logger.error('Runner location purge job failed:', err);
+      });
+    }, TRACKING_CONSTANTS.PURGE_INTERVAL_MS);
+  }
+
+  private ensureParticipant(job: Job, userId: number): void {
+    if (job.client_id !== userId && job.runner_id !== userId) {
+      throw new AuthorizationError('You are not part of this job', 'NOT_JOB_PARTICIPANT');
+    }
+  }
+
+  private validatePing(input: LocationPingInput): void {
+    if (!isValidCoordinate(input.lat, input.lng)) {
+      throw new ValidationError('Invalid coordinates', 'INVALID_LOCATION');
+    }
+
+    if (input.accuracyM !== undefined && !(input.accuracyM >= 0)) {
+      throw new ValidationError('Accuracy must be a positive number of meters', 'INVALID_ACCURACY');
+    }
+
+    if (input.heading !== undefined && !(input.heading >= 0 && input.heading < 360)) {
+      throw new ValidationError('Heading must be between 0 and 360 degrees', 'INVALID_HEADING');
+    }
+
+    if (input.speedMps !== undefined && !(input.speedMps >= 0)) {
+      throw new ValidationError('Speed must be a positive number', 'INVALID_SPEED');
+    }
+  }
+
+  /**
+   * Position with distance and ETA to the next stop the runner has not checked off
+   */
+  private toPositionView(ping: LocationPing, stops: JobStop[]): RunnerPositionView {
+    const nextStop = stops.find((stop) => !stop.completed_at) ?? null;
+    let distance: number | null = null;
+    let etaMinutes: number | null = null;
+
+    if (nextStop) {
+      distance = distanceKm(ping, nextStop);
+
+      // Trust the device speed only while the runner is actually moving
+      const speedKmh =
+        ping.speed_mps !== null && ping.speed_mps > 1
+          ? ping.speed_mps * 3.6
+          : TRACKING_CONSTANTS.FALLBACK_SPEED_KMH;
+      etaMinutes = Math.ceil((distance / speedKmh) * 60);
+      distance = Math.round(distance * 100) / 100;
+    }
+
+    return {
+      lat: ping.lat,
+      lng: ping.lng,
+      accuracyM: ping.accuracy_m,
+      heading: ping.heading,
+      recordedAt: ping.recorded_at,
+      nextStopId: nextStop?.id ?? null,
+      distanceKm: distance,
+      etaMinutes,
+    };
+  }
+}
@@ -4,6 +4,7 @@
  */
 
 import { Request } from 'express';
+import type { NostrEvent } from '../utils/nostr.js';
 
 /* ============================================
  * USER & AUTHENTICATION TYPES
@@ -48,13 +49,14 @@ export interface UserLogin {
   password?: string;
   phone?: string;
   verification_code?: string;
-  nostr_pubkey?: string;
-  nostr_signature?: string;
+  nostr_pubkey?: string; // Hex or npub
+  nostr_event?: NostrEvent; // Signed login challenge
 }
 
 export interface JWTPayload {
   userId: number;
   role: UserRole;
+  sessionId?: number; // Session the token was issued for; revoking it ends the token
   iat?: number;
   exp?: number;
 }
@@ -62,6 +64,7 @@ export interface JWTPayload {
 export interface AuthenticatedRequest extends Request {
   user?: User;
   userId?: number | string; // Support both DB IDs and anonymous IDs
+  sessionId?: number | undefined;
 }
 
 /* ============================================
@@ -128,11 +131,19 @@ export type JobStatus =
   | 'accepted' 
   | 'in_progress' 
   | 'awaiting_payment' 
+  | 'payment_pending_verification' 
   | 'payment_confirmed' 
+  | 'paid' 
   | 'completed' 
   | 'disputed' 
   | 'cancelled';
 
+/**
+ * Who triggered a job status change
+ * system covers background jobs and payment webhooks
+ */
+export type JobActor = 'client' | 'runner' | 'admin' | 'system';
+
 export interface Job {
   id: number;
   client_id: number;
@@ -179,7 +190,9 @@ export interface Payment {
 export interface LightningInvoice {
   paymentHash: string;
   amountSats: number | null;
+  amountMsat: number | null;
   description: string | null;
+  descriptionHash: string | null;
   expiresAt: Date;
   timestamp: Date;
 }
@@ -0,0 +1,26 @@
+/**
+ * Bech32
+ * BIP-173 encoding used by NIP-19 keys (npub) and LUD-01 LNURLs, on top of
+ * @scure/base. LNURLs are longer than the 90 characters BIP-173 allows, so
+ * there is no length limit.
+ */
+
+import { bech32 } from '@scure/base';
+
+/**
+ * Encode bytes under a human-readable prefix (lowercase)
+ */
+export function bech32Encode(hrp: string, data: Buffer): string {
+  return bech32.encode(hrp, bech32.toWords(data), false);
+}
+
+/**
+ * Decode a bech32 string, null if it is malformed or its checksum is wrong
+ */
+export function bech32Decode(encoded: string): { hrp: string; data: Buffer } | null {
+  const decoded = bech32.decodeUnsafe(encoded, false);
+  const bytes = decoded && bech32.fromWordsUnsafe(decoded.words);
+  if (!decoded || !bytes) return null;
+
+  return { hrp: decoded.prefix, data: Buffer.from(bytes) };
+}
@@ -5,6 +5,7 @@
 
 import jwt from 'jsonwebtoken';
 import type { JWTPayload } from '../types/index.js';
+import { AUTH_CONSTANTS } from '../config/constants.js';
 
 // Enforce JWT_SECRET is set - fail fast if missing
 // This prevents the application from starting with weak or missing secrets
@@ -27,7 +28,7 @@ if (JWT_SECRET.length < 32) {
   );
 }
 
-const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || '7d';
+const JWT_EXPIRES_IN: string = process.env.JWT_EXPIRES_IN || AUTH_CONSTANTS.TOKEN.EXPIRES_IN;
 
 /**
  * Generate a JWT token for a user
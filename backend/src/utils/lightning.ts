@@ -47,6 +47,12 @@ export function decodeLightningInvoice(bolt11: string): LightningInvoice {
       (s: { name: string }) => s.name === 'description'
     );
     const description = descriptionSection?.value as string | null;
+
+    // Extract description hash (LNURL-pay invoices commit to metadata this way)
+    const descriptionHashSection = decoded.sections.find(
+      (s: { name: string }) => s.name === 'description_hash'
+    );
+    const descriptionHash = (descriptionHashSection?.value as string | undefined) ?? null;
     
     // Extract timestamp
     const timestampSection = decoded.sections.find(
@@ -73,7 +79,9 @@ export function decodeLightningInvoice(bolt11: string): LightningInvoice {
     return {
       paymentHash,
       amountSats,
+      amountMsat: amountMsat ? parseInt(amountMsat) : null,
       description,
+      descriptionHash,
       expiresAt,
       timestamp,
     };
@@ -178,28 +186,30 @@ export async function verifyPreimage(
 }
 
 /**
- * Convert cents to satoshis using current BTC price
- * @param cents - Amount in cents (USD)
- * @param btcPriceUsd - Bitcoin price in USD (default: $50,000)
+ * Convert cents to satoshis at a given BTC price
+ * Use the price oracle (services/pricing) for the price, and keep its snapshot
+ * with whatever stores the result.
+ * @param cents - Amount in minor units of the fiat currency
+ * @param btcPrice - Price of one BTC in major units of the same currency
  * @returns Amount in satoshis
  */
-export function centsToSats(cents: number, btcPriceUsd: number = 50000): number {
-  const usd = cents / 100;
-  const btc = usd / btcPriceUsd;
+export function centsToSats(cents: number, btcPrice: number): number {
+  const fiat = cents / 100;
+  const btc = fiat / btcPrice;
   const sats = Math.round(btc * 100_000_000);
   return sats;
 }
 
 /**
- * Convert satoshis to cents using current BTC price
+ * Convert satoshis to cents at a given BTC price
  * @param sats - Amount in satoshis
- * @param btcPriceUsd - Bitcoin price in USD (default: $50,000)
- * @returns Amount in cents (USD)
+ * @param btcPrice - Price of one BTC in major units of the fiat currency
+ * @returns Amount in minor units of the fiat currency
  */
-export function satsToCents(sats: number, btcPriceUsd: number = 50000): number {
+export function satsToCents(sats: number, btcPrice: number): number {
   const btc = sats / 100_000_000;
-  const usd = btc * btcPriceUsd;
-  const cents = Math.round(usd * 100);
+  const fiat = btc * btcPrice;
+  const cents = Math.round(fiat * 100);
   return cents;
 }
 
@@ -0,0 +1,137 @@
+/**
+ * Nostr Utilities
+ * Event ids and BIP-340 schnorr signatures over secp256k1, NIP-19 npub keys
+ * and NIP-04 encrypted direct messages
+ */
+
+import crypto from 'crypto';
+import { schnorr, secp256k1 } from '@noble/curves/secp256k1';
+import { bech32Decode } from './bech32.js';
+
+export interface NostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
+}
+
+export type UnsignedNostrEvent = Pick<NostrEvent, 'kind' | 'tags' | 'content' | 'created_at'>;
+
+const HEX_32 = /^[0-9a-f]{64}$/i;
+
+function secretKeyBytes(secretKey: string): Buffer {
+  if (!HEX_32.test(secretKey) || !secp256k1.utils.isValidPrivateKey(secretKey)) {
+    throw new Error('Invalid secret key');
+  }
+  return Buffer.from(secretKey, 'hex');
+}
+
+/**
+ * X-only public key (hex) of a secret key (hex)
+ */
+export function getPublicKey(secretKey: string): string {
+  return Buffer.from(schnorr.getPublicKey(secretKeyBytes(secretKey))).toString('hex');
+}
+
+/**
+ * BIP-340 schnorr signature of a 32-byte message
+ * @param auxRand - Fresh randomness by default; fixed only for test vectors
+ */
+export function schnorrSign(message: string, secretKey: string, auxRand: Buffer = crypto.randomBytes(32)): string {
+  return Buffer.from(schnorr.sign(message, secretKeyBytes(secretKey), auxRand)).toString('hex');
+}
+
+/**
+ * Verify a BIP-340 schnorr signature against an x-only public key
+ */
+export function schnorrVerify(signature: string, message: string, publicKey: string): boolean {
+  if (!/^[0-9a-f]{128}$/i.test(signature) || !HEX_32.test(publicKey)) {
+    return false;
+  }
+
+  try {
+    return schnorr.verify(signature, message, publicKey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Event id: sha256 of the NIP-01 serialisation
+ */
+export function getEventHash(event: Omit<NostrEvent, 'id' | 'sig'>): string {
+  const serialized = JSON.stringify([0, event.pubkey, event.created_at, event.kind, event.tags, event.content]);
+  return crypto.createHash('sha256').update(serialized, 'utf8').digest('hex');
+}
+
+/**
+ * Add pubkey, id and signature to an event template
+ */
+export function finalizeEvent(template: UnsignedNostrEvent, secretKey: string): NostrEvent {
+  const unsigned = { ...template, pubkey: getPublicKey(secretKey) };
+  const id = getEventHash(unsigned);
+  return { ...unsigned, id, sig: schnorrSign(id, secretKey) };
+}
+
+/**
+ * Check an event's id matches its content and its signature its pubkey
+ */
+export function verifyEvent(event: NostrEvent): boolean {
+  try {
+    return event.id === getEventHash(event) && schnorrVerify(event.sig, event.id, event.pubkey);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Public key (hex) of a NIP-19 npub, null if it is not a valid npub
+ */
+export function decodeNpub(npub: string): string | null {
+  const decoded = bech32Decode(npub);
+  if (!decoded || decoded.hrp !== 'npub' || decoded.data.length !== 32) return null;
+
+  return decoded.data.toString('hex');
+}
+
+/**
+ * Lowercase hex public key from a hex or npub key, null if it is neither
+ */
+export function normalizePublicKey(key: string): string | null {
+  if (/^[0-9a-f]{64}$/i.test(key)) return key.toLowerCase();
+  return decodeNpub(key);
+}
+
+/**
+ * NIP-04 shared key: x coordinate of the ECDH point
+ */
+function sharedKey(secretKey: string, publicKey: string): Buffer {
+  const point = secp256k1.getSharedSecret(secretKeyBytes(secretKey), `02${publicKey}`, true);
+  return Buffer.from(point.subarray(1));
+}
+
+/**
+ * NIP-04 encrypt (AES-256-CBC) a message for a public key
+ */
+export function nip04Encrypt(secretKey: string, publicKey: string, text: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-cbc', sharedKey(secretKey, publicKey), iv);
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return `${encrypted.toString('base64')}?iv=${iv.toString('base64')}`;
+}
+
+/**
+ * NIP-04 decrypt a message from a public key
+ */
+export function nip04Decrypt(secretKey: string, publicKey: string, payload: string): string {
+  const [ciphertext, iv] = payload.split('?iv=');
+  if (!ciphertext || !iv) {
+    throw new Error('Invalid NIP-04 payload');
+  }
+
+  const decipher = crypto.createDecipheriv('aes-256-cbc', sharedKey(secretKey, publicKey), Buffer.from(iv, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(ciphertext, 'base64')), decipher.final()]).toString('utf8');
+}
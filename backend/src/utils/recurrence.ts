@@ -0,0 +1,335 @@
+/**
+ * Recurrence Rules
+ * A subset of iCalendar RRULE (RFC 5545) for recurring errands
+ *
+ * Supported parts: FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY (with an
+ * ordinal such as 1MO or -1FR for monthly rules), BYMONTHDAY, COUNT, UNTIL.
+ * Occurrences are expanded on the wall clock of the rule's time zone, so
+ * "every Saturday at 10:00" stays at 10:00 across daylight saving changes.
+ */
+
+import { ValidationError } from '../core/errors/AppError.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY';
+
+export interface RecurrenceWeekday {
+  weekday: number; // 0 = Sunday ... 6 = Saturday
+  ordinal: number | null; // Nth weekday of the month (negative from the end)
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: RecurrenceWeekday[];
+  byMonthDay: number[];
+  count: number | null;
+  until: Date | null;
+}
+
+export interface LocalDateTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: readonly RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Formatting is slow to set up, so one formatter is kept per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+// Stops runaway expansion of rules like a daily rule started decades ago
+const MAX_ITERATIONS = 5000;
+
+const invalid = (message: string): ValidationError => new ValidationError(message, 'INVALID_RRULE');
+
+/**
+ * Parse an RRULE string such as FREQ=WEEKLY;BYDAY=SA
+ * A leading "RRULE:" is accepted
+ */
+export function parseRecurrenceRule(text: string): RecurrenceRule {
+  const parts = new Map<string, string>();
+  for (const part of text.trim().replace(/^RRULE:/i, '').split(';')) {
+    if (!part) continue;
+    const [key, value] = part.split('=');
+    if (!key || !value) {
+      throw invalid(`Malformed recurrence rule part "${part}"`);
+    }
+    parts.set(key.toUpperCase(), value.toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) {
+    throw invalid(`Recurrence frequency must be one of ${FREQUENCIES.join(', ')}`);
+  }
+
+  const rule: RecurrenceRule = { freq, interval: 1, byDay: [], byMonthDay: [], count: null, until: null };
+
+  for (const [key, value] of parts) {
+    switch (key) {
+      case 'FREQ':
+        break;
+      case 'INTERVAL':
+        rule.interval = parsePositiveInt(value, 'INTERVAL');
+        break;
+      case 'COUNT':
+        rule.count = parsePositiveInt(value, 'COUNT');
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        rule.byDay = value.split(',').map(parseWeekday);
+        break;
+      case 'BYMONTHDAY':
+        rule.byMonthDay = value.split(',').map((day) => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || n < -31 || n > 31) {
+            throw invalid(`Invalid BYMONTHDAY "${day}"`);
+          }
+          return n;
+        });
+        break;
+      default:
+        throw invalid(`Unsupported recurrence rule part ${key}`);
+    }
+  }
+
+  if (rule.count !== null && rule.until !== null) {
+    throw invalid('A recurrence rule cannot have both COUNT and UNTIL');
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byMonthDay.length > 0) {
+    throw invalid('BYMONTHDAY is only supported for monthly rules');
+  }
+  if (rule.freq !== 'MONTHLY' && rule.byDay.some((d) => d.ordinal !== null)) {
+    throw invalid('Numbered weekdays such as 1MO are only supported for monthly rules');
+  }
+
+  return rule;
+}
+
+/**
+ * Write a rule back as an RRULE string
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval !== 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) {
+    parts.push(`BYDAY=${rule.byDay.map((d) => `${d.ordinal ?? ''}${WEEKDAYS[d.weekday]}`).join(',')}`);
+  }
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.count !== null) parts.push(`COUNT=${rule.count}`);
+  if (rule.until !== null) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  return parts.join(';');
+}
+
+/**
+ * Check that a time zone name is known to the runtime
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Instant of an ISO 8601 date-time
+ * One without an offset, such as 2030-07-01T09:00, is read on the wall clock
+ * of the time zone. Returns null when the text is not a date-time.
+ */
+export function parseZonedDateTime(text: string, timeZone: string): Date | null {
+  const local = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}):(\d{2})(?::\d{2}(?:\.\d+)?)?)?$/.exec(text);
+  if (local) {
+    const [, year, month, day, hour, minute] = local;
+    return fromLocal(
+      { year: Number(year), month: Number(month), day: Number(day), hour: Number(hour ?? 0), minute: Number(minute ?? 0) },
+      timeZone
+    );
+  }
+
+  const at = new Date(text);
+  return /^\d{4}-\d{2}-\d{2}T/.test(text) && !isNaN(at.getTime()) ? at : null;
+}
+
+/**
+ * Occurrences of a rule in [from, to), oldest first
+ * The first occurrence is dtstart itself when it matches the rule; its local
+ * time of day is kept for every occurrence.
+ */
+export function expandRecurrence(
+  rule: RecurrenceRule,
+  dtstart: Date,
+  timeZone: string,
+  from: Date,
+  to: Date
+): Date[] {
+  const start = toLocal(dtstart, timeZone);
+  const startDay = Date.UTC(start.year, start.month - 1, start.day);
+  const occurrences: Date[] = [];
+  let seen = 0;
+
+  for (let period = 0; period < MAX_ITERATIONS; period++) {
+    const days = candidateDays(rule, start, period);
+    if (days === null) break;
+
+    for (const day of days) {
+      if (day < startDay) continue;
+
+      const date = new Date(day);
+      const at = fromLocal(
+        {
+          year: date.getUTCFullYear(),
+          month: date.getUTCMonth() + 1,
+          day: date.getUTCDate(),
+          hour: start.hour,
+          minute: start.minute,
+        },
+        timeZone
+      );
+
+      if (rule.until !== null && at > rule.until) return occurrences;
+      if (at >= to) return occurrences;
+
+      seen++;
+      if (at >= from) occurrences.push(at);
+      if (rule.count !== null && seen >= rule.count) return occurrences;
+    }
+  }
+
+  return occurrences;
+}
+
+/**
+ * Local calendar days (as UTC midnights) the rule falls on in one period
+ * Returns null once the period is past any possible date
+ */
+function candidateDays(rule: RecurrenceRule, start: LocalDateTime, period: number): number[] | null {
+  const step = period * rule.interval;
+
+  if (rule.freq === 'DAILY') {
+    const day = Date.UTC(start.year, start.month - 1, start.day + step);
+    return matchesWeekdays(rule, day) ? [day] : [];
+  }
+
+  if (rule.freq === 'WEEKLY') {
+    const startDay = Date.UTC(start.year, start.month - 1, start.day);
+    // Weeks start on Monday, as in RFC 5545
+    const weekStart = startDay - ((new Date(startDay).getUTCDay() + 6) % 7) * DAY_MS + step * 7 * DAY_MS;
+    const weekdays = rule.byDay.length > 0 ? rule.byDay.map((d) => d.weekday) : [new Date(startDay).getUTCDay()];
+    return [...new Set(weekdays)]
+      .map((weekday) => weekStart + ((weekday + 6) % 7) * DAY_MS)
+      .sort((a, b) => a - b);
+  }
+
+  const monthIndex = start.month - 1 + step;
+  const year = start.year + Math.floor(monthIndex / 12);
+  const month = ((monthIndex % 12) + 12) % 12;
+  if (year > 9999) return null;
+  const daysInMonth = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  const days = new Set<number>();
+
+  for (const monthDay of rule.byMonthDay) {
+    const day = monthDay > 0 ? monthDay : daysInMonth + monthDay + 1;
+    if (day >= 1 && day <= daysInMonth) days.add(Date.UTC(year, month, day));
+  }
+
+  for (const { weekday, ordinal } of rule.byDay) {
+    const matching: number[] = [];
+    for (let day = 1; day <= daysInMonth; day++) {
+      const at = Date.UTC(year, month, day);
+      if (new Date(at).getUTCDay() === weekday) matching.push(at);
+    }
+    if (ordinal === null) {
+      matching.forEach((at) => days.add(at));
+    } else {
+      const at = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (at !== undefined) days.add(at);
+    }
+  }
+
+  // Plain monthly rules repeat on the start's day of the month, skipping
+  // months that are too short
+  if (rule.byMonthDay.length === 0 && rule.byDay.length === 0 && start.day <= daysInMonth) {
+    days.add(Date.UTC(year, month, start.day));
+  }
+
+  return [...days].sort((a, b) => a - b);
+}
+
+function matchesWeekdays(rule: RecurrenceRule, day: number): boolean {
+  return rule.byDay.length === 0 || rule.byDay.some((d) => d.weekday === new Date(day).getUTCDay());
+}
+
+function parsePositiveInt(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw invalid(`${name} must be a positive whole number`);
+  }
+  return n;
+}
+
+function parseWeekday(value: string): RecurrenceWeekday {
+  const match = value.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+  if (!match) {
+    throw invalid(`Invalid BYDAY "${value}"`);
+  }
+  const ordinal = match[1] ? Number(match[1]) : null;
+  if (ordinal !== null && (ordinal === 0 || Math.abs(ordinal) > 5)) {
+    throw invalid(`Invalid BYDAY "${value}"`);
+  }
+  return { weekday: WEEKDAYS.indexOf(match[2]!), ordinal };
+}
+
+function parseUntil(value: string): Date {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) {
+    throw invalid(`Invalid UNTIL "${value}"`);
+  }
+  const [, y, mo, d, h = '23', mi = '59', s = '59'] = match;
+  return new Date(Date.UTC(Number(y), Number(mo) - 1, Number(d), Number(h), Number(mi), Number(s)));
+}
+
+/**
+ * Wall-clock time of an instant in a time zone
+ */
+export function toLocal(at: Date, timeZone: string): LocalDateTime {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = formatter.formatToParts(at);
+  const get = (type: string) => Number(parts.find((p) => p.type === type)?.value);
+
+  return { year: get('year'), month: get('month'), day: get('day'), hour: get('hour'), minute: get('minute') };
+}
+
+/**
+ * Instant at which a time zone's clock shows a wall-clock time
+ * Times skipped by a daylight saving change move forward by the gap.
+ */
+function fromLocal(local: LocalDateTime, timeZone: string): Date {
+  const wall = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute);
+  const offsetAt = (at: number): number => {
+    const shown = toLocal(new Date(at), timeZone);
+    return Date.UTC(shown.year, shown.month - 1, shown.day, shown.hour, shown.minute) - at;
+  };
+
+  const first = wall - offsetAt(wall);
+  const second = wall - offsetAt(first);
+  return new Date(Math.max(first, second));
+}
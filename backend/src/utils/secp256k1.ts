@@ -0,0 +1,29 @@
+/**
+ * secp256k1
+ * ECDSA signature verification for LNURL-auth on top of @noble/curves.
+ * Node's crypto module only verifies ECDSA over a digest it computes itself,
+ * while LNURL-auth signs the raw 32-byte k1.
+ */
+
+import { secp256k1 } from '@noble/curves/secp256k1';
+
+/**
+ * Verify a DER encoded ECDSA signature of a 32-byte message against a
+ * compressed public key
+ */
+export function ecdsaVerify(signature: string, message: string, publicKey: string): boolean {
+  if (!/^[0-9a-f]{64}$/i.test(message) || !/^0[23][0-9a-f]{64}$/i.test(publicKey)) return false;
+  if (!/^([0-9a-f]{2})+$/i.test(signature)) return false;
+
+  try {
+    // Wallets are not required to normalise s, so high-s signatures are accepted
+    return secp256k1.verify(
+      Buffer.from(signature, 'hex'),
+      Buffer.from(message, 'hex'),
+      Buffer.from(publicKey, 'hex'),
+      { format: 'der', lowS: false, prehash: false }
+    );
+  } catch {
+    return false;
+  }
+}
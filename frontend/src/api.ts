@@ -1,5 +1,6 @@
-import axios from 'axios';
+import axios, { InternalAxiosRequestConfig } from 'axios';
 import { authService } from './services/auth.service';
+import { httpClient } from './services/http.client';
 
 export const API_BASE = import.meta.env.VITE_API_BASE || 'http://localhost:4000';
 
@@ -20,6 +21,25 @@ api.interceptors.request.use((config) => {
   return config;
 });
 
+// Retry once with a refreshed access token when it has expired
+api.interceptors.response.use(
+  (response) => response,
+  async (error) => {
+    const config = error.config as (InternalAxiosRequestConfig & { retriedAfterRefresh?: boolean }) | undefined;
+
+    if (error.response?.status === 401 && config && !config.retriedAfterRefresh) {
+      const token = await httpClient.refreshAuthToken();
+      if (token) {
+        config.retriedAfterRefresh = true;
+        config.headers.Authorization = `Bearer ${token}`;
+        return api.request(config);
+      }
+    }
+
+    return Promise.reject(error);
+  }
+);
+
 export async function getHealth() {
   const res = await fetch(`${API_BASE}/health`);
   if (!res.ok) throw new Error('Health check failed');
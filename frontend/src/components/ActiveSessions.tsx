@@ -0,0 +1,124 @@
+/**
+ * Active Sessions Component
+ *
+ * Lists the devices signed in to the account, with the IP address and
+ * browser they signed in from, and lets the user log out one of them or
+ * every session at once.
+ */
+
+import { Monitor, Smartphone } from 'lucide-react';
+import { useRevokeAllSessions, useRevokeSession, useSessions, ActiveSession } from '../hooks/useProfile';
+
+/**
+ * Short device description from a user agent, e.g. "Firefox on Windows"
+ */
+export function describeDevice(userAgent: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser =
+    [
+      ['Edg/', 'Edge'],
+      ['OPR/', 'Opera'],
+      ['Firefox/', 'Firefox'],
+      ['Chrome/', 'Chrome'],
+      ['Safari/', 'Safari'],
+    ].find(([token]) => userAgent.includes(token!))?.[1] ?? 'Browser';
+
+  const os =
+    [
+      ['Android', 'Android'],
+      ['iPhone', 'iOS'],
+      ['iPad', 'iPadOS'],
+      ['Windows', 'Windows'],
+      ['Mac OS X', 'macOS'],
+      ['Linux', 'Linux'],
+    ].find(([token]) => userAgent.includes(token!))?.[1];
+
+  return os ? `${browser} on ${os}` : browser;
+}
+
+const isMobile = (session: ActiveSession) => /Mobile|Android|iPhone|iPad/.test(session.userAgent ?? '');
+
+export function ActiveSessions() {
+  const { data: sessions, isLoading } = useSessions();
+  const revokeSession = useRevokeSession();
+  const revokeAllSessions = useRevokeAllSessions();
+
+  const handleRevokeAll = () => {
+    if (window.confirm('Log out of every device, including this one?')) {
+      revokeAllSessions.mutate();
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg transition-colors">
+      <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
+        <div>
+          <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">Active Sessions</h3>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            Devices signed in to your account. Log out any you don't recognise.
+          </p>
+        </div>
+        <button
+          type="button"
+          onClick={handleRevokeAll}
+          disabled={revokeAllSessions.isPending || !sessions?.length}
+          className="inline-flex items-center px-3 py-2 border border-red-300 dark:border-red-700 rounded-md shadow-sm text-sm font-medium text-red-700 dark:text-red-400 bg-white dark:bg-gray-700 hover:bg-red-50 dark:hover:bg-gray-600 disabled:opacity-50 transition-colors"
+        >
+          Log out everywhere
+        </button>
+      </div>
+
+      <div className="px-6 py-5">
+        {isLoading ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">Loading sessions...</p>
+        ) : !sessions || sessions.length === 0 ? (
+          <p className="text-sm text-gray-500 dark:text-gray-400">No active sessions</p>
+        ) : (
+          <ul className="space-y-3">
+            {sessions.map((session) => {
+              const Icon = isMobile(session) ? Smartphone : Monitor;
+
+              return (
+                <li
+                  key={session.id}
+                  className="flex items-start border-b border-gray-200 dark:border-gray-700 pb-3 last:border-0"
+                >
+                  <Icon className="w-5 h-5 mt-0.5 flex-shrink-0 text-gray-400" />
+                  <div className="ml-3 flex-1">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">
+                      {describeDevice(session.userAgent)}
+                      {session.current && (
+                        <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded text-xs font-medium bg-green-100 text-green-800">
+                          This device
+                        </span>
+                      )}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                      IP: {session.ipAddress ?? 'unknown'}
+                    </p>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      Last active {new Date(session.lastUsedAt).toLocaleString()}
+                    </p>
+                  </div>
+                  {!session.current && (
+                    <button
+                      type="button"
+                      onClick={() => revokeSession.mutate(session.id)}
+                      disabled={revokeSession.isPending}
+                      className="ml-4 text-sm font-medium text-red-600 dark:text-red-400 hover:text-red-800 disabled:opacity-50"
+                    >
+                      Log out
+                    </button>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
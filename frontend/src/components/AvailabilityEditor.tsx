@@ -0,0 +1,380 @@
+/**
+ * Availability Editor Component
+ *
+ * When a runner takes jobs: the availability switch, weekly working hours in
+ * the runner's time zone and how many jobs they take at once. Once the
+ * profile exists, time off can be blocked out too. A runner with no working
+ * hours takes jobs at any time.
+ */
+
+import { useState } from 'react';
+import { CalendarOff, Clock } from 'lucide-react';
+import { useAddTimeOff, useRemoveTimeOff, useRunnerAvailability, useUpdateAvailability } from '../hooks/useRunners';
+import type { RunnerAvailability, TimeOff, WorkingHours } from '../services/runner.service';
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Listed before Sunday so the week reads Monday first
+const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0];
+
+const MAX_CONCURRENT_JOBS = 10;
+
+const COMMON_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Africa/Lagos',
+  'Africa/Nairobi',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+];
+
+export interface AvailabilityDraft {
+  isAvailable: boolean;
+  timezone: string;
+  maxConcurrentJobs: number;
+  workingHours: WorkingHours[];
+}
+
+/**
+ * Settings for a new runner: available at any time in the browser's time zone, one job at a time
+ */
+export const defaultAvailability = (): AvailabilityDraft => ({
+  isAvailable: true,
+  timezone: Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC',
+  maxConcurrentJobs: 1,
+  workingHours: [],
+});
+
+/**
+ * First problem with a set of working hours, or null when they are fine
+ */
+export function validateWorkingHours(hours: WorkingHours[]): string | null {
+  for (const block of hours) {
+    if (block.endsAt <= block.startsAt) {
+      return `${WEEKDAY_LABELS[block.weekday]} hours must end after they start`;
+    }
+  }
+
+  const sorted = [...hours].sort((a, b) => a.weekday - b.weekday || a.startsAt.localeCompare(b.startsAt));
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1]!;
+    const current = sorted[i]!;
+    if (current.weekday === previous.weekday && current.startsAt < previous.endsAt) {
+      return `${WEEKDAY_LABELS[current.weekday]} hours overlap`;
+    }
+  }
+
+  return null;
+}
+
+const inputClass =
+  'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+interface AvailabilityEditorProps {
+  value: AvailabilityDraft;
+  onChange: (value: AvailabilityDraft) => void;
+}
+
+/**
+ * Form fields for the availability settings; the parent decides when to save
+ */
+export function AvailabilityEditor({ value, onChange }: AvailabilityEditorProps) {
+  const timeZones = COMMON_TIME_ZONES.includes(value.timezone)
+    ? COMMON_TIME_ZONES
+    : [value.timezone, ...COMMON_TIME_ZONES];
+  const problem = validateWorkingHours(value.workingHours);
+
+  const setHours = (workingHours: WorkingHours[]) => onChange({ ...value, workingHours });
+
+  const addBlock = (weekday: number) => {
+    const last = value.workingHours
+      .filter((h) => h.weekday === weekday)
+      .sort((a, b) => a.endsAt.localeCompare(b.endsAt))
+      .pop();
+    const block =
+      last && last.endsAt < '22:00'
+        ? { weekday, startsAt: last.endsAt, endsAt: '23:00' }
+        : { weekday, startsAt: '09:00', endsAt: '17:00' };
+    setHours([...value.workingHours, block]);
+  };
+
+  const updateBlock = (index: number, changes: Partial<WorkingHours>) =>
+    setHours(value.workingHours.map((h, i) => (i === index ? { ...h, ...changes } : h)));
+
+  const removeBlock = (index: number) => setHours(value.workingHours.filter((_, i) => i !== index));
+
+  return (
+    <div className="space-y-4">
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+        <input
+          type="checkbox"
+          checked={value.isAvailable}
+          onChange={(e) => onChange({ ...value, isAvailable: e.target.checked })}
+          className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+        />
+        Taking jobs
+      </label>
+
+      <div className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Time zone
+          <select
+            value={value.timezone}
+            onChange={(e) => onChange({ ...value, timezone: e.target.value })}
+            className={inputClass}
+          >
+            {timeZones.map((zone) => (
+              <option key={zone} value={zone}>
+                {zone}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Jobs at once
+          <input
+            type="number"
+            min={1}
+            max={MAX_CONCURRENT_JOBS}
+            value={value.maxConcurrentJobs}
+            onChange={(e) =>
+              onChange({
+                ...value,
+                maxConcurrentJobs: Math.min(MAX_CONCURRENT_JOBS, Math.max(1, parseInt(e.target.value, 10) || 1)),
+              })
+            }
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      <div>
+        <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+          <Clock className="w-4 h-4" />
+          Working hours
+        </div>
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+          {value.workingHours.length === 0
+            ? 'No hours set: clients can assign you jobs at any time.'
+            : `Clients can only assign you jobs within these hours (${value.timezone}).`}
+        </p>
+
+        <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          {WEEKDAY_ORDER.map((weekday) => (
+            <li key={weekday} className="py-2 flex flex-wrap items-center gap-3">
+              <span className="w-24 text-sm text-gray-900 dark:text-white">{WEEKDAY_LABELS[weekday]}</span>
+              {value.workingHours.map((block, index) =>
+                block.weekday === weekday ? (
+                  <span key={index} className="flex items-center gap-1">
+                    <input
+                      type="time"
+                      aria-label={`${WEEKDAY_LABELS[weekday]} start`}
+                      value={block.startsAt}
+                      onChange={(e) => updateBlock(index, { startsAt: e.target.value })}
+                      className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                    <span className="text-gray-500">–</span>
+                    <input
+                      type="time"
+                      aria-label={`${WEEKDAY_LABELS[weekday]} end`}
+                      value={block.endsAt}
+                      onChange={(e) => updateBlock(index, { endsAt: e.target.value })}
+                      className="rounded-md border border-gray-300 px-2 py-1 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+                    />
+                    <button
+                      type="button"
+                      onClick={() => removeBlock(index)}
+                      aria-label={`Remove ${WEEKDAY_LABELS[weekday]} hours`}
+                      className="text-xs text-red-600 hover:text-red-500"
+                    >
+                      Remove
+                    </button>
+                  </span>
+                ) : null
+              )}
+              <button
+                type="button"
+                onClick={() => addBlock(weekday)}
+                className="text-xs font-medium text-indigo-600 hover:text-indigo-500"
+              >
+                Add hours
+              </button>
+            </li>
+          ))}
+        </ul>
+
+        {problem && <p className="mt-2 text-sm text-red-600">{problem}</p>}
+      </div>
+    </div>
+  );
+}
+
+interface TimeOffEditorProps {
+  profileId: number | string;
+  timezone: string;
+  timeOff: TimeOff[];
+}
+
+/**
+ * Current and upcoming time off, with a form to block out more
+ * Times are entered and shown on the runner's clock, not the browser's.
+ */
+export function TimeOffEditor({ profileId, timezone, timeOff }: TimeOffEditorProps) {
+  const [startsAt, setStartsAt] = useState('');
+  const [endsAt, setEndsAt] = useState('');
+  const [reason, setReason] = useState('');
+  const addTimeOff = useAddTimeOff();
+  const removeTimeOff = useRemoveTimeOff();
+
+  const format = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addTimeOff.mutate(
+      { id: profileId, input: { startsAt, endsAt, ...(reason.trim() ? { reason: reason.trim() } : {}) } },
+      {
+        onSuccess: () => {
+          setStartsAt('');
+          setEndsAt('');
+          setReason('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+        <CalendarOff className="w-4 h-4" />
+        Time off
+      </div>
+
+      {timeOff.length === 0 ? (
+        <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">No time off planned.</p>
+      ) : (
+        <ul className="mt-2 divide-y divide-gray-100 dark:divide-gray-700">
+          {timeOff.map((block) => (
+            <li key={block.id} className="py-2 flex items-center justify-between gap-3 text-sm">
+              <span className="text-gray-900 dark:text-white">
+                {format(block.startsAt)} – {format(block.endsAt)}
+                {block.reason && <span className="ml-2 text-gray-500 dark:text-gray-400">{block.reason}</span>}
+              </span>
+              <button
+                type="button"
+                onClick={() => removeTimeOff.mutate({ id: profileId, timeOffId: block.id })}
+                disabled={removeTimeOff.isPending}
+                className="text-xs text-red-600 hover:text-red-500 disabled:opacity-50"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <form onSubmit={handleSubmit} className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-3">
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          From
+          <input
+            type="datetime-local"
+            required
+            value={startsAt}
+            onChange={(e) => setStartsAt(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Until
+          <input
+            type="datetime-local"
+            required
+            value={endsAt}
+            onChange={(e) => setEndsAt(e.target.value)}
+            className={inputClass}
+          />
+        </label>
+        <label className="text-sm text-gray-700 dark:text-gray-300">
+          Reason (optional)
+          <input type="text" maxLength={200} value={reason} onChange={(e) => setReason(e.target.value)} className={inputClass} />
+        </label>
+        <div className="sm:col-span-3 flex items-center justify-between">
+          <p className="text-xs text-gray-500 dark:text-gray-400">Times are in {timezone}.</p>
+          <button
+            type="submit"
+            disabled={addTimeOff.isPending}
+            className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+          >
+            {addTimeOff.isPending ? 'Adding...' : 'Add time off'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+}
+
+const toDraft = (availability: RunnerAvailability): AvailabilityDraft => ({
+  isAvailable: availability.isAvailable,
+  timezone: availability.timezone,
+  maxConcurrentJobs: availability.maxConcurrentJobs,
+  workingHours: availability.workingHours,
+});
+
+interface RunnerAvailabilitySettingsProps {
+  profileId: number | string;
+}
+
+/**
+ * Availability of an existing runner profile, saved on demand, with its time off
+ */
+export function RunnerAvailabilitySettings({ profileId }: RunnerAvailabilitySettingsProps) {
+  const { data, isLoading, error } = useRunnerAvailability(profileId);
+
+  if (isLoading) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading availability...</p>;
+  }
+  if (error || !data) {
+    return <p className="text-sm text-red-600">{error?.message || 'Failed to load availability'}</p>;
+  }
+
+  return <AvailabilitySettingsForm profileId={profileId} availability={data} />;
+}
+
+interface AvailabilitySettingsFormProps {
+  profileId: number | string;
+  availability: RunnerAvailability;
+}
+
+function AvailabilitySettingsForm({ profileId, availability }: AvailabilitySettingsFormProps) {
+  const updateAvailability = useUpdateAvailability();
+  const [draft, setDraft] = useState<AvailabilityDraft>(() => toDraft(availability));
+
+  return (
+    <div className="space-y-6">
+      <AvailabilityEditor value={draft} onChange={setDraft} />
+      <div className="flex justify-end">
+        <button
+          type="button"
+          onClick={() => updateAvailability.mutate({ id: profileId, input: draft })}
+          disabled={updateAvailability.isPending || validateWorkingHours(draft.workingHours) !== null}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {updateAvailability.isPending ? 'Saving...' : 'Save availability'}
+        </button>
+      </div>
+      <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
+        <TimeOffEditor profileId={profileId} timezone={availability.timezone} timeOff={availability.timeOff} />
+      </div>
+    </div>
+  );
+}
+
+export default AvailabilityEditor;
@@ -0,0 +1,333 @@
+/**
+ * Proof of Delivery Components
+ *
+ * - DeliveryProofForm: the runner attaches photos, a receipt, the recipient's
+ *   name and/or the recipient's delivery code when completing a job
+ * - DeliveryProofView: the client reviews that proof before releasing payment
+ * - DeliveryCodePanel: the client gets a one-time code to hand to the recipient
+ */
+
+import { useState } from 'react';
+import { Camera, CheckCircle, KeyRound, Receipt, X } from 'lucide-react';
+import { useDeliveryAttachment, useDeliveryProof, useIssueDeliveryCode } from '../hooks/useDeliveryProof';
+import type {
+  DeliveryAttachment,
+  DeliveryAttachmentKind,
+  DeliveryProofInput,
+} from '../services/job.service';
+import { compressImage, formatFileSize } from '../utils/image';
+
+// Keep in step with the API's proof limits
+export const MAX_PROOF_ATTACHMENTS = 3;
+export const MAX_PROOF_ATTACHMENT_BYTES = 2 * 1024 * 1024;
+
+interface ProofFile {
+  kind: DeliveryAttachmentKind;
+  file: File;
+}
+
+/**
+ * Turn the form state into the payload for completing a job
+ * Empty fields are left out so a job can still be completed without proof
+ */
+export async function buildDeliveryProof(
+  files: ProofFile[],
+  fields: { recipientName: string; deliveryCode: string; note: string }
+): Promise<DeliveryProofInput> {
+  const proof: DeliveryProofInput = {};
+
+  if (files.length > 0) {
+    proof.attachments = await Promise.all(
+      files.map(async ({ kind, file }) => ({
+        kind,
+        fileName: file.name,
+        data: await compressImage(file, MAX_PROOF_ATTACHMENT_BYTES),
+      }))
+    );
+  }
+
+  const recipientName = fields.recipientName.trim();
+  const deliveryCode = fields.deliveryCode.trim();
+  const note = fields.note.trim();
+
+  if (recipientName) proof.recipientName = recipientName;
+  if (deliveryCode) proof.deliveryCode = deliveryCode;
+  if (note) proof.note = note;
+
+  return proof;
+}
+
+interface DeliveryProofFormProps {
+  submitting: boolean;
+  /** Set while stops are still open */
+  disabledReason?: string | undefined;
+  onSubmit: (proof: DeliveryProofInput) => void;
+}
+
+export function DeliveryProofForm({ submitting, disabledReason, onSubmit }: DeliveryProofFormProps) {
+  const [files, setFiles] = useState<ProofFile[]>([]);
+  const [recipientName, setRecipientName] = useState('');
+  const [deliveryCode, setDeliveryCode] = useState('');
+  const [note, setNote] = useState('');
+  const [preparing, setPreparing] = useState(false);
+  const [error, setError] = useState('');
+
+  const addFiles = (kind: DeliveryAttachmentKind, selected: FileList | null) => {
+    if (!selected) return;
+
+    const added = Array.from(selected).map(file => ({ kind, file }));
+    if (files.length + added.length > MAX_PROOF_ATTACHMENTS) {
+      setError(`You can attach up to ${MAX_PROOF_ATTACHMENTS} files`);
+      return;
+    }
+
+    setError('');
+    setFiles([...files, ...added]);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setPreparing(true);
+    setError('');
+
+    try {
+      onSubmit(await buildDeliveryProof(files, { recipientName, deliveryCode, note }));
+    } catch (err: any) {
+      setError(err.message || 'Failed to read attachments');
+    } finally {
+      setPreparing(false);
+    }
+  };
+
+  const busy = submitting || preparing;
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-6 bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 space-y-4">
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Proof of Delivery</h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          The client reviews this before releasing payment. Add what you have.
+        </p>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        <label className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+          <Camera className="w-4 h-4" />
+          Add photo
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            capture="environment"
+            multiple
+            className="sr-only"
+            aria-label="Add photo"
+            onChange={e => {
+              addFiles('photo', e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+        <label className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700">
+          <Receipt className="w-4 h-4" />
+          Add receipt
+          <input
+            type="file"
+            accept="image/jpeg,image/png,image/webp"
+            className="sr-only"
+            aria-label="Add receipt"
+            onChange={e => {
+              addFiles('receipt', e.target.files);
+              e.target.value = '';
+            }}
+          />
+        </label>
+      </div>
+
+      {files.length > 0 && (
+        <ul className="space-y-1">
+          {files.map(({ kind, file }, index) => (
+            <li key={`${file.name}-${index}`} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+              <span>
+                {kind === 'receipt' ? 'Receipt' : 'Photo'}: {file.name} ({formatFileSize(file.size)})
+              </span>
+              <button
+                type="button"
+                title="Remove attachment"
+                onClick={() => setFiles(files.filter((_, i) => i !== index))}
+                className="text-gray-400 hover:text-red-600"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="recipient-name" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Received by
+          </label>
+          <input
+            id="recipient-name"
+            type="text"
+            maxLength={100}
+            value={recipientName}
+            onChange={e => setRecipientName(e.target.value)}
+            placeholder="Recipient's name"
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+        <div>
+          <label htmlFor="delivery-code" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Delivery code
+          </label>
+          <input
+            id="delivery-code"
+            type="text"
+            inputMode="numeric"
+            maxLength={12}
+            value={deliveryCode}
+            onChange={e => setDeliveryCode(e.target.value)}
+            placeholder="If the recipient has one"
+            className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+          />
+        </div>
+      </div>
+
+      <div>
+        <label htmlFor="delivery-note" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+          Note
+        </label>
+        <textarea
+          id="delivery-note"
+          rows={2}
+          maxLength={500}
+          value={note}
+          onChange={e => setNote(e.target.value)}
+          placeholder="e.g. Left with the concierge"
+          className="mt-1 block w-full rounded-md border-gray-300 dark:border-gray-600 dark:bg-gray-700 dark:text-white shadow-sm focus:border-indigo-500 focus:ring-indigo-500 sm:text-sm"
+        />
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      <div className="flex justify-end">
+        <button
+          type="submit"
+          disabled={busy || !!disabledReason}
+          title={disabledReason}
+          className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+        >
+          {busy ? 'Completing...' : 'Mark as Complete'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+function AttachmentPreview({ jobId, attachment }: { jobId: number; attachment: DeliveryAttachment }) {
+  const { data: src, isPending, isError } = useDeliveryAttachment(jobId, attachment.id);
+  const label = attachment.kind === 'receipt' ? 'Receipt' : 'Photo';
+
+  return (
+    <figure className="w-32">
+      {isPending ? (
+        <div className="w-32 h-32 rounded-md bg-gray-100 dark:bg-gray-700 animate-pulse" />
+      ) : isError || !src ? (
+        <div className="w-32 h-32 rounded-md bg-gray-100 dark:bg-gray-700 flex items-center justify-center text-xs text-gray-500">
+          Unavailable
+        </div>
+      ) : (
+        <a href={src} target="_blank" rel="noopener noreferrer">
+          <img src={src} alt={`${label}: ${attachment.fileName}`} className="w-32 h-32 rounded-md object-cover" />
+        </a>
+      )}
+      <figcaption className="mt-1 text-xs text-gray-500 dark:text-gray-400 truncate">{label}</figcaption>
+    </figure>
+  );
+}
+
+export function DeliveryProofView({ jobId }: { jobId: number }) {
+  const { data: proof, isPending } = useDeliveryProof(jobId);
+
+  if (isPending) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Loading proof of delivery...</p>;
+  }
+
+  if (!proof) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">The runner did not attach proof of delivery.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <dl className="space-y-1 text-sm">
+        {proof.recipientName && (
+          <div className="flex gap-2">
+            <dt className="text-gray-500 dark:text-gray-400">Received by</dt>
+            <dd className="text-gray-900 dark:text-white">{proof.recipientName}</dd>
+          </div>
+        )}
+        {proof.codeVerified && (
+          <div className="flex items-center gap-1 text-green-700 dark:text-green-400">
+            <dt className="sr-only">Delivery code</dt>
+            <CheckCircle className="w-4 h-4" />
+            <dd>Recipient's delivery code confirmed</dd>
+          </div>
+        )}
+        {proof.note && (
+          <div className="flex gap-2">
+            <dt className="text-gray-500 dark:text-gray-400">Note</dt>
+            <dd className="text-gray-900 dark:text-white">{proof.note}</dd>
+          </div>
+        )}
+        <div className="flex gap-2">
+          <dt className="text-gray-500 dark:text-gray-400">Submitted</dt>
+          <dd className="text-gray-900 dark:text-white">{new Date(proof.submittedAt).toLocaleString()}</dd>
+        </div>
+      </dl>
+
+      {proof.attachments.length > 0 && (
+        <div className="flex flex-wrap gap-3">
+          {proof.attachments.map(attachment => (
+            <AttachmentPreview key={attachment.id} jobId={jobId} attachment={attachment} />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function DeliveryCodePanel({ jobId }: { jobId: number }) {
+  const issueCode = useIssueDeliveryCode(jobId);
+
+  return (
+    <div>
+      {issueCode.data ? (
+        <div>
+          <p className="text-2xl font-mono font-semibold tracking-widest text-gray-900 dark:text-white">
+            {issueCode.data.code}
+          </p>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Give this code to the recipient. The runner enters it when handing over the goods.
+          </p>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Want confirmation that the right person got it? Share a one-time code with the recipient.
+          </p>
+          <button
+            type="button"
+            onClick={() => issueCode.mutate()}
+            disabled={issueCode.isPending}
+            className="inline-flex items-center gap-2 px-3 py-2 rounded-md border border-gray-300 dark:border-gray-600 text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50 whitespace-nowrap"
+          >
+            <KeyRound className="w-4 h-4" />
+            {issueCode.isPending ? 'Loading...' : 'Get delivery code'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * Fee Breakdown Component
+ * Shows the platform fee kept from a job's payout and what the runner receives
+ */
+
+import React from 'react';
+import type { FeeQuote } from '../services/fee.service';
+import { formatCentsAsUsd } from '../utils/currency';
+
+interface FeeBreakdownProps {
+  quote: FeeQuote | null;
+  loading?: boolean;
+  /** The runner is not known yet, so volume discounts are not included */
+  estimate?: boolean;
+}
+
+export const FeeBreakdown: React.FC<FeeBreakdownProps> = ({ quote, loading = false, estimate = false }) => {
+  if (loading && !quote) {
+    return <p className="text-sm text-gray-500 dark:text-gray-400">Calculating platform fee...</p>;
+  }
+
+  if (!quote) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-2 text-sm" data-testid="fee-breakdown">
+      <div className="flex justify-between">
+        <span className="text-gray-600 dark:text-gray-400">Platform fee{estimate ? ' (estimate)' : ''}:</span>
+        <span className="font-medium text-gray-900 dark:text-white">{formatCentsAsUsd(quote.feeCents)}</span>
+      </div>
+      <div className="flex justify-between">
+        <span className="text-gray-600 dark:text-gray-400">Runner receives:</span>
+        <span className="font-medium text-gray-900 dark:text-white">{formatCentsAsUsd(quote.netCents)}</span>
+      </div>
+      {quote.rules.length > 0 && (
+        <ul className="text-xs text-gray-500 dark:text-gray-400 list-disc list-inside">
+          {quote.rules.map((rule) => (
+            <li key={rule.code}>{rule.description}</li>
+          ))}
+        </ul>
+      )}
+      {estimate && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          High-volume runners pay a lower fee, so the final fee may be less.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default FeeBreakdown;
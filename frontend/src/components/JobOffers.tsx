@@ -0,0 +1,320 @@
+/**
+ * Job Offers Component
+ * Negotiation between the client and runners on an open job
+ *
+ * Runners make an offer (price, ETA, note); whoever did not make the latest
+ * proposal in a thread can accept, reject or counter it. Accepting assigns
+ * the job to that runner at the proposed price.
+ */
+
+import { useState } from 'react';
+import {
+  useJobOffers,
+  useSubmitOffer,
+  useCounterOffer,
+  useAcceptOffer,
+  useRejectOffer,
+  useWithdrawOffer,
+} from '../hooks/useOffers';
+import type { JobOffer, OfferParty, OfferTerms } from '../services/offer.service';
+import { formatCentsAsUsd, usdToCents, centsToUsd } from '../utils/currency';
+
+interface JobOffersProps {
+  jobId: number;
+  /** Client's asking price, used to prefill a runner's first offer */
+  askingPriceCents: number;
+  isClient: boolean;
+  /** Called once an offer is accepted and the job is assigned */
+  onAccepted?: () => void;
+}
+
+/**
+ * One runner's negotiation with the client, oldest proposal first
+ */
+export interface OfferThread {
+  runnerId: number;
+  offers: JobOffer[];
+  latest: JobOffer;
+}
+
+/**
+ * Group offers into one thread per negotiation
+ * A runner may start a new negotiation after a previous one was rejected or
+ * withdrawn, so threads are split wherever an offer has no parent
+ */
+export function groupOfferThreads(offers: JobOffer[]): OfferThread[] {
+  const sorted = [...offers].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime() || a.id - b.id
+  );
+  const threads: OfferThread[] = [];
+  const threadByOffer = new Map<number, OfferThread>();
+
+  for (const offer of sorted) {
+    const parentThread = offer.parentId !== null ? threadByOffer.get(offer.parentId) : undefined;
+
+    if (parentThread) {
+      parentThread.offers.push(offer);
+      parentThread.latest = offer;
+      threadByOffer.set(offer.id, parentThread);
+    } else {
+      const thread = { runnerId: offer.runnerId, offers: [offer], latest: offer };
+      threads.push(thread);
+      threadByOffer.set(offer.id, thread);
+    }
+  }
+
+  // Live negotiations first, then most recent activity
+  return threads.sort((a, b) => {
+    const aPending = a.latest.status === 'pending' ? 0 : 1;
+    const bPending = b.latest.status === 'pending' ? 0 : 1;
+    return aPending - bPending || b.latest.id - a.latest.id;
+  });
+}
+
+const STATUS_LABELS: Record<JobOffer['status'], string> = {
+  pending: 'Pending',
+  countered: 'Countered',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  withdrawn: 'Withdrawn',
+};
+
+const STATUS_COLORS: Record<JobOffer['status'], string> = {
+  pending: 'bg-yellow-100 text-yellow-800',
+  countered: 'bg-gray-100 text-gray-700',
+  accepted: 'bg-green-100 text-green-800',
+  rejected: 'bg-red-100 text-red-800',
+  withdrawn: 'bg-gray-100 text-gray-500',
+};
+
+interface TermsFormProps {
+  initialPriceCents: number;
+  submitLabel: string;
+  loading: boolean;
+  onSubmit: (terms: OfferTerms) => void;
+  onCancel?: () => void;
+}
+
+function TermsForm({ initialPriceCents, submitLabel, loading, onSubmit, onCancel }: TermsFormProps) {
+  const [price, setPrice] = useState(initialPriceCents > 0 ? String(centsToUsd(initialPriceCents)) : '');
+  const [eta, setEta] = useState('');
+  const [note, setNote] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const terms: OfferTerms = { priceCents: usdToCents(Number(price)) };
+    if (eta) {
+      terms.etaMinutes = Number(eta);
+    }
+    if (note.trim()) {
+      terms.note = note.trim();
+    }
+    onSubmit(terms);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="grid grid-cols-2 gap-3">
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          Price (USD)
+          <input
+            type="number"
+            min="0.01"
+            step="0.01"
+            required
+            value={price}
+            onChange={(e) => setPrice(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-3 py-2 text-sm"
+          />
+        </label>
+        <label className="block text-sm text-gray-700 dark:text-gray-300">
+          ETA (minutes)
+          <input
+            type="number"
+            min="1"
+            step="1"
+            value={eta}
+            onChange={(e) => setEta(e.target.value)}
+            className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-3 py-2 text-sm"
+          />
+        </label>
+      </div>
+      <label className="block text-sm text-gray-700 dark:text-gray-300">
+        Note
+        <textarea
+          rows={2}
+          maxLength={500}
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+          className="mt-1 block w-full rounded-md border border-gray-300 dark:border-gray-600 dark:bg-gray-700 px-3 py-2 text-sm"
+        />
+      </label>
+      <div className="flex justify-end space-x-2">
+        {onCancel && (
+          <button
+            type="button"
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-300 hover:text-gray-900"
+          >
+            Cancel
+          </button>
+        )}
+        <button
+          type="submit"
+          disabled={loading}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {loading ? 'Sending...' : submitLabel}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+export function JobOffers({ jobId, askingPriceCents, isClient, onAccepted }: JobOffersProps) {
+  const { data: offers = [], isLoading } = useJobOffers(jobId);
+  const submitOffer = useSubmitOffer(jobId);
+  const counterOffer = useCounterOffer();
+  const acceptOffer = useAcceptOffer();
+  const rejectOffer = useRejectOffer();
+  const withdrawOffer = useWithdrawOffer();
+  const [counteringId, setCounteringId] = useState<number | null>(null);
+
+  const party: OfferParty = isClient ? 'client' : 'runner';
+  const threads = groupOfferThreads(offers);
+  const busy =
+    counterOffer.isPending || acceptOffer.isPending || rejectOffer.isPending || withdrawOffer.isPending;
+  // A runner can open a new negotiation once their previous one has ended
+  const canMakeOffer = !isClient && !threads.some((thread) => thread.latest.status === 'pending');
+
+  const handleAccept = (offerId: number) => {
+    acceptOffer.mutate(offerId, { onSuccess: () => onAccepted?.() });
+  };
+
+  const handleCounter = (offerId: number, terms: OfferTerms) => {
+    counterOffer.mutate({ offerId, terms }, { onSuccess: () => setCounteringId(null) });
+  };
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 shadow rounded-lg p-6">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+        {isClient ? 'Offers' : 'Your Offer'}
+      </h2>
+
+      {isLoading && <p className="text-sm text-gray-500 dark:text-gray-400">Loading offers...</p>}
+
+      {!isLoading && threads.length === 0 && isClient && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No offers yet.</p>
+      )}
+
+      <div className="space-y-4">
+        {threads.map((thread) => {
+          const { latest } = thread;
+          const canRespond = latest.status === 'pending' && latest.proposedBy !== party;
+          const canWithdraw = latest.status === 'pending' && latest.proposedBy === party;
+
+          return (
+            <div
+              key={thread.offers[0]!.id}
+              className="border border-gray-200 dark:border-gray-700 rounded-md p-4"
+            >
+              {isClient && (
+                <p className="text-sm font-medium text-gray-900 dark:text-white mb-2">
+                  Runner #{thread.runnerId}
+                </p>
+              )}
+
+              <ul className="space-y-2">
+                {thread.offers.map((offer) => (
+                  <li key={offer.id} className="flex items-start justify-between text-sm">
+                    <div>
+                      <span className="text-gray-500 dark:text-gray-400">
+                        {offer.proposedBy === party ? 'You' : offer.proposedBy === 'client' ? 'Client' : 'Runner'}
+                        {offer.parentId !== null ? ' countered: ' : ' offered: '}
+                      </span>
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {formatCentsAsUsd(offer.priceCents)}
+                      </span>
+                      {offer.etaMinutes !== null && (
+                        <span className="text-gray-500 dark:text-gray-400"> · {offer.etaMinutes} min</span>
+                      )}
+                      {offer.note && <p className="text-gray-600 dark:text-gray-300">{offer.note}</p>}
+                    </div>
+                    <span className={`ml-3 px-2 py-0.5 rounded-full text-xs font-medium ${STATUS_COLORS[offer.status]}`}>
+                      {STATUS_LABELS[offer.status]}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+
+              {counteringId === latest.id ? (
+                <div className="mt-4">
+                  <TermsForm
+                    initialPriceCents={latest.priceCents}
+                    submitLabel="Send Counter-offer"
+                    loading={counterOffer.isPending}
+                    onSubmit={(terms) => handleCounter(latest.id, terms)}
+                    onCancel={() => setCounteringId(null)}
+                  />
+                </div>
+              ) : (
+                (canRespond || canWithdraw) && (
+                  <div className="mt-4 flex justify-end space-x-2">
+                    {canRespond && (
+                      <>
+                        <button
+                          onClick={() => rejectOffer.mutate(latest.id)}
+                          disabled={busy}
+                          className="px-4 py-2 rounded-md text-sm font-medium text-red-700 border border-red-300 hover:bg-red-50 disabled:opacity-50"
+                        >
+                          Reject
+                        </button>
+                        <button
+                          onClick={() => setCounteringId(latest.id)}
+                          disabled={busy}
+                          className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                        >
+                          Counter
+                        </button>
+                        <button
+                          onClick={() => handleAccept(latest.id)}
+                          disabled={busy}
+                          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                        >
+                          {acceptOffer.isPending ? 'Accepting...' : `Accept ${formatCentsAsUsd(latest.priceCents)}`}
+                        </button>
+                      </>
+                    )}
+                    {canWithdraw && (
+                      <button
+                        onClick={() => withdrawOffer.mutate(latest.id)}
+                        disabled={busy}
+                        className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600 hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+                      >
+                        Withdraw
+                      </button>
+                    )}
+                  </div>
+                )
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {canMakeOffer && !isLoading && (
+        <div className={threads.length > 0 ? 'mt-6' : ''}>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-3">
+            Asking price is {formatCentsAsUsd(askingPriceCents)}. Offer it as is or propose your own terms.
+          </p>
+          <TermsForm
+            initialPriceCents={askingPriceCents}
+            submitLabel="Make Offer"
+            loading={submitOffer.isPending}
+            onSubmit={(terms) => submitOffer.mutate(terms)}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,490 @@
+/**
+ * Job Reviews Components
+ *
+ * Two-way reviews of a finished job: the client rates the runner, and the
+ * runner rates the client and may flag a no-show or a late or missing
+ * payment. Reviews are blind; each side only sees the other's review once
+ * both have submitted or the review window has closed.
+ *
+ * Clients can also rate punctuality, communication and care of items. The
+ * runner can reply once to the client's review, and either side can report
+ * an abusive review to the moderators.
+ *
+ * Also the client reputation runners see before they take a job.
+ */
+
+import { useState, type ReactNode } from 'react';
+import type { JobStatus } from '../services/job.service';
+import type { ClientFlag, Review, ReviewerRole, SubRatings } from '../services/review.service';
+import {
+  useClientRatingStats,
+  useJobReviews,
+  useReplyToReview,
+  useReportReview,
+  useSubmitReview,
+} from '../hooks/useReviews';
+
+// Statuses each side may review a job in (the server enforces the same)
+const REVIEWABLE_STATUSES: Record<ReviewerRole, JobStatus[]> = {
+  client: ['completed', 'payment_confirmed'],
+  runner: ['completed', 'payment_confirmed', 'disputed', 'cancelled'],
+};
+
+const FLAG_LABELS: Record<ClientFlag, string> = {
+  no_show: 'Did not show up',
+  late_payment: 'Paid late',
+  no_payment: 'Did not pay',
+};
+
+export const SUB_RATING_LABELS: Record<keyof SubRatings, string> = {
+  punctuality: 'Punctuality',
+  communication: 'Communication',
+  careOfItems: 'Care of items',
+};
+
+const RATING_LABELS = ['Poor', 'Fair', 'Good', 'Very Good', 'Excellent'];
+
+const OTHER_SIDE: Record<ReviewerRole, ReviewerRole> = { client: 'runner', runner: 'client' };
+
+function Stars({ rating }: { rating: number }) {
+  return (
+    <div className="flex items-center">
+      <div className="flex space-x-1">
+        {[1, 2, 3, 4, 5].map((star) => (
+          <span
+            key={star}
+            className={`text-2xl ${star <= rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}
+          >
+            ★
+          </span>
+        ))}
+      </div>
+      <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">{rating}/5</span>
+    </div>
+  );
+}
+
+interface ReviewCardProps {
+  title: string;
+  review: Review;
+  note?: string | undefined;
+  children?: ReactNode; // Actions on the review
+}
+
+function ReviewCard({ title, review, note, children }: ReviewCardProps) {
+  const subRatings = (Object.keys(SUB_RATING_LABELS) as (keyof SubRatings)[]).filter(
+    (key) => review.subRatings[key] !== null
+  );
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 transition-colors">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">{title}</h3>
+      <div className="mb-3">
+        <Stars rating={review.rating} />
+      </div>
+      {review.flags.length > 0 && (
+        <div className="mb-3 flex flex-wrap gap-2">
+          {review.flags.map((flag) => (
+            <span key={flag} className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              {FLAG_LABELS[flag]}
+            </span>
+          ))}
+        </div>
+      )}
+      {subRatings.length > 0 && (
+        <dl className="mb-3 flex flex-wrap gap-x-6 gap-y-1 text-sm">
+          {subRatings.map((key) => (
+            <div key={key} className="flex gap-1">
+              <dt className="text-gray-500 dark:text-gray-400">{SUB_RATING_LABELS[key]}</dt>
+              <dd className="text-gray-900 dark:text-white">{review.subRatings[key]}/5</dd>
+            </div>
+          ))}
+        </dl>
+      )}
+      {review.comment && <p className="text-gray-700 dark:text-gray-300 mb-3">{review.comment}</p>}
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Submitted on {new Date(review.createdAt).toLocaleDateString()}
+      </p>
+      {review.reply && (
+        <div className="mt-4 border-l-4 border-indigo-200 dark:border-indigo-700 pl-4">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">Runner's reply</p>
+          <p className="text-gray-700 dark:text-gray-300">{review.reply.comment}</p>
+        </div>
+      )}
+      {note && <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{note}</p>}
+      {children}
+    </div>
+  );
+}
+
+/**
+ * One public reply from the runner to the client's review
+ */
+function ReplyForm({ reviewId }: { reviewId: number }) {
+  const [open, setOpen] = useState(false);
+  const [reply, setReply] = useState('');
+  const replyToReview = useReplyToReview();
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="mt-4 mr-4 text-sm font-medium text-indigo-600 hover:text-indigo-500 dark:text-indigo-400"
+      >
+        Reply
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <label htmlFor={`review-reply-${reviewId}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        Your public reply
+      </label>
+      <textarea
+        id={`review-reply-${reviewId}`}
+        value={reply}
+        onChange={(e) => setReply(e.target.value)}
+        rows={3}
+        className="w-full border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-colors"
+      />
+      <div className="mt-2 flex space-x-3">
+        <button
+          onClick={() => replyToReview.mutate({ reviewId, reply }, { onSuccess: () => setOpen(false) })}
+          disabled={replyToReview.isPending || reply.trim().length === 0}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {replyToReview.isPending ? 'Posting...' : 'Post Reply'}
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Report an abusive review to the moderators
+ */
+function ReportReview({ reviewId }: { reviewId: number }) {
+  const [open, setOpen] = useState(false);
+  const [reason, setReason] = useState('');
+  const reportReview = useReportReview();
+
+  if (reportReview.isSuccess) {
+    return <p className="mt-4 text-sm text-gray-500 dark:text-gray-400">Reported to the moderators.</p>;
+  }
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="mt-4 text-sm text-gray-500 hover:text-red-600 dark:text-gray-400"
+      >
+        Report
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4">
+      <label htmlFor={`review-report-${reviewId}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+        What is wrong with this review?
+      </label>
+      <input
+        id={`review-report-${reviewId}`}
+        value={reason}
+        onChange={(e) => setReason(e.target.value)}
+        className="w-full border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-red-500 focus:border-transparent transition-colors"
+      />
+      <div className="mt-2 flex space-x-3">
+        <button
+          onClick={() => reportReview.mutate({ reviewId, reason })}
+          disabled={reportReview.isPending || reason.trim().length === 0}
+          className="px-4 py-2 rounded-md text-sm font-medium text-white bg-red-600 hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {reportReview.isPending ? 'Sending...' : 'Send Report'}
+        </button>
+        <button
+          onClick={() => setOpen(false)}
+          className="px-4 py-2 rounded-md text-sm font-medium text-gray-700 dark:text-gray-300 border border-gray-300 dark:border-gray-600"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface ReviewFormProps {
+  role: ReviewerRole;
+  submitting: boolean;
+  onSubmit: (input: {
+    rating: number;
+    comment: string;
+    flags: ClientFlag[];
+    subRatings: Partial<SubRatings>;
+  }) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Star rating, comment and, for clients, sub-ratings of the runner or, for
+ * runners, flags about the client
+ */
+export function ReviewForm({ role, submitting, onSubmit, onCancel }: ReviewFormProps) {
+  const [rating, setRating] = useState(5);
+  const [comment, setComment] = useState('');
+  const [flags, setFlags] = useState<ClientFlag[]>([]);
+  const [subRatings, setSubRatings] = useState<Partial<SubRatings>>({});
+
+  const toggleFlag = (flag: ClientFlag) =>
+    setFlags((current) => (current.includes(flag) ? current.filter((f) => f !== flag) : [...current, flag]));
+
+  return (
+    <div className="mt-6 bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 transition-colors">
+      <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+        {role === 'client' ? 'Rate Your Runner' : 'Rate Your Client'}
+      </h3>
+
+      {/* Star Rating */}
+      <div className="mb-4">
+        <div className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Rating</div>
+        <div className="flex space-x-2">
+          {[1, 2, 3, 4, 5].map((star) => (
+            <button
+              key={star}
+              type="button"
+              aria-label={`${star} stars`}
+              onClick={() => setRating(star)}
+              className={`text-3xl transition-colors ${star <= rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'} hover:text-yellow-300`}
+            >
+              ★
+            </button>
+          ))}
+        </div>
+        <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{RATING_LABELS[rating - 1]}</p>
+      </div>
+
+      {/* Sub-ratings - clients rate parts of the runner's work */}
+      {role === 'client' && (
+        <fieldset className="mb-4">
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            In detail (optional)
+          </legend>
+          <div className="space-y-2">
+            {(Object.keys(SUB_RATING_LABELS) as (keyof SubRatings)[]).map((key) => (
+              <div key={key} className="flex items-center">
+                <span className="w-36 text-sm text-gray-700 dark:text-gray-300">{SUB_RATING_LABELS[key]}</span>
+                <div className="flex space-x-1">
+                  {[1, 2, 3, 4, 5].map((star) => (
+                    <button
+                      key={star}
+                      type="button"
+                      aria-label={`${SUB_RATING_LABELS[key]} ${star} stars`}
+                      onClick={() => setSubRatings((current) => ({ ...current, [key]: star }))}
+                      className={`text-xl transition-colors ${star <= (subRatings[key] ?? 0) ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'} hover:text-yellow-300`}
+                    >
+                      ★
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {/* Flags - runners report problems with the client */}
+      {role === 'runner' && (
+        <fieldset className="mb-4">
+          <legend className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Anything go wrong? (optional)
+          </legend>
+          <div className="flex flex-wrap gap-4">
+            {(Object.keys(FLAG_LABELS) as ClientFlag[]).map((flag) => (
+              <label key={flag} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input type="checkbox" checked={flags.includes(flag)} onChange={() => toggleFlag(flag)} />
+                {FLAG_LABELS[flag]}
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
+      {/* Comment */}
+      <div className="mb-4">
+        <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+          Comment (optional)
+        </label>
+        <textarea
+          id="review-comment"
+          value={comment}
+          onChange={(e) => setComment(e.target.value)}
+          rows={4}
+          className="w-full border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-colors"
+          placeholder={`Share your experience with this ${OTHER_SIDE[role]}...`}
+        />
+      </div>
+
+      <p className="mb-4 text-sm text-gray-500 dark:text-gray-400">
+        Your review stays hidden until the {OTHER_SIDE[role]} reviews you too, or the review window closes.
+      </p>
+
+      {/* Submit */}
+      <div className="flex space-x-3">
+        <button
+          onClick={() => onSubmit({ rating, comment, flags, subRatings })}
+          disabled={submitting}
+          className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
+        >
+          {submitting ? 'Submitting...' : 'Submit Review'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-base font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+interface JobReviewsProps {
+  jobId: number;
+  status: JobStatus;
+  reviewerRole: ReviewerRole; // Side of the job the viewer is on
+}
+
+/**
+ * Both sides' reviews of a job, as far as the viewer may see them
+ */
+export function JobReviews({ jobId, status, reviewerRole: role }: JobReviewsProps) {
+  const [showForm, setShowForm] = useState(false);
+  const reviewable = REVIEWABLE_STATUSES[role].includes(status);
+  const { data } = useJobReviews(jobId, reviewable);
+  const submitReview = useSubmitReview();
+
+  if (!reviewable || !data) return null;
+
+  const other = OTHER_SIDE[role];
+  const mine = data.reviews.find((review) => review.reviewerRole === role);
+  const theirs = data.reviews.find((review) => review.reviewerRole === other);
+  const revealDate = data.revealAt ? new Date(data.revealAt).toLocaleDateString() : null;
+  const windowOpen = !data.revealAt || new Date(data.revealAt) > new Date();
+
+  return (
+    <div>
+      {!mine && data.awaitingReveal && (
+        <div className="mt-6 rounded-md bg-indigo-50 dark:bg-indigo-900/30 p-4">
+          <p className="text-sm text-indigo-800 dark:text-indigo-200">
+            The {other} has reviewed you. Leave your review to see theirs
+            {revealDate ? `; both are revealed on ${revealDate} at the latest` : ''}.
+          </p>
+        </div>
+      )}
+
+      {!mine && windowOpen && !showForm && (
+        <div className="mt-6 flex justify-end">
+          <button
+            onClick={() => setShowForm(true)}
+            className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
+          >
+            {role === 'client' ? 'Review Runner' : 'Review Client'}
+          </button>
+        </div>
+      )}
+
+      {!mine && showForm && (
+        <ReviewForm
+          role={role}
+          submitting={submitReview.isPending}
+          onCancel={() => setShowForm(false)}
+          onSubmit={({ rating, comment, flags, subRatings }) =>
+            submitReview.mutate(
+              {
+                jobId,
+                rating,
+                comment,
+                ...(role === 'runner' ? { flags } : {}),
+                ...(role === 'client' && Object.keys(subRatings).length > 0 ? { subRatings } : {}),
+              },
+              { onSuccess: () => setShowForm(false) }
+            )
+          }
+        />
+      )}
+
+      {mine && (
+        <ReviewCard
+          title="Your Review"
+          review={mine}
+          note={
+            mine.hidden
+              ? 'A moderator hid this review; only you can see it.'
+              : mine.revealed
+                ? undefined
+                : `Hidden until the ${other} reviews you too${revealDate ? ` or until ${revealDate}` : ''}.`
+          }
+        />
+      )}
+
+      {theirs && (
+        <ReviewCard title={role === 'client' ? "Your Runner's Review" : "Your Client's Review"} review={theirs}>
+          {role === 'runner' && !theirs.reply && <ReplyForm reviewId={theirs.id} />}
+          <ReportReview reviewId={theirs.id} />
+        </ReviewCard>
+      )}
+    </div>
+  );
+}
+
+interface ClientReputationProps {
+  clientId: number;
+}
+
+/**
+ * What runners said about a client, shown before taking the job
+ */
+export function ClientReputation({ clientId }: ClientReputationProps) {
+  const { data: stats } = useClientRatingStats(clientId);
+
+  if (!stats) return null;
+
+  const flags = [
+    { count: stats.flags.noShow, label: 'no-show' },
+    { count: stats.flags.latePayment, label: 'late payment' },
+    { count: stats.flags.noPayment, label: 'unpaid job' },
+  ].filter((flag) => flag.count > 0);
+
+  return (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700" data-testid="client-reputation">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">About the Client</h2>
+      {stats.totalReviews === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          No runner reviews yet · {stats.completedJobs} {stats.completedJobs === 1 ? 'job' : 'jobs'} completed
+        </p>
+      ) : (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          <span className="text-yellow-400">★</span> {stats.averageRating.toFixed(1)} from {stats.totalReviews}{' '}
+          {stats.totalReviews === 1 ? 'runner review' : 'runner reviews'} · {stats.completedJobs}{' '}
+          {stats.completedJobs === 1 ? 'job' : 'jobs'} completed
+        </p>
+      )}
+      {flags.length > 0 && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          {flags.map((flag) => (
+            <span key={flag.label} className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              {flag.count} {flag.count === 1 ? flag.label : `${flag.label}s`} reported
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -3,6 +3,8 @@ import { Link, Outlet, useLocation, useNavigate } from 'react-router-dom';
 import { Menu, X, Home, Users, Briefcase, User, LogOut, LogIn, DollarSign } from 'lucide-react';
 import { useIsMobile } from '../hooks/useMobile';
 import { useAuth } from '../contexts/AuthContext';
+import { useRealtimeUpdates } from '../hooks/useRealtime';
+import { authService } from '../services/auth.service';
 
 export default function Layout() {
   const location = useLocation();
@@ -11,6 +13,9 @@ export default function Layout() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   
   const { isAuthenticated, user, logout } = useAuth();
+
+  // Push job, message and payment updates into the query cache
+  useRealtimeUpdates(isAuthenticated ? authService.getToken() : null);
   
   const isActive = (path: string) => location.pathname === path;
   
@@ -0,0 +1,86 @@
+/**
+ * Live Runner Location Component
+ * Runner position and ETA while a job is in progress
+ *
+ * The assigned runner's device shares its location from here; the client
+ * sees where the runner is and how long until the next stop.
+ */
+
+import { useLiveLocation, useLocationSharing } from '../hooks/useTracking';
+import type { JobStop } from '../services/job.service';
+import { formatDistance } from '../utils/geolocation';
+
+interface LiveRunnerLocationProps {
+  jobId: number;
+  stops: JobStop[];
+  isClient: boolean;
+  isRunner: boolean;
+}
+
+/**
+ * Human-readable age of a position, e.g. "just now" or "3 min ago"
+ */
+export function formatLastSeen(recordedAt: string, now: number = Date.now()): string {
+  const minutes = Math.floor((now - new Date(recordedAt).getTime()) / 60000);
+  if (minutes < 1) return 'just now';
+  if (minutes < 60) return `${minutes} min ago`;
+  return new Date(recordedAt).toLocaleTimeString();
+}
+
+export function LiveRunnerLocation({ jobId, stops, isClient, isRunner }: LiveRunnerLocationProps) {
+  const { error: sharingError } = useLocationSharing(jobId, isRunner);
+  const { data: live, isPending } = useLiveLocation(jobId, { enabled: isClient });
+
+  if (isRunner) {
+    return (
+      <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+        <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Live Location</h2>
+        {sharingError ? (
+          <p className="text-sm text-red-600 dark:text-red-400">{sharingError}</p>
+        ) : (
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Your location is shared with the client until the job is completed.
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  if (!isClient) return null;
+
+  const position = live?.position;
+  const nextStop = position?.nextStopId ? stops.find(stop => stop.id === position.nextStopId) : undefined;
+
+  return (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Live Location</h2>
+
+      {isPending ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading runner location...</p>
+      ) : !position ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Waiting for the runner to share their location.</p>
+      ) : (
+        <div className="space-y-2">
+          {position.etaMinutes !== null && position.distanceKm !== null && (
+            <p className="text-sm text-gray-900 dark:text-white">
+              <span className="font-medium">About {position.etaMinutes} min</span>
+              {' '}({formatDistance(position.distanceKm)}) to{' '}
+              {nextStop ? nextStop.address || `stop ${nextStop.position + 1}` : 'the next stop'}
+            </p>
+          )}
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Last updated {formatLastSeen(position.recordedAt)}
+          </p>
+          <a
+            href={`https://www.google.com/maps?q=${position.lat},${position.lng}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-sm text-blue-600 hover:text-blue-500"
+          >
+            View runner on Google Maps
+          </a>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * LNURL Login Component
+ * Sign in by scanning a QR code with a Lightning wallet (LNURL-auth)
+ *
+ * Shows a one-time LNURL and polls until the wallet has signed it. Expired
+ * or rejected codes can be swapped for a new one.
+ */
+
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { QRCodeSVG } from 'qrcode.react';
+import { authService } from '../services/auth.service';
+import { useAuth } from '../contexts/AuthContext';
+
+interface LnurlLoginProps {
+  onSuccess: () => void;
+  pollIntervalMs?: number;
+}
+
+export function LnurlLogin({ onSuccess, pollIntervalMs = 2000 }: LnurlLoginProps) {
+  const { loginWithLnurl } = useAuth();
+  const [attempt, setAttempt] = useState(0);
+  const [expired, setExpired] = useState(false);
+  const [signedIn, setSignedIn] = useState(false);
+
+  // Every attempt is a fresh one-time code, never served from cache
+  const { data: challenge, isError } = useQuery({
+    queryKey: ['lnurl-challenge', attempt],
+    queryFn: () => authService.createLnurlChallenge(),
+    staleTime: Infinity,
+    gcTime: 0,
+    retry: false,
+    refetchOnWindowFocus: false,
+  });
+
+  const requestNewCode = () => {
+    setExpired(false);
+    setAttempt(prev => prev + 1);
+  };
+
+  useEffect(() => {
+    if (!challenge || signedIn) return;
+
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    // Wait for each poll before scheduling the next, so a finished login is never claimed twice
+    const poll = async () => {
+      if (Date.now() >= new Date(challenge.expiresAt).getTime()) {
+        setExpired(true);
+        return;
+      }
+
+      try {
+        // Signing in re-renders the auth context and restarts this effect, so a
+        // completed login is handled even if this run was cancelled meanwhile
+        if (await loginWithLnurl(challenge.k1)) {
+          setSignedIn(true);
+          onSuccess();
+          return;
+        }
+        if (cancelled) return;
+        timer = setTimeout(poll, pollIntervalMs);
+      } catch {
+        if (!cancelled) setExpired(true);
+      }
+    };
+
+    timer = setTimeout(poll, pollIntervalMs);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [challenge, signedIn, loginWithLnurl, onSuccess, pollIntervalMs]);
+
+  if (isError) {
+    return (
+      <div className="rounded-md bg-red-50 p-4">
+        <p className="text-sm text-red-800">Could not create a login code</p>
+      </div>
+    );
+  }
+
+  if (expired) {
+    return (
+      <div className="text-center space-y-2">
+        <p className="text-sm text-gray-600 dark:text-gray-400">This login code has expired.</p>
+        <button
+          type="button"
+          onClick={requestNewCode}
+          className="text-sm text-indigo-600 hover:text-indigo-500"
+        >
+          Get a new code
+        </button>
+      </div>
+    );
+  }
+
+  if (signedIn) {
+    return <p className="text-sm text-center text-green-700 dark:text-green-400">Signed in</p>;
+  }
+
+  if (!challenge) {
+    return <p className="text-sm text-center text-gray-500 dark:text-gray-400">Creating login code...</p>;
+  }
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="p-4 bg-white border-2 border-gray-200 rounded-lg">
+        <QRCodeSVG value={challenge.lnurl} size={200} level="M" includeMargin={true} />
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400 text-center">
+        Scan with a Lightning wallet that supports LNURL-auth
+      </p>
+      <a
+        href={`lightning:${challenge.lnurl}`}
+        className="text-sm font-medium text-indigo-600 hover:text-indigo-500"
+      >
+        Open in wallet
+      </a>
+      <p className="text-xs text-gray-500">Waiting for your wallet...</p>
+    </div>
+  );
+}
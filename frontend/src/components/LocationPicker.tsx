@@ -1,21 +1,292 @@
 /**
  * Location Picker Component
  * Auto-detects user location with option to manually pin on map
+ * With `stops`, edits an ordered route of pickup, dropoff and other stops
  */
 
 import { useState, useEffect } from 'react';
-import { MapPin, Navigation, Loader } from 'lucide-react';
-import { getCurrentLocation, formatDistance, type Coordinates } from '../utils/geolocation';
+import { MapPin, Navigation, Loader, ArrowUp, ArrowDown, Trash2, Plus, Search } from 'lucide-react';
+import { getCurrentLocation, geocodeAddress, type Coordinates } from '../utils/geolocation';
+import type { JobStopKind } from '../services/job.service';
+
+/**
+ * A stop being edited; coordinates stay null until the address is located
+ */
+export interface StopDraft {
+  key: string;
+  kind: JobStopKind;
+  lat: number | null;
+  lng: number | null;
+  address: string;
+  instructions: string;
+}
+
+let nextStopKey = 0;
+
+/**
+ * Create an empty stop
+ */
+export function createStopDraft(kind: JobStopKind = 'stop'): StopDraft {
+  nextStopKey += 1;
+  return { key: `stop-${nextStopKey}`, kind, lat: null, lng: null, address: '', instructions: '' };
+}
+
+/**
+ * Move a stop one place up (-1) or down (+1) in the route
+ */
+export function moveStop(stops: StopDraft[], index: number, direction: -1 | 1): StopDraft[] {
+  const target = index + direction;
+  if (target < 0 || target >= stops.length) {
+    return stops;
+  }
+
+  const reordered = [...stops];
+  [reordered[index], reordered[target]] = [reordered[target]!, reordered[index]!];
+  return reordered;
+}
+
+const STOP_KIND_LABELS: Record<JobStopKind, string> = {
+  pickup: 'Pickup',
+  dropoff: 'Dropoff',
+  stop: 'Stop',
+};
 
 interface LocationPickerProps {
-  onLocationSelect: (lat: number, lng: number, address?: string) => void;
+  onLocationSelect?: (lat: number, lng: number, address?: string) => void;
   initialLat?: number;
   initialLng?: number;
   label?: string;
   required?: boolean;
+  /** Route to edit; switches the picker to multi-stop mode */
+  stops?: StopDraft[];
+  onStopsChange?: (stops: StopDraft[]) => void;
+  maxStops?: number;
+}
+
+interface StopEditorProps {
+  stop: StopDraft;
+  index: number;
+  count: number;
+  onChange: (stop: StopDraft) => void;
+  onMove: (direction: -1 | 1) => void;
+  onRemove: () => void;
+}
+
+function StopEditor({ stop, index, count, onChange, onMove, onRemove }: StopEditorProps) {
+  const [locating, setLocating] = useState(false);
+  const [error, setError] = useState('');
+
+  const useCurrent = async () => {
+    setLocating(true);
+    setError('');
+    const result = await getCurrentLocation();
+    setLocating(false);
+
+    if (result.error) {
+      setError(result.error);
+      return;
+    }
+
+    onChange({
+      ...stop,
+      lat: result.coordinates.latitude,
+      lng: result.coordinates.longitude,
+      address: result.address || stop.address || 'Current location',
+    });
+  };
+
+  const findAddress = async () => {
+    if (!stop.address.trim()) {
+      setError('Enter an address to look up');
+      return;
+    }
+
+    setLocating(true);
+    setError('');
+    const result = await geocodeAddress(stop.address);
+    setLocating(false);
+
+    if (!result) {
+      setError('Address not found. Try adding the city or postcode.');
+      return;
+    }
+
+    onChange({ ...stop, lat: result.coordinates.latitude, lng: result.coordinates.longitude });
+  };
+
+  const located = stop.lat !== null && stop.lng !== null;
+
+  return (
+    <li className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="flex-shrink-0 w-6 h-6 rounded-full bg-indigo-600 text-white text-xs font-medium flex items-center justify-center">
+          {index + 1}
+        </span>
+        <select
+          aria-label={`Stop ${index + 1} type`}
+          value={stop.kind}
+          onChange={(e) => onChange({ ...stop, kind: e.target.value as JobStopKind })}
+          className="border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md py-1 px-2 text-sm"
+        >
+          {(Object.keys(STOP_KIND_LABELS) as JobStopKind[]).map((kind) => (
+            <option key={kind} value={kind}>{STOP_KIND_LABELS[kind]}</option>
+          ))}
+        </select>
+        <div className="ml-auto flex gap-1">
+          <button
+            type="button"
+            onClick={() => onMove(-1)}
+            disabled={index === 0}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+            title="Move up"
+          >
+            <ArrowUp className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={() => onMove(1)}
+            disabled={index === count - 1}
+            className="p-2 rounded hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+            title="Move down"
+          >
+            <ArrowDown className="w-4 h-4" />
+          </button>
+          <button
+            type="button"
+            onClick={onRemove}
+            disabled={count === 1}
+            className="p-2 rounded text-red-600 hover:bg-red-50 disabled:opacity-30"
+            title="Remove stop"
+          >
+            <Trash2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          aria-label={`Stop ${index + 1} address`}
+          value={stop.address}
+          onChange={(e) => onChange({ ...stop, address: e.target.value, lat: null, lng: null })}
+          placeholder="Address"
+          className="flex-1 border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md py-2 px-3 text-sm"
+        />
+        <button
+          type="button"
+          onClick={findAddress}
+          disabled={locating}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Find address"
+        >
+          <Search className="w-4 h-4 text-gray-600 dark:text-gray-300" />
+        </button>
+        <button
+          type="button"
+          onClick={useCurrent}
+          disabled={locating}
+          className="px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 disabled:opacity-50"
+          title="Use current location"
+        >
+          {locating ? <Loader className="w-4 h-4 animate-spin" /> : <Navigation className="w-4 h-4 text-gray-600 dark:text-gray-300" />}
+        </button>
+      </div>
+
+      <input
+        type="text"
+        aria-label={`Stop ${index + 1} instructions`}
+        value={stop.instructions}
+        onChange={(e) => onChange({ ...stop, instructions: e.target.value })}
+        placeholder="Instructions (optional), e.g. ring the bell, order under Sam"
+        maxLength={500}
+        className="w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md py-2 px-3 text-sm"
+      />
+
+      {located ? (
+        <p className="text-xs text-green-700">
+          <MapPin className="inline w-3 h-3 mr-1" />
+          {stop.lat!.toFixed(6)}, {stop.lng!.toFixed(6)}
+        </p>
+      ) : (
+        <p className="text-xs text-gray-500">Not located yet: search the address or use your current location.</p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </li>
+  );
+}
+
+function StopList({
+  stops,
+  onStopsChange,
+  label,
+  required,
+  maxStops,
+}: {
+  stops: StopDraft[];
+  onStopsChange: (stops: StopDraft[]) => void;
+  label: string;
+  required: boolean;
+  maxStops: number;
+}) {
+  const update = (index: number, stop: StopDraft) =>
+    onStopsChange(stops.map((s, i) => (i === index ? stop : s)));
+
+  return (
+    <div className="space-y-3">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+        {label}
+        {required && <span className="text-red-500 ml-1">*</span>}
+      </label>
+
+      <ol className="space-y-3">
+        {stops.map((stop, index) => (
+          <StopEditor
+            key={stop.key}
+            stop={stop}
+            index={index}
+            count={stops.length}
+            onChange={(updated) => update(index, updated)}
+            onMove={(direction) => onStopsChange(moveStop(stops, index, direction))}
+            onRemove={() => onStopsChange(stops.filter((_, i) => i !== index))}
+          />
+        ))}
+      </ol>
+
+      {stops.length < maxStops && (
+        <button
+          type="button"
+          onClick={() => onStopsChange([...stops, createStopDraft(stops.length === 0 ? 'pickup' : 'dropoff')])}
+          className="w-full flex items-center justify-center gap-2 px-4 py-2 border border-dashed border-gray-300 dark:border-gray-600 rounded-lg text-sm text-gray-700 dark:text-gray-300 hover:bg-gray-50 dark:hover:bg-gray-700"
+        >
+          <Plus className="w-4 h-4" />
+          Add stop
+        </button>
+      )}
+
+      <p className="text-xs text-gray-500">
+        The runner visits the stops in this order and checks each one off on the way.
+      </p>
+    </div>
+  );
+}
+
+export default function LocationPicker(props: LocationPickerProps) {
+  if (props.stops && props.onStopsChange) {
+    return (
+      <StopList
+        stops={props.stops}
+        onStopsChange={props.onStopsChange}
+        label={props.label ?? 'Stops'}
+        required={props.required ?? false}
+        maxStops={props.maxStops ?? 10}
+      />
+    );
+  }
+
+  return <SingleLocationPicker {...props} />;
 }
 
-export default function LocationPicker({
+function SingleLocationPicker({
   onLocationSelect,
   initialLat,
   initialLng,
@@ -52,7 +323,7 @@ export default function LocationPicker({
       } else {
         setCoordinates(result.coordinates);
         setAddress(result.address || 'Location detected');
-        onLocationSelect(
+        onLocationSelect?.(
           result.coordinates.latitude,
           result.coordinates.longitude,
           result.address
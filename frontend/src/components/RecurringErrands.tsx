@@ -0,0 +1,306 @@
+/**
+ * Recurring Errands Component
+ *
+ * The client's recurring errands with their recent and upcoming occurrences.
+ * An errand can be paused, resumed or ended; an occurrence that has not been
+ * posted yet can be skipped, or moved and given its own title, notes or price.
+ */
+
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Repeat } from 'lucide-react';
+import {
+  useJobTemplates,
+  useJobTemplateStatus,
+  useSkipOccurrence,
+  useUpdateOccurrence,
+} from '../hooks/useJobTemplates';
+import type {
+  JobTemplate,
+  JobTemplateOccurrence,
+  OccurrenceStatus,
+  UpdateOccurrenceInput,
+} from '../services/jobTemplate.service';
+import { describeRecurrenceRule } from '../utils/recurrence';
+import { formatCentsAsUsd, usdToCents, centsToUsd } from '../utils/currency';
+
+const STATUS_LABELS: Record<OccurrenceStatus, string> = {
+  scheduled: 'Scheduled',
+  created: 'Posted',
+  skipped: 'Skipped',
+  missed: 'Missed',
+  failed: 'Not posted',
+};
+
+const STATUS_STYLES: Record<OccurrenceStatus, string> = {
+  scheduled: 'bg-blue-100 text-blue-800',
+  created: 'bg-green-100 text-green-800',
+  skipped: 'bg-gray-100 text-gray-700',
+  missed: 'bg-yellow-100 text-yellow-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+/**
+ * Value for a datetime-local input, in the browser's time zone
+ */
+const toLocalInput = (iso: string): string => {
+  const date = new Date(iso);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+interface OccurrenceEditorProps {
+  occurrence: JobTemplateOccurrence;
+  saving: boolean;
+  onSave: (input: UpdateOccurrenceInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for one occurrence; only changed fields are sent
+ */
+export function OccurrenceEditor({ occurrence, saving, onSave, onCancel }: OccurrenceEditorProps) {
+  const [scheduledFor, setScheduledFor] = useState(toLocalInput(occurrence.scheduledFor));
+  const [priceUsd, setPriceUsd] = useState(String(centsToUsd(occurrence.priceCents)));
+  const [title, setTitle] = useState(occurrence.title);
+  const [description, setDescription] = useState(occurrence.description);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const input: UpdateOccurrenceInput = {};
+    if (scheduledFor !== toLocalInput(occurrence.scheduledFor)) {
+      input.scheduledFor = new Date(scheduledFor).toISOString();
+    }
+    if (usdToCents(Number(priceUsd)) !== occurrence.priceCents) input.priceCents = usdToCents(Number(priceUsd));
+    if (title.trim() !== occurrence.title) input.title = title.trim();
+    if (description.trim() !== occurrence.description) input.description = description.trim();
+    onSave(input);
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 grid grid-cols-1 gap-3 sm:grid-cols-2">
+      <label className="text-sm text-gray-700 dark:text-gray-300">
+        Date and time
+        <input
+          type="datetime-local"
+          value={scheduledFor}
+          onChange={(e) => setScheduledFor(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm text-gray-700 dark:text-gray-300">
+        Price (USD)
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          value={priceUsd}
+          onChange={(e) => setPriceUsd(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <label className="text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+        Title
+        <input type="text" value={title} onChange={(e) => setTitle(e.target.value)} className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+        Notes
+        <textarea
+          rows={2}
+          value={description}
+          onChange={(e) => setDescription(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      <div className="flex justify-end gap-2 sm:col-span-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 dark:border-gray-600 dark:text-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving}
+          className="px-3 py-1.5 rounded-md bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface TemplateCardProps {
+  template: JobTemplate;
+}
+
+function TemplateCard({ template }: TemplateCardProps) {
+  const [editingId, setEditingId] = useState<number | null>(null);
+  const setStatus = useJobTemplateStatus();
+  const skipOccurrence = useSkipOccurrence();
+  const updateOccurrence = useUpdateOccurrence();
+
+  const formatWhen = (iso: string) =>
+    new Date(iso).toLocaleString(undefined, {
+      timeZone: template.timezone,
+      weekday: 'short',
+      month: 'short',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: '2-digit',
+    });
+
+  const handleEnd = () => {
+    if (window.confirm('End this recurring errand? Jobs already posted are kept.')) {
+      setStatus.mutate({ templateId: template.id, action: 'end' });
+    }
+  };
+
+  return (
+    <div className="p-4 sm:p-6" data-testid={`job-template-${template.id}`}>
+      <div className="flex flex-wrap items-start justify-between gap-3">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900 dark:text-white">{template.title}</p>
+          <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+            {describeRecurrenceRule(template.rrule)} · {formatCentsAsUsd(template.priceCents)} · {template.timezone}
+          </p>
+          {template.preferPreviousRunner && (
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">Offered to your previous runner first</p>
+          )}
+        </div>
+
+        {template.status !== 'ended' ? (
+          <div className="flex gap-2">
+            <button
+              onClick={() =>
+                setStatus.mutate({ templateId: template.id, action: template.status === 'paused' ? 'resume' : 'pause' })
+              }
+              disabled={setStatus.isPending}
+              className="px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 dark:border-gray-600 dark:text-gray-300 disabled:opacity-50"
+            >
+              {template.status === 'paused' ? 'Resume' : 'Pause'}
+            </button>
+            <button
+              onClick={handleEnd}
+              disabled={setStatus.isPending}
+              className="px-3 py-1.5 rounded-md border border-red-300 text-sm text-red-700 disabled:opacity-50"
+            >
+              End
+            </button>
+          </div>
+        ) : (
+          <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">Ended</span>
+        )}
+      </div>
+
+      {template.status === 'paused' && (
+        <p className="mt-3 text-sm text-yellow-700 dark:text-yellow-300">
+          Paused. No jobs are posted until you resume it.
+        </p>
+      )}
+
+      {template.occurrences.length === 0 ? (
+        <p className="mt-3 text-sm text-gray-500 dark:text-gray-400">No upcoming occurrences.</p>
+      ) : (
+        <ul className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+          {template.occurrences.map((occurrence) => (
+            <li key={occurrence.id} className="py-2">
+              <div className="flex flex-wrap items-center justify-between gap-2 text-sm">
+                <div className="min-w-0">
+                  <span className="text-gray-900 dark:text-white">{formatWhen(occurrence.scheduledFor)}</span>
+                  <span className="ml-2 text-gray-500 dark:text-gray-400">
+                    {formatCentsAsUsd(occurrence.priceCents)}
+                    {occurrence.edited && ' · edited'}
+                  </span>
+                  {occurrence.status === 'failed' && occurrence.errorMessage && (
+                    <p className="text-xs text-red-600">{occurrence.errorMessage}</p>
+                  )}
+                </div>
+
+                <div className="flex items-center gap-2">
+                  <span className={`px-2.5 py-0.5 rounded-full text-xs font-medium ${STATUS_STYLES[occurrence.status]}`}>
+                    {STATUS_LABELS[occurrence.status]}
+                  </span>
+                  {occurrence.status === 'created' && occurrence.jobId !== null && (
+                    <Link to={`/jobs/${occurrence.jobId}`} className="text-indigo-600 hover:text-indigo-800">
+                      View job
+                    </Link>
+                  )}
+                  {occurrence.status === 'scheduled' && template.status !== 'ended' && (
+                    <>
+                      <button
+                        onClick={() => setEditingId(editingId === occurrence.id ? null : occurrence.id)}
+                        className="text-indigo-600 hover:text-indigo-800"
+                      >
+                        Edit
+                      </button>
+                      <button
+                        onClick={() => skipOccurrence.mutate({ occurrenceId: occurrence.id, skip: true })}
+                        disabled={skipOccurrence.isPending}
+                        className="text-gray-600 hover:text-gray-800 dark:text-gray-300"
+                      >
+                        Skip
+                      </button>
+                    </>
+                  )}
+                  {occurrence.status === 'skipped' && new Date(occurrence.scheduledFor) > new Date() && (
+                    <button
+                      onClick={() => skipOccurrence.mutate({ occurrenceId: occurrence.id, skip: false })}
+                      disabled={skipOccurrence.isPending}
+                      className="text-indigo-600 hover:text-indigo-800"
+                    >
+                      Restore
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              {editingId === occurrence.id && (
+                <OccurrenceEditor
+                  occurrence={occurrence}
+                  saving={updateOccurrence.isPending}
+                  onCancel={() => setEditingId(null)}
+                  onSave={(input) =>
+                    updateOccurrence.mutate(
+                      { occurrenceId: occurrence.id, input },
+                      { onSuccess: () => setEditingId(null) }
+                    )
+                  }
+                />
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function RecurringErrands() {
+  const { data: templates = [], isLoading } = useJobTemplates();
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+      <div className="p-4 sm:p-6 flex items-center gap-2">
+        <Repeat className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Recurring errands</h3>
+      </div>
+      {isLoading && <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Loading recurring errands...</p>}
+      {!isLoading && templates.length === 0 && (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+          No recurring errands yet. Choose how often a job repeats when you post it.
+        </p>
+      )}
+      {templates.map((template) => (
+        <TemplateCard key={template.id} template={template} />
+      ))}
+    </div>
+  );
+}
+
+export default RecurringErrands;
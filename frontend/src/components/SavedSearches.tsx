@@ -0,0 +1,282 @@
+/**
+ * Saved Searches Component
+ *
+ * Saves the search a runner is browsing (location, radius, category) with a
+ * minimum price and the channels to be alerted on: in the app, by email or by
+ * Web Push. Alerts can be held during quiet hours or collected into a daily
+ * digest. Lists the runner's saved searches, which can be paused or deleted.
+ */
+
+import { useState } from 'react';
+import { Bell } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  useCreateSavedSearch,
+  useDeleteSavedSearch,
+  useSavedSearches,
+  useUpdateSavedSearch,
+} from '../hooks/useSavedSearches';
+import type { AlertChannel, CreateSavedSearchInput, SavedSearch } from '../services/savedSearch.service';
+import type { Coordinates, JobCategory } from '../services/job.service';
+import { isPushSupported, subscribeToPush } from '../utils/webPush';
+import { formatCentsAsUsd, usdToCents } from '../utils/currency';
+
+/** Largest radius the server alerts on */
+const MAX_ALERT_RADIUS_KM = 50;
+
+const CHANNEL_LABELS: Record<AlertChannel, string> = {
+  in_app: 'In the app',
+  email: 'Email',
+  push: 'Push notification',
+};
+
+const CHANNELS = Object.keys(CHANNEL_LABELS) as AlertChannel[];
+
+interface SaveSearchFormProps {
+  location: Coordinates;
+  radiusKm: number;
+  category: JobCategory | '';
+  saving: boolean;
+  onSave: (input: CreateSavedSearchInput) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Form for the alert settings of the current search
+ */
+export function SaveSearchForm({ location, radiusKm, category, saving, onSave, onCancel }: SaveSearchFormProps) {
+  const alertRadiusKm = Math.min(radiusKm, MAX_ALERT_RADIUS_KM);
+  const [name, setName] = useState(
+    `${category ? category.charAt(0).toUpperCase() + category.slice(1) : 'Jobs'} within ${alertRadiusKm} km`
+  );
+  const [minPriceUsd, setMinPriceUsd] = useState('');
+  const [channels, setChannels] = useState<AlertChannel[]>(['in_app']);
+  const [quiet, setQuiet] = useState(false);
+  const [quietStart, setQuietStart] = useState('22:00');
+  const [quietEnd, setQuietEnd] = useState('07:00');
+  const [digest, setDigest] = useState(false);
+  const [subscribing, setSubscribing] = useState(false);
+
+  const toggleChannel = (channel: AlertChannel) =>
+    setChannels((current) =>
+      current.includes(channel) ? current.filter((c) => c !== channel) : [...current, channel]
+    );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (channels.includes('push')) {
+      setSubscribing(true);
+      try {
+        await subscribeToPush();
+      } catch (error) {
+        toast.error(error instanceof Error ? error.message : 'Failed to enable push notifications');
+        return;
+      } finally {
+        setSubscribing(false);
+      }
+    }
+
+    onSave({
+      name: name.trim(),
+      location,
+      radiusKm: alertRadiusKm,
+      categories: category ? [category] : [],
+      minPriceCents: minPriceUsd ? usdToCents(Number(minPriceUsd)) : null,
+      channels,
+      quietHours: quiet ? { start: quietStart, end: quietEnd } : null,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      digest,
+    });
+  };
+
+  const inputClass =
+    'mt-1 block w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white';
+
+  return (
+    <form onSubmit={handleSubmit} className="p-4 sm:p-6 grid grid-cols-1 gap-3 sm:grid-cols-2">
+      <label className="text-sm text-gray-700 dark:text-gray-300">
+        Name
+        <input type="text" required value={name} onChange={(e) => setName(e.target.value)} className={inputClass} />
+      </label>
+      <label className="text-sm text-gray-700 dark:text-gray-300">
+        Minimum price (USD)
+        <input
+          type="number"
+          min="0.01"
+          step="0.01"
+          placeholder="Any"
+          value={minPriceUsd}
+          onChange={(e) => setMinPriceUsd(e.target.value)}
+          className={inputClass}
+        />
+      </label>
+      {radiusKm > MAX_ALERT_RADIUS_KM && (
+        <p className="text-xs text-gray-500 dark:text-gray-400 sm:col-span-2">
+          Alerts cover up to {MAX_ALERT_RADIUS_KM} km around your location.
+        </p>
+      )}
+
+      <fieldset className="sm:col-span-2">
+        <legend className="text-sm text-gray-700 dark:text-gray-300">Alert me</legend>
+        <div className="mt-1 flex flex-wrap gap-4">
+          {CHANNELS.map((channel) => (
+            <label key={channel} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={channels.includes(channel)}
+                disabled={channel === 'push' && !isPushSupported()}
+                onChange={() => toggleChannel(channel)}
+              />
+              {CHANNEL_LABELS[channel]}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+        <input type="checkbox" checked={quiet} onChange={(e) => setQuiet(e.target.checked)} />
+        Hold alerts during quiet hours
+      </label>
+      {quiet && (
+        <>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            From
+            <input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} className={inputClass} />
+          </label>
+          <label className="text-sm text-gray-700 dark:text-gray-300">
+            Until
+            <input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} className={inputClass} />
+          </label>
+        </>
+      )}
+
+      <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 sm:col-span-2">
+        <input type="checkbox" checked={digest} onChange={(e) => setDigest(e.target.checked)} />
+        Send one daily digest instead of an alert per job
+      </label>
+
+      <div className="flex justify-end gap-2 sm:col-span-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 dark:border-gray-600 dark:text-gray-300"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={saving || subscribing || channels.length === 0}
+          className="px-3 py-1.5 rounded-md bg-indigo-600 text-sm font-medium text-white hover:bg-indigo-700 disabled:opacity-50"
+        >
+          {saving || subscribing ? 'Saving...' : 'Save search'}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+/**
+ * One-line summary of what a search matches and how it alerts
+ */
+const describeSearch = (search: SavedSearch): string => {
+  const parts = [
+    search.categories.length > 0 ? search.categories.join(', ') : 'Any category',
+    `within ${search.radiusKm} km`,
+  ];
+  if (search.minPriceCents !== null) parts.push(`from ${formatCentsAsUsd(search.minPriceCents)}`);
+  parts.push(search.channels.map((channel) => CHANNEL_LABELS[channel]).join(', '));
+  if (search.quietHours) parts.push(`quiet ${search.quietHours.start}–${search.quietHours.end}`);
+  if (search.digest) parts.push('daily digest');
+  return parts.join(' · ');
+};
+
+interface SavedSearchesProps {
+  location: Coordinates;
+  radiusKm: number;
+  category: JobCategory | '';
+}
+
+export function SavedSearches({ location, radiusKm, category }: SavedSearchesProps) {
+  const [saving, setSaving] = useState(false);
+  const { data: searches = [], isLoading } = useSavedSearches();
+  const createSearch = useCreateSavedSearch();
+  const updateSearch = useUpdateSavedSearch();
+  const deleteSearch = useDeleteSavedSearch();
+
+  const handleDelete = (search: SavedSearch) => {
+    if (window.confirm(`Delete the saved search "${search.name}"?`)) {
+      deleteSearch.mutate(search.id);
+    }
+  };
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-gray-700 mb-6">
+      <div className="p-4 sm:p-6 flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2">
+          <Bell className="w-5 h-5 text-indigo-500" />
+          <h3 className="text-lg font-medium text-gray-900 dark:text-white">Saved searches</h3>
+        </div>
+        {!saving && (
+          <button
+            onClick={() => setSaving(true)}
+            className="px-3 py-1.5 rounded-md border border-indigo-300 text-sm text-indigo-700 dark:border-indigo-500 dark:text-indigo-300"
+          >
+            Save this search
+          </button>
+        )}
+      </div>
+
+      {saving && (
+        <SaveSearchForm
+          location={location}
+          radiusKm={radiusKm}
+          category={category}
+          saving={createSearch.isPending}
+          onCancel={() => setSaving(false)}
+          onSave={(input) => createSearch.mutate(input, { onSuccess: () => setSaving(false) })}
+        />
+      )}
+
+      {isLoading && <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Loading saved searches...</p>}
+      {!isLoading && searches.length === 0 && !saving && (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+          No saved searches yet. Save this search to hear about new jobs as they are posted.
+        </p>
+      )}
+      {searches.map((search) => (
+        <div
+          key={search.id}
+          className="p-4 sm:p-6 flex flex-wrap items-start justify-between gap-3"
+          data-testid={`saved-search-${search.id}`}
+        >
+          <div className="min-w-0">
+            <p className="text-sm font-medium text-gray-900 dark:text-white">{search.name}</p>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">{describeSearch(search)}</p>
+            {!search.isActive && (
+              <p className="mt-1 text-xs text-yellow-700 dark:text-yellow-300">Paused. No alerts are sent.</p>
+            )}
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => updateSearch.mutate({ searchId: search.id, input: { isActive: !search.isActive } })}
+              disabled={updateSearch.isPending}
+              className="px-3 py-1.5 rounded-md border border-gray-300 text-sm text-gray-700 dark:border-gray-600 dark:text-gray-300 disabled:opacity-50"
+            >
+              {search.isActive ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              onClick={() => handleDelete(search)}
+              disabled={deleteSearch.isPending}
+              className="px-3 py-1.5 rounded-md border border-red-300 text-sm text-red-700 disabled:opacity-50"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export default SavedSearches;
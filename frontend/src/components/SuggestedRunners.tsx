@@ -0,0 +1,102 @@
+/**
+ * Suggested Runners Component
+ *
+ * Runners ranked for one of the client's open jobs by distance, categories,
+ * rating, completion rate, availability and recent load. Runners the job was
+ * already pushed to are marked as notified.
+ */
+
+import { Link } from 'react-router-dom';
+import { Sparkles } from 'lucide-react';
+import { useSuggestedRunners } from '../hooks/useRunners';
+import type { MatchFactor, SuggestedRunner } from '../services/runner.service';
+import { formatCentsAsUsd } from '../utils/currency';
+
+const FACTOR_LABELS: Record<MatchFactor, string> = {
+  distance: 'Close by',
+  category: 'Does this kind of job',
+  rating: 'Highly rated',
+  completion: 'Finishes jobs',
+  availability: 'Free now',
+  load: 'Not overbooked',
+};
+
+/**
+ * The factors a runner scores best on, e.g. "Close by · Highly rated"
+ */
+export function describeStrengths(runner: SuggestedRunner, count = 2): string {
+  return (Object.keys(runner.factors) as MatchFactor[])
+    .filter((factor) => runner.factors[factor] >= 0.75)
+    .sort((a, b) => runner.factors[b] - runner.factors[a])
+    .slice(0, count)
+    .map((factor) => FACTOR_LABELS[factor])
+    .join(' · ');
+}
+
+interface SuggestedRunnersProps {
+  jobId: number | string;
+}
+
+export function SuggestedRunners({ jobId }: SuggestedRunnersProps) {
+  const { data, isLoading, error } = useSuggestedRunners(jobId);
+
+  return (
+    <div className="bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg mb-6 border border-gray-200 dark:border-gray-700">
+      <div className="p-4 sm:p-6 flex items-center gap-2 border-b border-gray-200 dark:border-gray-700">
+        <Sparkles className="w-5 h-5 text-indigo-500" />
+        <h3 className="text-lg font-medium text-gray-900 dark:text-white">Best matches for your job</h3>
+      </div>
+
+      {isLoading && <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Finding runners...</p>}
+      {error && <p className="p-6 text-sm text-red-600">{error.message || 'Failed to load suggested runners'}</p>}
+      {data && data.runners.length === 0 && (
+        <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+          No runners match this job yet. Nearby runners are told about it as the search widens.
+        </p>
+      )}
+
+      {data && data.runners.length > 0 && (
+        <ul className="divide-y divide-gray-100 dark:divide-gray-700">
+          {data.runners.map((runner) => (
+            <li key={runner.runnerId} className="p-4 sm:px-6 flex flex-wrap items-center justify-between gap-3">
+              <div className="min-w-0">
+                <Link
+                  to={`/runners/${runner.profileId}`}
+                  className="text-sm font-medium text-gray-900 dark:text-white hover:text-indigo-600"
+                >
+                  {runner.displayName}
+                </Link>
+                <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                  {runner.distanceKm !== null && `${runner.distanceKm} km away · `}
+                  {runner.avgRating > 0 ? `${runner.avgRating.toFixed(1)} ★` : 'No reviews yet'}
+                  {runner.hourlyRateCents !== null && ` · ${formatCentsAsUsd(runner.hourlyRateCents)}/hr`}
+                </p>
+                {describeStrengths(runner) && (
+                  <p className="mt-1 text-xs text-indigo-600 dark:text-indigo-400">{describeStrengths(runner)}</p>
+                )}
+              </div>
+
+              <div className="flex items-center gap-2">
+                {runner.notifiedAt && (
+                  <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    Notified
+                  </span>
+                )}
+                {!runner.available && (
+                  <span className="px-2.5 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                    Busy
+                  </span>
+                )}
+                <span className="text-sm font-semibold text-gray-900 dark:text-white">
+                  {Math.round(runner.score * 100)}% match
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export default SuggestedRunners;
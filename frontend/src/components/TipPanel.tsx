@@ -0,0 +1,151 @@
+/**
+ * Tip Panel Component
+ *
+ * After the job payment is confirmed the client can tip the runner, either
+ * through a platform invoice or straight to the runner's Lightning address.
+ * A WebLN wallet pays in one click and the preimage confirms the tip;
+ * otherwise the invoice is shown and re-checked until it is paid.
+ */
+
+import { useState } from 'react';
+import { Heart } from 'lucide-react';
+import { LightningPayment } from './LightningPayment';
+import { useConfirmTip, useCreateTip, useJobTips } from '../hooks/useTips';
+import type { TipMethod } from '../services/tip.service';
+import { formatCentsAsUsd } from '../utils/currency';
+
+// Suggested tips in cents
+export const TIP_PRESETS_CENTS = [100, 200, 500, 1000];
+
+// Keep in step with the API's tip limits
+const MESSAGE_MAX_LENGTH = 280;
+
+const METHOD_LABELS: Record<TipMethod, string> = {
+  invoice: 'Through ErrandBit',
+  lightning_address: "Straight to the runner's wallet",
+};
+
+interface TipPanelProps {
+  jobId: number;
+  /** Only the client can send tips; the runner sees what they received */
+  isClient: boolean;
+}
+
+export function TipPanel({ jobId, isClient }: TipPanelProps) {
+  const { data: tips = [] } = useJobTips(jobId);
+  const createTip = useCreateTip(jobId);
+  const confirmTip = useConfirmTip(jobId);
+
+  const [amountCents, setAmountCents] = useState<number>(TIP_PRESETS_CENTS[1]!);
+  const [method, setMethod] = useState<TipMethod>('invoice');
+  const [message, setMessage] = useState('');
+
+  const paidTips = tips.filter((tip) => tip.status === 'paid');
+  const pendingTip = tips.find((tip) => tip.status === 'pending' && tip.paymentRequest);
+
+  if (!isClient && paidTips.length === 0) {
+    return null;
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = message.trim();
+    createTip.mutate({ amountCents, method, ...(trimmed ? { message: trimmed } : {}) });
+  };
+
+  return (
+    <div className="p-6 border-b border-gray-200 dark:border-gray-700" data-testid="tip-panel">
+      <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2 flex items-center gap-2">
+        <Heart className="w-5 h-5 text-pink-500" />
+        Tips
+      </h2>
+
+      {paidTips.length > 0 && (
+        <ul className="mb-4 space-y-1 text-sm">
+          {paidTips.map((tip) => (
+            <li key={tip.id} className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">
+                {tip.message ? `"${tip.message}"` : 'Tip'}
+              </span>
+              <span className="font-medium text-gray-900 dark:text-white">
+                {formatCentsAsUsd(tip.amountCents)} · {tip.amountSats.toLocaleString()} sats
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {isClient && pendingTip && (
+        <LightningPayment
+          amount={pendingTip.amountSats}
+          invoice={pendingTip.paymentRequest!}
+          description={
+            pendingTip.method === 'invoice'
+              ? 'Your tip goes to the runner in full, with no platform fee.'
+              : "This invoice comes from the runner's own wallet, so the tip reaches them directly."
+          }
+          onPaymentSuccess={(preimage) => confirmTip.mutate({ tipId: pendingTip.id, preimage })}
+        />
+      )}
+
+      {isClient && !pendingTip && (
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            Happy with the errand? Tips go to the runner in full.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {TIP_PRESETS_CENTS.map((preset) => (
+              <button
+                key={preset}
+                type="button"
+                onClick={() => setAmountCents(preset)}
+                className={`px-4 py-2 rounded-md border text-sm font-medium ${
+                  amountCents === preset
+                    ? 'border-indigo-600 bg-indigo-50 text-indigo-700 dark:bg-indigo-900 dark:text-indigo-200'
+                    : 'border-gray-300 text-gray-700 dark:border-gray-600 dark:text-gray-300'
+                }`}
+              >
+                {formatCentsAsUsd(preset)}
+              </button>
+            ))}
+          </div>
+
+          <fieldset className="space-y-1">
+            {(Object.keys(METHOD_LABELS) as TipMethod[]).map((option) => (
+              <label key={option} className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="radio"
+                  name="tip-method"
+                  value={option}
+                  checked={method === option}
+                  onChange={() => setMethod(option)}
+                />
+                {METHOD_LABELS[option]}
+              </label>
+            ))}
+          </fieldset>
+
+          <input
+            type="text"
+            value={message}
+            onChange={(e) => setMessage(e.target.value)}
+            maxLength={MESSAGE_MAX_LENGTH}
+            placeholder="Add a thank-you note (optional)"
+            className="w-full rounded-md border border-gray-300 px-3 py-2 text-sm dark:border-gray-600 dark:bg-gray-700 dark:text-white"
+          />
+
+          <button
+            type="submit"
+            disabled={createTip.isPending}
+            className="px-4 py-2 rounded-md bg-pink-600 text-white text-sm font-medium hover:bg-pink-700 disabled:opacity-50"
+          >
+            {createTip.isPending ? 'Creating invoice...' : `Tip ${formatCentsAsUsd(amountCents)}`}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
+
+export default TipPanel;
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { ActiveSessions, describeDevice } from '../ActiveSessions';
+import { AuthProvider } from '../../contexts/AuthContext';
+import { authService } from '../../services/auth.service';
+import { api } from '../../api';
+
+const FIREFOX_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64; rv:128.0) Gecko/20100101 Firefox/128.0';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_5 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.5 Mobile/15E148 Safari/604.1';
+
+const sessions = [
+  {
+    id: 1,
+    ipAddress: '203.0.113.7',
+    userAgent: FIREFOX_WINDOWS,
+    createdAt: '2030-01-05T10:00:00.000Z',
+    lastUsedAt: '2030-01-05T12:00:00.000Z',
+    expiresAt: '2030-02-04T10:00:00.000Z',
+    current: true,
+  },
+  {
+    id: 2,
+    ipAddress: '198.51.100.4',
+    userAgent: SAFARI_IPHONE,
+    createdAt: '2030-01-01T10:00:00.000Z',
+    lastUsedAt: '2030-01-02T10:00:00.000Z',
+    expiresAt: '2030-01-31T10:00:00.000Z',
+    current: false,
+  },
+];
+
+const renderWithProviders = (ui: ReactNode) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <AuthProvider>{ui}</AuthProvider>
+    </QueryClientProvider>
+  );
+
+describe('ActiveSessions component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+    vi.spyOn(api, 'get').mockResolvedValue({ data: { success: true, data: sessions } });
+  });
+
+  it('should list the sessions and log out another device', async () => {
+    const revoke = vi.spyOn(api, 'delete').mockResolvedValue({ data: { success: true } });
+
+    renderWithProviders(<ActiveSessions />);
+
+    expect(await screen.findByText('Firefox on Windows')).toBeTruthy();
+    expect(screen.getByText('Safari on iOS')).toBeTruthy();
+    expect(screen.getByText('IP: 198.51.100.4')).toBeTruthy();
+    expect(screen.getByText('This device')).toBeTruthy();
+
+    // The current session is ended with "Log out everywhere" or the normal logout
+    const buttons = screen.getAllByText('Log out');
+    expect(buttons).toHaveLength(1);
+    fireEvent.click(buttons[0]!);
+
+    await waitFor(() => expect(revoke).toHaveBeenCalledWith('/profile/sessions/2'));
+  });
+
+  it('should log out everywhere and then sign out locally', async () => {
+    vi.spyOn(window, 'confirm').mockReturnValue(true);
+    const revokeAll = vi.spyOn(api, 'delete').mockResolvedValue({ data: { success: true, data: { count: 2 } } });
+    const logout = vi.spyOn(authService, 'logout');
+
+    renderWithProviders(<ActiveSessions />);
+
+    await screen.findByText('Firefox on Windows');
+    fireEvent.click(screen.getByText('Log out everywhere'));
+
+    await waitFor(() => expect(logout).toHaveBeenCalled());
+    expect(revokeAll).toHaveBeenCalledWith('/profile/sessions');
+  });
+
+  it('should describe unknown devices', () => {
+    expect(describeDevice(null)).toBe('Unknown device');
+    expect(describeDevice('curl/8.5.0')).toBe('Browser');
+  });
+});
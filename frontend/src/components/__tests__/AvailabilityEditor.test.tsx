@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { useState } from 'react';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import {
+  AvailabilityEditor,
+  AvailabilityDraft,
+  RunnerAvailabilitySettings,
+  validateWorkingHours,
+} from '../AvailabilityEditor';
+import { runnerService, RunnerAvailability } from '../../services/runner.service';
+
+const availability = (overrides: Partial<RunnerAvailability> = {}): RunnerAvailability => ({
+  profileId: 5,
+  isAvailable: true,
+  timezone: 'Europe/Berlin',
+  maxConcurrentJobs: 2,
+  workingHours: [{ weekday: 1, startsAt: '09:00', endsAt: '17:00' }],
+  timeOff: [
+    { id: 3, startsAt: '2030-07-01T07:00:00.000Z', endsAt: '2030-07-03T16:00:00.000Z', reason: 'Holiday' },
+  ],
+  ...overrides,
+});
+
+function ControlledEditor({ initial }: { initial: AvailabilityDraft }) {
+  const [value, setValue] = useState(initial);
+  return <AvailabilityEditor value={value} onChange={setValue} />;
+}
+
+const renderWithClient = (ui: React.ReactElement) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      {ui}
+    </QueryClientProvider>
+  );
+
+describe('AvailabilityEditor component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should flag working hours that end first or overlap', () => {
+    expect(validateWorkingHours([{ weekday: 1, startsAt: '09:00', endsAt: '17:00' }])).toBeNull();
+    expect(validateWorkingHours([{ weekday: 2, startsAt: '17:00', endsAt: '09:00' }])).toBe(
+      'Tuesday hours must end after they start'
+    );
+    expect(
+      validateWorkingHours([
+        { weekday: 5, startsAt: '13:00', endsAt: '18:00' },
+        { weekday: 5, startsAt: '09:00', endsAt: '14:00' },
+      ])
+    ).toBe('Friday hours overlap');
+  });
+
+  it('should add and remove working hours for a day', () => {
+    render(
+      <ControlledEditor initial={{ isAvailable: true, timezone: 'UTC', maxConcurrentJobs: 1, workingHours: [] }} />
+    );
+
+    expect(screen.getByText(/clients can assign you jobs at any time/)).toBeTruthy();
+
+    fireEvent.click(screen.getAllByText('Add hours')[0]!);
+    expect((screen.getByLabelText('Monday start') as HTMLInputElement).value).toBe('09:00');
+    expect((screen.getByLabelText('Monday end') as HTMLInputElement).value).toBe('17:00');
+    expect(screen.getByText(/only assign you jobs within these hours \(UTC\)/)).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Monday end'), { target: { value: '08:00' } });
+    expect(screen.getByText('Monday hours must end after they start')).toBeTruthy();
+
+    fireEvent.click(screen.getByLabelText('Remove Monday hours'));
+    expect(screen.queryByLabelText('Monday start')).toBeNull();
+  });
+
+  it('should load the runner availability and save changes', async () => {
+    vi.spyOn(runnerService, 'getAvailability').mockResolvedValue(availability());
+    const update = vi
+      .spyOn(runnerService, 'updateAvailability')
+      .mockResolvedValue(availability({ maxConcurrentJobs: 3 }));
+
+    renderWithClient(<RunnerAvailabilitySettings profileId={5} />);
+
+    expect(await screen.findByText('Holiday')).toBeTruthy();
+    expect(screen.getByText('Times are in Europe/Berlin.')).toBeTruthy();
+
+    fireEvent.change(screen.getByLabelText('Jobs at once'), { target: { value: '3' } });
+    fireEvent.click(screen.getByText('Save availability'));
+
+    await waitFor(() =>
+      expect(update).toHaveBeenCalledWith(5, {
+        isAvailable: true,
+        timezone: 'Europe/Berlin',
+        maxConcurrentJobs: 3,
+        workingHours: [{ weekday: 1, startsAt: '09:00', endsAt: '17:00' }],
+      })
+    );
+  });
+
+  it('should remove a time off block', async () => {
+    vi.spyOn(runnerService, 'getAvailability').mockResolvedValue(availability());
+    const remove = vi.spyOn(runnerService, 'removeTimeOff').mockResolvedValue(undefined);
+
+    renderWithClient(<RunnerAvailabilitySettings profileId={5} />);
+
+    await screen.findByText('Holiday');
+    const removeButtons = screen.getAllByText('Remove');
+    fireEvent.click(removeButtons[removeButtons.length - 1]!);
+
+    await waitFor(() => expect(remove).toHaveBeenCalledWith(5, 3));
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { DeliveryProofForm, DeliveryProofView, buildDeliveryProof } from '../DeliveryProof';
+import { jobService, DeliveryProof } from '../../services/job.service';
+
+const photo = (name: string) => new File([new Uint8Array([0xff, 0xd8, 0xff, 0xe0])], name, { type: 'image/jpeg' });
+
+const proof: DeliveryProof = {
+  id: 5,
+  jobId: 7,
+  runnerId: 2,
+  recipientName: 'Sam',
+  codeVerified: true,
+  note: null,
+  submittedAt: '2025-01-01T01:00:00.000Z',
+  attachments: [],
+};
+
+const renderWithClient = (ui: React.ReactElement) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      {ui}
+    </QueryClientProvider>
+  );
+
+describe('DeliveryProof components', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build a proof with data URLs and leave empty fields out', async () => {
+    const built = await buildDeliveryProof([{ kind: 'receipt', file: photo('receipt.jpg') }], {
+      recipientName: ' Sam ',
+      deliveryCode: '',
+      note: '   ',
+    });
+
+    expect(built).toEqual({
+      attachments: [{ kind: 'receipt', fileName: 'receipt.jpg', data: expect.stringMatching(/^data:image\/jpeg;base64,/) }],
+      recipientName: 'Sam',
+    });
+    expect(await buildDeliveryProof([], { recipientName: '', deliveryCode: '', note: '' })).toEqual({});
+  });
+
+  it('should submit the entered proof', async () => {
+    const onSubmit = vi.fn();
+
+    render(<DeliveryProofForm submitting={false} onSubmit={onSubmit} />);
+    fireEvent.change(screen.getByLabelText('Add photo'), { target: { files: [photo('door.jpg')] } });
+    fireEvent.change(screen.getByLabelText('Delivery code'), { target: { value: '042917' } });
+    fireEvent.click(screen.getByText('Mark as Complete'));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalled());
+    expect(onSubmit.mock.calls[0]![0]).toMatchObject({
+      deliveryCode: '042917',
+      attachments: [{ kind: 'photo', fileName: 'door.jpg' }],
+    });
+  });
+
+  it('should limit the number of attachments', () => {
+    render(<DeliveryProofForm submitting={false} onSubmit={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText('Add photo'), {
+      target: { files: [photo('1.jpg'), photo('2.jpg'), photo('3.jpg'), photo('4.jpg')] },
+    });
+
+    expect(screen.getByText('You can attach up to 3 files')).toBeTruthy();
+    expect(screen.queryByText(/1\.jpg/)).toBeNull();
+  });
+
+  it('should show the submitted proof to the client', async () => {
+    vi.spyOn(jobService, 'getDeliveryProof').mockResolvedValue(proof);
+
+    renderWithClient(<DeliveryProofView jobId={7} />);
+
+    expect(await screen.findByText('Sam')).toBeTruthy();
+    expect(screen.getByText("Recipient's delivery code confirmed")).toBeTruthy();
+  });
+});
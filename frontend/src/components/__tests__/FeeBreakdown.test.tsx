@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { FeeBreakdown } from '../FeeBreakdown';
+import type { FeeQuote } from '../../services/fee.service';
+
+const quote: FeeQuote = {
+  priceCents: 2000,
+  feeCents: 300,
+  netCents: 1700,
+  ratePercent: 15,
+  rules: [{ code: 'category_rate', description: 'moving rate of 15%' }],
+};
+
+describe('FeeBreakdown component', () => {
+  it('should show the fee, what the runner receives and the rules applied', () => {
+    render(<FeeBreakdown quote={quote} />);
+
+    expect(screen.getByText('$3.00')).toBeTruthy();
+    expect(screen.getByText('$17.00')).toBeTruthy();
+    expect(screen.getByText('moving rate of 15%')).toBeTruthy();
+    expect(screen.queryByText(/may be less/)).toBeNull();
+  });
+
+  it('should mark previews made before a runner is assigned as estimates', () => {
+    render(<FeeBreakdown quote={quote} estimate />);
+
+    expect(screen.getByText('Platform fee (estimate):')).toBeTruthy();
+    expect(screen.getByText(/may be less/)).toBeTruthy();
+  });
+
+  it('should render nothing without a quote', () => {
+    const { container } = render(<FeeBreakdown quote={null} />);
+
+    expect(container.innerHTML).toBe('');
+  });
+});
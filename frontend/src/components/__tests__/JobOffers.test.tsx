@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { JobOffers, groupOfferThreads } from '../JobOffers';
+import { offerService, JobOffer } from '../../services/offer.service';
+
+const offer = (overrides: Partial<JobOffer>): JobOffer => ({
+  id: 1,
+  jobId: 7,
+  runnerId: 2,
+  parentId: null,
+  proposedBy: 'runner',
+  priceCents: 1500,
+  etaMinutes: 30,
+  note: null,
+  status: 'pending',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const renderOffers = (isClient: boolean) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <JobOffers jobId={7} askingPriceCents={1000} isClient={isClient} />
+    </QueryClientProvider>
+  );
+
+describe('JobOffers component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should group counter-offers into one thread per negotiation', () => {
+    const threads = groupOfferThreads([
+      offer({ id: 1, status: 'countered' }),
+      offer({ id: 2, parentId: 1, proposedBy: 'client', priceCents: 1200, createdAt: '2025-01-01T00:01:00.000Z' }),
+      offer({ id: 3, runnerId: 4, status: 'withdrawn' }),
+    ]);
+
+    expect(threads).toHaveLength(2);
+    expect(threads[0]!.offers.map((o) => o.id)).toEqual([1, 2]);
+    expect(threads[0]!.latest.id).toBe(2);
+    expect(threads[1]!.runnerId).toBe(4);
+  });
+
+  it('should let the client answer a runner offer', async () => {
+    vi.spyOn(offerService, 'getJobOffers').mockResolvedValue([offer({})]);
+
+    renderOffers(true);
+
+    expect(await screen.findByText('Accept $15.00')).toBeTruthy();
+    expect(screen.getByText('Counter')).toBeTruthy();
+    expect(screen.getByText('Reject')).toBeTruthy();
+    expect(screen.queryByText('Withdraw')).toBeNull();
+  });
+
+  it('should only let the runner withdraw their own pending offer', async () => {
+    vi.spyOn(offerService, 'getJobOffers').mockResolvedValue([offer({})]);
+
+    renderOffers(false);
+
+    expect(await screen.findByText('Withdraw')).toBeTruthy();
+    expect(screen.queryByText('Accept $15.00')).toBeNull();
+    expect(screen.queryByText('Make Offer')).toBeNull();
+  });
+
+  it('should show the offer form to a runner without a live negotiation', async () => {
+    vi.spyOn(offerService, 'getJobOffers').mockResolvedValue([offer({ status: 'rejected' })]);
+
+    renderOffers(false);
+
+    expect(await screen.findByText('Make Offer')).toBeTruthy();
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { JobReviews, ClientReputation } from '../JobReviews';
+import { reviewService, Review } from '../../services/review.service';
+
+const review = (overrides: Partial<Review> = {}): Review => ({
+  id: 1,
+  jobId: 7,
+  reviewerId: 20,
+  revieweeId: 10,
+  reviewerRole: 'runner',
+  rating: 2,
+  comment: 'Nobody answered the door',
+  flags: ['no_show'],
+  subRatings: { punctuality: null, communication: null, careOfItems: null },
+  reply: null,
+  revealed: true,
+  hidden: false,
+  createdAt: '2030-01-05T10:00:00.000Z',
+  updatedAt: '2030-01-05T10:00:00.000Z',
+  ...overrides,
+});
+
+const renderWithClient = (ui: ReactNode) =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      {ui}
+    </QueryClientProvider>
+  );
+
+describe('JobReviews component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should tell the client a hidden review is waiting and let them review the runner', async () => {
+    vi.spyOn(reviewService, 'getReviewsForJob').mockResolvedValue({
+      jobId: 7,
+      reviews: [],
+      awaitingReveal: true,
+      revealAt: '2099-01-19T10:00:00.000Z',
+    });
+    const submit = vi.spyOn(reviewService, 'submitReview').mockResolvedValue(review({ reviewerRole: 'client' }));
+
+    renderWithClient(<JobReviews jobId={7} status="payment_confirmed" reviewerRole="client" />);
+
+    expect(await screen.findByText(/The runner has reviewed you/)).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Review Runner'));
+    expect(screen.queryByText('Did not show up')).toBeNull();
+    fireEvent.click(screen.getByLabelText('4 stars'));
+    fireEvent.click(screen.getByText('Submit Review'));
+
+    await waitFor(() => expect(submit).toHaveBeenCalledWith({ jobId: 7, rating: 4, comment: '' }));
+  });
+
+  it('should let the runner flag a client on a cancelled job', async () => {
+    vi.spyOn(reviewService, 'getReviewsForJob').mockResolvedValue({
+      jobId: 7,
+      reviews: [],
+      awaitingReveal: false,
+      revealAt: null,
+    });
+    const submit = vi.spyOn(reviewService, 'submitReview').mockResolvedValue(review({ revealed: false }));
+
+    renderWithClient(<JobReviews jobId={7} status="cancelled" reviewerRole="runner" />);
+
+    fireEvent.click(await screen.findByText('Review Client'));
+    fireEvent.click(screen.getByLabelText('Did not show up'));
+    fireEvent.click(screen.getByLabelText('1 stars'));
+    fireEvent.click(screen.getByText('Submit Review'));
+
+    await waitFor(() =>
+      expect(submit).toHaveBeenCalledWith({ jobId: 7, rating: 1, comment: '', flags: ['no_show'] })
+    );
+  });
+
+  it('should show both reviews once revealed and not offer another review', async () => {
+    vi.spyOn(reviewService, 'getReviewsForJob').mockResolvedValue({
+      jobId: 7,
+      reviews: [review(), review({ id: 2, reviewerRole: 'client', rating: 5, flags: [], comment: 'Quick!' })],
+      awaitingReveal: false,
+      revealAt: null,
+    });
+
+    renderWithClient(<JobReviews jobId={7} status="payment_confirmed" reviewerRole="client" />);
+
+    expect(await screen.findByText('Your Review')).toBeTruthy();
+    expect(screen.getByText('Nobody answered the door')).toBeTruthy();
+    expect(screen.getByText('Did not show up')).toBeTruthy();
+    expect(screen.queryByText('Review Runner')).toBeNull();
+  });
+
+  it('should send the sub-ratings the client gave', async () => {
+    vi.spyOn(reviewService, 'getReviewsForJob').mockResolvedValue({
+      jobId: 7,
+      reviews: [],
+      awaitingReveal: false,
+      revealAt: null,
+    });
+    const submit = vi.spyOn(reviewService, 'submitReview').mockResolvedValue(review({ reviewerRole: 'client' }));
+
+    renderWithClient(<JobReviews jobId={7} status="completed" reviewerRole="client" />);
+
+    fireEvent.click(await screen.findByText('Review Runner'));
+    fireEvent.click(screen.getByLabelText('Punctuality 3 stars'));
+    fireEvent.click(screen.getByLabelText('Care of items 5 stars'));
+    fireEvent.click(screen.getByText('Submit Review'));
+
+    await waitFor(() =>
+      expect(submit).toHaveBeenCalledWith({
+        jobId: 7,
+        rating: 5,
+        comment: '',
+        subRatings: { punctuality: 3, careOfItems: 5 },
+      })
+    );
+  });
+
+  it('should let the runner reply to and report the client review', async () => {
+    const clientReview = review({
+      id: 2,
+      reviewerId: 10,
+      revieweeId: 20,
+      reviewerRole: 'client',
+      flags: [],
+      comment: 'Late and rude',
+      subRatings: { punctuality: 1, communication: 2, careOfItems: null },
+    });
+    vi.spyOn(reviewService, 'getReviewsForJob').mockResolvedValue({
+      jobId: 7,
+      reviews: [review(), clientReview],
+      awaitingReveal: false,
+      revealAt: null,
+    });
+    const reply = vi
+      .spyOn(reviewService, 'replyToReview')
+      .mockResolvedValue({ ...clientReview, reply: { comment: 'Traffic jam', createdAt: '2030-01-06T10:00:00.000Z' } });
+    const report = vi.spyOn(reviewService, 'reportReview').mockResolvedValue();
+
+    renderWithClient(<JobReviews jobId={7} status="payment_confirmed" reviewerRole="runner" />);
+
+    expect(await screen.findByText('Late and rude')).toBeTruthy();
+    expect(screen.getByText('Punctuality')).toBeTruthy();
+    expect(screen.queryByText('Care of items')).toBeNull();
+
+    fireEvent.click(screen.getByText('Reply'));
+    fireEvent.change(screen.getByLabelText('Your public reply'), { target: { value: 'Traffic jam' } });
+    fireEvent.click(screen.getByText('Post Reply'));
+    await waitFor(() => expect(reply).toHaveBeenCalledWith(2, 'Traffic jam'));
+
+    fireEvent.click(screen.getByText('Report'));
+    fireEvent.change(screen.getByLabelText('What is wrong with this review?'), { target: { value: 'Insulting' } });
+    fireEvent.click(screen.getByText('Send Report'));
+    expect(await screen.findByText('Reported to the moderators.')).toBeTruthy();
+    expect(report).toHaveBeenCalledWith(2, 'Insulting');
+  });
+
+  it('should not load reviews before the job can be reviewed', () => {
+    const load = vi.spyOn(reviewService, 'getReviewsForJob');
+
+    renderWithClient(<JobReviews jobId={7} status="in_progress" reviewerRole="client" />);
+
+    expect(load).not.toHaveBeenCalled();
+  });
+
+  it('should summarise the client reputation with reported problems', async () => {
+    vi.spyOn(reviewService, 'getClientRatingStats').mockResolvedValue({
+      clientId: 10,
+      averageRating: 3.7,
+      totalReviews: 3,
+      completedJobs: 7,
+      flags: { noShow: 1, latePayment: 2, noPayment: 0 },
+    });
+
+    renderWithClient(<ClientReputation clientId={10} />);
+
+    expect(await screen.findByText(/3\.7 from 3 runner reviews · 7 jobs completed/)).toBeTruthy();
+    expect(screen.getByText('1 no-show reported')).toBeTruthy();
+    expect(screen.getByText('2 late payments reported')).toBeTruthy();
+    expect(screen.queryByText(/unpaid/)).toBeNull();
+  });
+});
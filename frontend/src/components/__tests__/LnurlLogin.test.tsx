@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { LnurlLogin } from '../LnurlLogin';
+import { AuthProvider } from '../../contexts/AuthContext';
+import { authService } from '../../services/auth.service';
+
+const challenge = (k1: string) => ({
+  k1,
+  lnurl: `LNURL1${k1.toUpperCase()}`,
+  expiresAt: new Date(Date.now() + 60_000).toISOString(),
+});
+
+const renderWithProviders = (ui: ReactNode) =>
+  render(
+    <QueryClientProvider client={new QueryClient()}>
+      <AuthProvider>{ui}</AuthProvider>
+    </QueryClientProvider>
+  );
+
+describe('LnurlLogin component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    localStorage.clear();
+  });
+
+  it('should show the LNURL and sign in once the wallet has signed', async () => {
+    vi.spyOn(authService, 'createLnurlChallenge').mockResolvedValue(challenge('abc'));
+    const poll = vi
+      .spyOn(authService, 'pollLnurlLogin')
+      .mockResolvedValueOnce(null)
+      .mockResolvedValue({ success: true, message: 'Login successful', data: { token: 't', user: { id: 1 } } });
+    const onSuccess = vi.fn();
+
+    renderWithProviders(<LnurlLogin onSuccess={onSuccess} pollIntervalMs={5} />);
+
+    const link = await screen.findByText('Open in wallet');
+    expect(link.getAttribute('href')).toBe('lightning:LNURL1ABC');
+
+    await waitFor(() => expect(onSuccess).toHaveBeenCalledTimes(1));
+    expect(poll).toHaveBeenCalledTimes(2);
+    expect(poll).toHaveBeenCalledWith('abc');
+  });
+
+  it('should offer a new code when the old one is rejected', async () => {
+    const create = vi
+      .spyOn(authService, 'createLnurlChallenge')
+      .mockResolvedValueOnce(challenge('old'))
+      .mockResolvedValueOnce(challenge('new'));
+    vi.spyOn(authService, 'pollLnurlLogin').mockRejectedValueOnce(new Error('expired')).mockResolvedValue(null);
+
+    renderWithProviders(<LnurlLogin onSuccess={vi.fn()} pollIntervalMs={5} />);
+
+    fireEvent.click(await screen.findByText('Get a new code'));
+
+    expect((await screen.findByText('Open in wallet')).getAttribute('href')).toBe('lightning:LNURL1NEW');
+    expect(create).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import LocationPicker, { createStopDraft, moveStop, type StopDraft } from '../LocationPicker';
+
+const located = (address: string, kind: StopDraft['kind'] = 'stop'): StopDraft => ({
+  ...createStopDraft(kind),
+  lat: 51.5,
+  lng: -0.12,
+  address,
+});
+
+describe('LocationPicker stops', () => {
+  it('should move stops up and down within bounds', () => {
+    const stops = [located('Market'), located('Bakery'), located('Home')];
+
+    expect(moveStop(stops, 2, -1).map((s) => s.address)).toEqual(['Market', 'Home', 'Bakery']);
+    expect(moveStop(stops, 0, 1).map((s) => s.address)).toEqual(['Bakery', 'Market', 'Home']);
+    expect(moveStop(stops, 0, -1)).toBe(stops);
+  });
+
+  it('should add a dropoff after the first stop', () => {
+    const onStopsChange = vi.fn();
+
+    render(<LocationPicker stops={[located('Market', 'pickup')]} onStopsChange={onStopsChange} />);
+    fireEvent.click(screen.getByText('Add stop'));
+
+    const [updated] = onStopsChange.mock.calls[0]!;
+    expect(updated).toHaveLength(2);
+    expect(updated[1].kind).toBe('dropoff');
+  });
+
+  it('should reorder and remove stops', () => {
+    const stops = [located('Market'), located('Home')];
+    const onStopsChange = vi.fn();
+
+    render(<LocationPicker stops={stops} onStopsChange={onStopsChange} />);
+
+    fireEvent.click(screen.getAllByTitle('Move down')[0]!);
+    expect(onStopsChange.mock.calls[0]![0].map((s: StopDraft) => s.address)).toEqual(['Home', 'Market']);
+
+    fireEvent.click(screen.getAllByTitle('Remove stop')[1]!);
+    expect(onStopsChange.mock.calls[1]![0].map((s: StopDraft) => s.address)).toEqual(['Market']);
+  });
+
+  it('should clear coordinates when the address is edited', () => {
+    const onStopsChange = vi.fn();
+
+    render(<LocationPicker stops={[located('Market')]} onStopsChange={onStopsChange} />);
+    fireEvent.change(screen.getByLabelText('Stop 1 address'), { target: { value: 'Market Square' } });
+
+    expect(onStopsChange.mock.calls[0]![0][0]).toMatchObject({
+      address: 'Market Square',
+      lat: null,
+      lng: null,
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { RecurringErrands, OccurrenceEditor } from '../RecurringErrands';
+import {
+  jobTemplateService,
+  JobTemplate,
+  JobTemplateOccurrence,
+} from '../../services/jobTemplate.service';
+import { buildRecurrenceRule, describeRecurrenceRule } from '../../utils/recurrence';
+
+const occurrence = (overrides: Partial<JobTemplateOccurrence>): JobTemplateOccurrence => ({
+  id: 1,
+  templateId: 3,
+  originalAt: '2030-01-05T10:00:00.000Z',
+  scheduledFor: '2030-01-05T10:00:00.000Z',
+  status: 'scheduled',
+  jobId: null,
+  title: 'Weekly groceries',
+  description: 'Pick up the usual list from the market',
+  priceCents: 2500,
+  edited: false,
+  reservedRunnerId: null,
+  reservedUntil: null,
+  errorMessage: null,
+  ...overrides,
+});
+
+const template = (overrides: Partial<JobTemplate> = {}): JobTemplate => ({
+  id: 3,
+  title: 'Weekly groceries',
+  description: 'Pick up the usual list from the market',
+  priceCents: 2500,
+  category: 'shopping',
+  address: null,
+  stops: [],
+  rrule: 'FREQ=WEEKLY;BYDAY=SA',
+  timezone: 'UTC',
+  startsAt: '2030-01-05T10:00:00.000Z',
+  leadHours: 48,
+  preferPreviousRunner: true,
+  status: 'active',
+  createdAt: '2029-12-01T00:00:00.000Z',
+  occurrences: [
+    occurrence({ id: 1, status: 'created', jobId: 42 }),
+    occurrence({ id: 2, scheduledFor: '2030-01-12T10:00:00.000Z' }),
+  ],
+  ...overrides,
+});
+
+const renderErrands = () =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <MemoryRouter>
+        <RecurringErrands />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+describe('RecurringErrands component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should build and describe the rules of the repeat options', () => {
+    const saturday = new Date(2030, 0, 5, 10, 0);
+
+    expect(buildRecurrenceRule('none', saturday)).toBeNull();
+    expect(buildRecurrenceRule('biweekly', saturday)).toBe('FREQ=WEEKLY;INTERVAL=2;BYDAY=SA');
+    expect(buildRecurrenceRule('monthly', saturday)).toBe('FREQ=MONTHLY;BYMONTHDAY=5');
+    expect(describeRecurrenceRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH')).toBe('Every 2 weeks on Monday, Thursday');
+    expect(describeRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=6')).toBe('Every month on the last Friday, 6 times');
+    expect(describeRecurrenceRule('FREQ=YEARLY')).toBe('FREQ=YEARLY');
+  });
+
+  it('should list occurrences and let the client skip one that is not posted yet', async () => {
+    vi.spyOn(jobTemplateService, 'getTemplates').mockResolvedValue([template()]);
+    const skip = vi.spyOn(jobTemplateService, 'skipOccurrence').mockResolvedValue(occurrence({ id: 2, status: 'skipped' }));
+
+    renderErrands();
+
+    expect(await screen.findByText(/Every week on Saturday/)).toBeTruthy();
+    expect(screen.getByText('View job')).toBeTruthy();
+    expect(screen.getAllByText('Skip')).toHaveLength(1);
+
+    fireEvent.click(screen.getByText('Skip'));
+    await waitFor(() => expect(skip).toHaveBeenCalledWith(2));
+  });
+
+  it('should offer resume instead of pause for a paused errand', async () => {
+    vi.spyOn(jobTemplateService, 'getTemplates').mockResolvedValue([template({ status: 'paused' })]);
+    const resume = vi.spyOn(jobTemplateService, 'resumeTemplate').mockResolvedValue(template());
+
+    renderErrands();
+
+    fireEvent.click(await screen.findByText('Resume'));
+    await waitFor(() => expect(resume).toHaveBeenCalledWith(3));
+    expect(screen.queryByText('Pause')).toBeNull();
+  });
+
+  it('should only send the fields that changed when editing an occurrence', () => {
+    const onSave = vi.fn();
+
+    render(<OccurrenceEditor occurrence={occurrence({})} saving={false} onSave={onSave} onCancel={vi.fn()} />);
+    fireEvent.change(screen.getByLabelText('Price (USD)'), { target: { value: '30' } });
+    fireEvent.click(screen.getByText('Save'));
+
+    expect(onSave).toHaveBeenCalledWith({ priceCents: 3000 });
+  });
+});
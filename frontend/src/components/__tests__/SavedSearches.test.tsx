@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SavedSearches, SaveSearchForm } from '../SavedSearches';
+import { savedSearchService, SavedSearch } from '../../services/savedSearch.service';
+
+const search = (overrides: Partial<SavedSearch> = {}): SavedSearch => ({
+  id: 4,
+  name: 'Deliveries downtown',
+  location: { lat: 40.7128, lng: -74.006 },
+  radiusKm: 10,
+  categories: ['delivery'],
+  minPriceCents: 1500,
+  channels: ['in_app', 'email'],
+  quietHours: { start: '22:00', end: '07:00' },
+  timezone: 'UTC',
+  digest: false,
+  isActive: true,
+  lastDigestAt: null,
+  createdAt: '2030-01-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const renderSearches = () =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <SavedSearches location={{ lat: 40.7128, lng: -74.006 }} radiusKm={10} category="delivery" />
+    </QueryClientProvider>
+  );
+
+describe('SavedSearches component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should describe saved searches and let the runner pause one', async () => {
+    vi.spyOn(savedSearchService, 'getSearches').mockResolvedValue([search()]);
+    const update = vi.spyOn(savedSearchService, 'updateSearch').mockResolvedValue(search({ isActive: false }));
+
+    renderSearches();
+
+    expect(
+      await screen.findByText('delivery · within 10 km · from $15.00 · In the app, Email · quiet 22:00–07:00')
+    ).toBeTruthy();
+
+    fireEvent.click(screen.getByText('Pause'));
+    await waitFor(() => expect(update).toHaveBeenCalledWith(4, { isActive: false }));
+  });
+
+  it('should show paused searches with a resume button', async () => {
+    vi.spyOn(savedSearchService, 'getSearches').mockResolvedValue([search({ isActive: false, digest: true })]);
+
+    renderSearches();
+
+    expect(await screen.findByText('Resume')).toBeTruthy();
+    expect(screen.getByText('Paused. No alerts are sent.')).toBeTruthy();
+    expect(screen.getByText(/daily digest/)).toBeTruthy();
+  });
+
+  it('should save the current search with its alert settings', async () => {
+    const onSave = vi.fn();
+
+    render(
+      <SaveSearchForm
+        location={{ lat: 1, lng: 2 }}
+        radiusKm={100}
+        category="shopping"
+        saving={false}
+        onSave={onSave}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Alerts cover up to 50 km around your location.')).toBeTruthy();
+    fireEvent.change(screen.getByLabelText('Minimum price (USD)'), { target: { value: '12.5' } });
+    fireEvent.click(screen.getByLabelText('Hold alerts during quiet hours'));
+    fireEvent.click(screen.getByText('Save search'));
+
+    await waitFor(() =>
+      expect(onSave).toHaveBeenCalledWith({
+        name: 'Shopping within 50 km',
+        location: { lat: 1, lng: 2 },
+        radiusKm: 50,
+        categories: ['shopping'],
+        minPriceCents: 1250,
+        channels: ['in_app'],
+        quietHours: { start: '22:00', end: '07:00' },
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+        digest: false,
+      })
+    );
+  });
+
+  it('should not offer push alerts when the browser cannot receive them', () => {
+    render(
+      <SaveSearchForm
+        location={{ lat: 1, lng: 2 }}
+        radiusKm={10}
+        category=""
+        saving={false}
+        onSave={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect((screen.getByLabelText('Push notification') as HTMLInputElement).disabled).toBe(true);
+    expect((screen.getByLabelText('Name') as HTMLInputElement).value).toBe('Jobs within 10 km');
+  });
+});
@@ -0,0 +1,73 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { SuggestedRunners, describeStrengths } from '../SuggestedRunners';
+import { runnerService, SuggestedRunner } from '../../services/runner.service';
+
+const runner = (overrides: Partial<SuggestedRunner> = {}): SuggestedRunner => ({
+  runnerId: 20,
+  profileId: 5,
+  displayName: 'FastRunner',
+  avatarUrl: null,
+  tags: ['shopping'],
+  hourlyRateCents: 2000,
+  avgRating: 4.6,
+  completionRate: 95,
+  totalJobs: 12,
+  distanceKm: 1.2,
+  available: true,
+  score: 0.8412,
+  factors: { distance: 0.95, category: 1, rating: 0.92, completion: 0.95, availability: 1, load: 0.5 },
+  notifiedAt: null,
+  ...overrides,
+});
+
+const renderSuggestions = () =>
+  render(
+    <QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+      <MemoryRouter>
+        <SuggestedRunners jobId={7} />
+      </MemoryRouter>
+    </QueryClientProvider>
+  );
+
+describe('SuggestedRunners component', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should name the factors a runner scores best on', () => {
+    expect(describeStrengths(runner())).toBe('Does this kind of job · Free now');
+    expect(describeStrengths(runner({ factors: { distance: 0.5, category: 0, rating: 0.5, completion: 0.5, availability: 0, load: 0.2 } }))).toBe('');
+  });
+
+  it('should list ranked runners with their match and mark the ones notified', async () => {
+    vi.spyOn(runnerService, 'getSuggestedRunners').mockResolvedValue({
+      jobId: 7,
+      radiusKm: 25,
+      wave: 0,
+      runners: [
+        runner({ notifiedAt: '2030-01-01T10:00:00.000Z' }),
+        runner({ runnerId: 21, profileId: 6, displayName: 'SlowRunner', available: false, score: 0.42 }),
+      ],
+    });
+
+    renderSuggestions();
+
+    expect(await screen.findByText('FastRunner')).toBeTruthy();
+    expect(screen.getByText('84% match')).toBeTruthy();
+    expect(screen.getByText('42% match')).toBeTruthy();
+    expect(screen.getAllByText('Notified')).toHaveLength(1);
+    expect(screen.getAllByText('Busy')).toHaveLength(1);
+    expect(screen.getByText('FastRunner').getAttribute('href')).toBe('/runners/5');
+  });
+
+  it('should explain when no runner matches yet', async () => {
+    vi.spyOn(runnerService, 'getSuggestedRunners').mockResolvedValue({ jobId: 7, radiusKm: 25, wave: null, runners: [] });
+
+    renderSuggestions();
+
+    expect(await screen.findByText(/No runners match this job yet/)).toBeTruthy();
+  });
+});
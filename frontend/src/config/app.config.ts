@@ -274,6 +274,7 @@ export const HTTP_STATUS = {
  */
 export const STORAGE_KEYS = {
   AUTH_TOKEN: 'auth_token',
+  REFRESH_TOKEN: 'refresh_token',
   AUTH_USER: 'auth_user',
   THEME_PREFERENCE: 'theme_preference',
   LANGUAGE_PREFERENCE: 'language_preference',
@@ -302,7 +303,8 @@ export const ROUTES = {
  * Feature flags for progressive rollout
  */
 export const FEATURE_FLAGS = {
-  ENABLE_NOSTR_AUTH: false,
+  ENABLE_NOSTR_AUTH: true,
+  ENABLE_LNURL_AUTH: true,
   ENABLE_MULTI_CURRENCY: false,
   ENABLE_REAL_TIME_UPDATES: false,
   ENABLE_PWA_INSTALL: true,
@@ -13,6 +13,8 @@ interface AuthContextType {
   login: (username: string, password: string) => Promise<void>;
   register: (username: string, password: string, displayName?: string) => Promise<void>;
   loginWithOTP: (sessionId: string, code: string) => Promise<void>;
+  loginWithNostr: () => Promise<void>;
+  loginWithLnurl: (k1: string) => Promise<boolean>;
   logout: () => void;
   refreshUser: () => Promise<void>;
 }
@@ -33,6 +35,13 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     }
   }, []);
 
+  useEffect(() => {
+    // Signed out by another tab or an expired session
+    const handleLogout = () => setUser(null);
+    window.addEventListener('auth:logout', handleLogout);
+    return () => window.removeEventListener('auth:logout', handleLogout);
+  }, []);
+
   const loadUser = async () => {
     try {
       const userData = await authService.getProfile();
@@ -60,6 +69,20 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     setUser(response.user as User);
   };
 
+  const loginWithNostr = async () => {
+    const response = await authService.loginWithNostr();
+    setUser(response.data?.user || null);
+  };
+
+  // Resolves false while the wallet has not signed yet
+  const loginWithLnurl = async (k1: string) => {
+    const response = await authService.pollLnurlLogin(k1);
+    if (!response) return false;
+
+    setUser(response.data?.user || null);
+    return true;
+  };
+
   const logout = () => {
     authService.logout();
     setUser(null);
@@ -78,6 +101,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         login,
         register,
         loginWithOTP,
+        loginWithNostr,
+        loginWithLnurl,
         logout,
         refreshUser
       }}
@@ -0,0 +1,213 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderHook } from '@testing-library/react';
+import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import type { ReactNode } from 'react';
+import { applyRealtimeEvent, useRealtimeUpdates } from '../useRealtime';
+import { jobKeys } from '../useJobs';
+import { messageKeys } from '../useMessages';
+import { trackingKeys } from '../useTracking';
+import { tipKeys } from '../useTips';
+import { realtimeService, parseEventFrame } from '../../services/realtime.service';
+import { httpClient } from '../../services/http.client';
+import toast from 'react-hot-toast';
+
+const job = {
+  id: 7,
+  clientId: 1,
+  runnerId: 2,
+  title: 'Pick up parcel',
+  description: 'From the post office',
+  status: 'accepted',
+  priceCents: 1500,
+  address: 'Main St',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const message = {
+  id: 3,
+  jobId: 7,
+  senderId: 2,
+  content: 'On my way',
+  mediaUrl: null,
+  lnInvoice: null,
+  createdAt: '2025-01-01T00:05:00.000Z',
+};
+
+describe('useRealtime', () => {
+  let queryClient: QueryClient;
+
+  beforeEach(() => {
+    queryClient = new QueryClient();
+    vi.restoreAllMocks();
+  });
+
+  it('should update job details and lists in place on status change', () => {
+    queryClient.setQueryData(jobKeys.detail('7'), job);
+    queryClient.setQueryData(jobKeys.myJobs(), [job, { ...job, id: 8 }]);
+
+    applyRealtimeEvent(queryClient, {
+      type: 'job.status_changed',
+      data: {
+        jobId: 7,
+        status: 'in_progress',
+        previousStatus: 'accepted',
+        actor: 'runner',
+        changedAt: '2025-01-01T01:00:00.000Z',
+      },
+    });
+
+    expect(queryClient.getQueryData<any>(jobKeys.detail('7')).status).toBe('in_progress');
+    const jobs = queryClient.getQueryData<any[]>(jobKeys.myJobs())!;
+    expect(jobs.map((j) => j.status)).toEqual(['in_progress', 'accepted']);
+  });
+
+  it('should append new messages once', () => {
+    queryClient.setQueryData(messageKeys.job(7), []);
+
+    applyRealtimeEvent(queryClient, { type: 'message.created', data: message });
+    applyRealtimeEvent(queryClient, { type: 'message.created', data: message });
+
+    expect(queryClient.getQueryData(messageKeys.job('7'))).toEqual([message]);
+  });
+
+  it('should move the live runner position and extend the trail', () => {
+    queryClient.setQueryData(trackingKeys.job('7'), {
+      jobId: 7,
+      tracking: true,
+      position: null,
+      trail: [{ lat: 51.5, lng: -0.12, recordedAt: '2025-01-01T01:00:00.000Z' }],
+    });
+
+    applyRealtimeEvent(queryClient, {
+      type: 'runner.location',
+      data: {
+        jobId: 7,
+        lat: 51.51,
+        lng: -0.12,
+        accuracyM: 8,
+        heading: null,
+        recordedAt: '2025-01-01T01:00:10.000Z',
+        nextStopId: 4,
+        distanceKm: 1.2,
+        etaMinutes: 5,
+      },
+    });
+
+    const live = queryClient.getQueryData<any>(trackingKeys.job(7));
+    expect(live.position).toMatchObject({ lat: 51.51, etaMinutes: 5 });
+    expect(live.position.jobId).toBeUndefined();
+    expect(live.trail).toHaveLength(2);
+  });
+
+  it('should refresh earnings and the job tips when a tip arrives', () => {
+    queryClient.setQueryData(['earnings', 'summary'], { totalTips: 0 });
+    queryClient.setQueryData(tipKeys.job(7), []);
+
+    applyRealtimeEvent(queryClient, {
+      type: 'tip.received',
+      data: { tipId: 1, jobId: 7, amountSats: 2000, amountCents: 100, method: 'invoice', message: null },
+    });
+
+    expect(queryClient.getQueryState(['earnings', 'summary'])?.isInvalidated).toBe(true);
+    expect(queryClient.getQueryState(tipKeys.job(7))?.isInvalidated).toBe(true);
+  });
+
+  it('should refresh the job and warn when it runs past its deadline', () => {
+    const warn = vi.spyOn(toast, 'error');
+    queryClient.setQueryData(jobKeys.detail('7'), { ...job, status: 'in_progress' });
+
+    applyRealtimeEvent(queryClient, {
+      type: 'job.overdue',
+      data: { jobId: 7, title: 'Pick up parcel', deadline: '2025-01-01T02:00:00.000Z' },
+    });
+
+    expect(queryClient.getQueryState(jobKeys.detail('7'))?.isInvalidated).toBe(true);
+    expect(warn).toHaveBeenCalledWith('"Pick up parcel" is past its deadline', { id: 'job-overdue-7' });
+  });
+
+  it('should refresh job lists when a runner is told about a job they match', () => {
+    queryClient.setQueryData(jobKeys.myJobs(), [job]);
+
+    applyRealtimeEvent(queryClient, {
+      type: 'job.suggested',
+      data: { jobId: 9, title: 'Walk the dog', priceCents: 1500, category: null, distanceKm: 1.2 },
+    });
+
+    expect(queryClient.getQueryState(jobKeys.myJobs())?.isInvalidated).toBe(true);
+  });
+
+  it('should refresh job lists when a saved search alert arrives', () => {
+    queryClient.setQueryData(jobKeys.myJobs(), [job]);
+
+    applyRealtimeEvent(queryClient, {
+      type: 'job.alert',
+      data: {
+        searchId: 3,
+        searchName: 'Downtown deliveries',
+        digest: false,
+        total: 1,
+        jobs: [{ jobId: 9, title: 'Walk the dog', priceCents: 1500, category: null, distanceKm: 1.2 }],
+      },
+    });
+
+    expect(queryClient.getQueryState(jobKeys.myJobs())?.isInvalidated).toBe(true);
+  });
+
+  it('should connect with the token and disconnect on unmount', () => {
+    const disconnect = vi.fn();
+    const connect = vi.spyOn(realtimeService, 'connect').mockReturnValue(disconnect);
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    const { unmount } = renderHook(() => useRealtimeUpdates('token-123'), { wrapper });
+
+    expect(connect).toHaveBeenCalledWith('token-123', expect.any(Function));
+    unmount();
+    expect(disconnect).toHaveBeenCalled();
+  });
+
+  it('should not connect when signed out', () => {
+    const connect = vi.spyOn(realtimeService, 'connect');
+    const wrapper = ({ children }: { children: ReactNode }) => (
+      <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+    );
+
+    renderHook(() => useRealtimeUpdates(null), { wrapper });
+
+    expect(connect).not.toHaveBeenCalled();
+  });
+
+  it('should refresh an expired token and reconnect instead of signing out', async () => {
+    const unauthorized = vi.fn();
+    window.addEventListener('auth:unauthorized', unauthorized);
+    httpClient.setAuthToken('expired');
+    const refresh = vi.spyOn(httpClient, 'refreshAuthToken').mockImplementation(async () => {
+      httpClient.setAuthToken('fresh');
+      return 'fresh';
+    });
+    const fetchMock = vi
+      .spyOn(globalThis, 'fetch')
+      .mockResolvedValueOnce(new Response(null, { status: 401 }))
+      .mockResolvedValueOnce(new Response('event: payment.confirmed\ndata: {"jobId":7,"paymentHash":"abc"}\n\n'));
+    const onEvent = vi.fn();
+
+    const disconnect = realtimeService.connect('expired', onEvent);
+    await vi.waitFor(() => expect(onEvent).toHaveBeenCalled());
+    disconnect();
+
+    expect(refresh).toHaveBeenCalledTimes(1);
+    expect(fetchMock.mock.calls[1]?.[1]?.headers).toMatchObject({ Authorization: 'Bearer fresh' });
+    expect(unauthorized).not.toHaveBeenCalled();
+    window.removeEventListener('auth:unauthorized', unauthorized);
+    httpClient.setAuthToken(null);
+  });
+
+  it('should parse event frames and ignore heartbeats', () => {
+    expect(parseEventFrame(': heartbeat')).toBeNull();
+    expect(
+      parseEventFrame('id: 1\nevent: payment.confirmed\ndata: {"jobId":7,"paymentHash":"abc"}')
+    ).toEqual({ type: 'payment.confirmed', data: { jobId: 7, paymentHash: 'abc' } });
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * React Query Hooks for Proof of Delivery
+ *
+ * Features:
+ * - Proof submitted by the runner, with its photos loaded through the API
+ * - One-time delivery code issued by the client
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation } from '@tanstack/react-query'
+import { jobService, DeliveryCode, DeliveryProof } from '../services/job.service'
+import { fileToDataUrl } from '../utils/image'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const deliveryProofKeys = {
+  all: ['delivery-proof'] as const,
+  job: (jobId: number | string) => [...deliveryProofKeys.all, 'job', Number(jobId)] as const,
+  attachment: (jobId: number | string, attachmentId: number) =>
+    [...deliveryProofKeys.job(jobId), 'attachment', attachmentId] as const,
+}
+
+/**
+ * Get the proof of delivery of a job
+ */
+export function useDeliveryProof(jobId: number | string | undefined, enabled: boolean = true) {
+  return useQuery<DeliveryProof | null, Error>({
+    queryKey: deliveryProofKeys.job(jobId!),
+    queryFn: () => jobService.getDeliveryProof(jobId!),
+    enabled: !!jobId && enabled, // Only run if ID is provided
+    staleTime: 5 * 60 * 1000, // Proofs do not change once submitted
+  })
+}
+
+/**
+ * Load a proof attachment as a data URL for display
+ */
+export function useDeliveryAttachment(jobId: number | string, attachmentId: number) {
+  return useQuery<string, Error>({
+    queryKey: deliveryProofKeys.attachment(jobId, attachmentId),
+    queryFn: async () => fileToDataUrl(await jobService.getDeliveryAttachment(jobId, attachmentId)),
+    staleTime: Infinity,
+  })
+}
+
+/**
+ * Issue (or show) the job's one-time delivery code
+ */
+export function useIssueDeliveryCode(jobId: number | string) {
+  return useMutation<DeliveryCode, Error>({
+    mutationFn: () => jobService.issueDeliveryCode(jobId),
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to get delivery code')
+    },
+  })
+}
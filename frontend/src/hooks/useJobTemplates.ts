@@ -0,0 +1,141 @@
+/**
+ * React Query Hooks for Recurring Errands
+ *
+ * Features:
+ * - The current user's recurring errands with their upcoming occurrences
+ * - Pausing, resuming and ending an errand
+ * - Skipping, restoring and editing single occurrences
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import {
+  jobTemplateService,
+  CreateJobTemplateInput,
+  JobTemplate,
+  UpdateJobTemplateInput,
+  UpdateOccurrenceInput,
+} from '../services/jobTemplate.service'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const jobTemplateKeys = {
+  all: ['jobTemplates'] as const,
+  mine: () => [...jobTemplateKeys.all, 'mine'] as const,
+}
+
+/**
+ * Get the current user's recurring errands
+ */
+export function useJobTemplates(
+  options?: Omit<UseQueryOptions<JobTemplate[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<JobTemplate[], Error>({
+    queryKey: jobTemplateKeys.mine(),
+    queryFn: () => jobTemplateService.getTemplates(),
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  })
+}
+
+/**
+ * Create a recurring errand
+ */
+export function useCreateJobTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateJobTemplateInput) => jobTemplateService.createTemplate(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobTemplateKeys.all })
+      toast.success('Recurring errand scheduled!')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to schedule recurring errand')
+    },
+  })
+}
+
+/**
+ * Change a recurring errand's details or schedule
+ */
+export function useUpdateJobTemplate() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ templateId, input }: { templateId: number; input: UpdateJobTemplateInput }) =>
+      jobTemplateService.updateTemplate(templateId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobTemplateKeys.all })
+      toast.success('Recurring errand updated')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update recurring errand')
+    },
+  })
+}
+
+/**
+ * Pause, resume or end a recurring errand
+ */
+export function useJobTemplateStatus() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ templateId, action }: { templateId: number; action: 'pause' | 'resume' | 'end' }) => {
+      if (action === 'pause') return jobTemplateService.pauseTemplate(templateId)
+      if (action === 'resume') return jobTemplateService.resumeTemplate(templateId)
+      return jobTemplateService.endTemplate(templateId)
+    },
+    onSuccess: (template) => {
+      queryClient.invalidateQueries({ queryKey: jobTemplateKeys.all })
+      toast.success(
+        template.status === 'paused'
+          ? 'Recurring errand paused'
+          : template.status === 'ended'
+            ? 'Recurring errand ended'
+            : 'Recurring errand resumed'
+      )
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update recurring errand')
+    },
+  })
+}
+
+/**
+ * Skip an occurrence, or restore a skipped one
+ */
+export function useSkipOccurrence() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ occurrenceId, skip }: { occurrenceId: number; skip: boolean }) =>
+      skip ? jobTemplateService.skipOccurrence(occurrenceId) : jobTemplateService.restoreOccurrence(occurrenceId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobTemplateKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update occurrence')
+    },
+  })
+}
+
+/**
+ * Move an occurrence or change its title, notes or price
+ */
+export function useUpdateOccurrence() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ occurrenceId, input }: { occurrenceId: number; input: UpdateOccurrenceInput }) =>
+      jobTemplateService.updateOccurrence(occurrenceId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: jobTemplateKeys.all })
+      toast.success('Occurrence updated')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update occurrence')
+    },
+  })
+}
@@ -106,50 +106,6 @@ export function useCreateJob() {
   })
 }
 
-/**
- * Assign job to current user (runner)
- */
-export function useAssignJob() {
-  const queryClient = useQueryClient()
-
-  return useMutation({
-    mutationFn: (id: number | string) => jobService.assignJob(id),
-    onMutate: async (id) => {
-      // Cancel outgoing refetches
-      await queryClient.cancelQueries({ queryKey: jobKeys.detail(id) })
-
-      // Snapshot previous value
-      const previousJob = queryClient.getQueryData<Job>(jobKeys.detail(id))
-
-      // Optimistically update the job status
-      if (previousJob) {
-        queryClient.setQueryData<Job>(jobKeys.detail(id), {
-          ...previousJob,
-          status: 'accepted',
-        })
-      }
-
-      return { previousJob }
-    },
-    onSuccess: (updatedJob) => {
-      // Update the job in cache
-      queryClient.setQueryData(jobKeys.detail(updatedJob.id), updatedJob)
-      
-      // Invalidate job lists to reflect changes
-      queryClient.invalidateQueries({ queryKey: jobKeys.lists() })
-      
-      toast.success('Job assigned successfully!')
-    },
-    onError: (error: Error, id, context) => {
-      // Rollback on error
-      if (context?.previousJob) {
-        queryClient.setQueryData(jobKeys.detail(id), context.previousJob)
-      }
-      toast.error(error.message || 'Failed to assign job')
-    },
-  })
-}
-
 /**
  * Start a job (mark as in progress)
  */
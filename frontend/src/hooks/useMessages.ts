@@ -0,0 +1,61 @@
+/**
+ * React Query Hooks for Job Messages
+ *
+ * Features:
+ * - Cached job threads kept current by the realtime stream
+ * - Sent messages appended to the cache without a refetch
+ */
+
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import { messageService, JobMessage, SendMessageInput } from '../services/message.service'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const messageKeys = {
+  all: ['messages'] as const,
+  job: (jobId: number | string) => [...messageKeys.all, 'job', Number(jobId)] as const,
+}
+
+/**
+ * Add a message to a cached thread unless it is already there
+ * The sender sees their message both from the POST response and the stream
+ */
+export function appendMessage(messages: JobMessage[] | undefined, message: JobMessage) {
+  if (!messages) return messages
+  if (messages.some((existing) => existing.id === message.id)) return messages
+  return [...messages, message]
+}
+
+/**
+ * Get messages for a job
+ */
+export function useJobMessages(
+  jobId: number | string | undefined,
+  options?: Omit<UseQueryOptions<JobMessage[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<JobMessage[], Error>({
+    queryKey: messageKeys.job(jobId!),
+    queryFn: () => messageService.getJobMessages(jobId!),
+    enabled: !!jobId, // Only run if ID is provided
+    ...options,
+  })
+}
+
+/**
+ * Post a message to a job thread
+ */
+export function useSendMessage(jobId: number | string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: SendMessageInput) => messageService.sendMessage(jobId, input),
+    onSuccess: (message) => {
+      queryClient.setQueryData<JobMessage[]>(messageKeys.job(jobId), (messages) =>
+        appendMessage(messages, message)
+      )
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send message')
+    },
+  })
+}
@@ -0,0 +1,142 @@
+/**
+ * React Query Hooks for Job Offers
+ *
+ * Features:
+ * - Per-job negotiation threads and a cross-job overview
+ * - Accepting an offer refreshes the assigned job
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import { offerService, JobOffer, OfferSummary, OfferTerms } from '../services/offer.service'
+import { jobKeys } from './useJobs'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const offerKeys = {
+  all: ['offers'] as const,
+  job: (jobId: number | string) => [...offerKeys.all, 'job', Number(jobId)] as const,
+  mine: () => [...offerKeys.all, 'mine'] as const,
+}
+
+/**
+ * Get offers on a job
+ */
+export function useJobOffers(
+  jobId: number | string | undefined,
+  options?: Omit<UseQueryOptions<JobOffer[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<JobOffer[], Error>({
+    queryKey: offerKeys.job(jobId!),
+    queryFn: () => offerService.getJobOffers(jobId!),
+    enabled: !!jobId, // Only run if ID is provided
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  })
+}
+
+/**
+ * Get the current user's negotiations across all jobs
+ */
+export function useMyOffers(
+  options?: Omit<UseQueryOptions<OfferSummary[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<OfferSummary[], Error>({
+    queryKey: offerKeys.mine(),
+    queryFn: () => offerService.getMyOffers(),
+    staleTime: 30 * 1000, // 30 seconds
+    ...options,
+  })
+}
+
+/**
+ * Make an offer on a job
+ */
+export function useSubmitOffer(jobId: number | string) {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (terms: OfferTerms) => offerService.submitOffer(jobId, terms),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offerKeys.all })
+      toast.success('Offer sent!')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send offer')
+    },
+  })
+}
+
+/**
+ * Counter an offer with new terms
+ */
+export function useCounterOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ offerId, terms }: { offerId: number; terms: OfferTerms }) =>
+      offerService.counterOffer(offerId, terms),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offerKeys.all })
+      toast.success('Counter-offer sent!')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to send counter-offer')
+    },
+  })
+}
+
+/**
+ * Accept an offer, assigning the job
+ */
+export function useAcceptOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (offerId: number) => offerService.acceptOffer(offerId),
+    onSuccess: (offer) => {
+      queryClient.invalidateQueries({ queryKey: offerKeys.all })
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(offer.jobId) })
+      queryClient.invalidateQueries({ queryKey: jobKeys.lists() })
+      toast.success('Offer accepted! The runner has been assigned.')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to accept offer')
+    },
+  })
+}
+
+/**
+ * Reject an offer
+ */
+export function useRejectOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (offerId: number) => offerService.rejectOffer(offerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offerKeys.all })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to reject offer')
+    },
+  })
+}
+
+/**
+ * Withdraw your own offer
+ */
+export function useWithdrawOffer() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (offerId: number) => offerService.withdrawOffer(offerId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: offerKeys.all })
+      toast.success('Offer withdrawn')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to withdraw offer')
+    },
+  })
+}
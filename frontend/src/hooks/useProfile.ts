@@ -36,6 +36,16 @@ interface SecurityLogEntry {
   details?: any;
 }
 
+export interface ActiveSession {
+  id: number;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  lastUsedAt: string;
+  expiresAt: string;
+  current: boolean; // The session this device is signed in with
+}
+
 /**
  * Get user preferences
  */
@@ -72,6 +82,64 @@ export function useSecurityLog(
   });
 }
 
+/**
+ * Get the sessions signed in to the account
+ */
+export function useSessions(
+  options?: Omit<UseQueryOptions<ActiveSession[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery({
+    queryKey: queryKeys.profileSessions,
+    queryFn: async () => {
+      const response = await api.get('/profile/sessions');
+      return response.data.data;
+    },
+    staleTime: 1 * 60 * 1000, // 1 minute
+    ...options,
+  });
+}
+
+/**
+ * Log out one session, e.g. a lost phone
+ */
+export function useRevokeSession() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (sessionId: number) => {
+      await api.delete(`/profile/sessions/${sessionId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.profileSessions });
+      toast.success('Session logged out');
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to log out session');
+    },
+  });
+}
+
+/**
+ * Log out every session, this device included
+ */
+export function useRevokeAllSessions() {
+  const { logout } = useAuth();
+
+  return useMutation({
+    mutationFn: async () => {
+      const response = await api.delete('/profile/sessions');
+      return response.data.data.count as number;
+    },
+    onSuccess: () => {
+      toast.success('Logged out everywhere');
+      logout();
+    },
+    onError: (error: any) => {
+      toast.error(error.response?.data?.error || 'Failed to log out everywhere');
+    },
+  });
+}
+
 /**
  * Update profile
  */
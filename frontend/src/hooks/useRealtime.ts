@@ -0,0 +1,137 @@
+/**
+ * Realtime Updates Hook
+ *
+ * Keeps the React Query cache in sync with server-pushed events:
+ * - Job status changes and checked-off stops update job details and lists in place
+ * - Jobs in progress past their deadline refresh the job and warn both parties
+ * - Runners hear about new jobs they match and their job lists refresh
+ * - Saved search alerts announce the new matches and refresh job lists
+ * - New messages are appended to their job thread
+ * - Payment, payout and tip events refresh the affected queries
+ * - Offer updates refresh the job's negotiation and the offers overview
+ * - Runner location pings move the live position on the job's tracking view
+ */
+
+import { useEffect } from 'react'
+import { QueryClient, useQueryClient } from '@tanstack/react-query'
+import { realtimeService, RealtimeEvent } from '../services/realtime.service'
+import type { Job } from '../services/job.service'
+import type { JobMessage } from '../services/message.service'
+import { jobKeys } from './useJobs'
+import { messageKeys, appendMessage } from './useMessages'
+import { offerKeys } from './useOffers'
+import { trackingKeys, applyRunnerPosition } from './useTracking'
+import { tipKeys } from './useTips'
+import type { LiveLocation } from '../services/tracking.service'
+import { queryKeys } from '../lib/queryClient'
+import toast from 'react-hot-toast'
+
+/**
+ * Apply a single realtime event to the query cache
+ */
+export function applyRealtimeEvent(queryClient: QueryClient, event: RealtimeEvent) {
+  switch (event.type) {
+    case 'job.status_changed': {
+      const { jobId, status, changedAt } = event.data
+      const update = (job: Job): Job =>
+        job.id === jobId ? { ...job, status, updatedAt: changedAt } : job
+
+      queryClient.setQueryData<Job>(jobKeys.detail(jobId), (job) => (job ? update(job) : job))
+      queryClient.setQueryData<Job>(jobKeys.detail(String(jobId)), (job) =>
+        job ? update(job) : job
+      )
+      queryClient.setQueriesData<Job[]>({ queryKey: jobKeys.lists() }, (jobs) =>
+        Array.isArray(jobs) ? jobs.map(update) : jobs
+      )
+      break
+    }
+
+    case 'job.stop_completed': {
+      const { jobId, stopId, completedAt } = event.data
+      const update = (job: Job | undefined): Job | undefined =>
+        job?.stops
+          ? {
+              ...job,
+              stops: job.stops.map((stop) => (stop.id === stopId ? { ...stop, completedAt } : stop)),
+            }
+          : job
+
+      queryClient.setQueryData<Job>(jobKeys.detail(jobId), update)
+      queryClient.setQueryData<Job>(jobKeys.detail(String(jobId)), update)
+      break
+    }
+
+    case 'job.overdue':
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(event.data.jobId) })
+      queryClient.invalidateQueries({ queryKey: jobKeys.detail(String(event.data.jobId)) })
+      toast.error(`"${event.data.title}" is past its deadline`, { id: `job-overdue-${event.data.jobId}` })
+      break
+
+    case 'job.suggested': {
+      const { jobId, title, distanceKm } = event.data
+      queryClient.invalidateQueries({ queryKey: jobKeys.lists() })
+      toast(`New job for you: "${title}"${distanceKm !== null ? ` (${distanceKm} km away)` : ''}`, {
+        id: `job-suggested-${jobId}`,
+      })
+      break
+    }
+
+    case 'job.alert': {
+      const { searchId, searchName, total, jobs } = event.data
+      queryClient.invalidateQueries({ queryKey: jobKeys.lists() })
+      toast(
+        total === 1 && jobs[0]
+          ? `New job for "${searchName}": ${jobs[0].title}`
+          : `${total} new jobs for "${searchName}"`,
+        { id: `job-alert-${searchId}` }
+      )
+      break
+    }
+
+    case 'message.created':
+      queryClient.setQueryData<JobMessage[]>(messageKeys.job(event.data.jobId), (messages) =>
+        appendMessage(messages, event.data)
+      )
+      break
+
+    case 'payment.confirmed':
+      queryClient.invalidateQueries({ queryKey: queryKeys.payment(event.data.jobId) })
+      break
+
+    case 'payout.completed':
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      break
+
+    case 'tip.received':
+      queryClient.invalidateQueries({ queryKey: ['earnings'] })
+      queryClient.invalidateQueries({ queryKey: tipKeys.job(event.data.jobId) })
+      break
+
+    case 'offer.updated':
+      queryClient.invalidateQueries({ queryKey: offerKeys.job(event.data.jobId) })
+      queryClient.invalidateQueries({ queryKey: offerKeys.mine() })
+      break
+
+    case 'runner.location': {
+      const { jobId, ...position } = event.data
+      queryClient.setQueryData<LiveLocation>(trackingKeys.job(jobId), (live) =>
+        applyRunnerPosition(live, jobId, position)
+      )
+      break
+    }
+  }
+}
+
+/**
+ * Subscribe to realtime updates while a user is signed in
+ * @param token - JWT of the current user, or null when signed out
+ */
+export function useRealtimeUpdates(token: string | null) {
+  const queryClient = useQueryClient()
+
+  useEffect(() => {
+    if (!token) return
+
+    return realtimeService.connect(token, (event) => applyRealtimeEvent(queryClient, event))
+  }, [token, queryClient])
+}
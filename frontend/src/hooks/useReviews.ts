@@ -0,0 +1,105 @@
+/**
+ * React Query Hooks for Reviews
+ *
+ * Features:
+ * - The reviews of a job the current user may see
+ * - A client's reputation from runner reviews
+ * - Reviewing the other side of a job
+ * - Replying to and reporting reviews
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import {
+  reviewService,
+  ClientRatingStats,
+  JobReviews,
+  Review,
+  ReviewSubmission,
+} from '../services/review.service'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const reviewKeys = {
+  all: ['reviews'] as const,
+  job: (jobId: number) => [...reviewKeys.all, 'job', jobId] as const,
+  clientStats: (clientId: number) => [...reviewKeys.all, 'client', clientId, 'stats'] as const,
+}
+
+/**
+ * Get the reviews of a job
+ */
+export function useJobReviews(jobId: number, enabled: boolean = true) {
+  return useQuery<JobReviews, Error>({
+    queryKey: reviewKeys.job(jobId),
+    queryFn: () => reviewService.getReviewsForJob(jobId),
+    enabled,
+  })
+}
+
+/**
+ * Get a client's reputation
+ */
+export function useClientRatingStats(clientId: number | undefined) {
+  return useQuery<ClientRatingStats, Error>({
+    queryKey: reviewKeys.clientStats(clientId!),
+    queryFn: () => reviewService.getClientRatingStats(clientId!),
+    enabled: !!clientId, // Only run if ID is provided
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  })
+}
+
+/**
+ * Review the other side of a job
+ */
+export function useSubmitReview() {
+  const queryClient = useQueryClient()
+
+  return useMutation<Review, Error, ReviewSubmission>({
+    mutationFn: (input) => reviewService.submitReview(input),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.job(review.jobId) })
+      toast.success(
+        review.revealed
+          ? 'Review submitted! Both reviews are now visible.'
+          : 'Review submitted! It stays hidden until the other side reviews too.'
+      )
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to submit review')
+    },
+  })
+}
+
+/**
+ * Reply to a review of the current runner
+ */
+export function useReplyToReview() {
+  const queryClient = useQueryClient()
+
+  return useMutation<Review, Error, { reviewId: number; reply: string }>({
+    mutationFn: ({ reviewId, reply }) => reviewService.replyToReview(reviewId, reply),
+    onSuccess: (review) => {
+      queryClient.invalidateQueries({ queryKey: reviewKeys.job(review.jobId) })
+      toast.success('Reply posted!')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to post reply')
+    },
+  })
+}
+
+/**
+ * Report an abusive review
+ */
+export function useReportReview() {
+  return useMutation<void, Error, { reviewId: number; reason: string }>({
+    mutationFn: ({ reviewId, reason }) => reviewService.reportReview(reviewId, reason),
+    onSuccess: () => {
+      toast.success('Thanks, a moderator will look at this review.')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to report review')
+    },
+  })
+}
@@ -10,7 +10,16 @@
  */
 
 import { useQuery, useMutation, useQueryClient, UseQueryOptions, UseMutationOptions } from '@tanstack/react-query'
-import { runnerService, RunnerProfile, CreateRunnerInput, UpdateRunnerInput } from '../services/runner.service'
+import {
+  runnerService,
+  RunnerProfile,
+  CreateRunnerInput,
+  UpdateRunnerInput,
+  SuggestedRunners,
+  RunnerAvailability,
+  UpdateAvailabilityInput,
+  TimeOffInput,
+} from '../services/runner.service'
 import toast from 'react-hot-toast'
 
 // Query Keys
@@ -22,6 +31,8 @@ export const runnerKeys = {
   details: () => [...runnerKeys.all, 'detail'] as const,
   detail: (id: number | string) => [...runnerKeys.details(), id] as const,
   myProfile: () => [...runnerKeys.all, 'my-profile'] as const,
+  suggested: (jobId: number | string) => [...runnerKeys.all, 'suggested', String(jobId)] as const,
+  availability: (id: number | string) => [...runnerKeys.all, 'availability', String(id)] as const,
 }
 
 /**
@@ -75,6 +86,94 @@ export function useNearbyRunners(
   })
 }
 
+/**
+ * Runners ranked for one of the current user's open jobs
+ */
+export function useSuggestedRunners(
+  jobId: number | string | undefined,
+  options?: Omit<UseQueryOptions<SuggestedRunners, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<SuggestedRunners, Error>({
+    queryKey: runnerKeys.suggested(jobId!),
+    queryFn: () => runnerService.getSuggestedRunners(jobId!),
+    enabled: !!jobId,
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  })
+}
+
+/**
+ * Get a runner's working hours, time off and job capacity
+ */
+export function useRunnerAvailability(
+  id: number | string | undefined,
+  options?: Omit<UseQueryOptions<RunnerAvailability, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<RunnerAvailability, Error>({
+    queryKey: runnerKeys.availability(id!),
+    queryFn: () => runnerService.getAvailability(id!),
+    enabled: !!id,
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  })
+}
+
+/**
+ * Update the availability switch, time zone, job capacity and working hours
+ */
+export function useUpdateAvailability() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: number | string; input: UpdateAvailabilityInput }) =>
+      runnerService.updateAvailability(id, input),
+    onSuccess: (availability, { id }) => {
+      queryClient.setQueryData(runnerKeys.availability(id), availability)
+      queryClient.invalidateQueries({ queryKey: runnerKeys.lists() })
+      toast.success('Availability saved')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save availability')
+    },
+  })
+}
+
+/**
+ * Block out time off
+ */
+export function useAddTimeOff() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, input }: { id: number | string; input: TimeOffInput }) => runnerService.addTimeOff(id, input),
+    onSuccess: (_timeOff, { id }) => {
+      queryClient.invalidateQueries({ queryKey: runnerKeys.availability(id) })
+      toast.success('Time off added')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to add time off')
+    },
+  })
+}
+
+/**
+ * Remove a time off block
+ */
+export function useRemoveTimeOff() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ id, timeOffId }: { id: number | string; timeOffId: number }) =>
+      runnerService.removeTimeOff(id, timeOffId),
+    onSuccess: (_result, { id }) => {
+      queryClient.invalidateQueries({ queryKey: runnerKeys.availability(id) })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to remove time off')
+    },
+  })
+}
+
 /**
  * Create runner profile mutation
  */
@@ -209,6 +308,7 @@ export function useToggleAvailability(
       
       // Invalidate nearby runners list
       queryClient.invalidateQueries({ queryKey: runnerKeys.lists() })
+      queryClient.invalidateQueries({ queryKey: runnerKeys.availability(id) })
       
       toast.success(available ? 'You are now available' : 'You are now unavailable')
     },
@@ -0,0 +1,92 @@
+/**
+ * React Query Hooks for Saved Searches
+ *
+ * Features:
+ * - The current runner's saved job searches
+ * - Saving, changing, pausing and deleting a search
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation, useQueryClient, UseQueryOptions } from '@tanstack/react-query'
+import {
+  savedSearchService,
+  CreateSavedSearchInput,
+  SavedSearch,
+  UpdateSavedSearchInput,
+} from '../services/savedSearch.service'
+import toast from 'react-hot-toast'
+
+// Query Keys
+export const savedSearchKeys = {
+  all: ['savedSearches'] as const,
+  mine: () => [...savedSearchKeys.all, 'mine'] as const,
+}
+
+/**
+ * Get the current runner's saved searches
+ */
+export function useSavedSearches(
+  options?: Omit<UseQueryOptions<SavedSearch[], Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<SavedSearch[], Error>({
+    queryKey: savedSearchKeys.mine(),
+    queryFn: () => savedSearchService.getSearches(),
+    staleTime: 60 * 1000, // 1 minute
+    ...options,
+  })
+}
+
+/**
+ * Save a search
+ */
+export function useCreateSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (input: CreateSavedSearchInput) => savedSearchService.createSearch(input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchKeys.all })
+      toast.success('Search saved! We will let you know about new matching jobs.')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to save search')
+    },
+  })
+}
+
+/**
+ * Change, pause or resume a saved search
+ */
+export function useUpdateSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: ({ searchId, input }: { searchId: number; input: UpdateSavedSearchInput }) =>
+      savedSearchService.updateSearch(searchId, input),
+    onSuccess: (search) => {
+      queryClient.invalidateQueries({ queryKey: savedSearchKeys.all })
+      toast.success(search.isActive ? 'Saved search updated' : 'Alerts paused')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to update saved search')
+    },
+  })
+}
+
+/**
+ * Delete a saved search
+ */
+export function useDeleteSavedSearch() {
+  const queryClient = useQueryClient()
+
+  return useMutation({
+    mutationFn: (searchId: number) => savedSearchService.deleteSearch(searchId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: savedSearchKeys.all })
+      toast.success('Saved search deleted')
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to delete saved search')
+    },
+  })
+}
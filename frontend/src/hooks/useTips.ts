@@ -0,0 +1,71 @@
+/**
+ * React Query Hooks for Tips
+ *
+ * Features:
+ * - Tips of a job, re-checked while one is waiting to be paid
+ * - Starting and confirming a tip
+ * - Toast notifications
+ */
+
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query'
+import { tipService, CreateTipInput, Tip } from '../services/tip.service'
+import toast from 'react-hot-toast'
+
+// How often to re-check a tip invoice that has not been paid yet
+const TIP_POLL_INTERVAL_MS = 5000
+
+// Query Keys
+export const tipKeys = {
+  all: ['tips'] as const,
+  job: (jobId: number | string) => [...tipKeys.all, 'job', Number(jobId)] as const,
+}
+
+/**
+ * Get the tips of a job
+ */
+export function useJobTips(jobId: number | string | undefined, enabled: boolean = true) {
+  return useQuery<Tip[], Error>({
+    queryKey: tipKeys.job(jobId!),
+    queryFn: () => tipService.getJobTips(jobId!),
+    enabled: !!jobId && enabled, // Only run if ID is provided
+    refetchInterval: (query) =>
+      query.state.data?.some((tip) => tip.status === 'pending') ? TIP_POLL_INTERVAL_MS : false,
+  })
+}
+
+/**
+ * Start a tip for the runner of a job
+ */
+export function useCreateTip(jobId: number | string) {
+  const queryClient = useQueryClient()
+
+  return useMutation<Tip, Error, CreateTipInput>({
+    mutationFn: (input) => tipService.createTip(jobId, input),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: tipKeys.job(jobId) })
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to start tip')
+    },
+  })
+}
+
+/**
+ * Confirm a tip with the preimage returned by the wallet
+ */
+export function useConfirmTip(jobId: number | string) {
+  const queryClient = useQueryClient()
+
+  return useMutation<Tip, Error, { tipId: number; preimage?: string }>({
+    mutationFn: ({ tipId, preimage }) => tipService.confirmTip(tipId, preimage),
+    onSuccess: (tip) => {
+      queryClient.invalidateQueries({ queryKey: tipKeys.job(jobId) })
+      if (tip.status === 'paid') {
+        toast.success('Tip sent. Thank you!')
+      }
+    },
+    onError: (error: Error) => {
+      toast.error(error.message || 'Failed to confirm tip')
+    },
+  })
+}
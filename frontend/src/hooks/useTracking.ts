@@ -0,0 +1,103 @@
+/**
+ * React Query Hooks for Live Runner Tracking
+ *
+ * Features:
+ * - Client view of the runner's position, kept fresh by realtime pushes
+ * - Runner-side location sharing from the device's GPS while a job is in progress
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import { useQuery, UseQueryOptions } from '@tanstack/react-query'
+import { trackingService, LiveLocation, RunnerPosition } from '../services/tracking.service'
+
+// Query Keys
+export const trackingKeys = {
+  all: ['tracking'] as const,
+  job: (jobId: number | string) => [...trackingKeys.all, 'job', Number(jobId)] as const,
+}
+
+// Server drops pings faster than this anyway
+const SEND_INTERVAL_MS = 5000
+
+// Points kept on the client's trail, matching the server
+const TRAIL_LIMIT = 200
+
+/**
+ * Merge a pushed position into a cached live view
+ */
+export function applyRunnerPosition(
+  live: LiveLocation | undefined,
+  jobId: number,
+  position: RunnerPosition
+): LiveLocation {
+  const point = { lat: position.lat, lng: position.lng, recordedAt: position.recordedAt }
+  return {
+    jobId,
+    tracking: true,
+    position,
+    trail: [...(live?.trail ?? []), point].slice(-TRAIL_LIMIT),
+  }
+}
+
+/**
+ * Get the runner's live location for a job
+ */
+export function useLiveLocation(
+  jobId: number | string | undefined,
+  options?: Omit<UseQueryOptions<LiveLocation, Error>, 'queryKey' | 'queryFn'>
+) {
+  return useQuery<LiveLocation, Error>({
+    queryKey: trackingKeys.job(jobId!),
+    queryFn: () => trackingService.getLiveLocation(jobId!),
+    enabled: !!jobId, // Only run if ID is provided
+    staleTime: 60 * 1000, // Realtime pushes keep it fresh
+    ...options,
+  })
+}
+
+/**
+ * Share the device location for a job while enabled
+ * @returns Last error from the device or server, if any
+ */
+export function useLocationSharing(jobId: number | string | undefined, enabled: boolean) {
+  const [error, setError] = useState<string | null>(null)
+  const lastSentRef = useRef(0)
+
+  const supported = typeof navigator !== 'undefined' && !!navigator.geolocation
+
+  useEffect(() => {
+    if (!jobId || !enabled || !supported) return
+
+    const watchId = navigator.geolocation.watchPosition(
+      (position) => {
+        const now = Date.now()
+        if (now - lastSentRef.current < SEND_INTERVAL_MS) return
+        lastSentRef.current = now
+
+        const { latitude, longitude, accuracy, heading, speed } = position.coords
+        trackingService
+          .sendLocation(jobId, {
+            lat: latitude,
+            lng: longitude,
+            accuracy,
+            ...(heading !== null && !isNaN(heading) ? { heading } : {}),
+            ...(speed !== null ? { speed } : {}),
+          })
+          .then(() => setError(null))
+          .catch((err: Error) => setError(err.message || 'Failed to share location'))
+      },
+      (err) => {
+        setError(
+          err.code === err.PERMISSION_DENIED
+            ? 'Location permission denied. Please enable location access.'
+            : 'Location information unavailable.'
+        )
+      },
+      { enableHighAccuracy: true, maximumAge: 10000 }
+    )
+
+    return () => navigator.geolocation.clearWatch(watchId)
+  }, [jobId, enabled, supported])
+
+  return { error: supported ? error : 'Geolocation is not supported by your browser' }
+}
@@ -37,6 +37,7 @@ export const queryKeys = {
   profile: ['profile'] as const,
   profilePreferences: ['profile', 'preferences'] as const,
   profileSecurityLog: (limit?: number) => ['profile', 'security-log', limit] as const,
+  profileSessions: ['profile', 'sessions'] as const,
   
   // Jobs
   jobs: ['jobs'] as const,
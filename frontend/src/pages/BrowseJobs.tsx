@@ -9,6 +9,8 @@ import { useAuth } from '../contexts/AuthContext';
 import { useNearbyJobs } from '../hooks/useJobs';
 import { VirtualizedJobList } from '../components/VirtualizedJobList';
 import { LoadingSpinner } from '../components/LoadingSkeletons';
+import { SavedSearches } from '../components/SavedSearches';
+import type { JobCategory } from '../services/job.service';
 
 const CATEGORIES = [
   { value: '', label: 'All Categories' },
@@ -158,6 +160,15 @@ export default function BrowseJobs() {
         </div>
       </div>
 
+      {/* Saved Searches */}
+      {isAuthenticated && locationReady && (
+        <SavedSearches
+          location={{ lat: latitude, lng: longitude }}
+          radiusKm={radius}
+          category={category as JobCategory | ''}
+        />
+      )}
+
       {/* Error Message */}
       {error && (
         <div className="mb-6 rounded-md bg-red-50 p-4">
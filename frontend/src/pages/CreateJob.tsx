@@ -1,14 +1,19 @@
 /**
  * Create Job Page
- * Form for posting new jobs
+ * Form for posting new jobs, once or on a repeating schedule
  */
 
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { jobService, CreateJobInput } from '../services/job.service';
 import { authService } from '../services/auth.service';
-import LocationPicker from '../components/LocationPicker';
+import LocationPicker, { createStopDraft, type StopDraft } from '../components/LocationPicker';
 import CurrencyInput from '../components/CurrencyInput';
+import FeeBreakdown from '../components/FeeBreakdown';
+import { feeService, FeeQuote } from '../services/fee.service';
+import { jobTemplateService } from '../services/jobTemplate.service';
+import { buildRecurrenceRule, REPEAT_LABELS, type RepeatOption } from '../utils/recurrence';
+import { detectFediContext, getSavedFediCommunity } from '../utils/fediDetection';
 import toast from 'react-hot-toast';
 
 export default function CreateJob() {
@@ -28,11 +33,45 @@ export default function CreateJob() {
     title: '',
     description: '',
     category: 'delivery',
-    pickup_lat: 0,
-    pickup_lng: 0,
-    pickup_address: '',
     budget_max_usd: 10.00
   });
+  const [stops, setStops] = useState<StopDraft[]>(() => [createStopDraft('pickup')]);
+  const [fediCommunityId] = useState(() => detectFediContext().communityId || getSavedFediCommunity());
+  const [feeQuote, setFeeQuote] = useState<FeeQuote | null>(null);
+  const [feeLoading, setFeeLoading] = useState(false);
+  const [repeat, setRepeat] = useState<RepeatOption>('none');
+  const [firstAt, setFirstAt] = useState('');
+  const [preferPreviousRunner, setPreferPreviousRunner] = useState(true);
+
+  // Preview the platform fee as the price and category change
+  useEffect(() => {
+    const priceCents = Math.round(formData.budget_max_usd * 100);
+    if (priceCents <= 0) {
+      setFeeQuote(null);
+      return;
+    }
+
+    let cancelled = false;
+    setFeeLoading(true);
+    const timer = setTimeout(() => {
+      feeService
+        .previewFee({ priceCents, category: formData.category, fediCommunityId })
+        .then(quote => {
+          if (!cancelled) setFeeQuote(quote);
+        })
+        .catch(() => {
+          if (!cancelled) setFeeQuote(null);
+        })
+        .finally(() => {
+          if (!cancelled) setFeeLoading(false);
+        });
+    }, 400);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [formData.budget_max_usd, formData.category, fediCommunityId]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
@@ -65,15 +104,57 @@ export default function CreateJob() {
       if (formData.budget_max_usd <= 0) {
         throw new Error('Job price must be greater than 0');
       }
-      if (!formData.pickup_address) {
-        throw new Error('Job location is required');
+      if (stops.length === 0) {
+        throw new Error('Add at least one stop');
       }
-      if (formData.pickup_lat === 0 && formData.pickup_lng === 0) {
-        throw new Error('Please select a valid location');
+      stops.forEach((stop, index) => {
+        if (!stop.address.trim()) {
+          throw new Error(`Stop ${index + 1} needs an address`);
+        }
+        if (stop.lat === null || stop.lng === null) {
+          throw new Error(`Please locate stop ${index + 1} (search the address or use your location)`);
+        }
+      });
+
+      const jobStops = stops.map(stop => ({
+        kind: stop.kind,
+        lat: stop.lat!,
+        lng: stop.lng!,
+        address: stop.address.trim(),
+        instructions: stop.instructions.trim() || undefined,
+      }));
+
+      // Repeating errands are saved as a template and posted ahead of each date
+      if (repeat !== 'none') {
+        if (!firstAt) {
+          throw new Error('Choose when the first errand is due');
+        }
+        const first = new Date(firstAt);
+        await jobTemplateService.createTemplate({
+          title: formData.title,
+          description: formData.description,
+          priceCents: Math.round(formData.budget_max_usd * 100),
+          category: formData.category,
+          ...(fediCommunityId && { fediCommunityId }),
+          stops: jobStops,
+          rrule: buildRecurrenceRule(repeat, first)!,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+          startsAt: first.toISOString(),
+          preferPreviousRunner,
+        });
+        toast.success('Recurring errand scheduled!');
+        navigate('/my-jobs');
+        return;
       }
 
-      console.log('Submitting job:', formData); // Debug log
-      const job = await jobService.createJob(formData);
+      const payload: CreateJobInput = {
+        ...formData,
+        ...(fediCommunityId && { fediCommunityId }),
+        stops: jobStops,
+      };
+
+      console.log('Submitting job:', payload); // Debug log
+      const job = await jobService.createJob(payload);
       navigate(`/jobs/${job.id}`);
     } catch (err: any) {
       console.error('Job creation error:', err); // Debug log
@@ -158,20 +239,12 @@ export default function CreateJob() {
             />
           </div>
 
-          {/* Job Location */}
+          {/* Stops - pickup, dropoff and anything in between */}
           <div className="border-t border-gray-200 dark:border-gray-700 pt-6">
             <LocationPicker
-              onLocationSelect={(lat, lng, address) => {
-                setFormData(prev => ({
-                  ...prev,
-                  pickup_lat: lat,
-                  pickup_lng: lng,
-                  pickup_address: address || ''
-                }));
-              }}
-              initialLat={formData.pickup_lat}
-              initialLng={formData.pickup_lng}
-              label="Job Location"
+              stops={stops}
+              onStopsChange={setStops}
+              label="Stops"
               required
             />
           </div>
@@ -184,6 +257,57 @@ export default function CreateJob() {
               label="Job Price"
               required
             />
+            <div className="mt-4">
+              <FeeBreakdown quote={feeQuote} loading={feeLoading} estimate />
+            </div>
+          </div>
+
+          {/* Repeat - post the same errand on a schedule */}
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+            <div>
+              <label htmlFor="repeat" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Repeat
+              </label>
+              <select
+                id="repeat"
+                value={repeat}
+                onChange={e => setRepeat(e.target.value as RepeatOption)}
+                className="mt-1 block w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
+              >
+                {(Object.keys(REPEAT_LABELS) as RepeatOption[]).map(option => (
+                  <option key={option} value={option}>{REPEAT_LABELS[option]}</option>
+                ))}
+              </select>
+            </div>
+
+            {repeat !== 'none' && (
+              <>
+                <div>
+                  <label htmlFor="firstAt" className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                    First errand due
+                  </label>
+                  <input
+                    type="datetime-local"
+                    id="firstAt"
+                    required
+                    value={firstAt}
+                    onChange={e => setFirstAt(e.target.value)}
+                    className="mt-1 block w-full border border-gray-300 dark:border-gray-600 bg-white dark:bg-gray-700 text-gray-900 dark:text-white rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-indigo-500 focus:border-indigo-500 sm:text-sm transition-colors"
+                  />
+                  <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                    Each job is posted two days ahead. You can skip or change single dates under My Jobs.
+                  </p>
+                </div>
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={preferPreviousRunner}
+                    onChange={e => setPreferPreviousRunner(e.target.checked)}
+                  />
+                  Offer it to my previous runner first
+                </label>
+              </>
+            )}
           </div>
 
           {/* Error Message */}
@@ -207,7 +331,7 @@ export default function CreateJob() {
               disabled={loading}
               className="px-4 py-2 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
             >
-              {loading ? 'Creating...' : 'Post Job'}
+              {loading ? 'Creating...' : repeat === 'none' ? 'Post Job' : 'Schedule Errand'}
             </button>
           </div>
         </form>
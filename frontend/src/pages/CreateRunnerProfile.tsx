@@ -10,6 +10,7 @@ import { useAuth } from '../contexts/AuthContext';
 import { runnerService, CreateRunnerInput } from '../services/runner.service';
 import { TAG_OPTIONS, RUNNER_PROFILE_VALIDATION } from '../constants/runnerProfile';
 import { validateDisplayName, validateBio, validateHourlyRate, validateServiceRadius } from '../utils/validation';
+import { AvailabilityEditor, AvailabilityDraft, defaultAvailability, validateWorkingHours } from '../components/AvailabilityEditor';
 
 // TODO: Install react-hot-toast for better notifications
 const toast = {
@@ -35,6 +36,7 @@ export default function CreateRunnerProfile() {
     },
     available: true,
   });
+  const [availability, setAvailability] = useState<AvailabilityDraft>(defaultAvailability);
 
   useEffect(() => {
     // Request geolocation on mount
@@ -149,6 +151,13 @@ export default function CreateRunnerProfile() {
       return false;
     }
 
+    // Validate working hours
+    const hoursProblem = validateWorkingHours(availability.workingHours);
+    if (hoursProblem) {
+      toast.error(hoursProblem);
+      return false;
+    }
+
     return true;
   };
 
@@ -165,7 +174,8 @@ export default function CreateRunnerProfile() {
     setLoading(true);
 
     try {
-      await runnerService.createProfile(formData);
+      const profile = await runnerService.createProfile(formData);
+      await runnerService.updateAvailability(profile.id, availability);
       toast.success('Runner profile created successfully!');
       navigate('/profile');
     } catch (err: any) {
@@ -297,6 +307,15 @@ export default function CreateRunnerProfile() {
           {/* Location */}
           <LocationSection location={formData.location} onUpdateLocation={handleUpdateLocation} />
 
+          {/* Availability */}
+          <div className="border-t border-gray-200 pt-6">
+            <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-1">Availability</h3>
+            <p className="text-xs text-gray-500 mb-4">
+              When you take jobs and how many at once. You can add time off from your profile later.
+            </p>
+            <AvailabilityEditor value={availability} onChange={setAvailability} />
+          </div>
+
           {/* Submit Buttons */}
           <div className="flex justify-end space-x-3 pt-6 border-t border-gray-200">
             <button
@@ -1,18 +1,22 @@
 /**
  * Find Runners Page
- * Search for available runners
+ * Search for available runners; opened for one of the client's jobs
+ * (?jobId=) it first shows the runners ranked for that job
  */
 
 import { useState, useEffect } from 'react';
-import { useNavigate } from 'react-router-dom';
+import { useNavigate, useSearchParams } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
 import { runnerService, RunnerProfile } from '../services/runner.service';
 import { RunnerCardSkeleton } from '../components/LoadingSkeletons';
+import { SuggestedRunners } from '../components/SuggestedRunners';
 import toast from 'react-hot-toast';
 
 export default function FindRunnersPage() {
   const navigate = useNavigate();
   const { isAuthenticated } = useAuth();
+  const [searchParams] = useSearchParams();
+  const jobId = searchParams.get('jobId');
   
   const [runners, setRunners] = useState<RunnerProfile[]>([]);
   const [loading, setLoading] = useState(true);
@@ -20,6 +24,7 @@ export default function FindRunnersPage() {
   const [latitude, setLatitude] = useState(40.7128); // Default: NYC
   const [longitude, setLongitude] = useState(-74.0060);
   const [radius, setRadius] = useState(10);
+  const [availableOnly, setAvailableOnly] = useState(true);
 
   useEffect(() => {
     try {
@@ -50,13 +55,13 @@ export default function FindRunnersPage() {
 
   useEffect(() => {
     loadRunners();
-  }, [latitude, longitude, radius]);
+  }, [latitude, longitude, radius, availableOnly]);
 
   const loadRunners = async () => {
     setLoading(true);
 
     try {
-      const data = await runnerService.searchNearby(latitude, longitude, radius);
+      const data = await runnerService.searchNearby(latitude, longitude, radius, availableOnly);
       console.log('Runners data received:', data);
       
       // Ensure data is an array
@@ -101,6 +106,9 @@ export default function FindRunnersPage() {
         </div>
       </div>
 
+      {/* Runners ranked for the client's job */}
+      {jobId && <SuggestedRunners jobId={jobId} />}
+
       {/* Filters */}
       <div className="bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 mb-6 border border-gray-200 dark:border-gray-700">
         <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
@@ -121,6 +129,15 @@ export default function FindRunnersPage() {
               <option value="50">50 km</option>
               <option value="100">100 km</option>
             </select>
+            <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={availableOnly}
+                onChange={(e) => setAvailableOnly(e.target.checked)}
+                className="h-4 w-4 rounded border-gray-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Available now only
+            </label>
           </div>
 
           {/* Location Display */}
@@ -6,9 +6,33 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { jobService, Job } from '../services/job.service';
-import { reviewService, Review } from '../services/review.service';
+import { jobService, Job, JobEscrow, JobStatus, JobStopKind, DeliveryProofInput } from '../services/job.service';
 import { formatCentsAsUsd } from '../utils/currency';
+import { LightningPayment } from '../components/LightningPayment';
+import { JobOffers } from '../components/JobOffers';
+import { LiveRunnerLocation } from '../components/LiveRunnerLocation';
+import { DeliveryProofForm, DeliveryProofView, DeliveryCodePanel } from '../components/DeliveryProof';
+import { TipPanel } from '../components/TipPanel';
+import { JobReviews, ClientReputation } from '../components/JobReviews';
+
+const ESCROW_LABELS: Record<JobEscrow['status'], string> = {
+  pending: 'Waiting for client to fund',
+  held: 'Funds locked in escrow',
+  settled: 'Released to runner',
+  cancelled: 'Refunded to client'
+};
+
+const STOP_KIND_LABELS: Record<JobStopKind, string> = {
+  pickup: 'Pickup',
+  dropoff: 'Dropoff',
+  stop: 'Stop',
+};
+
+// Statuses after the runner has handed over the goods
+const PROOF_STATUSES: JobStatus[] = ['awaiting_payment', 'payment_confirmed', 'completed', 'disputed'];
+
+// How often to re-check an unfunded escrow invoice
+const ESCROW_POLL_INTERVAL_MS = 5000;
 
 const STATUS_COLORS: Record<string, string> = {
   open: 'bg-green-100 text-green-800',
@@ -39,11 +63,8 @@ export default function JobDetailPage() {
   const [success, setSuccess] = useState('');
   const [actionLoading, setActionLoading] = useState(false);
 
-  // Review state
-  const [showReviewForm, setShowReviewForm] = useState(false);
-  const [rating, setRating] = useState(5);
-  const [reviewComment, setReviewComment] = useState('');
-  const [existingReview, setExistingReview] = useState<Review | null>(null);
+  // Escrow state
+  const [escrow, setEscrow] = useState<JobEscrow | null>(null);
 
   useEffect(() => {
     /* AUTHENTICATION BYPASSED - Commented out for testing
@@ -67,16 +88,10 @@ export default function JobDetailPage() {
     try {
       const data = await jobService.getJobById(id);
       setJob(data);
-      
-      // Load existing review if payment is confirmed
-      if (data.status === 'payment_confirmed') {
-        try {
-          const review = await reviewService.getReviewByJobId(Number(id));
-          setExistingReview(review);
-        } catch (err) {
-          // No review yet, that's fine
-          console.log('No review found for job');
-        }
+
+      // Jobs are funded into escrow once a runner is assigned
+      if (data.status !== 'open') {
+        await loadEscrow();
       }
     } catch (err: any) {
       setError(err.response?.data?.error || 'Failed to load job');
@@ -85,34 +100,39 @@ export default function JobDetailPage() {
     }
   };
 
-  const handleAcceptJob = async () => {
-    if (!id) {
-      setError('Invalid job ID');
-      return;
+  const loadEscrow = async () => {
+    if (!id) return;
+
+    try {
+      setEscrow(await jobService.getEscrow(id));
+    } catch (err) {
+      // Jobs accepted before escrow was introduced have none
+      setEscrow(null);
     }
+  };
+
+  // Poll until the client's hold invoice payment is locked in
+  useEffect(() => {
+    if (escrow?.status !== 'pending') return;
+
+    const interval = setInterval(loadEscrow, ESCROW_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [escrow?.status, id]);
+
+  const handleConfirmDelivery = async () => {
+    if (!id) return;
 
     setActionLoading(true);
     setError('');
     setSuccess('');
 
     try {
-      console.log('Accepting job:', id);
-      const updatedJob = await jobService.assignJob(id);
-      console.log('Job accepted successfully:', updatedJob);
-      
-      // Update local state immediately
-      setJob(updatedJob);
-      setSuccess('Job accepted! You can now start working on it.');
-      
-      // Force reload from server to ensure we have latest data
-      setTimeout(async () => {
-        await loadJob();
-      }, 100);
+      const released = await jobService.confirmDelivery(id);
+      setEscrow(released);
+      setSuccess('Delivery confirmed! Payment has been released to the runner.');
+      await loadJob();
     } catch (err: any) {
-      console.error('Failed to accept job:', err);
-      const errorMsg = err.response?.data?.error || err.message || 'Failed to assign job';
-      setError(errorMsg);
-      alert(`Error accepting job: ${errorMsg}`); // Make error very visible
+      setError(err.response?.data?.error || err.message || 'Failed to confirm delivery');
     } finally {
       setActionLoading(false);
     }
@@ -138,70 +158,58 @@ export default function JobDetailPage() {
     }
   };
 
-  const handleCompleteJob = async () => {
-    if (!id) return;
+  const handleCompleteStop = async (stopId: number) => {
+    if (!id || !job) return;
 
     setActionLoading(true);
     setError('');
-    setSuccess('');
 
     try {
-      const updatedJob = await jobService.completeJob(id);
-      setJob(updatedJob);
-      setSuccess('Job marked as complete! Awaiting payment from client.');
-      // Reload to ensure fresh data
-      await loadJob();
+      const completed = await jobService.completeStop(id, stopId);
+      setJob({
+        ...job,
+        stops: job.stops?.map(stop => (stop.id === completed.id ? completed : stop)),
+      });
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to complete job');
+      setError(err.response?.data?.error || err.message || 'Failed to check off stop');
     } finally {
       setActionLoading(false);
     }
   };
 
-  const handleCancelJob = async () => {
+  const handleCompleteJob = async (proof: DeliveryProofInput) => {
     if (!id) return;
 
     setActionLoading(true);
     setError('');
+    setSuccess('');
 
     try {
-      const updatedJob = await jobService.cancelJob(id);
+      const updatedJob = await jobService.completeJob(id, proof);
       setJob(updatedJob);
+      setSuccess('Job marked as complete! Awaiting payment from client.');
       // Reload to ensure fresh data
       await loadJob();
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to cancel job');
+      setError(err.response?.data?.error || err.message || 'Failed to complete job');
     } finally {
       setActionLoading(false);
     }
   };
 
-  const handleSubmitReview = async () => {
-    if (!id || !rating) {
-      setError('Please select a rating');
-      return;
-    }
+  const handleCancelJob = async () => {
+    if (!id) return;
 
     setActionLoading(true);
     setError('');
-    setSuccess('');
 
     try {
-      await reviewService.submitReview({
-        jobId: Number(id),
-        rating,
-        comment: reviewComment
-      });
-
-      setSuccess('Review submitted! Thank you for your feedback.');
-      setShowReviewForm(false);
-      setRating(5);
-      setReviewComment('');
-      
-      // Reload job to show review was submitted
+      const updatedJob = await jobService.cancelJob(id);
+      setJob(updatedJob);
+      // Reload to ensure fresh data
       await loadJob();
     } catch (err: any) {
-      setError(err.response?.data?.error || 'Failed to submit review');
+      setError(err.response?.data?.error || 'Failed to cancel job');
     } finally {
       setActionLoading(false);
     }
@@ -241,6 +249,7 @@ export default function JobDetailPage() {
   
   const isClient = userId === job.clientId;
   const isRunner = userId === job.runnerId;
+  const pendingStops = job.stops?.filter(stop => !stop.completedAt).length ?? 0;
   const statusColor = STATUS_COLORS[job.status] || 'bg-gray-100 text-gray-800';
 
   return (
@@ -289,14 +298,59 @@ export default function JobDetailPage() {
           <p className="text-gray-700 dark:text-gray-300 whitespace-pre-wrap">{job.description}</p>
         </div>
 
-        {/* Locations */}
+        {/* Route - stops in visiting order */}
         <div className="p-6 border-b border-gray-200 dark:border-gray-700">
-          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Locations</h2>
-          
-          <div className="space-y-4">
-            {/* Job Location */}
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
+            {job.stops && job.stops.length > 1 ? `Route (${job.stops.length} stops)` : 'Location'}
+          </h2>
+
+          {job.stops && job.stops.length > 0 ? (
+            <ol className="space-y-4">
+              {job.stops.map(stop => (
+                <li key={stop.id} className="flex items-start gap-3">
+                  <span
+                    className={`flex-shrink-0 w-6 h-6 rounded-full text-xs font-medium flex items-center justify-center ${
+                      stop.completedAt ? 'bg-green-600 text-white' : 'bg-gray-200 dark:bg-gray-600 text-gray-700 dark:text-gray-200'
+                    }`}
+                  >
+                    {stop.completedAt ? '✓' : stop.position + 1}
+                  </span>
+                  <div className="flex-1 min-w-0">
+                    <h3 className="text-sm font-medium text-gray-900 dark:text-white">
+                      {STOP_KIND_LABELS[stop.kind]}
+                      {stop.completedAt && (
+                        <span className="ml-2 text-xs font-normal text-green-700 dark:text-green-400">
+                          Done {new Date(stop.completedAt).toLocaleTimeString()}
+                        </span>
+                      )}
+                    </h3>
+                    <p className="text-sm text-gray-600 dark:text-gray-400">{stop.address || 'No address provided'}</p>
+                    {stop.instructions && (
+                      <p className="text-sm text-gray-500 dark:text-gray-400 italic">{stop.instructions}</p>
+                    )}
+                    <a
+                      href={`https://www.google.com/maps?q=${stop.location.lat},${stop.location.lng}`}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-sm text-blue-600 hover:text-blue-500"
+                    >
+                      View on Google Maps
+                    </a>
+                  </div>
+                  {isRunner && job.status === 'in_progress' && !stop.completedAt && (
+                    <button
+                      onClick={() => handleCompleteStop(stop.id)}
+                      disabled={actionLoading}
+                      className="px-3 py-1.5 rounded-md text-sm font-medium text-white bg-green-600 hover:bg-green-700 disabled:opacity-50"
+                    >
+                      Mark done
+                    </button>
+                  )}
+                </li>
+              ))}
+            </ol>
+          ) : (
             <div>
-              <h3 className="text-sm font-medium text-gray-900 dark:text-white mb-2">Job Location</h3>
               <p className="text-sm text-gray-600 dark:text-gray-400">{job.address || 'No address provided'}</p>
               {job.location && job.location.lat && job.location.lng && (
                 <a
@@ -309,9 +363,35 @@ export default function JobDetailPage() {
                 </a>
               )}
             </div>
-          </div>
+          )}
         </div>
 
+        {/* Delivery code - client shares it with the recipient */}
+        {(job.status === 'accepted' || job.status === 'in_progress') && isClient && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Delivery Code</h2>
+            <DeliveryCodePanel jobId={job.id} />
+          </div>
+        )}
+
+        {/* Proof of delivery - reviewed before releasing payment */}
+        {PROOF_STATUSES.includes(job.status) && (isClient || isRunner) && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Proof of Delivery</h2>
+            <DeliveryProofView jobId={job.id} />
+          </div>
+        )}
+
+        {/* Client reputation - runners check it before taking the job */}
+        {!isClient && userId > 0 && (job.status === 'open' || job.status === 'accepted') && (
+          <ClientReputation clientId={job.clientId} />
+        )}
+
+        {/* Live runner location */}
+        {job.status === 'in_progress' && (isClient || isRunner) && (
+          <LiveRunnerLocation jobId={job.id} stops={job.stops ?? []} isClient={isClient} isRunner={isRunner} />
+        )}
+
         {/* Budget */}
         <div className="p-6 border-b border-gray-200 dark:border-gray-700">
           <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-2">Payment</h2>
@@ -320,9 +400,39 @@ export default function JobDetailPage() {
               <span className="text-sm text-gray-500 dark:text-gray-400">Price</span>
               <span className="text-sm font-medium text-indigo-600 dark:text-indigo-400">{formatCentsAsUsd(job.priceCents)}</span>
             </div>
+            {escrow && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-500 dark:text-gray-400">Escrow</span>
+                <span className="text-sm font-medium text-gray-900 dark:text-white">
+                  {escrow.amountSats.toLocaleString()} sats · {ESCROW_LABELS[escrow.status]}
+                </span>
+              </div>
+            )}
+            {escrow?.status === 'held' && escrow.releaseAfter && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Released automatically on {new Date(escrow.releaseAfter).toLocaleString()} unless the client confirms delivery first.
+              </p>
+            )}
           </div>
         </div>
 
+        {/* Escrow funding - client pays the hold invoice before work starts */}
+        {isClient && escrow?.status === 'pending' && (
+          <div className="p-6 border-b border-gray-200 dark:border-gray-700">
+            <LightningPayment
+              amount={escrow.amountSats}
+              invoice={escrow.paymentRequest}
+              description="Your payment is held in escrow and only released to the runner after you confirm delivery. Cancelling the job refunds it."
+              onPaymentError={() => loadEscrow()}
+            />
+          </div>
+        )}
+
+        {/* Tips - the client can tip the runner once payment is confirmed */}
+        {job.status === 'payment_confirmed' && (isClient || isRunner) && (
+          <TipPanel jobId={job.id} isClient={isClient} />
+        )}
+
         {/* Timestamps */}
         <div className="p-6 bg-gray-50 dark:bg-gray-700">
           <div className="grid grid-cols-2 gap-4 text-sm">
@@ -335,20 +445,44 @@ export default function JobDetailPage() {
               <span className="text-sm text-gray-500 dark:text-gray-400">Last Updated</span>
               <span className="text-sm text-gray-900 dark:text-white">{new Date(job.updatedAt).toLocaleDateString()}</span>
             </div>
+
+            {job.deadline && (
+              <div className="flex justify-between">
+                <span className="text-sm text-gray-500 dark:text-gray-400">Deadline</span>
+                <span className="text-sm text-gray-900 dark:text-white">
+                  {new Date(job.deadline).toLocaleString()}
+                  {job.status === 'in_progress' && new Date(job.deadline) < new Date() && (
+                    <span className="ml-2 font-medium text-red-600">Overdue</span>
+                  )}
+                </span>
+              </div>
+            )}
           </div>
         </div>
       </div>
 
+      {/* Offers - runners bid, the client picks one (either side can counter) */}
+      {job.status === 'open' && userId > 0 && (
+        <JobOffers
+          jobId={job.id}
+          askingPriceCents={job.priceCents}
+          isClient={isClient}
+          onAccepted={() => {
+            setSuccess('Offer accepted! The runner has been assigned.');
+            loadJob();
+          }}
+        />
+      )}
+
       {/* Actions */}
       <div className="mt-6 flex justify-end space-x-3">
-        {/* Open job - Runner can accept */}
-        {!isClient && job.status === 'open' && (
+        {/* Open job - Client can see the runners ranked for it */}
+        {isClient && job.status === 'open' && (
           <button
-            onClick={handleAcceptJob}
-            disabled={actionLoading}
-            className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50"
+            onClick={() => navigate(`/runners?jobId=${job.id}`)}
+            className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-base font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-800 hover:bg-gray-50 dark:hover:bg-gray-700"
           >
-            {actionLoading ? 'Accepting...' : 'Accept Job'}
+            Suggested Runners
           </button>
         )}
 
@@ -363,19 +497,19 @@ export default function JobDetailPage() {
           </button>
         )}
 
-        {/* In progress - Runner can complete */}
-        {job.status === 'in_progress' && isRunner && (
+        {/* Awaiting payment with funded escrow - Client confirms delivery */}
+        {job.status === 'awaiting_payment' && isClient && escrow?.status === 'held' && (
           <button
-            onClick={handleCompleteJob}
+            onClick={handleConfirmDelivery}
             disabled={actionLoading}
-            className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-purple-600 hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+            className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500 disabled:opacity-50"
           >
-            {actionLoading ? 'Completing...' : 'Mark as Complete'}
+            {actionLoading ? 'Releasing...' : 'Confirm Delivery & Release Payment'}
           </button>
         )}
 
         {/* Awaiting payment - Client can pay */}
-        {(job.status === 'awaiting_payment' || job.status === 'completed') && isClient && (
+        {(job.status === 'awaiting_payment' || job.status === 'completed') && isClient && !escrow && (
           <button
             onClick={() => navigate(`/jobs/${job.id}/pay`)}
             className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
@@ -384,16 +518,6 @@ export default function JobDetailPage() {
           </button>
         )}
 
-        {/* Payment confirmed - Client can leave review */}
-        {job.status === 'payment_confirmed' && isClient && !existingReview && !showReviewForm && (
-          <button
-            onClick={() => setShowReviewForm(true)}
-            className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-green-600 hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-green-500"
-          >
-            Leave Review
-          </button>
-        )}
-
         {/* Cancel button */}
         {(job.status === 'open' || job.status === 'accepted' || job.status === 'in_progress') && (isClient || isRunner) && (
           <button
@@ -406,105 +530,18 @@ export default function JobDetailPage() {
         )}
       </div>
 
-      {/* Review Form */}
-      {showReviewForm && (
-        <div className="mt-6 bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 transition-colors">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Rate Your Experience</h3>
-          
-          {/* Star Rating */}
-          <div className="mb-4">
-            <div className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Rating</div>
-            <div className="flex space-x-2">
-              {[1, 2, 3, 4, 5].map((star) => (
-                <button
-                  key={star}
-                  type="button"
-                  onClick={() => setRating(star)}
-                  className={`text-3xl transition-colors ${star <= rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'} hover:text-yellow-300`}
-                >
-                  ★
-                </button>
-              ))}
-            </div>
-            <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">
-              {rating === 1 && 'Poor'}
-              {rating === 2 && 'Fair'}
-              {rating === 3 && 'Good'}
-              {rating === 4 && 'Very Good'}
-              {rating === 5 && 'Excellent'}
-            </p>
-          </div>
-
-          {/* Comment */}
-          <div className="mb-4">
-            <label htmlFor="review-comment" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
-              Comment (optional)
-            </label>
-            <textarea
-              id="review-comment"
-              value={reviewComment}
-              onChange={(e) => setReviewComment(e.target.value)}
-              rows={4}
-              className="w-full border border-gray-300 dark:border-gray-600 rounded-md px-3 py-2 bg-white dark:bg-gray-700 text-gray-900 dark:text-white placeholder-gray-500 dark:placeholder-gray-400 focus:outline-none focus:ring-2 focus:ring-indigo-500 focus:border-transparent transition-colors"
-              placeholder="Share your experience with this runner..."
-            />
-          </div>
-
-          {/* Submit */}
-          <div className="flex space-x-3">
-            <button
-              onClick={handleSubmitReview}
-              disabled={actionLoading}
-              className="px-6 py-3 border border-transparent rounded-md shadow-sm text-base font-medium text-white bg-indigo-600 hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500"
-            >
-              {actionLoading ? 'Submitting...' : 'Submit Review'}
-            </button>
-            <button
-              onClick={() => {
-                setShowReviewForm(false);
-                setRating(5);
-                setReviewComment('');
-              }}
-              className="px-6 py-3 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm text-base font-medium text-gray-700 dark:text-gray-300 bg-white dark:bg-gray-700 hover:bg-gray-50 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 transition-colors"
-            >
-              Cancel
-            </button>
-          </div>
-        </div>
+      {/* In progress - Runner completes with proof of delivery */}
+      {job.status === 'in_progress' && isRunner && (
+        <DeliveryProofForm
+          submitting={actionLoading}
+          disabledReason={pendingStops > 0 ? 'Check off every stop first' : undefined}
+          onSubmit={handleCompleteJob}
+        />
       )}
 
-      {/* Display Existing Review */}
-      {existingReview && (
-        <div className="mt-6 bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg p-6 transition-colors">
-          <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Your Review</h3>
-          
-          {/* Rating Stars */}
-          <div className="flex items-center mb-3">
-            <div className="flex space-x-1">
-              {[1, 2, 3, 4, 5].map((star) => (
-                <span
-                  key={star}
-                  className={`text-2xl ${star <= existingReview.rating ? 'text-yellow-400' : 'text-gray-300 dark:text-gray-600'}`}
-                >
-                  ★
-                </span>
-              ))}
-            </div>
-            <span className="ml-3 text-sm text-gray-600 dark:text-gray-400">
-              {existingReview.rating}/5
-            </span>
-          </div>
-
-          {/* Comment */}
-          {existingReview.comment && (
-            <p className="text-gray-700 dark:text-gray-300 mb-3">{existingReview.comment}</p>
-          )}
-
-          {/* Timestamp */}
-          <p className="text-sm text-gray-500 dark:text-gray-400">
-            Submitted on {new Date(existingReview.createdAt).toLocaleDateString()}
-          </p>
-        </div>
+      {/* Reviews - both sides, hidden until both submit or the window closes */}
+      {(isClient || isRunner) && (
+        <JobReviews jobId={job.id} status={job.status} reviewerRole={isClient ? 'client' : 'runner'} />
       )}
     </div>
   );
@@ -1,6 +1,6 @@
 /**
  * My Jobs Page
- * Display user's posted jobs and accepted jobs
+ * Display user's posted jobs, accepted jobs, open negotiations and recurring errands
  */
 
 import { useState, useEffect } from 'react';
@@ -9,8 +9,12 @@ import { useAuth } from '../contexts/AuthContext';
 import { jobService, Job } from '../services/job.service';
 import JobCard from '../components/JobCard';
 import { JobCardSkeleton } from '../components/LoadingSkeletons';
+import { useMyOffers } from '../hooks/useOffers';
+import { useJobTemplates } from '../hooks/useJobTemplates';
+import RecurringErrands from '../components/RecurringErrands';
+import { formatCentsAsUsd } from '../utils/currency';
 
-type TabType = 'posted' | 'assigned' | 'all';
+type TabType = 'posted' | 'assigned' | 'all' | 'offers' | 'recurring';
 
 export default function MyJobsPage() {
   const navigate = useNavigate();
@@ -20,6 +24,8 @@ export default function MyJobsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState('');
   const [activeTab, setActiveTab] = useState<TabType>('all');
+  const { data: offers = [], isLoading: offersLoading } = useMyOffers();
+  const { data: templates = [] } = useJobTemplates();
 
   useEffect(() => {
     /* AUTHENTICATION BYPASSED - Commented out for testing`n
@@ -48,6 +54,9 @@ export default function MyJobsPage() {
 
   const userId = Number(user?.id);
   
+  // The offers and recurring tabs have their own lists
+  const showsJobs = activeTab !== 'offers' && activeTab !== 'recurring';
+
   const filteredJobs = jobs.filter(job => {
     if (activeTab === 'all') return true;
     if (activeTab === 'posted') return job.clientId === userId;
@@ -57,6 +66,9 @@ export default function MyJobsPage() {
 
   const postedCount = jobs.filter(j => j.clientId === userId).length;
   const assignedCount = jobs.filter(j => j.runnerId === userId).length;
+  // Negotiations still waiting on the current user
+  const replyNeededCount = offers.filter(o => o.awaitingReplyFrom === o.role).length;
+  const activeTemplateCount = templates.filter(t => t.status !== 'ended').length;
 
   const stats = {
     total: jobs.length,
@@ -207,6 +219,38 @@ export default function MyJobsPage() {
               {assignedCount}
             </span>
           </button>
+
+          <button
+            onClick={() => setActiveTab('offers')}
+            className={`${
+              activeTab === 'offers'
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300'
+            } whitespace-nowrap py-3 sm:py-4 px-1 border-b-2 font-medium text-xs sm:text-sm`}
+          >
+            Offers
+            <span className={`ml-2 py-0.5 px-2.5 rounded-full text-xs font-medium ${
+              replyNeededCount > 0
+                ? 'bg-yellow-100 text-yellow-800'
+                : 'bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100'
+            }`}>
+              {replyNeededCount > 0 ? replyNeededCount : offers.length}
+            </span>
+          </button>
+
+          <button
+            onClick={() => setActiveTab('recurring')}
+            className={`${
+              activeTab === 'recurring'
+                ? 'border-indigo-500 text-indigo-600 dark:text-indigo-400'
+                : 'border-transparent text-gray-500 dark:text-gray-400 hover:text-gray-700 dark:hover:text-gray-300 hover:border-gray-300'
+            } whitespace-nowrap py-3 sm:py-4 px-1 border-b-2 font-medium text-xs sm:text-sm`}
+          >
+            Recurring
+            <span className="ml-2 py-0.5 px-2.5 rounded-full text-xs font-medium bg-gray-100 dark:bg-gray-700 text-gray-900 dark:text-gray-100">
+              {activeTemplateCount}
+            </span>
+          </button>
         </nav>
         </div>
       </div>
@@ -218,8 +262,52 @@ export default function MyJobsPage() {
         </div>
       )}
 
+      {/* Offers - latest proposal of each negotiation */}
+      {activeTab === 'offers' && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+          {offersLoading && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">Loading offers...</p>
+          )}
+          {!offersLoading && offers.length === 0 && (
+            <p className="p-6 text-sm text-gray-500 dark:text-gray-400">
+              No offers yet. Make one from an open job's page.
+            </p>
+          )}
+          {offers.map(offer => (
+            <button
+              key={offer.id}
+              onClick={() => navigate(`/jobs/${offer.jobId}`)}
+              className="w-full text-left p-4 sm:p-6 hover:bg-gray-50 dark:hover:bg-gray-700 flex items-center justify-between"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 dark:text-white truncate">{offer.jobTitle}</p>
+                <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+                  {offer.role === 'client' ? 'On your job' : 'Your bid'} · {offer.proposedBy === offer.role ? 'You' : offer.role === 'client' ? 'Runner' : 'Client'}
+                  {offer.parentId !== null ? ' countered with ' : ' offered '}
+                  {formatCentsAsUsd(offer.priceCents)}
+                </p>
+              </div>
+              <span className={`ml-3 px-2.5 py-0.5 rounded-full text-xs font-medium whitespace-nowrap ${
+                offer.awaitingReplyFrom === offer.role
+                  ? 'bg-yellow-100 text-yellow-800'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300'
+              }`}>
+                {offer.awaitingReplyFrom === offer.role
+                  ? 'Reply needed'
+                  : offer.awaitingReplyFrom
+                    ? 'Awaiting reply'
+                    : offer.status}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Recurring errands - pause, skip or edit occurrences */}
+      {activeTab === 'recurring' && <RecurringErrands />}
+
       {/* Loading State with Skeletons */}
-      {loading && (
+      {showsJobs && loading && (
         <div className="grid grid-cols-1 gap-4 sm:gap-6 sm:grid-cols-2 lg:grid-cols-3">
           {[...Array(6)].map((_, i) => (
             <JobCardSkeleton key={i} />
@@ -228,7 +316,7 @@ export default function MyJobsPage() {
       )}
 
       {/* Empty State */}
-      {!loading && filteredJobs.length === 0 && (
+      {showsJobs && !loading && filteredJobs.length === 0 && (
         <div className="text-center py-12 bg-white dark:bg-gray-800 rounded-lg shadow">
           <svg
             className="mx-auto h-12 w-12 text-gray-400 dark:text-gray-500"
@@ -261,7 +349,7 @@ export default function MyJobsPage() {
       )}
 
       {/* Jobs Grid */}
-      {!loading && filteredJobs.length > 0 && (
+      {showsJobs && !loading && filteredJobs.length > 0 && (
         <div className="grid grid-cols-1 gap-4 sm:gap-6 sm:grid-cols-2 lg:grid-cols-3">
           {filteredJobs.map(job => (
             <JobCard key={job.id} job={job} />
@@ -12,6 +12,8 @@ import { WalletConnection } from '../components/WalletConnection';
 import { LightningPayment } from '../components/LightningPayment';
 import { formatCentsAsUsd } from '../utils/currency';
 import UniversalPayment from '../components/UniversalPayment';
+import FeeBreakdown from '../components/FeeBreakdown';
+import { feeService, FeeQuote } from '../services/fee.service';
 import axios from 'axios';
 import toast from 'react-hot-toast';
 
@@ -24,6 +26,7 @@ export default function PaymentPage() {
   const { isEnabled: isWalletConnected, sendPayment } = useWebLN();
   
   const [job, setJob] = useState<Job | null>(null);
+  const [feeQuote, setFeeQuote] = useState<FeeQuote | null>(null);
   const [invoice, setInvoice] = useState<any | null>(null);
   const [loading, setLoading] = useState(true);
   const [creating, setCreating] = useState(false);
@@ -58,6 +61,9 @@ export default function PaymentPage() {
       const data = await jobService.getJobById(id);
       setJob(data);
 
+      // The fee is informational; payment goes ahead without it
+      feeService.getJobFee(id).then(setFeeQuote).catch(() => setFeeQuote(null));
+
       // Check if job is in correct status
       if (data.status !== 'completed' && data.status !== 'awaiting_payment') {
         setError('Job must be completed before payment');
@@ -248,6 +254,8 @@ export default function PaymentPage() {
               </span>
             </div>
             
+            <FeeBreakdown quote={feeQuote} />
+
             {invoice && (
               <div className="flex justify-between">
                 <span className="text-gray-600 dark:text-gray-400">Amount (sats):</span>
@@ -14,6 +14,9 @@ import {
   useUpdatePreferences,
   useSecurityLog,
 } from '../hooks/useProfile';
+import { useMyRunnerProfile } from '../hooks/useRunners';
+import { RunnerAvailabilitySettings } from '../components/AvailabilityEditor';
+import { ActiveSessions } from '../components/ActiveSessions';
 
 interface ProfileData {
   displayName?: string;
@@ -83,10 +86,11 @@ export default function ProfileEditPage() {
   const updateProfileMutation = useUpdateProfile();
   const changePasswordMutation = useChangePassword();
   const updatePreferencesMutation = useUpdatePreferences();
+  const { data: runnerProfile } = useMyRunnerProfile({ enabled: isAuthenticated, retry: false });
 
   // UI state
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'profile' | 'preferences' | 'security'>('profile');
+  const [activeTab, setActiveTab] = useState<'profile' | 'availability' | 'preferences' | 'security'>('profile');
 
   // Load profile data from auth context
   const loadProfile = useCallback(async () => {
@@ -235,6 +239,18 @@ export default function ProfileEditPage() {
           >
             Profile & Lightning
           </button>
+          {runnerProfile?.id && (
+            <button
+              onClick={() => setActiveTab('availability')}
+              className={`${
+                activeTab === 'availability'
+                  ? 'border-indigo-500 text-indigo-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              } whitespace-nowrap py-4 px-1 border-b-2 font-medium text-sm`}
+            >
+              Availability
+            </button>
+          )}
           <button
             onClick={() => setActiveTab('preferences')}
             className={`${
@@ -428,6 +444,23 @@ export default function ProfileEditPage() {
         </form>
       )}
 
+      {/* Availability Tab (runners only) */}
+      {activeTab === 'availability' && runnerProfile?.id && (
+        <div className="bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg transition-colors">
+          <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700">
+            <h3 className="text-lg leading-6 font-medium text-gray-900 dark:text-white">
+              Runner Availability
+            </h3>
+            <p className="mt-1 text-sm text-gray-500 dark:text-gray-400">
+              Clients and job matching only reach you when you are taking jobs, within your hours and below your job limit
+            </p>
+          </div>
+          <div className="px-6 py-5">
+            <RunnerAvailabilitySettings profileId={runnerProfile.id} />
+          </div>
+        </div>
+      )}
+
       {/* Preferences Tab */}
       {activeTab === 'preferences' && (
         <form onSubmit={handlePreferencesUpdate} className="space-y-6">
@@ -638,6 +671,9 @@ export default function ProfileEditPage() {
             </div>
           </form>
 
+          {/* Active Sessions */}
+          <ActiveSessions />
+
           {/* Security Log */}
           <div className="bg-white dark:bg-gray-800 shadow-lg dark:shadow-gray-900/50 rounded-lg transition-colors">
             <div className="px-6 py-5 border-b border-gray-200 dark:border-gray-700 flex items-center justify-between">
@@ -6,7 +6,8 @@
 import { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { runnerService, RunnerProfile } from '../services/runner.service';
-import { reviewService, Review, RunnerRatingStats } from '../services/review.service';
+import { reviewService, Review, RunnerRatingStats, SubRatings } from '../services/review.service';
+import { SUB_RATING_LABELS } from '../components/JobReviews';
 import toast from 'react-hot-toast';
 
 export default function RunnerDetailPage() {
@@ -179,6 +180,23 @@ export default function RunnerDetailPage() {
         </div>
       </div>
 
+      {/* Sub-ratings */}
+      {stats?.subRatings && Object.values(stats.subRatings).some((average) => average !== null) && (
+        <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
+          <h2 className="text-lg font-medium text-gray-900 dark:text-white mb-4">Ratings in Detail</h2>
+          <div className="grid grid-cols-3 gap-4">
+            {(Object.keys(SUB_RATING_LABELS) as (keyof SubRatings)[]).map((key) => (
+              <div key={key} className="text-center">
+                <div className="text-2xl font-bold text-gray-900 dark:text-white">
+                  {stats.subRatings[key] !== null ? stats.subRatings[key]!.toFixed(1) : 'N/A'}
+                </div>
+                <div className="text-sm text-gray-500 dark:text-gray-400">{SUB_RATING_LABELS[key]}</div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Rating Distribution */}
       {stats && stats.totalReviews > 0 && (
         <div className="bg-white dark:bg-gray-800 shadow rounded-lg p-6 mb-6">
@@ -265,6 +283,14 @@ export default function RunnerDetailPage() {
                   <p className="text-gray-700 dark:text-gray-300 mb-2">{review.comment}</p>
                 )}
 
+                {/* Runner's reply */}
+                {review.reply && (
+                  <div className="mb-2 border-l-4 border-indigo-200 dark:border-indigo-700 pl-4">
+                    <p className="text-sm font-medium text-gray-900 dark:text-white">Runner's reply</p>
+                    <p className="text-gray-700 dark:text-gray-300">{review.reply.comment}</p>
+                  </div>
+                )}
+
                 {/* Date & Reviewer */}
                 <div className="flex items-center justify-between text-sm text-gray-500 dark:text-gray-400">
                   <span>
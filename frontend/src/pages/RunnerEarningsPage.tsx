@@ -24,7 +24,8 @@ import {
   XCircle,
   RefreshCw,
   Calendar,
-  Award
+  Award,
+  Heart
 } from 'lucide-react';
 
 interface EarningsSummary {
@@ -32,24 +33,30 @@ interface EarningsSummary {
   totalEarnedCents: number;
   totalEarnedSats: number;
   pendingCents: number;
+  totalTips: number;
+  totalTipsCents: number;
+  totalTipsSats: number;
 }
 
 interface PayoutHistoryItem {
   id: number;
   jobId: number;
   jobTitle: string;
+  kind: 'job' | 'tip'; // Tips are passed on in full, with no platform fee
   amountCents: number;
   amountSats: number;
   platformFeeCents: number;
   netAmountCents: number;
   netAmountSats: number;
-  status: 'pending' | 'processing' | 'completed' | 'failed';
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'dead';
   payoutMethod: string;
   lightningAddress: string | null;
   paymentHash: string | null;
   createdAt: string;
   completedAt: string | null;
   errorMessage: string | null;
+  retryCount: number;
+  nextAttemptAt: string | null;
 }
 
 type TimePeriod = 'all' | 'today' | 'week' | 'month';
@@ -85,7 +92,7 @@ export default function RunnerEarningsPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['earnings'] });
-      toast.success('Payout retry initiated');
+      toast.success('Payout queued for retry');
     },
     onError: (error: any) => {
       toast.error(error.response?.data?.error || 'Failed to retry payout');
@@ -111,21 +118,26 @@ export default function RunnerEarningsPage() {
     return true;
   }) || [];
 
-  // Calculate period stats
+  // Calculate period stats, keeping tips apart from job earnings
   const periodStats = filteredHistory.reduce(
-    (acc: { earned: number; earnedSats: number; pending: number; completed: number; failed: number }, item: PayoutHistoryItem) => {
-      if (item.status === 'completed') {
+    (acc: { earned: number; earnedSats: number; tips: number; pending: number; completed: number; failed: number }, item: PayoutHistoryItem) => {
+      if (item.kind === 'tip') {
+        if (item.status === 'completed') {
+          acc.tips += item.netAmountCents;
+        }
+      } else if (item.status === 'completed') {
         acc.earned += item.netAmountCents;
         acc.earnedSats += item.netAmountSats;
         acc.completed++;
       } else if (item.status === 'pending') {
         acc.pending += item.netAmountCents;
-      } else if (item.status === 'failed') {
+      }
+      if (item.status === 'failed' || item.status === 'dead') {
         acc.failed++;
       }
       return acc;
     },
-    { earned: 0, earnedSats: 0, pending: 0, completed: 0, failed: 0 }
+    { earned: 0, earnedSats: 0, tips: 0, pending: 0, completed: 0, failed: 0 }
   );
 
   const formatCurrency = (cents: number) => {
@@ -141,6 +153,7 @@ export default function RunnerEarningsPage() {
       case 'processing':
         return <RefreshCw className="w-5 h-5 text-blue-500 animate-spin" />;
       case 'failed':
+      case 'dead':
         return <XCircle className="w-5 h-5 text-red-500" />;
       default:
         return null;
@@ -157,6 +170,7 @@ export default function RunnerEarningsPage() {
       case 'processing':
         return `${baseClasses} bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400`;
       case 'failed':
+      case 'dead':
         return `${baseClasses} bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400`;
       default:
         return baseClasses;
@@ -250,22 +264,23 @@ export default function RunnerEarningsPage() {
             </p>
           </div>
 
-          {/* Lightning */}
+          {/* Tips */}
           <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
             <div className="flex items-center justify-between mb-4">
-              <div className="p-3 bg-purple-100 dark:bg-purple-900/30 rounded-lg">
-                <Zap className="w-6 h-6 text-purple-600 dark:text-purple-400" />
+              <div className="p-3 bg-pink-100 dark:bg-pink-900/30 rounded-lg">
+                <Heart className="w-6 h-6 text-pink-600 dark:text-pink-400" />
               </div>
             </div>
             <h3 className="text-gray-600 dark:text-gray-400 text-sm font-medium mb-1">
-              Lightning Network
+              Tips
             </h3>
             <p className="text-2xl font-bold text-gray-900 dark:text-white">
-              Instant
-            </p>
-            <p className="text-sm text-gray-500 dark:text-gray-500 mt-1">
-              Fast payouts
+              {formatCurrency(summary?.totalTipsCents || 0)}
             </p>
+            <div className="flex items-center text-sm text-gray-500 dark:text-gray-400 mt-1">
+              <Zap className="w-3 h-3 mr-1" />
+              {(summary?.totalTipsSats || 0).toLocaleString()} sats from {summary?.totalTips || 0} tips
+            </div>
           </div>
         </div>
 
@@ -292,13 +307,19 @@ export default function RunnerEarningsPage() {
           </div>
 
           {/* Period Stats */}
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mt-4 pt-4 border-t border-gray-200 dark:border-gray-700">
             <div>
               <p className="text-xs text-gray-500 dark:text-gray-400">Earned</p>
               <p className="text-lg font-bold text-gray-900 dark:text-white">
                 {formatCurrency(periodStats.earned)}
               </p>
             </div>
+            <div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">Tips</p>
+              <p className="text-lg font-bold text-pink-600 dark:text-pink-400">
+                {formatCurrency(periodStats.tips)}
+              </p>
+            </div>
             <div>
               <p className="text-xs text-gray-500 dark:text-gray-400">Completed</p>
               <p className="text-lg font-bold text-green-600 dark:text-green-400">
@@ -378,7 +399,14 @@ export default function RunnerEarningsPage() {
                           {format(new Date(item.createdAt), 'MMM d, yyyy')}
                         </td>
                         <td className="px-6 py-4 text-sm text-gray-900 dark:text-white">
-                          <div className="font-medium">{item.jobTitle}</div>
+                          <div className="font-medium flex items-center gap-2">
+                            {item.jobTitle}
+                            {item.kind === 'tip' && (
+                              <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-pink-100 text-pink-800 dark:bg-pink-900/30 dark:text-pink-400">
+                                Tip
+                              </span>
+                            )}
+                          </div>
                           <div className="text-xs text-gray-500 dark:text-gray-400">
                             Job #{item.jobId}
                           </div>
@@ -405,7 +433,7 @@ export default function RunnerEarningsPage() {
                           </div>
                         </td>
                         <td className="px-6 py-4 whitespace-nowrap text-sm">
-                          {item.status === 'failed' && (
+                          {(item.status === 'failed' || item.status === 'dead') && (
                             <button
                               onClick={(e) => {
                                 e.stopPropagation();
@@ -476,6 +504,20 @@ export default function RunnerEarningsPage() {
                                   </div>
                                 </div>
                               )}
+                              {item.status === 'failed' && item.nextAttemptAt && (
+                                <div className="flex items-start gap-2">
+                                  <RefreshCw className="w-4 h-4 text-blue-500 mt-0.5" />
+                                  <div>
+                                    <span className="font-medium text-gray-700 dark:text-gray-300">
+                                      Next attempt:
+                                    </span>
+                                    <span className="ml-2 text-gray-600 dark:text-gray-400">
+                                      {format(new Date(item.nextAttemptAt), 'MMM d, yyyy HH:mm:ss')}
+                                      {' '}(attempt {item.retryCount + 1})
+                                    </span>
+                                  </div>
+                                </div>
+                              )}
                             </div>
                           </td>
                         </tr>
@@ -6,13 +6,16 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
+import { FEATURE_FLAGS } from '../config/app.config';
+import { LnurlLogin } from '../components/LnurlLogin';
 
 export default function SimpleLogin() {
   const navigate = useNavigate();
-  const { login, register, isAuthenticated } = useAuth();
+  const { login, register, loginWithNostr, isAuthenticated } = useAuth();
   const [mode, setMode] = useState<'login' | 'register'>('login');
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
+  const [showLnurl, setShowLnurl] = useState(false);
   
   const [formData, setFormData] = useState({
     username: 'testuser',
@@ -55,6 +58,21 @@ export default function SimpleLogin() {
     }
   };
 
+  const handleNostrLogin = async () => {
+    setError('');
+    setLoading(true);
+
+    try {
+      await loginWithNostr();
+      navigate('/');
+    } catch (err: any) {
+      const errorMessage = err.response?.data?.error?.message || err.response?.data?.message || err.message || 'Nostr sign-in failed';
+      setError(errorMessage);
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-50 dark:bg-gray-900 py-12 px-4 sm:px-6 lg:px-8 transition-colors">
       <div className="max-w-md w-full space-y-8">
@@ -142,6 +160,39 @@ export default function SimpleLogin() {
             </button>
           </div>
 
+          {FEATURE_FLAGS.ENABLE_NOSTR_AUTH && (
+            <div>
+              <button
+                type="button"
+                onClick={handleNostrLogin}
+                disabled={loading}
+                className="w-full flex justify-center py-2 px-4 border border-purple-600 text-sm font-medium rounded-md text-purple-700 dark:text-purple-300 bg-white dark:bg-gray-800 hover:bg-purple-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-purple-500 disabled:opacity-50"
+              >
+                Sign in with Nostr
+              </button>
+              <p className="mt-1 text-center text-xs text-gray-500">
+                Uses your Nostr extension (Alby, nos2x) or Fedi
+              </p>
+            </div>
+          )}
+
+          {FEATURE_FLAGS.ENABLE_LNURL_AUTH && (
+            <div>
+              <button
+                type="button"
+                onClick={() => setShowLnurl(!showLnurl)}
+                className="w-full flex justify-center py-2 px-4 border border-yellow-500 text-sm font-medium rounded-md text-yellow-700 dark:text-yellow-300 bg-white dark:bg-gray-800 hover:bg-yellow-50 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-yellow-500"
+              >
+                {showLnurl ? 'Hide Lightning login' : 'Sign in with Lightning'}
+              </button>
+              {showLnurl && (
+                <div className="mt-4">
+                  <LnurlLogin onSuccess={() => navigate('/')} />
+                </div>
+              )}
+            </div>
+          )}
+
           {mode === 'login' && (
             <div className="text-center">
               <p className="text-xs text-gray-500">
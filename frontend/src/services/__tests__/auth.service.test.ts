@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { authService } from '../auth.service';
+import { httpClient } from '../http.client';
+import { STORAGE_KEYS } from '../../config/app.config';
+
+const user = { id: 1, username: 'alice', display_name: 'Alice' };
+
+/**
+ * Local storage that keeps what is written, unlike the global test mock
+ */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+    removeItem: (key: string) => void items.delete(key),
+    clear: () => items.clear(),
+  };
+};
+
+/**
+ * Write to local storage the way another tab would, and announce it here
+ */
+const writeFromOtherTab = (key: string, value: string | null) => {
+  if (value === null) {
+    localStorage.removeItem(key);
+  } else {
+    localStorage.setItem(key, value);
+  }
+  window.dispatchEvent(new StorageEvent('storage', { key, newValue: value }));
+};
+
+describe('AuthService across tabs', () => {
+  beforeEach(() => {
+    vi.restoreAllMocks();
+    vi.stubGlobal('localStorage', memoryStorage());
+    localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, 'token-1');
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, 'refresh-1');
+    localStorage.setItem(STORAGE_KEYS.AUTH_USER, JSON.stringify(user));
+    window.dispatchEvent(new StorageEvent('storage', { key: null }));
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should swap the stored refresh token', async () => {
+    const post = vi.spyOn(httpClient, 'post').mockResolvedValue({ token: 'token-2', refreshToken: 'refresh-2' });
+
+    await expect(authService.refreshSession()).resolves.toBe('token-2');
+
+    expect(post).toHaveBeenCalledWith('/auth/session/refresh', { refreshToken: 'refresh-1' }, { skipAuthRefresh: true });
+    expect(localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN)).toBe('refresh-2');
+  });
+
+  it('should pick up tokens another tab already refreshed instead of reusing the old refresh token', async () => {
+    const post = vi.spyOn(httpClient, 'post');
+    // The other tab's storage event has not arrived yet
+    localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, 'token-2');
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, 'refresh-2');
+
+    await expect(authService.refreshSession()).resolves.toBe('token-2');
+
+    expect(post).not.toHaveBeenCalled();
+    expect(httpClient.getAuthToken()).toBe('token-2');
+  });
+
+  it('should follow token refreshes made in another tab', () => {
+    writeFromOtherTab(STORAGE_KEYS.AUTH_TOKEN, 'token-2');
+
+    expect(authService.getToken()).toBe('token-2');
+    expect(httpClient.getAuthToken()).toBe('token-2');
+  });
+
+  it('should sign out when another tab logs out', () => {
+    const post = vi.spyOn(httpClient, 'post');
+    const loggedOut = vi.fn();
+    window.addEventListener('auth:logout', loggedOut);
+
+    writeFromOtherTab(STORAGE_KEYS.AUTH_TOKEN, null);
+    writeFromOtherTab(STORAGE_KEYS.REFRESH_TOKEN, null);
+    writeFromOtherTab(STORAGE_KEYS.AUTH_USER, null);
+
+    expect(authService.isAuthenticated()).toBe(false);
+    expect(authService.getUser()).toBeNull();
+    expect(loggedOut).toHaveBeenCalledTimes(1);
+    expect(post).not.toHaveBeenCalled();
+    window.removeEventListener('auth:logout', loggedOut);
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { HttpClient } from '../http.client';
+
+/**
+ * Adapter answering 401 until the request carries the given token
+ */
+const adapterAccepting = (token: string) =>
+  vi.fn(async (config: InternalAxiosRequestConfig): Promise<AxiosResponse> => {
+    const response = { data: {}, status: 200, statusText: 'OK', headers: {}, config };
+
+    if (config.headers.Authorization !== `Bearer ${token}`) {
+      throw new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', config, null, { ...response, status: 401 });
+    }
+
+    return { ...response, data: { success: true, data: { ok: true } } };
+  });
+
+describe('HttpClient token refresh', () => {
+  it('should refresh once for concurrent 401s and retry with the new token', async () => {
+    const client = new HttpClient('http://api.test');
+    client.setAuthToken('expired');
+    const refresher = vi.fn(async () => 'fresh');
+    client.setTokenRefresher(refresher);
+    const adapter = adapterAccepting('fresh');
+
+    const results = await Promise.all([client.get('/a', { adapter }), client.get('/b', { adapter })]);
+
+    expect(results).toEqual([{ ok: true }, { ok: true }]);
+    expect(refresher).toHaveBeenCalledTimes(1);
+    expect(client.getAuthToken()).toBe('fresh');
+  });
+
+  it('should give up and report the 401 when the session cannot be renewed', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    const unauthorized = vi.fn();
+    window.addEventListener('auth:unauthorized', unauthorized);
+
+    const client = new HttpClient('http://api.test');
+    client.setAuthToken('expired');
+    client.setTokenRefresher(async () => {
+      throw new Error('Refresh token reused');
+    });
+    const adapter = adapterAccepting('fresh');
+
+    await expect(client.get('/a', { adapter })).rejects.toMatchObject({ statusCode: 401 });
+    await expect(client.get('/a', { adapter, skipAuthRefresh: true })).rejects.toMatchObject({ statusCode: 401 });
+
+    expect(adapter).toHaveBeenCalledTimes(2);
+    expect(unauthorized).toHaveBeenCalled();
+    window.removeEventListener('auth:unauthorized', unauthorized);
+  });
+});
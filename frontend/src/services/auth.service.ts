@@ -2,13 +2,17 @@
  * Authentication Service
  * 
  * Manages user authentication including registration, login, OTP verification,
- * and profile management. Supports both username/password and phone-based OTP authentication.
+ * and profile management. Supports username/password, phone-based OTP, Nostr
+ * (NIP-07) and Lightning wallet (LNURL-auth) authentication. Access tokens are
+ * short-lived and renewed with a rotating refresh token, shared by all tabs
+ * through local storage.
  * 
  * @module services/auth
  */
 
 import { httpClient } from './http.client';
 import { STORAGE_KEYS } from '../config/app.config';
+import { signLoginChallenge } from '../utils/nostr';
 
 export interface OTPResponse {
   success: boolean;
@@ -19,6 +23,7 @@ export interface OTPResponse {
 export interface VerifyResponse {
   success: boolean;
   token: string;
+  refreshToken?: string;
   user: {
     id: string | number;
     phone?: string;
@@ -69,13 +74,37 @@ function normalizeUser(user: any): User {
   };
 }
 
+export interface LnurlChallenge {
+  k1: string;
+  lnurl: string;
+  expiresAt: string;
+}
+
+type LnurlLoginStatus =
+  | { status: 'pending' }
+  | { status: 'complete'; token: string; refreshToken: string; user: User };
+
+/** Storage keys whose changes in another tab are mirrored into this one (null: storage cleared) */
+const SYNCED_STORAGE_KEYS: ReadonlyArray<string | null> = [
+  null,
+  'token',
+  STORAGE_KEYS.AUTH_TOKEN,
+  STORAGE_KEYS.REFRESH_TOKEN,
+  STORAGE_KEYS.AUTH_USER,
+];
+
+/** Web Lock held while the refresh token is swapped, so tabs never spend it twice */
+const REFRESH_LOCK = 'errandbit-auth-refresh';
+
 export interface AuthResponse {
   success: boolean;
   message: string;
   token?: string;
+  refreshToken?: string;
   user?: User;
   data?: {
     token: string;
+    refreshToken?: string;
     user: User;
   };
 }
@@ -88,11 +117,14 @@ export interface AuthResponse {
  */
 class AuthService {
   private token: string | null = null;
+  private refreshToken: string | null = null;
   private user: User | null = null;
 
   constructor() {
     this.loadFromStorage();
     this.setupAuthListener();
+    this.setupStorageListener();
+    httpClient.setTokenRefresher(() => this.refreshSession());
   }
 
   /**
@@ -100,10 +132,10 @@ class AuthService {
    */
   private loadFromStorage(): void {
     this.token = localStorage.getItem(STORAGE_KEYS.AUTH_TOKEN) || localStorage.getItem('token');
-    
-    if (this.token) {
-      httpClient.setAuthToken(this.token);
-    }
+    httpClient.setAuthToken(this.token);
+
+    this.refreshToken = localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+    this.user = null;
 
     const storedUser = localStorage.getItem(STORAGE_KEYS.AUTH_USER);
     if (storedUser) {
@@ -125,6 +157,25 @@ class AuthService {
     });
   }
 
+  /**
+   * Follow logins, token refreshes and logouts made in other tabs
+   * A logout elsewhere signs this tab out too, without ending the session again
+   */
+  private setupStorageListener(): void {
+    window.addEventListener('storage', (event) => {
+      if (!SYNCED_STORAGE_KEYS.includes(event.key)) {
+        return;
+      }
+
+      const wasAuthenticated = this.isAuthenticated();
+      this.loadFromStorage();
+
+      if (wasAuthenticated && !this.isAuthenticated()) {
+        window.dispatchEvent(new CustomEvent('auth:logout'));
+      }
+    });
+  }
+
   /**
    * Register a new user with username and password
    */
@@ -136,9 +187,9 @@ class AuthService {
     });
     
     if (response.success && response.data) {
-      this.setAuthData(response.data.token, response.data.user);
+      this.setAuthData(response.data.token, response.data.user, response.data.refreshToken);
     } else if (response.success && response.token && response.user) {
-      this.setAuthData(response.token, response.user);
+      this.setAuthData(response.token, response.user, response.refreshToken);
     }
     
     return response;
@@ -154,14 +205,56 @@ class AuthService {
     });
     
     if (response.success && response.data) {
-      this.setAuthData(response.data.token, response.data.user);
+      this.setAuthData(response.data.token, response.data.user, response.data.refreshToken);
     } else if (response.success && response.token && response.user) {
-      this.setAuthData(response.token, response.user);
+      this.setAuthData(response.token, response.user, response.refreshToken);
     }
     
     return response;
   }
 
+  /**
+   * Login by signing a server challenge with the browser's Nostr signer
+   * The first login with a key creates the account
+   */
+  public async loginWithNostr(): Promise<AuthResponse> {
+    const { challenge, kind } = await httpClient.post<{ challenge: string; kind: number }>('/auth/nostr/challenge');
+    const event = await signLoginChallenge(challenge, kind);
+
+    const data = await httpClient.post<{ token: string; refreshToken: string; user: User }>('/auth/nostr/login', {
+      event,
+    });
+    this.setAuthData(data.token, data.user, data.refreshToken);
+
+    return { success: true, message: 'Login successful', data };
+  }
+
+  /**
+   * Get a one-time LNURL-auth challenge for a Lightning wallet to scan
+   */
+  public async createLnurlChallenge(): Promise<LnurlChallenge> {
+    return httpClient.post<LnurlChallenge>('/auth/lnurl/challenge');
+  }
+
+  /**
+   * Check whether the wallet has signed the challenge and login once it has
+   * @returns Null while waiting for the wallet
+   */
+  public async pollLnurlLogin(k1: string): Promise<AuthResponse | null> {
+    const result = await httpClient.post<LnurlLoginStatus>('/auth/lnurl/login', { k1 });
+    if (result.status === 'pending') {
+      return null;
+    }
+
+    this.setAuthData(result.token, result.user, result.refreshToken);
+
+    return {
+      success: true,
+      message: 'Login successful',
+      data: { token: result.token, refreshToken: result.refreshToken, user: result.user },
+    };
+  }
+
   /**
    * Request OTP code for phone authentication
    */
@@ -180,12 +273,57 @@ class AuthService {
     });
     
     if (response.success && response.token && response.user) {
-      this.setAuthData(response.token, response.user);
+      this.setAuthData(response.token, response.user, response.refreshToken);
     }
     
     return response;
   }
 
+  /**
+   * Swap the refresh token for a new access token and refresh token
+   * Used by the HTTP client when a request comes back 401. Tabs take turns,
+   * and a tab whose refresh token was already swapped by another one picks
+   * up the stored tokens instead of reusing it, which would end the session.
+   * @returns New access token, null if there is no session to renew
+   */
+  public async refreshSession(): Promise<string | null> {
+    if (!('locks' in navigator)) {
+      return this.swapRefreshToken();
+    }
+
+    return navigator.locks.request(REFRESH_LOCK, () => this.swapRefreshToken());
+  }
+
+  /**
+   * Swap the refresh token unless another tab has already done so
+   */
+  private async swapRefreshToken(): Promise<string | null> {
+    const storedRefreshToken = localStorage.getItem(STORAGE_KEYS.REFRESH_TOKEN);
+    if (storedRefreshToken !== this.refreshToken) {
+      this.loadFromStorage();
+      return storedRefreshToken ? this.token : null;
+    }
+
+    if (!this.refreshToken) {
+      return null;
+    }
+
+    const data = await httpClient.post<{ token: string; refreshToken: string }>(
+      '/auth/session/refresh',
+      { refreshToken: this.refreshToken },
+      { skipAuthRefresh: true }
+    );
+
+    this.token = data.token;
+    this.refreshToken = data.refreshToken;
+    httpClient.setAuthToken(data.token);
+    localStorage.setItem('token', data.token);
+    localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, data.token);
+    localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, data.refreshToken);
+
+    return data.token;
+  }
+
   /**
    * Get current user profile from API
    */
@@ -222,10 +360,11 @@ class AuthService {
   /**
    * Store authentication data in memory and local storage
    */
-  private setAuthData(token: string, user: User): void {
+  private setAuthData(token: string, user: User, refreshToken?: string): void {
     const normalizedUser = normalizeUser(user);
     
     this.token = token;
+    this.refreshToken = refreshToken ?? null;
     this.user = normalizedUser;
     
     httpClient.setAuthToken(token);
@@ -233,6 +372,11 @@ class AuthService {
     localStorage.setItem('token', token);
     localStorage.setItem(STORAGE_KEYS.AUTH_TOKEN, token);
     localStorage.setItem(STORAGE_KEYS.AUTH_USER, JSON.stringify(normalizedUser));
+    if (refreshToken) {
+      localStorage.setItem(STORAGE_KEYS.REFRESH_TOKEN, refreshToken);
+    } else {
+      localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
+    }
   }
 
   /**
@@ -242,13 +386,22 @@ class AuthService {
     localStorage.removeItem('token');
     localStorage.removeItem(STORAGE_KEYS.AUTH_TOKEN);
     localStorage.removeItem(STORAGE_KEYS.AUTH_USER);
+    localStorage.removeItem(STORAGE_KEYS.REFRESH_TOKEN);
   }
 
   /**
    * Logout current user and clear authentication state
+   * The server session is ended in the background; local state is cleared either way
    */
   public logout(): void {
+    if (this.refreshToken) {
+      httpClient
+        .post('/auth/session/logout', { refreshToken: this.refreshToken }, { skipAuthRefresh: true })
+        .catch(() => undefined);
+    }
+
     this.token = null;
+    this.refreshToken = null;
     this.user = null;
     httpClient.setAuthToken(null);
     this.clearStorage();
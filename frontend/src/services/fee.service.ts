@@ -0,0 +1,75 @@
+/**
+ * Fee Service
+ *
+ * Previews the platform fee kept from a job's payout. Before a runner is
+ * assigned the preview cannot include their volume discount, so the fee
+ * actually applied may be lower.
+ *
+ * @module services/fee
+ */
+
+import { httpClient } from './http.client';
+import type { JobCategory } from './job.service';
+
+export type FeeRuleCode =
+  | 'promotion'
+  | 'fedi_community'
+  | 'category_rate'
+  | 'default_rate'
+  | 'volume_tier'
+  | 'minimum';
+
+/**
+ * A fee schedule rule that applied to a quote
+ */
+export interface FeeRule {
+  code: FeeRuleCode;
+  description: string;
+}
+
+/**
+ * Platform fee for a job price, and what the runner receives
+ */
+export interface FeeQuote {
+  priceCents: number;
+  feeCents: number;
+  netCents: number;
+  ratePercent: number;
+  rules: FeeRule[];
+}
+
+/**
+ * Job details the fee depends on
+ */
+export interface FeePreviewInput {
+  priceCents: number;
+  category?: JobCategory;
+  fediCommunityId?: string | null;
+}
+
+/**
+ * Fee Service
+ */
+class FeeService {
+  /**
+   * Preview the fee of a job that has not been posted yet
+   */
+  public async previewFee(input: FeePreviewInput): Promise<FeeQuote> {
+    return httpClient.get<FeeQuote>('/fees/preview', {
+      params: {
+        priceCents: input.priceCents,
+        category: input.category,
+        fediCommunityId: input.fediCommunityId || undefined,
+      },
+    });
+  }
+
+  /**
+   * Fee of an existing job (client or assigned runner)
+   */
+  public async getJobFee(jobId: number | string): Promise<FeeQuote> {
+    return httpClient.get<FeeQuote>(`/jobs/${jobId}/fee`);
+  }
+}
+
+export const feeService = new FeeService();
@@ -2,12 +2,20 @@
  * HTTP Client Configuration
  * 
  * Provides a centralized HTTP client with authentication, error handling,
- * and retry logic for all API requests in the application.
+ * and retry logic for all API requests in the application. Requests that
+ * fail with 401 are retried once after transparently refreshing the access
+ * token.
  * 
  * @module http
  */
 
-import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse, AxiosError } from 'axios';
+import axios, {
+  AxiosInstance,
+  AxiosRequestConfig,
+  AxiosResponse,
+  AxiosError,
+  InternalAxiosRequestConfig,
+} from 'axios';
 import { API_CONFIG, HTTP_STATUS } from '../config/app.config';
 
 /**
@@ -30,12 +38,27 @@ export interface ApiResponse<T = any> {
   error?: ApiError;
 }
 
+/**
+ * Request config with the flags used by the token refresh
+ */
+export interface RefreshableRequestConfig extends AxiosRequestConfig {
+  skipAuthRefresh?: boolean; // Never refresh for this request, e.g. the refresh call itself
+  retriedAfterRefresh?: boolean;
+}
+
+/**
+ * Gets a new access token, or null if the session cannot be renewed
+ */
+export type TokenRefresher = () => Promise<string | null>;
+
 /**
  * HTTP client with authentication and error handling
  */
 export class HttpClient {
   private readonly client: AxiosInstance;
   private authToken: string | null = null;
+  private tokenRefresher: TokenRefresher | null = null;
+  private pendingRefresh: Promise<string | null> | null = null;
 
   constructor(baseURL: string = API_CONFIG.API_PATH) {
     this.client = axios.create({
@@ -63,6 +86,38 @@ export class HttpClient {
     return this.authToken;
   }
 
+  /**
+   * Set how to renew an expired access token
+   */
+  public setTokenRefresher(refresher: TokenRefresher | null): void {
+    this.tokenRefresher = refresher;
+  }
+
+  /**
+   * Renew the access token
+   * Concurrent callers share one refresh, since a refresh token works only once
+   * @returns New token, null if there is no refresher or the refresh failed
+   */
+  public refreshAuthToken(): Promise<string | null> {
+    if (!this.tokenRefresher) {
+      return Promise.resolve(null);
+    }
+
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.tokenRefresher()
+        .catch(() => null)
+        .then((token) => {
+          this.authToken = token;
+          return token;
+        })
+        .finally(() => {
+          this.pendingRefresh = null;
+        });
+    }
+
+    return this.pendingRefresh;
+  }
+
   /**
    * Setup request and response interceptors
    */
@@ -78,10 +133,26 @@ export class HttpClient {
       (error) => Promise.reject(error)
     );
 
-    // Response interceptor for error handling
+    // Response interceptor: refresh once on 401, then error handling
     this.client.interceptors.response.use(
       (response) => response,
-      (error: AxiosError) => {
+      async (error: AxiosError) => {
+        const config = error.config as (InternalAxiosRequestConfig & RefreshableRequestConfig) | undefined;
+
+        if (
+          error.response?.status === HTTP_STATUS.UNAUTHORIZED &&
+          config &&
+          !config.skipAuthRefresh &&
+          !config.retriedAfterRefresh
+        ) {
+          const token = await this.refreshAuthToken();
+          if (token) {
+            config.retriedAfterRefresh = true;
+            config.headers.Authorization = `Bearer ${token}`;
+            return this.client.request(config);
+          }
+        }
+
         return Promise.reject(this.handleError(error));
       }
     );
@@ -130,7 +201,7 @@ export class HttpClient {
   /**
    * Perform GET request
    */
-  public async get<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  public async get<T>(url: string, config?: RefreshableRequestConfig): Promise<T> {
     const response = await this.client.get<ApiResponse<T>>(url, config);
     return this.extractData(response);
   }
@@ -138,7 +209,7 @@ export class HttpClient {
   /**
    * Perform POST request
    */
-  public async post<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  public async post<T>(url: string, data?: any, config?: RefreshableRequestConfig): Promise<T> {
     const response = await this.client.post<ApiResponse<T>>(url, data, config);
     return this.extractData(response);
   }
@@ -146,7 +217,7 @@ export class HttpClient {
   /**
    * Perform PUT request
    */
-  public async put<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  public async put<T>(url: string, data?: any, config?: RefreshableRequestConfig): Promise<T> {
     const response = await this.client.put<ApiResponse<T>>(url, data, config);
     return this.extractData(response);
   }
@@ -154,7 +225,7 @@ export class HttpClient {
   /**
    * Perform PATCH request
    */
-  public async patch<T>(url: string, data?: any, config?: AxiosRequestConfig): Promise<T> {
+  public async patch<T>(url: string, data?: any, config?: RefreshableRequestConfig): Promise<T> {
     const response = await this.client.patch<ApiResponse<T>>(url, data, config);
     return this.extractData(response);
   }
@@ -162,7 +233,7 @@ export class HttpClient {
   /**
    * Perform DELETE request
    */
-  public async delete<T>(url: string, config?: AxiosRequestConfig): Promise<T> {
+  public async delete<T>(url: string, config?: RefreshableRequestConfig): Promise<T> {
     const response = await this.client.delete<ApiResponse<T>>(url, config);
     return this.extractData(response);
   }
@@ -43,6 +43,35 @@ export interface Coordinates {
   lng: number;
 }
 
+/**
+ * Role of a stop along a job's route
+ */
+export type JobStopKind = 'pickup' | 'dropoff' | 'stop';
+
+/**
+ * A stop the runner visits, in route order
+ */
+export interface JobStop {
+  id: number;
+  position: number;
+  kind: JobStopKind;
+  location: Coordinates;
+  address: string;
+  instructions?: string | null;
+  completedAt?: string | null;
+}
+
+/**
+ * Stop submitted when creating a job
+ */
+export interface JobStopInput {
+  kind?: JobStopKind;
+  lat: number;
+  lng: number;
+  address: string;
+  instructions?: string;
+}
+
 /**
  * Job entity representing a work request in the system
  */
@@ -56,12 +85,90 @@ export interface Job {
   priceCents: number;
   location?: Coordinates;
   address: string;
+  stops?: JobStop[];
   deadline?: string;
   completedAt?: string;
   createdAt: string;
   updatedAt: string;
 }
 
+/**
+ * Escrow status for a job funded with a hold invoice
+ */
+export type EscrowStatus = 'pending' | 'held' | 'settled' | 'cancelled';
+
+/**
+ * Hold-invoice escrow funding a job
+ */
+export interface JobEscrow {
+  jobId: number;
+  status: EscrowStatus;
+  paymentRequest: string;
+  paymentHash: string;
+  amountSats: number;
+  expiresAt: string;
+  releaseAfter?: string | null;
+  heldAt?: string | null;
+  settledAt?: string | null;
+  cancelledAt?: string | null;
+}
+
+/**
+ * Kind of file attached as proof of delivery
+ */
+export type DeliveryAttachmentKind = 'photo' | 'receipt';
+
+/**
+ * Photo or receipt stored with a proof of delivery
+ */
+export interface DeliveryAttachment {
+  id: number;
+  kind: DeliveryAttachmentKind;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  uploadedAt: string;
+}
+
+/**
+ * Evidence the runner submitted when completing a job
+ */
+export interface DeliveryProof {
+  id: number;
+  jobId: number;
+  runnerId: number;
+  recipientName: string | null;
+  /** The recipient's one-time delivery code was entered correctly */
+  codeVerified: boolean;
+  note: string | null;
+  submittedAt: string;
+  attachments: DeliveryAttachment[];
+}
+
+/**
+ * Proof of delivery sent along when completing a job
+ */
+export interface DeliveryProofInput {
+  attachments?: Array<{
+    kind: DeliveryAttachmentKind;
+    fileName: string;
+    /** Base64 data URL */
+    data: string;
+  }>;
+  recipientName?: string;
+  deliveryCode?: string;
+  note?: string;
+}
+
+/**
+ * One-time code the client shares with the recipient
+ */
+export interface DeliveryCode {
+  code: string;
+  createdAt: string;
+  usedAt: string | null;
+}
+
 /**
  * Input data for creating a new job
  */
@@ -69,13 +176,17 @@ export interface CreateJobInput {
   title: string;
   description: string;
   category: JobCategory;
-  pickup_lat: number;
-  pickup_lng: number;
-  pickup_address: string;
+  /** Route in visiting order; replaces the pickup/dropoff fields */
+  stops?: JobStopInput[];
+  pickup_lat?: number;
+  pickup_lng?: number;
+  pickup_address?: string;
   dropoff_lat?: number;
   dropoff_lng?: number;
   dropoff_address?: string;
   budget_max_usd: number;
+  /** Fedi community the job is posted from, for its fee rate */
+  fediCommunityId?: string;
 }
 
 /**
@@ -118,6 +229,7 @@ interface ApiJob {
   priceCents?: number;
   location?: Coordinates;
   address: string;
+  stops?: JobStop[];
   deadline?: string;
   completed_at?: string;
   completedAt?: string;
@@ -141,7 +253,8 @@ function transformJob(apiJob: ApiJob): Job {
     status: apiJob.status,
     priceCents: apiJob.price_cents ?? apiJob.priceCents,
     location: apiJob.location,
-    address: apiJob.address || '',
+    address: apiJob.address || apiJob.stops?.[0]?.address || '',
+    stops: apiJob.stops,
     deadline: apiJob.deadline,
     completedAt: apiJob.completed_at ?? apiJob.completedAt,
     createdAt: apiJob.created_at ?? apiJob.createdAt ?? new Date().toISOString(),
@@ -234,41 +347,77 @@ class JobService {
   }
 
   /**
-   * Assign a job to the current user (runner accepts job)
+   * Mark a job as started (runner begins work)
    * 
    * @param id - Job identifier
-   * @returns Promise resolving to the updated job with runner assigned
-   * @throws {ApiError} When job is already assigned or not available
+   * @returns Promise resolving to the updated job
+   * @throws {ApiError} When job is not in accepted status
    */
-  public async assignJob(id: number | string): Promise<Job> {
-    const apiJob = await httpClient.post<ApiJob>(`${this.endpoint}/${id}/assign`);
+  public async startJob(id: number | string): Promise<Job> {
+    const apiJob = await httpClient.post<ApiJob>(`${this.endpoint}/${id}/start`);
     return transformJob(apiJob);
   }
 
   /**
-   * Mark a job as started (runner begins work)
+   * Check off a stop along the route (runner, job in progress)
    * 
    * @param id - Job identifier
-   * @returns Promise resolving to the updated job
-   * @throws {ApiError} When job is not in accepted status
+   * @param stopId - Stop identifier
+   * @returns Promise resolving to the completed stop
+   * @throws {ApiError} When the job is not in progress or the stop is already done
    */
-  public async startJob(id: number | string): Promise<Job> {
-    const apiJob = await httpClient.post<ApiJob>(`${this.endpoint}/${id}/start`);
-    return transformJob(apiJob);
+  public async completeStop(id: number | string, stopId: number): Promise<JobStop> {
+    return httpClient.post<JobStop>(`${this.endpoint}/${id}/stops/${stopId}/complete`);
   }
 
   /**
    * Mark a job as completed (runner finishes work)
    * 
    * @param id - Job identifier
+   * @param proof - Optional proof of delivery (photos, receipt, recipient, delivery code)
    * @returns Promise resolving to the updated job
-   * @throws {ApiError} When job is not in progress
+   * @throws {ApiError} When job is not in progress or the proof is invalid
    */
-  public async completeJob(id: number | string): Promise<Job> {
-    const apiJob = await httpClient.post<ApiJob>(`${this.endpoint}/${id}/complete`);
+  public async completeJob(id: number | string, proof?: DeliveryProofInput): Promise<Job> {
+    const apiJob = await httpClient.post<ApiJob>(`${this.endpoint}/${id}/complete`, proof);
     return transformJob(apiJob);
   }
 
+  /**
+   * Issue the one-time delivery code (client); returns the existing one if already issued
+   * 
+   * @param id - Job identifier
+   * @returns Promise resolving to the delivery code
+   * @throws {ApiError} When the user is not the client or the job was already delivered
+   */
+  public async issueDeliveryCode(id: number | string): Promise<DeliveryCode> {
+    return httpClient.post<DeliveryCode>(`${this.endpoint}/${id}/delivery-code`);
+  }
+
+  /**
+   * Get the proof of delivery submitted with a job
+   * 
+   * @param id - Job identifier
+   * @returns Promise resolving to the proof, or null when none was submitted
+   * @throws {ApiError} When user is not a participant
+   */
+  public async getDeliveryProof(id: number | string): Promise<DeliveryProof | null> {
+    return httpClient.get<DeliveryProof | null>(`${this.endpoint}/${id}/proof`);
+  }
+
+  /**
+   * Download a proof of delivery photo or receipt
+   * 
+   * @param id - Job identifier
+   * @param attachmentId - Attachment identifier
+   * @returns Promise resolving to the file contents
+   */
+  public async getDeliveryAttachment(id: number | string, attachmentId: number): Promise<Blob> {
+    return httpClient.get<Blob>(`${this.endpoint}/${id}/proof/attachments/${attachmentId}`, {
+      responseType: 'blob',
+    });
+  }
+
   /**
    * Cancel a job
    * 
@@ -282,6 +431,28 @@ class JobService {
     return transformJob(apiJob);
   }
 
+  /**
+   * Get the escrow hold invoice and its status
+   * 
+   * @param id - Job identifier
+   * @returns Promise resolving to the job escrow
+   * @throws {ApiError} When the job has no escrow or user is not a participant
+   */
+  public async getEscrow(id: number | string): Promise<JobEscrow> {
+    return httpClient.get<JobEscrow>(`${this.endpoint}/${id}/escrow`);
+  }
+
+  /**
+   * Confirm delivery and release the escrowed payment to the runner
+   * 
+   * @param id - Job identifier
+   * @returns Promise resolving to the settled escrow
+   * @throws {ApiError} When the escrow is not funded or job is not awaiting payment
+   */
+  public async confirmDelivery(id: number | string): Promise<JobEscrow> {
+    return httpClient.post<JobEscrow>(`${this.endpoint}/${id}/confirm-delivery`);
+  }
+
   /**
    * Dispute a job (raise an issue with job completion)
    * 
@@ -0,0 +1,163 @@
+/**
+ * Job Template Service
+ *
+ * Recurring errands: a job saved with a recurrence rule (a subset of iCalendar
+ * RRULE) that the platform posts as a new job ahead of every occurrence.
+ * Single occurrences can be skipped, moved or repriced before they are posted.
+ *
+ * @module services/jobTemplate
+ */
+
+import { httpClient } from './http.client';
+import type { JobCategory, JobStopInput, JobStopKind } from './job.service';
+
+export type JobTemplateStatus = 'active' | 'paused' | 'ended';
+
+export type OccurrenceStatus = 'scheduled' | 'created' | 'skipped' | 'missed' | 'failed';
+
+/**
+ * A stop of a recurring errand, as every posted job will have it
+ */
+export interface JobTemplateStop {
+  kind: JobStopKind;
+  lat: number;
+  lng: number;
+  address: string;
+  instructions?: string | null;
+}
+
+/**
+ * One occurrence of a recurring errand, with its own changes applied
+ */
+export interface JobTemplateOccurrence {
+  id: number;
+  templateId: number;
+  originalAt: string;
+  scheduledFor: string;
+  status: OccurrenceStatus;
+  jobId: number | null; // Set once the job is posted
+  title: string;
+  description: string;
+  priceCents: number;
+  edited: boolean;
+  reservedRunnerId: number | null; // Runner offered the job first
+  reservedUntil: string | null;
+  errorMessage: string | null;
+}
+
+/**
+ * A recurring errand and its recent and upcoming occurrences
+ */
+export interface JobTemplate {
+  id: number;
+  title: string;
+  description: string;
+  priceCents: number;
+  category: JobCategory | null;
+  address: string | null;
+  stops: JobTemplateStop[];
+  rrule: string;
+  timezone: string;
+  startsAt: string;
+  leadHours: number;
+  preferPreviousRunner: boolean;
+  status: JobTemplateStatus;
+  createdAt: string;
+  occurrences: JobTemplateOccurrence[];
+}
+
+export interface CreateJobTemplateInput {
+  title: string;
+  description: string;
+  priceCents: number;
+  category?: JobCategory;
+  fediCommunityId?: string;
+  stops?: JobStopInput[];
+  rrule: string;
+  timezone: string;
+  startsAt: string; // ISO 8601
+  leadHours?: number;
+  preferPreviousRunner?: boolean;
+}
+
+export type UpdateJobTemplateInput = Partial<CreateJobTemplateInput>;
+
+/**
+ * Changes to one occurrence; null goes back to the template's value
+ */
+export interface UpdateOccurrenceInput {
+  scheduledFor?: string;
+  title?: string | null;
+  description?: string | null;
+  priceCents?: number | null;
+}
+
+/**
+ * Job Template Service
+ */
+class JobTemplateService {
+  /**
+   * List the current user's recurring errands
+   */
+  public async getTemplates(): Promise<JobTemplate[]> {
+    return httpClient.get<JobTemplate[]>('/job-templates');
+  }
+
+  /**
+   * Create a recurring errand
+   */
+  public async createTemplate(input: CreateJobTemplateInput): Promise<JobTemplate> {
+    return httpClient.post<JobTemplate>('/job-templates', input);
+  }
+
+  /**
+   * Change a recurring errand's details or schedule
+   */
+  public async updateTemplate(templateId: number, input: UpdateJobTemplateInput): Promise<JobTemplate> {
+    return httpClient.patch<JobTemplate>(`/job-templates/${templateId}`, input);
+  }
+
+  /**
+   * Stop posting jobs until resumed
+   */
+  public async pauseTemplate(templateId: number): Promise<JobTemplate> {
+    return httpClient.post<JobTemplate>(`/job-templates/${templateId}/pause`);
+  }
+
+  /**
+   * Resume a paused recurring errand
+   */
+  public async resumeTemplate(templateId: number): Promise<JobTemplate> {
+    return httpClient.post<JobTemplate>(`/job-templates/${templateId}/resume`);
+  }
+
+  /**
+   * End a recurring errand; jobs already posted are kept
+   */
+  public async endTemplate(templateId: number): Promise<JobTemplate> {
+    return httpClient.delete<JobTemplate>(`/job-templates/${templateId}`);
+  }
+
+  /**
+   * Move an occurrence or change its title, notes or price
+   */
+  public async updateOccurrence(occurrenceId: number, input: UpdateOccurrenceInput): Promise<JobTemplateOccurrence> {
+    return httpClient.patch<JobTemplateOccurrence>(`/job-templates/occurrences/${occurrenceId}`, input);
+  }
+
+  /**
+   * Skip an occurrence
+   */
+  public async skipOccurrence(occurrenceId: number): Promise<JobTemplateOccurrence> {
+    return httpClient.post<JobTemplateOccurrence>(`/job-templates/occurrences/${occurrenceId}/skip`);
+  }
+
+  /**
+   * Undo skipping an occurrence
+   */
+  public async restoreOccurrence(occurrenceId: number): Promise<JobTemplateOccurrence> {
+    return httpClient.post<JobTemplateOccurrence>(`/job-templates/occurrences/${occurrenceId}/restore`);
+  }
+}
+
+export const jobTemplateService = new JobTemplateService();
@@ -0,0 +1,64 @@
+/**
+ * Message Service
+ *
+ * Job-scoped messaging between the client and the assigned runner.
+ *
+ * @module services/message
+ */
+
+import { httpClient } from './http.client';
+
+/**
+ * Message posted in a job thread
+ */
+export interface JobMessage {
+  id: number;
+  jobId: number;
+  senderId: number;
+  senderUsername?: string;
+  senderDisplayName?: string | null;
+  content: string;
+  mediaUrl: string | null;
+  lnInvoice: string | null;
+  createdAt: string;
+}
+
+/**
+ * Input for posting a message
+ */
+export interface SendMessageInput {
+  content: string;
+  mediaUrl?: string;
+  lnInvoice?: string;
+}
+
+/**
+ * Service class for job message operations
+ */
+class MessageService {
+  private readonly endpoint = '/messages/job';
+
+  /**
+   * Get all messages for a job, oldest first
+   */
+  public async getJobMessages(jobId: number | string): Promise<JobMessage[]> {
+    const response = await httpClient.get<{ jobId: number; messages: JobMessage[] }>(
+      `${this.endpoint}/${jobId}`
+    );
+    return response.messages;
+  }
+
+  /**
+   * Post a message to a job thread
+   */
+  public async sendMessage(jobId: number | string, input: SendMessageInput): Promise<JobMessage> {
+    const response = await httpClient.post<{ message: JobMessage }>(`${this.endpoint}/${jobId}`, {
+      content: input.content,
+      media_url: input.mediaUrl,
+      ln_invoice: input.lnInvoice,
+    });
+    return response.message;
+  }
+}
+
+export const messageService = new MessageService();
@@ -0,0 +1,109 @@
+/**
+ * Offer Service
+ *
+ * Runner offers on open jobs and the counter-offers traded with the client.
+ * Accepting an offer assigns the job to that runner at the offered price.
+ *
+ * @module services/offer
+ */
+
+import { httpClient } from './http.client';
+import type { JobStatus } from './job.service';
+
+export type OfferStatus = 'pending' | 'countered' | 'accepted' | 'rejected' | 'withdrawn';
+
+export type OfferParty = 'client' | 'runner';
+
+/**
+ * A single proposal in a negotiation between a client and a runner
+ */
+export interface JobOffer {
+  id: number;
+  jobId: number;
+  runnerId: number;
+  /** Proposal this one counters */
+  parentId: number | null;
+  proposedBy: OfferParty;
+  priceCents: number;
+  etaMinutes: number | null;
+  note: string | null;
+  status: OfferStatus;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Latest proposal of a negotiation, as listed across all of a user's jobs
+ */
+export interface OfferSummary extends JobOffer {
+  jobTitle: string;
+  jobStatus: JobStatus;
+  role: OfferParty;
+  awaitingReplyFrom: OfferParty | null;
+}
+
+/**
+ * Terms of an offer or counter-offer
+ */
+export interface OfferTerms {
+  priceCents: number;
+  etaMinutes?: number;
+  note?: string;
+}
+
+/**
+ * Service class for job offer operations
+ */
+class OfferService {
+  /**
+   * Get offers on a job (the client sees all, a runner their own)
+   */
+  public async getJobOffers(jobId: number | string): Promise<JobOffer[]> {
+    return httpClient.get<JobOffer[]>(`/jobs/${jobId}/offers`);
+  }
+
+  /**
+   * Get the latest proposal of each of the current user's negotiations
+   */
+  public async getMyOffers(): Promise<OfferSummary[]> {
+    return httpClient.get<OfferSummary[]>('/offers/mine');
+  }
+
+  /**
+   * Make an offer on an open job
+   */
+  public async submitOffer(jobId: number | string, terms: OfferTerms): Promise<JobOffer> {
+    return httpClient.post<JobOffer>(`/jobs/${jobId}/offers`, terms);
+  }
+
+  /**
+   * Answer the other side's offer with new terms
+   */
+  public async counterOffer(offerId: number, terms: OfferTerms): Promise<JobOffer> {
+    return httpClient.post<JobOffer>(`/offers/${offerId}/counter`, terms);
+  }
+
+  /**
+   * Accept the other side's offer, assigning the job
+   */
+  public async acceptOffer(offerId: number): Promise<JobOffer> {
+    const { offer } = await httpClient.post<{ offer: JobOffer }>(`/offers/${offerId}/accept`);
+    return offer;
+  }
+
+  /**
+   * Decline the other side's offer
+   */
+  public async rejectOffer(offerId: number): Promise<JobOffer> {
+    return httpClient.post<JobOffer>(`/offers/${offerId}/reject`);
+  }
+
+  /**
+   * Take back your own offer before it is answered
+   */
+  public async withdrawOffer(offerId: number): Promise<JobOffer> {
+    return httpClient.post<JobOffer>(`/offers/${offerId}/withdraw`);
+  }
+}
+
+export const offerService = new OfferService();
@@ -0,0 +1,44 @@
+/**
+ * Push Service
+ *
+ * Registers this browser's Web Push subscription with the backend, which
+ * uses it to send saved search alerts while the app is closed.
+ *
+ * @module services/push
+ */
+
+import { httpClient } from './http.client';
+
+export interface PushSubscriptionInput {
+  endpoint: string;
+  keys: { p256dh: string; auth: string };
+}
+
+/**
+ * Push Service
+ */
+class PushService {
+  /**
+   * VAPID public key the browser subscribes with
+   */
+  public async getPublicKey(): Promise<string> {
+    const { publicKey } = await httpClient.get<{ publicKey: string }>('/push/public-key');
+    return publicKey;
+  }
+
+  /**
+   * Save this browser's subscription for the current user
+   */
+  public async subscribe(subscription: PushSubscriptionInput): Promise<void> {
+    await httpClient.post('/push/subscriptions', subscription);
+  }
+
+  /**
+   * Remove this browser's subscription
+   */
+  public async unsubscribe(endpoint: string): Promise<void> {
+    await httpClient.delete('/push/subscriptions', { data: { endpoint } });
+  }
+}
+
+export const pushService = new PushService();
@@ -0,0 +1,217 @@
+/**
+ * Realtime Service
+ *
+ * Subscribes to the backend Server-Sent Event stream for live job status,
+ * message, payment, payout, tip, offer, saved search alert and runner location
+ * updates. Uses fetch instead of EventSource so the JWT can travel in the
+ * Authorization header rather than the URL. Reconnects use the latest access
+ * token, and an expired one is refreshed through the HTTP client.
+ *
+ * @module services/realtime
+ */
+
+import { API_CONFIG } from '../config/app.config';
+import { httpClient } from './http.client';
+import type { JobStatus } from './job.service';
+import type { JobMessage } from './message.service';
+import type { OfferStatus } from './offer.service';
+import type { RunnerPosition } from './tracking.service';
+import type { TipMethod } from './tip.service';
+
+/**
+ * Event payloads pushed by the server, keyed by event name
+ */
+export interface RealtimeEventMap {
+  'job.status_changed': {
+    jobId: number;
+    status: JobStatus;
+    previousStatus: JobStatus;
+    actor: 'client' | 'runner' | 'admin' | 'system';
+    changedAt: string;
+  };
+  'message.created': JobMessage;
+  'payment.confirmed': {
+    jobId: number;
+    paymentHash: string;
+  };
+  'payout.completed': {
+    jobId: number;
+    earningId: number;
+    amountSats: number;
+    paymentHash: string | null;
+  };
+  'offer.updated': {
+    offerId: number;
+    jobId: number;
+    runnerId: number;
+    status: OfferStatus;
+  };
+  'job.stop_completed': {
+    jobId: number;
+    stopId: number;
+    position: number;
+    completedAt: string;
+  };
+  'job.overdue': {
+    jobId: number;
+    title: string;
+    deadline: string;
+  };
+  'job.suggested': {
+    jobId: number;
+    title: string;
+    priceCents: number;
+    category: string | null;
+    distanceKm: number | null;
+  };
+  'job.alert': {
+    searchId: number;
+    searchName: string;
+    digest: boolean;
+    total: number;
+    jobs: Array<{
+      jobId: number;
+      title: string;
+      priceCents: number;
+      category: string | null;
+      distanceKm: number;
+    }>;
+  };
+  'tip.received': {
+    tipId: number;
+    jobId: number;
+    amountSats: number;
+    amountCents: number;
+    method: TipMethod;
+    message: string | null;
+  };
+  'runner.location': RunnerPosition & {
+    jobId: number;
+  };
+}
+
+export type RealtimeEvent = {
+  [K in keyof RealtimeEventMap]: { type: K; data: RealtimeEventMap[K] };
+}[keyof RealtimeEventMap];
+
+/** Delay before reconnecting unless the server sends its own `retry` */
+const DEFAULT_RETRY_MS = 3000;
+
+/**
+ * Parse one Server-Sent Event frame
+ * Returns null for comments (heartbeats) and unknown events
+ */
+export function parseEventFrame(frame: string): RealtimeEvent | null {
+  let type: string | null = null;
+  const dataLines: string[] = [];
+
+  for (const line of frame.split('\n')) {
+    if (line.startsWith('event:')) {
+      type = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).trimStart());
+    }
+  }
+
+  if (!type || dataLines.length === 0) {
+    return null;
+  }
+
+  try {
+    return { type, data: JSON.parse(dataLines.join('\n')) } as RealtimeEvent;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Realtime event stream client
+ */
+class RealtimeService {
+  private readonly endpoint = `${API_CONFIG.API_PATH}/realtime/stream`;
+
+  /**
+   * Open the event stream and keep it open until the returned function is called
+   * @param token - JWT of the current user, replaced by newer ones as the session is refreshed
+   * @param onEvent - Called for every event received
+   * @returns Function that closes the stream
+   */
+  public connect(token: string, onEvent: (event: RealtimeEvent) => void): () => void {
+    const controller = new AbortController();
+    let retryMs = DEFAULT_RETRY_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let currentToken = token;
+
+    const open = async (refreshed = false): Promise<void> => {
+      currentToken = httpClient.getAuthToken() ?? currentToken;
+
+      try {
+        const response = await fetch(this.endpoint, {
+          headers: {
+            Accept: 'text/event-stream',
+            Authorization: `Bearer ${currentToken}`,
+          },
+          signal: controller.signal,
+        });
+
+        // Renew an expired token once, sharing any refresh already under way
+        if (response.status === 401) {
+          const freshToken = refreshed ? null : await httpClient.refreshAuthToken();
+          if (controller.signal.aborted) return;
+
+          if (freshToken) {
+            return open(true);
+          }
+
+          window.dispatchEvent(new CustomEvent('auth:unauthorized'));
+          return;
+        }
+
+        if (!response.ok || !response.body) {
+          throw new Error(`Realtime stream failed with status ${response.status}`);
+        }
+
+        const reader = response.body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        for (;;) {
+          const { value, done } = await reader.read();
+          if (done) break;
+
+          buffer += decoder.decode(value, { stream: true });
+          const frames = buffer.split('\n\n');
+          buffer = frames.pop() ?? '';
+
+          for (const frame of frames) {
+            const retry = frame.match(/^retry:\s*(\d+)/m);
+            if (retry) {
+              retryMs = Number(retry[1]);
+            }
+
+            const event = parseEventFrame(frame);
+            if (event) {
+              onEvent(event);
+            }
+          }
+        }
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        console.warn('[Realtime] Stream interrupted:', error);
+      }
+
+      if (!controller.signal.aborted) {
+        retryTimer = setTimeout(() => void open(), retryMs);
+      }
+    };
+
+    void open();
+
+    return () => {
+      controller.abort();
+      clearTimeout(retryTimer);
+    };
+  }
+}
+
+export const realtimeService = new RealtimeService();
@@ -2,6 +2,11 @@
 /**
  * Review Service
  * Handles review and rating operations
+ *
+ * Clients review runners and runners review clients. Reviews are blind:
+ * neither side sees the other's review until both have submitted or the
+ * review window closes. Runners can reply once to a review of them, and
+ * anyone can report an abusive review to the moderators.
  * 
  * @module services/review
  */
@@ -9,6 +14,22 @@
 import { httpClient } from './http.client';
 import { REVIEW_CONFIG } from '../config/app.config';
 
+export type ReviewerRole = 'client' | 'runner';
+
+/**
+ * Problems a runner can report about a client
+ */
+export type ClientFlag = 'no_show' | 'late_payment' | 'no_payment';
+
+/**
+ * What clients can rate besides the overall rating, null when not rated
+ */
+export interface SubRatings {
+  punctuality: number | null;
+  communication: number | null;
+  careOfItems: number | null;
+}
+
 /**
  * Review data structure
  */
@@ -17,8 +38,14 @@ export interface Review {
   jobId: number;
   reviewerId: number;
   revieweeId: number;
+  reviewerRole: ReviewerRole;
   rating: number;
   comment?: string;
+  flags: ClientFlag[];
+  subRatings: SubRatings; // Client reviews of runners only
+  reply: { comment: string; createdAt: string } | null; // The reviewee's public reply
+  revealed: boolean; // False while waiting for the other side
+  hidden: boolean; // Hidden by a moderator; only its author still sees it
   createdAt: string;
   updatedAt: string;
   reviewer?: {
@@ -38,6 +65,7 @@ export interface RunnerRatingStats {
   runnerId: number;
   averageRating: number;
   totalReviews: number;
+  subRatings: SubRatings; // Averages, null until rated
   ratingDistribution: {
     '1': number;
     '2': number;
@@ -47,6 +75,31 @@ export interface RunnerRatingStats {
   };
 }
 
+/**
+ * Reviews of a job the current user may see
+ */
+export interface JobReviews {
+  jobId: number;
+  reviews: Review[]; // Revealed reviews and the user's own
+  awaitingReveal: boolean; // The other side reviewed, hidden until revealed
+  revealAt: string | null; // When hidden reviews are revealed at the latest
+}
+
+/**
+ * Client reputation from runner reviews
+ */
+export interface ClientRatingStats {
+  clientId: number;
+  averageRating: number;
+  totalReviews: number;
+  completedJobs: number;
+  flags: {
+    noShow: number;
+    latePayment: number;
+    noPayment: number;
+  };
+}
+
 /**
  * Review submission data
  */
@@ -54,6 +107,8 @@ export interface ReviewSubmission {
   jobId: number;
   rating: number;
   comment?: string;
+  flags?: ClientFlag[]; // Runners reviewing a client only
+  subRatings?: Partial<SubRatings>; // Clients reviewing a runner only
 }
 
 /**
@@ -82,8 +137,14 @@ class ReviewService {
       jobId: data.job_id || data.jobId,
       reviewerId: data.reviewer_id || data.reviewerId,
       revieweeId: data.reviewee_id || data.revieweeId,
+      reviewerRole: data.reviewer_role || data.reviewerRole,
       rating: typeof data.rating === 'string' ? parseFloat(data.rating) : data.rating,
       comment: data.comment,
+      flags: data.flags || [],
+      subRatings: data.subRatings || { punctuality: null, communication: null, careOfItems: null },
+      reply: data.reply || null,
+      revealed: data.revealed ?? true,
+      hidden: data.hidden ?? false,
       createdAt: data.created_at || data.createdAt,
       updatedAt: data.updated_at || data.updatedAt,
       reviewer: data.reviewer,
@@ -104,6 +165,7 @@ class ReviewService {
         ? parseFloat(data.average_rating) 
         : data.averageRating || data.average_rating,
       totalReviews: data.total_reviews || data.totalReviews,
+      subRatings: data.subRatings || { punctuality: null, communication: null, careOfItems: null },
       ratingDistribution: data.rating_distribution || data.ratingDistribution,
     };
   }
@@ -154,28 +216,29 @@ class ReviewService {
   async submitReview(data: ReviewSubmission): Promise<Review> {
     this.validateReviewSubmission(data);
 
-    const response = await httpClient.post('/reviews', data);
-    const reviewData = response.data.data || response.data.review;
-    return this.normalizeReview(reviewData);
+    const review = await httpClient.post('/reviews', data);
+    return this.normalizeReview(review);
   }
 
   /**
-   * Get review by job ID
+   * Get the reviews of a job the current user may see
    * 
    * @param jobId - Job ID
-   * @returns Promise resolving to Review or null if not found
+   * @returns Promise resolving to the visible reviews and reveal status
    */
-  async getReviewByJobId(jobId: number): Promise<Review | null> {
-    try {
-      const response = await httpClient.get(`/reviews/job/${jobId}`);
-      const reviewData = response.data.data || response.data.review;
-      return this.normalizeReview(reviewData);
-    } catch (error: any) {
-      if (error.response?.status === 404) {
-        return null;
-      }
-      throw error;
-    }
+  async getReviewsForJob(jobId: number): Promise<JobReviews> {
+    const data = await httpClient.get<JobReviews>(`/reviews/job/${jobId}`);
+    return { ...data, reviews: data.reviews.map((r: any) => this.normalizeReview(r)) };
+  }
+
+  /**
+   * Get a client's reputation, shown to runners before they take a job
+   * 
+   * @param clientId - Client user ID
+   * @returns Promise resolving to ClientRatingStats
+   */
+  async getClientRatingStats(clientId: number): Promise<ClientRatingStats> {
+    return httpClient.get<ClientRatingStats>(`/reviews/client/${clientId}/stats`);
   }
 
   /**
@@ -251,6 +314,29 @@ class ReviewService {
     return this.normalizeReview(reviewData);
   }
 
+  /**
+   * Reply publicly to a review of the current runner
+   * 
+   * @param reviewId - Review ID
+   * @param reply - Reply text
+   * @returns Promise resolving to the review with its reply
+   */
+  async replyToReview(reviewId: number, reply: string): Promise<Review> {
+    const review = await httpClient.post(`/reviews/${reviewId}/reply`, { reply });
+    return this.normalizeReview(review);
+  }
+
+  /**
+   * Report an abusive review to the moderators
+   * 
+   * @param reviewId - Review ID
+   * @param reason - Why the review is abusive
+   * @returns Promise resolving when the report is filed
+   */
+  async reportReview(reviewId: number, reason: string): Promise<void> {
+    await httpClient.post(`/reviews/${reviewId}/report`, { reason });
+  }
+
   /**
    * Delete a review
    * 
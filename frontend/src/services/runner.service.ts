@@ -83,6 +83,77 @@ function normalizeRunnerProfile(profile: any): RunnerProfile {
   };
 }
 
+export type MatchFactor = 'distance' | 'category' | 'rating' | 'completion' | 'availability' | 'load';
+
+/**
+ * Runner ranked for a job, with the score of each matching factor (0 to 1)
+ */
+export interface SuggestedRunner {
+  runnerId: number;
+  profileId: number;
+  displayName: string;
+  avatarUrl: string | null;
+  tags: string[];
+  hourlyRateCents: number | null;
+  avgRating: number;
+  completionRate: number;
+  totalJobs: number;
+  distanceKm: number | null;
+  available: boolean;
+  score: number;
+  factors: Record<MatchFactor, number>;
+  notifiedAt: string | null;
+}
+
+export interface SuggestedRunners {
+  jobId: number;
+  radiusKm: number | null;
+  wave: number | null;
+  runners: SuggestedRunner[];
+}
+
+/**
+ * Weekly working hours block in the runner's time zone (weekday 0 is Sunday)
+ */
+export interface WorkingHours {
+  weekday: number;
+  startsAt: string; // HH:MM
+  endsAt: string;
+}
+
+export interface TimeOff {
+  id: number;
+  startsAt: string;
+  endsAt: string;
+  reason: string | null;
+}
+
+/**
+ * When a runner takes jobs: the switch, working hours, time off and how many
+ * jobs they take at once
+ */
+export interface RunnerAvailability {
+  profileId: number;
+  isAvailable: boolean;
+  timezone: string;
+  maxConcurrentJobs: number;
+  workingHours: WorkingHours[];
+  timeOff: TimeOff[];
+}
+
+export interface UpdateAvailabilityInput {
+  isAvailable?: boolean;
+  timezone?: string;
+  maxConcurrentJobs?: number;
+  workingHours?: WorkingHours[]; // Replaces all working hours
+}
+
+export interface TimeOffInput {
+  startsAt: string; // ISO date-time; without an offset it is in the runner's time zone
+  endsAt: string;
+  reason?: string;
+}
+
 export interface CreateRunnerInput {
   displayName: string;
   bio: string;
@@ -185,21 +256,64 @@ class RunnerService {
    * Toggle runner availability
    */
   public async toggleAvailability(id: number | string, available: boolean): Promise<RunnerProfile> {
-    return this.updateProfile(id, { available });
+    await this.updateAvailability(id, { isAvailable: available });
+    return this.getProfileById(id);
+  }
+
+  /**
+   * Get a runner's working hours, time off and job capacity
+   */
+  public async getAvailability(id: number | string): Promise<RunnerAvailability> {
+    return httpClient.get<RunnerAvailability>(`${this.endpoint}/${id}/availability`);
   }
 
   /**
-   * Search for runners near a location
+   * Update the current runner's availability; working hours, when given, replace the old ones
    */
-  public async searchNearby(lat: number, lng: number, radius: number = MAP_CONFIG.DEFAULT_SEARCH_RADIUS_KM): Promise<RunnerProfile[]> {
+  public async updateAvailability(id: number | string, input: UpdateAvailabilityInput): Promise<RunnerAvailability> {
+    return httpClient.patch<RunnerAvailability>(`${this.endpoint}/${id}/availability`, input);
+  }
+
+  /**
+   * Block out time off
+   */
+  public async addTimeOff(id: number | string, input: TimeOffInput): Promise<TimeOff> {
+    return httpClient.post<TimeOff>(`${this.endpoint}/${id}/time-off`, input);
+  }
+
+  /**
+   * Remove a time off block
+   */
+  public async removeTimeOff(id: number | string, timeOffId: number): Promise<void> {
+    await httpClient.delete(`${this.endpoint}/${id}/time-off/${timeOffId}`);
+  }
+
+  /**
+   * Search for runners near a location, optionally only those available right now
+   */
+  public async searchNearby(
+    lat: number,
+    lng: number,
+    radius: number = MAP_CONFIG.DEFAULT_SEARCH_RADIUS_KM,
+    availableOnly: boolean = false
+  ): Promise<RunnerProfile[]> {
     const response = await httpClient.get<any>(`${this.endpoint}/search`, {
-      params: { lat, lng, radius },
+      params: availableOnly ? { lat, lng, radius, available: true } : { lat, lng, radius },
     });
 
     const profiles = response.data || response.runners || [];
     return profiles.map(normalizeRunnerProfile);
   }
 
+  /**
+   * Runners ranked for one of the current user's open jobs
+   */
+  public async getSuggestedRunners(jobId: number | string, limit?: number): Promise<SuggestedRunners> {
+    return httpClient.get<SuggestedRunners>(`/jobs/${jobId}/suggested-runners`, {
+      params: limit !== undefined ? { limit } : undefined,
+    });
+  }
+
   /**
    * Check if a runner is highly rated (4+ stars)
    */
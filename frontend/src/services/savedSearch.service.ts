@@ -0,0 +1,89 @@
+/**
+ * Saved Search Service
+ *
+ * Job searches a runner saves (area, radius, categories, minimum price) to be
+ * alerted when a new job matches: in the app, by email or by Web Push. A
+ * search can hold alerts during quiet hours or collect them into a daily
+ * digest.
+ *
+ * @module services/savedSearch
+ */
+
+import { httpClient } from './http.client';
+import type { Coordinates, JobCategory } from './job.service';
+
+export type AlertChannel = 'in_app' | 'email' | 'push';
+
+/**
+ * Times alerts are held, in the search's time zone; may span midnight
+ */
+export interface QuietHours {
+  start: string; // HH:MM
+  end: string;
+}
+
+export interface SavedSearch {
+  id: number;
+  name: string;
+  location: Coordinates;
+  radiusKm: number;
+  categories: JobCategory[]; // Empty matches any category
+  minPriceCents: number | null;
+  channels: AlertChannel[];
+  quietHours: QuietHours | null;
+  timezone: string;
+  digest: boolean;
+  isActive: boolean;
+  lastDigestAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateSavedSearchInput {
+  name: string;
+  location: Coordinates;
+  radiusKm: number;
+  categories?: JobCategory[];
+  minPriceCents?: number | null;
+  channels?: AlertChannel[];
+  quietHours?: QuietHours | null;
+  timezone?: string;
+  digest?: boolean;
+  isActive?: boolean;
+}
+
+export type UpdateSavedSearchInput = Partial<CreateSavedSearchInput>;
+
+/**
+ * Saved Search Service
+ */
+class SavedSearchService {
+  /**
+   * List the current runner's saved searches
+   */
+  public async getSearches(): Promise<SavedSearch[]> {
+    return httpClient.get<SavedSearch[]>('/saved-searches');
+  }
+
+  /**
+   * Save a search
+   */
+  public async createSearch(input: CreateSavedSearchInput): Promise<SavedSearch> {
+    return httpClient.post<SavedSearch>('/saved-searches', input);
+  }
+
+  /**
+   * Change a saved search
+   */
+  public async updateSearch(searchId: number, input: UpdateSavedSearchInput): Promise<SavedSearch> {
+    return httpClient.patch<SavedSearch>(`/saved-searches/${searchId}`, input);
+  }
+
+  /**
+   * Delete a saved search
+   */
+  public async deleteSearch(searchId: number): Promise<void> {
+    await httpClient.delete(`/saved-searches/${searchId}`);
+  }
+}
+
+export const savedSearchService = new SavedSearchService();
@@ -0,0 +1,74 @@
+/**
+ * Tip Service
+ *
+ * Tips from a client to the runner once a job's payment is confirmed. A tip
+ * is either paid to a platform invoice and passed on to the runner in full,
+ * or paid straight to an invoice from the runner's Lightning address.
+ *
+ * @module services/tip
+ */
+
+import { httpClient } from './http.client';
+
+export type TipMethod = 'invoice' | 'lightning_address';
+
+export type TipStatus = 'pending' | 'paid' | 'expired';
+
+/**
+ * A tip and its invoice
+ */
+export interface Tip {
+  id: number;
+  jobId: number;
+  method: TipMethod;
+  amountSats: number;
+  amountCents: number;
+  message: string | null;
+  status: TipStatus;
+  paymentRequest: string | null; // Only while the tip is waiting to be paid
+  paymentHash: string;
+  expiresAt: string;
+  paidAt: string | null;
+  createdAt: string;
+}
+
+export interface CreateTipInput {
+  amountCents: number;
+  method: TipMethod;
+  message?: string;
+}
+
+/**
+ * Tip Service
+ */
+class TipService {
+  /**
+   * Start a tip for the runner of a job (client only)
+   */
+  public async createTip(jobId: number | string, input: CreateTipInput): Promise<Tip> {
+    return httpClient.post<Tip>(`/jobs/${jobId}/tips`, input);
+  }
+
+  /**
+   * Tips of a job (client or assigned runner)
+   */
+  public async getJobTips(jobId: number | string): Promise<Tip[]> {
+    return httpClient.get<Tip[]>(`/jobs/${jobId}/tips`);
+  }
+
+  /**
+   * Get a tip, checking whether it has been paid
+   */
+  public async getTip(tipId: number): Promise<Tip> {
+    return httpClient.get<Tip>(`/tips/${tipId}`);
+  }
+
+  /**
+   * Confirm a tip with the preimage returned by the client's wallet
+   */
+  public async confirmTip(tipId: number, preimage?: string): Promise<Tip> {
+    return httpClient.post<Tip>(`/tips/${tipId}/confirm`, preimage ? { preimage } : {});
+  }
+}
+
+export const tipService = new TipService();
@@ -0,0 +1,67 @@
+/**
+ * Tracking Service
+ *
+ * Live runner location while a job is in progress. The runner's device sends
+ * pings; the client reads back the latest position, ETA and a short trail.
+ *
+ * @module services/tracking
+ */
+
+import { httpClient } from './http.client';
+
+/**
+ * Latest known runner position with an ETA to the next open stop
+ */
+export interface RunnerPosition {
+  lat: number;
+  lng: number;
+  accuracyM: number | null;
+  heading: number | null;
+  recordedAt: string;
+  nextStopId: number | null;
+  distanceKm: number | null;
+  etaMinutes: number | null;
+}
+
+/**
+ * Live view of a job's runner
+ */
+export interface LiveLocation {
+  jobId: number;
+  /** False once the job has left in_progress */
+  tracking: boolean;
+  position: RunnerPosition | null;
+  trail: Array<{ lat: number; lng: number; recordedAt: string }>;
+}
+
+/**
+ * Reading from the runner's device
+ */
+export interface LocationPingInput {
+  lat: number;
+  lng: number;
+  accuracy?: number;
+  heading?: number;
+  speed?: number;
+}
+
+/**
+ * Service class for live location operations
+ */
+class TrackingService {
+  /**
+   * Send the runner's current position (assigned runner, job in progress)
+   */
+  public async sendLocation(jobId: number | string, ping: LocationPingInput): Promise<RunnerPosition> {
+    return httpClient.post<RunnerPosition>(`/jobs/${jobId}/location`, ping);
+  }
+
+  /**
+   * Get the runner's live position and trail (job client or runner)
+   */
+  public async getLiveLocation(jobId: number | string): Promise<LiveLocation> {
+    return httpClient.get<LiveLocation>(`/jobs/${jobId}/location`);
+  }
+}
+
+export const trackingService = new TrackingService();
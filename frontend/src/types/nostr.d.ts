@@ -0,0 +1,29 @@
+/**
+ * NIP-07 Type Definitions
+ * The window.nostr signer injected by Nostr browser extensions and the Fedi wallet
+ */
+
+export interface NostrEvent {
+  id: string;
+  pubkey: string;
+  created_at: number;
+  kind: number;
+  tags: string[][];
+  content: string;
+  sig: string;
+}
+
+export type UnsignedNostrEvent = Pick<NostrEvent, 'kind' | 'created_at' | 'tags' | 'content'>;
+
+export interface NostrSigner {
+  getPublicKey(): Promise<string>;
+  signEvent(event: UnsignedNostrEvent): Promise<NostrEvent>;
+}
+
+declare global {
+  interface Window {
+    nostr?: NostrSigner;
+  }
+}
+
+export {};
@@ -0,0 +1,38 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { hasNostrSigner, signLoginChallenge } from '../nostr';
+
+describe('nostr utilities', () => {
+  afterEach(() => {
+    delete window.nostr;
+    vi.useRealTimers();
+  });
+
+  it('should report whether a NIP-07 signer is available', () => {
+    expect(hasNostrSigner()).toBe(false);
+
+    window.nostr = { getPublicKey: vi.fn(), signEvent: vi.fn() };
+
+    expect(hasNostrSigner()).toBe(true);
+  });
+
+  it('should sign the challenge as an event of the requested kind', async () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2030-01-01T00:00:00.000Z'));
+    const signEvent = vi.fn(async (event) => ({ ...event, id: 'id', pubkey: 'pubkey', sig: 'sig' }));
+    window.nostr = { getPublicKey: vi.fn(), signEvent };
+
+    const event = await signLoginChallenge('abc', 22242);
+
+    expect(signEvent).toHaveBeenCalledWith({
+      kind: 22242,
+      created_at: 1893456000,
+      tags: [['challenge', 'abc']],
+      content: '',
+    });
+    expect(event.sig).toBe('sig');
+  });
+
+  it('should explain how to get a signer when there is none', async () => {
+    await expect(signLoginChallenge('abc', 22242)).rejects.toThrow(/No Nostr signer found/);
+  });
+});
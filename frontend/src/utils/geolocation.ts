@@ -111,6 +111,43 @@ export async function reverseGeocode(coords: Coordinates): Promise<string | unde
   }
 }
 
+/**
+ * Geocode a typed address to coordinates
+ * Uses Nominatim (OpenStreetMap) - free, no API key required
+ */
+export async function geocodeAddress(query: string): Promise<LocationResult | undefined> {
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/search?format=json&limit=1&q=${encodeURIComponent(query)}`,
+      {
+        headers: {
+          'User-Agent': 'ErrandBit/1.0'
+        }
+      }
+    );
+
+    if (!response.ok) {
+      return undefined;
+    }
+
+    const [match] = await response.json();
+    if (!match) {
+      return undefined;
+    }
+
+    return {
+      coordinates: {
+        latitude: parseFloat(match.lat),
+        longitude: parseFloat(match.lon)
+      },
+      address: match.display_name
+    };
+  } catch (error) {
+    console.error('Geocoding error:', error);
+    return undefined;
+  }
+}
+
 /**
  * Calculate distance between two coordinates in kilometers
  * Uses Haversine formula
@@ -262,3 +262,50 @@ export function getResponsiveImageProps(baseUrl: string) {
     ]),
   }
 }
+
+/**
+ * Read a file as a base64 data URL
+ */
+export function fileToDataUrl(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
+
+/**
+ * Shrink a photo to fit within maxDimension and re-encode it as JPEG
+ * Files already under maxBytes are returned untouched
+ */
+export async function compressImage(
+  file: File,
+  maxBytes: number,
+  maxDimension: number = 1600,
+  quality: number = 0.8
+): Promise<string> {
+  if (file.size <= maxBytes) {
+    return fileToDataUrl(file)
+  }
+
+  const url = URL.createObjectURL(file)
+  try {
+    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+      const image = new Image()
+      image.onload = () => resolve(image)
+      image.onerror = () => reject(new Error(`Could not read ${file.name}`))
+      image.src = url
+    })
+
+    const scale = Math.min(1, maxDimension / Math.max(img.width, img.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.round(img.width * scale)
+    canvas.height = Math.round(img.height * scale)
+    canvas.getContext('2d')?.drawImage(img, 0, 0, canvas.width, canvas.height)
+
+    return canvas.toDataURL('image/jpeg', quality)
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Nostr Utility
+ * Signs login challenges with the NIP-07 signer of a Nostr browser extension
+ * or the Fedi wallet
+ */
+
+import type { NostrEvent } from '../types/nostr';
+
+/**
+ * Whether a NIP-07 signer is available
+ */
+export function hasNostrSigner(): boolean {
+  return typeof window !== 'undefined' && !!window.nostr;
+}
+
+/**
+ * Sign a login challenge as an event of the kind the server asked for
+ */
+export async function signLoginChallenge(challenge: string, kind: number): Promise<NostrEvent> {
+  if (!window.nostr) {
+    throw new Error('No Nostr signer found. Install a Nostr extension such as Alby or nos2x, or open ErrandBit in Fedi.');
+  }
+
+  return window.nostr.signEvent({
+    kind,
+    created_at: Math.floor(Date.now() / 1000),
+    tags: [['challenge', challenge]],
+    content: '',
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Recurrence rule helpers for recurring errands
+ * Builds the RRULE for the repeat options of the job form and describes
+ * stored rules in plain words.
+ */
+
+export type RepeatOption = 'none' | 'daily' | 'weekly' | 'biweekly' | 'monthly';
+
+export const REPEAT_LABELS: Record<RepeatOption, string> = {
+  none: 'Does not repeat',
+  daily: 'Every day',
+  weekly: 'Every week',
+  biweekly: 'Every 2 weeks',
+  monthly: 'Every month',
+};
+
+const WEEKDAY_CODES = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+const ORDINALS: Record<string, string> = { '1': 'first', '2': 'second', '3': 'third', '4': 'fourth', '5': 'fifth', '-1': 'last' };
+
+/**
+ * RRULE for a repeat option, anchored on the first errand's local day
+ */
+export function buildRecurrenceRule(option: RepeatOption, firstAt: Date): string | null {
+  switch (option) {
+    case 'none':
+      return null;
+    case 'daily':
+      return 'FREQ=DAILY';
+    case 'weekly':
+      return `FREQ=WEEKLY;BYDAY=${WEEKDAY_CODES[firstAt.getDay()]}`;
+    case 'biweekly':
+      return `FREQ=WEEKLY;INTERVAL=2;BYDAY=${WEEKDAY_CODES[firstAt.getDay()]}`;
+    case 'monthly':
+      return `FREQ=MONTHLY;BYMONTHDAY=${firstAt.getDate()}`;
+  }
+}
+
+/**
+ * Describe an RRULE, e.g. "Every 2 weeks on Monday, Thursday"
+ * Rules with parts this does not know are shown as they are
+ */
+export function describeRecurrenceRule(rrule: string): string {
+  const parts = new Map(
+    rrule
+      .replace(/^RRULE:/i, '')
+      .split(';')
+      .filter(Boolean)
+      .map((part) => part.toUpperCase().split('=') as [string, string])
+  );
+  const interval = Number(parts.get('INTERVAL') ?? 1);
+  const byDay = parts.get('BYDAY')?.split(',') ?? [];
+  const byMonthDay = parts.get('BYMONTHDAY')?.split(',') ?? [];
+
+  const dayName = (code: string): string | null => {
+    const match = code.match(/^([+-]?\d)?([A-Z]{2})$/);
+    const index = match ? WEEKDAY_CODES.indexOf(match[2]!) : -1;
+    if (!match || index < 0) return null;
+    if (!match[1]) return WEEKDAY_NAMES[index]!;
+    const ordinal = ORDINALS[String(Number(match[1]))];
+    return ordinal ? `the ${ordinal} ${WEEKDAY_NAMES[index]}` : null;
+  };
+  const days = byDay.map(dayName);
+  if (days.includes(null)) return rrule;
+
+  let text: string;
+  switch (parts.get('FREQ')) {
+    case 'DAILY':
+      text = interval === 1 ? 'Every day' : `Every ${interval} days`;
+      break;
+    case 'WEEKLY':
+      text = interval === 1 ? 'Every week' : `Every ${interval} weeks`;
+      break;
+    case 'MONTHLY':
+      text = interval === 1 ? 'Every month' : `Every ${interval} months`;
+      break;
+    default:
+      return rrule;
+  }
+
+  if (days.length > 0) {
+    text += ` on ${days.join(', ')}`;
+  } else if (byMonthDay.length > 0) {
+    text += ` on ${byMonthDay.map((day) => (day === '-1' ? 'the last day' : `day ${day}`)).join(', ')}`;
+  }
+
+  const count = parts.get('COUNT');
+  const until = parts.get('UNTIL')?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (count) text += `, ${count} times`;
+  if (until) text += `, until ${until[1]}-${until[2]}-${until[3]}`;
+
+  return text;
+}
@@ -0,0 +1,90 @@
+/**
+ * Web Push Utility
+ * Subscribes this browser to push notifications through the app's service
+ * worker and registers the subscription with the backend
+ */
+
+import { pushService } from '../services/push.service';
+
+/**
+ * Whether this browser can receive push notifications
+ */
+export function isPushSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'serviceWorker' in navigator &&
+    'PushManager' in window &&
+    'Notification' in window
+  );
+}
+
+/**
+ * Decode a base64url string, as VAPID keys are sent
+ */
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = (value + '='.repeat((4 - (value.length % 4)) % 4)).replace(/-/g, '+').replace(/_/g, '/');
+  const raw = atob(base64);
+  const bytes = new Uint8Array(raw.length);
+  for (let i = 0; i < raw.length; i++) {
+    bytes[i] = raw.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * Encode bytes as base64url, as the backend expects subscription keys
+ */
+function bytesToBase64Url(buffer: ArrayBuffer | null): string {
+  if (!buffer) return '';
+  let raw = '';
+  new Uint8Array(buffer).forEach((byte) => {
+    raw += String.fromCharCode(byte);
+  });
+  return btoa(raw).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Ask for permission, subscribe this browser and save the subscription
+ * Throws when push is unsupported, denied or not configured on the server
+ */
+export async function subscribeToPush(): Promise<void> {
+  if (!isPushSupported()) {
+    throw new Error('Push notifications are not supported by this browser');
+  }
+
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const publicKey = await pushService.getPublicKey();
+  const registration = await navigator.serviceWorker.ready;
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: base64UrlToBytes(publicKey),
+    }));
+
+  await pushService.subscribe({
+    endpoint: subscription.endpoint,
+    keys: {
+      p256dh: bytesToBase64Url(subscription.getKey('p256dh')),
+      auth: bytesToBase64Url(subscription.getKey('auth')),
+    },
+  });
+}
+
+/**
+ * Unsubscribe this browser and forget its subscription on the server
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  if (!isPushSupported()) return;
+
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.getSubscription();
+  if (!subscription) return;
+
+  await pushService.unsubscribe(subscription.endpoint);
+  await subscription.unsubscribe();
+}
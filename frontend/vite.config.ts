@@ -66,6 +66,8 @@ export default defineConfig(({ mode }) => ({
       },
       workbox: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg,woff2}'],
+        // Web Push handlers for saved search alerts
+        importScripts: ['/push-sw.js'],
         // Offline page support
         navigateFallback: '/index.html',
         navigateFallbackDenylist: [/^\/api/],